@@ -106,8 +106,8 @@ describe('ApiKeyPrompt', () => {
     // Mock the validateApiKey function to return true
     jest.spyOn(apiKeyStorage, 'validateApiKey').mockReturnValue(true);
     
-    // Mock the setApiKey function to return false (storage failure)
-    jest.spyOn(apiKeyStorage, 'setApiKey').mockReturnValue(false);
+    // Mock the setApiKeyAsync function to resolve to false (storage failure)
+    jest.spyOn(apiKeyStorage, 'setApiKeyAsync').mockResolvedValue(false);
     
     const { user } = renderWithProviders(<ApiKeyPrompt {...defaultProps} />);
     
@@ -132,8 +132,8 @@ describe('ApiKeyPrompt', () => {
     // Mock the validateApiKey function to return true
     jest.spyOn(apiKeyStorage, 'validateApiKey').mockReturnValue(true);
     
-    // Mock the setApiKey function to return true (storage success)
-    jest.spyOn(apiKeyStorage, 'setApiKey').mockReturnValue(true);
+    // Mock the setApiKeyAsync function to resolve to true (storage success)
+    jest.spyOn(apiKeyStorage, 'setApiKeyAsync').mockResolvedValue(true);
     
     const { user } = renderWithProviders(<ApiKeyPrompt {...defaultProps} />);
     
@@ -92,7 +92,7 @@ describe('Layout component', () => {
         statusCode: 401
       },
       loading: false,
-      setApiKey: jest.fn().mockReturnValue(true),
+      setApiKey: jest.fn().mockResolvedValue(true),
       removeApiKey: jest.fn(),
       validateApiKey: jest.fn(),
       hasApiKey: jest.fn().mockReturnValue(false)
@@ -10,6 +10,7 @@ import { API_KEY } from '../../src/constants/storageKeys';
 jest.mock('../../src/services/storage/apiKeyStorage', () => ({
   getApiKey: jest.fn(),
   setApiKey: jest.fn(),
+  setApiKeyAsync: jest.fn(),
   removeApiKey: jest.fn(),
   validateApiKey: jest.fn(),
   hasApiKey: jest.fn()
@@ -29,6 +30,7 @@ describe('useApiKey', () => {
     // Mock apiKeyStorage methods
     jest.spyOn(apiKeyStorage, 'getApiKey');
     jest.spyOn(apiKeyStorage, 'setApiKey');
+    jest.spyOn(apiKeyStorage, 'setApiKeyAsync');
     jest.spyOn(apiKeyStorage, 'removeApiKey');
     jest.spyOn(apiKeyStorage, 'validateApiKey');
     jest.spyOn(apiKeyStorage, 'hasApiKey');
@@ -95,7 +97,7 @@ describe('useApiKey', () => {
     // Setup mock to return success
     const testApiKey = 'test-api-key-123456789abcdef';
     (apiKeyStorage.validateApiKey as jest.Mock).mockReturnValue(true);
-    (apiKeyStorage.setApiKey as jest.Mock).mockReturnValue(true);
+    (apiKeyStorage.setApiKeyAsync as jest.Mock).mockResolvedValue(true);
     
     // Render the hook
     const { result } = renderHookWithProviders(() => useApiKey());
@@ -104,12 +106,12 @@ describe('useApiKey', () => {
     await waitFor(() => expect(result.current.loading).toBe(false));
     
     // Call setApiKey
-    act(() => {
-      result.current.setApiKey(testApiKey);
+    await act(async () => {
+      await result.current.setApiKey(testApiKey);
     });
     
     // Check that the API key was set
-    expect(apiKeyStorage.setApiKey).toHaveBeenCalledWith(testApiKey);
+    expect(apiKeyStorage.setApiKeyAsync).toHaveBeenCalledWith(testApiKey);
     expect(result.current.apiKey).toBe(testApiKey);
   });
 
@@ -117,9 +119,7 @@ describe('useApiKey', () => {
     // Setup mocks
     const testApiKey = 'test-api-key-123456789abcdef';
     (apiKeyStorage.validateApiKey as jest.Mock).mockReturnValue(true);
-    (apiKeyStorage.setApiKey as jest.Mock).mockImplementation(() => {
-      throw new Error('Failed to store API key');
-    });
+    (apiKeyStorage.setApiKeyAsync as jest.Mock).mockRejectedValue(new Error('Failed to store API key'));
     
     // Render the hook
     const { result } = renderHookWithProviders(() => useApiKey());
@@ -128,8 +128,8 @@ describe('useApiKey', () => {
     await waitFor(() => expect(result.current.loading).toBe(false));
     
     // Call setApiKey
-    act(() => {
-      result.current.setApiKey(testApiKey);
+    await act(async () => {
+      await result.current.setApiKey(testApiKey);
     });
     
     // Check the error state
@@ -7,7 +7,9 @@ import {
   FieldType 
 } from '../../src/types/form.types';
 import { SpotType } from '../../src/types/api.types';
-import { VALIDATION_PATTERNS } from '../../src/constants/validation';
+import { VALIDATION_PATTERNS, VALIDATION_RULES } from '../../src/constants/validation';
+import { setPassesCache } from '../../src/services/storage/cacheStorage';
+import { createMockParkHubPass } from '../__mocks__/passesMock';
 
 describe('useForm hook', () => {
   // Create a test form configuration
@@ -321,6 +323,28 @@ describe('useBatchForm hook', () => {
     expect(result.current.batchFormState.passes[0].data.lotId).toBe('');
   });
 
+  test('should replace the batch with loaded passes for the current event', () => {
+    const mockConfig = createMockBatchFormConfig();
+    const { result } = renderHook(() => useBatchForm(mockConfig));
+
+    act(() => {
+      result.current.handleAddForm();
+      result.current.handleLoadForms(['ACC1', 'ACC2'].map(accountId => ({
+        eventId: 'EV99999',
+        accountId,
+        barcode: '',
+        customerName: 'Sponsor Guest',
+        spotType: SpotType.VIP,
+        lotId: 'L-100'
+      })));
+    });
+
+    const { passes } = result.current.batchFormState;
+    expect(passes.map(pass => pass.data.accountId)).toEqual(['ACC1', 'ACC2']);
+    expect(passes.every(pass => pass.data.eventId === 'EV12345')).toBe(true);
+    expect(passes[0].state.fields.lotId).toMatchObject({ value: 'L-100', touched: false });
+  });
+
   test('should remove pass form when handleRemoveForm is called', () => {
     const mockConfig = createMockBatchFormConfig();
     const { result } = renderHook(() => useBatchForm(mockConfig));
@@ -521,4 +545,39 @@ describe('useBatchForm hook', () => {
     // Check that form is marked as invalid
     expect(result.current.batchFormState.isValid).toBe(false);
   });
+  test('should flag duplicate barcodes within the batch and against cached passes before submitting', async () => {
+    localStorage.clear();
+    setPassesCache('EV12345', [createMockParkHubPass({ eventId: 'EV12345', barcode: 'BC999999' })]);
+    
+    const mockSubmit = jest.fn().mockResolvedValue(undefined);
+    const { result } = renderHook(() => useBatchForm(createMockBatchFormConfig({ onSubmit: mockSubmit })));
+    
+    act(() => {
+      result.current.handleImportForms(['BC100001', 'BC100001', 'BC999999', 'BC100002'].map(barcode => ({
+        eventId: 'EV12345',
+        accountId: 'ACC123',
+        barcode,
+        customerName: 'John Doe',
+        spotType: SpotType.REGULAR,
+        lotId: 'LOT-A'
+      })));
+    });
+    
+    const barcodeErrors = result.current.batchFormState.passes.map(pass => pass.state.fields.barcode.error);
+    expect(barcodeErrors).toEqual([
+      VALIDATION_RULES.barcode.errorMessages.batchDuplicate,
+      VALIDATION_RULES.barcode.errorMessages.batchDuplicate,
+      VALIDATION_RULES.barcode.errorMessages.duplicate,
+      null
+    ]);
+    
+    await expect(async () => {
+      await act(async () => {
+        await result.current.handleSubmit();
+      });
+    }).rejects.toThrow('Form validation failed');
+    expect(mockSubmit).not.toHaveBeenCalled();
+    
+    localStorage.clear();
+  });
 });
\ No newline at end of file
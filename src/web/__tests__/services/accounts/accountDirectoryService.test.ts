@@ -0,0 +1,109 @@
+import { AccountDirectoryService } from '../../../src/services/accounts/accountDirectoryService';
+import { getAccountDirectory } from '../../../src/services/storage/accountDirectoryStorage';
+import { createMockEvent } from '../../__mocks__/eventsMock';
+import { createMockParkHubPass } from '../../__mocks__/passesMock';
+
+/**
+ * Builds an event
+ */
+const createEvent = (id: string, name: string) =>
+  createMockEvent({ id, name, date: new Date(2026, 10, 2, 19) });
+
+/**
+ * Builds a pass created on a day of October 2026
+ */
+const createPass = (id: string, accountId: string, customerName: string, day: number, eventId = 'EV1') =>
+  createMockParkHubPass({
+    id,
+    eventId,
+    accountId,
+    customerName,
+    createdAt: new Date(Date.UTC(2026, 9, day, 12)).toISOString()
+  });
+
+describe('AccountDirectoryService', () => {
+  let service: AccountDirectoryService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    service = new AccountDirectoryService();
+  });
+
+  it('should group passes by account with the newest pass first', () => {
+    const directory = service.mergePasses({}, [
+      createPass('P1', 'ACC-42', 'Jane Doe', 1),
+      createPass('P2', 'ACC-42', 'Jane Smith', 9, 'EV2'),
+      createPass('P3', 'ACC-7', 'John Roe', 5)
+    ], [createEvent('EV1', 'Opening Game'), createEvent('EV2', 'Homecoming')]);
+
+    expect(Object.keys(directory).sort()).toEqual(['ACC-42', 'ACC-7']);
+    expect(directory['ACC-42']).toMatchObject({
+      customerName: 'Jane Smith',
+      otherNames: ['Jane Doe'],
+      firstSeen: '2026-10-01T12:00:00.000Z',
+      lastSeen: '2026-10-09T12:00:00.000Z'
+    });
+    expect(directory['ACC-42'].history.map(entry => [entry.passId, entry.eventName])).toEqual([
+      ['P2', 'Homecoming'],
+      ['P1', 'Opening Game']
+    ]);
+  });
+
+  it('should update passes already recorded and skip passes without an account', () => {
+    const first = service.mergePasses({}, [createPass('P1', 'ACC-42', 'Jane Doe', 1)], [createEvent('EV1', 'Opening Game')]);
+    const second = service.mergePasses(first, [
+      { ...createPass('P1', ' ACC-42 ', 'JANE DOE', 1), status: 'cancelled' },
+      createPass('P2', '', 'Nobody', 2)
+    ]);
+
+    expect(Object.keys(second)).toEqual(['ACC-42']);
+    expect(second['ACC-42'].history).toHaveLength(1);
+    expect(second['ACC-42'].history[0]).toMatchObject({ status: 'cancelled', eventName: 'Opening Game' });
+    expect(second['ACC-42'].otherNames).toEqual([]);
+    expect(first['ACC-42'].history[0].status).toBe('active');
+  });
+
+  it('should rank account ID matches above name matches', () => {
+    const directory = service.mergePasses({}, [
+      createPass('P1', 'JD-100', 'Alex Moore', 1),
+      createPass('P2', 'ACC-1', 'Jordan Dale', 2),
+      createPass('P3', 'ACC-2', 'Sam Lee', 3),
+      createPass('P4', 'ACC-2', 'Sam Jd', 4)
+    ]);
+
+    expect(service.searchAccounts(directory, 'jd').map(account => account.accountId)).toEqual(['JD-100', 'ACC-2']);
+    expect(service.searchAccounts(directory, 'jord').map(account => account.accountId)).toEqual(['ACC-1']);
+    expect(service.searchAccounts(directory, 'lee').map(account => account.accountId)).toEqual(['ACC-2']);
+  });
+
+  it('should suggest the most recently seen accounts for a blank query', () => {
+    const directory = service.mergePasses({}, [
+      createPass('P1', 'ACC-1', 'Alex Moore', 1),
+      createPass('P2', 'ACC-2', 'Jordan Dale', 8),
+      createPass('P3', 'ACC-3', 'Sam Lee', 4)
+    ]);
+
+    expect(service.searchAccounts(directory, '  ', 2).map(account => account.accountId)).toEqual(['ACC-2', 'ACC-3']);
+  });
+
+  it('should keep a directory per venue and notify listeners of changes', () => {
+    const listener = jest.fn();
+    const unsubscribe = service.subscribe(listener);
+
+    service.recordPasses([createPass('P1', 'ACC-42', 'Jane Doe', 1)], [], 'LM1');
+    service.recordPasses([createPass('P2', 'ACC-7', 'John Roe', 2)], [], 'LM2');
+
+    expect(Object.keys(getAccountDirectory('LM1'))).toEqual(['ACC-42']);
+    expect(Object.keys(getAccountDirectory('LM2'))).toEqual(['ACC-7']);
+    expect(listener.mock.calls).toEqual([['LM1'], ['LM2']]);
+
+    expect(service.removeAccount('ACC-42', 'LM1')).toBe(true);
+    expect(service.removeAccount('ACC-42', 'LM1')).toBe(false);
+    expect(getAccountDirectory('LM1')).toEqual({});
+
+    unsubscribe();
+    service.clear('LM2');
+    expect(getAccountDirectory('LM2')).toEqual({});
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,104 @@
+import { analyticsService } from '../../../src/services/analytics/analyticsService';
+import { ParkHubPass } from '../../../src/types/api.types';
+import { AnalyticsInterval, AnalyticsRangePreset } from '../../../src/types/analytics.types';
+import { createMockEvent } from '../../__mocks__/eventsMock';
+import { createMockParkHubPass } from '../../__mocks__/passesMock';
+
+/** Current time used by every test */
+const NOW = new Date(2026, 9, 19, 15, 30);
+
+/**
+ * Builds a pass created on a day of October 2026
+ */
+const createPass = ({ day, ...overrides }: Partial<ParkHubPass> & { day: number }) =>
+  createMockParkHubPass({ createdAt: new Date(2026, 9, day, 12).toISOString(), ...overrides });
+
+/**
+ * Builds an event
+ */
+const createEvent = (id: string, name: string) =>
+  createMockEvent({ id, name, date: new Date(2026, 10, 1) });
+
+describe('AnalyticsService', () => {
+  describe('getPresetRange', () => {
+    it('should cover the preset number of days, including today', () => {
+      const range = analyticsService.getPresetRange(AnalyticsRangePreset.LAST_7_DAYS, NOW);
+
+      expect(range.from).toEqual(new Date(2026, 9, 13, 0, 0, 0, 0));
+      expect(range.to).toEqual(new Date(2026, 9, 19, 23, 59, 59, 999));
+    });
+
+    it('should leave all time and custom ranges open', () => {
+      expect(analyticsService.getPresetRange(AnalyticsRangePreset.ALL_TIME, NOW)).toEqual({ from: null, to: null });
+      expect(analyticsService.getPresetRange(AnalyticsRangePreset.CUSTOM, NOW)).toEqual({ from: null, to: null });
+    });
+  });
+
+  describe('aggregatePasses', () => {
+    const events = [createEvent('EV1', 'Home Opener'), createEvent('EV2', 'Rivalry Game')];
+    const passes = [
+      createPass({ day: 10, eventId: 'EV1', spotType: 'VIP' }),
+      createPass({ day: 12, eventId: 'EV2', spotType: 'Premium', lotId: 'LOT-B' }),
+      createPass({ day: 12, eventId: 'EV2', spotType: 'premium', status: 'cancelled', lotId: 'LOT-B' }),
+      createPass({ day: 15, eventId: 'EV2' }),
+      createPass({ day: 1, eventId: 'EV1' })
+    ];
+    const range = { from: new Date(2026, 9, 10), to: new Date(2026, 9, 15) };
+
+    it('should group passes created within the range', () => {
+      const analytics = analyticsService.aggregatePasses(passes, events, range, NOW);
+
+      expect(analytics.totalPasses).toBe(4);
+      expect(analytics.eventsWithPasses).toBe(2);
+      expect(analytics.byEvent).toEqual([
+        { key: 'EV2', label: 'Rivalry Game (11/01/2026)', value: 3 },
+        { key: 'EV1', label: 'Home Opener (11/01/2026)', value: 1 }
+      ]);
+      expect(analytics.bySpotType.map(datum => datum.value)).toEqual([1, 1, 2]);
+      expect(analytics.byLot).toEqual([
+        { key: 'LOT-A', label: 'LOT-A', value: 2 },
+        { key: 'LOT-B', label: 'LOT-B', value: 2 }
+      ]);
+      expect(analytics.byStatus.find(datum => datum.key === 'active')?.value).toBe(3);
+      expect(analytics.byStatus.find(datum => datum.key === 'cancelled')?.value).toBe(1);
+    });
+
+    it('should count passes per day, including days without passes', () => {
+      const analytics = analyticsService.aggregatePasses(passes, events, range, NOW);
+
+      expect(analytics.interval).toBe(AnalyticsInterval.DAY);
+      expect(analytics.byCreationDate.map(datum => datum.value)).toEqual([1, 0, 2, 0, 0, 1]);
+      expect(analytics.byCreationDate[0]).toEqual({ key: '2026-10-10', label: '10/10', value: 1 });
+    });
+
+    it('should start open ranges at the oldest pass and end them today', () => {
+      const analytics = analyticsService.aggregatePasses(passes, events, { from: null, to: null }, NOW);
+
+      expect(analytics.totalPasses).toBe(5);
+      expect(analytics.byCreationDate).toHaveLength(19);
+      expect(analytics.byCreationDate[18].key).toBe('2026-10-19');
+    });
+
+    it('should count passes per week for long ranges', () => {
+      const longRange = { from: new Date(2026, 6, 1), to: new Date(2026, 9, 19) };
+
+      const analytics = analyticsService.aggregatePasses(passes, events, longRange, NOW);
+
+      expect(analytics.interval).toBe(AnalyticsInterval.WEEK);
+      // 2026-06-29 is the Monday of the week containing July 1
+      expect(analytics.byCreationDate[0].key).toBe('2026-06-29');
+      expect(analytics.byCreationDate.reduce((sum, datum) => sum + datum.value, 0)).toBe(5);
+      // October 12 and 15 fall in the week starting on Monday October 12
+      expect(analytics.byCreationDate.find(datum => datum.key === '2026-10-12')?.value).toBe(3);
+    });
+
+    it('should return empty charts when there are no passes', () => {
+      const analytics = analyticsService.aggregatePasses([], events, { from: null, to: null }, NOW);
+
+      expect(analytics.totalPasses).toBe(0);
+      expect(analytics.byEvent).toEqual([]);
+      expect(analytics.byCreationDate).toEqual([]);
+      expect(analytics.bySpotType.every(datum => datum.value === 0)).toBe(true);
+    });
+  });
+});
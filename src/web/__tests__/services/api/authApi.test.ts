@@ -0,0 +1,111 @@
+import axios from 'axios';
+import { webcrypto } from 'crypto';
+import { TextEncoder, TextDecoder } from 'util';
+import { authApi } from '../../../src/services/api/authApi';
+import { apiClient } from '../../../src/services/api/apiClient';
+import { apiKeyVault } from '../../../src/services/vault/apiKeyVault';
+import { apiKeyStorage } from '../../../src/services/storage/apiKeyStorage';
+import { ApiKeyStatus } from '../../../src/types/auth.types';
+import { ErrorCode, ErrorType } from '../../../src/types/error.types';
+
+const API_KEY = 'abcdefghijklmnopqrstuvwxyz0123456789';
+const LANDMARK = 'NORTH-GARAGE';
+
+/**
+ * Creates an error like the ones Axios rejects with
+ * @param status - HTTP status of the response, or undefined if there was no response
+ * @param code - Error code in the response body
+ */
+const createAxiosError = (status?: number, code?: string) => ({
+  isAxiosError: true,
+  message: status ? `Request failed with status code ${status}` : 'Network Error',
+  code: status ? 'ERR_BAD_REQUEST' : 'ERR_NETWORK',
+  response: status
+    ? { status, data: { success: false, data: null, error: { code, message: 'Rejected by ParkHub' } } }
+    : undefined
+});
+
+describe('authApi.verifyApiKey', () => {
+  let get: jest.SpyInstance;
+
+  beforeEach(() => {
+    get = jest.spyOn(axios, 'get');
+  });
+
+  it('should verify the key by requesting the events of the venue', async () => {
+    get.mockResolvedValue({ status: 200, data: { success: true, data: [], error: null } });
+    const apiKeyInUse = apiClient.getApiKey();
+
+    const result = await authApi.verifyApiKey(API_KEY, LANDMARK);
+
+    expect(result.status).toBe(ApiKeyStatus.VALID);
+    expect(result.landMarkId).toBe(LANDMARK);
+    expect(result.error).toBeNull();
+    expect(get).toHaveBeenCalledTimes(1);
+    expect(get.mock.calls[0][0]).toContain(`/events/${LANDMARK}`);
+    expect(get.mock.calls[0][1].headers).toEqual({ Authorization: `Bearer ${API_KEY}` });
+    expect(apiClient.getApiKey()).toBe(apiKeyInUse);
+  });
+
+  it.each([
+    ['an unknown key', 401, 'invalid_api_key', ApiKeyStatus.INVALID, ErrorCode.INVALID_API_KEY],
+    ['an expired key', 401, 'expired_api_key', ApiKeyStatus.EXPIRED, ErrorCode.EXPIRED_API_KEY],
+    ['a key forbidden for the venue', 403, 'forbidden', ApiKeyStatus.FORBIDDEN, ErrorCode.LANDMARK_FORBIDDEN]
+  ])('should report %s', async (_, status, code, expectedStatus, expectedCode) => {
+    get.mockRejectedValue(createAxiosError(status, code));
+
+    const result = await authApi.verifyApiKey(API_KEY, LANDMARK);
+
+    expect(result.status).toBe(expectedStatus);
+    expect(result.error?.type).toBe(ErrorType.AUTHENTICATION);
+    expect(result.error?.code).toBe(expectedCode);
+  });
+
+  it('should report ParkHub as unreachable rather than the key as invalid', async () => {
+    get.mockRejectedValue(createAxiosError());
+
+    const result = await authApi.verifyApiKey(API_KEY, LANDMARK);
+
+    expect(result.status).toBe(ApiKeyStatus.UNREACHABLE);
+    expect(result.error?.type).toBe(ErrorType.NETWORK);
+  });
+
+  it('should not send a request for an empty key', async () => {
+    const result = await authApi.verifyApiKey('  ', LANDMARK);
+
+    expect(result.status).toBe(ApiKeyStatus.INVALID);
+    expect(result.error?.code).toBe(ErrorCode.MISSING_API_KEY);
+    expect(get).not.toHaveBeenCalled();
+  });
+});
+
+describe('authApi.storeApiKey', () => {
+  const NEW_API_KEY = 'ZYXWVUTSRQPONMLKJIHGFEDCBA9876543210';
+
+  beforeAll(() => {
+    // jsdom provides neither the Web Crypto API nor TextEncoder, so use Node's
+    Object.defineProperty(global, 'crypto', { value: webcrypto, configurable: true });
+    Object.assign(global, { TextEncoder, TextDecoder });
+  });
+
+  beforeEach(() => {
+    localStorage.clear();
+    apiKeyVault.lock();
+    jest.spyOn(axios, 'get').mockResolvedValue({ status: 200, data: { success: true, data: [], error: null } });
+  });
+
+  it('should store a new key in the vault before reporting it stored', async () => {
+    await apiKeyVault.create('correct horse battery', API_KEY);
+
+    const result = await authApi.storeApiKey(NEW_API_KEY);
+
+    expect(result.success).toBe(true);
+    expect(apiKeyVault.getSecret()).toBe(NEW_API_KEY);
+    expect(apiClient.getApiKey()).toBe(NEW_API_KEY);
+
+    // Reloading the app and unlocking the vault gives the new key
+    apiKeyVault.lock();
+    await expect(apiKeyVault.unlock('correct horse battery')).resolves.toBe(NEW_API_KEY);
+    expect(apiKeyStorage.getApiKey()).toBe(NEW_API_KEY);
+  });
+});
@@ -5,12 +5,15 @@ import {
   GetPassesParams, 
   CreatePassRequest, 
   CreatePassResponse, 
-  BatchPassCreationResult 
+  BatchPassCreationResult,
+  UpdatePassRequest,
+  RequestPriority
 } from '../../../src/services/api/types';
 import { 
   LANDMARK_ID, 
   buildPassesUrl, 
-  buildCreatePassUrl 
+  buildCreatePassUrl,
+  buildPassUrl
 } from '../../../src/constants/apiEndpoints';
 import { 
   mockParkHubPasses, 
@@ -23,6 +26,7 @@ import {
   createValidationError, 
   createServerError 
 } from '../../__mocks__/apiResponseMock';
+import { BatchProgressEventType } from '../../../src/types/batchJob.types';
 
 // Mock the apiClient
 jest.mock('../../../src/services/api/apiClient');
@@ -35,6 +39,8 @@ describe('PassesApi', () => {
     // Setup standard mocks
     (apiClient.get as jest.Mock) = jest.fn();
     (apiClient.post as jest.Mock) = jest.fn();
+    (apiClient.put as jest.Mock) = jest.fn();
+    (apiClient.delete as jest.Mock) = jest.fn();
   });
 
   afterEach(() => {
@@ -123,7 +129,11 @@ describe('PassesApi', () => {
       const result = await passesApi.createPass(passData);
 
       // Verify API client was called correctly
-      expect(apiClient.post).toHaveBeenCalledWith(buildCreatePassUrl(), passData);
+      expect(apiClient.post).toHaveBeenCalledWith(
+        buildCreatePassUrl(),
+        passData,
+        expect.objectContaining({ headers: { 'Idempotency-Key': expect.any(String) } })
+      );
       
       // Verify result contains expected data
       expect(result.success).toBe(true);
@@ -166,13 +176,52 @@ describe('PassesApi', () => {
       const result = await passesApi.createPass(passData);
 
       // Verify API client was called correctly
-      expect(apiClient.post).toHaveBeenCalledWith(buildCreatePassUrl(), passData);
+      expect(apiClient.post).toHaveBeenCalledWith(
+        buildCreatePassUrl(),
+        passData,
+        expect.objectContaining({ headers: { 'Idempotency-Key': expect.any(String) } })
+      );
       
       // Verify error handling
       expect(result.success).toBe(false);
       expect(result.data).toBeNull();
       expect(result.error).toEqual(errorResponse.error);
     });
+
+    it('should send the given idempotency key and check for an existing pass before a retry', async () => {
+      const passData: CreatePassRequest = {
+        eventId: 'EV12345',
+        accountId: 'ACC123',
+        barcode: 'BC100001',
+        customerName: 'John Doe',
+        spotType: 'Regular',
+        lotId: 'LOT-A'
+      };
+      (apiClient.post as jest.Mock).mockResolvedValue(createMockPassCreationResponse('P12345'));
+
+      // Call the method with a key
+      await passesApi.createPass(passData, undefined, 'key-1');
+
+      // Verify the key is sent as a header
+      const config = (apiClient.post as jest.Mock).mock.calls[0][2];
+      expect(config.headers).toEqual({ 'Idempotency-Key': 'key-1' });
+
+      // A pass created by an earlier attempt is returned instead of sending the request again
+      (apiClient.get as jest.Mock).mockResolvedValue(createSuccessResponse([
+        createMockParkHubPass({ id: 'P99', barcode: 'BC100001', accountId: 'ACC123', customerName: 'John Doe' })
+      ]));
+      await expect(config.reconcile()).resolves.toEqual({
+        success: true,
+        data: { success: true, passId: 'P99' },
+        error: null
+      });
+
+      // A different pass with the same barcode is left for the API to reject
+      (apiClient.get as jest.Mock).mockResolvedValue(createSuccessResponse([
+        createMockParkHubPass({ id: 'P98', barcode: 'BC100001', accountId: 'ACC999', customerName: 'Someone Else' })
+      ]));
+      await expect(config.reconcile()).resolves.toBeNull();
+    });
   });
 
   // Tests for createMultiplePasses
@@ -209,8 +258,8 @@ describe('PassesApi', () => {
       const result = await passesApi.createMultiplePasses(passesData);
 
       // Verify API client was called correctly for each pass
-      expect(apiClient.post).toHaveBeenNthCalledWith(1, buildCreatePassUrl(), passesData[0]);
-      expect(apiClient.post).toHaveBeenNthCalledWith(2, buildCreatePassUrl(), passesData[1]);
+      expect(apiClient.post).toHaveBeenNthCalledWith(1, buildCreatePassUrl(), passesData[0], expect.objectContaining({ priority: RequestPriority.BULK }));
+      expect(apiClient.post).toHaveBeenNthCalledWith(2, buildCreatePassUrl(), passesData[1], expect.objectContaining({ priority: RequestPriority.BULK }));
       
       // Verify result contains expected data
       expect(result.totalSuccess).toBe(2);
@@ -262,6 +311,73 @@ describe('PassesApi', () => {
       expect(result.failed[0].error.code).toBe('duplicate_barcode');
     });
 
+    it('should report progress after each pass and each chunk', async () => {
+      // Twelve passes are sent in two chunks
+      const passesData: CreatePassRequest[] = Array.from({ length: 12 }, (_, index) => ({
+        eventId: 'EV12345',
+        accountId: 'ACC123',
+        barcode: `BC2000${String(index).padStart(2, '0')}`,
+        customerName: 'John Doe',
+        spotType: 'Regular',
+        lotId: 'LOT-A'
+      }));
+      (apiClient.post as jest.Mock).mockResolvedValue(createMockPassCreationResponse('P12345'));
+      const onProgress = jest.fn();
+
+      // Call the method
+      await passesApi.createMultiplePasses(passesData, undefined, { onProgress });
+
+      // Verify one event per pass and one per chunk
+      const events = onProgress.mock.calls.map(([progress]) => progress);
+      expect(events.filter(progress => progress.type === BatchProgressEventType.PASS)).toHaveLength(12);
+      expect(events.filter(progress => progress.type === BatchProgressEventType.CHUNK)).toHaveLength(2);
+      expect(events[10]).toEqual(expect.objectContaining({
+        type: BatchProgressEventType.CHUNK,
+        total: 12,
+        completed: 10,
+        succeeded: 10,
+        failed: 0,
+        completedChunks: 1,
+        totalChunks: 2
+      }));
+      expect(events[events.length - 1]).toEqual(expect.objectContaining({ completed: 12, completedChunks: 2 }));
+    });
+
+    it('should stop sending chunks once cancelled and report the passes not sent', async () => {
+      const passesData: CreatePassRequest[] = Array.from({ length: 12 }, (_, index) => ({
+        eventId: 'EV12345',
+        accountId: 'ACC123',
+        barcode: `BC3000${String(index).padStart(2, '0')}`,
+        customerName: 'Jane Smith',
+        spotType: 'Regular',
+        lotId: 'LOT-A'
+      }));
+      (apiClient.post as jest.Mock).mockResolvedValue(createMockPassCreationResponse('P12345'));
+
+      // Cancel as soon as the first chunk has been answered
+      const abortController = new AbortController();
+      const onProgress = jest.fn(progress => {
+        if (progress.type === BatchProgressEventType.CHUNK) {
+          abortController.abort();
+        }
+      });
+
+      // Call the method
+      const result = await passesApi.createMultiplePasses(passesData, undefined, {
+        onProgress,
+        signal: abortController.signal
+      });
+
+      // Verify only the first chunk was sent
+      expect(apiClient.post).toHaveBeenCalledTimes(10);
+      expect(result.cancelled).toBe(true);
+      expect(result.totalSuccess).toBe(10);
+      expect(result.notSent).toEqual([
+        { barcode: 'BC300010', customerName: 'Jane Smith' },
+        { barcode: 'BC300011', customerName: 'Jane Smith' }
+      ]);
+    });
+
     it('should throw an error if an empty array is provided', async () => {
       // Call the method with an empty array
       await expect(passesApi.createMultiplePasses([])).rejects.toThrow(
@@ -364,4 +480,71 @@ describe('PassesApi', () => {
       });
     });
   });
+
+  // Tests for updatePass
+  describe('updatePass', () => {
+    it('should send only the changed fields to the pass URL', async () => {
+      const updateData: UpdatePassRequest = { customerName: 'Jon Doe' };
+      (apiClient.put as jest.Mock).mockResolvedValue(
+        createSuccessResponse({ success: true, passId: 'P12345' })
+      );
+
+      const result = await passesApi.updatePass('P12345', updateData, LANDMARK_ID);
+
+      expect(apiClient.put).toHaveBeenCalledWith(
+        buildPassUrl({ passId: 'P12345', landMarkId: LANDMARK_ID }),
+        updateData
+      );
+      expect(result.success).toBe(true);
+      expect(result.data?.passId).toBe('P12345');
+    });
+
+    it('should reject updates without a pass ID or with empty fields', async () => {
+      await expect(passesApi.updatePass('', { customerName: 'Jon Doe' })).rejects.toThrow(
+        'Pass ID is required for updating a pass'
+      );
+      await expect(passesApi.updatePass('P12345', {})).rejects.toThrow(
+        'At least one non-empty field is required to update a pass'
+      );
+      await expect(passesApi.updatePass('P12345', { customerName: ' ' })).rejects.toThrow(
+        'At least one non-empty field is required to update a pass'
+      );
+
+      expect(apiClient.put).not.toHaveBeenCalled();
+    });
+  });
+
+  // Tests for cancelPass and reactivatePass
+  describe('cancelPass and reactivatePass', () => {
+    it('should cancel a pass with a DELETE request', async () => {
+      (apiClient.delete as jest.Mock).mockResolvedValue(
+        createSuccessResponse({ success: true, passId: 'P12345', status: 'cancelled' })
+      );
+
+      const result = await passesApi.cancelPass('P12345', LANDMARK_ID);
+
+      expect(apiClient.delete).toHaveBeenCalledWith(
+        buildPassUrl({ passId: 'P12345', landMarkId: LANDMARK_ID })
+      );
+      expect(result.data?.status).toBe('cancelled');
+    });
+
+    it('should reactivate a pass by setting its status to active', async () => {
+      (apiClient.put as jest.Mock).mockResolvedValue(
+        createSuccessResponse({ success: true, passId: 'P12345', status: 'active' })
+      );
+
+      await passesApi.reactivatePass('P12345', LANDMARK_ID);
+
+      expect(apiClient.put).toHaveBeenCalledWith(
+        buildPassUrl({ passId: 'P12345', landMarkId: LANDMARK_ID }),
+        { status: 'active' }
+      );
+    });
+
+    it('should throw an error if passId is not provided', async () => {
+      await expect(passesApi.cancelPass('')).rejects.toThrow('Pass ID is required for cancelling a pass');
+      expect(apiClient.delete).not.toHaveBeenCalled();
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,135 @@
+import { RequestScheduler, parseRetryAfter } from '../../../src/services/api/requestScheduler';
+import { RequestPriority } from '../../../src/services/api/types';
+
+/**
+ * Creates a task that stays pending until released
+ */
+const createDeferredTask = (name: string, started: string[]) => {
+  let release: () => void = () => undefined;
+  const task = jest.fn(() => {
+    started.push(name);
+    return new Promise<string>(resolve => {
+      release = () => resolve(name);
+    });
+  });
+  return { task, release: () => release() };
+};
+
+/**
+ * Lets queued promise callbacks run
+ */
+const flushPromises = async () => {
+  for (let i = 0; i < 5; i++) {
+    await Promise.resolve();
+  }
+};
+
+describe('RequestScheduler', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should not run more requests at once than the concurrency limit', async () => {
+    const scheduler = new RequestScheduler({ requestsPerSecond: 100, maxConcurrentRequests: 2 });
+    const started: string[] = [];
+    const tasks = ['a', 'b', 'c'].map(name => createDeferredTask(name, started));
+
+    const results = tasks.map(({ task }) => scheduler.schedule(task));
+    await flushPromises();
+
+    expect(started).toEqual(['a', 'b']);
+    expect(scheduler.runningCount).toBe(2);
+    expect(scheduler.pendingCount).toBe(1);
+
+    tasks[0].release();
+    await flushPromises();
+
+    expect(started).toEqual(['a', 'b', 'c']);
+
+    tasks[1].release();
+    tasks[2].release();
+    await expect(Promise.all(results)).resolves.toEqual(['a', 'b', 'c']);
+  });
+
+  it('should start interactive requests ahead of queued bulk requests', async () => {
+    const scheduler = new RequestScheduler({ requestsPerSecond: 100, maxConcurrentRequests: 1 });
+    const started: string[] = [];
+    const first = createDeferredTask('first', started);
+    const bulk = createDeferredTask('bulk', started);
+    const interactive = createDeferredTask('interactive', started);
+
+    scheduler.schedule(first.task, RequestPriority.BULK);
+    scheduler.schedule(bulk.task, RequestPriority.BULK);
+    scheduler.schedule(interactive.task, RequestPriority.INTERACTIVE);
+    await flushPromises();
+
+    first.release();
+    await flushPromises();
+
+    expect(started).toEqual(['first', 'interactive']);
+  });
+
+  it('should wait for a token once the bucket is empty', async () => {
+    const scheduler = new RequestScheduler({ requestsPerSecond: 2, maxConcurrentRequests: 10 });
+    const task = jest.fn().mockResolvedValue('done');
+
+    scheduler.schedule(task);
+    scheduler.schedule(task);
+    scheduler.schedule(task);
+    await flushPromises();
+
+    expect(task).toHaveBeenCalledTimes(2);
+
+    jest.advanceTimersByTime(500);
+    await flushPromises();
+
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('should hold every request back while paused', async () => {
+    const scheduler = new RequestScheduler({ requestsPerSecond: 100, maxConcurrentRequests: 10 });
+    const task = jest.fn().mockResolvedValue('done');
+
+    scheduler.pauseFor(2000);
+    scheduler.schedule(task, RequestPriority.INTERACTIVE);
+    await flushPromises();
+
+    jest.advanceTimersByTime(1999);
+    await flushPromises();
+    expect(task).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(100);
+    await flushPromises();
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pass failures back to the caller', async () => {
+    const scheduler = new RequestScheduler({ requestsPerSecond: 100, maxConcurrentRequests: 1 });
+    const error = { success: false, data: null, error: { code: 'server_error', message: 'Failed' } };
+
+    await expect(scheduler.schedule(() => Promise.reject(error))).rejects.toBe(error);
+    expect(scheduler.runningCount).toBe(0);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should read a number of seconds', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+  });
+
+  it('should read an HTTP date', () => {
+    const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT');
+    expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:05 GMT', now)).toBe(5000);
+  });
+
+  it('should ignore missing or invalid values', () => {
+    expect(parseRetryAfter(undefined)).toBeNull();
+    expect(parseRetryAfter('')).toBeNull();
+    expect(parseRetryAfter('soon')).toBeNull();
+    expect(parseRetryAfter('-1')).toBeNull();
+  });
+});
@@ -0,0 +1,84 @@
+import { ApiKeyHealthService } from '../../../src/services/auth/apiKeyHealthService';
+import { authApi } from '../../../src/services/api/authApi';
+import { apiClient } from '../../../src/services/api/apiClient';
+import { ApiKeyStatus, ApiKeyVerification } from '../../../src/types/auth.types';
+import { createNetworkError } from '../../../src/utils/error-handling';
+import { ErrorCode } from '../../../src/types/error.types';
+
+const API_KEY = 'abcdefghijklmnopqrstuvwxyz0123456789';
+const OTHER_API_KEY = 'ZYXWVUTSRQPONMLKJIHGFEDCBA9876543210';
+const LANDMARK = 'NORTH-GARAGE';
+
+/**
+ * Creates the result of a verification made at a given time
+ */
+const createVerification = (status: ApiKeyStatus, checkedAt: number): ApiKeyVerification => ({
+  status,
+  landMarkId: LANDMARK,
+  checkedAt,
+  error: status === ApiKeyStatus.VALID
+    ? null
+    : createNetworkError(new Error('Network Error'), ErrorCode.CONNECTION_ERROR, 'Network Error')
+});
+
+describe('ApiKeyHealthService', () => {
+  let service: ApiKeyHealthService;
+  let getApiKey: jest.SpyInstance;
+  let verifyApiKey: jest.SpyInstance;
+
+  beforeEach(() => {
+    service = new ApiKeyHealthService();
+    getApiKey = jest.spyOn(apiClient, 'getApiKey').mockReturnValue(API_KEY);
+    verifyApiKey = jest.spyOn(authApi, 'verifyApiKey');
+  });
+
+  it('should keep the last verified time when ParkHub becomes unreachable', async () => {
+    const listener = jest.fn();
+    service.subscribe(listener);
+    verifyApiKey.mockResolvedValueOnce(createVerification(ApiKeyStatus.VALID, 1000));
+
+    await service.verify(LANDMARK);
+
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ status: ApiKeyStatus.CHECKING }));
+    expect(service.getHealth()).toEqual(expect.objectContaining({
+      status: ApiKeyStatus.VALID,
+      checkedAt: 1000,
+      lastVerifiedAt: 1000
+    }));
+
+    verifyApiKey.mockResolvedValueOnce(createVerification(ApiKeyStatus.UNREACHABLE, 2000));
+    await service.verify(LANDMARK);
+
+    expect(service.getHealth()).toEqual(expect.objectContaining({
+      status: ApiKeyStatus.UNREACHABLE,
+      checkedAt: 2000,
+      lastVerifiedAt: 1000
+    }));
+  });
+
+  it('should share a verification that is still running', async () => {
+    verifyApiKey.mockResolvedValue(createVerification(ApiKeyStatus.VALID, 1000));
+
+    await Promise.all([service.verify(LANDMARK), service.verify(LANDMARK)]);
+
+    expect(verifyApiKey).toHaveBeenCalledTimes(1);
+    expect(verifyApiKey).toHaveBeenCalledWith(API_KEY, LANDMARK);
+  });
+
+  it('should forget the last verified time when the key changes or is removed', async () => {
+    verifyApiKey.mockResolvedValueOnce(createVerification(ApiKeyStatus.VALID, 1000));
+    await service.verify(LANDMARK);
+
+    getApiKey.mockReturnValue(OTHER_API_KEY);
+    verifyApiKey.mockResolvedValueOnce(createVerification(ApiKeyStatus.UNREACHABLE, 2000));
+    await service.verify(LANDMARK);
+
+    expect(service.getHealth().lastVerifiedAt).toBeNull();
+
+    getApiKey.mockReturnValue(null);
+    await service.verify(LANDMARK);
+
+    expect(service.getHealth().status).toBe(ApiKeyStatus.UNKNOWN);
+    expect(verifyApiKey).toHaveBeenCalledTimes(2);
+  });
+});
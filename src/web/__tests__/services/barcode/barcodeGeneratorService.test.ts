@@ -0,0 +1,134 @@
+import {
+  barcodeGeneratorService,
+  BarcodeGeneratorService
+} from '../../../src/services/barcode/barcodeGeneratorService';
+import { passesApi } from '../../../src/services/api/passesApi';
+import { BarcodeScheme } from '../../../src/types/barcode.types';
+import { VALIDATION_PATTERNS } from '../../../src/constants/validation';
+import { LANDMARK_ID } from '../../../src/constants/apiEndpoints';
+import { createMockParkHubPass } from '../../__mocks__/passesMock';
+import { createSuccessResponse, createErrorResponse, mockApiErrors } from '../../__mocks__/apiResponseMock';
+
+describe('BarcodeGeneratorService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('generate (sequential)', () => {
+    it('should continue from the highest barcode in use', () => {
+      const result = barcodeGeneratorService.generate(
+        { scheme: BarcodeScheme.SEQUENTIAL, count: 3 },
+        ['BC000010', 'BC000004']
+      );
+
+      expect(result.barcodes).toEqual(['BC000011', 'BC000012', 'BC000013']);
+    });
+
+    it('should skip reserved barcodes after the start number', () => {
+      const result = barcodeGeneratorService.generate(
+        { scheme: BarcodeScheme.SEQUENTIAL, count: 3, start: 5 },
+        ['BC000006', 'bc000007 ', 'BC000020']
+      );
+
+      expect(result.barcodes).toEqual(['BC000005', 'BC000008', 'BC000009']);
+      expect(result.skipped).toBe(2);
+    });
+
+    it('should reject an invalid count', () => {
+      expect(() => barcodeGeneratorService.generate({ scheme: BarcodeScheme.SEQUENTIAL, count: 0 }))
+        .toThrow('Barcode count must be a whole number of at least 1');
+    });
+  });
+
+  describe('generate (template)', () => {
+    it('should pad a bare prefix with placeholders', () => {
+      const result = barcodeGeneratorService.generate({
+        scheme: BarcodeScheme.TEMPLATE,
+        count: 2,
+        template: 'bc24'
+      });
+
+      expect(result.barcodes).toEqual(['BC240001', 'BC240002']);
+    });
+
+    it('should only count barcodes matching the template as in use', () => {
+      const result = barcodeGeneratorService.generate(
+        { scheme: BarcodeScheme.TEMPLATE, count: 2, template: 'BC24####' },
+        ['BC240009', 'BC990500']
+      );
+
+      expect(result.barcodes).toEqual(['BC240010', 'BC240011']);
+    });
+
+    it('should wrap around to unused numbers at the start of the template', () => {
+      const result = barcodeGeneratorService.generate(
+        { scheme: BarcodeScheme.TEMPLATE, count: 2, template: 'BC12345#' },
+        ['BC123459', 'BC123450']
+      );
+
+      expect(result.barcodes).toEqual(['BC123451', 'BC123452']);
+    });
+
+    it('should throw when not enough unused barcodes are left', () => {
+      const reserved = Array.from({ length: 10 }, (_, i) => `BC12345${i}`).slice(1);
+
+      expect(() => barcodeGeneratorService.generate(
+        { scheme: BarcodeScheme.TEMPLATE, count: 2, template: 'BC12345#' },
+        reserved
+      )).toThrow('Only 1 unused barcode left for BC12345#; 2 requested');
+    });
+
+    it('should validate templates', () => {
+      expect(barcodeGeneratorService.validateTemplate('BC24####')).toBeNull();
+      expect(barcodeGeneratorService.validateTemplate('XY24####')).not.toBeNull();
+      expect(barcodeGeneratorService.validateTemplate('BC24##')).not.toBeNull();
+      expect(barcodeGeneratorService.validateTemplate('BC123456')).toBe('Template must contain at least one # placeholder');
+    });
+  });
+
+  describe('generate (random)', () => {
+    it('should produce unique valid barcodes that are not reserved', () => {
+      const reserved = ['BC000001', 'BC000002'];
+      const result = barcodeGeneratorService.generate({ scheme: BarcodeScheme.RANDOM, count: 50 }, reserved);
+
+      expect(new Set(result.barcodes).size).toBe(50);
+      result.barcodes.forEach(barcode => {
+        expect(barcode).toMatch(VALIDATION_PATTERNS.BARCODE);
+        expect(reserved).not.toContain(barcode);
+      });
+    });
+
+    it('should fall back to scanning when random draws keep colliding', () => {
+      const service = new BarcodeGeneratorService(() => 0);
+      const result = service.generate({ scheme: BarcodeScheme.RANDOM, count: 2 }, ['BC000000']);
+
+      expect(result.barcodes).toEqual(['BC000001', 'BC000002']);
+    });
+  });
+
+  describe('generateForEvent', () => {
+    it('should skip barcodes on the event and in the batch form', async () => {
+      jest.spyOn(passesApi, 'getPassesForEvent').mockResolvedValue(createSuccessResponse([
+        createMockParkHubPass({ barcode: 'BC000100' })
+      ]));
+
+      const result = await barcodeGeneratorService.generateForEvent(
+        'EV12345',
+        { scheme: BarcodeScheme.SEQUENTIAL, count: 2 },
+        ['BC000101', '']
+      );
+
+      expect(passesApi.getPassesForEvent).toHaveBeenCalledWith({ eventId: 'EV12345', landMarkId: LANDMARK_ID });
+      expect(result.barcodes).toEqual(['BC000102', 'BC000103']);
+    });
+
+    it('should throw when the existing passes cannot be loaded', async () => {
+      jest.spyOn(passesApi, 'getPassesForEvent').mockResolvedValue(createErrorResponse(mockApiErrors.server));
+
+      await expect(barcodeGeneratorService.generateForEvent(
+        'EV12345',
+        { scheme: BarcodeScheme.SEQUENTIAL, count: 1 }
+      )).rejects.toThrow(mockApiErrors.server.message);
+    });
+  });
+});
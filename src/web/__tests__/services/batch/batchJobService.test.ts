@@ -0,0 +1,157 @@
+import { batchJobService } from '../../../src/services/batch/batchJobService';
+import { apiClient } from '../../../src/services/api/apiClient';
+import { getBatchJob, getBatchJobs, saveBatchJob } from '../../../src/services/storage/batchJobStorage';
+import { CreatePassRequest } from '../../../src/types/api.types';
+import { BatchJob, BatchJobItemStatus } from '../../../src/types/batchJob.types';
+import { LANDMARK_ID } from '../../../src/constants/apiEndpoints';
+import { createMockParkHubPass, createMockPassCreationResponse } from '../../__mocks__/passesMock';
+import { createSuccessResponse, createErrorResponse, createApiError } from '../../__mocks__/apiResponseMock';
+
+// Mock the apiClient
+jest.mock('../../../src/services/api/apiClient');
+
+/**
+ * Builds a pass creation request for the test event
+ */
+const createRequest = (barcode: string, customerName = 'John Doe'): CreatePassRequest => ({
+  eventId: 'EV12345',
+  accountId: 'ACC123',
+  barcode,
+  customerName,
+  spotType: 'Regular',
+  lotId: 'LOT-A'
+});
+
+describe('BatchJobService', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    jest.clearAllMocks();
+
+    (apiClient.get as jest.Mock) = jest.fn();
+    (apiClient.post as jest.Mock) = jest.fn();
+  });
+
+  describe('startJob', () => {
+    it('should record each pass as it is answered and remove the job once finished', async () => {
+      const statuses: BatchJobItemStatus[][] = [];
+      (apiClient.post as jest.Mock).mockImplementation(async () => {
+        statuses.push(getBatchJobs()[0].items.map(item => item.status));
+        return statuses.length === 1
+          ? createMockPassCreationResponse('P1')
+          : createErrorResponse(createApiError('duplicate_barcode', 'Barcode already exists'));
+      });
+
+      const result = await batchJobService.startJob([createRequest('BC100001'), createRequest('BC100002')]);
+
+      // Each pass is marked sent before it is posted
+      expect(statuses[0]).toEqual([BatchJobItemStatus.SENT, BatchJobItemStatus.PENDING]);
+      expect(statuses[1]).toEqual([BatchJobItemStatus.SENT, BatchJobItemStatus.SENT]);
+      expect(result.totalSuccess).toBe(1);
+      expect(result.successful[0]).toEqual({ passId: 'P1', barcode: 'BC100001', customerName: 'John Doe' });
+      expect(result.failed[0].error.code).toBe('duplicate_barcode');
+      expect(getBatchJobs()).toEqual([]);
+    });
+
+    it('should keep the job when the tab stops mid-batch', async () => {
+      (apiClient.post as jest.Mock).mockReturnValue(new Promise(() => undefined));
+
+      batchJobService.startJob([createRequest('BC100001')]);
+      await Promise.resolve();
+
+      const [job] = getBatchJobs();
+      expect(job.landMarkId).toBe(LANDMARK_ID);
+      expect(job.items[0].status).toBe(BatchJobItemStatus.SENT);
+      // Jobs running in this tab are not offered for resuming
+      expect(batchJobService.getInterruptedJobs()).toEqual([]);
+    });
+  });
+
+  describe('resumeJob', () => {
+    const interruptedJob: BatchJob = {
+      id: 'job-1',
+      eventId: 'EV12345',
+      landMarkId: LANDMARK_ID,
+      createdAt: '2023-10-01T12:00:00.000Z',
+      updatedAt: '2023-10-01T12:00:05.000Z',
+      items: [
+        { request: createRequest('BC100001'), status: BatchJobItemStatus.SUCCEEDED, passId: 'P1' },
+        { request: createRequest('BC100002'), status: BatchJobItemStatus.SENT },
+        { request: createRequest('BC100003'), status: BatchJobItemStatus.SENT },
+        { request: createRequest('BC100004'), status: BatchJobItemStatus.PENDING },
+        { request: createRequest('BC100005', 'Jane Smith'), status: BatchJobItemStatus.PENDING }
+      ]
+    };
+
+    beforeEach(() => {
+      saveBatchJob(interruptedJob);
+    });
+
+    it('should only create passes the API has not received', async () => {
+      (apiClient.get as jest.Mock).mockResolvedValue(createSuccessResponse([
+        createMockParkHubPass({ id: 'P1', barcode: 'BC100001', accountId: 'ACC123', customerName: 'John Doe' }),
+        createMockParkHubPass({ id: 'P2', barcode: 'BC100002', accountId: 'ACC123', customerName: 'John Doe' }),
+        createMockParkHubPass({ id: 'P9', barcode: 'BC100005', accountId: 'ACC999', customerName: 'Someone Else' })
+      ]));
+      (apiClient.post as jest.Mock)
+        .mockResolvedValueOnce(createMockPassCreationResponse('P3'))
+        .mockResolvedValueOnce(createMockPassCreationResponse('P4'));
+
+      expect(batchJobService.getInterruptedJobs().map(job => job.id)).toEqual(['job-1']);
+
+      const result = await batchJobService.resumeJob('job-1');
+
+      expect((apiClient.post as jest.Mock).mock.calls.map(call => call[1].barcode)).toEqual(['BC100003', 'BC100004']);
+      expect(result.successful.map(pass => pass.passId)).toEqual(['P1', 'P2', 'P3', 'P4']);
+      expect(result.failed).toHaveLength(1);
+      expect(result.failed[0].barcode).toBe('BC100005');
+      expect(result.failed[0].error.code).toBe('duplicate_barcode');
+      expect(getBatchJob('job-1')).toBeNull();
+    });
+
+    it('should send the idempotency keys stored with the job when resuming', async () => {
+      saveBatchJob({
+        ...interruptedJob,
+        id: 'job-2',
+        items: [{ request: createRequest('BC100006'), status: BatchJobItemStatus.SENT, idempotencyKey: 'key-6' }]
+      });
+      (apiClient.get as jest.Mock).mockResolvedValue(createSuccessResponse([]));
+      (apiClient.post as jest.Mock).mockResolvedValue(createMockPassCreationResponse('P6'));
+
+      await batchJobService.resumeJob('job-2');
+
+      expect((apiClient.post as jest.Mock).mock.calls[0][2].headers).toEqual({ 'Idempotency-Key': 'key-6' });
+    });
+
+    it('should give jobs saved without idempotency keys a key for each pass', async () => {
+      (apiClient.get as jest.Mock).mockResolvedValue(createSuccessResponse([]));
+      (apiClient.post as jest.Mock).mockResolvedValue(createMockPassCreationResponse('P1'));
+
+      await batchJobService.resumeJob('job-1');
+
+      const keys = (apiClient.post as jest.Mock).mock.calls.map(call => call[2].headers['Idempotency-Key']);
+      expect(keys).toHaveLength(4);
+      expect(new Set(keys).size).toBe(4);
+    });
+
+    it('should keep the job when the event passes cannot be checked', async () => {
+      (apiClient.get as jest.Mock).mockRejectedValue(new Error('Network Error'));
+
+      await expect(batchJobService.resumeJob('job-1')).rejects.toThrow('Could not check which passes were already created');
+      expect(apiClient.post).not.toHaveBeenCalled();
+      expect(getBatchJob('job-1')).toEqual(interruptedJob);
+    });
+
+    it('should remove discarded jobs', () => {
+      expect(batchJobService.discardJob('job-1')).toBe(true);
+      expect(batchJobService.getInterruptedJobs()).toEqual([]);
+    });
+  });
+
+  describe('getProgress', () => {
+    it('should count items by status', () => {
+      const job = batchJobService.createJob([createRequest('BC100001'), createRequest('BC100002')]);
+
+      expect(batchJobService.getProgress(job)).toEqual({ total: 2, pending: 2, sent: 0, succeeded: 0, failed: 0 });
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { PassCloneService } from '../../../src/services/clone/passCloneService';
+import { SpotType } from '../../../src/types/api.types';
+import { CloneBarcodeRule, ClonePassOutcome } from '../../../src/types/clone.types';
+import { createMockParkHubPass } from '../../__mocks__/passesMock';
+
+/**
+ * Builds a pass
+ */
+const createPass = (id: string, barcode: string, accountId = 'ACC1', status = 'active') =>
+  createMockParkHubPass({ id, barcode, accountId, status, customerName: 'Season Holder', spotType: 'vip' });
+
+describe('PassCloneService', () => {
+  let service: PassCloneService;
+
+  const source = [
+    createPass('P1', 'BC100001', 'ACC1'),
+    createPass('P2', 'BC100002', 'ACC2'),
+    createPass('P3', 'BC100003', 'ACC3')
+  ];
+
+  beforeEach(() => {
+    service = new PassCloneService();
+  });
+
+  it('should select every pass that has not been cancelled by default', () => {
+    const passes = [...source, createPass('P4', 'BC100004', 'ACC4', 'cancelled')];
+
+    expect(service.getDefaultSelection(passes)).toEqual(['P1', 'P2', 'P3']);
+  });
+
+  it('should keep barcodes the target event does not use and remap passes to it', () => {
+    const plan = service.planClone(source, [], ['P1', 'P3'], 'EV2', {
+      barcodeRule: CloneBarcodeRule.KEEP,
+      skipExisting: true
+    });
+
+    expect(plan.items.map(item => item.outcome)).toEqual([ClonePassOutcome.KEEP_BARCODE, ClonePassOutcome.KEEP_BARCODE]);
+    expect(plan.passes).toEqual([
+      { eventId: 'EV2', accountId: 'ACC1', barcode: 'BC100001', customerName: 'Season Holder', spotType: SpotType.VIP, lotId: 'LOT-A' },
+      { eventId: 'EV2', accountId: 'ACC3', barcode: 'BC100003', customerName: 'Season Holder', spotType: SpotType.VIP, lotId: 'LOT-A' }
+    ]);
+    expect(plan).toMatchObject({ keptCount: 2, regeneratedCount: 0, skippedCount: 0 });
+  });
+
+  it('should skip or regenerate barcodes the target event already uses, depending on the rule', () => {
+    const target = [createPass('T1', 'bc100002', 'ACC9')];
+    const selected = ['P1', 'P2', 'P3'];
+
+    const kept = service.planClone(source, target, selected, 'EV2', {
+      barcodeRule: CloneBarcodeRule.KEEP,
+      skipExisting: true
+    });
+    expect(kept.items.map(item => item.outcome)).toEqual([
+      ClonePassOutcome.KEEP_BARCODE,
+      ClonePassOutcome.SKIP_BARCODE_TAKEN,
+      ClonePassOutcome.KEEP_BARCODE
+    ]);
+    expect(kept).toMatchObject({ keptCount: 2, regeneratedCount: 0, skippedCount: 1 });
+
+    const replaced = service.planClone(source, target, selected, 'EV2', {
+      barcodeRule: CloneBarcodeRule.KEEP_UNLESS_TAKEN,
+      skipExisting: true
+    });
+    expect(replaced.items[1].outcome).toBe(ClonePassOutcome.NEW_BARCODE);
+    // New barcodes avoid both the target's barcodes and the barcodes being kept
+    expect(replaced.passes.map(pass => pass.barcode)).toEqual(['BC100001', 'BC100004', 'BC100003']);
+  });
+
+  it('should generate a new barcode for every pass when regenerating', () => {
+    const plan = service.planClone(source, [createPass('T1', 'BC100010', 'ACC9')], ['P1', 'P2'], 'EV2', {
+      barcodeRule: CloneBarcodeRule.REGENERATE,
+      skipExisting: true
+    });
+
+    expect(plan.passes.map(pass => pass.barcode)).toEqual(['BC100011', 'BC100012']);
+    expect(plan).toMatchObject({ keptCount: 0, regeneratedCount: 2, skippedCount: 0 });
+  });
+
+  it('should skip passes the target event already has unless asked not to', () => {
+    const target = [
+      { ...createPass('T1', 'BC200001', 'acc1'), customerName: ' season holder ' },
+      createPass('T2', 'BC200002', 'ACC2', 'cancelled')
+    ];
+
+    const skipped = service.planClone(source, target, ['P1', 'P2'], 'EV2', {
+      barcodeRule: CloneBarcodeRule.KEEP_UNLESS_TAKEN,
+      skipExisting: true
+    });
+    expect(skipped.items.map(item => item.outcome)).toEqual([ClonePassOutcome.SKIP_EXISTING, ClonePassOutcome.KEEP_BARCODE]);
+    expect(skipped.items[0].pass).toBeNull();
+
+    const copied = service.planClone(source, target, ['P1', 'P2'], 'EV2', {
+      barcodeRule: CloneBarcodeRule.KEEP_UNLESS_TAKEN,
+      skipExisting: false
+    });
+    expect(copied.passes).toHaveLength(2);
+  });
+});
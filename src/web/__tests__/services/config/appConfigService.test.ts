@@ -0,0 +1,123 @@
+import { AppConfigService } from '../../../src/services/config/appConfigService';
+import { DEFAULT_APP_CONFIG } from '../../../src/services/config/appConfigSchema';
+import { ConfigSource } from '../../../src/types/config.types';
+
+/**
+ * Builds a fetch response serving a config file
+ */
+const fileResponse = (body: unknown, contentType = 'application/json') => ({
+  ok: true,
+  headers: { get: () => contentType },
+  json: async () => body
+});
+
+describe('AppConfigService', () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    localStorage.clear();
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should use the defaults when no other layer sets a value', () => {
+    const service = new AppConfigService({});
+
+    expect(service.getConfig()).toEqual(DEFAULT_APP_CONFIG);
+    expect(service.getResolvedConfig().sources.requestTimeout).toBe(ConfigSource.DEFAULT);
+    expect(service.getResolvedConfig().issues).toEqual([]);
+  });
+
+  it('should let each layer override the one before', async () => {
+    const service = new AppConfigService({ apiBaseUrl: 'https://api-dev.parkhub.com', requestTimeout: '5000', retryCount: '2' });
+    fetchMock.mockResolvedValue(fileResponse({ requestTimeout: 15000, cacheExpiry: 120000 }));
+    service.setOverrides({ cacheExpiry: '600000' });
+
+    const { values, sources } = await service.load();
+
+    expect(values).toMatchObject({
+      apiBaseUrl: 'https://api-dev.parkhub.com',
+      requestTimeout: 15000,
+      retryCount: 2,
+      cacheExpiry: 600000
+    });
+    expect(sources).toMatchObject({
+      apiBaseUrl: ConfigSource.ENVIRONMENT,
+      requestTimeout: ConfigSource.FILE,
+      retryCount: ConfigSource.ENVIRONMENT,
+      cacheExpiry: ConfigSource.USER,
+      landMarkId: ConfigSource.DEFAULT
+    });
+  });
+
+  it('should ignore invalid values and report them', async () => {
+    const service = new AppConfigService({ requestTimeout: 'soon', enableMockApi: 'true' });
+    fetchMock.mockResolvedValue(fileResponse({ apiBaseUrl: 'ftp://example.com', theme: 'dark' }));
+
+    const { values, sources, issues } = await service.load();
+
+    expect(values.requestTimeout).toBe(DEFAULT_APP_CONFIG.requestTimeout);
+    expect(values.apiBaseUrl).toBe(DEFAULT_APP_CONFIG.apiBaseUrl);
+    expect(values.enableMockApi).toBe(true);
+    expect(sources.enableMockApi).toBe(ConfigSource.ENVIRONMENT);
+    expect(issues.map(issue => [issue.source, issue.key])).toEqual([
+      [ConfigSource.ENVIRONMENT, 'requestTimeout'],
+      [ConfigSource.FILE, 'apiBaseUrl'],
+      [ConfigSource.FILE, 'theme']
+    ]);
+  });
+
+  it('should treat a page served instead of the config file as no file', async () => {
+    const service = new AppConfigService({});
+    fetchMock.mockResolvedValue(fileResponse('<!DOCTYPE html>', 'text/html'));
+
+    const { values, issues } = await service.load();
+
+    expect(fetchMock).toHaveBeenCalledWith('/config.json', expect.objectContaining({ cache: 'no-store' }));
+    expect(values).toEqual(DEFAULT_APP_CONFIG);
+    expect(issues).toEqual([]);
+  });
+
+  it('should report a config file that could not be read', async () => {
+    const service = new AppConfigService({});
+    fetchMock.mockRejectedValue(new Error('Network error'));
+
+    const { values, issues } = await service.load();
+
+    expect(values).toEqual(DEFAULT_APP_CONFIG);
+    expect(issues).toEqual([
+      { key: '/config.json', source: ConfigSource.FILE, message: 'The config file could not be read' }
+    ]);
+  });
+
+  it('should validate, save and reset user overrides and notify listeners', () => {
+    const service = new AppConfigService({});
+    const listener = jest.fn();
+    service.subscribe(listener);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(() => service.setOverrides({ retryCount: 20 })).toThrow('Retries: Must be at most 10.');
+    expect(() => service.setOverrides({ apiBaseUrl: 'https://example.com' })).toThrow('API base URL: Can\'t be set here.');
+    expect(service.validateOverrides({ landMarkId: 'bad id!' })).toHaveLength(1);
+
+    service.setOverrides({ landMarkId: 'NORTH-GARAGE', retryCount: '1' });
+
+    expect(service.getOverrides()).toEqual({ landMarkId: 'NORTH-GARAGE', retryCount: 1 });
+    expect(new AppConfigService({}).getConfig().landMarkId).toBe('NORTH-GARAGE');
+    expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({
+      values: expect.objectContaining({ retryCount: 1 })
+    }));
+
+    service.resetOverrides();
+
+    expect(service.getOverrides()).toEqual({});
+    expect(service.getConfig()).toEqual(DEFAULT_APP_CONFIG);
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+});
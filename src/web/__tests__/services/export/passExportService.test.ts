@@ -0,0 +1,130 @@
+import * as XLSX from 'xlsx';
+import { passExportService } from '../../../src/services/export/passExportService';
+import { ExportFormat, ExportScope } from '../../../src/types/export.types';
+import { PassStatus, PassSpotType, PassSortField } from '../../../src/types/pass.types';
+import { SortDirection } from '../../../src/types/common.types';
+import { mockPasses, createMockPass } from '../../__mocks__/passesMock';
+import { mockEvents } from '../../__mocks__/eventsMock';
+
+describe('PassExportService', () => {
+  const eventPasses = mockPasses.filter(pass => pass.eventId === 'EV12345');
+  const event = mockEvents[0];
+
+  describe('buildRows', () => {
+    it('should join the event name and date onto each row', () => {
+      const rows = passExportService.buildRows(eventPasses);
+
+      expect(rows).toHaveLength(eventPasses.length);
+      expect(rows[0].eventName).toBe('Football vs. Rivals');
+      expect(rows[0].eventDate).toBe('10/15/2023 7:00 PM');
+      expect(rows[0].barcode).toBe('BC100001');
+      expect(rows[0].spotType).toBe('VIP');
+      expect(rows[0].status).toBe('Active');
+    });
+
+    it('should fall back to the provided event when a pass has no joined event', () => {
+      const pass = createMockPass({ eventId: 'EV12345', event: null });
+      const rows = passExportService.buildRows([pass], event);
+
+      expect(rows[0].eventName).toBe(event.name);
+    });
+
+    it('should preserve the order of the passes', () => {
+      const reversed = [...eventPasses].reverse();
+      const rows = passExportService.buildRows(reversed);
+
+      expect(rows.map(row => row.barcode)).toEqual(reversed.map(pass => pass.barcode));
+    });
+  });
+
+  describe('describeOptions', () => {
+    it('should describe active filters and sort order', () => {
+      const lines = passExportService.describeOptions(
+        { status: PassStatus.ACTIVE, spotType: PassSpotType.VIP, lotId: 'LOT-A', searchTerm: null },
+        { field: PassSortField.CUSTOMER_NAME, direction: SortDirection.ASC }
+      );
+
+      expect(lines).toEqual([
+        'Filters: Status: Active, Spot Type: VIP, Lot: LOT-A',
+        'Sorted by: Customer Name (ascending)'
+      ]);
+    });
+
+    it('should report no filters when none are active', () => {
+      const lines = passExportService.describeOptions(null, null);
+
+      expect(lines).toEqual(['Filters: None']);
+    });
+  });
+
+  describe('toCsv', () => {
+    it('should write a header row and one row per pass', () => {
+      const csv = passExportService.toCsv(eventPasses);
+      const lines = csv.split('\r\n');
+
+      expect(lines[0]).toBe(
+        'Event,Event Date,Event ID,Pass ID,Barcode,Customer Name,Account ID,Spot Type,Lot ID,Status,Created At'
+      );
+      expect(lines).toHaveLength(eventPasses.length + 1);
+      expect(lines[1]).toContain('Football vs. Rivals,10/15/2023 7:00 PM,EV12345,P98765,BC100001,John Smith');
+    });
+
+    it('should quote values containing commas or quotes', () => {
+      const pass = createMockPass({ customerName: 'Smith, "JJ"' });
+      const csv = passExportService.toCsv([pass]);
+
+      expect(csv).toContain('"Smith, ""JJ"""');
+    });
+  });
+
+  describe('toXlsx', () => {
+    it('should write a readable workbook', () => {
+      const data = passExportService.toXlsx(eventPasses);
+      const workbook = XLSX.read(data, { type: 'array' });
+      const rows = XLSX.utils.sheet_to_json<string[]>(workbook.Sheets[workbook.SheetNames[0]], {
+        header: 1
+      });
+
+      expect(workbook.SheetNames).toEqual(['Passes']);
+      expect(rows[0][0]).toBe('Event');
+      expect(rows).toHaveLength(eventPasses.length + 1);
+      expect(rows[1][4]).toBe('BC100001');
+    });
+  });
+
+  describe('exportPasses', () => {
+    const originalCreateObjectURL = URL.createObjectURL;
+    const originalRevokeObjectURL = URL.revokeObjectURL;
+
+    beforeEach(() => {
+      URL.createObjectURL = jest.fn(() => 'blob:mock');
+      URL.revokeObjectURL = jest.fn();
+    });
+
+    afterEach(() => {
+      URL.createObjectURL = originalCreateObjectURL;
+      URL.revokeObjectURL = originalRevokeObjectURL;
+    });
+
+    it('should download a file named after the event', () => {
+      const clickSpy = jest.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+      passExportService.exportPasses(eventPasses, {
+        format: ExportFormat.CSV,
+        scope: ExportScope.ALL,
+        event,
+        fileName: 'manifest'
+      });
+
+      expect(URL.createObjectURL).toHaveBeenCalledWith(expect.any(Blob));
+      expect(clickSpy).toHaveBeenCalled();
+      clickSpy.mockRestore();
+    });
+
+    it('should throw when there are no passes to export', () => {
+      expect(() =>
+        passExportService.exportPasses([], { format: ExportFormat.CSV, scope: ExportScope.ALL })
+      ).toThrow('There are no passes to export.');
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { inventoryService } from '../../../src/services/inventory/inventoryService';
+import { SpotType } from '../../../src/types/api.types';
+import { EventLotConfiguration, InventoryPass, OverbookingPolicy } from '../../../src/types/inventory.types';
+import { createMockParkHubPass } from '../../__mocks__/passesMock';
+
+/**
+ * Builds a lot configuration for the test event
+ */
+const createConfiguration = (overbookingPolicy = OverbookingPolicy.WARN): EventLotConfiguration => ({
+  eventId: 'EV12345',
+  landMarkId: 'LM1',
+  lots: [
+    { lotId: 'LOT-A', capacity: { [SpotType.REGULAR]: 3, [SpotType.VIP]: 1 } },
+    { lotId: 'LOT-B', capacity: { [SpotType.PREMIUM]: 2 } }
+  ],
+  overbookingPolicy,
+  updatedAt: '2026-10-01T00:00:00.000Z'
+});
+
+/**
+ * Builds an issued pass
+ */
+const createPass = (lotId: string, spotType: string, status = 'active'): InventoryPass =>
+  createMockParkHubPass({ lotId, spotType, status });
+
+describe('InventoryService', () => {
+  describe('calculateInventory', () => {
+    it('should count issued spots per lot and spot type, ignoring cancelled passes', () => {
+      const passes = [
+        createPass('LOT-A', 'Regular'),
+        createPass('lot-a', 'regular'),
+        createPass('LOT-A', 'Regular', 'cancelled'),
+        createPass('LOT-A', 'VIP'),
+        createPass('LOT-A', 'VIP', 'used'),
+        createPass('LOT-C', 'Regular')
+      ];
+
+      const inventory = inventoryService.calculateInventory(createConfiguration(), passes);
+
+      expect(inventory.lots).toEqual([
+        { lotId: 'LOT-A', spotType: SpotType.REGULAR, capacity: 3, issued: 2, remaining: 1 },
+        { lotId: 'LOT-A', spotType: SpotType.VIP, capacity: 1, issued: 2, remaining: -1 },
+        { lotId: 'LOT-B', spotType: SpotType.PREMIUM, capacity: 2, issued: 0, remaining: 2 }
+      ]);
+      expect(inventory.totalCapacity).toBe(6);
+      expect(inventory.totalIssued).toBe(4);
+      expect(inventory.totalRemaining).toBe(3);
+      expect(inventory.unconfiguredIssued).toBe(1);
+    });
+  });
+
+  describe('checkOverbooking', () => {
+    it('should report lots a batch would overbook', () => {
+      const passes = [createPass('LOT-A', 'Regular'), createPass('LOT-A', 'Regular')];
+      const requests = [
+        { lotId: 'LOT-A', spotType: 'Regular' },
+        { lotId: 'LOT-A', spotType: 'Regular' },
+        { lotId: 'LOT-B', spotType: 'Premium' }
+      ];
+
+      const result = inventoryService.checkOverbooking(createConfiguration(), passes, requests);
+
+      expect(result.blocked).toBe(false);
+      expect(result.conflicts).toEqual([
+        { lotId: 'LOT-A', spotType: SpotType.REGULAR, capacity: 3, issued: 2, requested: 2, overBy: 1 }
+      ]);
+    });
+
+    it('should block overbooking when the policy says so', () => {
+      const requests = [{ lotId: 'LOT-A', spotType: 'VIP' }, { lotId: 'LOT-A', spotType: 'VIP' }];
+
+      const result = inventoryService.checkOverbooking(createConfiguration(OverbookingPolicy.BLOCK), [], requests);
+
+      expect(result.blocked).toBe(true);
+      expect(result.conflicts[0].overBy).toBe(1);
+    });
+
+    it('should not limit lots without a configured capacity', () => {
+      const requests = [{ lotId: 'LOT-Z', spotType: 'Regular' }, { lotId: 'LOT-B', spotType: 'VIP' }];
+
+      const result = inventoryService.checkOverbooking(createConfiguration(OverbookingPolicy.BLOCK), [], requests);
+
+      expect(result).toEqual({ conflicts: [], blocked: false });
+    });
+  });
+
+  describe('parseConfiguration', () => {
+    it('should read an exported configuration for another event', () => {
+      const contents = JSON.stringify({
+        lots: [{ lotId: ' LOT-A ', capacity: { regular: 10, VIP: 2 } }],
+        overbookingPolicy: 'block'
+      });
+
+      const configuration = inventoryService.parseConfiguration(contents, 'EV999', 'LM2');
+
+      expect(configuration).toEqual({
+        eventId: 'EV999',
+        landMarkId: 'LM2',
+        lots: [{ lotId: 'LOT-A', capacity: { [SpotType.REGULAR]: 10, [SpotType.VIP]: 2 } }],
+        overbookingPolicy: OverbookingPolicy.BLOCK,
+        updatedAt: expect.any(String)
+      });
+    });
+
+    it('should accept a bare array of lots and keep the fallback policy', () => {
+      const contents = JSON.stringify([{ lotId: 'LOT-A', capacity: { Premium: 5 } }]);
+
+      const configuration = inventoryService.parseConfiguration(contents, 'EV999', 'LM2', OverbookingPolicy.BLOCK);
+
+      expect(configuration.overbookingPolicy).toBe(OverbookingPolicy.BLOCK);
+      expect(configuration.lots).toEqual([{ lotId: 'LOT-A', capacity: { [SpotType.PREMIUM]: 5 } }]);
+    });
+
+    it.each([
+      ['not json', 'The file is not valid JSON.'],
+      ['{"lots": 3}', 'The file must contain a "lots" array.'],
+      ['[{"capacity": {"Regular": 1}}]', 'Lot 1 is missing a lot ID.'],
+      ['[{"lotId": "A"}, {"lotId": "a"}]', 'Lot "a" is listed more than once.'],
+      ['[{"lotId": "A", "capacity": {"Compact": 1}}]', 'Lot "A" has an unknown spot type "Compact".'],
+      ['[{"lotId": "A", "capacity": {"VIP": -1}}]', 'The VIP capacity of lot "A" must be a whole number of 0 or more.'],
+      ['{"lots": [], "overbookingPolicy": "ignore"}', 'Unknown overbooking policy "ignore". Use "warn" or "block".']
+    ])('should reject %s', (contents, message) => {
+      expect(() => inventoryService.parseConfiguration(contents, 'EV999', 'LM2')).toThrow(message);
+    });
+  });
+});
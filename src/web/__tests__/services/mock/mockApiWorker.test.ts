@@ -0,0 +1,33 @@
+import { setupWorker } from 'msw';
+import { startMockApi } from '../../../src/services/mock/mockApiWorker';
+import { isMockApiRunning, setMockApiRunning } from '../../../src/services/mock/mockApiStatus';
+
+jest.mock('msw', () => ({
+  ...jest.requireActual('msw'),
+  setupWorker: jest.fn()
+}));
+
+describe('startMockApi', () => {
+  const start = jest.fn();
+
+  beforeEach(() => {
+    setMockApiRunning(false);
+    jest.mocked(setupWorker).mockReturnValue({ start } as unknown as ReturnType<typeof setupWorker>);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  it('should report the mock API as running once its worker has started', async () => {
+    start.mockResolvedValue(undefined);
+
+    await startMockApi();
+
+    expect(isMockApiRunning()).toBe(true);
+  });
+
+  it('should not report the mock API as running if its worker fails to start', async () => {
+    start.mockRejectedValue(new Error('Service workers are disabled'));
+
+    await expect(startMockApi()).rejects.toThrow('Service workers are disabled');
+    expect(isMockApiRunning()).toBe(false);
+  });
+});
@@ -0,0 +1,79 @@
+import { MockParkHubStore } from '../../../src/services/mock/mockParkHubStore';
+import { CreatePassRequest } from '../../../src/types/api.types';
+import { ErrorCode } from '../../../src/types/error.types';
+import { createMockParkHubPass } from '../../__mocks__/passesMock';
+
+/**
+ * Builds a pass creation request for the first seeded event
+ */
+const createRequest = (barcode: string): CreatePassRequest => {
+  const { eventId, accountId, customerName, spotType, lotId } = createMockParkHubPass({
+    eventId: 'EV12345',
+    barcode,
+    customerName: 'John Doe'
+  });
+  return { eventId, accountId, barcode, customerName, spotType, lotId };
+};
+
+describe('MockParkHubStore', () => {
+  let store: MockParkHubStore;
+
+  beforeEach(() => {
+    localStorage.clear();
+    store = new MockParkHubStore(new Date(2024, 5, 1, 12, 0));
+  });
+
+  it('should serve upcoming events dated from today', () => {
+    const { status, body } = store.getEvents();
+
+    expect(status).toBe(200);
+    expect(body.data?.map(event => event.id)).toEqual(['EV12345', 'EV12346', 'EV12347', 'EV12348', 'EV12349']);
+    expect(new Date(body.data![0].date)).toEqual(new Date(2024, 5, 4, 19, 0));
+
+    expect(store.getEvents(new Date(2024, 5, 20).toISOString()).body.data?.map(event => event.id))
+      .toEqual(['EV12347', 'EV12348', 'EV12349']);
+  });
+
+  it('should keep created passes across store instances', () => {
+    const { status, body } = store.createPass(createRequest('BC200001'));
+
+    expect(status).toBe(201);
+    expect(body.data).toEqual({ success: true, passId: 'P98770' });
+
+    // Reloading the app
+    const reloaded = new MockParkHubStore();
+    const passes = reloaded.getPasses('EV12345').body.data || [];
+    expect(passes.map(pass => pass.barcode)).toEqual(['BC100001', 'BC100002', 'BC100003', 'BC200001']);
+    expect(passes[3]).toMatchObject({ id: 'P98770', customerName: 'John Doe', status: 'active' });
+  });
+
+  it('should reject duplicate barcodes and invalid requests', () => {
+    store.createPass(createRequest('BC200001'));
+
+    expect(store.createPass(createRequest('BC200001'))).toMatchObject({
+      status: 409,
+      body: { success: false, error: { code: ErrorCode.DUPLICATE_BARCODE, field: 'barcode' } }
+    });
+    expect(store.createPass(createRequest('BC100001')).status).toBe(409);
+    expect(store.createPass({ ...createRequest('BC200002'), lotId: '' })).toMatchObject({
+      status: 400,
+      body: { error: { field: 'lotId' } }
+    });
+    expect(store.createPass({ ...createRequest('BC200002'), eventId: 'EV99999' }).status).toBe(404);
+    expect(store.getPasses(null).status).toBe(400);
+    expect(store.getPasses('EV12345').body.data).toHaveLength(4);
+  });
+
+  it('should update and cancel passes, and reset to the seed data', () => {
+    expect(store.updatePass('P98765', { customerName: 'Johnny Smith' }).body.data)
+      .toEqual({ success: true, passId: 'P98765', status: 'active' });
+    expect(store.cancelPass('P98765').body.data?.status).toBe('cancelled');
+    expect(store.getPasses('EV12345').body.data?.[0]).toMatchObject({ customerName: 'Johnny Smith', status: 'cancelled' });
+
+    expect(store.updatePass('P98765', { status: 'lost' }).status).toBe(400);
+    expect(store.cancelPass('P00000').status).toBe(404);
+
+    store.reset();
+    expect(store.getPasses('EV12345').body.data?.[0]).toMatchObject({ customerName: 'John Smith', status: 'active' });
+  });
+});
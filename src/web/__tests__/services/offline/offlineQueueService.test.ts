@@ -0,0 +1,140 @@
+import { OfflineQueueService } from '../../../src/services/offline/offlineQueueService';
+import { passesApi } from '../../../src/services/api/passesApi';
+import { CreatePassRequest } from '../../../src/types/api.types';
+import { QueuedPass, QueuedPassStatus } from '../../../src/types/offline.types';
+import { createMockPassCreationResponse } from '../../__mocks__/passesMock';
+import { createErrorResponse, createApiError } from '../../__mocks__/apiResponseMock';
+
+// Keep the queue in memory, since jsdom has no IndexedDB
+const mockQueue: QueuedPass[] = [];
+
+jest.mock('../../../src/services/storage/offlineQueueStorage', () => ({
+  getQueuedPasses: async () => [...mockQueue],
+  saveQueuedPass: async (queuedPass: QueuedPass) => {
+    const index = mockQueue.findIndex(item => item.id === queuedPass.id);
+    if (index === -1) {
+      mockQueue.push(queuedPass);
+    } else {
+      mockQueue[index] = queuedPass;
+    }
+    return true;
+  },
+  removeQueuedPass: async (id: string) => {
+    const index = mockQueue.findIndex(item => item.id === id);
+    if (index !== -1) {
+      mockQueue.splice(index, 1);
+    }
+    return true;
+  }
+}));
+
+jest.mock('../../../src/services/api/passesApi');
+
+/**
+ * Builds a pass creation request for the test event
+ */
+const createRequest = (barcode: string): CreatePassRequest => ({
+  eventId: 'EV12345',
+  accountId: 'ACC123',
+  barcode,
+  customerName: 'John Doe',
+  spotType: 'Regular',
+  lotId: 'LOT-A'
+});
+
+/**
+ * Sets the connection state reported by the browser
+ */
+const setOnline = (online: boolean) => {
+  Object.defineProperty(navigator, 'onLine', { configurable: true, get: () => online });
+};
+
+describe('OfflineQueueService', () => {
+  let service: OfflineQueueService;
+
+  beforeEach(() => {
+    mockQueue.length = 0;
+    jest.clearAllMocks();
+    setOnline(true);
+    service = new OfflineQueueService();
+    (passesApi.createPass as jest.Mock) = jest.fn();
+  });
+
+  it('should send queued passes with their queue ID as the idempotency key', async () => {
+    setOnline(false);
+    const first = await service.queuePass(createRequest('BC100001'), 'LM1');
+    const second = await service.queuePass(createRequest('BC100002'), 'LM1');
+    (passesApi.createPass as jest.Mock)
+      .mockResolvedValueOnce(createMockPassCreationResponse('P1'))
+      .mockResolvedValueOnce(createMockPassCreationResponse('P2'));
+
+    setOnline(true);
+    const result = await service.sync();
+
+    expect(result).toEqual({ synced: 2, conflicts: [], remaining: 0 });
+    expect(passesApi.createPass).toHaveBeenNthCalledWith(1, createRequest('BC100001'), 'LM1', first.id);
+    expect(passesApi.createPass).toHaveBeenNthCalledWith(2, createRequest('BC100002'), 'LM1', second.id);
+    expect(mockQueue).toHaveLength(0);
+  });
+
+  it('should keep passes the API rejects as conflicts', async () => {
+    await service.queuePass(createRequest('BC100001'), 'LM1');
+    (passesApi.createPass as jest.Mock).mockResolvedValue(
+      createErrorResponse(createApiError('duplicate_barcode', 'Barcode already exists'))
+    );
+
+    const result = await service.sync();
+
+    expect(result.synced).toBe(0);
+    expect(result.conflicts).toHaveLength(1);
+    expect(mockQueue[0].status).toBe(QueuedPassStatus.CONFLICT);
+    expect(mockQueue[0].error?.code).toBe('duplicate_barcode');
+
+    // Conflicts are not sent again until retried
+    await service.sync();
+    expect(passesApi.createPass).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop and keep passes queued when the connection is lost', async () => {
+    await service.queuePass(createRequest('BC100001'), 'LM1');
+    await service.queuePass(createRequest('BC100002'), 'LM1');
+    (passesApi.createPass as jest.Mock).mockRejectedValue(
+      createErrorResponse(createApiError('connection_error', 'Network Error'))
+    );
+
+    const result = await service.sync();
+
+    expect(result).toEqual({ synced: 0, conflicts: [], remaining: 2 });
+    expect(passesApi.createPass).toHaveBeenCalledTimes(1);
+    expect(mockQueue.map(item => item.status)).toEqual([QueuedPassStatus.QUEUED, QueuedPassStatus.QUEUED]);
+  });
+
+  it('should send a conflict again when retried and remove it when dismissed', async () => {
+    const queued = await service.queuePass(createRequest('BC100001'), 'LM1');
+    (passesApi.createPass as jest.Mock)
+      .mockResolvedValueOnce(createErrorResponse(createApiError('validation_error', 'Invalid lot')))
+      .mockResolvedValueOnce(createErrorResponse(createApiError('validation_error', 'Invalid lot')));
+    await service.sync();
+
+    const retry = await service.retryConflict(queued.id);
+    expect(retry.conflicts).toHaveLength(1);
+    expect(passesApi.createPass).toHaveBeenCalledTimes(2);
+
+    await expect(service.dismissConflict(queued.id)).resolves.toBe(true);
+    expect(mockQueue).toHaveLength(0);
+  });
+
+  it('should notify subscribers when the queue changes', async () => {
+    const listener = jest.fn();
+    const unsubscribe = service.subscribe(listener);
+
+    await service.queuePass(createRequest('BC100001'), 'LM1');
+
+    expect(listener).toHaveBeenLastCalledWith([expect.objectContaining({ status: QueuedPassStatus.QUEUED })]);
+
+    unsubscribe();
+    listener.mockClear();
+    await service.dismissConflict(mockQueue[0].id);
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,172 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+const ORIGIN = 'https://passes.parkhub.com';
+const WORKER_SOURCE = readFileSync(join(__dirname, '../../../public/service-worker.js'), 'utf8');
+
+/**
+ * Minimal stand-in for the Fetch API Response, which jsdom doesn't provide
+ */
+class FakeResponse {
+  public readonly ok: boolean;
+
+  constructor(public readonly body: string, public readonly status = 200) {
+    this.ok = status >= 200 && status < 300;
+  }
+
+  static error(): FakeResponse {
+    return new FakeResponse('', 0);
+  }
+
+  clone(): FakeResponse {
+    return new FakeResponse(this.body, this.status);
+  }
+
+  async json(): Promise<unknown> {
+    return JSON.parse(this.body);
+  }
+}
+
+type FakeRequest = { url: string; method: string; mode: string };
+type FetchEvent = { request: FakeRequest; respondWith: jest.Mock; waitUntil: jest.Mock };
+
+/**
+ * Loads the service worker script with fake worker globals and returns helpers to drive it
+ */
+const loadWorker = () => {
+  const handlers: Record<string, (event: unknown) => void> = {};
+  const stores = new Map<string, Map<string, FakeResponse>>();
+  const network = jest.fn<Promise<FakeResponse>, [FakeRequest]>();
+
+  const keyOf = (request: FakeRequest | string) =>
+    typeof request === 'string' ? new URL(request, ORIGIN).href : request.url;
+
+  const openCache = async (name: string) => {
+    if (!stores.has(name)) {
+      stores.set(name, new Map());
+    }
+    const store = stores.get(name)!;
+    return {
+      put: async (request: FakeRequest | string, response: FakeResponse) => {
+        store.set(keyOf(request), response);
+      },
+      match: async (request: FakeRequest | string) => store.get(keyOf(request)),
+      addAll: async (urls: string[]) => urls.forEach(url => store.set(keyOf(url), new FakeResponse('shell')))
+    };
+  };
+
+  const caches = {
+    open: openCache,
+    keys: async () => Array.from(stores.keys()),
+    delete: async (name: string) => stores.delete(name),
+    match: async (request: FakeRequest | string) => {
+      for (const store of Array.from(stores.values())) {
+        const cached = store.get(keyOf(request));
+        if (cached) {
+          return cached;
+        }
+      }
+      return undefined;
+    }
+  };
+
+  const self = {
+    location: { origin: ORIGIN },
+    addEventListener: (type: string, handler: (event: unknown) => void) => {
+      handlers[type] = handler;
+    }
+  };
+
+  new Function('self', 'caches', 'fetch', 'Response', WORKER_SOURCE)(self, caches, network, FakeResponse);
+
+  /**
+   * Sends a GET request through the worker and waits for its response
+   */
+  const request = async (url: string): Promise<FakeResponse | undefined> => {
+    const event: FetchEvent = {
+      request: { url, method: 'GET', mode: 'cors' },
+      respondWith: jest.fn(),
+      waitUntil: jest.fn()
+    };
+    handlers.fetch(event);
+
+    if (event.respondWith.mock.calls.length === 0) {
+      return undefined;
+    }
+
+    const response = await event.respondWith.mock.calls[0][0];
+    // Let the worker finish writing to the cache
+    await new Promise(resolve => setTimeout(resolve, 0));
+    return response;
+  };
+
+  /**
+   * Sends a message from the app to the worker and waits for it to be handled
+   */
+  const postMessage = async (data: unknown): Promise<void> => {
+    const pending: Promise<unknown>[] = [];
+    handlers.message({ data, waitUntil: (promise: Promise<unknown>) => pending.push(promise) });
+    await Promise.all(pending);
+  };
+
+  return { network, request, postMessage };
+};
+
+describe('service worker', () => {
+  it('should fetch config.json from the network so changed settings are picked up', async () => {
+    const { network, request } = loadWorker();
+    const configUrl = `${ORIGIN}/config.json`;
+
+    network.mockResolvedValueOnce(new FakeResponse('{"requestTimeout":10000}'));
+    expect(await (await request(configUrl))!.json()).toEqual({ requestTimeout: 10000 });
+
+    network.mockResolvedValueOnce(new FakeResponse('{"requestTimeout":15000}'));
+    expect(await (await request(configUrl))!.json()).toEqual({ requestTimeout: 15000 });
+
+    // Offline, the last copy fetched is used
+    network.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    expect(await (await request(configUrl))!.json()).toEqual({ requestTimeout: 15000 });
+  });
+
+  it('should serve other static assets from the cache once fetched', async () => {
+    const { network, request } = loadWorker();
+    const assetUrl = `${ORIGIN}/assets/index.js`;
+
+    network.mockResolvedValueOnce(new FakeResponse('first build'));
+    await request(assetUrl);
+    network.mockResolvedValueOnce(new FakeResponse('second build'));
+
+    expect((await request(assetUrl))!.body).toBe('first build');
+    expect(network).toHaveBeenCalledTimes(1);
+  });
+
+  it('should cache the listings of the configured API address', async () => {
+    const { network, request, postMessage } = loadWorker();
+    const stagingUrl = 'https://staging.parkhub.com/v2/events/LM123';
+    const productionUrl = 'https://api.parkhub.com/events/LM123';
+
+    await postMessage({ type: 'SET_API_BASE_URL', apiBaseUrl: 'https://staging.parkhub.com/v2' });
+
+    network.mockResolvedValue(new FakeResponse('[{"id":"event-1"}]'));
+    await request(stagingUrl);
+    await request(productionUrl);
+
+    network.mockRejectedValue(new TypeError('Failed to fetch'));
+    expect((await request(stagingUrl))!.body).toBe('[{"id":"event-1"}]');
+    await expect(request(productionUrl)).rejects.toThrow('Failed to fetch');
+  });
+
+  it('should forget the cached listings when the app clears them', async () => {
+    const { network, request, postMessage } = loadWorker();
+    const eventsUrl = 'https://api.parkhub.com/events/LM123';
+
+    await postMessage({ type: 'SET_API_BASE_URL', apiBaseUrl: 'https://api.parkhub.com' });
+    network.mockResolvedValueOnce(new FakeResponse('[{"id":"event-1"}]'));
+    await request(eventsUrl);
+
+    await postMessage({ type: 'CLEAR_API_DATA' });
+
+    network.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    expect((await request(eventsUrl))!.status).toBe(0);
+  });
+});
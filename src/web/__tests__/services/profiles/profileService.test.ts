@@ -0,0 +1,118 @@
+import { ProfileService } from '../../../src/services/profiles/profileService';
+import { apiKeyStorage } from '../../../src/services/storage/apiKeyStorage';
+import { getSelectedLandmarkId, setSelectedLandmarkId } from '../../../src/services/storage/landmarkStorage';
+import { getEventCache, setEventCache } from '../../../src/services/storage/cacheStorage';
+import { DEFAULT_PROFILE_ID } from '../../../src/services/storage/profileStorage';
+import { appConfigService } from '../../../src/services/config/appConfigService';
+import { applyAppConfig } from '../../../src/services/config/applyAppConfig';
+import { apiClient } from '../../../src/services/api/apiClient';
+import { clearServiceWorkerApiData } from '../../../src/services/offline/serviceWorkerRegistration';
+import { API_KEY } from '../../../src/constants/storageKeys';
+import { ConfigSource } from '../../../src/types/config.types';
+import { ParkHubEvent } from '../../../src/types/api.types';
+
+jest.mock('../../../src/services/offline/serviceWorkerRegistration');
+
+const PRODUCTION_KEY = 'abcdefghijklmnopqrstuvwxyz0123456789';
+const SANDBOX_KEY = 'ZYXWVUTSRQPONMLKJIHGFEDCBA9876543210';
+const EVENT: ParkHubEvent = {
+  id: 'EV12345',
+  name: 'Home Opener',
+  date: '2026-11-01T19:00:00Z',
+  venue: 'North Stadium',
+  status: 'active'
+};
+
+describe('ProfileService', () => {
+  let service: ProfileService;
+  let unsubscribeConfig: () => void;
+
+  beforeAll(() => {
+    // Apply the settings to the endpoints as the app does at startup
+    unsubscribeConfig = appConfigService.subscribe(applyAppConfig);
+  });
+
+  afterAll(() => {
+    unsubscribeConfig();
+  });
+
+  beforeEach(() => {
+    localStorage.clear();
+    appConfigService.reload();
+    service = new ProfileService();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  it('should keep the existing API key with the default profile', () => {
+    apiKeyStorage.setApiKey(PRODUCTION_KEY);
+
+    expect(service.getProfiles()).toEqual([{ id: DEFAULT_PROFILE_ID, name: 'Default' }]);
+    expect(service.getActiveProfile().id).toBe(DEFAULT_PROFILE_ID);
+    expect(localStorage.getItem(API_KEY)).not.toBeNull();
+    expect(apiKeyStorage.getApiKey()).toBe(PRODUCTION_KEY);
+  });
+
+  it('should keep the API key, venue and cache of each profile apart', () => {
+    apiKeyStorage.setApiKey(PRODUCTION_KEY);
+    setSelectedLandmarkId('NORTH-GARAGE');
+    setEventCache([EVENT]);
+
+    const sandbox = service.createProfile({
+      name: ' Sandbox ',
+      landMarkId: 'SANDBOX-VENUE',
+      baseUrl: 'https://api-sandbox.parkhub.com'
+    });
+    const clearApiKey = jest.spyOn(apiClient, 'clearApiKey');
+    service.switchProfile(sandbox.id);
+
+    expect(sandbox.name).toBe('Sandbox');
+    expect(clearApiKey).toHaveBeenCalled();
+    expect(clearServiceWorkerApiData).toHaveBeenCalled();
+    expect(apiKeyStorage.getApiKey()).toBeNull();
+    expect(getSelectedLandmarkId()).toBe('SANDBOX-VENUE');
+    expect(getEventCache('NORTH-GARAGE')).toBeNull();
+    expect(appConfigService.getConfig().apiBaseUrl).toBe('https://api-sandbox.parkhub.com');
+    expect(appConfigService.getResolvedConfig().sources.apiBaseUrl).toBe(ConfigSource.PROFILE);
+
+    apiKeyStorage.setApiKey(SANDBOX_KEY);
+    service.switchProfile(DEFAULT_PROFILE_ID);
+
+    expect(apiKeyStorage.getApiKey()).toBe(PRODUCTION_KEY);
+    expect(getSelectedLandmarkId()).toBe('NORTH-GARAGE');
+    expect(getEventCache('NORTH-GARAGE')).toEqual([EVENT]);
+    expect(appConfigService.getResolvedConfig().sources.apiBaseUrl).not.toBe(ConfigSource.PROFILE);
+  });
+
+  it('should reject invalid profile details', () => {
+    service.createProfile({ name: 'Sandbox' });
+
+    expect(() => service.createProfile({ name: '  ' })).toThrow('Enter a name');
+    expect(() => service.createProfile({ name: 'sandbox' })).toThrow('already exists');
+    expect(() => service.createProfile({ name: 'Venue', landMarkId: 'bad id!' })).toThrow('venue ID');
+    expect(() => service.createProfile({ name: 'Address', baseUrl: 'ftp://example.com' })).toThrow('API base URL');
+    expect(service.getProfiles()).toHaveLength(2);
+  });
+
+  it('should delete a profile with its data and fall back to the default profile', async () => {
+    const listener = jest.fn();
+    service.subscribe(listener);
+    const sandbox = service.createProfile({ name: 'Sandbox' });
+    service.switchProfile(sandbox.id);
+    apiKeyStorage.setApiKey(SANDBOX_KEY);
+    const sandboxKey = `${API_KEY}_${sandbox.id}`;
+    expect(localStorage.getItem(sandboxKey)).not.toBeNull();
+
+    await expect(service.deleteProfile(DEFAULT_PROFILE_ID)).rejects.toThrow('can\'t be deleted');
+    jest.mocked(clearServiceWorkerApiData).mockClear();
+    await service.deleteProfile(sandbox.id);
+
+    expect(service.getActiveProfile().id).toBe(DEFAULT_PROFILE_ID);
+    expect(service.getProfiles()).toHaveLength(1);
+    expect(localStorage.getItem(sandboxKey)).toBeNull();
+    expect(clearServiceWorkerApiData).toHaveBeenCalled();
+    expect(listener).toHaveBeenLastCalledWith(
+      expect.objectContaining({ id: DEFAULT_PROFILE_ID }),
+      [expect.objectContaining({ id: DEFAULT_PROFILE_ID })]
+    );
+  });
+});
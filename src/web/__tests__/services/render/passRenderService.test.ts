@@ -0,0 +1,141 @@
+import JSZip from 'jszip';
+
+import {
+  passRenderService,
+  PASS_WIDTH,
+  PASS_HEIGHT
+} from '../../../src/services/render/passRenderService';
+import { PassRenderFormat } from '../../../src/types/render.types';
+import { PassSpotType } from '../../../src/types/pass.types';
+import { mockPasses, createMockPass } from '../../__mocks__/passesMock';
+import { mockEvents } from '../../__mocks__/eventsMock';
+import { downloadBlob } from '../../../src/utils/download-helpers';
+
+jest.mock('../../../src/utils/download-helpers', () => ({
+  ...jest.requireActual('../../../src/utils/download-helpers'),
+  downloadBlob: jest.fn()
+}));
+
+describe('PassRenderService', () => {
+  const pass = mockPasses.find(item => item.eventId === 'EV12345')!;
+  const event = mockEvents[0];
+
+  describe('buildRenderData', () => {
+    it('should include the event, lot and spot type', () => {
+      const data = passRenderService.buildRenderData(pass);
+
+      expect(data).toEqual({
+        barcode: pass.barcode,
+        customerName: pass.customerName,
+        eventName: 'Football vs. Rivals',
+        eventDate: '10/15/2023 7:00 PM',
+        lotId: pass.lotId,
+        spotType: 'VIP'
+      });
+    });
+
+    it('should fall back to the provided event when the pass has no joined event', () => {
+      const data = passRenderService.buildRenderData(
+        createMockPass({ eventId: event.id, event: null, spotType: PassSpotType.REGULAR }),
+        event
+      );
+
+      expect(data.eventName).toBe(event.name);
+      expect(data.spotType).toBe('Regular');
+    });
+  });
+
+  describe('encodeCode128', () => {
+    it('should encode a barcode as bars with start and stop patterns', () => {
+      const bars = passRenderService.encodeCode128('BC123456');
+
+      expect(bars).toMatch(/^[01]+$/);
+      // Start B pattern and the stop pattern with its termination bar
+      expect(bars.startsWith('11010010000')).toBe(true);
+      expect(bars.endsWith('1100011101011')).toBe(true);
+    });
+  });
+
+  describe('encodeQrCode', () => {
+    it('should return a square grid with finder patterns in the corners', () => {
+      const grid = passRenderService.encodeQrCode('BC123456');
+
+      expect(grid.length).toBeGreaterThanOrEqual(21);
+      grid.forEach(row => expect(row).toHaveLength(grid.length));
+      expect(grid[0].slice(0, 7)).toEqual(Array(7).fill(true));
+      expect(grid[0].slice(-7)).toEqual(Array(7).fill(true));
+      expect(grid[grid.length - 1].slice(0, 7)).toEqual(Array(7).fill(true));
+    });
+  });
+
+  describe('layoutPass', () => {
+    const commands = passRenderService.layoutPass(passRenderService.buildRenderData(pass));
+
+    it('should print the event, customer, lot, spot type and barcode', () => {
+      const texts = commands.flatMap(command => (command.kind === 'text' ? [command.text] : []));
+
+      expect(texts).toEqual(expect.arrayContaining([
+        'Football vs. Rivals',
+        '10/15/2023 7:00 PM',
+        `Lot: ${pass.lotId}`,
+        'Spot: VIP',
+        pass.barcode
+      ]));
+    });
+
+    it('should keep every drawing inside the pass', () => {
+      commands.forEach(command => {
+        if (command.kind === 'rect') {
+          expect(command.x).toBeGreaterThanOrEqual(0);
+          expect(command.y).toBeGreaterThanOrEqual(0);
+          expect(command.x + command.width).toBeLessThanOrEqual(PASS_WIDTH + 0.001);
+          expect(command.y + command.height).toBeLessThanOrEqual(PASS_HEIGHT + 0.001);
+        }
+      });
+    });
+
+    it('should shorten names that do not fit', () => {
+      const long = passRenderService.layoutPass({
+        ...passRenderService.buildRenderData(pass),
+        customerName: 'A'.repeat(60)
+      });
+      const nameLine = long.find(command => command.kind === 'text' && command.text.startsWith('Name:'));
+
+      expect(nameLine && nameLine.kind === 'text' && nameLine.text.endsWith('...')).toBe(true);
+    });
+  });
+
+  describe('toPdf', () => {
+    it('should generate a PDF document', () => {
+      const content = passRenderService.toPdf([pass], event);
+      const header = String.fromCharCode(...Array.from(new Uint8Array(content).slice(0, 5)));
+
+      expect(header).toBe('%PDF-');
+    });
+  });
+
+  describe('renderPasses', () => {
+    it('should name single passes after their barcode', () => {
+      expect(passRenderService.getDefaultFileName([pass])).toBe(`pass-${pass.barcode}`);
+    });
+
+    it('should download several PNG images as one zip file', async () => {
+      const passes = mockPasses.slice(0, 2);
+      jest.spyOn(passRenderService, 'toPng').mockResolvedValue(new Blob(['png']));
+
+      await passRenderService.renderPasses(passes, { format: PassRenderFormat.PNG, fileName: 'sheets' });
+
+      expect(downloadBlob).toHaveBeenCalledTimes(1);
+      const [contents, fileName] = (downloadBlob as jest.Mock).mock.calls[0];
+      const zip = await JSZip.loadAsync(contents as Blob);
+
+      expect(fileName).toBe('sheets.zip');
+      expect(Object.keys(zip.files).sort()).toEqual(passes.map(item => `pass-${item.barcode}.png`).sort());
+    });
+
+    it('should throw when there are no passes to print', async () => {
+      await expect(passRenderService.renderPasses([], { format: PassRenderFormat.PDF }))
+        .rejects.toThrow('There are no passes to print.');
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { PassScheduleService } from '../../../src/services/schedule/passScheduleService';
+import { batchJobService } from '../../../src/services/batch/batchJobService';
+import { offlineQueueService } from '../../../src/services/offline/offlineQueueService';
+import { passesApi } from '../../../src/services/api/passesApi';
+import { getScheduledJobs, saveScheduledJob } from '../../../src/services/storage/scheduledJobStorage';
+import { saveLotConfiguration } from '../../../src/services/storage/lotConfigStorage';
+import { CreatePassRequest } from '../../../src/types/api.types';
+import { Event } from '../../../src/types/event.types';
+import { ScheduledJobStatus } from '../../../src/types/schedule.types';
+import { OverbookingPolicy } from '../../../src/types/inventory.types';
+import { createMockEvent } from '../../__mocks__/eventsMock';
+import { createMockParkHubPass, createMockPassResponse } from '../../__mocks__/passesMock';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Builds an event starting a number of hours from now
+ */
+const createEvent = (hoursFromNow: number): Event =>
+  createMockEvent({ id: 'EV12345', name: 'Home Game', date: new Date(Date.now() + hoursFromNow * HOUR_MS) });
+
+/**
+ * Builds a pass creation request
+ */
+const createRequest = (barcode: string): CreatePassRequest => {
+  const { accountId, customerName, spotType, lotId } = createMockParkHubPass({ barcode });
+  return { eventId: '', accountId, barcode, customerName, spotType, lotId };
+};
+
+/**
+ * Returns a time a number of hours from now
+ */
+const hoursFromNow = (hours: number): Date => new Date(Date.now() + hours * HOUR_MS);
+
+describe('PassScheduleService', () => {
+  let service: PassScheduleService;
+  let startJob: jest.SpyInstance;
+
+  beforeEach(() => {
+    localStorage.clear();
+    service = new PassScheduleService();
+    startJob = jest.spyOn(batchJobService, 'startJob').mockResolvedValue({
+      successful: [{ passId: 'P1', barcode: 'BC100001', customerName: 'John Doe' }],
+      failed: [],
+      totalSuccess: 1,
+      totalFailed: 0
+    });
+  });
+
+  it('should schedule passes a number of hours before the event', () => {
+    const event = createEvent(100);
+    const job = service.scheduleJob(event, [createRequest('BC100001')], 72, 'LM1');
+
+    expect(new Date(job.runAt).getTime()).toBe(event.date.getTime() - 72 * HOUR_MS);
+    expect(job).toMatchObject({ eventId: 'EV12345', eventName: 'Home Game', landMarkId: 'LM1', status: ScheduledJobStatus.SCHEDULED });
+    expect(job.requests[0].eventId).toBe('EV12345');
+    expect(getScheduledJobs()).toEqual([job]);
+
+    expect(() => service.scheduleJob(event, [], 72, 'LM1')).toThrow('At least one pass');
+    expect(() => service.scheduleJob(event, [createRequest('BC100002')], -1, 'LM1')).toThrow('how many hours');
+    expect(() => service.scheduleJob(event, [createRequest('BC100002')], 120, 'LM1')).toThrow('already passed');
+  });
+
+  it('should only run batches that are due and record their outcome', async () => {
+    const due = service.scheduleJob(createEvent(100), [createRequest('BC100001')], 72, 'LM1');
+    const later = service.scheduleJob(createEvent(200), [createRequest('BC100002')], 72, 'LM1');
+
+    const result = await service.runDueJobs(hoursFromNow(30));
+
+    expect(startJob).toHaveBeenCalledTimes(1);
+    expect(startJob).toHaveBeenCalledWith(due.requests, 'LM1');
+    expect(result.completed.map(job => job.id)).toEqual([due.id]);
+    expect(result.caughtUp).toBe(0);
+
+    const [completed, waiting] = getScheduledJobs();
+    expect(completed).toMatchObject({ id: due.id, status: ScheduledJobStatus.COMPLETED, result: { totalSuccess: 1 } });
+    expect(waiting).toMatchObject({ id: later.id, status: ScheduledJobStatus.SCHEDULED });
+    expect(service.getNextRunAt()?.toISOString()).toBe(later.runAt);
+  });
+
+  it('should catch up on batches that came due while the app was closed, unless the event has started', async () => {
+    const overdue = service.scheduleJob(createEvent(24), [createRequest('BC100001')], 48, 'LM1', hoursFromNow(-48));
+    const missed = service.scheduleJob(createEvent(-2), [createRequest('BC100002')], 24, 'LM1', hoursFromNow(-48));
+
+    // Opening the app again
+    const reopened = new PassScheduleService();
+    const result = await reopened.runDueJobs();
+
+    expect(result.completed.map(job => job.id)).toEqual([overdue.id]);
+    expect(result.caughtUp).toBe(1);
+    expect(result.missed.map(job => job.id)).toEqual([missed.id]);
+    expect(startJob).toHaveBeenCalledTimes(1);
+    expect(getScheduledJobs().find(job => job.id === missed.id)?.status).toBe(ScheduledJobStatus.MISSED);
+  });
+
+  it('should leave due batches waiting while offline and record failures', async () => {
+    const job = service.scheduleJob(createEvent(100), [createRequest('BC100001')], 72, 'LM1');
+    const isOnline = jest.spyOn(offlineQueueService, 'isOnline').mockReturnValue(false);
+
+    await service.runDueJobs(hoursFromNow(30));
+    expect(startJob).not.toHaveBeenCalled();
+    expect(getScheduledJobs()[0].status).toBe(ScheduledJobStatus.SCHEDULED);
+
+    isOnline.mockReturnValue(true);
+    startJob.mockRejectedValue(new Error('Storage is full'));
+
+    const result = await service.runDueJobs(hoursFromNow(30));
+    expect(result.failed[0]).toMatchObject({ id: job.id, status: ScheduledJobStatus.FAILED, error: 'Storage is full' });
+    await expect(service.runJobNow(job.id)).rejects.toThrow('already been run');
+  });
+
+  it('should check lot capacity again when a batch runs', async () => {
+    const job = service.scheduleJob(createEvent(100), [createRequest('BC100001')], 72, 'LM1');
+    saveLotConfiguration({
+      eventId: 'EV12345',
+      landMarkId: 'LM1',
+      lots: [{ lotId: 'LOT-A', capacity: { Regular: 1 } }],
+      overbookingPolicy: OverbookingPolicy.BLOCK,
+      updatedAt: new Date().toISOString()
+    });
+    // A pass issued for the last spot after the batch was scheduled
+    jest.spyOn(passesApi, 'getPassesForEvent').mockResolvedValue(
+      createMockPassResponse([createMockParkHubPass({ lotId: 'LOT-A', spotType: 'Regular' })])
+    );
+
+    const result = await service.runDueJobs(hoursFromNow(30));
+
+    expect(startJob).not.toHaveBeenCalled();
+    expect(result.failed[0]).toMatchObject({ id: job.id, status: ScheduledJobStatus.FAILED });
+    expect(result.failed[0].error).toContain('would overbook lot LOT-A Regular');
+  });
+
+  it('should mark batches left running by a closed tab as failed', () => {
+    const job = service.scheduleJob(createEvent(100), [createRequest('BC100001')], 72, 'LM1');
+    saveScheduledJob({ ...job, status: ScheduledJobStatus.RUNNING });
+
+    expect(service.removeJob(job.id)).toBe(false);
+    expect(service.recoverInterruptedJobs().map(interrupted => interrupted.id)).toEqual([job.id]);
+    expect(getScheduledJobs()[0]).toMatchObject({ status: ScheduledJobStatus.FAILED });
+    expect(getScheduledJobs()[0].error).toContain('Resume it from the Create Passes page');
+    expect(service.removeJob(job.id)).toBe(true);
+    expect(getScheduledJobs()).toEqual([]);
+  });
+});
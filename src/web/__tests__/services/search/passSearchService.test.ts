@@ -0,0 +1,82 @@
+import { PassSearchService } from '../../../src/services/search/passSearchService';
+import { PassSearchField } from '../../../src/types/search.types';
+import { createMockEvent } from '../../__mocks__/eventsMock';
+import { createMockParkHubPass } from '../../__mocks__/passesMock';
+
+/**
+ * Builds an event on a day of November 2026
+ */
+const createEvent = (id: string, day: number) =>
+  createMockEvent({ id, name: `Game ${id}`, date: new Date(2026, 10, day, 19) });
+
+/**
+ * Builds a pass
+ */
+const createPass = (id: string, customerName: string, barcode: string, accountId = 'ACC1') =>
+  createMockParkHubPass({ id, eventId: 'EV1', customerName, barcode, accountId });
+
+describe('PassSearchService', () => {
+  let service: PassSearchService;
+  const early = createEvent('EV1', 2);
+  const late = createEvent('EV2', 20);
+
+  beforeEach(() => {
+    service = new PassSearchService();
+    service.setLandmark('LM1');
+    service.indexEvent(late, [
+      createPass('P1', 'Jane Doe', 'BC1001', 'ACC-42'),
+      createPass('P2', 'John Smith', 'BC1002')
+    ]);
+    service.indexEvent(early, [
+      createPass('P3', 'Jane  Doe', 'BC2001', 'ACC-42'),
+      createPass('P4', 'Doe Janet', 'XJANE1')
+    ]);
+  });
+
+  it('should find passes by customer name across events, soonest event first', () => {
+    const { hits, total } = service.search('jane doe', ['EV1', 'EV2']);
+
+    expect(total).toBe(3);
+    expect(hits.map(hit => hit.pass.id)).toEqual(['P3', 'P1', 'P4']);
+    expect(hits[0]).toMatchObject({ event: early, matchedField: PassSearchField.CUSTOMER_NAME, score: 3 });
+    expect(hits[2].score).toBe(1);
+  });
+
+  it('should rank exact barcode and account matches above partial matches', () => {
+    expect(service.search('BC1002', ['EV1', 'EV2']).hits).toEqual([
+      expect.objectContaining({ matchedField: PassSearchField.BARCODE, score: 3 })
+    ]);
+
+    const { hits } = service.search('acc-42', ['EV1', 'EV2']);
+    expect(hits.map(hit => hit.pass.id)).toEqual(['P3', 'P1']);
+    expect(hits[0].matchedField).toBe(PassSearchField.ACCOUNT_ID);
+  });
+
+  it('should only search the given events and limit the hits', () => {
+    expect(service.search('bc', ['EV2']).hits.map(hit => hit.pass.id)).toEqual(['P1', 'P2']);
+
+    const limited = service.search('bc', ['EV1', 'EV2'], 2);
+    expect(limited.hits).toHaveLength(2);
+    expect(limited.total).toBe(3);
+  });
+
+  it('should return nothing for a blank query', () => {
+    expect(service.search('   ', ['EV1', 'EV2'])).toEqual({ hits: [], total: 0 });
+  });
+
+  it('should replace an event\'s passes when it is indexed again', () => {
+    service.indexEvent(late, [createPass('P9', 'Sam Lee', 'BC9999')]);
+
+    expect(service.getStats(['EV1', 'EV2'])).toEqual({ events: 2, passes: 3 });
+    expect(service.search('john', ['EV2']).total).toBe(0);
+  });
+
+  it('should clear the index when the venue changes', () => {
+    service.setLandmark('LM1');
+    expect(service.hasEvent('EV1')).toBe(true);
+
+    service.setLandmark('LM2');
+    expect(service.hasEvent('EV1')).toBe(false);
+    expect(service.getStats(['EV1', 'EV2'])).toEqual({ events: 0, passes: 0 });
+  });
+});
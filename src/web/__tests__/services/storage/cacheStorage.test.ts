@@ -0,0 +1,72 @@
+import {
+  getEventCache,
+  setEventCache,
+  getPassesCache,
+  setPassesCache,
+  clearAllPassesCache,
+  clearAllCache
+} from '../../../src/services/storage/cacheStorage';
+import { setSelectedLandmarkId } from '../../../src/services/storage/landmarkStorage';
+import { mockParkHubEvents } from '../../__mocks__/eventsMock';
+import { mockParkHubPasses } from '../../__mocks__/passesMock';
+
+describe('cacheStorage', () => {
+  const northId = 'a1b2c3d4-0000-4000-8000-000000000001';
+  const southId = 'a1b2c3d4-0000-4000-8000-000000000002';
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('event cache', () => {
+    it('should keep events for different landmarks separate', () => {
+      setEventCache(mockParkHubEvents.slice(0, 1), undefined, northId);
+      setEventCache(mockParkHubEvents.slice(1), undefined, southId);
+
+      expect(getEventCache(northId)).toEqual(mockParkHubEvents.slice(0, 1));
+      expect(getEventCache(southId)).toEqual(mockParkHubEvents.slice(1));
+    });
+
+    it('should default to the selected landmark', () => {
+      setSelectedLandmarkId(northId);
+      setEventCache(mockParkHubEvents);
+
+      expect(getEventCache(northId)).toEqual(mockParkHubEvents);
+      expect(getEventCache(southId)).toBeNull();
+    });
+  });
+
+  describe('passes cache', () => {
+    it('should keep passes for the same event ID at different landmarks separate', () => {
+      setPassesCache('EV12345', mockParkHubPasses, undefined, northId);
+
+      expect(getPassesCache('EV12345', northId)).toEqual(mockParkHubPasses);
+      expect(getPassesCache('EV12345', southId)).toBeNull();
+    });
+
+    it('should clear passes for one landmark only', () => {
+      setPassesCache('EV12345', mockParkHubPasses, undefined, northId);
+      setPassesCache('EV12345', mockParkHubPasses, undefined, southId);
+
+      clearAllPassesCache(northId);
+
+      expect(getPassesCache('EV12345', northId)).toBeNull();
+      expect(getPassesCache('EV12345', southId)).toEqual(mockParkHubPasses);
+    });
+  });
+
+  describe('clearAllCache', () => {
+    it('should clear cached events and passes for every landmark', () => {
+      setEventCache(mockParkHubEvents, undefined, northId);
+      setEventCache(mockParkHubEvents, undefined, southId);
+      setPassesCache('EV12345', mockParkHubPasses, undefined, northId);
+      setPassesCache('EV67890', mockParkHubPasses, undefined, southId);
+
+      expect(clearAllCache()).toBe(true);
+      expect(getEventCache(northId)).toBeNull();
+      expect(getEventCache(southId)).toBeNull();
+      expect(getPassesCache('EV12345', northId)).toBeNull();
+      expect(getPassesCache('EV67890', southId)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import {
+  getLandmarks,
+  saveLandmark,
+  removeLandmark,
+  getSelectedLandmarkId,
+  setSelectedLandmarkId,
+  validateLandmarkId,
+  DEFAULT_LANDMARK
+} from '../../../src/services/storage/landmarkStorage';
+import { LANDMARK_ID } from '../../../src/constants/apiEndpoints';
+
+describe('landmarkStorage', () => {
+  const venue = { id: 'a1b2c3d4-0000-4000-8000-000000000001', name: 'North Stadium' };
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('validateLandmarkId', () => {
+    it('should accept URL-safe IDs', () => {
+      expect(validateLandmarkId(LANDMARK_ID)).toBe(true);
+    });
+
+    it('should reject empty IDs and IDs with path characters', () => {
+      expect(validateLandmarkId('')).toBe(false);
+      expect(validateLandmarkId('../passes')).toBe(false);
+      expect(validateLandmarkId('venue id')).toBe(false);
+    });
+  });
+
+  describe('getLandmarks', () => {
+    it('should return the default landmark when none are stored', () => {
+      expect(getLandmarks()).toEqual([DEFAULT_LANDMARK]);
+    });
+  });
+
+  describe('saveLandmark', () => {
+    it('should add a landmark alongside the default landmark', () => {
+      expect(saveLandmark(venue)).toBe(true);
+      expect(getLandmarks()).toEqual([DEFAULT_LANDMARK, venue]);
+    });
+
+    it('should rename an existing landmark instead of duplicating it', () => {
+      saveLandmark(venue);
+      saveLandmark({ id: venue.id, name: 'North Stadium Garage' });
+
+      expect(getLandmarks()).toEqual([DEFAULT_LANDMARK, { id: venue.id, name: 'North Stadium Garage' }]);
+    });
+
+    it('should reject landmarks with an invalid ID', () => {
+      expect(saveLandmark({ id: 'not valid', name: 'Bad' })).toBe(false);
+      expect(getLandmarks()).toEqual([DEFAULT_LANDMARK]);
+    });
+  });
+
+  describe('selected landmark', () => {
+    it('should default to LANDMARK_ID', () => {
+      expect(getSelectedLandmarkId()).toBe(LANDMARK_ID);
+    });
+
+    it('should persist the selected landmark', () => {
+      expect(setSelectedLandmarkId(venue.id)).toBe(true);
+      expect(getSelectedLandmarkId()).toBe(venue.id);
+    });
+  });
+
+  describe('removeLandmark', () => {
+    it('should move the selection when the selected landmark is removed', () => {
+      saveLandmark(venue);
+      setSelectedLandmarkId(venue.id);
+
+      expect(removeLandmark(venue.id)).toBe(true);
+      expect(getLandmarks()).toEqual([DEFAULT_LANDMARK]);
+      expect(getSelectedLandmarkId()).toBe(DEFAULT_LANDMARK.id);
+    });
+
+    it('should not remove the last remaining landmark', () => {
+      expect(removeLandmark(DEFAULT_LANDMARK.id)).toBe(false);
+      expect(getLandmarks()).toEqual([DEFAULT_LANDMARK]);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import {
+  PassTemplateService,
+  TEMPLATE_EXPORT_FORMAT
+} from '../../../src/services/templates/passTemplateService';
+import { getPassTemplates } from '../../../src/services/storage/passTemplateStorage';
+import { PassFormData } from '../../../src/types/form.types';
+import { SpotType } from '../../../src/types/api.types';
+import { createMockParkHubPass } from '../../__mocks__/passesMock';
+
+/**
+ * Builds a pass from the batch form
+ */
+const createPassFormData = (accountId: string, barcode: string): PassFormData => {
+  const { eventId, customerName, lotId } = createMockParkHubPass({ customerName: ' Sponsor Guest ', lotId: 'L-100' });
+  return { eventId, accountId, barcode, customerName, spotType: SpotType.VIP, lotId };
+};
+
+describe('PassTemplateService', () => {
+  let service: PassTemplateService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    service = new PassTemplateService();
+  });
+
+  it('should save passes without barcodes and load them for another event', () => {
+    const template = service.createTemplate(
+      ' Sponsor VIP ',
+      [createPassFormData('ACC1', 'BC100001'), createPassFormData('ACC2', 'BC100002')],
+      'LM1'
+    );
+
+    expect(template.name).toBe('Sponsor VIP');
+    expect(template.rows).toEqual([
+      { accountId: 'ACC1', customerName: 'Sponsor Guest', spotType: SpotType.VIP, lotId: 'L-100' },
+      { accountId: 'ACC2', customerName: 'Sponsor Guest', spotType: SpotType.VIP, lotId: 'L-100' }
+    ]);
+    expect(getPassTemplates('LM1')).toEqual([template]);
+    expect(getPassTemplates('LM2')).toEqual([]);
+
+    expect(service.toPassFormData(template, 'EV54321')).toEqual([
+      { eventId: 'EV54321', accountId: 'ACC1', barcode: '', customerName: 'Sponsor Guest', spotType: SpotType.VIP, lotId: 'L-100' },
+      { eventId: 'EV54321', accountId: 'ACC2', barcode: '', customerName: 'Sponsor Guest', spotType: SpotType.VIP, lotId: 'L-100' }
+    ]);
+  });
+
+  it('should reject blank and repeated names', () => {
+    service.createTemplate('Sponsor VIP', [createPassFormData('ACC1', '')], 'LM1');
+
+    expect(() => service.createTemplate('  ', [createPassFormData('ACC1', '')], 'LM1')).toThrow('Please enter a template name.');
+    expect(() => service.createTemplate('sponsor vip', [createPassFormData('ACC1', '')], 'LM1')).toThrow('already exists');
+    expect(() => service.createTemplate('Empty', [], 'LM1')).toThrow('at least one pass');
+  });
+
+  it('should rename, duplicate and delete templates', () => {
+    const template = service.createTemplate('Sponsor VIP', [createPassFormData('ACC1', '')], 'LM1');
+    const other = service.createTemplate('Staff', [createPassFormData('ACC9', '')], 'LM1');
+
+    expect(() => service.renameTemplate(template.id, 'staff', 'LM1')).toThrow('already exists');
+    expect(service.renameTemplate(template.id, 'Sponsor VIP 2026', 'LM1')?.name).toBe('Sponsor VIP 2026');
+
+    const copy = service.duplicateTemplate(template.id, 'LM1');
+    const secondCopy = service.duplicateTemplate(template.id, 'LM1');
+    expect(copy?.name).toBe('Sponsor VIP 2026 (copy)');
+    expect(secondCopy?.name).toBe('Sponsor VIP 2026 (copy) 2');
+    expect(copy?.id).not.toBe(template.id);
+    expect(copy?.rows).toEqual(template.rows);
+
+    expect(service.deleteTemplate(other.id, 'LM1')).toBe(true);
+    expect(service.deleteTemplate(other.id, 'LM1')).toBe(false);
+    expect(getPassTemplates('LM1').map(saved => saved.name)).toEqual([
+      'Sponsor VIP 2026',
+      'Sponsor VIP 2026 (copy)',
+      'Sponsor VIP 2026 (copy) 2'
+    ]);
+  });
+
+  it('should import exported templates, renaming any whose name is taken', () => {
+    const template = service.createTemplate('Sponsor VIP', [createPassFormData('ACC1', 'BC100001')], 'LM1');
+    const json = service.exportTemplates([template]);
+
+    expect(JSON.parse(json)).toMatchObject({ format: TEMPLATE_EXPORT_FORMAT, templates: [{ name: 'Sponsor VIP' }] });
+    expect(json).not.toContain('BC100001');
+
+    const listener = jest.fn();
+    service.subscribe(listener);
+
+    expect(service.importTemplates(json, 'LM2').map(added => added.name)).toEqual(['Sponsor VIP']);
+    expect(service.importTemplates(json, 'LM1').map(added => added.name)).toEqual(['Sponsor VIP 2']);
+    expect(getPassTemplates('LM1')[1].rows).toEqual(template.rows);
+    expect(listener.mock.calls).toEqual([['LM2'], ['LM1']]);
+  });
+
+  it('should reject files that are not valid template exports', () => {
+    const exportWith = (templates: unknown) => JSON.stringify({ format: TEMPLATE_EXPORT_FORMAT, version: 1, templates });
+
+    expect(() => service.parseTemplateExport('not json')).toThrow('not valid JSON');
+    expect(() => service.parseTemplateExport('{"lots": []}')).toThrow('not a pass template export');
+    expect(() => service.parseTemplateExport(exportWith([{ name: '', rows: [{}] }]))).toThrow('Template 1 has no name.');
+    expect(() => service.parseTemplateExport(exportWith([{ name: 'Empty', rows: [] }]))).toThrow('Template "Empty" has no passes.');
+    expect(() => service.parseTemplateExport(exportWith([{ name: 'Odd', rows: [{ spotType: 'Boat' }] }])))
+      .toThrow('Pass 1 of template "Odd" has an unknown spot type "Boat".');
+
+    expect(service.parseTemplateExport(exportWith([{ name: 'Lower', rows: [{ accountId: 42, spotType: 'vip' }] }]))).toEqual([
+      { name: 'Lower', rows: [{ accountId: '42', customerName: '', spotType: SpotType.VIP, lotId: '' }] }
+    ]);
+  });
+});
@@ -0,0 +1,117 @@
+import { webcrypto } from 'crypto';
+import { TextEncoder, TextDecoder } from 'util';
+import { ApiKeyVault, apiKeyVault } from '../../../src/services/vault/apiKeyVault';
+import { apiKeyStorage } from '../../../src/services/storage/apiKeyStorage';
+import * as apiKeyVaultStorage from '../../../src/services/storage/apiKeyVaultStorage';
+import { API_KEY, API_KEY_VAULT } from '../../../src/constants/storageKeys';
+import { VaultStatus } from '../../../src/types/vault.types';
+
+const API_KEY_VALUE = 'abcdefghijklmnopqrstuvwxyz0123456789';
+const PASSPHRASE = 'correct horse battery';
+
+describe('ApiKeyVault', () => {
+  beforeAll(() => {
+    // jsdom provides neither the Web Crypto API nor TextEncoder, so use Node's
+    Object.defineProperty(global, 'crypto', { value: webcrypto, configurable: true });
+    Object.assign(global, { TextEncoder, TextDecoder });
+  });
+
+  beforeEach(() => {
+    localStorage.clear();
+    apiKeyVault.lock();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should keep the API key encrypted until the vault is unlocked', async () => {
+    const vault = new ApiKeyVault({ iterations: 1000 });
+    await vault.create(PASSPHRASE, API_KEY_VALUE);
+
+    expect(vault.getStatus()).toBe(VaultStatus.UNLOCKED);
+    expect(vault.getSecret()).toBe(API_KEY_VALUE);
+    expect(localStorage.getItem(API_KEY_VAULT)).not.toContain(API_KEY_VALUE);
+    expect(localStorage.getItem(API_KEY_VAULT)).not.toContain(PASSPHRASE);
+
+    // Reloading the app
+    const reloaded = new ApiKeyVault({ iterations: 1000 });
+    expect(reloaded.getStatus()).toBe(VaultStatus.LOCKED);
+    expect(reloaded.getSecret()).toBeNull();
+
+    await expect(reloaded.unlock('wrong passphrase')).rejects.toThrow('The passphrase is incorrect.');
+    expect(reloaded.getStatus()).toBe(VaultStatus.LOCKED);
+
+    await expect(reloaded.unlock(PASSPHRASE)).resolves.toBe(API_KEY_VALUE);
+    expect(reloaded.getStatus()).toBe(VaultStatus.UNLOCKED);
+  });
+
+  it('should reject short passphrases', async () => {
+    const vault = new ApiKeyVault({ iterations: 1000 });
+
+    await expect(vault.create('short', API_KEY_VALUE)).rejects.toThrow('at least 8 characters');
+    expect(vault.getStatus()).toBe(VaultStatus.DISABLED);
+  });
+
+  it('should lock after a period without activity', async () => {
+    const vault = new ApiKeyVault({ iterations: 1000, autoLockTimeout: 60000 });
+    const listener = jest.fn();
+    vault.subscribe(listener);
+    await vault.create(PASSPHRASE, API_KEY_VALUE);
+
+    jest.useFakeTimers();
+    vault.recordActivity();
+    jest.advanceTimersByTime(45000);
+    vault.recordActivity();
+    jest.advanceTimersByTime(45000);
+    expect(vault.getStatus()).toBe(VaultStatus.UNLOCKED);
+
+    jest.advanceTimersByTime(15000);
+    expect(vault.getStatus()).toBe(VaultStatus.LOCKED);
+    expect(vault.getSecret()).toBeNull();
+    expect(listener.mock.calls.map(([status]) => status)).toEqual([
+      VaultStatus.DISABLED,
+      VaultStatus.UNLOCKED,
+      VaultStatus.LOCKED
+    ]);
+  });
+
+  it('should move a stored API key into the vault and back', async () => {
+    expect(apiKeyStorage.setApiKey(API_KEY_VALUE)).toBe(true);
+    expect(localStorage.getItem(API_KEY)).not.toBeNull();
+
+    await apiKeyStorage.enableVault(PASSPHRASE);
+
+    expect(localStorage.getItem(API_KEY)).toBeNull();
+    expect(apiKeyStorage.getApiKey()).toBe(API_KEY_VALUE);
+
+    apiKeyVault.lock();
+    expect(apiKeyStorage.getApiKey()).toBeNull();
+    expect(apiKeyStorage.setApiKey(API_KEY_VALUE.toUpperCase())).toBe(false);
+    expect(() => apiKeyStorage.disableVault()).toThrow('Unlock the API key');
+
+    await apiKeyVault.unlock(PASSPHRASE);
+    apiKeyStorage.disableVault();
+
+    expect(apiKeyVault.getStatus()).toBe(VaultStatus.DISABLED);
+    expect(localStorage.getItem(API_KEY_VAULT)).toBeNull();
+    expect(apiKeyStorage.getApiKey()).toBe(API_KEY_VALUE);
+  });
+
+  it('should only report a new API key as stored once the vault has saved it', async () => {
+    const newApiKey = API_KEY_VALUE.toUpperCase();
+    await apiKeyStorage.enableVault(PASSPHRASE, API_KEY_VALUE);
+
+    // Encrypting takes a moment, so the synchronous setter can't store a new key
+    expect(apiKeyStorage.setApiKey(newApiKey)).toBe(false);
+    expect(apiKeyStorage.setApiKey(API_KEY_VALUE)).toBe(true);
+
+    jest.spyOn(apiKeyVaultStorage, 'saveVaultRecord').mockReturnValueOnce(false);
+    await expect(apiKeyStorage.setApiKeyAsync(newApiKey)).resolves.toBe(false);
+    expect(apiKeyStorage.getApiKey()).toBe(API_KEY_VALUE);
+
+    await expect(apiKeyStorage.setApiKeyAsync(newApiKey)).resolves.toBe(true);
+    expect(apiKeyStorage.getApiKey()).toBe(newApiKey);
+  });
+});
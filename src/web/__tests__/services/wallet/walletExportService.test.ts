@@ -0,0 +1,109 @@
+import JSZip from 'jszip';
+import { createHash } from 'crypto';
+
+import { WalletExportService } from '../../../src/services/wallet/walletExportService';
+import { WalletFormat, WalletPassSigner } from '../../../src/types/wallet.types';
+import { UNSIGNED_PASS_IDENTIFIERS } from '../../../src/constants/wallet';
+import { PassStatus } from '../../../src/types/pass.types';
+import { mockPasses, createMockPass } from '../../__mocks__/passesMock';
+import { mockEvents } from '../../__mocks__/eventsMock';
+
+const GOOGLE_ISSUER_ID = '3388000000022123456';
+
+describe('WalletExportService', () => {
+  const pass = mockPasses.find(item => item.eventId === 'EV12345')!;
+  const event = mockEvents[0];
+  let walletExportService: WalletExportService;
+
+  beforeEach(() => {
+    walletExportService = new WalletExportService();
+    walletExportService.setGoogleIssuerId(GOOGLE_ISSUER_ID);
+  });
+
+  describe('buildApplePassJson', () => {
+    it('should describe the pass as an event ticket with QR and Code128 barcodes', () => {
+      const passJson = walletExportService.buildApplePassJson(pass);
+
+      expect(passJson.passTypeIdentifier).toBe(UNSIGNED_PASS_IDENTIFIERS.passTypeIdentifier);
+      expect(passJson.teamIdentifier).toBe(UNSIGNED_PASS_IDENTIFIERS.teamIdentifier);
+      expect(passJson.serialNumber).toBe(pass.id);
+      expect(passJson.barcodes.map(barcode => barcode.format)).toEqual([
+        'PKBarcodeFormatQR',
+        'PKBarcodeFormatCode128'
+      ]);
+      expect(passJson.barcodes[0].message).toBe(pass.barcode);
+      expect(passJson.eventTicket.primaryFields[0].value).toBe('Football vs. Rivals');
+      expect(passJson.eventTicket.headerFields[0].value).toBe('VIP');
+      expect(passJson.voided).toBeUndefined();
+    });
+
+    it('should void cancelled passes', () => {
+      const passJson = walletExportService.buildApplePassJson(createMockPass({ status: PassStatus.CANCELLED }));
+
+      expect(passJson.voided).toBe(true);
+    });
+  });
+
+  describe('buildPkpass', () => {
+    it('should bundle pass.json, icons and a manifest of SHA-1 hashes without a signature when unsigned', async () => {
+      const zip = await JSZip.loadAsync(await walletExportService.buildPkpass(pass, event));
+      const manifest = JSON.parse(await zip.file('manifest.json')!.async('string'));
+      const passJson = await zip.file('pass.json')!.async('string');
+
+      expect(Object.keys(zip.files).sort()).toEqual(['icon.png', 'icon@2x.png', 'manifest.json', 'pass.json']);
+      expect(Object.keys(manifest).sort()).toEqual(['icon.png', 'icon@2x.png', 'pass.json']);
+      expect(manifest['pass.json']).toBe(createHash('sha1').update(passJson, 'utf8').digest('hex'));
+    });
+
+    it('should add the signature produced by the signer for the manifest', async () => {
+      const signer: WalletPassSigner = {
+        trusted: true,
+        identifiers: { passTypeIdentifier: 'pass.com.example.parking', teamIdentifier: 'ABCDE12345' },
+        sign: jest.fn().mockResolvedValue(new Uint8Array([1, 2, 3]))
+      };
+
+      const zip = await JSZip.loadAsync(await walletExportService.buildPkpass(pass, event, signer));
+      const signature = await zip.file('signature')!.async('uint8array');
+      const manifest = await zip.file('manifest.json')!.async('string');
+      const passJson = JSON.parse(await zip.file('pass.json')!.async('string'));
+      const signed = (signer.sign as jest.Mock).mock.calls[0][0] as Uint8Array;
+
+      expect(Array.from(signature)).toEqual([1, 2, 3]);
+      expect(String.fromCharCode(...Array.from(signed))).toBe(manifest);
+      expect(passJson.passTypeIdentifier).toBe('pass.com.example.parking');
+      expect(passJson.teamIdentifier).toBe('ABCDE12345');
+    });
+  });
+
+  describe('buildGooglePayload', () => {
+    it('should create one class per event and one object per pass', () => {
+      const payload = walletExportService.buildGooglePayload(mockPasses);
+
+      expect(payload.eventTicketClasses.map(ticketClass => ticketClass.eventId)).toEqual(['EV12345', 'EV12346']);
+      expect(payload.eventTicketObjects).toHaveLength(mockPasses.length);
+      expect(payload.eventTicketObjects[0].classId).toBe(`${GOOGLE_ISSUER_ID}.EV12345`);
+    });
+
+    it('should require a Google Wallet issuer ID', () => {
+      walletExportService.setGoogleIssuerId('');
+
+      expect(() => walletExportService.buildGooglePayload(mockPasses))
+        .toThrow('Enter your Google Wallet issuer ID on the Settings page to export passes to Google Wallet.');
+    });
+
+    it('should map pass statuses to wallet object states', () => {
+      const states = [PassStatus.ACTIVE, PassStatus.USED, PassStatus.CANCELLED].map(status =>
+        walletExportService.buildGoogleObject(createMockPass({ status })).state
+      );
+
+      expect(states).toEqual(['ACTIVE', 'COMPLETED', 'INACTIVE']);
+    });
+  });
+
+  describe('exportPasses', () => {
+    it('should throw when there are no passes to export', async () => {
+      await expect(walletExportService.exportPasses([], { format: WalletFormat.APPLE }))
+        .rejects.toThrow('There are no passes to export.');
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import forge from 'node-forge';
+
+import { CertificateWalletSigner } from '../../../src/services/wallet/walletSigners';
+
+const keys = forge.pki.rsa.generateKeyPair({ bits: 512, e: 0x10001 });
+
+/**
+ * Creates a self-signed certificate with the given subject, in PEM format
+ */
+const createCertificatePem = (subject: forge.pki.CertificateField[]): string => {
+  const certificate = forge.pki.createCertificate();
+  certificate.publicKey = keys.publicKey;
+  certificate.serialNumber = '01';
+  certificate.validity.notBefore = new Date();
+  certificate.validity.notAfter = new Date(Date.now() + 24 * 60 * 60 * 1000);
+  certificate.setSubject(subject);
+  certificate.setIssuer(subject);
+  certificate.sign(keys.privateKey);
+  return forge.pki.certificateToPem(certificate);
+};
+
+describe('CertificateWalletSigner', () => {
+  const privateKeyPem = forge.pki.privateKeyToPem(keys.privateKey);
+  const wwdrCertificatePem = createCertificatePem([{ shortName: 'CN', value: 'Apple WWDR' }]);
+
+  it('should read the pass type and team identifiers from the certificate', () => {
+    const signer = new CertificateWalletSigner({
+      certificatePem: createCertificatePem([
+        { type: '0.9.2342.19200300.100.1.1', value: 'pass.com.example.parking' },
+        { shortName: 'CN', value: 'Pass Type ID: pass.com.example.parking' },
+        { shortName: 'OU', value: 'ABCDE12345' }
+      ]),
+      privateKeyPem,
+      wwdrCertificatePem
+    });
+
+    expect(signer.identifiers).toEqual({
+      passTypeIdentifier: 'pass.com.example.parking',
+      teamIdentifier: 'ABCDE12345'
+    });
+  });
+
+  it('should reject a certificate that is not a pass type ID certificate', () => {
+    expect(() => new CertificateWalletSigner({
+      certificatePem: createCertificatePem([{ shortName: 'CN', value: 'example.com' }]),
+      privateKeyPem,
+      wwdrCertificatePem
+    })).toThrow('The certificate is not a pass type ID certificate.');
+  });
+});
@@ -82,7 +82,7 @@ describe('Error Handling Utilities', () => {
           status: 403,
           data: {
             error: {
-              message: 'Missing API key'
+              message: 'Not allowed to access this venue'
             }
           }
         }
@@ -91,11 +91,33 @@ describe('Error Handling Utilities', () => {
       const result = mapErrorToAppError(mockError);
       
       expect(result.type).toBe(ErrorType.AUTHENTICATION);
-      expect(result.code).toBe(ErrorCode.MISSING_API_KEY);
-      expect(result.message).toBe('Missing API key');
+      expect(result.code).toBe(ErrorCode.LANDMARK_FORBIDDEN);
+      expect(result.message).toBe('Not allowed to access this venue');
       expect(result.statusCode).toBe(403);
     });
     
+    it('should map Axios 401 error for an expired key to EXPIRED_API_KEY', () => {
+      const mockError = {
+        isAxiosError: true,
+        message: 'Unauthorized',
+        response: {
+          status: 401,
+          data: {
+            error: {
+              code: 'expired_api_key',
+              message: 'API key expired'
+            }
+          }
+        }
+      } as unknown as AxiosError;
+      
+      const result = mapErrorToAppError(mockError);
+      
+      expect(result.type).toBe(ErrorType.AUTHENTICATION);
+      expect(result.code).toBe(ErrorCode.EXPIRED_API_KEY);
+      expect(result.statusCode).toBe(401);
+    });
+    
     it('should map Axios 400 error to ValidationError type', () => {
       const mockError = {
         isAxiosError: true,
@@ -0,0 +1,197 @@
+import { Workbook } from 'exceljs';
+import {
+  detectImportFormat,
+  parseCsvContent,
+  parseXlsxContent,
+  parseImportFile,
+  suggestColumnMapping,
+  normalizeSpotType,
+  mapRowToPassFormData,
+  buildImportedPassRows
+} from '../../src/utils/import-helpers';
+import { ImportFileFormat, ParsedImportFile } from '../../src/types/import.types';
+import { SpotType } from '../../src/types/api.types';
+import { VALIDATION_RULES } from '../../src/constants/validation';
+
+describe('detectImportFormat', () => {
+  it('should detect CSV and Excel files by extension', () => {
+    expect(detectImportFormat('passes.csv')).toBe(ImportFileFormat.CSV);
+    expect(detectImportFormat('passes.XLSX')).toBe(ImportFileFormat.XLSX);
+  });
+
+  it('should return null for unsupported files, including legacy .xls workbooks', () => {
+    expect(detectImportFormat('passes.txt')).toBeNull();
+    expect(detectImportFormat('passes.xls')).toBeNull();
+    expect(detectImportFormat('')).toBeNull();
+  });
+});
+
+describe('parseCsvContent', () => {
+  it('should parse simple rows', () => {
+    const rows = parseCsvContent('a,b,c\n1,2,3\n');
+    expect(rows).toEqual([
+      ['a', 'b', 'c'],
+      ['1', '2', '3']
+    ]);
+  });
+
+  it('should handle quoted cells, escaped quotes and CRLF line endings', () => {
+    const rows = parseCsvContent('name,note\r\n"Smith, John","said ""hi"""\r\n"Line\nBreak",x');
+    expect(rows).toEqual([
+      ['name', 'note'],
+      ['Smith, John', 'said "hi"'],
+      ['Line\nBreak', 'x']
+    ]);
+  });
+
+  it('should strip a byte order mark and skip empty rows', () => {
+    const rows = parseCsvContent('\uFEFFa,b\n\n,\n1,2');
+    expect(rows).toEqual([
+      ['a', 'b'],
+      ['1', '2']
+    ]);
+  });
+});
+
+/**
+ * Creates an Excel workbook with the given rows on its first sheet
+ */
+const createWorkbook = async (rows: string[][]): Promise<ArrayBuffer> => {
+  const workbook = new Workbook();
+  workbook.addWorksheet('Passes').addRows(rows);
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Uint8Array(buffer).buffer;
+};
+
+describe('parseXlsxContent', () => {
+  it('should parse the first sheet of a workbook', async () => {
+    const data = await createWorkbook([
+      ['Barcode', 'Customer Name'],
+      ['BC100001', 'John Smith']
+    ]);
+
+    expect(await parseXlsxContent(data)).toEqual([
+      ['Barcode', 'Customer Name'],
+      ['BC100001', 'John Smith']
+    ]);
+  });
+});
+
+describe('parseImportFile', () => {
+  it('should keep the row number of each row when empty rows are skipped', async () => {
+    const file = new File(['Barcode,Customer Name\nBC100001,John Smith\n,\n\nBC100002,Jane Doe\n'], 'passes.csv');
+
+    const parsed = await parseImportFile(file);
+
+    expect(parsed.rows).toEqual([['BC100001', 'John Smith'], ['BC100002', 'Jane Doe']]);
+    expect(parsed.rowNumbers).toEqual([2, 5]);
+  });
+
+  it('should parse Excel workbooks with their row numbers', async () => {
+    const data = await createWorkbook([['Barcode'], ['BC100001'], [], ['BC100002']]);
+    const file = new File([data], 'passes.xlsx');
+
+    const parsed = await parseImportFile(file);
+
+    expect(parsed.format).toBe(ImportFileFormat.XLSX);
+    expect(parsed.headers).toEqual(['Barcode']);
+    expect(parsed.rows).toEqual([['BC100001'], ['BC100002']]);
+    expect(parsed.rowNumbers).toEqual([2, 4]);
+  });
+
+  it('should reject unsupported files', async () => {
+    await expect(parseImportFile(new File(['data'], 'passes.xls'))).rejects.toThrow('Unsupported file type');
+  });
+});
+
+describe('suggestColumnMapping', () => {
+  it('should map headers to fields using aliases', () => {
+    const mapping = suggestColumnMapping(['Customer Name', 'Account ID', 'Barcode', 'Lot', 'Spot Type']);
+    expect(mapping).toEqual({
+      accountId: 1,
+      barcode: 2,
+      customerName: 0,
+      spotType: 4,
+      lotId: 3
+    });
+  });
+
+  it('should leave unmatched fields unmapped', () => {
+    const mapping = suggestColumnMapping(['Barcode', 'Notes']);
+    expect(mapping.barcode).toBe(0);
+    expect(mapping.accountId).toBeNull();
+    expect(mapping.customerName).toBeNull();
+  });
+});
+
+describe('normalizeSpotType', () => {
+  it('should match spot types case-insensitively', () => {
+    expect(normalizeSpotType('vip')).toBe(SpotType.VIP);
+    expect(normalizeSpotType(' premium ')).toBe(SpotType.PREMIUM);
+  });
+
+  it('should default empty values to Regular and keep unknown values', () => {
+    expect(normalizeSpotType('')).toBe(SpotType.REGULAR);
+    expect(normalizeSpotType('Compact')).toBe('Compact');
+  });
+});
+
+describe('mapRowToPassFormData', () => {
+  it('should build pass form data from mapped columns', () => {
+    const data = mapRowToPassFormData(
+      [' ABC123 ', 'BC100001', 'John Smith', 'vip', 'LOT-A'],
+      { accountId: 0, barcode: 1, customerName: 2, spotType: 3, lotId: 4 },
+      'EV12345'
+    );
+
+    expect(data).toEqual({
+      eventId: 'EV12345',
+      accountId: 'ABC123',
+      barcode: 'BC100001',
+      customerName: 'John Smith',
+      spotType: SpotType.VIP,
+      lotId: 'LOT-A'
+    });
+  });
+});
+
+describe('buildImportedPassRows', () => {
+  const parsedFile: ParsedImportFile = {
+    fileName: 'passes.csv',
+    format: ImportFileFormat.CSV,
+    headers: ['Account ID', 'Barcode', 'Customer Name', 'Spot Type', 'Lot ID'],
+    rows: [
+      ['ABC123', 'BC100001', 'John Smith', 'Regular', 'LOT-A'],
+      ['ABC123', 'INVALID', 'Jane Doe', 'VIP', 'LOT-B'],
+      ['ABC123', 'BC100001', 'Bob Jones', 'Premium', 'LOT-C']
+    ],
+    // The file had an empty row before the last pass
+    rowNumbers: [2, 3, 5]
+  };
+  const mapping = { accountId: 0, barcode: 1, customerName: 2, spotType: 3, lotId: 4 };
+
+  it('should validate each row and report row numbers', () => {
+    const rows = buildImportedPassRows(parsedFile, mapping, 'EV12345');
+
+    expect(rows).toHaveLength(3);
+    expect(rows.map(row => row.rowNumber)).toEqual([2, 3, 5]);
+    expect(rows[0].isValid).toBe(true);
+    expect(rows[0].errors).toEqual({});
+    expect(rows[1].isValid).toBe(false);
+    expect(rows[1].errors).toHaveProperty('barcode');
+  });
+
+  it('should flag barcodes repeated within the file', () => {
+    const rows = buildImportedPassRows(parsedFile, mapping, 'EV12345');
+
+    expect(rows[2].isValid).toBe(false);
+    expect(rows[2].errors.barcode).toBe(VALIDATION_RULES.barcode.errorMessages.duplicate);
+  });
+
+  it('should report missing required fields when a column is not mapped', () => {
+    const rows = buildImportedPassRows(parsedFile, { ...mapping, accountId: null }, 'EV12345');
+
+    expect(rows[0].isValid).toBe(false);
+    expect(rows[0].errors).toHaveProperty('accountId');
+  });
+});
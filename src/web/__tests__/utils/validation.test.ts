@@ -4,11 +4,12 @@ import {
   validatePassForm,
   validateEventId,
   validateBarcode,
+  findDuplicateBarcodes,
   isFormValid,
   isFieldValid,
   createValidationError
 } from '../../src/utils/validation';
-import { VALIDATION_PATTERNS } from '../../src/constants/validation';
+import { VALIDATION_PATTERNS, VALIDATION_RULES } from '../../src/constants/validation';
 import { FIELD_ERROR_MESSAGES } from '../../src/constants/errorMessages';
 import { FormField, PassFormData } from '../../src/types/form.types';
 import { SpotType } from '../../src/types/api.types';
@@ -491,6 +492,27 @@ describe('validateBarcode', () => {
   });
 });
 
+describe('findDuplicateBarcodes', () => {
+  it('should flag every row that shares a barcode with another row', () => {
+    const result = findDuplicateBarcodes(['BC123456', 'BC234567', 'BC123456']);
+    
+    expect(result).toEqual({
+      0: VALIDATION_RULES.barcode.errorMessages.batchDuplicate,
+      2: VALIDATION_RULES.barcode.errorMessages.batchDuplicate
+    });
+  });
+
+  it('should flag rows whose barcode already exists for the event', () => {
+    const result = findDuplicateBarcodes(['BC123456', 'BC234567'], ['BC234567']);
+    
+    expect(result).toEqual({ 1: FIELD_ERROR_MESSAGES.barcode[ErrorCode.DUPLICATE_BARCODE] });
+  });
+
+  it('should ignore empty barcodes', () => {
+    expect(findDuplicateBarcodes(['', '  ', 'BC123456'])).toEqual({});
+  });
+});
+
 describe('isFormValid', () => {
   it('should return true for a valid form', () => {
     const values = {
@@ -34,7 +34,9 @@ export default (): Config.InitialOptions => {
     moduleNameMapper: {
       '^@/(.*)$': '<rootDir>/src/$1',
       '\\.(css|less|scss|sass)$': 'identity-obj-proxy',
-      '\\.(jpg|jpeg|png|gif|webp|svg)$': '<rootDir>/__tests__/__mocks__/fileMock.ts'
+      '\\.(jpg|jpeg|png|gif|webp|svg)$': '<rootDir>/__tests__/__mocks__/fileMock.ts',
+      // exceljs bundles uuid 8, whose browser build is only published as ES modules
+      '^uuid$': '<rootDir>/node_modules/uuid/dist/commonjs-browser/index.js'
     },
     
     // File extensions to consider
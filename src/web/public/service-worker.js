@@ -0,0 +1,162 @@
+/**
+ * Service worker for offline mode.
+ *
+ * - Navigations are answered from the network, falling back to the cached app shell
+ *   so the app still opens without a connection.
+ * - The runtime settings file (config.json) is fetched from the network so changed
+ *   settings reach users straight away, falling back to the cached copy while offline.
+ * - Other static assets from this origin are served from the cache once fetched.
+ * - Event and pass listings from the ParkHub API are fetched from the network and
+ *   cached, so the last fetched data is still shown while offline. The app sends the
+ *   configured API address to the worker, and clears the cached listings when another
+ *   profile or API key is used so one account's data is never shown to another.
+ *
+ * Only GET requests are handled; pass creation is queued by the app itself while offline.
+ */
+
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `parkhub-passes-shell-${CACHE_VERSION}`;
+const DATA_CACHE = `parkhub-passes-data-${CACHE_VERSION}`;
+const SHELL_URLS = ['/', '/index.html', '/manifest.json'];
+const CONFIG_PATH = '/config.json';
+
+// Settings sent by the app, kept in a cache because the worker's globals are reset when it restarts
+const SETTINGS_CACHE = 'parkhub-passes-settings';
+const SETTINGS_URL = '/service-worker-settings.json';
+
+// Event listings (/events/{landMarkId}) and pass listings (/{landMarkId}/passes?eventId=...),
+// relative to the API address; the suffix pattern picks out requests worth checking
+const API_DATA_PATTERN = /^\/(events\/[^/]+|[^/]+\/passes)$/;
+const API_DATA_SUFFIX_PATTERN = /\/(events\/[^/]+|[^/]+\/passes)$/;
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  // Remove caches left by earlier versions of this worker
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys
+          .filter(key => key.startsWith('parkhub-passes-') && ![SHELL_CACHE, DATA_CACHE, SETTINGS_CACHE].includes(key))
+          .map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// API address sent by the app; undefined until read from the settings cache
+let apiBaseUrl;
+
+/**
+ * Gets the API address sent by the app
+ */
+const getApiBaseUrl = () => {
+  if (apiBaseUrl !== undefined) {
+    return Promise.resolve(apiBaseUrl);
+  }
+
+  return caches.open(SETTINGS_CACHE)
+    .then(cache => cache.match(SETTINGS_URL))
+    .then(response => (response ? response.json() : {}))
+    .then(settings => {
+      apiBaseUrl = settings.apiBaseUrl || null;
+      return apiBaseUrl;
+    })
+    .catch(() => null);
+};
+
+/**
+ * Saves the API address sent by the app
+ */
+const setApiBaseUrl = value => {
+  apiBaseUrl = value;
+  return caches.open(SETTINGS_CACHE)
+    .then(cache => cache.put(SETTINGS_URL, new Response(JSON.stringify({ apiBaseUrl: value }))));
+};
+
+/**
+ * Checks whether a URL is an event or pass listing of the configured API
+ */
+const isApiDataUrl = (url, baseUrl) => {
+  if (!baseUrl) {
+    return false;
+  }
+
+  const base = new URL(baseUrl, self.location.origin);
+  const basePath = base.pathname.replace(/\/+$/, '');
+
+  return url.origin === base.origin &&
+    url.pathname.startsWith(`${basePath}/`) &&
+    API_DATA_PATTERN.test(url.pathname.slice(basePath.length));
+};
+
+self.addEventListener('message', event => {
+  const { data } = event;
+
+  if (data && data.type === 'SET_API_BASE_URL') {
+    event.waitUntil(setApiBaseUrl(data.apiBaseUrl));
+  } else if (data && data.type === 'CLEAR_API_DATA') {
+    event.waitUntil(caches.delete(DATA_CACHE));
+  }
+});
+
+/**
+ * Fetches from the network and caches a successful response, falling back to the cache
+ */
+const networkFirst = (request, cacheName, fallbackUrl) =>
+  fetch(request)
+    .then(response => {
+      if (response.ok) {
+        const copy = response.clone();
+        caches.open(cacheName).then(cache => cache.put(request, copy));
+      }
+      return response;
+    })
+    .catch(() =>
+      caches.match(request).then(cached => cached || (fallbackUrl ? caches.match(fallbackUrl) : undefined))
+        .then(cached => cached || Response.error())
+    );
+
+/**
+ * Serves from the cache, fetching and caching on a miss
+ */
+const cacheFirst = (request, cacheName) =>
+  caches.match(request).then(cached => cached || fetch(request).then(response => {
+    if (response.ok) {
+      const copy = response.clone();
+      caches.open(cacheName).then(cache => cache.put(request, copy));
+    }
+    return response;
+  }));
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+
+  if (request.method !== 'GET') {
+    return;
+  }
+
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, SHELL_CACHE, '/index.html'));
+  } else if (url.origin === self.location.origin && url.pathname === CONFIG_PATH) {
+    event.respondWith(networkFirst(request, SHELL_CACHE));
+  } else if (API_DATA_SUFFIX_PATTERN.test(url.pathname)) {
+    // The API address is only known once the saved settings are read
+    event.respondWith(getApiBaseUrl().then(baseUrl => {
+      if (isApiDataUrl(url, baseUrl)) {
+        return networkFirst(request, DATA_CACHE);
+      }
+      return url.origin === self.location.origin ? cacheFirst(request, SHELL_CACHE) : fetch(request);
+    }));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+  }
+});
@@ -4,7 +4,11 @@ import { CssBaseline } from '@mui/material'; // ^5.14.0
 
 import Router from './router/Router';
 import { ApiKeyProvider } from './context/ApiKeyContext';
+import { LandmarkProvider } from './context/LandmarkContext';
 import { NotificationProvider } from './context/NotificationContext';
+import { OfflineProvider } from './context/OfflineContext';
+import { ProfileProvider } from './context/ProfileContext';
+import { ScheduleProvider } from './context/ScheduleContext';
 
 /**
  * Main application component that configures the app with providers and routing
@@ -50,12 +54,20 @@ const App = (): JSX.Element => {
 
   return (
     <NotificationProvider>
-      <ApiKeyProvider>
-        <ThemeProvider theme={theme}>
-          <CssBaseline />
-          <Router />
-        </ThemeProvider>
-      </ApiKeyProvider>
+      <ProfileProvider>
+        <ApiKeyProvider>
+          <LandmarkProvider>
+            <OfflineProvider>
+              <ScheduleProvider>
+                <ThemeProvider theme={theme}>
+                  <CssBaseline />
+                  <Router />
+                </ThemeProvider>
+              </ScheduleProvider>
+            </OfflineProvider>
+          </LandmarkProvider>
+        </ApiKeyProvider>
+      </ProfileProvider>
     </NotificationProvider>
   );
 };
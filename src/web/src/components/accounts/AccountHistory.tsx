@@ -0,0 +1,115 @@
+import React from 'react'; // v18.2.0
+import {
+  Box,
+  Link,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material'; // v5.14.0
+import { styled } from '@mui/material/styles'; // v5.14.0
+
+import { AccountPassRecord, AccountRecord } from '../../types/account.types';
+import { formatDate, formatDateTime } from '../../utils/date-helpers';
+import { formatPassStatus, formatSpotType } from '../../utils/formatting';
+
+/**
+ * Props interface for the AccountHistory component
+ */
+export interface AccountHistoryProps {
+  /** The account whose passes are listed */
+  account: AccountRecord;
+  /** Optional handler to open a pass on the passes page */
+  onViewPass?: (entry: AccountPassRecord) => void;
+  /** Optional class name for styling */
+  className?: string;
+}
+
+/**
+ * Row of figures summarizing the account
+ */
+const SummaryRow = styled(Box)(({ theme }) => ({
+  display: 'flex',
+  flexWrap: 'wrap',
+  gap: theme.spacing(3),
+  marginBottom: theme.spacing(2),
+}));
+
+/**
+ * A summary of a customer account and a table of its passes across events, newest first.
+ *
+ * @param {AccountHistoryProps} props - The component props
+ * @returns {JSX.Element} The rendered account history
+ */
+const AccountHistory: React.FC<AccountHistoryProps> = ({ account, onViewPass, className }) => {
+  const eventCount = new Set(account.history.map(entry => entry.eventId)).size;
+
+  return (
+    <Box className={className} data-testid="account-history">
+      <Typography variant="h6" component="h2">
+        {account.customerName || account.accountId}
+      </Typography>
+      <Typography variant="body2" color="text.secondary" gutterBottom>
+        Account {account.accountId}
+        {account.otherNames.length > 0 && ` · also seen as ${account.otherNames.join(', ')}`}
+      </Typography>
+
+      <SummaryRow>
+        <Box>
+          <Typography variant="caption" color="text.secondary">Passes</Typography>
+          <Typography variant="h6" data-testid="account-pass-count">{account.history.length}</Typography>
+        </Box>
+        <Box>
+          <Typography variant="caption" color="text.secondary">Events</Typography>
+          <Typography variant="h6">{eventCount}</Typography>
+        </Box>
+        <Box>
+          <Typography variant="caption" color="text.secondary">First pass</Typography>
+          <Typography variant="h6">{formatDate(account.firstSeen)}</Typography>
+        </Box>
+        <Box>
+          <Typography variant="caption" color="text.secondary">Latest pass</Typography>
+          <Typography variant="h6">{formatDate(account.lastSeen)}</Typography>
+        </Box>
+      </SummaryRow>
+
+      <TableContainer>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Created</TableCell>
+              <TableCell>Event</TableCell>
+              <TableCell>Name on Pass</TableCell>
+              <TableCell>Barcode</TableCell>
+              <TableCell>Spot / Lot</TableCell>
+              <TableCell>Status</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {account.history.map(entry => (
+              <TableRow key={entry.passId} data-testid={`account-history-${entry.passId}`}>
+                <TableCell>{formatDateTime(entry.createdAt)}</TableCell>
+                <TableCell>{entry.eventName || entry.eventId}</TableCell>
+                <TableCell>{entry.customerName}</TableCell>
+                <TableCell>
+                  {onViewPass ? (
+                    <Link component="button" variant="body2" onClick={() => onViewPass(entry)}>
+                      {entry.barcode}
+                    </Link>
+                  ) : entry.barcode}
+                </TableCell>
+                <TableCell>{formatSpotType(entry.spotType)} / {entry.lotId}</TableCell>
+                <TableCell>{formatPassStatus(entry.status)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Box>
+  );
+};
+
+export default AccountHistory;
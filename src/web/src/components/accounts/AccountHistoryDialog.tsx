@@ -0,0 +1,51 @@
+import React from 'react'; // v18.2.0
+
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import AccountHistory from './AccountHistory';
+import { AccountPassRecord, AccountRecord } from '../../types/account.types';
+
+/**
+ * Props interface for the AccountHistoryDialog component
+ */
+export interface AccountHistoryDialogProps {
+  /** Whether the dialog is open */
+  isOpen: boolean;
+  /** The account whose passes are listed */
+  account: AccountRecord | null;
+  /** Handler to close the dialog */
+  onClose: () => void;
+  /** Optional handler to open a pass on the passes page */
+  onViewPass?: (entry: AccountPassRecord) => void;
+}
+
+/**
+ * A dialog listing a customer account's passes across events.
+ *
+ * @param {AccountHistoryDialogProps} props - The component props
+ * @returns {JSX.Element} The rendered account history dialog
+ */
+const AccountHistoryDialog: React.FC<AccountHistoryDialogProps> = ({
+  isOpen,
+  account,
+  onClose,
+  onViewPass
+}) => {
+  return (
+    <Modal
+      isOpen={isOpen && Boolean(account)}
+      title="Account History"
+      onClose={onClose}
+      maxWidth="md"
+      actions={
+        <Button variant="text" onClick={onClose}>
+          Close
+        </Button>
+      }
+    >
+      {account && <AccountHistory account={account} onViewPass={onViewPass} />}
+    </Modal>
+  );
+};
+
+export default AccountHistoryDialog;
@@ -0,0 +1,29 @@
+/**
+ * Barrel file for account directory components
+ * 
+ * This file exports all components and interfaces from the accounts directory,
+ * allowing consumers to import multiple exports from a single path instead of
+ * importing each component individually.
+ * 
+ * @example
+ * // Instead of:
+ * import AccountHistory from './components/accounts/AccountHistory';
+ * import AccountHistoryDialog from './components/accounts/AccountHistoryDialog';
+ * 
+ * // You can use:
+ * import { AccountHistory, AccountHistoryDialog } from './components/accounts';
+ */
+
+// Import component defaults
+import AccountHistory from './AccountHistory';
+import AccountHistoryDialog from './AccountHistoryDialog';
+
+// Import interfaces
+import { AccountHistoryProps } from './AccountHistory';
+import { AccountHistoryDialogProps } from './AccountHistoryDialog';
+
+// Export all components
+export { AccountHistory, AccountHistoryDialog };
+
+// Export all interfaces
+export type { AccountHistoryProps, AccountHistoryDialogProps };
\ No newline at end of file
@@ -0,0 +1,124 @@
+import React from 'react'; // v18.2.0
+import { Box } from '@mui/material'; // v5.14.0
+import { styled } from '@mui/material/styles'; // v5.14.0
+
+import Select from '../ui/Select';
+import Input from '../ui/Input';
+import { AnalyticsDateRange, AnalyticsRangePreset } from '../../types/analytics.types';
+import { formatDate } from '../../utils/date-helpers';
+
+/**
+ * Props interface for the AnalyticsDateRangeControls component
+ */
+export interface AnalyticsDateRangeControlsProps {
+  /** Preset the current range was chosen from */
+  preset: AnalyticsRangePreset;
+  /** Current range of creation dates */
+  range: AnalyticsDateRange;
+  /** Handler for choosing a preset */
+  onPresetChange: (preset: AnalyticsRangePreset) => void;
+  /** Handler for entering custom dates */
+  onRangeChange: (range: AnalyticsDateRange) => void;
+  /** Whether the controls are disabled */
+  disabled?: boolean;
+}
+
+/**
+ * Options for the preset select
+ */
+const PRESET_OPTIONS = [
+  { value: AnalyticsRangePreset.LAST_7_DAYS, label: 'Last 7 days' },
+  { value: AnalyticsRangePreset.LAST_30_DAYS, label: 'Last 30 days' },
+  { value: AnalyticsRangePreset.LAST_90_DAYS, label: 'Last 90 days' },
+  { value: AnalyticsRangePreset.ALL_TIME, label: 'All time' },
+  { value: AnalyticsRangePreset.CUSTOM, label: 'Custom range' }
+];
+
+/**
+ * Row holding the range fields
+ */
+const ControlsContainer = styled(Box)(({ theme }) => ({
+  display: 'flex',
+  flexWrap: 'wrap',
+  gap: theme.spacing(2),
+  '& > *': {
+    minWidth: 180,
+  },
+}));
+
+/**
+ * Converts a date input value to a local date
+ * @param value - Value of a date input (YYYY-MM-DD)
+ * @returns The date at local midnight, or null if the value is empty or invalid
+ */
+const parseInputDate = (value: string): Date | null => {
+  const [year, month, day] = value.split('-').map(Number);
+  if (!year || !month || !day) {
+    return null;
+  }
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * Controls for choosing the range of pass creation dates shown on the dashboard:
+ * a preset select, plus from and to dates when a custom range is chosen.
+ *
+ * @param {AnalyticsDateRangeControlsProps} props - The component props
+ * @returns {JSX.Element} The rendered date range controls
+ */
+const AnalyticsDateRangeControls: React.FC<AnalyticsDateRangeControlsProps> = ({
+  preset,
+  range,
+  onPresetChange,
+  onRangeChange,
+  disabled = false
+}) => {
+  // Ranges are always entered in order, so a from date after the to date moves the to date
+  const handleDateChange = (name: string, value: string) => {
+    const date = parseInputDate(value);
+
+    if (name === 'from') {
+      onRangeChange({ from: date, to: date && range.to && range.to < date ? date : range.to });
+    } else {
+      onRangeChange({ from: date && range.from && range.from > date ? date : range.from, to: date });
+    }
+  };
+
+  return (
+    <ControlsContainer data-testid="analytics-date-range">
+      <Select
+        name="preset"
+        label="Date Range"
+        options={PRESET_OPTIONS}
+        value={preset}
+        onChange={(_name, value) => onPresetChange(value as AnalyticsRangePreset)}
+        onBlur={() => undefined}
+        disabled={disabled}
+      />
+      {preset === AnalyticsRangePreset.CUSTOM && (
+        <>
+          <Input
+            name="from"
+            label="From"
+            type="date"
+            value={range.from ? formatDate(range.from, 'YYYY-MM-DD') : ''}
+            onChange={handleDateChange}
+            onBlur={() => undefined}
+            disabled={disabled}
+          />
+          <Input
+            name="to"
+            label="To"
+            type="date"
+            value={range.to ? formatDate(range.to, 'YYYY-MM-DD') : ''}
+            onChange={handleDateChange}
+            onBlur={() => undefined}
+            disabled={disabled}
+          />
+        </>
+      )}
+    </ControlsContainer>
+  );
+};
+
+export default AnalyticsDateRangeControls;
@@ -0,0 +1,171 @@
+import React from 'react'; // v18.2.0
+import { Box, Grid, Paper, Typography } from '@mui/material'; // v5.14.0
+import { styled } from '@mui/material/styles'; // v5.14.0
+import RefreshIcon from '@mui/icons-material/Refresh'; // v5.14.0
+
+import Button from '../ui/Button';
+import Alert from '../ui/Alert';
+import LoadingSpinner from '../ui/LoadingSpinner';
+import AnalyticsDateRangeControls from './AnalyticsDateRangeControls';
+import BarChart from './BarChart';
+import DonutChart from './DonutChart';
+import LineChart from './LineChart';
+import useAnalytics from '../../hooks/useAnalytics';
+import { AnalyticsInterval } from '../../types/analytics.types';
+
+/**
+ * Props interface for the AnalyticsPanel component
+ */
+export interface AnalyticsPanelProps {
+  /** Optional class name for styling */
+  className?: string;
+}
+
+/**
+ * Container for the analytics panel
+ */
+const PanelContainer = styled(Paper)(({ theme }) => ({
+  padding: theme.spacing(2),
+  marginBottom: theme.spacing(4),
+}));
+
+/**
+ * Header row holding the panel title, the date range controls and the refresh button
+ */
+const PanelHeader = styled(Box)(({ theme }) => ({
+  display: 'flex',
+  justifyContent: 'space-between',
+  alignItems: 'flex-start',
+  flexWrap: 'wrap',
+  gap: theme.spacing(2),
+  marginBottom: theme.spacing(2),
+}));
+
+/**
+ * Outlined box holding one chart and its title
+ */
+const ChartCard = styled(Box)(({ theme }) => ({
+  height: '100%',
+  padding: theme.spacing(2),
+  border: `1px solid ${theme.palette.divider}`,
+  borderRadius: theme.shape.borderRadius,
+}));
+
+/**
+ * A dashboard panel charting the passes of every event at the selected venue:
+ * passes per event, the spot type mix, passes over time and passes per lot and
+ * status, limited to passes created within the chosen date range.
+ *
+ * @param {AnalyticsPanelProps} props - The component props
+ * @returns {JSX.Element} The rendered analytics panel
+ */
+const AnalyticsPanel: React.FC<AnalyticsPanelProps> = ({ className }) => {
+  const {
+    analytics,
+    range,
+    preset,
+    selectPreset,
+    setCustomRange,
+    loading,
+    error,
+    failedEvents,
+    refresh
+  } = useAnalytics();
+
+  return (
+    <PanelContainer className={className} data-testid="analytics-panel">
+      <PanelHeader>
+        <Box>
+          <Typography variant="h6" component="h2">
+            Pass Analytics
+          </Typography>
+          <Typography variant="body2" color="text.secondary" data-testid="analytics-summary">
+            {analytics.totalPasses} passes across {analytics.eventsWithPasses} events
+          </Typography>
+        </Box>
+        <Box display="flex" alignItems="flex-start" gap={2} flexWrap="wrap">
+          <AnalyticsDateRangeControls
+            preset={preset}
+            range={range}
+            onPresetChange={selectPreset}
+            onRangeChange={setCustomRange}
+            disabled={loading}
+          />
+          <Button
+            variant="outlined"
+            size="small"
+            startIcon={<RefreshIcon />}
+            onClick={refresh}
+            disabled={loading}
+            data-testid="analytics-refresh-button"
+          >
+            Refresh
+          </Button>
+        </Box>
+      </PanelHeader>
+
+      {error && (
+        <Alert severity="error">
+          {error.message || 'Failed to load events'}
+        </Alert>
+      )}
+
+      {failedEvents > 0 && (
+        <Alert severity="warning" data-testid="analytics-partial-warning">
+          Passes for {failedEvents} {failedEvents === 1 ? 'event' : 'events'} couldn't be loaded and are not included.
+        </Alert>
+      )}
+
+      {loading ? (
+        <Box display="flex" justifyContent="center" py={4}>
+          <LoadingSpinner size={32} />
+        </Box>
+      ) : (
+        <Grid container spacing={2}>
+          <Grid item xs={12} md={7}>
+            <ChartCard>
+              <Typography variant="subtitle1" gutterBottom>
+                Passes per Event
+              </Typography>
+              <BarChart data={analytics.byEvent} title="Passes issued per event" />
+            </ChartCard>
+          </Grid>
+          <Grid item xs={12} md={5}>
+            <ChartCard>
+              <Typography variant="subtitle1" gutterBottom>
+                Spot Type Mix
+              </Typography>
+              <DonutChart data={analytics.bySpotType} title="Passes by spot type" />
+            </ChartCard>
+          </Grid>
+          <Grid item xs={12}>
+            <ChartCard>
+              <Typography variant="subtitle1" gutterBottom>
+                Passes Created per {analytics.interval === AnalyticsInterval.WEEK ? 'Week' : 'Day'}
+              </Typography>
+              <LineChart data={analytics.byCreationDate} title="Passes created over time" />
+            </ChartCard>
+          </Grid>
+          <Grid item xs={12} md={6}>
+            <ChartCard>
+              <Typography variant="subtitle1" gutterBottom>
+                Passes per Lot
+              </Typography>
+              <BarChart data={analytics.byLot} title="Passes by lot" />
+            </ChartCard>
+          </Grid>
+          <Grid item xs={12} md={6}>
+            <ChartCard>
+              <Typography variant="subtitle1" gutterBottom>
+                Passes by Status
+              </Typography>
+              <BarChart data={analytics.byStatus} title="Passes by status" />
+            </ChartCard>
+          </Grid>
+        </Grid>
+      )}
+    </PanelContainer>
+  );
+};
+
+export default AnalyticsPanel;
@@ -0,0 +1,138 @@
+import React from 'react'; // v18.2.0
+import { Box, Typography } from '@mui/material'; // v5.14.0
+import { styled, useTheme } from '@mui/material/styles'; // v5.14.0
+
+import { AnalyticsDatum } from '../../types/analytics.types';
+
+/**
+ * Props interface for the BarChart component
+ */
+export interface BarChartProps {
+  /** Bars to draw, in display order */
+  data: AnalyticsDatum[];
+  /** Accessible description of the chart */
+  title: string;
+  /** Maximum number of bars; the remaining values are combined into an "Other" bar */
+  maxBars?: number;
+  /** Bar color (defaults to the primary color) */
+  color?: string;
+  /** Message shown when every value is zero */
+  emptyMessage?: string;
+  /** Optional class name for styling */
+  className?: string;
+}
+
+/** Height of each bar row in SVG units */
+const ROW_HEIGHT = 28;
+/** Height of each bar in SVG units */
+const BAR_HEIGHT = 18;
+/** Width reserved for the labels in SVG units */
+const LABEL_WIDTH = 180;
+/** Width reserved for the values in SVG units */
+const VALUE_WIDTH = 48;
+/** Total width of the chart in SVG units */
+const CHART_WIDTH = 560;
+
+/**
+ * Container keeping the chart within the width of its parent
+ */
+const ChartContainer = styled(Box)({
+  width: '100%',
+  '& svg': {
+    display: 'block',
+    width: '100%',
+    height: 'auto',
+  },
+});
+
+/**
+ * Shortens a label to fit the label column
+ * @param label - The label
+ * @returns The label, cut with an ellipsis if it is too long
+ */
+const truncateLabel = (label: string): string => (label.length > 26 ? `${label.slice(0, 25)}…` : label);
+
+/**
+ * A horizontal bar chart drawn with SVG, with one labelled bar per value.
+ *
+ * @param {BarChartProps} props - The component props
+ * @returns {JSX.Element} The rendered bar chart
+ */
+const BarChart: React.FC<BarChartProps> = ({
+  data,
+  title,
+  maxBars = 10,
+  color,
+  emptyMessage = 'No passes in this range',
+  className
+}) => {
+  const theme = useTheme();
+
+  if (data.every(datum => datum.value === 0)) {
+    return (
+      <Typography variant="body2" color="text.secondary" data-testid="bar-chart-empty">
+        {emptyMessage}
+      </Typography>
+    );
+  }
+
+  const bars = data.length > maxBars
+    ? [
+      ...data.slice(0, maxBars - 1),
+      {
+        key: 'other',
+        label: 'Other',
+        value: data.slice(maxBars - 1).reduce((sum, datum) => sum + datum.value, 0)
+      }
+    ]
+    : data;
+  const maxValue = Math.max(...bars.map(bar => bar.value), 1);
+  const barWidth = CHART_WIDTH - LABEL_WIDTH - VALUE_WIDTH;
+  const height = bars.length * ROW_HEIGHT;
+
+  return (
+    <ChartContainer className={className} data-testid="bar-chart">
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${height}`} role="img" aria-label={title}>
+        {bars.map((bar, index) => {
+          const y = index * ROW_HEIGHT;
+          const width = (bar.value / maxValue) * barWidth;
+
+          return (
+            <g key={bar.key} data-testid={`bar-${bar.key}`}>
+              <title>{`${bar.label}: ${bar.value}`}</title>
+              <text
+                x={LABEL_WIDTH - 8}
+                y={y + ROW_HEIGHT / 2}
+                textAnchor="end"
+                dominantBaseline="middle"
+                fontSize={12}
+                fill={theme.palette.text.primary}
+              >
+                {truncateLabel(bar.label)}
+              </text>
+              <rect
+                x={LABEL_WIDTH}
+                y={y + (ROW_HEIGHT - BAR_HEIGHT) / 2}
+                width={width}
+                height={BAR_HEIGHT}
+                rx={3}
+                fill={color || theme.palette.primary.main}
+              />
+              <text
+                x={LABEL_WIDTH + width + 6}
+                y={y + ROW_HEIGHT / 2}
+                dominantBaseline="middle"
+                fontSize={12}
+                fill={theme.palette.text.secondary}
+              >
+                {bar.value}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+    </ChartContainer>
+  );
+};
+
+export default BarChart;
@@ -0,0 +1,147 @@
+import React from 'react'; // v18.2.0
+import { Box, Typography } from '@mui/material'; // v5.14.0
+import { styled, useTheme } from '@mui/material/styles'; // v5.14.0
+
+import { AnalyticsDatum } from '../../types/analytics.types';
+
+/**
+ * Props interface for the DonutChart component
+ */
+export interface DonutChartProps {
+  /** Slices to draw, in display order */
+  data: AnalyticsDatum[];
+  /** Accessible description of the chart */
+  title: string;
+  /** Slice colors, used in order (defaults to the theme's palette) */
+  colors?: string[];
+  /** Message shown when every value is zero */
+  emptyMessage?: string;
+  /** Optional class name for styling */
+  className?: string;
+}
+
+/** Size of the chart in SVG units */
+const SIZE = 160;
+/** Radius of the ring, measured to the middle of its stroke */
+const RADIUS = 60;
+/** Width of the ring */
+const STROKE_WIDTH = 28;
+
+/**
+ * Container placing the ring beside its legend
+ */
+const ChartContainer = styled(Box)(({ theme }) => ({
+  display: 'flex',
+  alignItems: 'center',
+  flexWrap: 'wrap',
+  gap: theme.spacing(3),
+  '& svg': {
+    width: SIZE,
+    height: SIZE,
+    flexShrink: 0,
+  },
+}));
+
+/**
+ * Color swatch shown beside each legend entry
+ */
+const Swatch = styled('span')({
+  display: 'inline-block',
+  width: 12,
+  height: 12,
+  borderRadius: 2,
+  marginRight: 8,
+  verticalAlign: 'middle',
+});
+
+/**
+ * A donut chart drawn with SVG showing each value's share of the total, with a
+ * legend listing the counts and percentages.
+ *
+ * @param {DonutChartProps} props - The component props
+ * @returns {JSX.Element} The rendered donut chart
+ */
+const DonutChart: React.FC<DonutChartProps> = ({
+  data,
+  title,
+  colors,
+  emptyMessage = 'No passes in this range',
+  className
+}) => {
+  const theme = useTheme();
+  const palette = colors || [
+    theme.palette.primary.main,
+    theme.palette.secondary.main,
+    theme.palette.success.main,
+    theme.palette.warning.main,
+    theme.palette.info.main,
+    theme.palette.error.main
+  ];
+  const total = data.reduce((sum, datum) => sum + datum.value, 0);
+
+  if (total === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary" data-testid="donut-chart-empty">
+        {emptyMessage}
+      </Typography>
+    );
+  }
+
+  const circumference = 2 * Math.PI * RADIUS;
+  let offset = 0;
+
+  return (
+    <ChartContainer className={className} data-testid="donut-chart">
+      <svg viewBox={`0 0 ${SIZE} ${SIZE}`} role="img" aria-label={title}>
+        <g transform={`rotate(-90 ${SIZE / 2} ${SIZE / 2})`}>
+          {data.map((datum, index) => {
+            const length = (datum.value / total) * circumference;
+            const slice = (
+              <circle
+                key={datum.key}
+                cx={SIZE / 2}
+                cy={SIZE / 2}
+                r={RADIUS}
+                fill="none"
+                stroke={palette[index % palette.length]}
+                strokeWidth={STROKE_WIDTH}
+                strokeDasharray={`${length} ${circumference - length}`}
+                strokeDashoffset={-offset}
+              >
+                <title>{`${datum.label}: ${datum.value}`}</title>
+              </circle>
+            );
+            offset += length;
+            return datum.value > 0 ? slice : null;
+          })}
+        </g>
+        <text
+          x={SIZE / 2}
+          y={SIZE / 2}
+          textAnchor="middle"
+          dominantBaseline="middle"
+          fontSize={22}
+          fontWeight={600}
+          fill={theme.palette.text.primary}
+        >
+          {total}
+        </text>
+      </svg>
+      <Box component="ul" sx={{ listStyle: 'none', m: 0, p: 0 }}>
+        {data.map((datum, index) => (
+          <Typography
+            key={datum.key}
+            component="li"
+            variant="body2"
+            data-testid={`donut-legend-${datum.key}`}
+          >
+            <Swatch style={{ backgroundColor: palette[index % palette.length] }} />
+            {datum.label}: {datum.value} ({Math.round((datum.value / total) * 100)}%)
+          </Typography>
+        ))}
+      </Box>
+    </ChartContainer>
+  );
+};
+
+export default DonutChart;
@@ -0,0 +1,141 @@
+import React from 'react'; // v18.2.0
+import { Box, Typography } from '@mui/material'; // v5.14.0
+import { styled, useTheme } from '@mui/material/styles'; // v5.14.0
+
+import { AnalyticsDatum } from '../../types/analytics.types';
+
+/**
+ * Props interface for the LineChart component
+ */
+export interface LineChartProps {
+  /** Points to draw, oldest first */
+  data: AnalyticsDatum[];
+  /** Accessible description of the chart */
+  title: string;
+  /** Line color (defaults to the primary color) */
+  color?: string;
+  /** Message shown when there are no points */
+  emptyMessage?: string;
+  /** Optional class name for styling */
+  className?: string;
+}
+
+/** Total width of the chart in SVG units */
+const CHART_WIDTH = 560;
+/** Total height of the chart in SVG units */
+const CHART_HEIGHT = 200;
+/** Space around the plot for the axis labels */
+const PADDING = { top: 12, right: 16, bottom: 28, left: 40 };
+/** Number of labels shown along the horizontal axis */
+const X_LABELS = 6;
+
+/**
+ * Container keeping the chart within the width of its parent
+ */
+const ChartContainer = styled(Box)({
+  width: '100%',
+  '& svg': {
+    display: 'block',
+    width: '100%',
+    height: 'auto',
+  },
+});
+
+/**
+ * A line chart drawn with SVG, with a filled area under the line, a gridline at
+ * the highest value and evenly spaced date labels.
+ *
+ * @param {LineChartProps} props - The component props
+ * @returns {JSX.Element} The rendered line chart
+ */
+const LineChart: React.FC<LineChartProps> = ({
+  data,
+  title,
+  color,
+  emptyMessage = 'No passes in this range',
+  className
+}) => {
+  const theme = useTheme();
+  const lineColor = color || theme.palette.primary.main;
+
+  if (data.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary" data-testid="line-chart-empty">
+        {emptyMessage}
+      </Typography>
+    );
+  }
+
+  const plotWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+  const maxValue = Math.max(...data.map(datum => datum.value), 1);
+  const bottom = PADDING.top + plotHeight;
+
+  const points = data.map((datum, index) => ({
+    ...datum,
+    x: PADDING.left + (data.length === 1 ? plotWidth / 2 : (index / (data.length - 1)) * plotWidth),
+    y: bottom - (datum.value / maxValue) * plotHeight
+  }));
+  const line = points.map(point => `${point.x},${point.y}`).join(' ');
+  const area = `${points[0].x},${bottom} ${line} ${points[points.length - 1].x},${bottom}`;
+
+  const labelStep = Math.max(Math.ceil(data.length / X_LABELS), 1);
+
+  return (
+    <ChartContainer className={className} data-testid="line-chart">
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} role="img" aria-label={title}>
+        <line
+          x1={PADDING.left}
+          y1={PADDING.top}
+          x2={PADDING.left + plotWidth}
+          y2={PADDING.top}
+          stroke={theme.palette.divider}
+          strokeDasharray="4 4"
+        />
+        <line
+          x1={PADDING.left}
+          y1={bottom}
+          x2={PADDING.left + plotWidth}
+          y2={bottom}
+          stroke={theme.palette.divider}
+        />
+        <text
+          x={PADDING.left - 6}
+          y={PADDING.top}
+          textAnchor="end"
+          dominantBaseline="middle"
+          fontSize={11}
+          fill={theme.palette.text.secondary}
+        >
+          {maxValue}
+        </text>
+        <text
+          x={PADDING.left - 6}
+          y={bottom}
+          textAnchor="end"
+          dominantBaseline="middle"
+          fontSize={11}
+          fill={theme.palette.text.secondary}
+        >
+          0
+        </text>
+        <polygon points={area} fill={lineColor} fillOpacity={0.12} />
+        <polyline points={line} fill="none" stroke={lineColor} strokeWidth={2} strokeLinejoin="round" />
+        {points.map((point, index) => (
+          <g key={point.key} data-testid={`point-${point.key}`}>
+            <circle cx={point.x} cy={point.y} r={data.length > 31 ? 2 : 3} fill={lineColor}>
+              <title>{`${point.label}: ${point.value}`}</title>
+            </circle>
+            {index % labelStep === 0 && (
+              <text x={point.x} y={bottom + 16} textAnchor="middle" fontSize={11} fill={theme.palette.text.secondary}>
+                {point.label}
+              </text>
+            )}
+          </g>
+        ))}
+      </svg>
+    </ChartContainer>
+  );
+};
+
+export default LineChart;
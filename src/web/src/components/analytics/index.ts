@@ -0,0 +1,41 @@
+/**
+ * Barrel file for analytics components
+ * 
+ * This file exports all components and interfaces from the analytics directory,
+ * allowing consumers to import multiple exports from a single path instead of
+ * importing each component individually.
+ * 
+ * @example
+ * // Instead of:
+ * import AnalyticsPanel from './components/analytics/AnalyticsPanel';
+ * import BarChart from './components/analytics/BarChart';
+ * 
+ * // You can use:
+ * import { AnalyticsPanel, BarChart } from './components/analytics';
+ */
+
+// Import component defaults
+import AnalyticsDateRangeControls from './AnalyticsDateRangeControls';
+import AnalyticsPanel from './AnalyticsPanel';
+import BarChart from './BarChart';
+import DonutChart from './DonutChart';
+import LineChart from './LineChart';
+
+// Import interfaces
+import { AnalyticsDateRangeControlsProps } from './AnalyticsDateRangeControls';
+import { AnalyticsPanelProps } from './AnalyticsPanel';
+import { BarChartProps } from './BarChart';
+import { DonutChartProps } from './DonutChart';
+import { LineChartProps } from './LineChart';
+
+// Export all components
+export { AnalyticsDateRangeControls, AnalyticsPanel, BarChart, DonutChart, LineChart };
+
+// Export all interfaces
+export type {
+  AnalyticsDateRangeControlsProps,
+  AnalyticsPanelProps,
+  BarChartProps,
+  DonutChartProps,
+  LineChartProps
+};
\ No newline at end of file
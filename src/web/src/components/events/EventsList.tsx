@@ -20,6 +20,7 @@ import useEvents from '../../hooks/useEvents';
 import EventsTable from './EventsTable';
 import EventsFilter from './EventsFilter';
 import EventItem from './EventItem';
+import InventoryPanel from './InventoryPanel';
 import LoadingSpinner from '../ui/LoadingSpinner';
 import ErrorDisplay from '../feedback/ErrorDisplay';
 import { ROUTES } from '../../constants/routes';
@@ -123,6 +124,11 @@ const EventsList: React.FC<EventsListProps> = ({ className }) => {
     refetch();
   }, [refetch]);
 
+  // Find the selected event so its lot inventory can be shown
+  const selectedEvent = useMemo(() => {
+    return events.find(event => event.id === selectedEventId) || null;
+  }, [events, selectedEventId]);
+
   // Determine unique venues for filtering
   const availableVenues = useMemo(() => {
     return Array.from(new Set(events.map(event => event.venue))).filter(Boolean);
@@ -206,6 +212,9 @@ const EventsList: React.FC<EventsListProps> = ({ className }) => {
               </Typography>
             </PaginationContainer>
           )}
+
+          {/* Issued and remaining spots for the selected event */}
+          {selectedEvent && <InventoryPanel event={selectedEvent} />}
         </>
       )}
     </EventsContainer>
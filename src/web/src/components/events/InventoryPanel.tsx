@@ -0,0 +1,228 @@
+import React, { useState, useCallback, useRef } from 'react'; // v18.2.0
+import {
+  Box,
+  LinearProgress,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material'; // v5.14.0
+import { styled } from '@mui/material/styles'; // v5.14.0
+import TuneIcon from '@mui/icons-material/Tune'; // v5.14.0
+import FileUploadIcon from '@mui/icons-material/FileUpload'; // v5.14.0
+import FileDownloadIcon from '@mui/icons-material/FileDownload'; // v5.14.0
+
+import Button from '../ui/Button';
+import Alert from '../ui/Alert';
+import LoadingSpinner from '../ui/LoadingSpinner';
+import LotConfigurationDialog from './LotConfigurationDialog';
+import useInventory from '../../hooks/useInventory';
+import { Event } from '../../types/event.types';
+import { OverbookingPolicy } from '../../types/inventory.types';
+import { SPOT_TYPE_LABELS } from '../../constants/spotTypes';
+
+/**
+ * Props interface for the InventoryPanel component
+ */
+export interface InventoryPanelProps {
+  /** The event whose inventory is shown */
+  event: Event;
+  /** Optional class name for styling */
+  className?: string;
+}
+
+/**
+ * Container for the inventory panel
+ */
+const PanelContainer = styled(Paper)(({ theme }) => ({
+  padding: theme.spacing(2),
+  marginTop: theme.spacing(3),
+}));
+
+/**
+ * Header row holding the panel title and the configuration buttons
+ */
+const PanelHeader = styled(Box)(({ theme }) => ({
+  display: 'flex',
+  justifyContent: 'space-between',
+  alignItems: 'center',
+  flexWrap: 'wrap',
+  gap: theme.spacing(1),
+  marginBottom: theme.spacing(2),
+}));
+
+/**
+ * A panel showing, for each lot and spot type of an event, how many spots have been
+ * issued and how many remain. Lot capacities are entered in a dialog or imported
+ * from a JSON file, and can be exported to reuse them for another event.
+ *
+ * @param {InventoryPanelProps} props - The component props
+ * @returns {JSX.Element} The rendered inventory panel
+ */
+const InventoryPanel: React.FC<InventoryPanelProps> = ({ event, className }) => {
+  const {
+    configuration,
+    inventory,
+    loading,
+    error,
+    saveConfiguration,
+    importConfiguration,
+    exportConfiguration
+  } = useInventory(event.id);
+
+  const [isConfigOpen, setIsConfigOpen] = useState<boolean>(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  /**
+   * Reads a selected JSON file and replaces the event's lot configuration
+   */
+  const handleFileChange = useCallback(async (changeEvent: React.ChangeEvent<HTMLInputElement>) => {
+    const file = changeEvent.target.files?.[0];
+    changeEvent.target.value = '';
+
+    if (!file) {
+      return;
+    }
+
+    try {
+      await importConfiguration(file);
+      setImportError(null);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'The lot capacities could not be imported.');
+    }
+  }, [importConfiguration]);
+
+  return (
+    <PanelContainer className={className} data-testid="inventory-panel">
+      <PanelHeader>
+        <Box>
+          <Typography variant="h6" component="h2">
+            Lot Inventory
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            {event.name} - {event.formattedDate}
+          </Typography>
+        </Box>
+        <Box display="flex" gap={1} flexWrap="wrap">
+          <Button
+            size="small"
+            variant="outlined"
+            startIcon={<TuneIcon />}
+            onClick={() => setIsConfigOpen(true)}
+            data-testid="configure-lots-button"
+          >
+            Configure Lots
+          </Button>
+          <Button
+            size="small"
+            variant="text"
+            startIcon={<FileUploadIcon />}
+            onClick={() => fileInputRef.current?.click()}
+            data-testid="import-lots-button"
+          >
+            Import
+          </Button>
+          <Button
+            size="small"
+            variant="text"
+            startIcon={<FileDownloadIcon />}
+            onClick={exportConfiguration}
+            disabled={!configuration}
+            data-testid="export-lots-button"
+          >
+            Export
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            hidden
+            onChange={handleFileChange}
+            data-testid="import-lots-input"
+          />
+        </Box>
+      </PanelHeader>
+
+      {importError && (
+        <Alert severity="error" onClose={() => setImportError(null)} data-testid="import-lots-error">
+          {importError}
+        </Alert>
+      )}
+
+      {error && (
+        <Alert severity="error">
+          Passes for this event couldn't be loaded, so issued spots are unknown: {error.message}
+        </Alert>
+      )}
+
+      {!configuration ? (
+        <Typography variant="body2" color="text.secondary" data-testid="no-lot-configuration">
+          No lot capacities have been set up for this event. Configure or import them to track remaining spots.
+        </Typography>
+      ) : loading || !inventory ? (
+        <LoadingSpinner size={24} />
+      ) : (
+        <>
+          <Typography variant="body1" gutterBottom data-testid="inventory-totals">
+            {inventory.totalIssued} of {inventory.totalCapacity} spots issued, {inventory.totalRemaining} remaining
+            {configuration.overbookingPolicy === OverbookingPolicy.BLOCK ? ' (overbooking blocked)' : ''}
+          </Typography>
+          <Table size="small" aria-label="Lot inventory">
+            <TableHead>
+              <TableRow>
+                <TableCell>Lot</TableCell>
+                <TableCell>Spot Type</TableCell>
+                <TableCell align="right">Issued</TableCell>
+                <TableCell align="right">Capacity</TableCell>
+                <TableCell align="right">Remaining</TableCell>
+                <TableCell sx={{ width: '25%' }} />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {inventory.lots.map(lot => (
+                <TableRow key={`${lot.lotId}-${lot.spotType}`} data-testid="inventory-row">
+                  <TableCell>{lot.lotId}</TableCell>
+                  <TableCell>{SPOT_TYPE_LABELS[lot.spotType]}</TableCell>
+                  <TableCell align="right">{lot.issued}</TableCell>
+                  <TableCell align="right">{lot.capacity}</TableCell>
+                  <TableCell
+                    align="right"
+                    sx={{ color: lot.remaining < 0 ? 'error.main' : undefined, fontWeight: lot.remaining <= 0 ? 'bold' : undefined }}
+                  >
+                    {lot.remaining < 0 ? `${-lot.remaining} over` : lot.remaining}
+                  </TableCell>
+                  <TableCell>
+                    <LinearProgress
+                      variant="determinate"
+                      value={lot.capacity > 0 ? Math.min((lot.issued / lot.capacity) * 100, 100) : 100}
+                      color={lot.remaining < 0 ? 'error' : lot.remaining === 0 ? 'warning' : 'primary'}
+                      aria-label={`${lot.issued} of ${lot.capacity} ${lot.spotType} spots issued in lot ${lot.lotId}`}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {inventory.unconfiguredIssued > 0 && (
+            <Typography variant="body2" color="text.secondary" mt={1}>
+              {inventory.unconfiguredIssued} issued passes are for lots or spot types without a configured capacity.
+            </Typography>
+          )}
+        </>
+      )}
+
+      <LotConfigurationDialog
+        isOpen={isConfigOpen}
+        configuration={configuration}
+        onClose={() => setIsConfigOpen(false)}
+        onSave={saveConfiguration}
+      />
+    </PanelContainer>
+  );
+};
+
+export default InventoryPanel;
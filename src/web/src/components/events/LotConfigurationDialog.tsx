@@ -0,0 +1,238 @@
+import React, { useState, useEffect, useCallback } from 'react'; // v18.2.0
+import { Box, IconButton, Typography } from '@mui/material'; // v5.14.0
+import { styled } from '@mui/material/styles'; // v5.14.0
+import AddIcon from '@mui/icons-material/Add'; // v5.14.0
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline'; // v5.14.0
+
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Select from '../ui/Select';
+import Alert from '../ui/Alert';
+import { SpotType } from '../../types/api.types';
+import { EventLotConfiguration, LotCapacity, OverbookingPolicy } from '../../types/inventory.types';
+import { SPOT_TYPES_ARRAY, SPOT_TYPE_LABELS } from '../../constants/spotTypes';
+
+/**
+ * Props interface for the LotConfigurationDialog component
+ */
+export interface LotConfigurationDialogProps {
+  /** Whether the dialog is open */
+  isOpen: boolean;
+  /** The event's current configuration, null if none has been set up */
+  configuration: EventLotConfiguration | null;
+  /** Handler to close the dialog */
+  onClose: () => void;
+  /** Handler called with the edited lots; throws if the lots are invalid */
+  onSave: (lots: LotCapacity[], overbookingPolicy: OverbookingPolicy) => boolean;
+}
+
+/**
+ * Lot row being edited; capacities are kept as entered until saved
+ */
+interface LotRow {
+  lotId: string;
+  capacity: Record<SpotType, string>;
+}
+
+/**
+ * Options for the overbooking policy select
+ */
+const POLICY_OPTIONS = [
+  { value: OverbookingPolicy.WARN, label: 'Warn before overbooking' },
+  { value: OverbookingPolicy.BLOCK, label: 'Block overbooking' }
+];
+
+/**
+ * Creates an empty lot row
+ * @returns A lot row without a lot ID or capacities
+ */
+const createEmptyRow = (): LotRow => ({
+  lotId: '',
+  capacity: { [SpotType.REGULAR]: '', [SpotType.VIP]: '', [SpotType.PREMIUM]: '' }
+});
+
+/**
+ * Converts a stored lot into an editable row
+ * @param lot - The stored lot
+ * @returns The editable row
+ */
+const toRow = (lot: LotCapacity): LotRow => ({
+  lotId: lot.lotId,
+  capacity: SPOT_TYPES_ARRAY.reduce((capacity, spotType) => ({
+    ...capacity,
+    [spotType]: lot.capacity[spotType] === undefined ? '' : String(lot.capacity[spotType])
+  }), {} as Record<SpotType, string>)
+});
+
+/**
+ * Grid row holding a lot's ID, its capacity per spot type and a remove button
+ */
+const LotRowContainer = styled(Box)(({ theme }) => ({
+  display: 'grid',
+  gridTemplateColumns: '2fr repeat(3, 1fr) auto',
+  gap: theme.spacing(1),
+  alignItems: 'flex-start',
+  [theme.breakpoints.down('sm')]: {
+    gridTemplateColumns: '1fr 1fr',
+  },
+}));
+
+/**
+ * A dialog for entering the capacity of each lot used by an event and choosing
+ * whether pass creation warns about or blocks overbooking.
+ *
+ * @param {LotConfigurationDialogProps} props - The component props
+ * @returns {JSX.Element} The rendered lot configuration dialog
+ */
+const LotConfigurationDialog: React.FC<LotConfigurationDialogProps> = ({
+  isOpen,
+  configuration,
+  onClose,
+  onSave
+}) => {
+  const [rows, setRows] = useState<LotRow[]>([createEmptyRow()]);
+  const [policy, setPolicy] = useState<OverbookingPolicy>(OverbookingPolicy.WARN);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Start from the current configuration each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setRows(configuration && configuration.lots.length > 0 ? configuration.lots.map(toRow) : [createEmptyRow()]);
+      setPolicy(configuration?.overbookingPolicy || OverbookingPolicy.WARN);
+      setSaveError(null);
+    }
+  }, [isOpen, configuration]);
+
+  /**
+   * Handles changes to a lot row field; field names are "<row>.<field>"
+   */
+  const handleRowChange = useCallback((name: string, value: string) => {
+    const [index, field] = name.split('.');
+    setRows(prev => prev.map((row, i) => {
+      if (i !== Number(index)) {
+        return row;
+      }
+      return field === 'lotId'
+        ? { ...row, lotId: value }
+        : { ...row, capacity: { ...row.capacity, [field]: value } };
+    }));
+    setSaveError(null);
+  }, []);
+
+  /**
+   * Validates and saves the lots, closing the dialog on success
+   */
+  const handleSave = useCallback(() => {
+    const lots: LotCapacity[] = rows
+      .filter(row => row.lotId.trim() || SPOT_TYPES_ARRAY.some(spotType => row.capacity[spotType].trim()))
+      .map(row => ({
+        lotId: row.lotId,
+        capacity: SPOT_TYPES_ARRAY.reduce((capacity, spotType) => {
+          const value = row.capacity[spotType].trim();
+          return value === '' ? capacity : { ...capacity, [spotType]: Number(value) };
+        }, {} as Partial<Record<SpotType, number>>)
+      }));
+
+    try {
+      if (onSave(lots, policy)) {
+        onClose();
+      } else {
+        setSaveError('The lot capacities could not be saved. Check your browser storage settings.');
+      }
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'The lot capacities could not be saved.');
+    }
+  }, [rows, policy, onSave, onClose]);
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      title="Lot Capacity"
+      onClose={onClose}
+      maxWidth="md"
+      actions={
+        <>
+          <Button variant="text" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            color="primary"
+            onClick={handleSave}
+            data-testid="save-lot-configuration-button"
+          >
+            Save
+          </Button>
+        </>
+      }
+    >
+      <Typography variant="body2" color="text.secondary" paragraph>
+        Enter the number of spots of each type in every lot used by this event.
+        Leave a spot type empty if the lot doesn't limit it.
+      </Typography>
+
+      {saveError && (
+        <Alert severity="error" data-testid="lot-configuration-error">
+          {saveError}
+        </Alert>
+      )}
+
+      {rows.map((row, index) => (
+        <LotRowContainer key={index} data-testid={`lot-row-${index}`}>
+          <Input
+            name={`${index}.lotId`}
+            label="Lot ID"
+            type="text"
+            value={row.lotId}
+            onChange={handleRowChange}
+            onBlur={() => undefined}
+            required
+            fullWidth
+          />
+          {SPOT_TYPES_ARRAY.map(spotType => (
+            <Input
+              key={spotType}
+              name={`${index}.${spotType}`}
+              label={SPOT_TYPE_LABELS[spotType]}
+              type="number"
+              value={row.capacity[spotType]}
+              onChange={handleRowChange}
+              onBlur={() => undefined}
+              fullWidth
+            />
+          ))}
+          <IconButton
+            aria-label={`Remove lot ${row.lotId || index + 1}`}
+            onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}
+            disabled={rows.length <= 1}
+            sx={{ mt: 1 }}
+          >
+            <DeleteOutlineIcon />
+          </IconButton>
+        </LotRowContainer>
+      ))}
+
+      <Box display="flex" justifyContent="space-between" alignItems="center" flexWrap="wrap" gap={2}>
+        <Button
+          variant="text"
+          startIcon={<AddIcon />}
+          onClick={() => setRows(prev => [...prev, createEmptyRow()])}
+          data-testid="add-lot-button"
+        >
+          Add Lot
+        </Button>
+        <Select
+          name="overbookingPolicy"
+          label="When a lot is full"
+          options={POLICY_OPTIONS}
+          value={policy}
+          onChange={(_, value) => setPolicy(value as OverbookingPolicy)}
+          onBlur={() => undefined}
+        />
+      </Box>
+    </Modal>
+  );
+};
+
+export default LotConfigurationDialog;
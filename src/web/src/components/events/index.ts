@@ -19,15 +19,26 @@ import EventItem from './EventItem';
 import EventsFilter from './EventsFilter';
 import EventsList from './EventsList';
 import EventsTable from './EventsTable';
+import InventoryPanel from './InventoryPanel';
+import LotConfigurationDialog from './LotConfigurationDialog';
 
 // Import interfaces
 import { EventItemProps } from './EventItem';
 import { EventsFilterProps } from './EventsFilter';
 import { EventsListProps } from './EventsList';
 import { EventsTableProps } from './EventsTable';
+import { InventoryPanelProps } from './InventoryPanel';
+import { LotConfigurationDialogProps } from './LotConfigurationDialog';
 
 // Export all components
-export { EventItem, EventsFilter, EventsList, EventsTable };
+export { EventItem, EventsFilter, EventsList, EventsTable, InventoryPanel, LotConfigurationDialog };
 
 // Export all interfaces
-export { EventItemProps, EventsFilterProps, EventsListProps, EventsTableProps };
\ No newline at end of file
+export type {
+  EventItemProps,
+  EventsFilterProps,
+  EventsListProps,
+  EventsTableProps,
+  InventoryPanelProps,
+  LotConfigurationDialogProps
+};
\ No newline at end of file
@@ -1,5 +1,5 @@
 import React, { useState } from 'react'; // ^18.2.0
-import { Box, Typography } from '@mui/material'; // ^5.14.0
+import { Box, Typography, Checkbox, FormControlLabel } from '@mui/material'; // ^5.14.0
 import { styled } from '@mui/material/styles'; // ^5.14.0
 
 import Modal from '../ui/Modal';
@@ -7,6 +7,10 @@ import Button from '../ui/Button';
 import Input from '../ui/Input';
 import { useApiKey } from '../../hooks/useApiKey';
 import { useNotificationContext } from '../../context/NotificationContext';
+import { useAppConfig } from '../../hooks/useAppConfig';
+import { MOCK_API_KEY } from '../../constants/apiEndpoints';
+import { DEFAULT_AUTO_LOCK_TIMEOUT, MIN_PASSPHRASE_LENGTH } from '../../services/vault/apiKeyVault';
+import { VaultStatus } from '../../types/vault.types';
 
 /**
  * Props interface for the ApiKeyPrompt component
@@ -35,6 +39,7 @@ export const StyledFormContainer = styled(Box)(({ theme }) => ({
 /**
  * Modal component that prompts users to enter their ParkHub API key.
  * Displayed when authentication is required or when the current API key is invalid.
+ * When the API key is protected with a passphrase and locked, it asks for the passphrase instead.
  */
 const ApiKeyPrompt = ({
   isOpen,
@@ -46,12 +51,25 @@ const ApiKeyPrompt = ({
   const [apiKeyInput, setApiKeyInput] = useState('');
   const [inputError, setInputError] = useState<string | null>(null);
   
+  // State for the passphrase that protects the API key
+  const [protectWithPassphrase, setProtectWithPassphrase] = useState(false);
+  const [passphraseInput, setPassphraseInput] = useState('');
+  const [confirmInput, setConfirmInput] = useState('');
+  const [passphraseError, setPassphraseError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  
   // Get API key management functions from useApiKey hook
-  const { setApiKey, validateApiKey } = useApiKey();
+  const { setApiKey, validateApiKey, removeApiKey, vaultStatus, unlockVault, enableVault } = useApiKey();
   
   // Get notification functions from context
   const { showSuccess, showError } = useNotificationContext();
 
+  // Get the runtime settings, which tell whether the mock API is in use
+  const { config } = useAppConfig();
+
+  // A locked vault needs its passphrase rather than a new API key
+  const isLocked = vaultStatus === VaultStatus.LOCKED;
+
   /**
    * Handles changes to the API key input field
    * @param name Field name
@@ -76,10 +94,38 @@ const ApiKeyPrompt = ({
     }
   };
 
+  /**
+   * Handles changes to the passphrase fields
+   * @param name Field name
+   * @param value New input value
+   */
+  const handlePassphraseChange = (name: string, value: string) => {
+    if (name === 'confirmPassphrase') {
+      setConfirmInput(value);
+    } else {
+      setPassphraseInput(value);
+    }
+    setPassphraseError(null);
+  };
+
+  /**
+   * Checks the new passphrase and its confirmation
+   * @returns An error message, or null if the passphrase can be used
+   */
+  const checkNewPassphrase = (): string | null => {
+    if (passphraseInput.length < MIN_PASSPHRASE_LENGTH) {
+      return `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`;
+    }
+    if (passphraseInput !== confirmInput) {
+      return 'Passphrases do not match';
+    }
+    return null;
+  };
+
   /**
    * Handles form submission, validates and saves the API key
    */
-  const handleSubmit = () => {
+  const handleSubmit = async () => {
     // Validate the API key format
     if (!apiKeyInput) {
       setInputError('API key is required');
@@ -91,9 +137,32 @@ const ApiKeyPrompt = ({
       return;
     }
 
+    if (protectWithPassphrase) {
+      const passphraseProblem = checkNewPassphrase();
+      if (passphraseProblem) {
+        setPassphraseError(passphraseProblem);
+        return;
+      }
+
+      // Deriving the key takes a moment, so show progress while it runs
+      setSubmitting(true);
+      try {
+        await enableVault(passphraseInput, apiKeyInput);
+        showSuccess('API key saved and protected with your passphrase');
+        onSuccess();
+        handleClose();
+      } catch (error) {
+        setPassphraseError(error instanceof Error ? error.message : 'The API key could not be protected');
+      } finally {
+        setSubmitting(false);
+      }
+      return;
+    }
+
     // Try to save the API key
+    setSubmitting(true);
     try {
-      const success = setApiKey(apiKeyInput);
+      const success = await setApiKey(apiKeyInput);
       if (success) {
         showSuccess('API key saved successfully');
         onSuccess(); // Call the success callback
@@ -103,6 +172,42 @@ const ApiKeyPrompt = ({
       }
     } catch (error) {
       showError('An error occurred while saving the API key');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  /**
+   * Handles unlocking the API key with the passphrase
+   */
+  const handleUnlock = async () => {
+    if (!passphraseInput) {
+      setPassphraseError('Passphrase is required');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await unlockVault(passphraseInput);
+      showSuccess('API key unlocked');
+      onSuccess();
+      handleClose();
+    } catch (error) {
+      setPassphraseError(error instanceof Error ? error.message : 'The API key could not be unlocked');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  /**
+   * Deletes the locked API key so a new one can be entered, for users who forgot the passphrase
+   */
+  const handleForgetKey = () => {
+    if (removeApiKey()) {
+      setPassphraseInput('');
+      setPassphraseError(null);
+    } else {
+      showError('Failed to remove API key');
     }
   };
 
@@ -112,9 +217,86 @@ const ApiKeyPrompt = ({
   const handleClose = () => {
     setApiKeyInput('');
     setInputError(null);
+    setProtectWithPassphrase(false);
+    setPassphraseInput('');
+    setConfirmInput('');
+    setPassphraseError(null);
     onClose();
   };
 
+  if (isLocked) {
+    return (
+      <Modal
+        isOpen={isOpen}
+        title="Unlock ParkHub API Key"
+        onClose={handleClose}
+        actions={
+          <>
+            <Button 
+              onClick={handleForgetKey} 
+              variant="text" 
+              color="secondary"
+              type="button"
+              aria-label="Forget API Key"
+              disabled={submitting}
+            >
+              Forget API Key
+            </Button>
+            <Button 
+              onClick={handleClose} 
+              variant="outlined" 
+              color="secondary"
+              type="button"
+              aria-label="Cancel"
+            >
+              Cancel
+            </Button>
+            <Button 
+              onClick={handleUnlock} 
+              variant="contained" 
+              color="primary"
+              type="submit"
+              aria-label="Unlock"
+              loading={submitting}
+            >
+              Unlock
+            </Button>
+          </>
+        }
+      >
+        <StyledFormContainer>
+          <Typography variant="body2" color="textSecondary">
+            Your API key is protected with a passphrase. Enter it to unlock the key for this session.
+          </Typography>
+          
+          {errorMessage && (
+            <Typography variant="body2" color="error" role="alert">
+              {errorMessage}
+            </Typography>
+          )}
+          
+          <Input
+            name="passphrase"
+            label="Passphrase"
+            type="password"
+            value={passphraseInput}
+            onChange={handlePassphraseChange}
+            onBlur={() => undefined}
+            error={passphraseError}
+            required
+            fullWidth
+            autoFocus
+            placeholder="Enter your passphrase"
+          />
+          
+          <Typography variant="caption" color="textSecondary">
+            Forgot your passphrase? Forget the API key and enter it again.
+          </Typography>
+        </StyledFormContainer>
+      </Modal>
+    );
+  }
+
   return (
     <Modal
       isOpen={isOpen}
@@ -137,6 +319,7 @@ const ApiKeyPrompt = ({
             color="primary"
             type="submit"
             aria-label="Save API Key"
+            loading={submitting}
           >
             Save API Key
           </Button>
@@ -148,6 +331,24 @@ const ApiKeyPrompt = ({
           Please enter your ParkHub API key to authenticate with the service.
         </Typography>
         
+        {config.enableMockApi && (
+          <Box display="flex" alignItems="center" justifyContent="space-between" gap={2}>
+            <Typography variant="body2" color="textSecondary" data-testid="mock-api-key-hint">
+              This is a training build using a mock ParkHub API. Any passes you create are
+              kept in this browser only, so you can use the demo key instead of a real one.
+            </Typography>
+            <Button
+              onClick={() => handleChange('apiKey', MOCK_API_KEY)}
+              variant="outlined"
+              color="primary"
+              type="button"
+              aria-label="Use Demo Key"
+            >
+              Use Demo Key
+            </Button>
+          </Box>
+        )}
+        
         {errorMessage && (
           <Typography variant="body2" color="error" role="alert">
             {errorMessage}
@@ -168,8 +369,50 @@ const ApiKeyPrompt = ({
           placeholder="Enter your ParkHub API key"
         />
         
+        {/* The key is already protected while the vault is unlocked, so a new key goes into it */}
+        {vaultStatus !== VaultStatus.UNLOCKED && (
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={protectWithPassphrase}
+                onChange={event => setProtectWithPassphrase(event.target.checked)}
+              />
+            }
+            label="Protect with a passphrase"
+          />
+        )}
+        
+        {protectWithPassphrase && (
+          <>
+            <Input
+              name="passphrase"
+              label="Passphrase"
+              type="password"
+              value={passphraseInput}
+              onChange={handlePassphraseChange}
+              onBlur={() => undefined}
+              error={passphraseError}
+              required
+              fullWidth
+              placeholder={`At least ${MIN_PASSPHRASE_LENGTH} characters`}
+            />
+            <Input
+              name="confirmPassphrase"
+              label="Confirm Passphrase"
+              type="password"
+              value={confirmInput}
+              onChange={handlePassphraseChange}
+              onBlur={() => undefined}
+              required
+              fullWidth
+            />
+          </>
+        )}
+        
         <Typography variant="caption" color="textSecondary">
-          Your API key will be securely encrypted and stored in your browser.
+          {protectWithPassphrase
+            ? `Your API key will be encrypted with your passphrase, which is never stored. You will enter it each session and after ${DEFAULT_AUTO_LOCK_TIMEOUT / 60000} minutes of inactivity.`
+            : 'Your API key will be securely encrypted and stored in your browser.'}
         </Typography>
       </StyledFormContainer>
     </Modal>
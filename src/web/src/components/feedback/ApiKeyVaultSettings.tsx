@@ -0,0 +1,149 @@
+import React, { useState } from 'react'; // v18.2.0
+import { Box, Paper, Typography } from '@mui/material'; // v5.14.0
+
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Alert from '../ui/Alert';
+import { useApiKeyContext } from '../../context/ApiKeyContext';
+import { apiKeyVault, DEFAULT_AUTO_LOCK_TIMEOUT, MIN_PASSPHRASE_LENGTH } from '../../services/vault/apiKeyVault';
+import { VaultStatus } from '../../types/vault.types';
+
+/**
+ * Settings card for protecting the stored API key with a passphrase. Users whose key is
+ * stored with the app's built-in encryption can move it into the vault here, lock the
+ * vault early or turn the protection off again.
+ *
+ * @returns {JSX.Element} The rendered vault settings
+ */
+const ApiKeyVaultSettings: React.FC = () => {
+  const { apiKey, vaultStatus, lockVault, enableVault, disableVault } = useApiKeyContext();
+
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const autoLockMinutes = DEFAULT_AUTO_LOCK_TIMEOUT / 60000;
+
+  // Handle changes to the passphrase fields
+  const handleChange = (name: string, value: string) => {
+    if (name === 'confirmPassphrase') {
+      setConfirmPassphrase(value);
+    } else {
+      setPassphrase(value);
+    }
+    setError(null);
+  };
+
+  // Move the stored API key into a vault protected by the passphrase
+  const handleProtect = async () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      setError('Passphrases do not match');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await enableVault(passphrase);
+      setPassphrase('');
+      setConfirmPassphrase('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The API key could not be protected');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Store the API key with the built-in encryption again
+  const handleTurnOff = () => {
+    try {
+      disableVault();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Passphrase protection could not be turned off');
+    }
+  };
+
+  return (
+    <Paper elevation={2} sx={{ p: 2, mt: 3 }}>
+      <Typography variant="h6" component="h2" gutterBottom>
+        API key protection
+      </Typography>
+
+      {error && <Alert severity="error">{error}</Alert>}
+
+      {vaultStatus === VaultStatus.DISABLED && (
+        <>
+          <Typography variant="body2" color="textSecondary" paragraph>
+            Your API key is stored with the app&apos;s built-in encryption, which anyone with access to
+            this browser can undo. Protect it with a passphrase to encrypt it with a key only you know.
+            You will enter the passphrase each session and after {autoLockMinutes} minutes of inactivity.
+          </Typography>
+
+          {!apiKey ? (
+            <Typography variant="body2">Add an API key first.</Typography>
+          ) : !apiKeyVault.isSupported() ? (
+            <Typography variant="body2">
+              This browser can&apos;t protect the API key with a passphrase. Open the app over HTTPS to turn it on.
+            </Typography>
+          ) : (
+            <>
+              <Input
+                name="passphrase"
+                label="Passphrase"
+                type="password"
+                value={passphrase}
+                onChange={handleChange}
+                onBlur={() => undefined}
+                placeholder={`At least ${MIN_PASSPHRASE_LENGTH} characters`}
+                fullWidth
+              />
+              <Input
+                name="confirmPassphrase"
+                label="Confirm Passphrase"
+                type="password"
+                value={confirmPassphrase}
+                onChange={handleChange}
+                onBlur={() => undefined}
+                fullWidth
+              />
+              <Box display="flex" justifyContent="flex-end">
+                <Button variant="contained" color="primary" onClick={handleProtect} loading={submitting}>
+                  Protect API Key
+                </Button>
+              </Box>
+            </>
+          )}
+        </>
+      )}
+
+      {vaultStatus === VaultStatus.LOCKED && (
+        <Typography variant="body2" color="textSecondary">
+          Your API key is protected with a passphrase and is locked. Enter the passphrase when asked to unlock it.
+        </Typography>
+      )}
+
+      {vaultStatus === VaultStatus.UNLOCKED && (
+        <>
+          <Typography variant="body2" color="textSecondary" paragraph>
+            Your API key is protected with a passphrase and unlocked. It locks after {autoLockMinutes} minutes
+            of inactivity and when the app is closed.
+          </Typography>
+          <Box display="flex" gap={2} justifyContent="flex-end">
+            <Button variant="outlined" onClick={handleTurnOff}>
+              Turn Off Protection
+            </Button>
+            <Button variant="contained" color="primary" onClick={lockVault}>
+              Lock Now
+            </Button>
+          </Box>
+        </>
+      )}
+    </Paper>
+  );
+};
+
+export default ApiKeyVaultSettings;
@@ -5,7 +5,7 @@ import { styled } from '@mui/material/styles'; // ^5.14.0
 import Alert from '../ui/Alert';
 import Button from '../ui/Button';
 import ApiKeyPrompt from './ApiKeyPrompt';
-import { AppError, ErrorType } from '../../types/error.types';
+import { AppError, ErrorType, ErrorCode } from '../../types/error.types';
 import { getErrorMessage } from '../../constants/errorMessages';
 import { isRetryableError } from '../../utils/retry-logic';
 
@@ -108,9 +108,12 @@ const ErrorDisplay: React.FC<ErrorDisplayProps> = ({
   // Check if this type of error can be retried
   const canRetry = isRetryableError(error);
   
+  // A key that may not access the venue is still valid, so don't ask for another one
+  const needsApiKey = error.type === ErrorType.AUTHENTICATION && error.code !== ErrorCode.LANDMARK_FORBIDDEN;
+  
   // Handle API key authentication
   const handleAuthError = () => {
-    if (error.type === ErrorType.AUTHENTICATION) {
+    if (needsApiKey) {
       setShowApiKeyPrompt(true);
     }
   };
@@ -123,7 +126,7 @@ const ErrorDisplay: React.FC<ErrorDisplayProps> = ({
   };
   
   // Initialize the API key prompt when authentication error occurs
-  if (error.type === ErrorType.AUTHENTICATION && !showApiKeyPrompt) {
+  if (needsApiKey && !showApiKeyPrompt) {
     handleAuthError();
   }
   
@@ -144,7 +147,7 @@ const ErrorDisplay: React.FC<ErrorDisplayProps> = ({
       </Alert>
       
       {/* API Key Prompt for authentication errors */}
-      {error.type === ErrorType.AUTHENTICATION && (
+      {needsApiKey && (
         <ApiKeyPrompt
           isOpen={showApiKeyPrompt}
           onClose={() => setShowApiKeyPrompt(false)}
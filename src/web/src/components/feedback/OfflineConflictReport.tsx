@@ -0,0 +1,110 @@
+import React from 'react'; // v18.2.0
+import { List, ListItem, ListItemText, Box, Typography } from '@mui/material'; // v5.14.0
+import { styled } from '@mui/material/styles'; // v5.14.0
+
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import { QueuedPass } from '../../types/offline.types';
+
+/**
+ * Props interface for the OfflineConflictReport component
+ */
+export interface OfflineConflictReportProps {
+  /** Whether the report is open */
+  isOpen: boolean;
+  /** Queued passes the API rejected */
+  conflicts: QueuedPass[];
+  /** Callback to queue a conflicting pass again and send it */
+  onRetry: (id: string) => void;
+  /** Callback to remove a conflicting pass without creating it */
+  onDismiss: (id: string) => void;
+  /** Callback to close the report */
+  onClose: () => void;
+  /** Whether queued passes are being sent */
+  isSyncing?: boolean;
+}
+
+/**
+ * Container for the retry and dismiss buttons of a conflict
+ */
+const ConflictActions = styled(Box)(({ theme }) => ({
+  display: 'flex',
+  gap: theme.spacing(1),
+}));
+
+/**
+ * Report of passes queued while offline that the API rejected when they were sent.
+ * Each conflict shows the pass details and the API's reason, and can be retried
+ * (e.g. after fixing the cause in ParkHub) or dismissed.
+ *
+ * @param {OfflineConflictReportProps} props - The component props
+ * @returns {JSX.Element} The rendered conflict report
+ */
+const OfflineConflictReport: React.FC<OfflineConflictReportProps> = ({
+  isOpen,
+  conflicts,
+  onRetry,
+  onDismiss,
+  onClose,
+  isSyncing = false
+}) => {
+  return (
+    <Modal
+      isOpen={isOpen}
+      title="Queued Pass Conflicts"
+      onClose={onClose}
+      maxWidth="sm"
+      actions={
+        <Button variant="text" onClick={onClose}>
+          Close
+        </Button>
+      }
+    >
+      {conflicts.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" data-testid="no-conflicts-message">
+          All queued passes were sent without conflicts.
+        </Typography>
+      ) : (
+        <List dense data-testid="offline-conflict-list">
+          {conflicts.map(conflict => (
+            <ListItem
+              key={conflict.id}
+              divider
+              secondaryAction={
+                <ConflictActions>
+                  <Button
+                    variant="text"
+                    size="small"
+                    onClick={() => onRetry(conflict.id)}
+                    disabled={isSyncing}
+                    data-testid={`retry-conflict-${conflict.id}`}
+                  >
+                    Retry
+                  </Button>
+                  <Button
+                    variant="text"
+                    size="small"
+                    color="error"
+                    onClick={() => onDismiss(conflict.id)}
+                    disabled={isSyncing}
+                    data-testid={`dismiss-conflict-${conflict.id}`}
+                  >
+                    Dismiss
+                  </Button>
+                </ConflictActions>
+              }
+              sx={{ pr: 20 }}
+            >
+              <ListItemText
+                primary={`${conflict.request.customerName} (${conflict.request.barcode})`}
+                secondary={`Event ${conflict.request.eventId}: ${conflict.error?.message || 'Unknown error'}`}
+              />
+            </ListItem>
+          ))}
+        </List>
+      )}
+    </Modal>
+  );
+};
+
+export default OfflineConflictReport;
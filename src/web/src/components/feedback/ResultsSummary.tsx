@@ -7,6 +7,7 @@ import { useMediaQuery, useTheme } from '@mui/material'; // ^5.14.0
 import { PassCreationSummary, Pass } from '../../types/pass.types';
 import { AppError } from '../../types/error.types';
 import { Alert, Button, Card, Table } from '../ui';
+import WalletExportButton from '../passes/WalletExportButton';
 
 /**
  * Props interface for the ResultsSummary component
@@ -24,6 +25,8 @@ interface ResultsSummaryProps {
   eventName: string;
   /** Date of the event */
   eventDate: string;
+  /** Whether failed passes can't be retried, because another API key profile is in use */
+  retryDisabled?: boolean;
 }
 
 /**
@@ -81,7 +84,8 @@ const ResultsSummary: React.FC<ResultsSummaryProps> = ({
   onViewAllPasses,
   onRetryFailed,
   eventName,
-  eventDate
+  eventDate,
+  retryDisabled = false
 }) => {
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
@@ -97,9 +101,17 @@ const ResultsSummary: React.FC<ResultsSummaryProps> = ({
     <SummaryContainer>
       {/* Summary alert showing results */}
       <Alert 
-        severity={results.totalFailed > 0 ? 'warning' : 'success'}
+        severity={results.totalFailed > 0 || results.cancelled ? 'warning' : results.queued?.length ? 'info' : 'success'}
       >
-        {results.totalSuccess > 0 && results.totalFailed > 0 ? (
+        {results.queued && results.queued.length > 0 && results.totalSuccess + results.totalFailed === 0 ? (
+          <>
+            You are offline: {results.queued.length} passes were queued and will be created when the connection is restored
+          </>
+        ) : results.cancelled ? (
+          <>
+            Creation was cancelled: {results.totalSuccess} passes created successfully, {results.totalFailed} failed
+          </>
+        ) : results.totalSuccess > 0 && results.totalFailed > 0 ? (
           <>
             {results.totalSuccess} passes created successfully, {results.totalFailed} failed
           </>
@@ -110,6 +122,20 @@ const ResultsSummary: React.FC<ResultsSummaryProps> = ({
         )}
       </Alert>
 
+      {/* Passes left unsent by a cancelled batch */}
+      {results.notSent && results.notSent.length > 0 && (
+        <Alert severity="info" data-testid="not-sent-passes">
+          {results.notSent.length} passes were not sent: {results.notSent.map(pass => pass.barcode).join(', ')}
+        </Alert>
+      )}
+
+      {/* Passes queued while offline */}
+      {results.queued && results.queued.length > 0 && (
+        <Alert severity="info" data-testid="queued-passes">
+          {results.queued.length} passes are queued: {results.queued.map(pass => pass.barcode).join(', ')}
+        </Alert>
+      )}
+
       {/* Event information */}
       <EventInfo>
         <Typography variant="subtitle1" fontWeight="bold">
@@ -118,6 +144,11 @@ const ResultsSummary: React.FC<ResultsSummaryProps> = ({
         <Typography variant="body2" color="textSecondary">
           {eventDate}
         </Typography>
+        {results.profileName && (
+          <Typography variant="body2" color="textSecondary" data-testid="results-profile">
+            Created with the {results.profileName} profile
+          </Typography>
+        )}
       </EventInfo>
 
       {/* Successful creations section */}
@@ -170,11 +201,19 @@ const ResultsSummary: React.FC<ResultsSummaryProps> = ({
           View All Passes for Event
         </Button>
         
+        {results.successful.length > 0 && (
+          <WalletExportButton
+            passes={results.successful}
+            event={results.event}
+          />
+        )}
+        
         {results.failed.length > 0 && (
           <Button 
             onClick={handleRetryFailed}
             variant="contained" 
             color="warning"
+            disabled={retryDisabled}
           >
             Retry Failed Passes
           </Button>
@@ -10,20 +10,27 @@
 
 // Import components and their interfaces
 import ApiKeyPrompt, { ApiKeyPromptProps } from './ApiKeyPrompt';
+import ApiKeyVaultSettings from './ApiKeyVaultSettings';
 import ErrorDisplay, { ErrorDisplayProps } from './ErrorDisplay';
 import ResultsSummary from './ResultsSummary';
+import OfflineConflictReport, { OfflineConflictReportProps } from './OfflineConflictReport';
 import SuccessMessage, { SuccessMessageProps } from './SuccessMessage';
 
 // Re-export components for use throughout the application
 export {
   // Components
   ApiKeyPrompt,
+  ApiKeyVaultSettings,
   ErrorDisplay,
   ResultsSummary,
-  SuccessMessage,
-  
-  // Component prop interfaces
+  OfflineConflictReport,
+  SuccessMessage
+};
+
+// Component prop interfaces
+export type {
   ApiKeyPromptProps,
   ErrorDisplayProps,
+  OfflineConflictReportProps,
   SuccessMessageProps
 };
\ No newline at end of file
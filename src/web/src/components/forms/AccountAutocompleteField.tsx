@@ -0,0 +1,125 @@
+import React, { useMemo } from 'react'; // ^18.2.0
+import { Autocomplete, Box, Typography } from '@mui/material'; // ^5.14.0
+
+import { StyledTextField } from '../ui/Input';
+import { FieldContainer } from './FormField';
+import { FormField as FormFieldType, FormFieldState } from '../../types/form.types';
+import { AccountRecord } from '../../types/account.types';
+
+/**
+ * Props interface for the AccountAutocompleteField component
+ */
+export interface AccountAutocompleteFieldProps {
+  /** Configuration for the field (the account ID or customer name field) */
+  field: FormFieldType;
+  /** Current state of the field */
+  fieldState: FormFieldState;
+  /** Finds known accounts matching what has been typed */
+  searchAccounts: (query: string) => AccountRecord[];
+  /** Handler for typed value changes */
+  onChange: (name: string, value: string) => void;
+  /** Handler for blur events */
+  onBlur: (name: string) => void;
+  /** Handler for choosing a known account */
+  onSelectAccount: (account: AccountRecord) => void;
+  /** Whether the field is disabled */
+  disabled?: boolean;
+}
+
+/**
+ * A text field that suggests known accounts as the user types an account ID or customer
+ * name. Choosing a suggestion fills in both the account ID and the customer name, while
+ * anything typed is still accepted for accounts the directory doesn't know yet.
+ *
+ * @param props - Component props
+ * @returns The rendered account autocomplete field
+ */
+const AccountAutocompleteField: React.FC<AccountAutocompleteFieldProps> = ({
+  field,
+  fieldState,
+  searchAccounts,
+  onChange,
+  onBlur,
+  onSelectAccount,
+  disabled = false,
+}) => {
+  const { name, label, required, placeholder } = field;
+  const { value, touched, error } = fieldState;
+
+  // Only show error if field has been touched and has an error
+  const errorMessage = touched && error ? error : null;
+
+  const options = useMemo(() => searchAccounts(value), [searchAccounts, value]);
+
+  // Suggestions show the part of the account this field holds
+  const getOptionLabel = (option: AccountRecord | string): string => {
+    if (typeof option === 'string') {
+      return option;
+    }
+    return name === 'accountId' ? option.accountId : option.customerName;
+  };
+
+  return (
+    <FieldContainer
+      data-testid={`field-container-${name}`}
+      role="group"
+      aria-labelledby={`${name}-label`}
+    >
+      <Autocomplete<AccountRecord, false, false, true>
+        freeSolo
+        options={options}
+        filterOptions={(suggestions) => suggestions}
+        getOptionLabel={getOptionLabel}
+        inputValue={value}
+        onInputChange={(_event, newValue, reason) => {
+          // Choosing an account fills the fields through onSelectAccount instead
+          if (reason !== 'reset') {
+            onChange(name, newValue);
+          }
+        }}
+        onChange={(_event, selected) => {
+          if (selected && typeof selected !== 'string') {
+            onSelectAccount(selected);
+          }
+        }}
+        disabled={disabled}
+        renderOption={(props, option) => (
+          <Box component="li" {...props} key={option.accountId} data-testid={`account-option-${option.accountId}`}>
+            <Box>
+              <Typography variant="body2">
+                {option.customerName} ({option.accountId})
+              </Typography>
+              <Typography variant="caption" color="text.secondary">
+                {option.history.length} {option.history.length === 1 ? 'pass' : 'passes'}
+                {option.history[0] ? ` · last ${option.history[0].spotType}, lot ${option.history[0].lotId}` : ''}
+              </Typography>
+            </Box>
+          </Box>
+        )}
+        renderInput={(params) => (
+          <StyledTextField
+            {...params}
+            name={name}
+            label={label}
+            placeholder={placeholder}
+            required={required}
+            error={Boolean(errorMessage)}
+            helperText={errorMessage}
+            onBlur={() => onBlur(name)}
+            variant="outlined"
+            margin="normal"
+            inputProps={{
+              ...params.inputProps,
+              'aria-label': label,
+              'aria-required': required,
+              'aria-invalid': Boolean(errorMessage),
+              'data-testid': `input-${name}`,
+            }}
+          />
+        )}
+      />
+    </FieldContainer>
+  );
+};
+
+export default AccountAutocompleteField;
@@ -0,0 +1,315 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react'; // ^18.2.0
+import { Box, Checkbox, FormControlLabel, Typography } from '@mui/material'; // ^5.14.0
+import { styled } from '@mui/material/styles'; // ^5.14.0
+
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Select from '../ui/Select';
+import Alert from '../ui/Alert';
+import barcodeGeneratorService from '../../services/barcode/barcodeGeneratorService';
+import { BarcodeScheme, BarcodeGenerationOptions } from '../../types/barcode.types';
+import { PassFormData, FormFieldOption, BatchFormBarcodeHandler } from '../../types/form.types';
+
+/**
+ * Props interface for the BarcodeGeneratorDialog component
+ */
+export interface BarcodeGeneratorDialogProps {
+  /** Whether the dialog is open */
+  isOpen: boolean;
+  /** The event ID whose existing passes are checked for used barcodes */
+  eventId: string;
+  /** Current rows of the batch form */
+  passes: PassFormData[];
+  /** Handler to close the dialog */
+  onClose: () => void;
+  /** Handler called with the generated barcodes when generation succeeds */
+  onGenerate: BatchFormBarcodeHandler;
+}
+
+/**
+ * Options for the barcode scheme select
+ */
+const SCHEME_OPTIONS: FormFieldOption[] = [
+  { value: BarcodeScheme.SEQUENTIAL, label: 'Sequential' },
+  { value: BarcodeScheme.RANDOM, label: 'Random' },
+  { value: BarcodeScheme.TEMPLATE, label: 'Prefix Template' }
+];
+
+/**
+ * Explanation shown under the scheme select
+ */
+const SCHEME_DESCRIPTIONS: Record<BarcodeScheme, string> = {
+  [BarcodeScheme.SEQUENTIAL]: 'Numbers continue from the highest barcode already issued for this event.',
+  [BarcodeScheme.RANDOM]: 'Unused numbers are picked at random.',
+  [BarcodeScheme.TEMPLATE]: 'Each # in the template is replaced with a digit, e.g. BC24#### gives BC240001, BC240002, ...'
+};
+
+/**
+ * Styled container for the form fields
+ */
+const FieldsContainer = styled(Box)(({ theme }) => ({
+  display: 'flex',
+  flexDirection: 'column',
+  gap: theme.spacing(1),
+  marginTop: theme.spacing(1),
+}));
+
+/**
+ * Parses a whole number entered in a field
+ * @param value - Field value
+ * @returns The number, or null if the value is not a non-negative whole number
+ */
+const parseWholeNumber = (value: string): number | null => {
+  return /^\d+$/.test(value.trim()) ? parseInt(value.trim(), 10) : null;
+};
+
+/**
+ * A dialog for generating barcodes for the batch form.
+ * Generated barcodes skip barcodes already issued for the event and barcodes kept in
+ * other rows; they fill rows without a barcode (or all rows when replacing) and any
+ * extra rows requested are added to the batch.
+ *
+ * @param {BarcodeGeneratorDialogProps} props - The component props
+ * @returns {JSX.Element} The rendered barcode generator dialog
+ */
+const BarcodeGeneratorDialog: React.FC<BarcodeGeneratorDialogProps> = ({
+  isOpen,
+  eventId,
+  passes,
+  onClose,
+  onGenerate
+}) => {
+  const [scheme, setScheme] = useState<BarcodeScheme>(BarcodeScheme.SEQUENTIAL);
+  const [template, setTemplate] = useState<string>('');
+  const [start, setStart] = useState<string>('');
+  const [extraRows, setExtraRows] = useState<string>('0');
+  const [overwrite, setOverwrite] = useState<boolean>(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [generateError, setGenerateError] = useState<string | null>(null);
+  const [generating, setGenerating] = useState<boolean>(false);
+
+  // Reset when the dialog opens, defaulting to adding rows when the batch is empty.
+  // The batch can't change while the dialog is open.
+  useEffect(() => {
+    if (isOpen) {
+      setExtraRows(passes.length === 0 ? '10' : '0');
+      setErrors({});
+      setGenerateError(null);
+    }
+  }, [isOpen, passes.length]);
+
+  // Rows that will receive a barcode, and the barcodes in rows that are kept
+  const { rowsToFill, keptBarcodes } = useMemo(() => {
+    const kept = overwrite
+      ? []
+      : passes.map(pass => pass.barcode.trim()).filter(Boolean);
+
+    return {
+      rowsToFill: overwrite ? passes.length : passes.length - kept.length,
+      keptBarcodes: kept
+    };
+  }, [passes, overwrite]);
+
+  const extraRowCount = parseWholeNumber(extraRows) ?? 0;
+  const count = rowsToFill + extraRowCount;
+
+  /**
+   * Validates the fields and returns the generation options
+   */
+  const buildOptions = useCallback((): BarcodeGenerationOptions | null => {
+    const nextErrors: Record<string, string> = {};
+
+    if (parseWholeNumber(extraRows) === null) {
+      nextErrors.extraRows = 'Enter a whole number';
+    }
+
+    if (scheme === BarcodeScheme.TEMPLATE) {
+      const templateError = barcodeGeneratorService.validateTemplate(template);
+      if (templateError) {
+        nextErrors.template = templateError;
+      }
+    }
+
+    const startNumber = start.trim() === '' ? undefined : parseWholeNumber(start);
+    if (scheme !== BarcodeScheme.RANDOM && startNumber === null) {
+      nextErrors.start = 'Enter a whole number or leave blank';
+    }
+
+    setErrors(nextErrors);
+
+    if (Object.keys(nextErrors).length > 0) {
+      return null;
+    }
+
+    return {
+      scheme,
+      count,
+      template: scheme === BarcodeScheme.TEMPLATE ? template : undefined,
+      start: scheme === BarcodeScheme.RANDOM ? undefined : startNumber ?? undefined
+    };
+  }, [scheme, template, start, extraRows, count]);
+
+  /**
+   * Handles field value changes
+   */
+  const handleChange = useCallback((name: string, value: string) => {
+    switch (name) {
+      case 'scheme':
+        setScheme(value as BarcodeScheme);
+        break;
+      case 'template':
+        setTemplate(value);
+        break;
+      case 'start':
+        setStart(value);
+        break;
+      case 'extraRows':
+        setExtraRows(value);
+        break;
+    }
+    setErrors(prev => {
+      const next = { ...prev };
+      delete next[name];
+      return next;
+    });
+    setGenerateError(null);
+  }, []);
+
+  /**
+   * Validates the template when it loses focus
+   */
+  const handleBlur = useCallback((name: string) => {
+    if (name === 'template' && template) {
+      const templateError = barcodeGeneratorService.validateTemplate(template);
+      if (templateError) {
+        setErrors(prev => ({ ...prev, template: templateError }));
+      }
+    }
+  }, [template]);
+
+  /**
+   * Generates the barcodes and hands them to the batch form
+   */
+  const handleGenerate = useCallback(async () => {
+    const options = buildOptions();
+    if (!options || options.count === 0) {
+      return;
+    }
+
+    setGenerating(true);
+    setGenerateError(null);
+    try {
+      const result = await barcodeGeneratorService.generateForEvent(eventId, options, keptBarcodes);
+      onGenerate(result.barcodes, overwrite);
+      onClose();
+    } catch (error) {
+      setGenerateError(error instanceof Error ? error.message : 'Failed to generate barcodes');
+    } finally {
+      setGenerating(false);
+    }
+  }, [buildOptions, eventId, keptBarcodes, onGenerate, overwrite, onClose]);
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      title="Generate Barcodes"
+      onClose={onClose}
+      maxWidth="sm"
+      disableBackdropClick={generating}
+      actions={
+        <>
+          <Button variant="text" onClick={onClose} disabled={generating}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            color="primary"
+            onClick={handleGenerate}
+            loading={generating}
+            disabled={count === 0}
+            data-testid="confirm-generate-barcodes-button"
+          >
+            Generate {count} Barcode{count === 1 ? '' : 's'}
+          </Button>
+        </>
+      }
+    >
+      <FieldsContainer>
+        <Select
+          name="scheme"
+          label="Numbering"
+          options={SCHEME_OPTIONS}
+          value={scheme}
+          onChange={handleChange}
+          onBlur={handleBlur}
+          required
+          fullWidth
+        />
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          {SCHEME_DESCRIPTIONS[scheme]}
+        </Typography>
+
+        {scheme === BarcodeScheme.TEMPLATE && (
+          <Input
+            name="template"
+            label="Template"
+            type="text"
+            value={template}
+            onChange={handleChange}
+            onBlur={handleBlur}
+            placeholder="BC24####"
+            error={errors.template}
+            required
+            fullWidth
+          />
+        )}
+
+        {scheme !== BarcodeScheme.RANDOM && (
+          <Input
+            name="start"
+            label="Start Number (optional)"
+            type="number"
+            value={start}
+            onChange={handleChange}
+            onBlur={handleBlur}
+            placeholder="Next after the highest barcode in use"
+            error={errors.start}
+            fullWidth
+          />
+        )}
+
+        <Input
+          name="extraRows"
+          label="New Rows to Add"
+          type="number"
+          value={extraRows}
+          onChange={handleChange}
+          onBlur={handleBlur}
+          error={errors.extraRows}
+          fullWidth
+        />
+
+        <FormControlLabel
+          control={
+            <Checkbox
+              checked={overwrite}
+              onChange={(event) => setOverwrite(event.target.checked)}
+              data-testid="overwrite-barcodes-checkbox"
+            />
+          }
+          label="Replace barcodes already entered"
+        />
+
+        <Typography variant="body2" color="text.secondary">
+          {rowsToFill} existing row{rowsToFill === 1 ? '' : 's'} will receive a barcode
+          {extraRowCount > 0 && ` and ${extraRowCount} new row${extraRowCount === 1 ? '' : 's'} will be added`}.
+        </Typography>
+
+        {generateError && <Alert severity="error">{generateError}</Alert>}
+      </FieldsContainer>
+    </Modal>
+  );
+};
+
+export default BarcodeGeneratorDialog;
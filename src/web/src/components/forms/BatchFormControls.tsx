@@ -2,10 +2,17 @@ import React from 'react'; // ^18.2.0
 import { Box, Stack, Typography } from '@mui/material'; // ^5.14.0
 import { styled } from '@mui/material/styles'; // ^5.14.0
 import AddCircleOutlineIcon from '@mui/icons-material/AddCircleOutline'; // ^5.14.0
+import UploadFileIcon from '@mui/icons-material/UploadFile'; // ^5.14.0
+import QrCodeIcon from '@mui/icons-material/QrCode'; // ^5.14.0
+import BookmarkAddIcon from '@mui/icons-material/BookmarkAdd'; // ^5.14.0
+import BookmarksIcon from '@mui/icons-material/Bookmarks'; // ^5.14.0
+import ScheduleIcon from '@mui/icons-material/Schedule'; // ^5.14.0
 
 import Button from '../ui/Button';
 import FormValidationMessage from './FormValidationMessage';
+import BatchProgressPanel from './BatchProgressPanel';
 import { BatchPassFormState } from '../../types/form.types';
+import { BatchProgress } from '../../types/batchJob.types';
 
 /**
  * Props interface for the BatchFormControls component
@@ -21,6 +28,24 @@ export interface BatchFormControlsProps {
   onSubmit: () => Promise<void>;
   /** Error message to display, if any */
   error: string | null;
+  /** Handler for importing passes from a CSV or Excel file */
+  onImport?: () => void;
+  /** Handler for generating barcodes for the batch */
+  onGenerateBarcodes?: () => void;
+  /** Handler for saving the batch as a pass template */
+  onSaveTemplate?: () => void;
+  /** Handler for managing the saved pass templates */
+  onManageTemplates?: () => void;
+  /** Handler for scheduling the batch to be created before the event */
+  onSchedule?: () => void;
+  /** Whether the batch is being sent to the API */
+  isCreating?: boolean;
+  /** Latest progress of the batch being sent */
+  progress?: BatchProgress | null;
+  /** Handler for cancelling the batch being sent */
+  onCancel?: () => void;
+  /** Whether the batch has been cancelled and the chunk in flight is being finished */
+  isCancelling?: boolean;
 }
 
 /**
@@ -51,7 +76,7 @@ export const ButtonsContainer = styled(Stack)(({ theme }) => ({
 /**
  * A component that provides controls for batch form operations, including
  * adding new passes, removing passes, and submitting the batch for creation.
- * Displays appropriate loading states and validation feedback.
+ * Displays the batch's live progress while it is created, along with validation feedback.
  * 
  * @param {BatchFormControlsProps} props - The component props
  * @returns {JSX.Element} The rendered batch form controls
@@ -62,9 +87,19 @@ const BatchFormControls: React.FC<BatchFormControlsProps> = ({
   onRemovePass,
   onSubmit,
   error,
+  onImport,
+  onGenerateBarcodes,
+  onSaveTemplate,
+  onManageTemplates,
+  onSchedule,
+  isCreating = false,
+  progress = null,
+  onCancel,
+  isCancelling = false,
 }) => {
   // Extract relevant state from the form state
-  const { isValid, isSubmitting, passes } = formState;
+  const { isValid, isSubmitting: isValidating, passes } = formState;
+  const isSubmitting = isValidating || isCreating;
   
   // Determine if the form is empty (no passes)
   const isEmpty = passes.length === 0;
@@ -83,6 +118,71 @@ const BatchFormControls: React.FC<BatchFormControlsProps> = ({
           Add Pass
         </Button>
         
+        {onImport && (
+          <Button
+            variant="outlined"
+            color="primary"
+            startIcon={<UploadFileIcon />}
+            onClick={onImport}
+            disabled={isSubmitting}
+            data-testid="import-passes-button"
+          >
+            Import from File
+          </Button>
+        )}
+        
+        {onGenerateBarcodes && (
+          <Button
+            variant="outlined"
+            color="primary"
+            startIcon={<QrCodeIcon />}
+            onClick={onGenerateBarcodes}
+            disabled={isSubmitting}
+            data-testid="generate-barcodes-button"
+          >
+            Generate Barcodes
+          </Button>
+        )}
+        
+        {onSaveTemplate && (
+          <Button
+            variant="outlined"
+            color="primary"
+            startIcon={<BookmarkAddIcon />}
+            onClick={onSaveTemplate}
+            disabled={isEmpty || isSubmitting}
+            data-testid="save-template-button"
+          >
+            Save as Template
+          </Button>
+        )}
+        
+        {onManageTemplates && (
+          <Button
+            variant="text"
+            color="primary"
+            startIcon={<BookmarksIcon />}
+            onClick={onManageTemplates}
+            disabled={isSubmitting}
+            data-testid="manage-templates-button"
+          >
+            Templates
+          </Button>
+        )}
+        
+        {onSchedule && (
+          <Button
+            variant="outlined"
+            color="primary"
+            startIcon={<ScheduleIcon />}
+            onClick={onSchedule}
+            disabled={!isValid || isEmpty || isSubmitting}
+            data-testid="schedule-batch-button"
+          >
+            Schedule
+          </Button>
+        )}
+        
         <Button
           variant="contained"
           color="primary"
@@ -95,6 +195,10 @@ const BatchFormControls: React.FC<BatchFormControlsProps> = ({
         </Button>
       </ButtonsContainer>
       
+      {isCreating && (
+        <BatchProgressPanel progress={progress} onCancel={onCancel} isCancelling={isCancelling} />
+      )}
+      
       {error && <FormValidationMessage error={error} />}
     </ControlsContainer>
   );
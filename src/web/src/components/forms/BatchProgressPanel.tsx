@@ -0,0 +1,147 @@
+import React from 'react'; // ^18.2.0
+import { Box, LinearProgress, Typography } from '@mui/material'; // ^5.14.0
+import { styled } from '@mui/material/styles'; // ^5.14.0
+import CheckCircleOutlineIcon from '@mui/icons-material/CheckCircleOutline'; // ^5.14.0
+import ErrorOutlineIcon from '@mui/icons-material/ErrorOutline'; // ^5.14.0
+
+import Button from '../ui/Button';
+import { BatchProgress } from '../../types/batchJob.types';
+
+/**
+ * Props interface for the BatchProgressPanel component
+ */
+export interface BatchProgressPanelProps {
+  /** Latest progress of the batch, or null before the first pass is answered */
+  progress: BatchProgress | null;
+  /** Handler for cancelling the batch */
+  onCancel?: () => void;
+  /** Whether the batch has been cancelled and the chunk in flight is being finished */
+  isCancelling?: boolean;
+}
+
+/**
+ * Styled container for the progress panel
+ */
+const PanelContainer = styled(Box)(({ theme }) => ({
+  display: 'flex',
+  flexDirection: 'column',
+  gap: theme.spacing(1),
+  padding: theme.spacing(2),
+  border: `1px solid ${theme.palette.divider}`,
+  borderRadius: theme.shape.borderRadius,
+}));
+
+/**
+ * Styled row for the counts, ETA and cancel button
+ */
+const StatusRow = styled(Box)(({ theme }) => ({
+  display: 'flex',
+  alignItems: 'center',
+  flexWrap: 'wrap',
+  gap: theme.spacing(2),
+}));
+
+/**
+ * Styled count with an icon
+ */
+const Count = styled(Box)(({ theme }) => ({
+  display: 'flex',
+  alignItems: 'center',
+  gap: theme.spacing(0.5),
+}));
+
+/**
+ * Estimates the time left from the rate at which passes have been answered so far
+ * @param progress - Progress of the batch
+ * @param now - Current time in milliseconds since the epoch
+ * @returns Human-readable estimate, or null if there is not enough data yet
+ */
+export const formatTimeRemaining = (progress: BatchProgress, now: number = Date.now()): string | null => {
+  const elapsed = now - progress.startedAt;
+  const remaining = progress.total - progress.completed;
+
+  if (progress.completed === 0 || elapsed <= 0 || remaining <= 0) {
+    return null;
+  }
+
+  const seconds = Math.ceil((elapsed / progress.completed) * remaining / 1000);
+
+  if (seconds < 60) {
+    return `About ${seconds} second${seconds === 1 ? '' : 's'} left`;
+  }
+
+  const minutes = Math.ceil(seconds / 60);
+  return `About ${minutes} minute${minutes === 1 ? '' : 's'} left`;
+};
+
+/**
+ * A panel showing the live progress of a batch being created: a progress bar,
+ * the running success and failure counts, an estimate of the time left and a
+ * cancel button that stops further chunks from being sent.
+ *
+ * @param {BatchProgressPanelProps} props - The component props
+ * @returns {JSX.Element} The rendered progress panel
+ */
+const BatchProgressPanel: React.FC<BatchProgressPanelProps> = ({
+  progress,
+  onCancel,
+  isCancelling = false
+}) => {
+  const percent = progress && progress.total > 0 ? (progress.completed / progress.total) * 100 : 0;
+  const timeRemaining = progress ? formatTimeRemaining(progress) : null;
+
+  return (
+    <PanelContainer data-testid="batch-progress-panel">
+      <Typography variant="subtitle2">
+        {progress
+          ? `Created ${progress.completed} of ${progress.total} passes (chunk ${progress.completedChunks} of ${progress.totalChunks})`
+          : 'Sending passes...'}
+      </Typography>
+
+      <LinearProgress
+        variant={progress ? 'determinate' : 'indeterminate'}
+        value={percent}
+        aria-label="Batch creation progress"
+        data-testid="batch-progress-bar"
+      />
+
+      <StatusRow>
+        <Count>
+          <CheckCircleOutlineIcon color="success" fontSize="small" />
+          <Typography variant="body2" data-testid="batch-progress-succeeded">
+            {progress?.succeeded || 0} succeeded
+          </Typography>
+        </Count>
+        <Count>
+          <ErrorOutlineIcon color="error" fontSize="small" />
+          <Typography variant="body2" data-testid="batch-progress-failed">
+            {progress?.failed || 0} failed
+          </Typography>
+        </Count>
+        {timeRemaining && (
+          <Typography variant="body2" color="text.secondary" data-testid="batch-progress-eta">
+            {isCancelling ? 'Finishing passes already sent...' : timeRemaining}
+          </Typography>
+        )}
+
+        {onCancel && (
+          <Box sx={{ marginLeft: 'auto' }}>
+            <Button
+              variant="outlined"
+              color="secondary"
+              size="small"
+              onClick={onCancel}
+              loading={isCancelling}
+              disabled={isCancelling}
+              data-testid="cancel-batch-button"
+            >
+              {isCancelling ? 'Cancelling' : 'Cancel'}
+            </Button>
+          </Box>
+        )}
+      </StatusRow>
+    </PanelContainer>
+  );
+};
+
+export default BatchProgressPanel;
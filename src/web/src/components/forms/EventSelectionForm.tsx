@@ -1,10 +1,12 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Box, Grid } from '@mui/material';
 import { styled } from '@mui/material/styles'; // v5.14.0
 import Input from '../ui/Input';
 import Button from '../ui/Button';
+import Select from '../ui/Select';
 import { useForm } from '../../hooks/useForm';
 import { EventSelectionFormData, FieldType } from '../../types/form.types';
+import { PassTemplate } from '../../types/template.types';
 import { EVENT_ID_REGEX } from '../../constants/validation';
 
 /**
@@ -18,9 +20,10 @@ export interface EventSelectionFormProps {
   initialEventId?: string;
   
   /**
-   * Callback function called when form is submitted with a valid event ID
+   * Callback function called when form is submitted with a valid event ID,
+   * along with the ID of the template chosen to start from, if any
    */
-  onSubmit: (eventId: string) => void;
+  onSubmit: (eventId: string, templateId?: string) => void;
   
   /**
    * Whether the form is in a loading state (disables inputs and shows loading indicator)
@@ -33,6 +36,16 @@ export interface EventSelectionFormProps {
    * @default 'Event ID'
    */
   label?: string;
+  
+  /**
+   * Saved pass templates to offer as a starting point; no template picker is shown when omitted
+   */
+  templates?: PassTemplate[];
+  
+  /**
+   * Callback function called when the user wants to manage the saved templates
+   */
+  onManageTemplates?: () => void;
 }
 
 /**
@@ -63,8 +76,13 @@ const EventSelectionForm: React.FC<EventSelectionFormProps> = ({
   initialEventId = '',
   onSubmit,
   loading = false,
-  label = 'Event ID'
+  label = 'Event ID',
+  templates,
+  onManageTemplates
 }) => {
+  // ID of the template chosen to start the batch from
+  const [templateId, setTemplateId] = useState<string>('');
+  
   // Configure form with event ID field and validation rules
   const formConfig = {
     fields: [
@@ -81,7 +99,7 @@ const EventSelectionForm: React.FC<EventSelectionFormProps> = ({
       eventId: initialEventId
     },
     onSubmit: async (values: Record<string, string>) => {
-      onSubmit(values.eventId);
+      onSubmit(values.eventId, templateId || undefined);
     },
     validateOnBlur: true,
     validateOnChange: false
@@ -109,6 +127,13 @@ const EventSelectionForm: React.FC<EventSelectionFormProps> = ({
     }
   }, [initialEventId, formState.fields.eventId?.value, setFieldValue, validateField]);
 
+  // Forget a chosen template once it has been deleted
+  useEffect(() => {
+    if (templateId && !templates?.some(template => template.id === templateId)) {
+      setTemplateId('');
+    }
+  }, [templateId, templates]);
+
   // Handle form submission
   const submitForm = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -148,6 +173,41 @@ const EventSelectionForm: React.FC<EventSelectionFormProps> = ({
               Submit
             </Button>
           </Grid>
+          {templates && (
+            <>
+              <Grid item xs={12} md={8}>
+                <Select
+                  name="templateId"
+                  label="Start from template"
+                  options={[
+                    { value: '', label: 'No template' },
+                    ...templates.map(template => ({
+                      value: template.id,
+                      label: `${template.name} (${template.rows.length} ${template.rows.length === 1 ? 'pass' : 'passes'})`
+                    }))
+                  ]}
+                  value={templateId}
+                  onChange={(_name, value) => setTemplateId(value)}
+                  onBlur={() => {}}
+                  disabled={loading || templates.length === 0}
+                  fullWidth
+                />
+              </Grid>
+              {onManageTemplates && (
+                <Grid item xs={12} md={4}>
+                  <Button
+                    variant="text"
+                    onClick={onManageTemplates}
+                    disabled={loading}
+                    fullWidth
+                    data-testid="manage-templates-button"
+                  >
+                    Manage Templates
+                  </Button>
+                </Grid>
+              )}
+            </>
+          )}
         </Grid>
       </form>
     </FormContainer>
@@ -0,0 +1,132 @@
+import React, { useState, useCallback } from 'react'; // ^18.2.0
+import { Box, Typography } from '@mui/material'; // ^5.14.0
+import { styled } from '@mui/material/styles'; // ^5.14.0
+import ReplayIcon from '@mui/icons-material/Replay'; // ^5.14.0
+
+import Alert from '../ui/Alert';
+import Button from '../ui/Button';
+import batchJobService from '../../services/batch/batchJobService';
+import { BatchJob } from '../../types/batchJob.types';
+import { formatDateTime } from '../../utils/date-helpers';
+
+/**
+ * Props interface for the InterruptedBatchJobs component
+ */
+export interface InterruptedBatchJobsProps {
+  /** Handler to resume a batch job; resolves once the batch has finished */
+  onResume: (jobId: string) => Promise<void>;
+}
+
+/**
+ * Styled container for the list of interrupted batches
+ */
+const JobsContainer = styled(Box)(({ theme }) => ({
+  display: 'flex',
+  flexDirection: 'column',
+  gap: theme.spacing(1),
+  marginBottom: theme.spacing(2),
+}));
+
+/**
+ * Styled container for the buttons of an interrupted batch
+ */
+const JobActions = styled(Box)(({ theme }) => ({
+  display: 'flex',
+  gap: theme.spacing(1),
+  alignItems: 'center',
+}));
+
+/**
+ * Lists pass batches that were interrupted before every pass had been answered, for
+ * example by closing the tab, and lets the user resume or discard each one. Resuming
+ * only creates the passes the API has not already received.
+ *
+ * @param {InterruptedBatchJobsProps} props - The component props
+ * @returns {JSX.Element | null} The rendered list, or null if no batches were interrupted
+ */
+const InterruptedBatchJobs: React.FC<InterruptedBatchJobsProps> = ({ onResume }) => {
+  const [jobs, setJobs] = useState<BatchJob[]>(() => batchJobService.getInterruptedJobs());
+  const [resumingJobId, setResumingJobId] = useState<string | null>(null);
+  const [resumeError, setResumeError] = useState<string | null>(null);
+
+  /**
+   * Resumes a batch and removes it from the list once it has finished
+   */
+  const handleResume = useCallback(async (jobId: string) => {
+    setResumingJobId(jobId);
+    setResumeError(null);
+    try {
+      await onResume(jobId);
+    } catch (error) {
+      setResumeError(error instanceof Error ? error.message : 'Failed to resume the batch.');
+    } finally {
+      setResumingJobId(null);
+      setJobs(batchJobService.getInterruptedJobs());
+    }
+  }, [onResume]);
+
+  /**
+   * Discards a batch without creating its remaining passes
+   */
+  const handleDiscard = useCallback((jobId: string) => {
+    batchJobService.discardJob(jobId);
+    setResumeError(null);
+    setJobs(batchJobService.getInterruptedJobs());
+  }, []);
+
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  return (
+    <JobsContainer data-testid="interrupted-batch-jobs">
+      {jobs.map(job => {
+        const progress = batchJobService.getProgress(job);
+        const remaining = progress.pending + progress.sent;
+
+        return (
+          <Alert
+            key={job.id}
+            severity="warning"
+            action={
+              <JobActions>
+                <Button
+                  variant="contained"
+                  color="primary"
+                  size="small"
+                  startIcon={<ReplayIcon />}
+                  onClick={() => handleResume(job.id)}
+                  loading={resumingJobId === job.id}
+                  disabled={resumingJobId !== null}
+                  data-testid={`resume-batch-${job.id}`}
+                >
+                  Resume
+                </Button>
+                <Button
+                  variant="text"
+                  size="small"
+                  onClick={() => handleDiscard(job.id)}
+                  disabled={resumingJobId !== null}
+                  data-testid={`discard-batch-${job.id}`}
+                >
+                  Discard
+                </Button>
+              </JobActions>
+            }
+          >
+            <Typography variant="body2" fontWeight="bold">
+              A batch of {progress.total} passes for event {job.eventId} was interrupted
+            </Typography>
+            <Typography variant="body2">
+              Started {formatDateTime(job.createdAt)}: {progress.succeeded} created, {progress.failed} failed,{' '}
+              {remaining} not yet confirmed.
+            </Typography>
+          </Alert>
+        );
+      })}
+      {resumeError && <Alert severity="error">{resumeError}</Alert>}
+    </JobsContainer>
+  );
+};
+
+export default InterruptedBatchJobs;
@@ -0,0 +1,86 @@
+import React from 'react'; // ^18.2.0
+import { List, ListItem, ListItemText, Typography } from '@mui/material'; // ^5.14.0
+
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import { OverbookingConflict } from '../../types/inventory.types';
+import { SPOT_TYPE_LABELS } from '../../constants/spotTypes';
+
+/**
+ * Props interface for the OverbookingDialog component
+ */
+export interface OverbookingDialogProps {
+  /** Whether the dialog is open */
+  isOpen: boolean;
+  /** Lots and spot types the batch would overbook */
+  conflicts: OverbookingConflict[];
+  /** Handler to go back to the form without creating passes */
+  onClose: () => void;
+  /** Handler to create the passes anyway */
+  onConfirm: () => void;
+  /** Label of the button that creates the passes anyway */
+  confirmLabel?: string;
+}
+
+/**
+ * Describes how far a batch would overbook a lot
+ * @param conflict - The overbooked lot and spot type
+ * @returns A sentence describing the overbooking
+ */
+export const describeOverbooking = (conflict: OverbookingConflict): string => {
+  const remaining = Math.max(conflict.capacity - conflict.issued, 0);
+  return `Lot ${conflict.lotId} ${SPOT_TYPE_LABELS[conflict.spotType]}: ${conflict.requested} requested, ` +
+    `${remaining} of ${conflict.capacity} remaining (${conflict.overBy} over capacity)`;
+};
+
+/**
+ * A confirmation dialog shown when a batch of passes would exceed the capacity of
+ * one or more lots and the event's overbooking policy allows it with a warning.
+ *
+ * @param {OverbookingDialogProps} props - The component props
+ * @returns {JSX.Element} The rendered overbooking dialog
+ */
+const OverbookingDialog: React.FC<OverbookingDialogProps> = ({
+  isOpen,
+  conflicts,
+  onClose,
+  onConfirm,
+  confirmLabel = 'Create Anyway'
+}) => {
+  return (
+    <Modal
+      isOpen={isOpen}
+      title="Lots Over Capacity"
+      onClose={onClose}
+      maxWidth="sm"
+      actions={
+        <>
+          <Button variant="text" onClick={onClose}>
+            Back to Form
+          </Button>
+          <Button
+            variant="contained"
+            color="warning"
+            onClick={onConfirm}
+            data-testid="confirm-overbooking-button"
+          >
+            {confirmLabel}
+          </Button>
+        </>
+      }
+    >
+      <Typography variant="body1" gutterBottom>
+        Creating these passes would issue more spots than these lots hold:
+      </Typography>
+      <List dense data-testid="overbooking-list">
+        {conflicts.map(conflict => (
+          <ListItem key={`${conflict.lotId}-${conflict.spotType}`}>
+            <ListItemText primary={describeOverbooking(conflict)} />
+          </ListItem>
+        ))}
+      </List>
+    </Modal>
+  );
+};
+
+export default OverbookingDialog;
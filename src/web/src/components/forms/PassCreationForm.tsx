@@ -1,10 +1,16 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { Box, Grid, Typography, Divider } from '@mui/material'; // ^5.14.0
 import { styled } from '@mui/material/styles'; // ^5.14.0
 
 import EventSelectionForm from './EventSelectionForm';
 import PassFormItem from './PassFormItem';
 import BatchFormControls from './BatchFormControls';
+import PassImportDialog from './PassImportDialog';
+import BarcodeGeneratorDialog from './BarcodeGeneratorDialog';
+import OverbookingDialog, { describeOverbooking } from './OverbookingDialog';
+import SavePassTemplateDialog from './SavePassTemplateDialog';
+import PassTemplatesDialog from './PassTemplatesDialog';
+import ScheduleBatchDialog from './ScheduleBatchDialog';
 import ResultsSummary from '../feedback/ResultsSummary';
 import Alert from '../ui/Alert';
 import Card from '../ui/Card';
@@ -13,8 +19,16 @@ import LoadingSpinner from '../ui/LoadingSpinner';
 import { useBatchForm } from '../../hooks/useForm';
 import usePasses from '../../hooks/usePasses';
 import useEvents from '../../hooks/useEvents';
+import useAccountDirectory from '../../hooks/useAccountDirectory';
+import useInventory from '../../hooks/useInventory';
+import usePassTemplates from '../../hooks/usePassTemplates';
+import { useScheduleContext } from '../../context/ScheduleContext';
+import { useNotificationContext } from '../../context/NotificationContext';
+import { passTemplateService } from '../../services/templates/passTemplateService';
 import { PassFormData, BatchPassFormState } from '../../types/form.types';
 import { PassCreationSummary } from '../../types/pass.types';
+import { BatchProgress } from '../../types/batchJob.types';
+import { OverbookingConflict } from '../../types/inventory.types';
 import { formatDate } from '../../utils/date-helpers';
 
 /**
@@ -81,9 +95,21 @@ const PassCreationForm: React.FC<PassCreationFormProps> = ({
   // State for tracking form flow
   const [creationResults, setCreationResults] = useState<PassCreationSummary | null>(null);
   const [formError, setFormError] = useState<string | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState<boolean>(false);
+  const [isBarcodeGeneratorOpen, setIsBarcodeGeneratorOpen] = useState<boolean>(false);
+  const [isCreating, setIsCreating] = useState<boolean>(false);
+  const [progress, setProgress] = useState<BatchProgress | null>(null);
+  const [isCancelling, setIsCancelling] = useState<boolean>(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [overbookingConflicts, setOverbookingConflicts] = useState<OverbookingConflict[]>([]);
+  // Hours before the event of a batch waiting for the user to accept overbooking before it is scheduled
+  const [pendingScheduleHours, setPendingScheduleHours] = useState<number | null>(null);
+  const [isSaveTemplateOpen, setIsSaveTemplateOpen] = useState<boolean>(false);
+  const [isTemplatesOpen, setIsTemplatesOpen] = useState<boolean>(false);
+  const [isScheduleOpen, setIsScheduleOpen] = useState<boolean>(false);
 
   // Get event data using useEvents hook
-  const { getEventById } = useEvents();
+  const { events } = useEvents();
 
   // Get pass creation functionality using usePasses hook
   const { createMultiplePasses, loading, error, selectEvent } = usePasses();
@@ -95,6 +121,9 @@ const PassCreationForm: React.FC<PassCreationFormProps> = ({
     handleFieldBlur,
     handleAddForm,
     handleRemoveForm,
+    handleImportForms,
+    handleAssignBarcodes,
+    handleLoadForms,
     handleSubmit: submitBatchForm,
     resetBatchForm,
     setEventId
@@ -106,6 +135,28 @@ const PassCreationForm: React.FC<PassCreationFormProps> = ({
     }
   });
 
+  // Get lot capacity for the selected event to catch overbooking before submission
+  const { checkOverbooking, refetch: refetchInventory } = useInventory(batchFormState.eventId || null);
+
+  // Get known accounts to suggest in each pass form
+  const { searchAccounts, getAccount } = useAccountDirectory();
+
+  // Get the saved pass templates of the selected venue
+  const {
+    templates,
+    getTemplate,
+    saveTemplate,
+    renameTemplate,
+    duplicateTemplate,
+    deleteTemplate,
+    exportTemplates,
+    importTemplates
+  } = usePassTemplates();
+
+  // Get scheduling of batches to be created before their event
+  const { scheduleJob } = useScheduleContext();
+  const { showSuccess } = useNotificationContext();
+
   // Set initial event ID when provided
   useEffect(() => {
     if (initialEventId) {
@@ -114,14 +165,72 @@ const PassCreationForm: React.FC<PassCreationFormProps> = ({
     }
   }, [initialEventId, setEventId, selectEvent]);
 
-  // Handle event selection
-  const handleEventSelect = useCallback((selectedEventId: string) => {
+  // Handle event selection, starting the batch from the chosen template if there is one
+  const handleEventSelect = useCallback((selectedEventId: string, templateId?: string) => {
     setEventId(selectedEventId);
     selectEvent(selectedEventId);
+    
+    const template = templateId ? getTemplate(templateId) : null;
+    if (template) {
+      handleLoadForms(passTemplateService.toPassFormData(template, selectedEventId));
+    }
+    
     // Reset creation results when event changes
     setCreationResults(null);
     setFormError(null);
-  }, [setEventId, selectEvent]);
+  }, [setEventId, selectEvent, getTemplate, handleLoadForms]);
+  
+  // Save the passes of the batch as a template
+  const handleSaveTemplate = useCallback((name: string) => {
+    return saveTemplate(name, batchFormState.passes.map(pass => pass.data));
+  }, [saveTemplate, batchFormState.passes]);
+
+  // Validate the batch before choosing when to create it
+  const handleOpenSchedule = useCallback(async () => {
+    try {
+      setFormError(null);
+      await submitBatchForm();
+      setIsScheduleOpen(true);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Please correct the passes before scheduling them.');
+    }
+  }, [submitBatchForm]);
+
+  // Submit the passes to the API, reporting progress until it finishes or is cancelled
+  const createPasses = useCallback(async (passesData: PassFormData[]) => {
+    try {
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+      setIsCreating(true);
+      const result = await createMultiplePasses(passesData, {
+        onProgress: setProgress,
+        signal: abortController.signal
+      });
+      
+      // Set the creation results
+      setCreationResults(result);
+      
+      // Count the new passes against lot capacity
+      refetchInventory();
+      
+      // Call the success callback if provided
+      if (onSuccess) {
+        onSuccess(result);
+      }
+    } catch (err) {
+      // Handle creation errors
+      if (err instanceof Error) {
+        setFormError(err.message);
+      } else {
+        setFormError('An unknown error occurred while creating passes.');
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setIsCreating(false);
+      setIsCancelling(false);
+      setProgress(null);
+    }
+  }, [createMultiplePasses, refetchInventory, onSuccess]);
 
   // Handle form submission
   const handleSubmit = useCallback(async () => {
@@ -140,16 +249,18 @@ const PassCreationForm: React.FC<PassCreationFormProps> = ({
       // Get the passes data from the validated form
       const passesData = batchFormState.passes.map(pass => pass.data);
       
-      // Submit the passes to the API
-      const result = await createMultiplePasses(passesData);
-      
-      // Set the creation results
-      setCreationResults(result);
-      
-      // Call the success callback if provided
-      if (onSuccess) {
-        onSuccess(result);
+      // Check the batch against lot capacity; the event's policy decides whether to warn or block
+      const overbooking = checkOverbooking(passesData);
+      if (overbooking.blocked) {
+        setFormError(`These passes would overbook lots: ${overbooking.conflicts.map(describeOverbooking).join('; ')}.`);
+        return;
       }
+      if (overbooking.conflicts.length > 0) {
+        setOverbookingConflicts(overbooking.conflicts);
+        return;
+      }
+      
+      await createPasses(passesData);
     } catch (err) {
       // Handle form submission errors
       if (err instanceof Error) {
@@ -158,7 +269,15 @@ const PassCreationForm: React.FC<PassCreationFormProps> = ({
         setFormError('An unknown error occurred while creating passes.');
       }
     }
-  }, [batchFormState.passes, submitBatchForm, createMultiplePasses, onSuccess]);
+  }, [batchFormState.passes, submitBatchForm, checkOverbooking, createPasses]);
+
+  // Stop sending further chunks; passes already sent are still answered
+  const handleCancel = useCallback(() => {
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort();
+      setIsCancelling(true);
+    }
+  }, []);
 
   // Handle "Create More" button click
   const handleCreateMore = useCallback(() => {
@@ -206,8 +325,59 @@ const PassCreationForm: React.FC<PassCreationFormProps> = ({
   // Get the current event details for display
   const selectedEvent = useMemo(() => {
     if (!batchFormState.eventId) return null;
-    return getEventById(batchFormState.eventId);
-  }, [batchFormState.eventId, getEventById]);
+    return events.find(event => event.id === batchFormState.eventId) || null;
+  }, [batchFormState.eventId, events]);
+
+  // Schedule the passes of the batch and start a new batch for the same event
+  const scheduleBatch = useCallback((hoursBeforeEvent: number) => {
+    if (!selectedEvent) {
+      throw new Error('The event details are still loading. Try again in a moment.');
+    }
+
+    const job = scheduleJob(selectedEvent, batchFormState.passes.map(pass => pass.data), hoursBeforeEvent);
+    showSuccess(`${job.requests.length} ${job.requests.length === 1 ? 'pass' : 'passes'} scheduled for ${job.eventName}.`);
+    resetBatchForm();
+    setEventId(selectedEvent.id);
+    return job;
+  }, [selectedEvent, scheduleJob, batchFormState.passes, showSuccess, resetBatchForm, setEventId]);
+
+  // Check the batch against lot capacity before scheduling it, as when creating passes now
+  const handleSchedule = useCallback((hoursBeforeEvent: number) => {
+    const overbooking = checkOverbooking(batchFormState.passes.map(pass => pass.data));
+    if (overbooking.blocked) {
+      throw new Error(`These passes would overbook lots: ${overbooking.conflicts.map(describeOverbooking).join('; ')}.`);
+    }
+    if (overbooking.conflicts.length > 0) {
+      setPendingScheduleHours(hoursBeforeEvent);
+      setOverbookingConflicts(overbooking.conflicts);
+      return null;
+    }
+
+    return scheduleBatch(hoursBeforeEvent);
+  }, [checkOverbooking, batchFormState.passes, scheduleBatch]);
+
+  // Create or schedule the passes after the user accepted overbooking
+  const handleConfirmOverbooking = useCallback(() => {
+    setOverbookingConflicts([]);
+
+    if (pendingScheduleHours === null) {
+      createPasses(batchFormState.passes.map(pass => pass.data));
+      return;
+    }
+
+    setPendingScheduleHours(null);
+    try {
+      scheduleBatch(pendingScheduleHours);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to schedule the passes.');
+    }
+  }, [pendingScheduleHours, batchFormState.passes, createPasses, scheduleBatch]);
+
+  // Go back to the form without creating or scheduling the passes
+  const handleCloseOverbooking = useCallback(() => {
+    setOverbookingConflicts([]);
+    setPendingScheduleHours(null);
+  }, []);
 
   // Determine which view to render based on state
   const renderContent = () => {
@@ -233,6 +403,8 @@ const PassCreationForm: React.FC<PassCreationFormProps> = ({
           onSubmit={handleEventSelect}
           loading={loading}
           label="Select Event ID"
+          templates={templates}
+          onManageTemplates={() => setIsTemplatesOpen(true)}
         />
       );
     }
@@ -276,6 +448,8 @@ const PassCreationForm: React.FC<PassCreationFormProps> = ({
                 onChange={handleFieldChange}
                 onBlur={handleFieldBlur}
                 onRemove={() => handleRemoveForm(pass.id)}
+                searchAccounts={searchAccounts}
+                getAccount={getAccount}
               />
             ))
           )}
@@ -288,6 +462,58 @@ const PassCreationForm: React.FC<PassCreationFormProps> = ({
           onRemovePass={handleRemoveForm}
           onSubmit={handleSubmit}
           error={formError}
+          onImport={() => setIsImportOpen(true)}
+          onGenerateBarcodes={() => setIsBarcodeGeneratorOpen(true)}
+          onSaveTemplate={() => setIsSaveTemplateOpen(true)}
+          onManageTemplates={() => setIsTemplatesOpen(true)}
+          onSchedule={handleOpenSchedule}
+          isCreating={isCreating}
+          progress={progress}
+          onCancel={handleCancel}
+          isCancelling={isCancelling}
+        />
+
+        {/* CSV/Excel import dialog */}
+        <PassImportDialog
+          isOpen={isImportOpen}
+          eventId={batchFormState.eventId}
+          onClose={() => setIsImportOpen(false)}
+          onImport={handleImportForms}
+        />
+
+        {/* Barcode generator dialog */}
+        <BarcodeGeneratorDialog
+          isOpen={isBarcodeGeneratorOpen}
+          eventId={batchFormState.eventId}
+          passes={batchFormState.passes.map(pass => pass.data)}
+          onClose={() => setIsBarcodeGeneratorOpen(false)}
+          onGenerate={handleAssignBarcodes}
+        />
+
+        {/* Save as template dialog */}
+        <SavePassTemplateDialog
+          isOpen={isSaveTemplateOpen}
+          passCount={batchFormState.passes.length}
+          onClose={() => setIsSaveTemplateOpen(false)}
+          onSave={handleSaveTemplate}
+        />
+
+        {/* Schedule batch dialog */}
+        <ScheduleBatchDialog
+          isOpen={isScheduleOpen}
+          event={selectedEvent}
+          passCount={batchFormState.passes.length}
+          onClose={() => setIsScheduleOpen(false)}
+          onSchedule={handleSchedule}
+        />
+
+        {/* Overbooking warning */}
+        <OverbookingDialog
+          isOpen={overbookingConflicts.length > 0}
+          conflicts={overbookingConflicts}
+          onClose={handleCloseOverbooking}
+          onConfirm={handleConfirmOverbooking}
+          confirmLabel={pendingScheduleHours === null ? 'Create Anyway' : 'Schedule Anyway'}
         />
       </FormContainer>
     );
@@ -309,6 +535,18 @@ const PassCreationForm: React.FC<PassCreationFormProps> = ({
       ) : (
         renderContent()
       )}
+
+      {/* Template management dialog */}
+      <PassTemplatesDialog
+        isOpen={isTemplatesOpen}
+        onClose={() => setIsTemplatesOpen(false)}
+        templates={templates}
+        renameTemplate={renameTemplate}
+        duplicateTemplate={duplicateTemplate}
+        deleteTemplate={deleteTemplate}
+        exportTemplates={exportTemplates}
+        importTemplates={importTemplates}
+      />
     </Box>
   );
 };
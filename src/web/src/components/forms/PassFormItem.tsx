@@ -1,13 +1,19 @@
-import React from 'react';
-import { Box, Grid } from '@mui/material'; // ^5.14.0
+import React, { useState } from 'react';
+import { Box, Grid, Typography } from '@mui/material'; // ^5.14.0
 import { styled } from '@mui/material/styles'; // ^5.14.0
 import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline'; // ^5.14.0
+import ContentCopyIcon from '@mui/icons-material/ContentCopy'; // ^5.14.0
+import HistoryIcon from '@mui/icons-material/History'; // ^5.14.0
 
 import FormField from './FormField';
+import AccountAutocompleteField from './AccountAutocompleteField';
+import AccountHistoryDialog from '../accounts/AccountHistoryDialog';
 import Button from '../ui/Button';
 import Card from '../ui/Card';
 import { PASS_CREATION_FIELDS } from '../../constants/formFields';
+import { VALIDATION_RULES } from '../../constants/validation';
 import { FormFieldState, PassFormData } from '../../types/form.types';
+import { AccountRecord } from '../../types/account.types';
 
 /**
  * Props interface for the PassFormItem component
@@ -27,8 +33,17 @@ export interface PassFormItemProps {
   onBlur: (index: number, fieldName: string) => void;
   /** Handler to remove this pass form from the batch */
   onRemove: () => void;
+  /** Finds known accounts to suggest for the account ID and customer name fields */
+  searchAccounts?: (query: string) => AccountRecord[];
+  /** Looks up a known account, so its pass history can be shown */
+  getAccount?: (accountId: string) => AccountRecord | null;
 }
 
+/**
+ * Fields that suggest known accounts when an account directory is available
+ */
+const ACCOUNT_FIELDS = ['accountId', 'customerName'];
+
 /**
  * Styled container for the pass form with consistent spacing
  */
@@ -44,6 +59,24 @@ export const FormContainer = styled(Box)(({ theme }) => ({
   },
 }));
 
+/**
+ * Styled notice shown in the card header when the barcode conflicts with another pass
+ */
+const DuplicateNotice = styled(Typography)(({ theme }) => ({
+  display: 'flex',
+  alignItems: 'center',
+  gap: theme.spacing(0.5),
+  color: theme.palette.error.main,
+}));
+
+/**
+ * Error messages that mark a barcode as a duplicate of another pass
+ */
+const DUPLICATE_BARCODE_MESSAGES = [
+  VALIDATION_RULES.barcode.errorMessages.duplicate,
+  VALIDATION_RULES.barcode.errorMessages.batchDuplicate
+];
+
 /**
  * A component that renders an individual pass form item within the batch pass creation interface.
  * It provides input fields for all required pass data, validation feedback, and a remove button
@@ -60,7 +93,12 @@ const PassFormItem: React.FC<PassFormItemProps> = ({
   onChange,
   onBlur,
   onRemove,
+  searchAccounts,
+  getAccount,
 }) => {
+  // Whether the account's pass history is shown
+  const [isHistoryOpen, setIsHistoryOpen] = useState<boolean>(false);
+
   /**
    * Handler for field value changes
    */
@@ -75,21 +113,58 @@ const PassFormItem: React.FC<PassFormItemProps> = ({
     onBlur(index, fieldName);
   };
 
+  /**
+   * Handler for choosing a known account, filling in both of its fields
+   */
+  const handleSelectAccount = (account: AccountRecord) => {
+    onChange(index, 'accountId', account.accountId);
+    onChange(index, 'customerName', account.customerName);
+    onBlur(index, 'accountId');
+    onBlur(index, 'customerName');
+  };
+
+  // Account whose history can be shown, if the directory knows the account ID
+  const knownAccount = getAccount && formData.accountId ? getAccount(formData.accountId) : null;
+
+  // Duplicate barcodes are flagged even before the field is touched, so conflicts
+  // are visible before the batch is submitted
+  const barcodeState = formState.barcode;
+  const isDuplicateBarcode = Boolean(barcodeState?.error && DUPLICATE_BARCODE_MESSAGES.includes(barcodeState.error));
+
   return (
     <FormContainer data-testid={`pass-form-item-${index}`}>
       <Card
         title={`PASS #${index + 1}`}
+        subheader={isDuplicateBarcode ? (
+          <DuplicateNotice variant="body2" data-testid={`duplicate-barcode-${index}`}>
+            <ContentCopyIcon fontSize="inherit" />
+            Duplicate barcode
+          </DuplicateNotice>
+        ) : undefined}
         actions={
-          <Button
-            variant="text"
-            color="error"
-            onClick={onRemove}
-            startIcon={<DeleteOutlineIcon />}
-            aria-label={`Remove pass ${index + 1}`}
-            data-testid={`remove-pass-button-${index}`}
-          >
-            Remove
-          </Button>
+          <>
+            {knownAccount && (
+              <Button
+                variant="text"
+                onClick={() => setIsHistoryOpen(true)}
+                startIcon={<HistoryIcon />}
+                aria-label={`Show pass history of account ${knownAccount.accountId}`}
+                data-testid={`account-history-button-${index}`}
+              >
+                History ({knownAccount.history.length})
+              </Button>
+            )}
+            <Button
+              variant="text"
+              color="error"
+              onClick={onRemove}
+              startIcon={<DeleteOutlineIcon />}
+              aria-label={`Remove pass ${index + 1}`}
+              data-testid={`remove-pass-button-${index}`}
+            >
+              Remove
+            </Button>
+          </>
         }
       >
         <Grid container spacing={2}>
@@ -113,18 +188,39 @@ const PassFormItem: React.FC<PassFormItemProps> = ({
                 md={gridSizes.md} 
                 key={field.name}
               >
-                <FormField
-                  field={field}
-                  fieldState={formState[field.name]}
-                  onChange={handleChange}
-                  onBlur={handleBlur}
-                  disabled={field.disabled}
-                />
+                {searchAccounts && ACCOUNT_FIELDS.includes(field.name) ? (
+                  <AccountAutocompleteField
+                    field={field}
+                    fieldState={formState[field.name]}
+                    searchAccounts={searchAccounts}
+                    onChange={handleChange}
+                    onBlur={handleBlur}
+                    onSelectAccount={handleSelectAccount}
+                    disabled={field.disabled}
+                  />
+                ) : (
+                  <FormField
+                    field={field}
+                    fieldState={
+                      field.name === 'barcode' && isDuplicateBarcode
+                        ? { ...barcodeState, touched: true }
+                        : formState[field.name]
+                    }
+                    onChange={handleChange}
+                    onBlur={handleBlur}
+                    disabled={field.disabled}
+                  />
+                )}
               </Grid>
             );
           })}
         </Grid>
       </Card>
+      <AccountHistoryDialog
+        isOpen={isHistoryOpen}
+        account={knownAccount}
+        onClose={() => setIsHistoryOpen(false)}
+      />
     </FormContainer>
   );
 };
@@ -0,0 +1,305 @@
+import React, { useState, useMemo, useCallback, useRef } from 'react'; // ^18.2.0
+import { Box, Grid, Typography } from '@mui/material'; // ^5.14.0
+import { styled } from '@mui/material/styles'; // ^5.14.0
+import UploadFileIcon from '@mui/icons-material/UploadFile'; // ^5.14.0
+
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import Select from '../ui/Select';
+import Alert from '../ui/Alert';
+import Table, { TableColumn } from '../ui/Table';
+import { PASS_CREATION_FIELDS } from '../../constants/formFields';
+import { PassFormData, FormFieldOption } from '../../types/form.types';
+import {
+  ImportColumnMapping,
+  ImportablePassField,
+  ParsedImportFile
+} from '../../types/import.types';
+import {
+  IMPORTABLE_PASS_FIELDS,
+  parseImportFile,
+  suggestColumnMapping,
+  buildImportedPassRows
+} from '../../utils/import-helpers';
+
+/**
+ * Props interface for the PassImportDialog component
+ */
+export interface PassImportDialogProps {
+  /** Whether the dialog is open */
+  isOpen: boolean;
+  /** The event ID that imported passes will be created for */
+  eventId: string;
+  /** Handler to close the dialog */
+  onClose: () => void;
+  /** Handler called with the valid imported passes when the user confirms the import */
+  onImport: (passes: PassFormData[]) => void;
+}
+
+/**
+ * Styled container for the file selection step
+ */
+export const FileSelectContainer = styled(Box)(({ theme }) => ({
+  display: 'flex',
+  alignItems: 'center',
+  gap: theme.spacing(2),
+  marginBottom: theme.spacing(2),
+  flexWrap: 'wrap',
+}));
+
+/**
+ * Styled container for the column mapping and preview sections
+ */
+export const ImportSection = styled(Box)(({ theme }) => ({
+  marginTop: theme.spacing(3),
+}));
+
+/**
+ * Imported row flattened for the preview table, with its errors joined into one message
+ */
+type PreviewRow = PassFormData & { rowNumber: number; isValid: boolean; errors: string };
+
+/**
+ * Display labels for importable fields, taken from the pass creation form configuration
+ */
+const FIELD_LABELS = PASS_CREATION_FIELDS.reduce((labels, field) => {
+  labels[field.name] = field.label;
+  return labels;
+}, {} as Record<string, string>);
+
+/**
+ * A dialog for importing passes into the batch form from a CSV or Excel file.
+ * The user selects a file, maps its columns to pass fields, and reviews a preview
+ * in which every row has been validated. Only valid rows are imported.
+ *
+ * @param {PassImportDialogProps} props - The component props
+ * @returns {JSX.Element} The rendered import dialog
+ */
+const PassImportDialog: React.FC<PassImportDialogProps> = ({
+  isOpen,
+  eventId,
+  onClose,
+  onImport
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [parsedFile, setParsedFile] = useState<ParsedImportFile | null>(null);
+  const [mapping, setMapping] = useState<ImportColumnMapping | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [parsing, setParsing] = useState<boolean>(false);
+
+  // Options for each mapping select: one per column in the file
+  const columnOptions: FormFieldOption[] = useMemo(() => {
+    if (!parsedFile) return [];
+    return [
+      { value: '', label: 'Not mapped' },
+      ...parsedFile.headers.map((header, index) => ({
+        value: String(index),
+        label: header || `Column ${index + 1}`
+      }))
+    ];
+  }, [parsedFile]);
+
+  // Validated rows for the preview
+  const importedRows = useMemo(() => {
+    if (!parsedFile || !mapping) return [];
+    return buildImportedPassRows(parsedFile, mapping, eventId);
+  }, [parsedFile, mapping, eventId]);
+
+  const validRows = useMemo(() => importedRows.filter(row => row.isValid), [importedRows]);
+  const invalidCount = importedRows.length - validRows.length;
+
+  // Flattened rows for display in the preview table
+  const previewData = useMemo((): PreviewRow[] => {
+    return importedRows.map(row => ({
+      ...row.data,
+      rowNumber: row.rowNumber,
+      isValid: row.isValid,
+      errors: Object.values(row.errors).join(' ')
+    }));
+  }, [importedRows]);
+
+  const previewColumns: TableColumn[] = useMemo(() => [
+    { id: 'rowNumber', label: 'Row', field: 'rowNumber', sortable: true, width: 60 },
+    ...IMPORTABLE_PASS_FIELDS.map(field => ({
+      id: field,
+      label: FIELD_LABELS[field] || field,
+      field,
+      sortable: false
+    })),
+    {
+      id: 'errors',
+      label: 'Status',
+      field: 'errors',
+      sortable: false,
+      format: (value: string, row: PreviewRow) => (
+        <Typography
+          variant="body2"
+          color={row.isValid ? 'success.main' : 'error'}
+          data-testid={`import-row-status-${row.rowNumber}`}
+        >
+          {row.isValid ? 'Ready' : value}
+        </Typography>
+      )
+    }
+  ], []);
+
+  /**
+   * Resets the dialog to its initial state
+   */
+  const resetDialog = useCallback(() => {
+    setParsedFile(null);
+    setMapping(null);
+    setFileError(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  }, []);
+
+  /**
+   * Handles closing the dialog
+   */
+  const handleClose = useCallback(() => {
+    resetDialog();
+    onClose();
+  }, [resetDialog, onClose]);
+
+  /**
+   * Handles file selection by parsing the file and suggesting a column mapping
+   */
+  const handleFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setParsing(true);
+    setFileError(null);
+
+    try {
+      const parsed = await parseImportFile(file);
+      setParsedFile(parsed);
+      setMapping(suggestColumnMapping(parsed.headers));
+    } catch (err) {
+      setParsedFile(null);
+      setMapping(null);
+      setFileError(err instanceof Error ? err.message : 'Failed to read the selected file.');
+    } finally {
+      setParsing(false);
+    }
+  }, []);
+
+  /**
+   * Handles a change to the column mapped to a field
+   */
+  const handleMappingChange = useCallback((name: string, value: string) => {
+    setMapping(prev => prev && {
+      ...prev,
+      [name as ImportablePassField]: value === '' ? null : Number(value)
+    });
+  }, []);
+
+  /**
+   * Handles confirming the import of all valid rows
+   */
+  const handleImport = useCallback(() => {
+    onImport(validRows.map(row => row.data));
+    handleClose();
+  }, [onImport, validRows, handleClose]);
+
+  const actions = (
+    <>
+      <Button variant="text" onClick={handleClose} data-testid="import-cancel-button">
+        Cancel
+      </Button>
+      <Button
+        variant="contained"
+        color="primary"
+        onClick={handleImport}
+        disabled={validRows.length === 0}
+        data-testid="import-confirm-button"
+      >
+        Import {validRows.length} {validRows.length === 1 ? 'Pass' : 'Passes'}
+      </Button>
+    </>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      title="Import Passes from File"
+      onClose={handleClose}
+      actions={actions}
+      maxWidth="lg"
+    >
+      <Box data-testid="pass-import-dialog">
+        <FileSelectContainer>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.xlsx"
+            hidden
+            onChange={handleFileChange}
+            data-testid="import-file-input"
+          />
+          <Button
+            variant="outlined"
+            startIcon={<UploadFileIcon />}
+            onClick={() => fileInputRef.current?.click()}
+            loading={parsing}
+          >
+            Choose CSV or Excel File
+          </Button>
+          <Typography variant="body2" color="textSecondary">
+            {parsedFile
+              ? `${parsedFile.fileName} (${parsedFile.rows.length} rows)`
+              : 'The first row must contain column headers.'}
+          </Typography>
+        </FileSelectContainer>
+
+        {fileError && <Alert severity="error">{fileError}</Alert>}
+
+        {parsedFile && mapping && (
+          <>
+            <ImportSection>
+              <Typography variant="subtitle1" fontWeight="bold" gutterBottom>
+                Column Mapping
+              </Typography>
+              <Grid container spacing={2}>
+                {IMPORTABLE_PASS_FIELDS.map(field => (
+                  <Grid item xs={12} sm={6} md={4} key={field}>
+                    <Select
+                      name={field}
+                      label={FIELD_LABELS[field] || field}
+                      options={columnOptions}
+                      value={mapping[field] === null ? '' : String(mapping[field])}
+                      onChange={handleMappingChange}
+                      onBlur={() => {}}
+                    />
+                  </Grid>
+                ))}
+              </Grid>
+            </ImportSection>
+
+            <ImportSection>
+              <Typography variant="subtitle1" fontWeight="bold" gutterBottom>
+                Preview
+              </Typography>
+              {invalidCount > 0 && (
+                <Alert severity="warning">
+                  {invalidCount} of {importedRows.length} rows have errors and will not be imported.
+                </Alert>
+              )}
+              <Table
+                data={previewData}
+                columns={previewColumns}
+                rowKey="rowNumber"
+                emptyMessage="No rows to preview"
+                dense
+              />
+            </ImportSection>
+          </>
+        )}
+      </Box>
+    </Modal>
+  );
+};
+
+export default PassImportDialog;
@@ -0,0 +1,292 @@
+import React, { useState, useCallback, useRef } from 'react'; // ^18.2.0
+import {
+  Box,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  Tooltip,
+  Typography
+} from '@mui/material'; // ^5.14.0
+import { styled } from '@mui/material/styles'; // ^5.14.0
+import EditOutlinedIcon from '@mui/icons-material/EditOutlined'; // ^5.14.0
+import ContentCopyIcon from '@mui/icons-material/ContentCopy'; // ^5.14.0
+import FileDownloadIcon from '@mui/icons-material/FileDownload'; // ^5.14.0
+import FileUploadIcon from '@mui/icons-material/FileUpload'; // ^5.14.0
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline'; // ^5.14.0
+
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Alert from '../ui/Alert';
+import { PassTemplate, PassTemplatesHookResult } from '../../types/template.types';
+import { formatDate } from '../../utils/date-helpers';
+
+/**
+ * Props interface for the PassTemplatesDialog component
+ */
+export interface PassTemplatesDialogProps extends Omit<PassTemplatesHookResult, 'getTemplate' | 'saveTemplate'> {
+  /** Whether the dialog is open */
+  isOpen: boolean;
+  /** Handler to close the dialog */
+  onClose: () => void;
+}
+
+/**
+ * Styled container for the import and export buttons
+ */
+export const TemplateActionsContainer = styled(Box)(({ theme }) => ({
+  display: 'flex',
+  alignItems: 'center',
+  gap: theme.spacing(2),
+  marginBottom: theme.spacing(2),
+  flexWrap: 'wrap',
+}));
+
+/**
+ * Styled container for renaming a template in place
+ */
+export const RenameContainer = styled(Box)(({ theme }) => ({
+  display: 'flex',
+  alignItems: 'center',
+  gap: theme.spacing(1),
+  width: '100%',
+}));
+
+/**
+ * Styled container for the buttons of a template
+ */
+export const TemplateButtons = styled(Box)({
+  display: 'flex',
+  flexShrink: 0,
+});
+
+/**
+ * Describes the passes of a template
+ * @param template - The template
+ * @returns Summary of the template's passes, spot types and lots
+ */
+const describeTemplate = (template: PassTemplate): string => {
+  const lots = Array.from(new Set(template.rows.map(row => row.lotId).filter(Boolean)));
+  const spotTypes = Array.from(new Set(template.rows.map(row => row.spotType)));
+  const count = `${template.rows.length} ${template.rows.length === 1 ? 'pass' : 'passes'}`;
+
+  return [
+    count,
+    spotTypes.join(', '),
+    lots.length > 0 ? `${lots.length === 1 ? 'lot' : 'lots'} ${lots.join(', ')}` : '',
+    `updated ${formatDate(template.updatedAt)}`
+  ].filter(Boolean).join(' · ');
+};
+
+/**
+ * A dialog for managing the saved pass templates of the selected venue: renaming,
+ * duplicating and deleting them, and sharing them as JSON files.
+ *
+ * @param {PassTemplatesDialogProps} props - The component props
+ * @returns {JSX.Element} The rendered template management dialog
+ */
+const PassTemplatesDialog: React.FC<PassTemplatesDialogProps> = ({
+  isOpen,
+  onClose,
+  templates,
+  renameTemplate,
+  duplicateTemplate,
+  deleteTemplate,
+  exportTemplates,
+  importTemplates
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState<string>('');
+  const [renameError, setRenameError] = useState<string | null>(null);
+  const [importing, setImporting] = useState<boolean>(false);
+  const [message, setMessage] = useState<{ severity: 'success' | 'error'; text: string } | null>(null);
+
+  /**
+   * Stops renaming a template
+   */
+  const cancelRename = useCallback(() => {
+    setEditingId(null);
+    setEditingName('');
+    setRenameError(null);
+  }, []);
+
+  /**
+   * Handles closing the dialog
+   */
+  const handleClose = useCallback(() => {
+    cancelRename();
+    setMessage(null);
+    onClose();
+  }, [cancelRename, onClose]);
+
+  /**
+   * Starts renaming a template
+   */
+  const startRename = useCallback((template: PassTemplate) => {
+    setEditingId(template.id);
+    setEditingName(template.name);
+    setRenameError(null);
+  }, []);
+
+  /**
+   * Saves the new name of the template being renamed
+   */
+  const handleRename = useCallback(() => {
+    if (!editingId) return;
+
+    try {
+      renameTemplate(editingId, editingName);
+      cancelRename();
+    } catch (err) {
+      setRenameError(err instanceof Error ? err.message : 'Failed to rename the template.');
+    }
+  }, [editingId, editingName, renameTemplate, cancelRename]);
+
+  /**
+   * Handles file selection by adding the templates in the file
+   */
+  const handleFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setImporting(true);
+    setMessage(null);
+
+    try {
+      const added = await importTemplates(file);
+      setMessage({
+        severity: 'success',
+        text: `Imported ${added.length} ${added.length === 1 ? 'template' : 'templates'}: ${added.map(template => template.name).join(', ')}.`
+      });
+    } catch (err) {
+      setMessage({
+        severity: 'error',
+        text: err instanceof Error ? err.message : 'Failed to import the selected file.'
+      });
+    } finally {
+      setImporting(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  }, [importTemplates]);
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      title="Pass Templates"
+      onClose={handleClose}
+      maxWidth="md"
+      actions={
+        <Button variant="text" onClick={handleClose}>
+          Done
+        </Button>
+      }
+    >
+      <Box data-testid="pass-templates-dialog">
+        <TemplateActionsContainer>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            hidden
+            onChange={handleFileChange}
+            data-testid="template-file-input"
+          />
+          <Button
+            variant="outlined"
+            startIcon={<FileUploadIcon />}
+            onClick={() => fileInputRef.current?.click()}
+            loading={importing}
+          >
+            Import JSON
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<FileDownloadIcon />}
+            onClick={() => exportTemplates()}
+            disabled={templates.length === 0}
+            data-testid="export-templates-button"
+          >
+            Export All
+          </Button>
+        </TemplateActionsContainer>
+
+        {message && <Alert severity={message.severity}>{message.text}</Alert>}
+
+        {templates.length === 0 ? (
+          <Typography variant="body1" align="center" py={4}>
+            No templates saved for this venue yet. Use "Save as Template" in the batch form to create one.
+          </Typography>
+        ) : (
+          <List dense>
+            {templates.map(template => (
+              <ListItem key={template.id} divider data-testid={`template-${template.id}`}>
+                {editingId === template.id ? (
+                  <RenameContainer>
+                    <Input
+                      name="templateName"
+                      label="Template Name"
+                      type="text"
+                      value={editingName}
+                      onChange={(_name, value) => {
+                        setEditingName(value);
+                        setRenameError(null);
+                      }}
+                      onBlur={() => {}}
+                      error={renameError}
+                      autoFocus
+                      fullWidth
+                    />
+                    <Button variant="text" onClick={cancelRename}>
+                      Cancel
+                    </Button>
+                    <Button
+                      variant="contained"
+                      color="primary"
+                      onClick={handleRename}
+                      disabled={!editingName.trim()}
+                      data-testid="rename-template-confirm-button"
+                    >
+                      Save
+                    </Button>
+                  </RenameContainer>
+                ) : (
+                  <>
+                    <ListItemText primary={template.name} secondary={describeTemplate(template)} />
+                    <TemplateButtons>
+                      <Tooltip title="Rename">
+                        <IconButton aria-label={`Rename ${template.name}`} onClick={() => startRename(template)}>
+                          <EditOutlinedIcon />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Duplicate">
+                        <IconButton aria-label={`Duplicate ${template.name}`} onClick={() => duplicateTemplate(template.id)}>
+                          <ContentCopyIcon />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Export">
+                        <IconButton aria-label={`Export ${template.name}`} onClick={() => exportTemplates([template.id])}>
+                          <FileDownloadIcon />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Delete">
+                        <IconButton aria-label={`Delete ${template.name}`} onClick={() => deleteTemplate(template.id)}>
+                          <DeleteOutlineIcon />
+                        </IconButton>
+                      </Tooltip>
+                    </TemplateButtons>
+                  </>
+                )}
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </Box>
+    </Modal>
+  );
+};
+
+export default PassTemplatesDialog;
@@ -0,0 +1,109 @@
+import React, { useState, useCallback } from 'react'; // ^18.2.0
+import { Typography } from '@mui/material'; // ^5.14.0
+
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import { PassTemplate } from '../../types/template.types';
+
+/**
+ * Props interface for the SavePassTemplateDialog component
+ */
+export interface SavePassTemplateDialogProps {
+  /** Whether the dialog is open */
+  isOpen: boolean;
+  /** Number of passes in the batch that will be saved */
+  passCount: number;
+  /** Handler to close the dialog */
+  onClose: () => void;
+  /** Handler that saves the batch under the entered name, throwing if the name can't be used */
+  onSave: (name: string) => PassTemplate;
+}
+
+/**
+ * A dialog for saving the passes of the batch form as a named template.
+ * Barcodes are not saved, since every pass needs a new one.
+ *
+ * @param {SavePassTemplateDialogProps} props - The component props
+ * @returns {JSX.Element} The rendered save template dialog
+ */
+const SavePassTemplateDialog: React.FC<SavePassTemplateDialogProps> = ({
+  isOpen,
+  passCount,
+  onClose,
+  onSave
+}) => {
+  const [name, setName] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Handles closing the dialog
+   */
+  const handleClose = useCallback(() => {
+    setName('');
+    setError(null);
+    onClose();
+  }, [onClose]);
+
+  /**
+   * Handles saving the template
+   */
+  const handleSave = useCallback(() => {
+    try {
+      onSave(name);
+      handleClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the template.');
+    }
+  }, [name, onSave, handleClose]);
+
+  const actions = (
+    <>
+      <Button variant="text" onClick={handleClose}>
+        Cancel
+      </Button>
+      <Button
+        variant="contained"
+        color="primary"
+        onClick={handleSave}
+        disabled={!name.trim() || passCount === 0}
+        data-testid="save-template-confirm-button"
+      >
+        Save Template
+      </Button>
+    </>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      title="Save as Template"
+      onClose={handleClose}
+      actions={actions}
+      maxWidth="sm"
+    >
+      <Typography variant="body2" color="textSecondary" gutterBottom>
+        Saves the account, customer, spot type and lot of {passCount} {passCount === 1 ? 'pass' : 'passes'}.
+        Barcodes are not saved.
+      </Typography>
+      <Input
+        name="templateName"
+        label="Template Name"
+        type="text"
+        value={name}
+        onChange={(_fieldName, value) => {
+          setName(value);
+          setError(null);
+        }}
+        onBlur={() => {}}
+        error={error}
+        placeholder="e.g., Sponsor VIP - Lot L-100"
+        required
+        autoFocus
+        fullWidth
+      />
+    </Modal>
+  );
+};
+
+export default SavePassTemplateDialog;
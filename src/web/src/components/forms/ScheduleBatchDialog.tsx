@@ -0,0 +1,159 @@
+import React, { useState, useCallback } from 'react'; // ^18.2.0
+import { Typography } from '@mui/material'; // ^5.14.0
+
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Select from '../ui/Select';
+import { Event } from '../../types/event.types';
+import { ScheduledJob } from '../../types/schedule.types';
+import { passScheduleService } from '../../services/schedule/passScheduleService';
+import { formatDateTime } from '../../utils/date-helpers';
+
+/**
+ * Props interface for the ScheduleBatchDialog component
+ */
+export interface ScheduleBatchDialogProps {
+  /** Whether the dialog is open */
+  isOpen: boolean;
+  /** The event the passes are for, or null if its details aren't loaded */
+  event: Event | null;
+  /** Number of passes in the batch that will be scheduled */
+  passCount: number;
+  /** Handler to close the dialog */
+  onClose: () => void;
+  /**
+   * Handler that schedules the batch, throwing if it can't be scheduled. Returns null
+   * when the user is asked to accept overbooking first.
+   */
+  onSchedule: (hoursBeforeEvent: number) => ScheduledJob | null;
+}
+
+/**
+ * Common times before an event to issue passes, in hours
+ */
+const PRESET_OPTIONS = [
+  { value: '24', label: '24 hours before' },
+  { value: '48', label: '48 hours before' },
+  { value: '72', label: '72 hours before' },
+  { value: '168', label: '1 week before' },
+  { value: 'custom', label: 'Custom' }
+];
+
+/**
+ * A dialog for scheduling the passes of the batch form to be created a set number of
+ * hours before the event, showing when the batch will run.
+ *
+ * @param {ScheduleBatchDialogProps} props - The component props
+ * @returns {JSX.Element} The rendered schedule batch dialog
+ */
+const ScheduleBatchDialog: React.FC<ScheduleBatchDialogProps> = ({
+  isOpen,
+  event,
+  passCount,
+  onClose,
+  onSchedule
+}) => {
+  const [preset, setPreset] = useState<string>('72');
+  const [customHours, setCustomHours] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+
+  const hoursBeforeEvent = preset === 'custom' ? Number(customHours) : Number(preset);
+  const hasHours = preset !== 'custom' || (customHours.trim() !== '' && Number.isFinite(hoursBeforeEvent));
+  const runAt = event && hasHours ? passScheduleService.getRunAt(event.date, hoursBeforeEvent) : null;
+
+  /**
+   * Handles closing the dialog
+   */
+  const handleClose = useCallback(() => {
+    setPreset('72');
+    setCustomHours('');
+    setError(null);
+    onClose();
+  }, [onClose]);
+
+  /**
+   * Handles scheduling the batch
+   */
+  const handleSchedule = useCallback(() => {
+    try {
+      onSchedule(hoursBeforeEvent);
+      handleClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to schedule the passes.');
+    }
+  }, [hoursBeforeEvent, onSchedule, handleClose]);
+
+  const actions = (
+    <>
+      <Button variant="text" onClick={handleClose}>
+        Cancel
+      </Button>
+      <Button
+        variant="contained"
+        color="primary"
+        onClick={handleSchedule}
+        disabled={!event || !hasHours || passCount === 0}
+        data-testid="schedule-batch-confirm-button"
+      >
+        Schedule
+      </Button>
+    </>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      title="Schedule Passes"
+      onClose={handleClose}
+      actions={actions}
+      maxWidth="sm"
+    >
+      <Typography variant="body2" color="textSecondary" gutterBottom>
+        Creates {passCount} {passCount === 1 ? 'pass' : 'passes'} automatically before the event.
+        The app must be open for the batch to run; if it is closed at that time, the batch runs
+        when the app is next opened.
+      </Typography>
+      <Select
+        name="schedulePreset"
+        label="Issue passes"
+        options={PRESET_OPTIONS}
+        value={preset}
+        onChange={(_name, value) => {
+          setPreset(value);
+          setError(null);
+        }}
+        onBlur={() => {}}
+        fullWidth
+      />
+      {preset === 'custom' && (
+        <Input
+          name="hoursBeforeEvent"
+          label="Hours before the event"
+          type="number"
+          value={customHours}
+          onChange={(_name, value) => {
+            setCustomHours(value);
+            setError(null);
+          }}
+          onBlur={() => {}}
+          autoFocus
+          fullWidth
+        />
+      )}
+      {event && (
+        <Typography variant="body2" data-testid="schedule-run-at">
+          Event starts {formatDateTime(event.date)}.
+          {runAt && ` Passes will be created ${formatDateTime(runAt)}.`}
+        </Typography>
+      )}
+      {error && (
+        <Typography variant="body2" color="error" role="alert">
+          {error}
+        </Typography>
+      )}
+    </Modal>
+  );
+};
+
+export default ScheduleBatchDialog;
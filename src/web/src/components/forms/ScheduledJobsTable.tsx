@@ -0,0 +1,164 @@
+import React from 'react'; // ^18.2.0
+import {
+  Box,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material'; // ^5.14.0
+import PlayArrowIcon from '@mui/icons-material/PlayArrow'; // ^5.14.0
+
+import Button from '../ui/Button';
+import { ScheduledJob, ScheduledJobStatus } from '../../types/schedule.types';
+import { formatDateTime } from '../../utils/date-helpers';
+
+/**
+ * Props interface for the ScheduledJobsTable component
+ */
+export interface ScheduledJobsTableProps {
+  /** Scheduled batches, soonest first */
+  jobs: ScheduledJob[];
+  /** Handler to run a batch now */
+  onRunNow: (jobId: string) => void;
+  /** Handler to remove a batch, cancelling it if it hasn't run */
+  onRemove: (jobId: string) => void;
+  /** ID of the batch being run from this table, if any */
+  runningJobId?: string | null;
+}
+
+/**
+ * Labels and chip colors for the state of a scheduled batch
+ */
+const STATUS_LABELS: Record<ScheduledJobStatus, { label: string; color: 'default' | 'info' | 'success' | 'error' | 'warning' }> = {
+  [ScheduledJobStatus.SCHEDULED]: { label: 'Scheduled', color: 'default' },
+  [ScheduledJobStatus.RUNNING]: { label: 'Running', color: 'info' },
+  [ScheduledJobStatus.COMPLETED]: { label: 'Completed', color: 'success' },
+  [ScheduledJobStatus.FAILED]: { label: 'Failed', color: 'error' },
+  [ScheduledJobStatus.MISSED]: { label: 'Missed', color: 'warning' }
+};
+
+/**
+ * Describes how long before the event a batch runs
+ * @param hours - Hours before the event
+ * @returns Readable offset, in days when it is a whole number of days
+ */
+const describeOffset = (hours: number): string => {
+  if (hours >= 24 && hours % 24 === 0) {
+    const days = hours / 24;
+    return `${days} ${days === 1 ? 'day' : 'days'} before`;
+  }
+  return `${hours} ${hours === 1 ? 'hour' : 'hours'} before`;
+};
+
+/**
+ * Describes what happened when a batch ran
+ * @param job - The scheduled batch
+ * @returns Outcome text, or an empty string if the batch hasn't run
+ */
+const describeOutcome = (job: ScheduledJob): string => {
+  if (job.error) {
+    return job.error;
+  }
+  if (!job.result) {
+    return '';
+  }
+
+  const rejected = job.result.failed.map(failure => `${failure.barcode}: ${failure.error.message}`);
+  return [
+    `${job.result.totalSuccess} created`,
+    job.result.totalFailed > 0 ? `${job.result.totalFailed} rejected (${rejected.join('; ')})` : ''
+  ].filter(Boolean).join(', ');
+};
+
+/**
+ * A table of scheduled pass batches showing when each runs relative to its event,
+ * its state and outcome, with buttons to run it now or remove it.
+ *
+ * @param {ScheduledJobsTableProps} props - The component props
+ * @returns {JSX.Element} The rendered scheduled batches table
+ */
+const ScheduledJobsTable: React.FC<ScheduledJobsTableProps> = ({
+  jobs,
+  onRunNow,
+  onRemove,
+  runningJobId = null
+}) => (
+  <TableContainer data-testid="scheduled-jobs-table">
+    <Table size="small">
+      <TableHead>
+        <TableRow>
+          <TableCell>Event</TableCell>
+          <TableCell>Passes</TableCell>
+          <TableCell>Runs</TableCell>
+          <TableCell>Status</TableCell>
+          <TableCell>Outcome</TableCell>
+          <TableCell align="right">Actions</TableCell>
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {jobs.map(job => {
+          const { label, color } = STATUS_LABELS[job.status];
+          const canRun = job.status === ScheduledJobStatus.SCHEDULED || job.status === ScheduledJobStatus.MISSED;
+
+          return (
+            <TableRow key={job.id} data-testid={`scheduled-job-${job.id}`}>
+              <TableCell>
+                <Typography variant="body2">{job.eventName || job.eventId}</Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {formatDateTime(job.eventDate)}
+                </Typography>
+              </TableCell>
+              <TableCell>{job.requests.length}</TableCell>
+              <TableCell>
+                <Typography variant="body2">{formatDateTime(job.startedAt || job.runAt)}</Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {describeOffset(job.hoursBeforeEvent)}
+                </Typography>
+              </TableCell>
+              <TableCell>
+                <Chip size="small" label={label} color={color} variant="outlined" />
+              </TableCell>
+              <TableCell>
+                <Typography variant="body2" color={job.error ? 'error' : 'text.primary'}>
+                  {describeOutcome(job)}
+                </Typography>
+              </TableCell>
+              <TableCell align="right">
+                <Box display="flex" justifyContent="flex-end" gap={1}>
+                  {canRun && (
+                    <Button
+                      variant="outlined"
+                      size="small"
+                      startIcon={<PlayArrowIcon />}
+                      onClick={() => onRunNow(job.id)}
+                      loading={runningJobId === job.id}
+                      disabled={runningJobId !== null}
+                      data-testid={`run-scheduled-job-${job.id}`}
+                    >
+                      Run Now
+                    </Button>
+                  )}
+                  <Button
+                    variant="text"
+                    size="small"
+                    onClick={() => onRemove(job.id)}
+                    disabled={job.status === ScheduledJobStatus.RUNNING || runningJobId === job.id}
+                    data-testid={`remove-scheduled-job-${job.id}`}
+                  >
+                    {job.status === ScheduledJobStatus.SCHEDULED ? 'Cancel' : 'Remove'}
+                  </Button>
+                </Box>
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  </TableContainer>
+);
+
+export default ScheduledJobsTable;
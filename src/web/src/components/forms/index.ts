@@ -12,17 +12,37 @@
 import FormField from './FormField';
 import FormValidationMessage from './FormValidationMessage';
 import BatchFormControls from './BatchFormControls';
+import BatchProgressPanel from './BatchProgressPanel';
 import PassFormItem from './PassFormItem';
 import EventSelectionForm from './EventSelectionForm';
 import PassCreationForm from './PassCreationForm';
+import PassImportDialog from './PassImportDialog';
+import BarcodeGeneratorDialog from './BarcodeGeneratorDialog';
+import InterruptedBatchJobs from './InterruptedBatchJobs';
+import OverbookingDialog from './OverbookingDialog';
+import AccountAutocompleteField from './AccountAutocompleteField';
+import SavePassTemplateDialog from './SavePassTemplateDialog';
+import PassTemplatesDialog from './PassTemplatesDialog';
+import ScheduleBatchDialog from './ScheduleBatchDialog';
+import ScheduledJobsTable from './ScheduledJobsTable';
 
 // Component Props/Interfaces
 import { FormFieldProps } from './FormField';
 import { FormValidationMessageProps } from './FormValidationMessage';
 import { BatchFormControlsProps } from './BatchFormControls';
+import { BatchProgressPanelProps } from './BatchProgressPanel';
 import { PassFormItemProps } from './PassFormItem';
 import { EventSelectionFormProps } from './EventSelectionForm';
 import { PassCreationFormProps } from './PassCreationForm';
+import { PassImportDialogProps } from './PassImportDialog';
+import { BarcodeGeneratorDialogProps } from './BarcodeGeneratorDialog';
+import { InterruptedBatchJobsProps } from './InterruptedBatchJobs';
+import { OverbookingDialogProps } from './OverbookingDialog';
+import { AccountAutocompleteFieldProps } from './AccountAutocompleteField';
+import { SavePassTemplateDialogProps } from './SavePassTemplateDialog';
+import { PassTemplatesDialogProps } from './PassTemplatesDialog';
+import { ScheduleBatchDialogProps } from './ScheduleBatchDialog';
+import { ScheduledJobsTableProps } from './ScheduledJobsTable';
 
 // Export all components and their props for use throughout the application
 export {
@@ -30,15 +50,37 @@ export {
   FormField,
   FormValidationMessage,
   BatchFormControls,
+  BatchProgressPanel,
   PassFormItem,
   EventSelectionForm,
   PassCreationForm,
-  
-  // Component Props/Interfaces
+  PassImportDialog,
+  BarcodeGeneratorDialog,
+  InterruptedBatchJobs,
+  OverbookingDialog,
+  AccountAutocompleteField,
+  SavePassTemplateDialog,
+  PassTemplatesDialog,
+  ScheduleBatchDialog,
+  ScheduledJobsTable
+};
+
+// Component Props/Interfaces
+export type {
   FormFieldProps,
   FormValidationMessageProps,
   BatchFormControlsProps,
+  BatchProgressPanelProps,
   PassFormItemProps,
   EventSelectionFormProps,
-  PassCreationFormProps
+  PassCreationFormProps,
+  PassImportDialogProps,
+  BarcodeGeneratorDialogProps,
+  InterruptedBatchJobsProps,
+  OverbookingDialogProps,
+  AccountAutocompleteFieldProps,
+  SavePassTemplateDialogProps,
+  PassTemplatesDialogProps,
+  ScheduleBatchDialogProps,
+  ScheduledJobsTableProps
 };
\ No newline at end of file
@@ -0,0 +1,157 @@
+import React, { useState, useCallback } from 'react'; // v18.2.0
+import { Chip, Tooltip } from '@mui/material'; // v5.14.0
+import { styled } from '@mui/material/styles'; // v5.14.0
+import VerifiedUserIcon from '@mui/icons-material/VerifiedUser'; // v5.14.0
+import HourglassEmptyIcon from '@mui/icons-material/HourglassEmpty'; // v5.14.0
+import GppBadIcon from '@mui/icons-material/GppBad'; // v5.14.0
+import TimerOffIcon from '@mui/icons-material/TimerOff'; // v5.14.0
+import BlockIcon from '@mui/icons-material/Block'; // v5.14.0
+import LinkOffIcon from '@mui/icons-material/LinkOff'; // v5.14.0
+import HelpOutlineIcon from '@mui/icons-material/HelpOutline'; // v5.14.0
+
+import ApiKeyPrompt from '../feedback/ApiKeyPrompt';
+import { useApiKeyHealth } from '../../hooks/useApiKeyHealth';
+import { ApiKeyStatus } from '../../types/auth.types';
+import { formatDateTime } from '../../utils/date-helpers';
+
+/**
+ * Props interface for the ApiKeyStatusIndicator component
+ */
+export interface ApiKeyStatusIndicatorProps {
+  /** Whether to render a compact version for small screens */
+  compact?: boolean;
+}
+
+/**
+ * Label, icon, color and explanation shown for each status of the API key
+ */
+const STATUS_DISPLAY: Record<ApiKeyStatus, {
+  label: string;
+  icon: React.ReactElement;
+  color: 'default' | 'error' | 'warning';
+  description: string;
+}> = {
+  [ApiKeyStatus.UNKNOWN]: {
+    label: 'Key not checked',
+    icon: <HelpOutlineIcon />,
+    color: 'default',
+    description: 'The API key has not been verified yet.'
+  },
+  [ApiKeyStatus.CHECKING]: {
+    label: 'Checking key',
+    icon: <HourglassEmptyIcon />,
+    color: 'default',
+    description: 'Verifying the API key with ParkHub.'
+  },
+  [ApiKeyStatus.VALID]: {
+    label: 'Key verified',
+    icon: <VerifiedUserIcon />,
+    color: 'default',
+    description: 'ParkHub accepted the API key for this venue.'
+  },
+  [ApiKeyStatus.INVALID]: {
+    label: 'Key invalid',
+    icon: <GppBadIcon />,
+    color: 'error',
+    description: 'ParkHub does not recognise the API key. Click to enter another key.'
+  },
+  [ApiKeyStatus.EXPIRED]: {
+    label: 'Key expired',
+    icon: <TimerOffIcon />,
+    color: 'error',
+    description: 'The API key has expired. Click to enter a new key.'
+  },
+  [ApiKeyStatus.FORBIDDEN]: {
+    label: 'Venue not allowed',
+    icon: <BlockIcon />,
+    color: 'warning',
+    description: 'The API key is valid but may not access this venue. Choose another venue or profile.'
+  },
+  [ApiKeyStatus.UNREACHABLE]: {
+    label: 'Key not checked',
+    icon: <LinkOffIcon />,
+    color: 'warning',
+    description: 'ParkHub could not be reached, so the API key could not be verified.'
+  },
+  [ApiKeyStatus.UNVERIFIED]: {
+    label: 'Key not checked',
+    icon: <HelpOutlineIcon />,
+    color: 'warning',
+    description: 'ParkHub answered with an error, so the API key could not be verified.'
+  }
+};
+
+/**
+ * Status chip styled for display on the primary-colored app bar
+ */
+const StatusChip = styled(Chip)(({ theme }) => ({
+  color: theme.palette.primary.contrastText,
+  borderColor: 'rgba(255, 255, 255, 0.5)',
+  '& .MuiChip-icon': {
+    color: theme.palette.primary.contrastText,
+  },
+}));
+
+/**
+ * API key status indicator for the application header.
+ * Shows whether ParkHub accepts the API key for the selected venue and when it last did.
+ * Clicking it verifies the key again, or asks for a new key if ParkHub rejected this one.
+ *
+ * @param {ApiKeyStatusIndicatorProps} props - The component props
+ * @returns {JSX.Element | null} The rendered indicator, or nothing when there is no API key
+ */
+const ApiKeyStatusIndicator: React.FC<ApiKeyStatusIndicatorProps> = ({ compact = false }) => {
+  const { health, verify } = useApiKeyHealth();
+  const [isPromptOpen, setIsPromptOpen] = useState<boolean>(false);
+
+  const needsNewKey = health.status === ApiKeyStatus.INVALID || health.status === ApiKeyStatus.EXPIRED;
+
+  /**
+   * Asks for a new key if the key was rejected, otherwise verifies it again
+   */
+  const handleClick = useCallback(() => {
+    if (needsNewKey) {
+      setIsPromptOpen(true);
+    } else {
+      verify();
+    }
+  }, [needsNewKey, verify]);
+
+  // There is nothing to report until a key has been entered
+  if (health.status === ApiKeyStatus.UNKNOWN) {
+    return null;
+  }
+
+  const display = STATUS_DISPLAY[health.status];
+  const lastVerified = health.lastVerifiedAt
+    ? `Last verified ${formatDateTime(new Date(health.lastVerifiedAt))}.`
+    : 'Not verified since the key was entered.';
+  const tooltip = `${display.description} ${lastVerified}${needsNewKey ? '' : ' Click to check again.'}`;
+
+  return (
+    <>
+      <Tooltip title={tooltip}>
+        <StatusChip
+          icon={display.icon}
+          label={compact ? undefined : display.label}
+          color={display.color}
+          variant={display.color === 'default' ? 'outlined' : 'filled'}
+          size="small"
+          onClick={handleClick}
+          sx={{ mr: compact ? 1 : 2 }}
+          aria-label={`API key status: ${display.label}. ${lastVerified}`}
+          data-testid="api-key-status-indicator"
+        />
+      </Tooltip>
+
+      <ApiKeyPrompt
+        isOpen={isPromptOpen}
+        onClose={() => setIsPromptOpen(false)}
+        onSuccess={() => setIsPromptOpen(false)}
+        errorMessage={needsNewKey ? health.error?.message || '' : ''}
+      />
+    </>
+  );
+};
+
+export default ApiKeyStatusIndicator;
@@ -0,0 +1,119 @@
+import React, { useState, useCallback } from 'react'; // v18.2.0
+import { Badge, Chip, Tooltip } from '@mui/material'; // v5.14.0
+import { styled } from '@mui/material/styles'; // v5.14.0
+import CloudDoneIcon from '@mui/icons-material/CloudDone'; // v5.14.0
+import CloudOffIcon from '@mui/icons-material/CloudOff'; // v5.14.0
+import CloudSyncIcon from '@mui/icons-material/CloudSync'; // v5.14.0
+
+import OfflineConflictReport from '../feedback/OfflineConflictReport';
+import { useOfflineContext } from '../../context/OfflineContext';
+
+/**
+ * Props interface for the ConnectivityIndicator component
+ */
+export interface ConnectivityIndicatorProps {
+  /** Whether to render a compact version for small screens */
+  compact?: boolean;
+}
+
+/**
+ * Status chip styled for display on the primary-colored app bar
+ */
+const StatusChip = styled(Chip)(({ theme }) => ({
+  color: theme.palette.primary.contrastText,
+  borderColor: 'rgba(255, 255, 255, 0.5)',
+  '& .MuiChip-icon': {
+    color: theme.palette.primary.contrastText,
+  },
+}));
+
+/**
+ * Connectivity indicator for the application header.
+ * Shows whether the app is online, offline or sending queued passes, with the number
+ * of passes waiting to be sent. Clicking it opens the report of queued passes the
+ * API rejected.
+ *
+ * @param {ConnectivityIndicatorProps} props - The component props
+ * @returns {JSX.Element} The rendered connectivity indicator
+ */
+const ConnectivityIndicator: React.FC<ConnectivityIndicatorProps> = ({ compact = false }) => {
+  const {
+    isOnline,
+    isSyncing,
+    queuedPasses,
+    conflicts,
+    retryConflict,
+    dismissConflict
+  } = useOfflineContext();
+
+  const [isReportOpen, setIsReportOpen] = useState<boolean>(false);
+
+  /**
+   * Queues a conflicting pass again and sends it
+   */
+  const handleRetry = useCallback((id: string) => {
+    retryConflict(id);
+  }, [retryConflict]);
+
+  /**
+   * Removes a conflicting pass without creating it
+   */
+  const handleDismiss = useCallback((id: string) => {
+    dismissConflict(id);
+  }, [dismissConflict]);
+
+  let label = 'Online';
+  let icon = <CloudDoneIcon />;
+
+  if (isSyncing) {
+    label = 'Syncing';
+    icon = <CloudSyncIcon />;
+  } else if (!isOnline) {
+    label = 'Offline';
+    icon = <CloudOffIcon />;
+  }
+
+  if (queuedPasses.length > 0) {
+    label = `${label} · ${queuedPasses.length} queued`;
+  }
+
+  const tooltip = conflicts.length > 0
+    ? `${conflicts.length} queued pass${conflicts.length === 1 ? ' was' : 'es were'} rejected. Click to review.`
+    : isOnline
+      ? 'Connected to ParkHub'
+      : 'Offline. New passes will be created when the connection is restored.';
+
+  return (
+    <>
+      <Tooltip title={tooltip}>
+        <Badge
+          badgeContent={conflicts.length}
+          color="error"
+          overlap="rectangular"
+          sx={{ mr: compact ? 1 : 2 }}
+        >
+          <StatusChip
+            icon={icon}
+            label={compact ? queuedPasses.length || undefined : label}
+            variant="outlined"
+            size="small"
+            onClick={() => setIsReportOpen(true)}
+            aria-label={`Connection status: ${label}`}
+            data-testid="connectivity-indicator"
+          />
+        </Badge>
+      </Tooltip>
+
+      <OfflineConflictReport
+        isOpen={isReportOpen}
+        conflicts={conflicts}
+        onRetry={handleRetry}
+        onDismiss={handleDismiss}
+        onClose={() => setIsReportOpen(false)}
+        isSyncing={isSyncing}
+      />
+    </>
+  );
+};
+
+export default ConnectivityIndicator;
@@ -5,6 +5,8 @@ import {
   Typography, 
   IconButton, 
   Box, 
+  Chip, 
+  Tooltip, 
   useTheme, 
   useMediaQuery 
 } from '@mui/material'; // v5.14.0
@@ -14,12 +16,22 @@ import DashboardIcon from '@mui/icons-material/Dashboard'; // v5.14.0
 import EventIcon from '@mui/icons-material/Event'; // v5.14.0
 import ListAltIcon from '@mui/icons-material/ListAlt'; // v5.14.0
 import AddIcon from '@mui/icons-material/Add'; // v5.14.0
+import SearchIcon from '@mui/icons-material/Search'; // v5.14.0
+import PeopleIcon from '@mui/icons-material/People'; // v5.14.0
+import ContentCopyIcon from '@mui/icons-material/ContentCopy'; // v5.14.0
+import ScheduleIcon from '@mui/icons-material/Schedule'; // v5.14.0
+import SettingsIcon from '@mui/icons-material/Settings'; // v5.14.0
 import { useNavigate } from 'react-router-dom'; // v6.x
 
 import { ROUTES } from '../../constants/routes';
 import { useApiKeyContext } from '../../context/ApiKeyContext';
 import { useNotificationContext } from '../../context/NotificationContext';
+import { isMockApiRunning } from '../../services/mock/mockApiStatus';
 import Button from '../ui/Button';
+import LandmarkSwitcher from './LandmarkSwitcher';
+import ProfileSwitcher from './ProfileSwitcher';
+import ConnectivityIndicator from './ConnectivityIndicator';
+import ApiKeyStatusIndicator from './ApiKeyStatusIndicator';
 
 /**
  * Interface for header component props
@@ -90,8 +102,8 @@ const NavButton = styled(Button)(({ theme }) => ({
 /**
  * Main header component that provides the application's top navigation bar
  * 
- * This component renders the application logo and navigation links, with
- * responsive behavior for mobile devices showing a hamburger menu instead.
+ * This component renders the application logo, the API key profile and venue switchers,
+ * connection and API key status and navigation links, with responsive behavior for mobile devices showing a hamburger menu instead.
  * It also handles navigation with API key validation for protected routes.
  * 
  * @param props Component props including onMenuToggle callback
@@ -117,7 +129,7 @@ const Header: React.FC<HeaderProps> = ({ onMenuToggle }) => {
    */
   const handleNavigation = (path: string) => {
     // Check if route requires authentication
-    const requiresAuth = path !== ROUTES.DASHBOARD;
+    const requiresAuth = path !== ROUTES.DASHBOARD && path !== ROUTES.SETTINGS;
     
     if (requiresAuth && !hasApiKey()) {
       // Show notification if API key is required but not available
@@ -142,9 +154,25 @@ const Header: React.FC<HeaderProps> = ({ onMenuToggle }) => {
           </Typography>
         </LogoContainer>
         
+        {/* Reminder that requests are answered by the mock API, not ParkHub; shown once its worker has started */}
+        {isMockApiRunning() && (
+          <Tooltip title="Training mode: requests are answered by a mock ParkHub API in this browser and no real passes are created">
+            <Chip
+              label="Mock API"
+              size="small"
+              color="warning"
+              data-testid="mock-api-indicator"
+            />
+          </Tooltip>
+        )}
+        
         {/* Mobile menu button or desktop navigation based on screen size */}
         {isMobile ? (
-          <Box display="flex" flexGrow={1} justifyContent="flex-end">
+          <Box display="flex" flexGrow={1} justifyContent="flex-end" alignItems="center">
+            <ConnectivityIndicator compact />
+            <ApiKeyStatusIndicator compact />
+            <ProfileSwitcher compact />
+            <LandmarkSwitcher compact />
             <IconButton
               color="inherit"
               aria-label="open menu"
@@ -157,6 +185,18 @@ const Header: React.FC<HeaderProps> = ({ onMenuToggle }) => {
           </Box>
         ) : (
           <NavigationContainer>
+            {/* Connection status and offline queue */}
+            <ConnectivityIndicator />
+            
+            {/* Whether ParkHub accepts the API key, and when it last did */}
+            <ApiKeyStatusIndicator />
+            
+            {/* API key profile switcher */}
+            <ProfileSwitcher />
+            
+            {/* Venue (landmark) switcher */}
+            <LandmarkSwitcher />
+            
             {/* Dashboard navigation button */}
             <NavButton
               startIcon={<DashboardIcon />}
@@ -187,6 +227,46 @@ const Header: React.FC<HeaderProps> = ({ onMenuToggle }) => {
               Passes
             </NavButton>
             
+            {/* Pass search navigation button */}
+            <NavButton
+              startIcon={<SearchIcon />}
+              onClick={() => handleNavigation(ROUTES.SEARCH)}
+              variant="text"
+              aria-label="Search"
+            >
+              Search
+            </NavButton>
+            
+            {/* Accounts navigation button */}
+            <NavButton
+              startIcon={<PeopleIcon />}
+              onClick={() => handleNavigation(ROUTES.ACCOUNTS)}
+              variant="text"
+              aria-label="Accounts"
+            >
+              Accounts
+            </NavButton>
+            
+            {/* Clone passes navigation button */}
+            <NavButton
+              startIcon={<ContentCopyIcon />}
+              onClick={() => handleNavigation(ROUTES.CLONE_PASSES)}
+              variant="text"
+              aria-label="Clone Passes"
+            >
+              Clone
+            </NavButton>
+            
+            {/* Schedule navigation button */}
+            <NavButton
+              startIcon={<ScheduleIcon />}
+              onClick={() => handleNavigation(ROUTES.SCHEDULE)}
+              variant="text"
+              aria-label="Schedule"
+            >
+              Schedule
+            </NavButton>
+            
             {/* Create Passes navigation button */}
             <NavButton
               startIcon={<AddIcon />}
@@ -196,6 +276,16 @@ const Header: React.FC<HeaderProps> = ({ onMenuToggle }) => {
             >
               Create Passes
             </NavButton>
+            
+            {/* Settings navigation button */}
+            <NavButton
+              startIcon={<SettingsIcon />}
+              onClick={() => handleNavigation(ROUTES.SETTINGS)}
+              variant="text"
+              aria-label="Settings"
+            >
+              Settings
+            </NavButton>
           </NavigationContainer>
         )}
       </Toolbar>
@@ -0,0 +1,255 @@
+import React, { useState, useCallback } from 'react'; // v18.2.0
+import {
+  Box,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Select as MuiSelect,
+  SelectChangeEvent,
+  Tooltip,
+  Typography
+} from '@mui/material'; // v5.14.0
+import { styled } from '@mui/material/styles'; // v5.14.0
+import PlaceIcon from '@mui/icons-material/Place'; // v5.14.0
+import SettingsIcon from '@mui/icons-material/Settings'; // v5.14.0
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline'; // v5.14.0
+
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import { useLandmarkContext } from '../../context/LandmarkContext';
+
+/**
+ * Props interface for the LandmarkSwitcher component
+ */
+export interface LandmarkSwitcherProps {
+  /** Whether to render a compact version for small screens */
+  compact?: boolean;
+}
+
+/**
+ * Container for the venue select and manage button
+ */
+const SwitcherContainer = styled(Box)(({ theme }) => ({
+  display: 'flex',
+  alignItems: 'center',
+  gap: theme.spacing(0.5),
+  marginRight: theme.spacing(2),
+}));
+
+/**
+ * Venue select styled for display on the primary-colored app bar
+ */
+const VenueSelect = styled(MuiSelect)(({ theme }) => ({
+  color: theme.palette.primary.contrastText,
+  minWidth: 160,
+  '& .MuiOutlinedInput-notchedOutline': {
+    borderColor: 'rgba(255, 255, 255, 0.5)',
+  },
+  '&:hover .MuiOutlinedInput-notchedOutline': {
+    borderColor: theme.palette.primary.contrastText,
+  },
+  '& .MuiSvgIcon-root': {
+    color: theme.palette.primary.contrastText,
+  },
+}));
+
+/**
+ * Container for the add venue form inside the manage dialog
+ */
+const AddVenueForm = styled(Box)(({ theme }) => ({
+  display: 'flex',
+  flexDirection: 'column',
+  gap: theme.spacing(2),
+  marginTop: theme.spacing(2),
+}));
+
+/**
+ * A venue (landmark) switcher for the application header.
+ * Switching venues changes the landmark used for all event and pass requests;
+ * the manage dialog lets users add, rename and remove venues.
+ *
+ * @param {LandmarkSwitcherProps} props - The component props
+ * @returns {JSX.Element} The rendered landmark switcher
+ */
+const LandmarkSwitcher: React.FC<LandmarkSwitcherProps> = ({ compact = false }) => {
+  const {
+    landmarks,
+    selectedLandmarkId,
+    selectLandmark,
+    saveLandmark,
+    removeLandmark,
+    validateLandmarkId
+  } = useLandmarkContext();
+
+  const [isManageOpen, setIsManageOpen] = useState<boolean>(false);
+  const [newName, setNewName] = useState<string>('');
+  const [newId, setNewId] = useState<string>('');
+  const [idError, setIdError] = useState<string | null>(null);
+
+  /**
+   * Handles selecting another venue
+   */
+  const handleChange = useCallback((event: SelectChangeEvent<unknown>) => {
+    selectLandmark(event.target.value as string);
+  }, [selectLandmark]);
+
+  /**
+   * Handles changes to the add venue form fields
+   */
+  const handleFieldChange = useCallback((name: string, value: string) => {
+    if (name === 'landmarkName') {
+      setNewName(value);
+    } else {
+      setNewId(value.trim());
+      setIdError(null);
+    }
+  }, []);
+
+  /**
+   * Validates the landmark ID when the field loses focus
+   */
+  const handleFieldBlur = useCallback((name: string) => {
+    if (name === 'landmarkId' && newId && !validateLandmarkId(newId)) {
+      setIdError('Landmark ID may only contain letters, numbers and dashes');
+    }
+  }, [newId, validateLandmarkId]);
+
+  /**
+   * Saves the new venue and selects it
+   */
+  const handleAdd = useCallback(() => {
+    if (!validateLandmarkId(newId)) {
+      setIdError('Landmark ID may only contain letters, numbers and dashes');
+      return;
+    }
+
+    if (saveLandmark({ id: newId, name: newName })) {
+      selectLandmark(newId);
+      setNewName('');
+      setNewId('');
+    }
+  }, [newId, newName, saveLandmark, selectLandmark, validateLandmarkId]);
+
+  /**
+   * Closes the manage dialog and resets the form
+   */
+  const handleClose = useCallback(() => {
+    setIsManageOpen(false);
+    setNewName('');
+    setNewId('');
+    setIdError(null);
+  }, []);
+
+  return (
+    <SwitcherContainer data-testid="landmark-switcher">
+      {!compact && <PlaceIcon fontSize="small" aria-hidden="true" />}
+      <VenueSelect
+        value={selectedLandmarkId}
+        onChange={handleChange}
+        size="small"
+        inputProps={{ 'aria-label': 'Select venue', 'data-testid': 'landmark-select' }}
+        sx={compact ? { minWidth: 120 } : undefined}
+      >
+        {landmarks.map(landmark => (
+          <MenuItem key={landmark.id} value={landmark.id}>
+            {landmark.name}
+          </MenuItem>
+        ))}
+        {/* Keep the selected ID selectable even if it has been removed from the list */}
+        {!landmarks.some(landmark => landmark.id === selectedLandmarkId) && (
+          <MenuItem value={selectedLandmarkId}>{selectedLandmarkId}</MenuItem>
+        )}
+      </VenueSelect>
+      <Tooltip title="Manage venues">
+        <IconButton
+          color="inherit"
+          size="small"
+          onClick={() => setIsManageOpen(true)}
+          aria-label="Manage venues"
+          data-testid="manage-landmarks-button"
+        >
+          <SettingsIcon fontSize="small" />
+        </IconButton>
+      </Tooltip>
+
+      <Modal
+        isOpen={isManageOpen}
+        title="Manage Venues"
+        onClose={handleClose}
+        maxWidth="sm"
+        actions={
+          <Button variant="text" onClick={handleClose}>
+            Done
+          </Button>
+        }
+      >
+        <List dense>
+          {landmarks.map(landmark => (
+            <ListItem
+              key={landmark.id}
+              secondaryAction={
+                <IconButton
+                  edge="end"
+                  aria-label={`Remove ${landmark.name}`}
+                  onClick={() => removeLandmark(landmark.id)}
+                  disabled={landmarks.length <= 1}
+                >
+                  <DeleteOutlineIcon />
+                </IconButton>
+              }
+            >
+              <ListItemText
+                primary={landmark.name}
+                secondary={landmark.id}
+                primaryTypographyProps={{
+                  fontWeight: landmark.id === selectedLandmarkId ? 'bold' : undefined
+                }}
+              />
+            </ListItem>
+          ))}
+        </List>
+
+        <AddVenueForm>
+          <Typography variant="subtitle1">Add a venue</Typography>
+          <Input
+            name="landmarkName"
+            label="Venue Name"
+            type="text"
+            value={newName}
+            onChange={handleFieldChange}
+            onBlur={handleFieldBlur}
+            fullWidth
+          />
+          <Input
+            name="landmarkId"
+            label="Landmark ID"
+            type="text"
+            value={newId}
+            onChange={handleFieldChange}
+            onBlur={handleFieldBlur}
+            error={idError}
+            placeholder="7fc72127-c601-46f3-849b-0fdea9f370ae"
+            required
+            fullWidth
+          />
+          <Box>
+            <Button
+              variant="contained"
+              color="primary"
+              onClick={handleAdd}
+              disabled={!newId}
+              data-testid="add-landmark-button"
+            >
+              Add Venue
+            </Button>
+          </Box>
+        </AddVenueForm>
+      </Modal>
+    </SwitcherContainer>
+  );
+};
+
+export default LandmarkSwitcher;
\ No newline at end of file
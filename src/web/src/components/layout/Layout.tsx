@@ -8,6 +8,7 @@ import Footer from './Footer';
 import Notification from '../ui/Notification';
 import ApiKeyPrompt from '../feedback/ApiKeyPrompt';
 import { useApiKeyContext } from '../../context/ApiKeyContext';
+import { VaultStatus } from '../../types/vault.types';
 
 /**
  * Interface for layout component props
@@ -78,7 +79,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
   const [lastUpdated, setLastUpdated] = useState<Date>(new Date());
   
   // Get API key context to check for authentication errors
-  const { apiKey, error: apiKeyError } = useApiKeyContext();
+  const { apiKey, error: apiKeyError, vaultStatus } = useApiKeyContext();
   
   /**
    * Toggle sidebar open/closed
@@ -118,6 +119,13 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
     }
   }, [apiKeyError]);
   
+  // Ask for the passphrase when the API key vault is locked, at startup or after inactivity
+  useEffect(() => {
+    if (vaultStatus === VaultStatus.LOCKED) {
+      setShowApiKeyPrompt(true);
+    }
+  }, [vaultStatus]);
+  
   // Determine sidebar variant based on screen size
   const sidebarVariant = isMobile ? 'temporary' : 'permanent';
   
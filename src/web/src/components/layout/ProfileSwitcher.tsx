@@ -0,0 +1,336 @@
+import React, { useState, useCallback } from 'react'; // v18.2.0
+import {
+  Box,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Select as MuiSelect,
+  SelectChangeEvent,
+  Tooltip,
+  Typography
+} from '@mui/material'; // v5.14.0
+import { styled } from '@mui/material/styles'; // v5.14.0
+import VpnKeyIcon from '@mui/icons-material/VpnKey'; // v5.14.0
+import ManageAccountsIcon from '@mui/icons-material/ManageAccounts'; // v5.14.0
+import EditOutlinedIcon from '@mui/icons-material/EditOutlined'; // v5.14.0
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline'; // v5.14.0
+
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Alert from '../ui/Alert';
+import { useProfileContext } from '../../context/ProfileContext';
+import { ApiKeyProfile } from '../../types/profile.types';
+
+/**
+ * Props interface for the ProfileSwitcher component
+ */
+export interface ProfileSwitcherProps {
+  /** Whether to render a compact version for small screens */
+  compact?: boolean;
+}
+
+/**
+ * Values of the profile form fields
+ */
+interface ProfileFormValues {
+  profileName: string;
+  profileLandmarkId: string;
+  profileBaseUrl: string;
+}
+
+/**
+ * Empty profile form
+ */
+const EMPTY_FORM: ProfileFormValues = {
+  profileName: '',
+  profileLandmarkId: '',
+  profileBaseUrl: ''
+};
+
+/**
+ * Container for the profile select and manage button
+ */
+const SwitcherContainer = styled(Box)(({ theme }) => ({
+  display: 'flex',
+  alignItems: 'center',
+  gap: theme.spacing(0.5),
+  marginRight: theme.spacing(2),
+}));
+
+/**
+ * Profile select styled for display on the primary-colored app bar
+ */
+const ProfileSelect = styled(MuiSelect)(({ theme }) => ({
+  color: theme.palette.primary.contrastText,
+  minWidth: 140,
+  '& .MuiOutlinedInput-notchedOutline': {
+    borderColor: 'rgba(255, 255, 255, 0.5)',
+  },
+  '&:hover .MuiOutlinedInput-notchedOutline': {
+    borderColor: theme.palette.primary.contrastText,
+  },
+  '& .MuiSvgIcon-root': {
+    color: theme.palette.primary.contrastText,
+  },
+}));
+
+/**
+ * Container for the add and edit profile form inside the manage dialog
+ */
+const ProfileForm = styled(Box)(({ theme }) => ({
+  display: 'flex',
+  flexDirection: 'column',
+  gap: theme.spacing(2),
+  marginTop: theme.spacing(2),
+}));
+
+/**
+ * An API key profile switcher for the application header.
+ * Switching profiles changes the API key, venues and API address the app works with;
+ * the manage dialog lets users add, edit and delete profiles.
+ *
+ * @param {ProfileSwitcherProps} props - The component props
+ * @returns {JSX.Element} The rendered profile switcher
+ */
+const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({ compact = false }) => {
+  const {
+    profiles,
+    activeProfile,
+    defaultProfileId,
+    switchProfile,
+    createProfile,
+    updateProfile,
+    deleteProfile
+  } = useProfileContext();
+
+  const [isManageOpen, setIsManageOpen] = useState<boolean>(false);
+  const [formValues, setFormValues] = useState<ProfileFormValues>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<ApiKeyProfile | null>(null);
+
+  /**
+   * Handles selecting another profile
+   */
+  const handleChange = useCallback((event: SelectChangeEvent<unknown>) => {
+    switchProfile(event.target.value as string);
+  }, [switchProfile]);
+
+  /**
+   * Handles changes to the profile form fields
+   */
+  const handleFieldChange = useCallback((name: string, value: string) => {
+    setFormValues(prev => ({ ...prev, [name]: value }));
+  }, []);
+
+  /**
+   * Fills the form with a profile's details to edit it
+   */
+  const handleEdit = useCallback((profile: ApiKeyProfile) => {
+    setEditingId(profile.id);
+    setPendingDelete(null);
+    setFormValues({
+      profileName: profile.name,
+      profileLandmarkId: profile.landMarkId || '',
+      profileBaseUrl: profile.baseUrl || ''
+    });
+  }, []);
+
+  /**
+   * Empties the form so it adds a new profile
+   */
+  const handleCancelEdit = useCallback(() => {
+    setEditingId(null);
+    setFormValues(EMPTY_FORM);
+  }, []);
+
+  /**
+   * Saves the form as a new profile or as changes to the profile being edited
+   */
+  const handleSave = useCallback(() => {
+    const input = {
+      name: formValues.profileName,
+      landMarkId: formValues.profileLandmarkId,
+      baseUrl: formValues.profileBaseUrl
+    };
+    const saved = editingId ? updateProfile(editingId, input) : createProfile(input) !== null;
+
+    if (saved) {
+      setEditingId(null);
+      setFormValues(EMPTY_FORM);
+    }
+  }, [formValues, editingId, createProfile, updateProfile]);
+
+  /**
+   * Deletes the profile the user confirmed
+   */
+  const handleConfirmDelete = useCallback(async () => {
+    if (!pendingDelete) {
+      return;
+    }
+
+    if (await deleteProfile(pendingDelete.id) && editingId === pendingDelete.id) {
+      setEditingId(null);
+      setFormValues(EMPTY_FORM);
+    }
+    setPendingDelete(null);
+  }, [pendingDelete, editingId, deleteProfile]);
+
+  /**
+   * Closes the manage dialog and resets the form
+   */
+  const handleClose = useCallback(() => {
+    setIsManageOpen(false);
+    setEditingId(null);
+    setPendingDelete(null);
+    setFormValues(EMPTY_FORM);
+  }, []);
+
+  return (
+    <SwitcherContainer data-testid="profile-switcher">
+      {!compact && <VpnKeyIcon fontSize="small" aria-hidden="true" />}
+      <ProfileSelect
+        value={activeProfile.id}
+        onChange={handleChange}
+        size="small"
+        inputProps={{ 'aria-label': 'Select API key profile', 'data-testid': 'profile-select' }}
+        sx={compact ? { minWidth: 100 } : undefined}
+      >
+        {profiles.map(profile => (
+          <MenuItem key={profile.id} value={profile.id}>
+            {profile.name}
+          </MenuItem>
+        ))}
+      </ProfileSelect>
+      <Tooltip title="Manage API key profiles">
+        <IconButton
+          color="inherit"
+          size="small"
+          onClick={() => setIsManageOpen(true)}
+          aria-label="Manage API key profiles"
+          data-testid="manage-profiles-button"
+        >
+          <ManageAccountsIcon fontSize="small" />
+        </IconButton>
+      </Tooltip>
+
+      <Modal
+        isOpen={isManageOpen}
+        title="Manage API Key Profiles"
+        onClose={handleClose}
+        maxWidth="sm"
+        actions={
+          <Button variant="text" onClick={handleClose}>
+            Done
+          </Button>
+        }
+      >
+        <Typography variant="body2" color="textSecondary">
+          Each profile keeps its own API key, venues, scheduled batches and cached data. Enter the
+          API key after switching to a profile.
+        </Typography>
+
+        <List dense>
+          {profiles.map(profile => (
+            <ListItem
+              key={profile.id}
+              secondaryAction={
+                <>
+                  <IconButton aria-label={`Edit ${profile.name}`} onClick={() => handleEdit(profile)}>
+                    <EditOutlinedIcon />
+                  </IconButton>
+                  <IconButton
+                    edge="end"
+                    aria-label={`Delete ${profile.name}`}
+                    onClick={() => setPendingDelete(profile)}
+                    disabled={profile.id === defaultProfileId}
+                  >
+                    <DeleteOutlineIcon />
+                  </IconButton>
+                </>
+              }
+            >
+              <ListItemText
+                primary={profile.name}
+                secondary={[profile.baseUrl, profile.landMarkId].filter(Boolean).join(' · ') || 'App settings'}
+                primaryTypographyProps={{
+                  fontWeight: profile.id === activeProfile.id ? 'bold' : undefined
+                }}
+              />
+            </ListItem>
+          ))}
+        </List>
+
+        {pendingDelete && (
+          <Alert severity="warning">
+            Delete {pendingDelete.name}? Its API key, venues, scheduled batches and passes waiting to be
+            sent are deleted too.
+            <Box display="flex" gap={1} mt={1}>
+              <Button variant="outlined" size="small" onClick={() => setPendingDelete(null)}>
+                Cancel
+              </Button>
+              <Button variant="contained" color="error" size="small" onClick={handleConfirmDelete}>
+                Delete Profile
+              </Button>
+            </Box>
+          </Alert>
+        )}
+
+        <ProfileForm>
+          <Typography variant="subtitle1">{editingId ? 'Edit profile' : 'Add a profile'}</Typography>
+          <Input
+            name="profileName"
+            label="Profile Name"
+            type="text"
+            value={formValues.profileName}
+            onChange={handleFieldChange}
+            onBlur={() => undefined}
+            placeholder="Sandbox"
+            required
+            fullWidth
+          />
+          <Input
+            name="profileLandmarkId"
+            label="Default Venue ID"
+            type="text"
+            value={formValues.profileLandmarkId}
+            onChange={handleFieldChange}
+            onBlur={() => undefined}
+            placeholder="Leave empty to use the app settings"
+            fullWidth
+          />
+          <Input
+            name="profileBaseUrl"
+            label="API Base URL"
+            type="text"
+            value={formValues.profileBaseUrl}
+            onChange={handleFieldChange}
+            onBlur={() => undefined}
+            placeholder="Leave empty to use the app settings"
+            fullWidth
+          />
+          <Box display="flex" gap={2}>
+            <Button
+              variant="contained"
+              color="primary"
+              onClick={handleSave}
+              disabled={!formValues.profileName.trim()}
+              data-testid="save-profile-button"
+            >
+              {editingId ? 'Save Profile' : 'Add Profile'}
+            </Button>
+            {editingId && (
+              <Button variant="text" onClick={handleCancelEdit}>
+                Cancel
+              </Button>
+            )}
+          </Box>
+        </ProfileForm>
+      </Modal>
+    </SwitcherContainer>
+  );
+};
+
+export default ProfileSwitcher;
\ No newline at end of file
@@ -15,6 +15,11 @@ import DashboardIcon from '@mui/icons-material/Dashboard'; // ^5.14.0
 import EventIcon from '@mui/icons-material/Event'; // ^5.14.0
 import ListAltIcon from '@mui/icons-material/ListAlt'; // ^5.14.0
 import AddIcon from '@mui/icons-material/Add'; // ^5.14.0
+import SearchIcon from '@mui/icons-material/Search'; // ^5.14.0
+import PeopleIcon from '@mui/icons-material/People'; // ^5.14.0
+import ContentCopyIcon from '@mui/icons-material/ContentCopy'; // ^5.14.0
+import ScheduleIcon from '@mui/icons-material/Schedule'; // ^5.14.0
+import SettingsIcon from '@mui/icons-material/Settings'; // ^5.14.0
 
 import { ROUTES } from '../../constants/routes';
 import { useApiKeyContext } from '../../context/ApiKeyContext';
@@ -154,11 +159,41 @@ const Sidebar: React.FC<SidebarProps> = ({ open, onClose, variant }) => {
       icon: <ListAltIcon />,
       requiresAuth: true
     },
+    {
+      path: ROUTES.SEARCH,
+      label: 'Search Passes',
+      icon: <SearchIcon />,
+      requiresAuth: true
+    },
+    {
+      path: ROUTES.ACCOUNTS,
+      label: 'Accounts',
+      icon: <PeopleIcon />,
+      requiresAuth: true
+    },
+    {
+      path: ROUTES.CLONE_PASSES,
+      label: 'Clone Passes',
+      icon: <ContentCopyIcon />,
+      requiresAuth: true
+    },
+    {
+      path: ROUTES.SCHEDULE,
+      label: 'Scheduled Passes',
+      icon: <ScheduleIcon />,
+      requiresAuth: true
+    },
     {
       path: ROUTES.CREATE_PASSES,
       label: 'Create Passes',
       icon: <AddIcon />,
       requiresAuth: true
+    },
+    {
+      path: ROUTES.SETTINGS,
+      label: 'Settings',
+      icon: <SettingsIcon />,
+      requiresAuth: false
     }
   ];
 
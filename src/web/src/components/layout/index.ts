@@ -12,6 +12,10 @@ import Layout from './Layout';
 import Header from './Header';
 import Footer from './Footer';
 import Sidebar from './Sidebar';
+import LandmarkSwitcher from './LandmarkSwitcher';
+import ProfileSwitcher from './ProfileSwitcher';
+import ConnectivityIndicator from './ConnectivityIndicator';
+import ApiKeyStatusIndicator from './ApiKeyStatusIndicator';
 
 // Re-export components with named exports
-export { Layout, Header, Footer, Sidebar };
\ No newline at end of file
+export { Layout, Header, Footer, Sidebar, LandmarkSwitcher, ProfileSwitcher, ConnectivityIndicator, ApiKeyStatusIndicator };
\ No newline at end of file
@@ -0,0 +1,159 @@
+import React, { useMemo } from 'react'; // ^18.2.0
+import {
+  Checkbox,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material'; // ^5.14.0
+
+import { ParkHubPass } from '../../types/api.types';
+import { ClonePlan, ClonePlanItem, ClonePassOutcome } from '../../types/clone.types';
+import { formatPassStatus, formatSpotType } from '../../utils/formatting';
+
+/**
+ * Props interface for the ClonePassesTable component
+ */
+export interface ClonePassesTableProps {
+  /** Passes of the source event */
+  sourcePasses: ParkHubPass[];
+  /** IDs of the source passes chosen to be copied */
+  selectedPassIds: string[];
+  /** Preview of the clone, or null until a target event is loaded */
+  plan: ClonePlan | null;
+  /** Handler to select or deselect a pass */
+  onTogglePass: (passId: string) => void;
+  /** Handler to select every pass, or none */
+  onSelectAll: (selected: boolean) => void;
+  /** Whether selection is disabled, such as while passes are being created */
+  disabled?: boolean;
+}
+
+/**
+ * Labels and chip colors describing what happens to each selected pass
+ */
+const OUTCOME_LABELS: Record<ClonePassOutcome, { label: string; color: 'success' | 'info' | 'warning' | 'default' }> = {
+  [ClonePassOutcome.KEEP_BARCODE]: { label: 'Copy', color: 'success' },
+  [ClonePassOutcome.NEW_BARCODE]: { label: 'Copy with new barcode', color: 'info' },
+  [ClonePassOutcome.SKIP_BARCODE_TAKEN]: { label: 'Skip: barcode in use', color: 'warning' },
+  [ClonePassOutcome.SKIP_EXISTING]: { label: 'Skip: already in target', color: 'default' }
+};
+
+/**
+ * A table of the source event's passes with a checkbox to choose each one, previewing
+ * the barcode every selected pass gets in the target event and whether it is skipped.
+ *
+ * @param {ClonePassesTableProps} props - The component props
+ * @returns {JSX.Element} The rendered clone preview table
+ */
+const ClonePassesTable: React.FC<ClonePassesTableProps> = ({
+  sourcePasses,
+  selectedPassIds,
+  plan,
+  onTogglePass,
+  onSelectAll,
+  disabled = false
+}) => {
+  // Index the preview by source pass for quick lookup per row
+  const itemsBySource = useMemo(() => {
+    const items = new Map<string, ClonePlanItem>();
+    plan?.items.forEach(item => items.set(item.source.id, item));
+    return items;
+  }, [plan]);
+
+  const selected = new Set(selectedPassIds);
+  const allSelected = sourcePasses.length > 0 && selected.size === sourcePasses.length;
+
+  /**
+   * Renders the barcode a pass gets in the target event
+   */
+  const renderTargetBarcode = (item: ClonePlanItem | undefined) => {
+    if (!item?.pass) {
+      return <Typography variant="body2" color="text.secondary">—</Typography>;
+    }
+    if (item.outcome === ClonePassOutcome.NEW_BARCODE) {
+      return (
+        <Typography variant="body2">
+          <Typography component="span" variant="body2" color="text.secondary">
+            {item.source.barcode || '(none)'} →
+          </Typography>{' '}
+          <strong>{item.pass.barcode}</strong>
+        </Typography>
+      );
+    }
+    return item.pass.barcode;
+  };
+
+  /**
+   * Renders what happens to a pass
+   */
+  const renderOutcome = (passId: string, item: ClonePlanItem | undefined) => {
+    if (!selected.has(passId)) {
+      return <Typography variant="body2" color="text.secondary">Not copied</Typography>;
+    }
+    if (!item) {
+      return <Typography variant="body2" color="text.secondary">Choose a target event</Typography>;
+    }
+
+    const { label, color } = OUTCOME_LABELS[item.outcome];
+    return <Chip size="small" label={label} color={color} variant="outlined" />;
+  };
+
+  return (
+    <TableContainer data-testid="clone-passes-table">
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell padding="checkbox">
+              <Checkbox
+                checked={allSelected}
+                indeterminate={selected.size > 0 && !allSelected}
+                onChange={event => onSelectAll(event.target.checked)}
+                disabled={disabled || sourcePasses.length === 0}
+                inputProps={{ 'aria-label': 'Select all passes' }}
+              />
+            </TableCell>
+            <TableCell>Name on Pass</TableCell>
+            <TableCell>Account</TableCell>
+            <TableCell>Spot / Lot</TableCell>
+            <TableCell>Status</TableCell>
+            <TableCell>Source Barcode</TableCell>
+            <TableCell>Target Barcode</TableCell>
+            <TableCell>Outcome</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {sourcePasses.map(pass => {
+            const item = itemsBySource.get(pass.id);
+
+            return (
+              <TableRow key={pass.id} hover data-testid={`clone-pass-${pass.id}`}>
+                <TableCell padding="checkbox">
+                  <Checkbox
+                    checked={selected.has(pass.id)}
+                    onChange={() => onTogglePass(pass.id)}
+                    disabled={disabled}
+                    inputProps={{ 'aria-label': `Copy pass ${pass.barcode}` }}
+                  />
+                </TableCell>
+                <TableCell>{pass.customerName}</TableCell>
+                <TableCell>{pass.accountId}</TableCell>
+                <TableCell>{formatSpotType(pass.spotType)} / {pass.lotId}</TableCell>
+                <TableCell>{formatPassStatus(pass.status)}</TableCell>
+                <TableCell>{pass.barcode}</TableCell>
+                <TableCell>{renderTargetBarcode(item)}</TableCell>
+                <TableCell>{renderOutcome(pass.id, item)}</TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+};
+
+export default ClonePassesTable;
@@ -0,0 +1,238 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react'; // ^18.2.0
+import { Box, Typography } from '@mui/material'; // ^5.14.0
+import { styled } from '@mui/material/styles'; // ^5.14.0
+
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Select from '../ui/Select';
+import { PASS_CREATION_FIELDS, SPOT_TYPE_OPTIONS } from '../../constants/formFields';
+import { Pass, PassSpotType, PassUpdateData, PassUpdateResult } from '../../types/pass.types';
+import { validateField } from '../../utils/validation';
+
+/**
+ * Props interface for the PassEditDialog component
+ */
+export interface PassEditDialogProps {
+  /** Whether the dialog is open */
+  isOpen: boolean;
+  /** The pass being edited */
+  pass: Pass | null;
+  /** Handler to close the dialog */
+  onClose: () => void;
+  /** Handler called with the changed fields when the user saves */
+  onSave: (passId: string, data: PassUpdateData) => Promise<PassUpdateResult>;
+}
+
+/**
+ * Editable pass fields; the barcode and event can't change after creation
+ */
+type EditableField = 'customerName' | 'accountId' | 'spotType' | 'lotId';
+
+/**
+ * Order in which editable fields are shown
+ */
+const EDITABLE_FIELDS: EditableField[] = ['customerName', 'accountId', 'spotType', 'lotId'];
+
+/**
+ * Styled container for the form fields
+ */
+const FieldsContainer = styled(Box)(({ theme }) => ({
+  display: 'flex',
+  flexDirection: 'column',
+  gap: theme.spacing(2),
+  marginTop: theme.spacing(1),
+}));
+
+/**
+ * Builds the form values for a pass
+ * @param pass - The pass being edited
+ * @returns Form values keyed by field name
+ */
+const getInitialValues = (pass: Pass | null): Record<EditableField, string> => ({
+  customerName: pass?.customerName || '',
+  accountId: pass?.accountId || '',
+  spotType: pass?.spotType || PassSpotType.REGULAR,
+  lotId: pass?.lotId || ''
+});
+
+/**
+ * A dialog for editing the customer name, account, spot type and lot of an existing pass.
+ * Only changed fields are sent, and the save button stays disabled until something changes.
+ *
+ * @param {PassEditDialogProps} props - The component props
+ * @returns {JSX.Element} The rendered edit dialog
+ */
+const PassEditDialog: React.FC<PassEditDialogProps> = ({
+  isOpen,
+  pass,
+  onClose,
+  onSave
+}) => {
+  const [values, setValues] = useState<Record<EditableField, string>>(() => getInitialValues(pass));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState<boolean>(false);
+
+  // Reset the form whenever a different pass is opened
+  useEffect(() => {
+    if (isOpen) {
+      setValues(getInitialValues(pass));
+      setErrors({});
+    }
+  }, [isOpen, pass]);
+
+  // Field configurations from the pass creation form, so validation rules match
+  const fieldConfigs = useMemo(() => {
+    return EDITABLE_FIELDS.map(name => PASS_CREATION_FIELDS.find(field => field.name === name)!);
+  }, []);
+
+  // Fields that differ from the saved pass
+  const changes = useMemo((): PassUpdateData => {
+    const initial = getInitialValues(pass);
+    const changed: PassUpdateData = {};
+
+    EDITABLE_FIELDS.forEach(name => {
+      if (values[name].trim() !== initial[name]) {
+        if (name === 'spotType') {
+          changed.spotType = values.spotType as PassSpotType;
+        } else {
+          changed[name] = values[name].trim();
+        }
+      }
+    });
+
+    return changed;
+  }, [pass, values]);
+
+  const hasChanges = Object.keys(changes).length > 0;
+
+  /**
+   * Validates a single field and records any error
+   */
+  const validate = useCallback((name: string, value: string): boolean => {
+    const config = fieldConfigs.find(field => field.name === name);
+    const result = validateField(name, value, config);
+
+    setErrors(prev => {
+      const next = { ...prev };
+      if (result.isValid) {
+        delete next[name];
+      } else {
+        next[name] = result.errors[name];
+      }
+      return next;
+    });
+
+    return result.isValid;
+  }, [fieldConfigs]);
+
+  /**
+   * Handles field value changes
+   */
+  const handleChange = useCallback((name: string, value: string) => {
+    setValues(prev => ({ ...prev, [name]: value }));
+  }, []);
+
+  /**
+   * Validates a field when it loses focus
+   */
+  const handleBlur = useCallback((name: string) => {
+    validate(name, values[name as EditableField]);
+  }, [validate, values]);
+
+  /**
+   * Validates all fields and saves the changes
+   */
+  const handleSave = useCallback(async () => {
+    if (!pass) {
+      return;
+    }
+
+    const allValid = EDITABLE_FIELDS
+      .map(name => validate(name, values[name]))
+      .every(Boolean);
+
+    if (!allValid || !hasChanges) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await onSave(pass.id, changes);
+      if (result.success) {
+        onClose();
+      }
+    } finally {
+      setSaving(false);
+    }
+  }, [pass, values, validate, hasChanges, onSave, changes, onClose]);
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      title="Edit Pass"
+      onClose={onClose}
+      maxWidth="sm"
+      disableBackdropClick={saving}
+      actions={
+        <>
+          <Button variant="text" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            color="primary"
+            onClick={handleSave}
+            loading={saving}
+            disabled={!hasChanges || Object.keys(errors).length > 0}
+            data-testid="save-pass-button"
+          >
+            Save Changes
+          </Button>
+        </>
+      }
+    >
+      {pass && (
+        <>
+          <Typography variant="body2" color="text.secondary">
+            Barcode {pass.barcode} &middot; Pass ID {pass.id}
+          </Typography>
+          <FieldsContainer>
+            {fieldConfigs.map(field =>
+              field.name === 'spotType' ? (
+                <Select
+                  key={field.name}
+                  name={field.name}
+                  label={field.label}
+                  options={SPOT_TYPE_OPTIONS}
+                  value={values.spotType}
+                  onChange={handleChange}
+                  onBlur={handleBlur}
+                  error={errors.spotType}
+                  required
+                  fullWidth
+                />
+              ) : (
+                <Input
+                  key={field.name}
+                  name={field.name}
+                  label={field.label}
+                  type="text"
+                  value={values[field.name as EditableField]}
+                  onChange={handleChange}
+                  onBlur={handleBlur}
+                  placeholder={field.placeholder}
+                  error={errors[field.name]}
+                  required
+                  fullWidth
+                />
+              )
+            )}
+          </FieldsContainer>
+        </>
+      )}
+    </Modal>
+  );
+};
+
+export default PassEditDialog;
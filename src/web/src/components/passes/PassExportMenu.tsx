@@ -0,0 +1,189 @@
+import React, { useState, useCallback } from 'react'; // ^18.2.0
+import {
+  Box,
+  Menu,
+  MenuItem,
+  ListItemIcon,
+  ListItemText,
+  ToggleButton,
+  ToggleButtonGroup,
+  Divider
+} from '@mui/material'; // ^5.14.0
+import { styled } from '@mui/material/styles'; // ^5.14.0
+import FileDownloadIcon from '@mui/icons-material/FileDownload'; // ^5.14.0
+import DescriptionOutlinedIcon from '@mui/icons-material/DescriptionOutlined'; // ^5.14.0
+import TableChartOutlinedIcon from '@mui/icons-material/TableChartOutlined'; // ^5.14.0
+import PictureAsPdfOutlinedIcon from '@mui/icons-material/PictureAsPdfOutlined'; // ^5.14.0
+import QrCode2Icon from '@mui/icons-material/QrCode2'; // ^5.14.0
+import ImageOutlinedIcon from '@mui/icons-material/ImageOutlined'; // ^5.14.0
+
+import Button from '../ui/Button';
+import { ExportFormat, ExportScope } from '../../types/export.types';
+import { PassRenderFormat } from '../../types/render.types';
+
+/**
+ * Props interface for the PassExportMenu component
+ */
+export interface PassExportMenuProps {
+  /** Handler called with the chosen format and scope */
+  onExport: (format: ExportFormat, scope: ExportScope) => void;
+  /** Handler called with the chosen format and scope to print scannable passes */
+  onRender?: (format: PassRenderFormat, scope: ExportScope) => void;
+  /** Number of passes matching the active filters */
+  filteredCount: number;
+  /** Total number of passes for the event */
+  totalCount: number;
+  /** Whether the menu is disabled */
+  disabled?: boolean;
+}
+
+/**
+ * Styled container for the export scope toggle inside the menu
+ */
+export const ScopeContainer = styled(Box)(({ theme }) => ({
+  padding: theme.spacing(1, 2),
+}));
+
+/**
+ * Export format menu options
+ */
+const FORMAT_OPTIONS: Array<{ format: ExportFormat; label: string; icon: React.ReactNode }> = [
+  { format: ExportFormat.CSV, label: 'CSV', icon: <DescriptionOutlinedIcon fontSize="small" /> },
+  { format: ExportFormat.XLSX, label: 'Excel (XLSX)', icon: <TableChartOutlinedIcon fontSize="small" /> },
+  { format: ExportFormat.PDF, label: 'PDF Manifest', icon: <PictureAsPdfOutlinedIcon fontSize="small" /> }
+];
+
+/**
+ * Scannable pass menu options
+ */
+const RENDER_OPTIONS: Array<{ format: PassRenderFormat; label: string; icon: React.ReactNode }> = [
+  { format: PassRenderFormat.PDF, label: 'Printable Passes (PDF)', icon: <QrCode2Icon fontSize="small" /> },
+  { format: PassRenderFormat.PNG, label: 'Pass Images (PNG)', icon: <ImageOutlinedIcon fontSize="small" /> }
+];
+
+/**
+ * A button and menu for exporting passes to CSV, XLSX or a printable PDF manifest,
+ * and for printing scannable passes when a render handler is provided.
+ * Users choose whether to export only the passes matching the active filters or
+ * all passes for the event.
+ *
+ * @param {PassExportMenuProps} props - The component props
+ * @returns {JSX.Element} The rendered export menu
+ */
+const PassExportMenu: React.FC<PassExportMenuProps> = ({
+  onExport,
+  onRender,
+  filteredCount,
+  totalCount,
+  disabled = false
+}) => {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [scope, setScope] = useState<ExportScope>(ExportScope.FILTERED);
+
+  const exportCount = scope === ExportScope.FILTERED ? filteredCount : totalCount;
+
+  /**
+   * Handles opening the menu
+   */
+  const handleOpen = useCallback((event: React.MouseEvent<HTMLElement>) => {
+    setAnchorEl(event.currentTarget);
+  }, []);
+
+  /**
+   * Handles closing the menu
+   */
+  const handleClose = useCallback(() => {
+    setAnchorEl(null);
+  }, []);
+
+  /**
+   * Handles a change of export scope
+   */
+  const handleScopeChange = useCallback((_event: React.MouseEvent<HTMLElement>, value: ExportScope | null) => {
+    if (value) {
+      setScope(value);
+    }
+  }, []);
+
+  /**
+   * Handles selection of an export format
+   */
+  const handleExport = useCallback((format: ExportFormat) => {
+    onExport(format, scope);
+    setAnchorEl(null);
+  }, [onExport, scope]);
+
+  /**
+   * Handles selection of a scannable pass format
+   */
+  const handleRender = useCallback((format: PassRenderFormat) => {
+    onRender?.(format, scope);
+    setAnchorEl(null);
+  }, [onRender, scope]);
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        color="primary"
+        startIcon={<FileDownloadIcon />}
+        onClick={handleOpen}
+        disabled={disabled || totalCount === 0}
+        aria-haspopup="true"
+        aria-controls={anchorEl ? 'pass-export-menu' : undefined}
+        data-testid="export-passes-button"
+      >
+        Export
+      </Button>
+      <Menu
+        id="pass-export-menu"
+        anchorEl={anchorEl}
+        open={Boolean(anchorEl)}
+        onClose={handleClose}
+      >
+        <ScopeContainer>
+          <ToggleButtonGroup
+            value={scope}
+            exclusive
+            size="small"
+            onChange={handleScopeChange}
+            aria-label="Passes to export"
+          >
+            <ToggleButton value={ExportScope.FILTERED} data-testid="export-scope-filtered">
+              Filtered ({filteredCount})
+            </ToggleButton>
+            <ToggleButton value={ExportScope.ALL} data-testid="export-scope-all">
+              All ({totalCount})
+            </ToggleButton>
+          </ToggleButtonGroup>
+        </ScopeContainer>
+        <Divider />
+        {FORMAT_OPTIONS.map(option => (
+          <MenuItem
+            key={option.format}
+            onClick={() => handleExport(option.format)}
+            disabled={exportCount === 0}
+            data-testid={`export-format-${option.format}`}
+          >
+            <ListItemIcon>{option.icon}</ListItemIcon>
+            <ListItemText>{option.label}</ListItemText>
+          </MenuItem>
+        ))}
+        {onRender && <Divider />}
+        {onRender && RENDER_OPTIONS.map(option => (
+          <MenuItem
+            key={option.format}
+            onClick={() => handleRender(option.format)}
+            disabled={exportCount === 0}
+            data-testid={`render-format-${option.format}`}
+          >
+            <ListItemIcon>{option.icon}</ListItemIcon>
+            <ListItemText>{option.label}</ListItemText>
+          </MenuItem>
+        ))}
+      </Menu>
+    </>
+  );
+};
+
+export default PassExportMenu;
@@ -1,9 +1,10 @@
 import React from 'react'; // ^18.2.0
 import { Box, Typography, Chip, Divider } from '@mui/material'; // ^5.14.0
 import { styled } from '@mui/material/styles'; // ^5.14.0
-import { Pass, PassStatus, PassSpotType } from '../../types/pass.types';
+import { Pass, PassAction, PassStatus, PassSpotType } from '../../types/pass.types';
 import Card from '../ui/Card';
 import Button from '../ui/Button';
+import { getAvailablePassActions } from './PassRowActions';
 
 /**
  * Interface for PassItem component props
@@ -15,6 +16,8 @@ export interface PassItemProps {
   onSelect: (pass: Pass) => void;
   /** Function to call when viewing pass details */
   onDetails: (pass: Pass) => void;
+  /** Function to call when printing, editing, cancelling or reactivating the pass */
+  onAction?: (pass: Pass, action: PassAction) => void;
   /** Whether the pass is currently selected */
   selected?: boolean;
   /** Optional CSS class name for styling */
@@ -71,6 +74,16 @@ const ActionContainer = styled(Box)(({ theme }) => ({
   marginTop: theme.spacing(2),
 }));
 
+/**
+ * Button labels and colors for each pass action
+ */
+const ACTION_BUTTONS: Record<PassAction, { label: string; color: 'primary' | 'error' | 'success' }> = {
+  [PassAction.EDIT]: { label: 'Edit', color: 'primary' },
+  [PassAction.CANCEL]: { label: 'Cancel', color: 'error' },
+  [PassAction.REACTIVATE]: { label: 'Reactivate', color: 'success' },
+  [PassAction.PRINT]: { label: 'Print', color: 'primary' }
+};
+
 /**
  * Formats the pass status as a colored chip component
  * 
@@ -123,6 +136,7 @@ const PassItem: React.FC<PassItemProps> = ({
   pass,
   onSelect,
   onDetails,
+  onAction,
   selected = false,
   className,
 }) => {
@@ -207,6 +221,18 @@ const PassItem: React.FC<PassItemProps> = ({
         {renderPassDetails()}
         
         <ActionContainer>
+          {onAction && getAvailablePassActions(pass.status).map(action => (
+            <Button
+              key={action}
+              variant="text"
+              color={ACTION_BUTTONS[action].color}
+              onClick={() => onAction(pass, action)}
+              size="small"
+              data-testid={`pass-action-${action}`}
+            >
+              {ACTION_BUTTONS[action].label}
+            </Button>
+          ))}
           <Button
             variant="outlined"
             color="primary"
@@ -0,0 +1,151 @@
+import React, { useState, useMemo, useCallback } from 'react'; // ^18.2.0
+import { Box, Typography } from '@mui/material'; // ^5.14.0
+import { styled } from '@mui/material/styles'; // ^5.14.0
+import ImageOutlinedIcon from '@mui/icons-material/ImageOutlined'; // ^5.14.0
+import PictureAsPdfOutlinedIcon from '@mui/icons-material/PictureAsPdfOutlined'; // ^5.14.0
+
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import Alert from '../ui/Alert';
+import passRenderService from '../../services/render/passRenderService';
+import { Pass } from '../../types/pass.types';
+import { PassRenderFormat } from '../../types/render.types';
+
+/**
+ * Props interface for the PassPrintDialog component
+ */
+export interface PassPrintDialogProps {
+  /** Whether the dialog is open */
+  isOpen: boolean;
+  /** The pass to print */
+  pass: Pass | null;
+  /** Handler to close the dialog */
+  onClose: () => void;
+}
+
+/**
+ * Styled container for the pass preview image
+ */
+const PreviewContainer = styled(Box)(({ theme }) => ({
+  display: 'flex',
+  justifyContent: 'center',
+  padding: theme.spacing(2),
+  backgroundColor: theme.palette.grey[100],
+  borderRadius: theme.shape.borderRadius,
+  '& img': {
+    maxWidth: '100%',
+    height: 'auto',
+    boxShadow: theme.shadows[1],
+  },
+}));
+
+/**
+ * A dialog showing the scannable version of a pass, with its Code128 barcode and QR code,
+ * and buttons to download it as a PNG image or a print-ready PDF.
+ *
+ * @param {PassPrintDialogProps} props - The component props
+ * @returns {JSX.Element} The rendered print dialog
+ */
+const PassPrintDialog: React.FC<PassPrintDialogProps> = ({
+  isOpen,
+  pass,
+  onClose
+}) => {
+  const [downloading, setDownloading] = useState<PassRenderFormat | null>(null);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+
+  // Render the preview only while the dialog is open
+  const preview = useMemo((): { image: string | null; error: string | null } => {
+    if (!isOpen || !pass) {
+      return { image: null, error: null };
+    }
+
+    try {
+      return { image: passRenderService.toDataUrl(passRenderService.buildRenderData(pass)), error: null };
+    } catch (error) {
+      return { image: null, error: error instanceof Error ? error.message : 'Failed to render the pass.' };
+    }
+  }, [isOpen, pass]);
+
+  /**
+   * Downloads the pass in the chosen format
+   */
+  const handleDownload = useCallback(async (format: PassRenderFormat) => {
+    if (!pass) {
+      return;
+    }
+
+    setDownloading(format);
+    setDownloadError(null);
+    try {
+      await passRenderService.renderPasses([pass], { format });
+    } catch (error) {
+      setDownloadError(error instanceof Error ? error.message : 'Failed to download the pass.');
+    } finally {
+      setDownloading(null);
+    }
+  }, [pass]);
+
+  /**
+   * Closes the dialog and clears any download error
+   */
+  const handleClose = useCallback(() => {
+    setDownloadError(null);
+    onClose();
+  }, [onClose]);
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      title="Print Pass"
+      onClose={handleClose}
+      maxWidth="sm"
+      actions={
+        <>
+          <Button variant="text" onClick={handleClose}>
+            Close
+          </Button>
+          <Button
+            variant="outlined"
+            color="primary"
+            startIcon={<ImageOutlinedIcon />}
+            onClick={() => handleDownload(PassRenderFormat.PNG)}
+            loading={downloading === PassRenderFormat.PNG}
+            disabled={downloading !== null}
+            data-testid="download-pass-png-button"
+          >
+            Download PNG
+          </Button>
+          <Button
+            variant="contained"
+            color="primary"
+            startIcon={<PictureAsPdfOutlinedIcon />}
+            onClick={() => handleDownload(PassRenderFormat.PDF)}
+            loading={downloading === PassRenderFormat.PDF}
+            disabled={downloading !== null}
+            data-testid="download-pass-pdf-button"
+          >
+            Download PDF
+          </Button>
+        </>
+      }
+    >
+      {pass && (
+        <>
+          <Typography variant="body2" color="text.secondary" gutterBottom>
+            {pass.customerName} &middot; Barcode {pass.barcode}
+          </Typography>
+          {preview.image && (
+            <PreviewContainer>
+              <img src={preview.image} alt={`Pass ${pass.barcode}`} data-testid="pass-print-preview" />
+            </PreviewContainer>
+          )}
+          {preview.error && <Alert severity="warning">{preview.error}</Alert>}
+          {downloadError && <Alert severity="error">{downloadError}</Alert>}
+        </>
+      )}
+    </Modal>
+  );
+};
+
+export default PassPrintDialog;
@@ -0,0 +1,98 @@
+import React from 'react'; // ^18.2.0
+import { Box, IconButton, Tooltip } from '@mui/material'; // ^5.14.0
+import { styled } from '@mui/material/styles'; // ^5.14.0
+import EditOutlinedIcon from '@mui/icons-material/EditOutlined'; // ^5.14.0
+import BlockIcon from '@mui/icons-material/Block'; // ^5.14.0
+import RestoreIcon from '@mui/icons-material/Restore'; // ^5.14.0
+import QrCode2Icon from '@mui/icons-material/QrCode2'; // ^5.14.0
+
+import { Pass, PassAction, PassStatus } from '../../types/pass.types';
+
+/**
+ * Props interface for the PassRowActions component
+ */
+export interface PassRowActionsProps {
+  /** The pass the actions apply to */
+  pass: Pass;
+  /** Handler called with the pass and the chosen action */
+  onAction: (pass: Pass, action: PassAction) => void;
+}
+
+/**
+ * Styled container keeping the action buttons on one line
+ */
+const ActionsContainer = styled(Box)(({ theme }) => ({
+  display: 'flex',
+  justifyContent: 'flex-end',
+  gap: theme.spacing(0.5),
+  whiteSpace: 'nowrap',
+}));
+
+/**
+ * Returns the actions available for a pass in the given status.
+ * Used passes can't be changed; cancelled passes can only be reactivated.
+ * Only active passes can be printed, since other passes won't scan at the lot.
+ *
+ * @param status - The current pass status
+ * @returns The actions that can be taken on the pass
+ */
+export const getAvailablePassActions = (status: PassStatus): PassAction[] => {
+  switch (status) {
+    case PassStatus.ACTIVE:
+      return [PassAction.PRINT, PassAction.EDIT, PassAction.CANCEL];
+    case PassStatus.INACTIVE:
+      return [PassAction.EDIT, PassAction.CANCEL, PassAction.REACTIVATE];
+    case PassStatus.CANCELLED:
+      return [PassAction.REACTIVATE];
+    default:
+      return [];
+  }
+};
+
+/**
+ * Icon, label and color for each pass action
+ */
+const ACTION_CONFIG: Record<PassAction, {
+  label: string;
+  icon: React.ReactNode;
+  color: 'primary' | 'error' | 'success';
+}> = {
+  [PassAction.EDIT]: { label: 'Edit pass', icon: <EditOutlinedIcon fontSize="small" />, color: 'primary' },
+  [PassAction.CANCEL]: { label: 'Cancel pass', icon: <BlockIcon fontSize="small" />, color: 'error' },
+  [PassAction.REACTIVATE]: { label: 'Reactivate pass', icon: <RestoreIcon fontSize="small" />, color: 'success' },
+  [PassAction.PRINT]: { label: 'Print pass', icon: <QrCode2Icon fontSize="small" />, color: 'primary' }
+};
+
+/**
+ * Row action buttons for printing, editing, cancelling and reactivating a pass in the passes table.
+ * Clicks don't propagate, so using an action doesn't also select the row.
+ *
+ * @param {PassRowActionsProps} props - The component props
+ * @returns {JSX.Element} The rendered row actions
+ */
+const PassRowActions: React.FC<PassRowActionsProps> = ({ pass, onAction }) => {
+  const actions = getAvailablePassActions(pass.status);
+
+  return (
+    <ActionsContainer data-testid={`pass-actions-${pass.id}`}>
+      {actions.map(action => (
+        <Tooltip key={action} title={ACTION_CONFIG[action].label}>
+          <IconButton
+            size="small"
+            color={ACTION_CONFIG[action].color}
+            aria-label={`${ACTION_CONFIG[action].label} ${pass.barcode}`}
+            onClick={(event) => {
+              event.stopPropagation();
+              onAction(pass, action);
+            }}
+            data-testid={`pass-action-${action}`}
+          >
+            {ACTION_CONFIG[action].icon}
+          </IconButton>
+        </Tooltip>
+      ))}
+    </ActionsContainer>
+  );
+};
+
+export default PassRowActions;
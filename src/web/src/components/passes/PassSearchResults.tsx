@@ -0,0 +1,117 @@
+import React from 'react'; // ^18.2.0
+import {
+  Box,
+  Link,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material'; // ^5.14.0
+import { styled } from '@mui/material/styles'; // ^5.14.0
+
+import { PassSearchField, PassSearchHit } from '../../types/search.types';
+import { formatPassStatus, formatSpotType } from '../../utils/formatting';
+
+/**
+ * Props interface for the PassSearchResults component
+ */
+export interface PassSearchResultsProps {
+  /** Passes found by the search, best first */
+  results: PassSearchHit[];
+  /** Handler to open the passes of an event */
+  onViewEvent: (eventId: string) => void;
+  /** Handler to open an event's passes with a pass selected */
+  onViewPass: (hit: PassSearchHit) => void;
+  /** Optional CSS class name */
+  className?: string;
+}
+
+/**
+ * Cell showing a field that matched the query
+ */
+const MatchedCell = styled(TableCell, {
+  shouldForwardProp: (prop) => prop !== 'matched'
+})<{ matched: boolean }>(({ matched }) => ({
+  fontWeight: matched ? 600 : undefined,
+}));
+
+/**
+ * A table of passes found by the cross-event search. Each row links to the pass's
+ * event and to the pass itself on the passes page.
+ *
+ * @param props - The component props
+ * @returns The rendered PassSearchResults component
+ */
+const PassSearchResults: React.FC<PassSearchResultsProps> = ({
+  results,
+  onViewEvent,
+  onViewPass,
+  className
+}) => {
+  return (
+    <TableContainer className={className} data-testid="pass-search-results">
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>Customer</TableCell>
+            <TableCell>Barcode</TableCell>
+            <TableCell>Account ID</TableCell>
+            <TableCell>Spot / Lot</TableCell>
+            <TableCell>Status</TableCell>
+            <TableCell>Event</TableCell>
+            <TableCell align="right">Pass</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {results.map((hit) => (
+            <TableRow key={`${hit.event.id}-${hit.pass.id}`} hover data-testid={`search-hit-${hit.pass.id}`}>
+              <MatchedCell matched={hit.matchedField === PassSearchField.CUSTOMER_NAME}>
+                {hit.pass.customerName}
+              </MatchedCell>
+              <MatchedCell matched={hit.matchedField === PassSearchField.BARCODE}>
+                {hit.pass.barcode}
+              </MatchedCell>
+              <MatchedCell matched={hit.matchedField === PassSearchField.ACCOUNT_ID}>
+                {hit.pass.accountId}
+              </MatchedCell>
+              <TableCell>
+                {formatSpotType(hit.pass.spotType)} / {hit.pass.lotId}
+              </TableCell>
+              <TableCell>{formatPassStatus(hit.pass.status)}</TableCell>
+              <TableCell>
+                <Link
+                  component="button"
+                  variant="body2"
+                  onClick={() => onViewEvent(hit.event.id)}
+                  data-testid={`view-event-${hit.pass.id}`}
+                >
+                  {hit.event.name}
+                </Link>
+                <Typography variant="caption" color="text.secondary" display="block">
+                  {hit.event.formattedDate} {hit.event.formattedTime}
+                </Typography>
+              </TableCell>
+              <TableCell align="right">
+                <Box component="span" whiteSpace="nowrap">
+                  <Link
+                    component="button"
+                    variant="body2"
+                    onClick={() => onViewPass(hit)}
+                    data-testid={`view-pass-${hit.pass.id}`}
+                  >
+                    View pass
+                  </Link>
+                </Box>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+};
+
+export default PassSearchResults;
@@ -0,0 +1,115 @@
+import React, { useState, useCallback } from 'react'; // ^18.2.0
+import { Typography } from '@mui/material'; // ^5.14.0
+
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import { Pass, PassAction, PassUpdateResult } from '../../types/pass.types';
+
+/**
+ * Props interface for the PassStatusDialog component
+ */
+export interface PassStatusDialogProps {
+  /** Whether the dialog is open */
+  isOpen: boolean;
+  /** The pass whose status is being changed */
+  pass: Pass | null;
+  /** The status change being confirmed */
+  action: PassAction.CANCEL | PassAction.REACTIVATE;
+  /** Handler to close the dialog */
+  onClose: () => void;
+  /** Handler called with the pass ID when the user confirms */
+  onConfirm: (passId: string) => Promise<PassUpdateResult>;
+}
+
+/**
+ * Dialog text for each status change
+ */
+const DIALOG_CONFIG = {
+  [PassAction.CANCEL]: {
+    title: 'Cancel Pass',
+    confirmLabel: 'Cancel Pass',
+    color: 'error' as const,
+    message: 'The pass will no longer be accepted at the lot. You can reactivate it later.'
+  },
+  [PassAction.REACTIVATE]: {
+    title: 'Reactivate Pass',
+    confirmLabel: 'Reactivate Pass',
+    color: 'success' as const,
+    message: 'The pass will be accepted at the lot again.'
+  }
+};
+
+/**
+ * A confirmation dialog for cancelling or reactivating a pass.
+ *
+ * @param {PassStatusDialogProps} props - The component props
+ * @returns {JSX.Element} The rendered confirmation dialog
+ */
+const PassStatusDialog: React.FC<PassStatusDialogProps> = ({
+  isOpen,
+  pass,
+  action,
+  onClose,
+  onConfirm
+}) => {
+  const [submitting, setSubmitting] = useState<boolean>(false);
+  const config = DIALOG_CONFIG[action];
+
+  /**
+   * Confirms the status change and closes the dialog on success
+   */
+  const handleConfirm = useCallback(async () => {
+    if (!pass) {
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const result = await onConfirm(pass.id);
+      if (result.success) {
+        onClose();
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  }, [pass, onConfirm, onClose]);
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      title={config.title}
+      onClose={onClose}
+      maxWidth="xs"
+      disableBackdropClick={submitting}
+      actions={
+        <>
+          <Button variant="text" onClick={onClose} disabled={submitting}>
+            Keep As Is
+          </Button>
+          <Button
+            variant="contained"
+            color={config.color}
+            onClick={handleConfirm}
+            loading={submitting}
+            data-testid={`confirm-${action}-button`}
+          >
+            {config.confirmLabel}
+          </Button>
+        </>
+      }
+    >
+      {pass && (
+        <>
+          <Typography variant="body1" gutterBottom>
+            {config.title} <strong>{pass.barcode}</strong> for {pass.customerName}?
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            {config.message}
+          </Typography>
+        </>
+      )}
+    </Modal>
+  );
+};
+
+export default PassStatusDialog;
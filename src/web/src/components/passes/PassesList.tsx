@@ -4,6 +4,7 @@ import { useTheme, styled } from '@mui/material/styles'; // ^5.14.0
 
 import { 
   Pass, 
+  PassAction,
   PassFilterOptions, 
   PassSortOptions, 
   PassTableColumn, 
@@ -14,8 +15,15 @@ import { usePasses } from '../../hooks/usePasses';
 import PassesTable from './PassesTable';
 import PassItem from './PassItem';
 import PassesFilter from './PassesFilter';
+import PassExportMenu from './PassExportMenu';
+import PassEditDialog from './PassEditDialog';
+import PassStatusDialog from './PassStatusDialog';
+import PassPrintDialog from './PassPrintDialog';
 import LoadingSpinner from '../ui/LoadingSpinner';
 import ErrorDisplay from '../feedback/ErrorDisplay';
+import { useNotificationContext } from '../../context/NotificationContext';
+import { ExportFormat, ExportScope } from '../../types/export.types';
+import { PassRenderFormat } from '../../types/render.types';
 
 // Props interface
 export interface PassesListProps {
@@ -95,12 +103,33 @@ const PassesList: React.FC<PassesListProps> = ({
     setPagination,
     selectPass,
     selectEvent,
+    exportPasses,
+    renderPasses,
+    updatePass,
+    cancelPass,
+    reactivatePass,
     refetch,
   } = usePasses();
   
+  // Pass and action awaiting confirmation in a dialog
+  const [pendingAction, setPendingAction] = useState<{ pass: Pass; action: PassAction } | null>(null);
+  
+  // Notifications for export failures
+  const { showError } = useNotificationContext();
+  
   // Create memoized available lot IDs
   const availableLotIds = useMemo(() => getAvailableLotIds(passes), [passes]);
   
+  // Handler for pass actions, opening the matching confirmation dialog
+  const handlePassAction = useCallback((pass: Pass, action: PassAction) => {
+    setPendingAction({ pass, action });
+  }, []);
+  
+  // Handler for closing the pass action dialog
+  const handleActionClose = useCallback(() => {
+    setPendingAction(null);
+  }, []);
+  
   // Handler for filter changes
   const handleFilterChange = useCallback((newFilterOptions: PassFilterOptions) => {
     setFilterOptions(newFilterOptions);
@@ -127,6 +156,24 @@ const PassesList: React.FC<PassesListProps> = ({
     onPassSelect(pass);
   }, [selectPass, onPassSelect]);
   
+  // Handler for exporting passes
+  const handleExport = useCallback((format: ExportFormat, scope: ExportScope) => {
+    try {
+      exportPasses(format, scope);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to export passes.');
+    }
+  }, [exportPasses, showError]);
+  
+  // Handler for printing scannable passes
+  const handleRender = useCallback(async (format: PassRenderFormat, scope: ExportScope) => {
+    try {
+      await renderPasses(format, scope);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to print passes.');
+    }
+  }, [renderPasses, showError]);
+  
   // Handler for retrying on error
   const handleRetry = useCallback(() => {
     refetch();
@@ -176,6 +223,16 @@ const PassesList: React.FC<PassesListProps> = ({
         availableLotIds={availableLotIds}
       />
       
+      {/* Export actions */}
+      <Box display="flex" justifyContent="flex-end">
+        <PassExportMenu
+          onExport={handleExport}
+          onRender={handleRender}
+          filteredCount={filteredPasses.length}
+          totalCount={passes.length}
+        />
+      </Box>
+      
       {/* Mobile or desktop view based on screen size */}
       {isMobile ? (
         <MobileList data-testid="passes-mobile-list">
@@ -185,9 +242,28 @@ const PassesList: React.FC<PassesListProps> = ({
               pass={pass}
               onSelect={handlePassSelect}
               onDetails={onPassDetails}
+              onAction={handlePassAction}
               selected={pass.id === selectedPassId}
             />
           ))}
+          <PassEditDialog
+            isOpen={pendingAction?.action === PassAction.EDIT}
+            pass={pendingAction?.pass || null}
+            onClose={handleActionClose}
+            onSave={updatePass}
+          />
+          <PassStatusDialog
+            isOpen={pendingAction?.action === PassAction.CANCEL || pendingAction?.action === PassAction.REACTIVATE}
+            pass={pendingAction?.pass || null}
+            action={pendingAction?.action === PassAction.REACTIVATE ? PassAction.REACTIVATE : PassAction.CANCEL}
+            onClose={handleActionClose}
+            onConfirm={pendingAction?.action === PassAction.REACTIVATE ? reactivatePass : cancelPass}
+          />
+          <PassPrintDialog
+            isOpen={pendingAction?.action === PassAction.PRINT}
+            pass={pendingAction?.pass || null}
+            onClose={handleActionClose}
+          />
         </MobileList>
       ) : (
         <PassesTable
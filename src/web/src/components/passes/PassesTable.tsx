@@ -1,16 +1,21 @@
-import React, { useMemo, useCallback, useEffect } from 'react'; // ^18.2.0
+import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react'; // ^18.2.0
 import { Box, Typography, Chip, useTheme, useMediaQuery } from '@mui/material'; // ^5.14.0
 import { styled } from '@mui/material/styles'; // ^5.14.0
 
 import Table from '../ui/Table';
 import { 
   Pass, 
+  PassAction,
   PassStatus, 
   PassSpotType, 
   PassSortField,
   PassTableColumn 
 } from '../../types/pass.types';
 import PassItem from './PassItem';
+import PassRowActions from './PassRowActions';
+import PassEditDialog from './PassEditDialog';
+import PassStatusDialog from './PassStatusDialog';
+import PassPrintDialog from './PassPrintDialog';
 import usePasses from '../../hooks/usePasses';
 import { SPOT_TYPE_LABELS } from '../../constants/spotTypes';
 import { SortDirection, SortConfig, PaginationConfig } from '../../types/common.types';
@@ -25,6 +30,8 @@ export interface PassesTableProps {
   onPassSelect: (pass: Pass) => void;
   /** Callback function when pass details are requested */
   onPassDetails: (pass: Pass) => void;
+  /** ID of a pass to select and show once the event's passes load */
+  highlightPassId?: string | null;
   /** Optional CSS class name */
   className?: string;
 }
@@ -91,9 +98,11 @@ const PassesTable: React.FC<PassesTableProps> = ({
   eventId,
   onPassSelect,
   onPassDetails,
+  highlightPassId = null,
   className
 }) => {
   const {
+    passes,
     paginatedPasses,
     loading,
     error,
@@ -103,9 +112,15 @@ const PassesTable: React.FC<PassesTableProps> = ({
     setSortOptions,
     setPagination,
     selectPass,
-    selectEvent
+    selectEvent,
+    updatePass,
+    cancelPass,
+    reactivatePass
   } = usePasses();
 
+  // Pass and action awaiting confirmation in a dialog
+  const [pendingAction, setPendingAction] = useState<{ pass: Pass; action: PassAction } | null>(null);
+
   // Use these hooks to check screen size for responsive design
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
@@ -117,6 +132,31 @@ const PassesTable: React.FC<PassesTableProps> = ({
     }
   }, [eventId, selectEvent]);
 
+  // Highlighted pass already selected, so later row clicks aren't overridden
+  const highlightedPassRef = useRef<string | null>(null);
+
+  // Effect to select the highlighted pass once it has loaded
+  useEffect(() => {
+    if (
+      highlightPassId &&
+      highlightedPassRef.current !== highlightPassId &&
+      passes.some(pass => pass.id === highlightPassId)
+    ) {
+      highlightedPassRef.current = highlightPassId;
+      selectPass(highlightPassId);
+    }
+  }, [highlightPassId, passes, selectPass]);
+
+  // Open the dialog for a row action
+  const handleAction = useCallback((pass: Pass, action: PassAction) => {
+    setPendingAction({ pass, action });
+  }, []);
+
+  // Close the open action dialog
+  const handleActionClose = useCallback(() => {
+    setPendingAction(null);
+  }, []);
+
   // Define table columns with appropriate headers, field mappings, and formatters
   const columns = useMemo((): PassTableColumn[] => [
     {
@@ -176,8 +216,17 @@ const PassesTable: React.FC<PassesTableProps> = ({
       width: '120px',
       align: 'left',
       format: (value) => formatPassStatus(value as PassStatus)
+    },
+    {
+      id: 'actions',
+      label: 'Actions',
+      field: 'id',
+      sortable: false,
+      width: '120px',
+      align: 'right',
+      format: (_value, pass) => <PassRowActions pass={pass} onAction={handleAction} />
     }
-  ], []);
+  ], [handleAction]);
 
   // Configure sorting options for the table
   const sortConfig = useMemo((): SortConfig => ({
@@ -248,6 +297,30 @@ const PassesTable: React.FC<PassesTableProps> = ({
     );
   }
 
+  // Confirmation dialogs for row actions
+  const actionDialogs = (
+    <>
+      <PassEditDialog
+        isOpen={pendingAction?.action === PassAction.EDIT}
+        pass={pendingAction?.pass || null}
+        onClose={handleActionClose}
+        onSave={updatePass}
+      />
+      <PassStatusDialog
+        isOpen={pendingAction?.action === PassAction.CANCEL || pendingAction?.action === PassAction.REACTIVATE}
+        pass={pendingAction?.pass || null}
+        action={pendingAction?.action === PassAction.REACTIVATE ? PassAction.REACTIVATE : PassAction.CANCEL}
+        onClose={handleActionClose}
+        onConfirm={pendingAction?.action === PassAction.REACTIVATE ? reactivatePass : cancelPass}
+      />
+      <PassPrintDialog
+        isOpen={pendingAction?.action === PassAction.PRINT}
+        pass={pendingAction?.pass || null}
+        onClose={handleActionClose}
+      />
+    </>
+  );
+
   // Render for mobile view using PassItem components
   if (isMobile) {
     return (
@@ -258,29 +331,34 @@ const PassesTable: React.FC<PassesTableProps> = ({
             pass={pass}
             onSelect={handlePassSelect}
             onDetails={onPassDetails}
+            onAction={handleAction}
             selected={pass.id === selectedPassId}
           />
         ))}
+        {actionDialogs}
       </Box>
     );
   }
 
   // Render for desktop view using Table component
   return (
-    <Table
-      data={paginatedPasses}
-      columns={columns}
-      sortConfig={sortConfig}
-      onSortChange={handleSortChange}
-      paginationConfig={paginationConfig}
-      onPageChange={handlePageChange}
-      onRowsPerPageChange={handleRowsPerPageChange}
-      onRowClick={handleRowClick}
-      rowKey="id"
-      selectedRowKey={selectedPassId}
-      className={className}
-      data-testid="passes-table-desktop"
-    />
+    <>
+      <Table
+        data={paginatedPasses}
+        columns={columns}
+        sortConfig={sortConfig}
+        onSortChange={handleSortChange}
+        paginationConfig={paginationConfig}
+        onPageChange={handlePageChange}
+        onRowsPerPageChange={handleRowsPerPageChange}
+        onRowClick={handleRowClick}
+        rowKey="id"
+        selectedRowKey={selectedPassId}
+        className={className}
+        data-testid="passes-table-desktop"
+      />
+      {actionDialogs}
+    </>
   );
 };
 
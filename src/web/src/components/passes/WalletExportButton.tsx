@@ -0,0 +1,290 @@
+import React, { useState, useCallback, useRef } from 'react'; // ^18.2.0
+import { Box, Checkbox, FormControlLabel, Typography } from '@mui/material'; // ^5.14.0
+import { styled } from '@mui/material/styles'; // ^5.14.0
+import WalletOutlinedIcon from '@mui/icons-material/WalletOutlined'; // ^5.14.0
+import UploadFileIcon from '@mui/icons-material/UploadFile'; // ^5.14.0
+
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Select from '../ui/Select';
+import Alert from '../ui/Alert';
+import walletExportService from '../../services/wallet/walletExportService';
+import { useAppConfig } from '../../hooks/useAppConfig';
+import { CertificateWalletSigner } from '../../services/wallet/walletSigners';
+import { Pass } from '../../types/pass.types';
+import { Event } from '../../types/event.types';
+import { FormFieldOption } from '../../types/form.types';
+import { WalletFormat } from '../../types/wallet.types';
+
+/**
+ * Props interface for the WalletExportButton component
+ */
+export interface WalletExportButtonProps {
+  /** Passes to export */
+  passes: Pass[];
+  /** Event the passes belong to, used when a pass has no joined event */
+  event?: Event | null;
+  /** Whether the button is disabled */
+  disabled?: boolean;
+}
+
+/**
+ * Certificate files that can be supplied for signing
+ */
+type CertificateFile = 'certificatePem' | 'privateKeyPem' | 'wwdrCertificatePem';
+
+/**
+ * Labels for the certificate file pickers
+ */
+const CERTIFICATE_FILES: Array<{ key: CertificateFile; label: string }> = [
+  { key: 'certificatePem', label: 'Pass Type ID Certificate' },
+  { key: 'privateKeyPem', label: 'Private Key' },
+  { key: 'wwdrCertificatePem', label: 'Apple WWDR Certificate' }
+];
+
+/**
+ * Options for the wallet format select
+ */
+const FORMAT_OPTIONS: FormFieldOption[] = [
+  { value: WalletFormat.APPLE, label: 'Apple Wallet (.pkpass)' },
+  { value: WalletFormat.GOOGLE, label: 'Google Wallet (JSON)' }
+];
+
+/**
+ * Styled container for the dialog fields
+ */
+const FieldsContainer = styled(Box)(({ theme }) => ({
+  display: 'flex',
+  flexDirection: 'column',
+  gap: theme.spacing(1),
+  marginTop: theme.spacing(1),
+}));
+
+/**
+ * Styled row for a certificate file picker
+ */
+const CertificateRow = styled(Box)(({ theme }) => ({
+  display: 'flex',
+  alignItems: 'center',
+  gap: theme.spacing(2),
+  flexWrap: 'wrap',
+}));
+
+/**
+ * A "Download Wallet Passes" button and dialog for exporting created passes to
+ * Apple Wallet or Google Wallet. Apple passes can be signed with locally supplied
+ * PEM certificates, which are read in the browser and never stored or uploaded;
+ * without certificates the bundles are left unsigned for testing. Google passes need
+ * the Google Wallet issuer ID from the Settings page.
+ *
+ * @param {WalletExportButtonProps} props - The component props
+ * @returns {JSX.Element} The rendered button and dialog
+ */
+const WalletExportButton: React.FC<WalletExportButtonProps> = ({
+  passes,
+  event = null,
+  disabled = false
+}) => {
+  const { config } = useAppConfig();
+  const fileInputRefs = useRef<Partial<Record<CertificateFile, HTMLInputElement | null>>>({});
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [format, setFormat] = useState<WalletFormat>(WalletFormat.APPLE);
+  const [signPasses, setSignPasses] = useState<boolean>(false);
+  const [certificates, setCertificates] = useState<Partial<Record<CertificateFile, { name: string; contents: string }>>>({});
+  const [passphrase, setPassphrase] = useState<string>('');
+  const [exporting, setExporting] = useState<boolean>(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const needsCertificates = format === WalletFormat.APPLE && signPasses;
+  const hasCertificates = CERTIFICATE_FILES.every(file => certificates[file.key]);
+  const needsIssuerId = format === WalletFormat.GOOGLE && !config.googleIssuerId;
+
+  /**
+   * Closes the dialog and forgets any supplied certificates
+   */
+  const handleClose = useCallback(() => {
+    setIsOpen(false);
+    setCertificates({});
+    setPassphrase('');
+    setExportError(null);
+  }, []);
+
+  /**
+   * Handles field value changes
+   */
+  const handleChange = useCallback((name: string, value: string) => {
+    if (name === 'walletFormat') {
+      setFormat(value as WalletFormat);
+    } else {
+      setPassphrase(value);
+    }
+    setExportError(null);
+  }, []);
+
+  /**
+   * Reads a selected certificate file
+   */
+  const handleFileChange = useCallback(async (key: CertificateFile, event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+
+    if (!file) {
+      return;
+    }
+
+    const contents = await file.text();
+    setCertificates(prev => ({ ...prev, [key]: { name: file.name, contents } }));
+    setExportError(null);
+  }, []);
+
+  /**
+   * Builds the passes in the chosen format and downloads them
+   */
+  const handleExport = useCallback(async () => {
+    setExporting(true);
+    setExportError(null);
+    try {
+      const signer = needsCertificates
+        ? new CertificateWalletSigner({
+            certificatePem: certificates.certificatePem?.contents || '',
+            privateKeyPem: certificates.privateKeyPem?.contents || '',
+            wwdrCertificatePem: certificates.wwdrCertificatePem?.contents || '',
+            privateKeyPassphrase: passphrase || undefined
+          })
+        : undefined;
+
+      await walletExportService.exportPasses(passes, { format, event, signer });
+      handleClose();
+    } catch (error) {
+      setExportError(error instanceof Error ? error.message : 'Failed to export wallet passes.');
+    } finally {
+      setExporting(false);
+    }
+  }, [needsCertificates, certificates, passphrase, passes, format, event, handleClose]);
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        color="primary"
+        startIcon={<WalletOutlinedIcon />}
+        onClick={() => setIsOpen(true)}
+        disabled={disabled || passes.length === 0}
+        data-testid="download-wallet-passes-button"
+      >
+        Download Wallet Passes
+      </Button>
+
+      <Modal
+        isOpen={isOpen}
+        title="Download Wallet Passes"
+        onClose={handleClose}
+        maxWidth="sm"
+        disableBackdropClick={exporting}
+        actions={
+          <>
+            <Button variant="text" onClick={handleClose} disabled={exporting}>
+              Cancel
+            </Button>
+            <Button
+              variant="contained"
+              color="primary"
+              onClick={handleExport}
+              loading={exporting}
+              disabled={(needsCertificates && !hasCertificates) || needsIssuerId}
+              data-testid="confirm-wallet-export-button"
+            >
+              Download {passes.length} Pass{passes.length === 1 ? '' : 'es'}
+            </Button>
+          </>
+        }
+      >
+        <FieldsContainer>
+          <Select
+            name="walletFormat"
+            label="Wallet"
+            options={FORMAT_OPTIONS}
+            value={format}
+            onChange={handleChange}
+            onBlur={() => undefined}
+            required
+            fullWidth
+          />
+
+          {format === WalletFormat.APPLE ? (
+            <>
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={signPasses}
+                    onChange={(changeEvent) => setSignPasses(changeEvent.target.checked)}
+                    data-testid="sign-wallet-passes-checkbox"
+                  />
+                }
+                label="Sign with my certificates"
+              />
+
+              {signPasses ? (
+                <>
+                  {CERTIFICATE_FILES.map(file => (
+                    <CertificateRow key={file.key}>
+                      <input
+                        ref={element => { fileInputRefs.current[file.key] = element; }}
+                        type="file"
+                        accept=".pem,.crt,.cer,.key"
+                        hidden
+                        onChange={(changeEvent) => handleFileChange(file.key, changeEvent)}
+                        data-testid={`wallet-${file.key}-input`}
+                      />
+                      <Button
+                        variant="outlined"
+                        size="small"
+                        startIcon={<UploadFileIcon />}
+                        onClick={() => fileInputRefs.current[file.key]?.click()}
+                      >
+                        {file.label}
+                      </Button>
+                      <Typography variant="body2" color="text.secondary">
+                        {certificates[file.key]?.name || 'PEM file required'}
+                      </Typography>
+                    </CertificateRow>
+                  ))}
+                  <Input
+                    name="passphrase"
+                    label="Private Key Passphrase (optional)"
+                    type="password"
+                    value={passphrase}
+                    onChange={handleChange}
+                    onBlur={() => undefined}
+                    fullWidth
+                  />
+                  <Typography variant="body2" color="text.secondary">
+                    The pass type and team identifiers are read from the pass type ID certificate.
+                    Certificates are only used in this browser to sign the passes and are not saved.
+                  </Typography>
+                </>
+              ) : (
+                <Alert severity="info">
+                  Unsigned passes can be inspected and tested but can't be added to Apple Wallet.
+                </Alert>
+              )}
+            </>
+          ) : needsIssuerId ? (
+            <Alert severity="warning">
+              Enter your Google Wallet issuer ID on the Settings page to export passes to Google Wallet.
+            </Alert>
+          ) : (
+            <Typography variant="body2" color="text.secondary">
+              Downloads the event ticket class and one object per pass, ready to upload through the Google Wallet API.
+            </Typography>
+          )}
+
+          {exportError && <Alert severity="error">{exportError}</Alert>}
+        </FieldsContainer>
+      </Modal>
+    </>
+  );
+};
+
+export default WalletExportButton;
@@ -11,6 +11,14 @@ import PassesTable from './PassesTable';
 import PassesList from './PassesList';
 import PassesFilter from './PassesFilter';
 import PassResultsDisplay from './PassResultsDisplay';
+import PassExportMenu from './PassExportMenu';
+import PassRowActions from './PassRowActions';
+import PassEditDialog from './PassEditDialog';
+import PassStatusDialog from './PassStatusDialog';
+import PassPrintDialog from './PassPrintDialog';
+import WalletExportButton from './WalletExportButton';
+import PassSearchResults from './PassSearchResults';
+import ClonePassesTable from './ClonePassesTable';
 
 // Props interface imports
 import { PassItemProps } from './PassItem';
@@ -18,6 +26,14 @@ import { PassesTableProps } from './PassesTable';
 import { PassesListProps } from './PassesList';
 import { PassesFilterProps } from './PassesFilter';
 import { PassResultsDisplayProps } from './PassResultsDisplay';
+import { PassExportMenuProps } from './PassExportMenu';
+import { PassRowActionsProps } from './PassRowActions';
+import { PassEditDialogProps } from './PassEditDialog';
+import { PassStatusDialogProps } from './PassStatusDialog';
+import { PassPrintDialogProps } from './PassPrintDialog';
+import { WalletExportButtonProps } from './WalletExportButton';
+import { PassSearchResultsProps } from './PassSearchResults';
+import { ClonePassesTableProps } from './ClonePassesTable';
 
 // Re-export components and interfaces
 export {
@@ -27,11 +43,29 @@ export {
   PassesList,
   PassesFilter,
   PassResultsDisplay,
-  
-  // Props interfaces
+  PassExportMenu,
+  PassRowActions,
+  PassEditDialog,
+  PassStatusDialog,
+  PassPrintDialog,
+  WalletExportButton,
+  PassSearchResults,
+  ClonePassesTable
+};
+
+// Props interfaces
+export type {
   PassItemProps,
   PassesTableProps,
   PassesListProps,
   PassesFilterProps,
-  PassResultsDisplayProps
+  PassResultsDisplayProps,
+  PassExportMenuProps,
+  PassRowActionsProps,
+  PassEditDialogProps,
+  PassStatusDialogProps,
+  PassPrintDialogProps,
+  WalletExportButtonProps,
+  PassSearchResultsProps,
+  ClonePassesTableProps
 };
\ No newline at end of file
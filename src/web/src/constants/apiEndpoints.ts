@@ -4,12 +4,17 @@
  */
 
 /**
- * ParkHub API base URL
+ * Default ParkHub API base URL, used unless the app config sets another
  */
 export const API_BASE_URL = "https://api.parkhub.com";
 
 /**
- * Default landmark ID for ParkHub API requests
+ * API key accepted by the mock ParkHub API, offered to users so they can sign in without a real key
+ */
+export const MOCK_API_KEY = "mock-parkhub-training-api-key-0000";
+
+/**
+ * Default landmark ID for ParkHub API requests, used unless the app config sets another
  */
 export const LANDMARK_ID = "7fc72127-c601-46f3-849b-0fdea9f370ae";
 
@@ -30,15 +35,64 @@ export const ENDPOINTS = {
   /**
    * Pass creation endpoint path with landMarkId placeholder
    */
-  CREATE_PASS: "/{landMarkId}/passes"
+  CREATE_PASS: "/{landMarkId}/passes",
+  
+  /**
+   * Single pass endpoint path (update and cancel) with landMarkId and passId placeholders
+   */
+  PASS: "/{landMarkId}/passes/{passId}"
 };
 
+/**
+ * Base URL and default landmark the URL builders use
+ */
+interface EndpointConfig {
+  /**
+   * Base URL of the ParkHub API
+   */
+  baseUrl: string;
+  
+  /**
+   * Landmark ID used when a builder isn't given one
+   */
+  landMarkId: string;
+}
+
+/**
+ * Base URL and default landmark currently used by the URL builders,
+ * replaced with the values from the app config when it loads or changes
+ */
+let endpointConfig: EndpointConfig = {
+  baseUrl: API_BASE_URL,
+  landMarkId: LANDMARK_ID
+};
+
+/**
+ * Sets the base URL and default landmark used by the URL builders
+ * @param config - Values to change; values not provided are left unchanged
+ */
+export const configureEndpoints = (config: Partial<EndpointConfig>): void => {
+  endpointConfig = { ...endpointConfig, ...config };
+};
+
+/**
+ * Gets the base URL of the ParkHub API currently in use
+ * @returns The ParkHub API base URL
+ */
+export const getApiBaseUrl = (): string => endpointConfig.baseUrl;
+
+/**
+ * Gets the landmark ID used when no venue has been selected
+ * @returns The default landmark ID
+ */
+export const getDefaultLandmarkId = (): string => endpointConfig.landMarkId;
+
 /**
  * Parameters for the events endpoint URL
  */
 interface EventsUrlParams {
   /**
-   * Optional landmark ID (defaults to LANDMARK_ID)
+   * Optional landmark ID (defaults to the configured landmark ID)
    */
   landMarkId?: string;
   
@@ -58,7 +112,32 @@ interface PassesUrlParams {
   eventId: string;
   
   /**
-   * Optional landmark ID (defaults to LANDMARK_ID)
+   * Optional landmark ID (defaults to the configured landmark ID)
+   */
+  landMarkId?: string;
+}
+
+/**
+ * Parameters for the pass creation endpoint URL
+ */
+interface CreatePassUrlParams {
+  /**
+   * Optional landmark ID (defaults to the configured landmark ID)
+   */
+  landMarkId?: string;
+}
+
+/**
+ * Parameters for the single pass endpoint URL
+ */
+interface PassUrlParams {
+  /**
+   * ID of the pass to update or cancel (required)
+   */
+  passId: string;
+  
+  /**
+   * Optional landmark ID (defaults to the configured landmark ID)
    */
   landMarkId?: string;
 }
@@ -69,7 +148,7 @@ interface PassesUrlParams {
  * @returns Complete URL for the events endpoint
  */
 export const buildEventsUrl = (params: EventsUrlParams = {}): string => {
-  const { landMarkId = LANDMARK_ID, dateFrom } = params;
+  const { landMarkId = endpointConfig.landMarkId, dateFrom } = params;
   
   if (!landMarkId || landMarkId.trim() === '') {
     throw new Error('landMarkId is required for building events URL');
@@ -85,7 +164,7 @@ export const buildEventsUrl = (params: EventsUrlParams = {}): string => {
     queryParams.append('dateFrom', dateFrom);
   }
   
-  return `${API_BASE_URL}${endpoint}?${queryParams.toString()}`;
+  return `${endpointConfig.baseUrl}${endpoint}?${queryParams.toString()}`;
 };
 
 /**
@@ -95,7 +174,7 @@ export const buildEventsUrl = (params: EventsUrlParams = {}): string => {
  * @throws Error if eventId is not provided
  */
 export const buildPassesUrl = (params: PassesUrlParams): string => {
-  const { eventId, landMarkId = LANDMARK_ID } = params;
+  const { eventId, landMarkId = endpointConfig.landMarkId } = params;
   
   if (!eventId || eventId.trim() === '') {
     throw new Error('eventId is required for building passes URL');
@@ -113,16 +192,48 @@ export const buildPassesUrl = (params: PassesUrlParams): string => {
   queryParams.append('landMarkId', landMarkId); // Including landMarkId in query params as per API spec
   queryParams.append('eventId', eventId);
   
-  return `${API_BASE_URL}${endpoint}?${queryParams.toString()}`;
+  return `${endpointConfig.baseUrl}${endpoint}?${queryParams.toString()}`;
 };
 
 /**
  * Builds the complete URL for creating a new parking pass
+ * @param params - Parameters for the pass creation endpoint
  * @returns Complete URL for the pass creation endpoint
  */
-export const buildCreatePassUrl = (): string => {
+export const buildCreatePassUrl = (params: CreatePassUrlParams = {}): string => {
+  const { landMarkId = endpointConfig.landMarkId } = params;
+  
+  if (!landMarkId || landMarkId.trim() === '') {
+    throw new Error('landMarkId is required for building create pass URL');
+  }
+  
   // Replace landMarkId placeholder in the endpoint
-  let endpoint = ENDPOINTS.CREATE_PASS.replace('{landMarkId}', LANDMARK_ID);
+  let endpoint = ENDPOINTS.CREATE_PASS.replace('{landMarkId}', landMarkId);
+  
+  return `${endpointConfig.baseUrl}${endpoint}`;
+};
+
+/**
+ * Builds the complete URL for updating or cancelling a single parking pass
+ * @param params - Parameters for the single pass endpoint
+ * @returns Complete URL for the single pass endpoint
+ * @throws Error if passId is not provided
+ */
+export const buildPassUrl = (params: PassUrlParams): string => {
+  const { passId, landMarkId = endpointConfig.landMarkId } = params;
+  
+  if (!passId || passId.trim() === '') {
+    throw new Error('passId is required for building pass URL');
+  }
+  
+  if (!landMarkId || landMarkId.trim() === '') {
+    throw new Error('landMarkId is required for building pass URL');
+  }
+  
+  // Replace placeholders in the endpoint
+  let endpoint = ENDPOINTS.PASS
+    .replace('{landMarkId}', landMarkId)
+    .replace('{passId}', encodeURIComponent(passId));
   
-  return `${API_BASE_URL}${endpoint}`;
+  return `${endpointConfig.baseUrl}${endpoint}`;
 };
\ No newline at end of file
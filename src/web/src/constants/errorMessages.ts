@@ -10,6 +10,8 @@ export const DEFAULT_ERROR_MESSAGES: Record<ErrorType, Record<ErrorCode, string>
     [ErrorCode.TIMEOUT]: "The request to ParkHub timed out. Please try again. If the problem persists, the service may be experiencing high load.",
     [ErrorCode.INVALID_API_KEY]: "Network error occurred with authentication. Please refresh and try again.",
     [ErrorCode.MISSING_API_KEY]: "Network error occurred with authentication. Please refresh and try again.",
+    [ErrorCode.EXPIRED_API_KEY]: "Network error occurred with authentication. Please refresh and try again.",
+    [ErrorCode.LANDMARK_FORBIDDEN]: "Network error occurred while accessing the venue. Please try again.",
     [ErrorCode.INVALID_INPUT]: "Network error occurred while processing your request. Please try again.",
     [ErrorCode.DUPLICATE_BARCODE]: "Network error occurred while checking barcode uniqueness. Please try again.",
     [ErrorCode.EVENT_NOT_FOUND]: "Network error occurred while searching for the event. Please try again.",
@@ -22,6 +24,8 @@ export const DEFAULT_ERROR_MESSAGES: Record<ErrorType, Record<ErrorCode, string>
     [ErrorCode.TIMEOUT]: "Authentication request timed out. Please try again.",
     [ErrorCode.INVALID_API_KEY]: "The API key provided is invalid or has expired. Please update your API key.",
     [ErrorCode.MISSING_API_KEY]: "No API key found. Please enter your ParkHub API key to continue.",
+    [ErrorCode.EXPIRED_API_KEY]: "The API key provided has expired. Please enter a new API key.",
+    [ErrorCode.LANDMARK_FORBIDDEN]: "The API key is not allowed to access this venue. Please choose another venue or API key.",
     [ErrorCode.INVALID_INPUT]: "Authentication failed due to invalid input. Please check your credentials.",
     [ErrorCode.DUPLICATE_BARCODE]: "Authentication error occurred. Please refresh and try again.",
     [ErrorCode.EVENT_NOT_FOUND]: "Authentication error occurred. Please refresh and try again.",
@@ -34,6 +38,8 @@ export const DEFAULT_ERROR_MESSAGES: Record<ErrorType, Record<ErrorCode, string>
     [ErrorCode.TIMEOUT]: "Validation request timed out. Please try again.",
     [ErrorCode.INVALID_API_KEY]: "Validation failed due to authentication issues. Please update your API key.",
     [ErrorCode.MISSING_API_KEY]: "Validation failed due to missing API key. Please provide your API key.",
+    [ErrorCode.EXPIRED_API_KEY]: "Validation failed because the API key has expired. Please update your API key.",
+    [ErrorCode.LANDMARK_FORBIDDEN]: "Validation failed because the API key is not allowed to access this venue.",
     [ErrorCode.INVALID_INPUT]: "The provided information contains errors. Please review and correct the highlighted fields.",
     [ErrorCode.DUPLICATE_BARCODE]: "A pass with this barcode already exists in the system.",
     [ErrorCode.EVENT_NOT_FOUND]: "The specified event could not be found. Please verify the event ID and try again.",
@@ -46,6 +52,8 @@ export const DEFAULT_ERROR_MESSAGES: Record<ErrorType, Record<ErrorCode, string>
     [ErrorCode.TIMEOUT]: "The server request timed out. Please try again later.",
     [ErrorCode.INVALID_API_KEY]: "Server rejected the API key. Please update your API key.",
     [ErrorCode.MISSING_API_KEY]: "Server requires an API key. Please provide your API key.",
+    [ErrorCode.EXPIRED_API_KEY]: "Server rejected the expired API key. Please update your API key.",
+    [ErrorCode.LANDMARK_FORBIDDEN]: "Server refused access to this venue with the API key in use.",
     [ErrorCode.INVALID_INPUT]: "Server rejected the request due to invalid input. Please try again.",
     [ErrorCode.DUPLICATE_BARCODE]: "Server reported a duplicate barcode. Please use a unique barcode.",
     [ErrorCode.EVENT_NOT_FOUND]: "Server could not find the specified event. Please verify the event ID.",
@@ -58,6 +66,8 @@ export const DEFAULT_ERROR_MESSAGES: Record<ErrorType, Record<ErrorCode, string>
     [ErrorCode.TIMEOUT]: "Client request timed out. Please try again.",
     [ErrorCode.INVALID_API_KEY]: "Client has an invalid API key. Please update your API key.",
     [ErrorCode.MISSING_API_KEY]: "Client is missing an API key. Please provide your API key.",
+    [ErrorCode.EXPIRED_API_KEY]: "Client has an expired API key. Please update your API key.",
+    [ErrorCode.LANDMARK_FORBIDDEN]: "Client is not allowed to access this venue with the API key in use.",
     [ErrorCode.INVALID_INPUT]: "The request contains invalid data. Please correct the errors and try again.",
     [ErrorCode.DUPLICATE_BARCODE]: "Client detected a duplicate barcode. Please use a unique barcode.",
     [ErrorCode.EVENT_NOT_FOUND]: "The requested event could not be found. It may have been removed or the ID is incorrect.",
@@ -70,6 +80,8 @@ export const DEFAULT_ERROR_MESSAGES: Record<ErrorType, Record<ErrorCode, string>
     [ErrorCode.TIMEOUT]: "An unknown timeout error occurred. Please try again.",
     [ErrorCode.INVALID_API_KEY]: "An unknown API key error occurred. Please update your API key.",
     [ErrorCode.MISSING_API_KEY]: "An unknown error related to missing API key occurred. Please provide your API key.",
+    [ErrorCode.EXPIRED_API_KEY]: "An unknown error related to an expired API key occurred. Please update your API key.",
+    [ErrorCode.LANDMARK_FORBIDDEN]: "An unknown error occurred while accessing the venue. Please check the API key's permissions.",
     [ErrorCode.INVALID_INPUT]: "An unknown input validation error occurred. Please review your input.",
     [ErrorCode.DUPLICATE_BARCODE]: "An unknown error related to duplicate barcode occurred. Please use a unique barcode.",
     [ErrorCode.EVENT_NOT_FOUND]: "An unknown error occurred while finding the event. Please verify the event ID.",
@@ -89,6 +101,8 @@ export const FIELD_ERROR_MESSAGES: Record<string, Record<ErrorCode, string>> = {
     [ErrorCode.TIMEOUT]: "Event ID validation timed out. Please try again.",
     [ErrorCode.INVALID_API_KEY]: "Could not validate Event ID due to API key issues. Please update your API key.",
     [ErrorCode.MISSING_API_KEY]: "Could not validate Event ID due to missing API key. Please provide your API key.",
+    [ErrorCode.EXPIRED_API_KEY]: "Could not validate Event ID because the API key has expired. Please update your API key.",
+    [ErrorCode.LANDMARK_FORBIDDEN]: "Could not validate Event ID because the API key is not allowed to access this venue.",
     [ErrorCode.INVALID_INPUT]: "Event ID must be in the format EV##### (where # is a digit).",
     [ErrorCode.DUPLICATE_BARCODE]: "Event ID validation error. Please try a different Event ID.",
     [ErrorCode.EVENT_NOT_FOUND]: "No event found with this ID. Please check and try again.",
@@ -101,6 +115,8 @@ export const FIELD_ERROR_MESSAGES: Record<string, Record<ErrorCode, string>> = {
     [ErrorCode.TIMEOUT]: "Account ID validation timed out. Please try again.",
     [ErrorCode.INVALID_API_KEY]: "Could not validate Account ID due to API key issues. Please update your API key.",
     [ErrorCode.MISSING_API_KEY]: "Could not validate Account ID due to missing API key. Please provide your API key.",
+    [ErrorCode.EXPIRED_API_KEY]: "Could not validate Account ID because the API key has expired. Please update your API key.",
+    [ErrorCode.LANDMARK_FORBIDDEN]: "Could not validate Account ID because the API key is not allowed to access this venue.",
     [ErrorCode.INVALID_INPUT]: "Account ID is required and must be in the correct format.",
     [ErrorCode.DUPLICATE_BARCODE]: "Account ID validation error. Please try a different Account ID.",
     [ErrorCode.EVENT_NOT_FOUND]: "Account ID validation error related to event. Please check event details.",
@@ -113,6 +129,8 @@ export const FIELD_ERROR_MESSAGES: Record<string, Record<ErrorCode, string>> = {
     [ErrorCode.TIMEOUT]: "Barcode validation timed out. Please try again.",
     [ErrorCode.INVALID_API_KEY]: "Could not validate barcode due to API key issues. Please update your API key.",
     [ErrorCode.MISSING_API_KEY]: "Could not validate barcode due to missing API key. Please provide your API key.",
+    [ErrorCode.EXPIRED_API_KEY]: "Could not validate barcode because the API key has expired. Please update your API key.",
+    [ErrorCode.LANDMARK_FORBIDDEN]: "Could not validate barcode because the API key is not allowed to access this venue.",
     [ErrorCode.INVALID_INPUT]: "Barcode must follow the format BC###### (where # is a digit).",
     [ErrorCode.DUPLICATE_BARCODE]: "This barcode already exists. Please use a unique barcode.",
     [ErrorCode.EVENT_NOT_FOUND]: "Barcode validation error related to event. Please check event details.",
@@ -125,6 +143,8 @@ export const FIELD_ERROR_MESSAGES: Record<string, Record<ErrorCode, string>> = {
     [ErrorCode.TIMEOUT]: "Customer name validation timed out. Please try again.",
     [ErrorCode.INVALID_API_KEY]: "Could not validate customer name due to API key issues. Please update your API key.",
     [ErrorCode.MISSING_API_KEY]: "Could not validate customer name due to missing API key. Please provide your API key.",
+    [ErrorCode.EXPIRED_API_KEY]: "Could not validate customer name because the API key has expired. Please update your API key.",
+    [ErrorCode.LANDMARK_FORBIDDEN]: "Could not validate customer name because the API key is not allowed to access this venue.",
     [ErrorCode.INVALID_INPUT]: "Customer name is required and must contain only letters, spaces, and hyphens.",
     [ErrorCode.DUPLICATE_BARCODE]: "Customer name validation error. Please check your input.",
     [ErrorCode.EVENT_NOT_FOUND]: "Customer name validation error related to event. Please check event details.",
@@ -137,6 +157,8 @@ export const FIELD_ERROR_MESSAGES: Record<string, Record<ErrorCode, string>> = {
     [ErrorCode.TIMEOUT]: "Spot type validation timed out. Please try again.",
     [ErrorCode.INVALID_API_KEY]: "Could not validate spot type due to API key issues. Please update your API key.",
     [ErrorCode.MISSING_API_KEY]: "Could not validate spot type due to missing API key. Please provide your API key.",
+    [ErrorCode.EXPIRED_API_KEY]: "Could not validate spot type because the API key has expired. Please update your API key.",
+    [ErrorCode.LANDMARK_FORBIDDEN]: "Could not validate spot type because the API key is not allowed to access this venue.",
     [ErrorCode.INVALID_INPUT]: "Spot type must be one of: Regular, VIP, Premium.",
     [ErrorCode.DUPLICATE_BARCODE]: "Spot type validation error. Please check your input.",
     [ErrorCode.EVENT_NOT_FOUND]: "Spot type validation error related to event. Please check event details.",
@@ -149,6 +171,8 @@ export const FIELD_ERROR_MESSAGES: Record<string, Record<ErrorCode, string>> = {
     [ErrorCode.TIMEOUT]: "Lot ID validation timed out. Please try again.",
     [ErrorCode.INVALID_API_KEY]: "Could not validate Lot ID due to API key issues. Please update your API key.",
     [ErrorCode.MISSING_API_KEY]: "Could not validate Lot ID due to missing API key. Please provide your API key.",
+    [ErrorCode.EXPIRED_API_KEY]: "Could not validate Lot ID because the API key has expired. Please update your API key.",
+    [ErrorCode.LANDMARK_FORBIDDEN]: "Could not validate Lot ID because the API key is not allowed to access this venue.",
     [ErrorCode.INVALID_INPUT]: "Lot ID is required and must be in the correct format.",
     [ErrorCode.DUPLICATE_BARCODE]: "Lot ID validation error. Please check your input.",
     [ErrorCode.EVENT_NOT_FOUND]: "Lot ID validation error related to event. Please check event details.",
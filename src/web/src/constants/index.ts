@@ -12,7 +12,7 @@
  */
 
 // API Endpoints
-export { API_BASE_URL, LANDMARK_ID, ENDPOINTS, buildEventsUrl, buildPassesUrl, buildCreatePassUrl } from './apiEndpoints';
+export { API_BASE_URL, MOCK_API_KEY, LANDMARK_ID, ENDPOINTS, configureEndpoints, getApiBaseUrl, getDefaultLandmarkId, buildEventsUrl, buildPassesUrl, buildCreatePassUrl, buildPassUrl } from './apiEndpoints';
 
 // Error Messages
 export { DEFAULT_ERROR_MESSAGES, FIELD_ERROR_MESSAGES, getErrorMessage } from './errorMessages';
@@ -27,7 +27,7 @@ export { ROUTES } from './routes';
 export { SPOT_TYPE_LABELS, SPOT_TYPE_DESCRIPTIONS, SPOT_TYPES_ARRAY } from './spotTypes';
 
 // Storage Keys
-export { API_KEY, EVENTS_CACHE, PASSES_CACHE, USER_PREFERENCES, FORM_STATE, STORAGE_KEYS } from './storageKeys';
+export { API_KEY, API_KEY_VAULT, API_KEY_PROFILES, ACTIVE_PROFILE, EVENTS_CACHE, PASSES_CACHE, USER_PREFERENCES, FORM_STATE, SELECTED_LANDMARK, LANDMARKS, USER_CONFIG, STORAGE_KEYS } from './storageKeys';
 
 // Validation
 export { 
@@ -39,4 +39,7 @@ export {
   isValidEventId,
   isValidBarcode,
   isValidSpotType
-} from './validation';
\ No newline at end of file
+} from './validation';
+
+// Wallet
+export { WALLET_CONFIG, UNSIGNED_PASS_IDENTIFIERS, WALLET_ICON_PNG, WALLET_ICON_2X_PNG } from './wallet';
\ No newline at end of file
@@ -31,6 +31,30 @@ export const ROUTES = {
    */
   PASSES: '/passes',
   
+  /**
+   * Pass search page - finds passes across all events by customer, barcode or account
+   * @type {string}
+   */
+  SEARCH: '/search',
+  
+  /**
+   * Accounts page - lists known customer accounts and their pass history
+   * @type {string}
+   */
+  ACCOUNTS: '/accounts',
+  
+  /**
+   * Clone passes page - copies passes from one event to another
+   * @type {string}
+   */
+  CLONE_PASSES: '/clone-passes',
+  
+  /**
+   * Schedule page - lists pass batches scheduled to be created before their event
+   * @type {string}
+   */
+  SCHEDULE: '/schedule',
+  
   /**
    * Pass creation page - allows creating multiple new parking passes
    * @type {string}
@@ -43,6 +67,12 @@ export const ROUTES = {
    */
   RESULTS: '/results',
   
+  /**
+   * Settings page - shows the runtime settings and lets users override some of them
+   * @type {string}
+   */
+  SETTINGS: '/settings',
+  
   /**
    * Catch-all route for 404 not found pages
    * @type {string}
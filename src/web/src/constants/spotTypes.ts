@@ -6,6 +6,7 @@
  */
 
 import { SpotType } from '../types/api.types';
+import { PassSpotType } from '../types/pass.types';
 
 /**
  * Maps spot type enum values to human-readable labels for display in the UI.
@@ -32,4 +33,13 @@ export const SPOT_TYPES_ARRAY: SpotType[] = [
   SpotType.REGULAR,
   SpotType.VIP,
   SpotType.PREMIUM
-];
\ No newline at end of file
+];
+
+/**
+ * Maps spot types entered in forms to the spot types of pass data, which use their own enum.
+ */
+export const PASS_SPOT_TYPES: Record<SpotType, PassSpotType> = {
+  [SpotType.REGULAR]: PassSpotType.REGULAR,
+  [SpotType.VIP]: PassSpotType.VIP,
+  [SpotType.PREMIUM]: PassSpotType.PREMIUM
+};
\ No newline at end of file
@@ -19,14 +19,30 @@ const APP_PREFIX = 'parkhub_passes_';
 export const API_KEY = `${APP_PREFIX}api_key`;
 
 /**
- * Storage key for cached event data
- * Used for storing the list of events to reduce API calls
+ * Storage key for the API key vault
+ * Used instead of API_KEY when the user protects the API key with a passphrase
+ */
+export const API_KEY_VAULT = `${APP_PREFIX}api_key_vault`;
+
+/**
+ * Storage key for the API key profiles the user has added
+ */
+export const API_KEY_PROFILES = `${APP_PREFIX}api_key_profiles`;
+
+/**
+ * Storage key for the ID of the API key profile in use
+ */
+export const ACTIVE_PROFILE = `${APP_PREFIX}active_profile`;
+
+/**
+ * Storage key prefix for cached event data
+ * Will be combined with the landmark ID so events from different venues never mix
  */
 export const EVENTS_CACHE = `${APP_PREFIX}events_cache`;
 
 /**
  * Storage key prefix for cached passes data
- * Will be combined with event ID when storing passes for a specific event
+ * Will be combined with the landmark ID and event ID when storing passes for a specific event
  */
 export const PASSES_CACHE = `${APP_PREFIX}passes_cache_`;
 
@@ -42,13 +58,71 @@ export const USER_PREFERENCES = `${APP_PREFIX}user_preferences`;
  */
 export const FORM_STATE = `${APP_PREFIX}form_state`;
 
+/**
+ * Storage key for the currently selected landmark (venue) ID
+ * Used for remembering which venue the user is working with between sessions
+ */
+export const SELECTED_LANDMARK = `${APP_PREFIX}selected_landmark`;
+
+/**
+ * Storage key for the list of landmarks (venues) the user manages
+ */
+export const LANDMARKS = `${APP_PREFIX}landmarks`;
+
+/**
+ * Storage key for the lot capacity configured for each event
+ */
+export const LOT_CONFIGURATIONS = `${APP_PREFIX}lot_configurations`;
+
+/**
+ * Storage key for the directory of known customer accounts, built from pass history
+ */
+export const ACCOUNT_DIRECTORY = `${APP_PREFIX}account_directory`;
+
+/**
+ * Storage key for the saved pass templates of each venue
+ */
+export const PASS_TEMPLATES = `${APP_PREFIX}pass_templates`;
+
+/**
+ * Storage key for pass batches scheduled to be created before their event
+ */
+export const SCHEDULED_JOBS = `${APP_PREFIX}scheduled_jobs`;
+
+/**
+ * Storage key for the settings the user has overridden on the Settings page
+ */
+export const USER_CONFIG = `${APP_PREFIX}user_config`;
+
+/**
+ * Storage key for the passes held by the mock ParkHub API used in training and QA builds
+ */
+export const MOCK_API_STATE = `${APP_PREFIX}mock_api_state`;
+
+/**
+ * Name of the IndexedDB database holding pass creation requests queued while offline
+ */
+export const OFFLINE_QUEUE_DB = `${APP_PREFIX}offline_queue`;
+
 /**
  * Object containing all storage keys for convenient import
  */
 export const STORAGE_KEYS = {
   API_KEY,
+  API_KEY_VAULT,
+  API_KEY_PROFILES,
+  ACTIVE_PROFILE,
   EVENTS_CACHE,
   PASSES_CACHE,
   USER_PREFERENCES,
   FORM_STATE,
+  SELECTED_LANDMARK,
+  LANDMARKS,
+  LOT_CONFIGURATIONS,
+  ACCOUNT_DIRECTORY,
+  PASS_TEMPLATES,
+  SCHEDULED_JOBS,
+  USER_CONFIG,
+  MOCK_API_STATE,
+  OFFLINE_QUEUE_DB,
 };
\ No newline at end of file
@@ -104,6 +104,7 @@ export const VALIDATION_RULES = {
       maxLength: `Barcode cannot exceed ${MAX_LENGTH_REQUIREMENTS.barcode} characters`,
       pattern: FIELD_ERROR_MESSAGES.barcode[ErrorCode.INVALID_INPUT],
       duplicate: FIELD_ERROR_MESSAGES.barcode[ErrorCode.DUPLICATE_BARCODE],
+      batchDuplicate: 'This barcode is used by more than one pass in this batch.',
       invalid: FIELD_ERROR_MESSAGES.barcode[ErrorCode.INVALID_INPUT]
     }
   },
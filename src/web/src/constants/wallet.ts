@@ -0,0 +1,34 @@
+/**
+ * Constants for Apple Wallet and Google Wallet pass exports.
+ * The Apple identifiers of signed passes are read from the pass type ID certificate,
+ * and the Google Wallet issuer ID is a runtime setting.
+ * 
+ * @version 1.0.0
+ */
+
+import { ApplePassIdentifiers, WalletConfig } from '../types/wallet.types';
+
+/**
+ * Branding embedded in exported wallet passes
+ */
+export const WALLET_CONFIG: WalletConfig = {
+  organizationName: 'ParkHub',
+  backgroundColor: 'rgb(25, 118, 210)',
+  foregroundColor: 'rgb(255, 255, 255)'
+};
+
+/**
+ * Identifiers written to unsigned development passes, which no wallet app installs
+ */
+export const UNSIGNED_PASS_IDENTIFIERS: ApplePassIdentifiers = {
+  passTypeIdentifier: 'pass.unsigned.development',
+  teamIdentifier: 'UNSIGNED'
+};
+
+/**
+ * Base64-encoded icon images bundled into Apple Wallet passes (solid primary color squares)
+ */
+export const WALLET_ICON_PNG =
+  'iVBORw0KGgoAAAANSUhEUgAAAB0AAAAdCAIAAADZ8fBYAAAAJklEQVR42mOQLLtEC8Qwau6ouaPmjpo7au6ouaPmjpo7au6gMhcAKzCH5rl3YZkAAAAASUVORK5CYII=';
+export const WALLET_ICON_2X_PNG =
+  'iVBORw0KGgoAAAANSUhEUgAAADoAAAA6CAIAAABu2d1/AAAARUlEQVR42u3OAQkAAAgDsNewqEFNZI7DYAGW2SsSXV1dXV1dXV1dXV1dXV1dXV1dXV1dXV1dXV1dXV1dXV1dXV1dXd0eDyKdH7NyGTP5AAAAAElFTkSuQmCC';
\ No newline at end of file
@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react'; // v18.2.0
 import { apiKeyStorage } from '../services/storage/apiKeyStorage';
+import { apiKeyVault } from '../services/vault/apiKeyVault';
 import { useNotificationContext } from './NotificationContext';
 import { apiClient } from '../services/api/apiClient';
 import { 
@@ -8,6 +9,12 @@ import {
   ErrorCode,
   createAuthenticationError
 } from '../types/error.types';
+import { VaultStatus } from '../types/vault.types';
+
+/**
+ * Browser events that count as user activity and postpone the vault's auto-lock
+ */
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'];
 
 /**
  * Interface defining the shape of the API key context
@@ -19,14 +26,24 @@ interface ApiKeyContextType {
   loading: boolean;
   /** Error state for API key operations */
   error: AuthenticationError | null;
-  /** Sets a new API key and stores it securely */
-  setApiKey: (apiKey: string) => boolean;
+  /** Sets a new API key and stores it securely, resolving once it has been stored */
+  setApiKey: (apiKey: string) => Promise<boolean>;
   /** Removes the API key from storage */
   removeApiKey: () => boolean;
   /** Validates the format of an API key */
   validateApiKey: (apiKey: string) => boolean;
   /** Checks if an API key exists */
   hasApiKey: () => boolean;
+  /** Whether the API key is protected with a passphrase, and whether it is unlocked */
+  vaultStatus: VaultStatus;
+  /** Unlocks the API key with the passphrase, throwing if the passphrase is wrong */
+  unlockVault: (passphrase: string) => Promise<void>;
+  /** Locks the API key until the passphrase is entered again */
+  lockVault: () => void;
+  /** Protects the API key (the stored one unless another is given) with a passphrase */
+  enableVault: (passphrase: string, apiKey?: string) => Promise<void>;
+  /** Stops protecting the API key with a passphrase, throwing if it is locked */
+  disableVault: () => void;
 }
 
 /**
@@ -60,6 +77,7 @@ export const ApiKeyProvider: React.FC<ApiKeyProviderProps> = ({ children }) => {
   const [apiKey, setApiKeyState] = useState<string | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<AuthenticationError | null>(null);
+  const [vaultStatus, setVaultStatus] = useState<VaultStatus>(() => apiKeyVault.getStatus());
 
   // Access notification context for showing messages
   const { showSuccess, showError } = useNotificationContext();
@@ -93,12 +111,45 @@ export const ApiKeyProvider: React.FC<ApiKeyProviderProps> = ({ children }) => {
     loadApiKey();
   }, []);
 
+  // Follow the vault: its API key is only available while it is unlocked
+  useEffect(() => {
+    return apiKeyVault.subscribe(status => {
+      setVaultStatus(status);
+
+      if (status === VaultStatus.DISABLED) {
+        return;
+      }
+
+      const secret = apiKeyVault.getSecret();
+      if (secret) {
+        apiClient.setApiKey(secret);
+      } else {
+        apiClient.clearApiKey();
+      }
+      setApiKeyState(secret);
+    });
+  }, []);
+
+  // Postpone the auto-lock while the user is active
+  useEffect(() => {
+    if (vaultStatus !== VaultStatus.UNLOCKED) {
+      return undefined;
+    }
+
+    const handleActivity = () => apiKeyVault.recordActivity();
+    ACTIVITY_EVENTS.forEach(eventName => window.addEventListener(eventName, handleActivity, { passive: true }));
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(eventName => window.removeEventListener(eventName, handleActivity));
+    };
+  }, [vaultStatus]);
+
   /**
    * Sets the API key in storage and updates the context state
    * @param newApiKey The API key to set
-   * @returns True if the API key was successfully set, false otherwise
+   * @returns Promise resolving to true if the API key was successfully set, false otherwise
    */
-  const setApiKeyHandler = useCallback((newApiKey: string): boolean => {
+  const setApiKeyHandler = useCallback(async (newApiKey: string): Promise<boolean> => {
     try {
       // Validate the API key format
       if (!apiKeyStorage.validateApiKey(newApiKey)) {
@@ -112,8 +163,8 @@ export const ApiKeyProvider: React.FC<ApiKeyProviderProps> = ({ children }) => {
         return false;
       }
 
-      // Store the API key
-      const result = apiKeyStorage.setApiKey(newApiKey);
+      // Store the API key, waiting for the vault to save it in vault mode
+      const result = await apiKeyStorage.setApiKeyAsync(newApiKey);
       
       if (result) {
         // Update state and clear error
@@ -169,6 +220,44 @@ export const ApiKeyProvider: React.FC<ApiKeyProviderProps> = ({ children }) => {
     }
   }, [showSuccess, showError]);
 
+  /**
+   * Unlocks the API key vault
+   * @param passphrase The passphrase the vault was created with
+   * @throws Error if the passphrase is wrong
+   */
+  const unlockVaultHandler = useCallback(async (passphrase: string): Promise<void> => {
+    await apiKeyVault.unlock(passphrase);
+    setError(null);
+  }, []);
+
+  /**
+   * Locks the API key vault
+   */
+  const lockVaultHandler = useCallback((): void => {
+    apiKeyVault.lock();
+  }, []);
+
+  /**
+   * Protects the API key with a passphrase, moving the stored key into the vault
+   * @param passphrase The passphrase that will unlock the vault
+   * @param newApiKey Optional API key to protect instead of the stored one
+   * @throws Error if there is no API key to protect or the vault can't be created
+   */
+  const enableVaultHandler = useCallback(async (passphrase: string, newApiKey?: string): Promise<void> => {
+    await apiKeyStorage.enableVault(passphrase, newApiKey);
+    setError(null);
+    showSuccess('API key protected with your passphrase');
+  }, [showSuccess]);
+
+  /**
+   * Stops protecting the API key with a passphrase
+   * @throws Error if the vault is locked
+   */
+  const disableVaultHandler = useCallback((): void => {
+    apiKeyStorage.disableVault();
+    showSuccess('Passphrase protection turned off');
+  }, [showSuccess]);
+
   /**
    * Validates the format of an API key
    * @param apiKey The API key to validate
@@ -194,7 +283,12 @@ export const ApiKeyProvider: React.FC<ApiKeyProviderProps> = ({ children }) => {
     setApiKey: setApiKeyHandler,
     removeApiKey: removeApiKeyHandler,
     validateApiKey: validateApiKeyHandler,
-    hasApiKey: hasApiKeyHandler
+    hasApiKey: hasApiKeyHandler,
+    vaultStatus,
+    unlockVault: unlockVaultHandler,
+    lockVault: lockVaultHandler,
+    enableVault: enableVaultHandler,
+    disableVault: disableVaultHandler
   };
 
   return (
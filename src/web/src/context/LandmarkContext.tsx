@@ -0,0 +1,158 @@
+import React, { createContext, useContext, useState, useCallback, useMemo, ReactNode } from 'react'; // v18.2.0
+import { landmarkStorage, getDefaultLandmark } from '../services/storage/landmarkStorage';
+import { useNotificationContext } from './NotificationContext';
+import { Landmark } from '../types/landmark.types';
+
+/**
+ * Interface defining the shape of the landmark context
+ */
+interface LandmarkContextType {
+  /** Landmarks (venues) the user manages */
+  landmarks: Landmark[];
+  /** Currently selected landmark */
+  selectedLandmark: Landmark;
+  /** ID of the currently selected landmark, used in API requests and cache keys */
+  selectedLandmarkId: string;
+  /** Switches to another landmark and stores the selection */
+  selectLandmark: (landMarkId: string) => boolean;
+  /** Adds a landmark, or renames it if the ID already exists */
+  saveLandmark: (landmark: Landmark) => boolean;
+  /** Removes a landmark; the last remaining landmark cannot be removed */
+  removeLandmark: (landMarkId: string) => boolean;
+  /** Validates the format of a landmark ID */
+  validateLandmarkId: (landMarkId: string) => boolean;
+}
+
+/**
+ * Props for the LandmarkProvider component
+ */
+interface LandmarkProviderProps {
+  /** React children */
+  children: ReactNode;
+}
+
+/**
+ * Create the landmark context with undefined as default value
+ */
+export const LandmarkContext = createContext<LandmarkContextType | undefined>(undefined);
+
+/**
+ * Provider component that manages the list of landmarks and the selected landmark
+ *
+ * The selection is kept in storage, where the API services and cache storage read it,
+ * and in state so that hooks depending on the landmark refetch when it changes.
+ *
+ * @param props Component props including children
+ * @returns A React component that provides landmark context
+ */
+export const LandmarkProvider: React.FC<LandmarkProviderProps> = ({ children }) => {
+  // Initialize from storage so the first render already uses the stored selection
+  const [landmarks, setLandmarks] = useState<Landmark[]>(() => landmarkStorage.getLandmarks());
+  const [selectedLandmarkId, setSelectedLandmarkId] = useState<string>(
+    () => landmarkStorage.getSelectedLandmarkId()
+  );
+
+  // Access notification context for showing messages
+  const { showSuccess, showError } = useNotificationContext();
+
+  /**
+   * Switches to another landmark
+   * @param landMarkId The ID of the landmark to select
+   * @returns True if the landmark was selected, false otherwise
+   */
+  const selectLandmarkHandler = useCallback((landMarkId: string): boolean => {
+    const result = landmarkStorage.setSelectedLandmarkId(landMarkId);
+
+    if (result) {
+      setSelectedLandmarkId(landMarkId);
+    } else {
+      showError('Failed to switch venue');
+    }
+
+    return result;
+  }, [showError]);
+
+  /**
+   * Adds or renames a landmark
+   * @param landmark The landmark to save
+   * @returns True if the landmark was saved, false otherwise
+   */
+  const saveLandmarkHandler = useCallback((landmark: Landmark): boolean => {
+    if (!landmarkStorage.validateLandmarkId(landmark.id)) {
+      showError('Invalid landmark ID');
+      return false;
+    }
+
+    const result = landmarkStorage.saveLandmark(landmark);
+
+    if (result) {
+      setLandmarks(landmarkStorage.getLandmarks());
+      showSuccess('Venue saved successfully');
+    } else {
+      showError('Failed to save venue');
+    }
+
+    return result;
+  }, [showSuccess, showError]);
+
+  /**
+   * Removes a landmark
+   * @param landMarkId The ID of the landmark to remove
+   * @returns True if the landmark was removed, false otherwise
+   */
+  const removeLandmarkHandler = useCallback((landMarkId: string): boolean => {
+    const result = landmarkStorage.removeLandmark(landMarkId);
+
+    if (result) {
+      setLandmarks(landmarkStorage.getLandmarks());
+      // Removing the selected landmark moves the selection in storage
+      setSelectedLandmarkId(landmarkStorage.getSelectedLandmarkId());
+      showSuccess('Venue removed');
+    } else {
+      showError('Failed to remove venue');
+    }
+
+    return result;
+  }, [showSuccess, showError]);
+
+  // Fall back to a placeholder entry if the selected ID isn't in the list
+  const selectedLandmark = useMemo((): Landmark => {
+    const defaultLandmark = getDefaultLandmark();
+    return landmarks.find(landmark => landmark.id === selectedLandmarkId) ||
+      (selectedLandmarkId === defaultLandmark.id
+        ? defaultLandmark
+        : { id: selectedLandmarkId, name: selectedLandmarkId });
+  }, [landmarks, selectedLandmarkId]);
+
+  // Create the context value object
+  const contextValue: LandmarkContextType = {
+    landmarks,
+    selectedLandmark,
+    selectedLandmarkId,
+    selectLandmark: selectLandmarkHandler,
+    saveLandmark: saveLandmarkHandler,
+    removeLandmark: removeLandmarkHandler,
+    validateLandmarkId: landmarkStorage.validateLandmarkId
+  };
+
+  return (
+    <LandmarkContext.Provider value={contextValue}>
+      {children}
+    </LandmarkContext.Provider>
+  );
+};
+
+/**
+ * Custom hook that provides access to the landmark context
+ * @returns The landmark context value containing the selected landmark and management functions
+ * @throws Error if used outside of a LandmarkProvider
+ */
+export const useLandmarkContext = (): LandmarkContextType => {
+  const context = useContext(LandmarkContext);
+
+  if (context === undefined) {
+    throw new Error('useLandmarkContext must be used within a LandmarkProvider');
+  }
+
+  return context;
+};
\ No newline at end of file
@@ -0,0 +1,160 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, ReactNode } from 'react'; // v18.2.0
+import { offlineQueueService } from '../services/offline/offlineQueueService';
+import { useNotificationContext } from './NotificationContext';
+import { QueuedPass, QueuedPassStatus, OfflineSyncResult } from '../types/offline.types';
+
+/**
+ * Interface defining the shape of the offline context
+ */
+interface OfflineContextType {
+  /** Whether the browser reports a network connection */
+  isOnline: boolean;
+  /** Whether queued passes are being sent */
+  isSyncing: boolean;
+  /** Passes waiting to be sent */
+  queuedPasses: QueuedPass[];
+  /** Queued passes the API rejected */
+  conflicts: QueuedPass[];
+  /** Sends the queued passes now */
+  syncNow: () => Promise<void>;
+  /** Queues a conflicting pass again and sends it */
+  retryConflict: (id: string) => Promise<void>;
+  /** Removes a conflicting pass without creating it */
+  dismissConflict: (id: string) => Promise<void>;
+}
+
+/**
+ * Props for the OfflineProvider component
+ */
+interface OfflineProviderProps {
+  /** React children */
+  children: ReactNode;
+}
+
+/**
+ * Create the offline context with undefined as default value
+ */
+export const OfflineContext = createContext<OfflineContextType | undefined>(undefined);
+
+/**
+ * Provider component that tracks the connection and the offline pass queue
+ *
+ * Queued passes are sent whenever the connection is restored, and the user is told
+ * how many were created and how many were rejected.
+ *
+ * @param props Component props including children
+ * @returns A React component that provides offline context
+ */
+export const OfflineProvider: React.FC<OfflineProviderProps> = ({ children }) => {
+  const [isOnline, setIsOnline] = useState<boolean>(() => offlineQueueService.isOnline());
+  const [isSyncing, setIsSyncing] = useState<boolean>(false);
+  const [queue, setQueue] = useState<QueuedPass[]>([]);
+
+  // Access notification context for showing messages
+  const { showSuccess, showWarning, showInfo } = useNotificationContext();
+
+  /**
+   * Tells the user the outcome of a sync
+   * @param result The outcome of the sync
+   */
+  const reportSyncResult = useCallback((result: OfflineSyncResult) => {
+    if (result.conflicts.length > 0) {
+      showWarning(`${result.conflicts.length} queued pass${result.conflicts.length === 1 ? ' was' : 'es were'} rejected. Review them in the connection menu.`);
+    } else if (result.synced > 0) {
+      showSuccess(`${result.synced} queued pass${result.synced === 1 ? '' : 'es'} created`);
+    }
+  }, [showSuccess, showWarning]);
+
+  /**
+   * Runs a sync and reports its outcome
+   * @param sync Function starting the sync
+   */
+  const runSync = useCallback(async (sync: () => Promise<OfflineSyncResult>) => {
+    setIsSyncing(true);
+    try {
+      reportSyncResult(await sync());
+    } finally {
+      setIsSyncing(offlineQueueService.isSyncing);
+    }
+  }, [reportSyncResult]);
+
+  // Follow the queue and send queued passes whenever the connection is restored
+  useEffect(() => {
+    const unsubscribe = offlineQueueService.subscribe(setQueue);
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      runSync(() => offlineQueueService.sync());
+    };
+    const handleOffline = () => {
+      setIsOnline(false);
+      showInfo('You are offline. New passes will be queued and created when the connection is restored.');
+    };
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    // Send passes left from a previous session
+    if (offlineQueueService.isOnline()) {
+      runSync(() => offlineQueueService.sync());
+    }
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [runSync, showInfo]);
+
+  const syncNow = useCallback(() => runSync(() => offlineQueueService.sync()), [runSync]);
+
+  const retryConflict = useCallback(
+    (id: string) => runSync(() => offlineQueueService.retryConflict(id)),
+    [runSync]
+  );
+
+  const dismissConflict = useCallback(async (id: string) => {
+    await offlineQueueService.dismissConflict(id);
+  }, []);
+
+  const queuedPasses = useMemo(
+    () => queue.filter(item => item.status !== QueuedPassStatus.CONFLICT),
+    [queue]
+  );
+  const conflicts = useMemo(
+    () => queue.filter(item => item.status === QueuedPassStatus.CONFLICT),
+    [queue]
+  );
+
+  // Create the context value object
+  const contextValue: OfflineContextType = {
+    isOnline,
+    isSyncing,
+    queuedPasses,
+    conflicts,
+    syncNow,
+    retryConflict,
+    dismissConflict
+  };
+
+  return (
+    <OfflineContext.Provider value={contextValue}>
+      {children}
+    </OfflineContext.Provider>
+  );
+};
+
+/**
+ * Custom hook that provides access to the offline context
+ * @returns The offline context value containing the connection state and the pass queue
+ * @throws Error if used outside of an OfflineProvider
+ */
+export const useOfflineContext = (): OfflineContextType => {
+  const context = useContext(OfflineContext);
+
+  if (context === undefined) {
+    throw new Error('useOfflineContext must be used within an OfflineProvider');
+  }
+
+  return context;
+};
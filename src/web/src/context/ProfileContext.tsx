@@ -0,0 +1,164 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react'; // v18.2.0
+import { profileService } from '../services/profiles/profileService';
+import { DEFAULT_PROFILE_ID } from '../services/storage/profileStorage';
+import { useNotificationContext } from './NotificationContext';
+import { ApiKeyProfile, ApiKeyProfileInput } from '../types/profile.types';
+
+/**
+ * Interface defining the shape of the profile context
+ */
+interface ProfileContextType {
+  /** Every API key profile, with the default profile first */
+  profiles: ApiKeyProfile[];
+  /** Profile in use, whose API key, venues and API address the app works with */
+  activeProfile: ApiKeyProfile;
+  /** Starts using another profile */
+  switchProfile: (profileId: string) => boolean;
+  /** Adds a profile and returns it, or null if a detail is invalid */
+  createProfile: (input: ApiKeyProfileInput) => ApiKeyProfile | null;
+  /** Changes the name, venue or API address of a profile */
+  updateProfile: (profileId: string, input: ApiKeyProfileInput) => boolean;
+  /** Deletes a profile and the data stored for it; the default profile cannot be deleted */
+  deleteProfile: (profileId: string) => Promise<boolean>;
+  /** ID of the profile that always exists */
+  defaultProfileId: string;
+}
+
+/**
+ * Props for the ProfileProvider component
+ */
+interface ProfileProviderProps {
+  /** React children */
+  children: ReactNode;
+}
+
+/**
+ * Create the profile context with undefined as default value
+ */
+export const ProfileContext = createContext<ProfileContextType | undefined>(undefined);
+
+/**
+ * Provider component that manages the API key profiles and the profile in use
+ *
+ * The children are mounted again whenever another profile is selected, so the contexts
+ * and pages below load the new profile's API key, venues and data from scratch instead
+ * of showing anything fetched with the previous profile's credentials.
+ *
+ * @param props Component props including children
+ * @returns A React component that provides profile context
+ */
+export const ProfileProvider: React.FC<ProfileProviderProps> = ({ children }) => {
+  // Initialize from storage so the first render already uses the stored profile
+  const [profiles, setProfiles] = useState<ApiKeyProfile[]>(() => profileService.getProfiles());
+  const [activeProfile, setActiveProfile] = useState<ApiKeyProfile>(() => profileService.getActiveProfile());
+
+  // Access notification context for showing messages
+  const { showSuccess, showError } = useNotificationContext();
+
+  // Follow changes made through the profile service
+  useEffect(() => {
+    return profileService.subscribe((active, all) => {
+      setActiveProfile(active);
+      setProfiles(all);
+    });
+  }, []);
+
+  /**
+   * Starts using another profile
+   * @param profileId The ID of the profile to use
+   * @returns True if the profile is now in use, false otherwise
+   */
+  const switchProfileHandler = useCallback((profileId: string): boolean => {
+    try {
+      const profile = profileService.switchProfile(profileId);
+      showSuccess(`Switched to ${profile.name}`);
+      return true;
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to switch profile');
+      return false;
+    }
+  }, [showSuccess, showError]);
+
+  /**
+   * Adds a profile
+   * @param input The name, venue and API address of the profile
+   * @returns The new profile, or null if it could not be added
+   */
+  const createProfileHandler = useCallback((input: ApiKeyProfileInput): ApiKeyProfile | null => {
+    try {
+      const profile = profileService.createProfile(input);
+      showSuccess('Profile added');
+      return profile;
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to add profile');
+      return null;
+    }
+  }, [showSuccess, showError]);
+
+  /**
+   * Changes a profile
+   * @param profileId The ID of the profile
+   * @param input The new details of the profile
+   * @returns True if the profile was saved, false otherwise
+   */
+  const updateProfileHandler = useCallback((profileId: string, input: ApiKeyProfileInput): boolean => {
+    try {
+      profileService.updateProfile(profileId, input);
+      showSuccess('Profile saved');
+      return true;
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to save profile');
+      return false;
+    }
+  }, [showSuccess, showError]);
+
+  /**
+   * Deletes a profile
+   * @param profileId The ID of the profile
+   * @returns Promise resolving to true if the profile was deleted, false otherwise
+   */
+  const deleteProfileHandler = useCallback(async (profileId: string): Promise<boolean> => {
+    try {
+      await profileService.deleteProfile(profileId);
+      showSuccess('Profile deleted');
+      return true;
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to delete profile');
+      return false;
+    }
+  }, [showSuccess, showError]);
+
+  // Create the context value object
+  const contextValue: ProfileContextType = {
+    profiles,
+    activeProfile,
+    switchProfile: switchProfileHandler,
+    createProfile: createProfileHandler,
+    updateProfile: updateProfileHandler,
+    deleteProfile: deleteProfileHandler,
+    defaultProfileId: DEFAULT_PROFILE_ID
+  };
+
+  return (
+    <ProfileContext.Provider value={contextValue}>
+      <React.Fragment key={activeProfile.id}>
+        {children}
+      </React.Fragment>
+    </ProfileContext.Provider>
+  );
+};
+
+/**
+ * Custom hook that provides access to the profile context
+ * @returns The profile context value containing the active profile and management functions
+ * @throws Error if used outside of a ProfileProvider
+ */
+export const useProfileContext = (): ProfileContextType => {
+  const context = useContext(ProfileContext);
+
+  if (context === undefined) {
+    throw new Error('useProfileContext must be used within a ProfileProvider');
+  }
+
+  return context;
+};
\ No newline at end of file
@@ -0,0 +1,211 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react'; // v18.2.0
+import { passScheduleService } from '../services/schedule/passScheduleService';
+import { useNotificationContext } from './NotificationContext';
+import { useApiKeyContext } from './ApiKeyContext';
+import { useLandmarkContext } from './LandmarkContext';
+import { Event } from '../types/event.types';
+import { PassFormData } from '../types/form.types';
+import { ScheduledJob, ScheduledJobStatus, ScheduleRunResult } from '../types/schedule.types';
+
+/**
+ * How often the scheduler checks for batches that have come due, in milliseconds
+ */
+export const SCHEDULE_CHECK_INTERVAL = 30000;
+
+/**
+ * Interface defining the shape of the schedule context
+ */
+interface ScheduleContextType {
+  /** Every scheduled batch, soonest first */
+  jobs: ScheduledJob[];
+  /** Whether due batches are being run */
+  isRunning: boolean;
+  /** Schedules passes to be created a set number of hours before their event */
+  scheduleJob: (event: Event, passes: PassFormData[], hoursBeforeEvent: number) => ScheduledJob;
+  /** Runs a batch now instead of waiting for its run time */
+  runJobNow: (jobId: string) => Promise<void>;
+  /** Removes a batch, cancelling it if it hasn't run yet */
+  removeJob: (jobId: string) => boolean;
+}
+
+/**
+ * Props for the ScheduleProvider component
+ */
+interface ScheduleProviderProps {
+  /** React children */
+  children: ReactNode;
+}
+
+/**
+ * Create the schedule context with undefined as default value
+ */
+export const ScheduleContext = createContext<ScheduleContextType | undefined>(undefined);
+
+/**
+ * Describes the outcome of a scheduled batch
+ * @param job The batch that ran
+ * @returns Summary of the created and rejected passes
+ */
+const describeJobResult = (job: ScheduledJob): string => {
+  const created = job.result?.totalSuccess || 0;
+  const rejected = job.result?.totalFailed || 0;
+
+  return `${created} pass${created === 1 ? '' : 'es'} created for ${job.eventName}` +
+    (rejected > 0 ? `, ${rejected} rejected` : '');
+};
+
+/**
+ * Provider component that runs scheduled pass batches while the app is open
+ *
+ * When the app opens it catches up on batches that came due while it was closed, then
+ * checks for due batches periodically and whenever the connection is restored. The user
+ * is told the outcome of every batch that runs.
+ *
+ * @param props Component props including children
+ * @returns A React component that provides schedule context
+ */
+export const ScheduleProvider: React.FC<ScheduleProviderProps> = ({ children }) => {
+  const [jobs, setJobs] = useState<ScheduledJob[]>([]);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+
+  // Access notification context for showing messages
+  const { showSuccess, showWarning } = useNotificationContext();
+
+  // Batches are only run once an API key has been entered
+  const { apiKey } = useApiKeyContext();
+
+  // Access the selected venue for new batches
+  const { selectedLandmarkId } = useLandmarkContext();
+
+  // Whether batches left running by a closed tab have been dealt with
+  const recoveredRef = useRef<boolean>(false);
+
+  /**
+   * Tells the user the outcome of running the due batches
+   * @param result The outcome of the run
+   */
+  const reportRunResult = useCallback((result: ScheduleRunResult) => {
+    if (result.caughtUp > 0) {
+      showSuccess(
+        `${result.caughtUp} scheduled batch${result.caughtUp === 1 ? '' : 'es'} came due while the app was closed and ` +
+        `${result.caughtUp === 1 ? 'has' : 'have'} now run.`
+      );
+    }
+
+    result.completed.forEach(job => {
+      if (job.result && job.result.totalFailed > 0) {
+        showWarning(`Scheduled batch: ${describeJobResult(job)}. Review it on the Schedule page.`);
+      } else {
+        showSuccess(`Scheduled batch: ${describeJobResult(job)}.`);
+      }
+    });
+
+    result.failed.forEach(job => {
+      showWarning(`The scheduled batch for ${job.eventName} failed: ${job.error}`);
+    });
+
+    if (result.missed.length > 0) {
+      showWarning(
+        `${result.missed.length} scheduled batch${result.missed.length === 1 ? ' was' : 'es were'} not run ` +
+        'because the event had already started. Review them on the Schedule page.'
+      );
+    }
+  }, [showSuccess, showWarning]);
+
+  /**
+   * Runs the due batches and reports their outcome
+   */
+  const runDueJobs = useCallback(async () => {
+    if (!apiKey || passScheduleService.getDueJobs().length === 0) {
+      return;
+    }
+
+    setIsRunning(true);
+    try {
+      reportRunResult(await passScheduleService.runDueJobs());
+    } finally {
+      setIsRunning(false);
+    }
+  }, [apiKey, reportRunResult]);
+
+  // Follow the scheduled batches
+  useEffect(() => passScheduleService.subscribe(setJobs), []);
+
+  // Catch up on batches that came due while the app was closed, then check periodically
+  useEffect(() => {
+    if (!recoveredRef.current) {
+      recoveredRef.current = true;
+
+      const interrupted = passScheduleService.recoverInterruptedJobs();
+      if (interrupted.length > 0) {
+        showWarning(
+          `${interrupted.length} scheduled batch${interrupted.length === 1 ? ' was' : 'es were'} interrupted when ` +
+          'the app was closed. Resume them from the Create Passes page.'
+        );
+      }
+    }
+
+    runDueJobs();
+
+    const interval = window.setInterval(runDueJobs, SCHEDULE_CHECK_INTERVAL);
+    window.addEventListener('online', runDueJobs);
+
+    return () => {
+      window.clearInterval(interval);
+      window.removeEventListener('online', runDueJobs);
+    };
+  }, [runDueJobs, showWarning]);
+
+  const scheduleJob = useCallback((event: Event, passes: PassFormData[], hoursBeforeEvent: number) => {
+    const requests = passes.map(pass => ({ ...pass, spotType: pass.spotType.toString() }));
+    return passScheduleService.scheduleJob(event, requests, hoursBeforeEvent, selectedLandmarkId);
+  }, [selectedLandmarkId]);
+
+  const runJobNow = useCallback(async (jobId: string) => {
+    setIsRunning(true);
+    try {
+      const job = await passScheduleService.runJobNow(jobId);
+      const completed = job.status === ScheduledJobStatus.COMPLETED;
+      reportRunResult({
+        completed: completed ? [job] : [],
+        failed: completed ? [] : [job],
+        missed: [],
+        caughtUp: 0
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  }, [reportRunResult]);
+
+  const removeJob = useCallback((jobId: string) => passScheduleService.removeJob(jobId), []);
+
+  // Create the context value object
+  const contextValue: ScheduleContextType = {
+    jobs,
+    isRunning,
+    scheduleJob,
+    runJobNow,
+    removeJob
+  };
+
+  return (
+    <ScheduleContext.Provider value={contextValue}>
+      {children}
+    </ScheduleContext.Provider>
+  );
+};
+
+/**
+ * Custom hook that provides access to the schedule context
+ * @returns The schedule context value containing the scheduled batches and functions to manage them
+ * @throws Error if used outside of a ScheduleProvider
+ */
+export const useScheduleContext = (): ScheduleContextType => {
+  const context = useContext(ScheduleContext);
+
+  if (context === undefined) {
+    throw new Error('useScheduleContext must be used within a ScheduleProvider');
+  }
+
+  return context;
+};
@@ -17,6 +17,34 @@ export {
   useApiKeyContext 
 } from './ApiKeyContext';
 
+// Re-export the profile context for switching between API key profiles
+export { 
+  ProfileContext, 
+  ProfileProvider, 
+  useProfileContext 
+} from './ProfileContext';
+
+// Re-export the landmark context for venue selection
+export { 
+  LandmarkContext, 
+  LandmarkProvider, 
+  useLandmarkContext 
+} from './LandmarkContext';
+
+// Re-export the offline context for connectivity and queued passes
+export { 
+  OfflineContext, 
+  OfflineProvider, 
+  useOfflineContext 
+} from './OfflineContext';
+
+// Re-export the schedule context for scheduled pass batches
+export { 
+  ScheduleContext, 
+  ScheduleProvider, 
+  useScheduleContext 
+} from './ScheduleContext';
+
 // Re-export the notification context for user feedback
 export { 
   NotificationContext, 
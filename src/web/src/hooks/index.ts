@@ -5,9 +5,21 @@
  * @version 1.0.0
  */
 
+// Account directory hook
+export { useAccountDirectory } from './useAccountDirectory';
+
+// Dashboard analytics hook
+export { useAnalytics } from './useAnalytics';
+
+// Runtime settings hook
+export { useAppConfig } from './useAppConfig';
+
 // API key management hook
 export { useApiKey } from './useApiKey';
 
+// API key health hook
+export { useApiKeyHealth } from './useApiKeyHealth';
+
 // Error handling hook
 export { useErrorHandler } from './useErrorHandler';
 
@@ -17,6 +29,9 @@ export { useEvents } from './useEvents';
 // Form management hooks
 export { useForm, useBatchForm } from './useForm';
 
+// Lot capacity and pass inventory hook
+export { useInventory } from './useInventory';
+
 // Local storage hook
 export { default as useLocalStorage } from './useLocalStorage';
 
@@ -26,6 +41,15 @@ export { useMutation } from './useMutation';
 // Passes management hook
 export { usePasses } from './usePasses';
 
+// Pass cloning hook
+export { usePassClone } from './usePassClone';
+
+// Cross-event pass search hook
+export { usePassSearch } from './usePassSearch';
+
+// Pass templates hook
+export { usePassTemplates } from './usePassTemplates';
+
 // Query hook for data fetching
 export { useQuery } from './useQuery';
 
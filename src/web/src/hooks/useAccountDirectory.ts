@@ -0,0 +1,64 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'; // ^18.2.0
+import { accountDirectoryService } from '../services/accounts/accountDirectoryService';
+import { getAccountDirectory } from '../services/storage/accountDirectoryStorage';
+import { useLandmarkContext } from '../context/LandmarkContext';
+import { AccountDirectory, AccountDirectoryHookResult, AccountRecord } from '../types/account.types';
+
+/**
+ * Custom hook for the account directory of the selected venue.
+ * The directory is filled in as passes are loaded and created anywhere in the app, and
+ * the hook updates whenever it changes.
+ *
+ * @returns Object containing the known accounts and functions to search and manage them
+ */
+export const useAccountDirectory = (): AccountDirectoryHookResult => {
+  const { selectedLandmarkId } = useLandmarkContext();
+  const [directory, setDirectory] = useState<AccountDirectory>(() => getAccountDirectory(selectedLandmarkId));
+
+  // Reload the directory when the venue changes and whenever it is updated
+  useEffect(() => {
+    setDirectory(getAccountDirectory(selectedLandmarkId));
+
+    return accountDirectoryService.subscribe(landMarkId => {
+      if (landMarkId === selectedLandmarkId) {
+        setDirectory(getAccountDirectory(landMarkId));
+      }
+    });
+  }, [selectedLandmarkId]);
+
+  // Every account, most recently seen first
+  const accounts = useMemo(
+    () => Object.values(directory).sort((a, b) => b.lastSeen.localeCompare(a.lastSeen)),
+    [directory]
+  );
+
+  // Find accounts matching a query
+  const searchAccounts = useCallback((query: string, limit?: number): AccountRecord[] => {
+    return accountDirectoryService.searchAccounts(directory, query, limit);
+  }, [directory]);
+
+  // Look up an account by ID
+  const getAccount = useCallback((accountId: string): AccountRecord | null => {
+    return directory[accountId.trim()] || null;
+  }, [directory]);
+
+  // Remove an account
+  const removeAccount = useCallback((accountId: string) => {
+    accountDirectoryService.removeAccount(accountId, selectedLandmarkId);
+  }, [selectedLandmarkId]);
+
+  // Remove every account of the venue
+  const clearDirectory = useCallback(() => {
+    accountDirectoryService.clear(selectedLandmarkId);
+  }, [selectedLandmarkId]);
+
+  return {
+    accounts,
+    searchAccounts,
+    getAccount,
+    removeAccount,
+    clearDirectory
+  };
+};
+
+export default useAccountDirectory;
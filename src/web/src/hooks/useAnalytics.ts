@@ -0,0 +1,125 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'; // ^18.2.0
+import { useEvents } from './useEvents';
+import { useApiKey } from './useApiKey';
+import { passesApi } from '../services/api/passesApi';
+import { analyticsService } from '../services/analytics/analyticsService';
+import { accountDirectoryService } from '../services/accounts/accountDirectoryService';
+import { getPassesCache, setPassesCache } from '../services/storage/cacheStorage';
+import { useLandmarkContext } from '../context/LandmarkContext';
+import { ParkHubPass } from '../types/api.types';
+import {
+  AnalyticsDateRange,
+  AnalyticsHookResult,
+  AnalyticsRangePreset
+} from '../types/analytics.types';
+
+/**
+ * Custom hook for the dashboard analytics.
+ * Loads the passes of every event at the selected venue, reusing cached passes where
+ * possible, and aggregates the passes created within the selected date range.
+ *
+ * @param initialPreset - Date range preset selected at first (defaults to the last 30 days)
+ * @returns Object containing the aggregated passes and functions to change the date range
+ */
+export const useAnalytics = (
+  initialPreset: AnalyticsRangePreset = AnalyticsRangePreset.LAST_30_DAYS
+): AnalyticsHookResult => {
+  const { events, loading: eventsLoading, error } = useEvents();
+  const { apiKey } = useApiKey();
+  const { selectedLandmarkId } = useLandmarkContext();
+
+  const [preset, setPreset] = useState<AnalyticsRangePreset>(initialPreset);
+  const [range, setRange] = useState<AnalyticsDateRange>(() => analyticsService.getPresetRange(initialPreset));
+  const [passes, setPasses] = useState<ParkHubPass[]>([]);
+  const [passesLoading, setPassesLoading] = useState<boolean>(false);
+  const [failedEvents, setFailedEvents] = useState<number>(0);
+
+  // Only the most recent load may update state, so switching venues never mixes passes
+  const loadIdRef = useRef<number>(0);
+
+  /**
+   * Loads the passes of every event
+   * @param useCache - Whether cached passes may be used instead of fetching them
+   */
+  const loadPasses = useCallback(async (useCache: boolean) => {
+    const loadId = ++loadIdRef.current;
+    setPassesLoading(true);
+
+    let failed = 0;
+    const results = await Promise.all(events.map(async event => {
+      const cached = useCache ? getPassesCache(event.id, selectedLandmarkId) : null;
+      if (cached) {
+        return cached;
+      }
+
+      try {
+        const response = await passesApi.getPassesForEvent({ eventId: event.id, landMarkId: selectedLandmarkId });
+        if (response.success && Array.isArray(response.data)) {
+          setPassesCache(event.id, response.data, undefined, selectedLandmarkId);
+          accountDirectoryService.recordPasses(response.data, [event], selectedLandmarkId);
+          return response.data;
+        }
+      } catch (err) {
+        console.error(`Error loading passes for event ${event.id}:`, err);
+      }
+
+      failed++;
+      return [];
+    }));
+
+    if (loadId === loadIdRef.current) {
+      setPasses(results.flat());
+      setFailedEvents(failed);
+      setPassesLoading(false);
+    }
+  }, [events, selectedLandmarkId]);
+
+  // Load passes whenever the events change
+  useEffect(() => {
+    if (apiKey && events.length > 0) {
+      loadPasses(true);
+    } else {
+      loadIdRef.current++;
+      setPasses([]);
+      setFailedEvents(0);
+      setPassesLoading(false);
+    }
+  }, [apiKey, events, loadPasses]);
+
+  // Select a preset range
+  const selectPreset = useCallback((selected: AnalyticsRangePreset) => {
+    setPreset(selected);
+    if (selected !== AnalyticsRangePreset.CUSTOM) {
+      setRange(analyticsService.getPresetRange(selected));
+    }
+  }, []);
+
+  // Set a custom range
+  const setCustomRange = useCallback((customRange: AnalyticsDateRange) => {
+    setPreset(AnalyticsRangePreset.CUSTOM);
+    setRange(customRange);
+  }, []);
+
+  // Reload every event's passes from the API
+  const refresh = useCallback(() => loadPasses(false), [loadPasses]);
+
+  // Aggregate the passes created within the range
+  const analytics = useMemo(
+    () => analyticsService.aggregatePasses(passes, events, range),
+    [passes, events, range]
+  );
+
+  return {
+    analytics,
+    range,
+    preset,
+    selectPreset,
+    setCustomRange,
+    loading: eventsLoading || passesLoading,
+    error,
+    failedEvents,
+    refresh
+  };
+};
+
+export default useAnalytics;
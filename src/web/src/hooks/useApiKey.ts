@@ -1,7 +1,9 @@
 import { useState, useEffect, useCallback } from 'react'; // ^18.2.0
 import { apiKeyStorage } from '../services/storage/apiKeyStorage';
+import { apiKeyVault } from '../services/vault/apiKeyVault';
 import { ErrorType, ErrorCode, AuthenticationError } from '../types/error.types';
 import { createAuthenticationError } from '../utils/error-handling';
+import { VaultStatus } from '../types/vault.types';
 
 /**
  * Interface defining the return type of the useApiKey hook
@@ -13,14 +15,20 @@ interface UseApiKeyResult {
   loading: boolean;
   /** Authentication error if any occurred during API key operations */
   error: AuthenticationError | null;
-  /** Function to set a new API key */
-  setApiKey: (apiKey: string) => boolean;
+  /** Function to set a new API key, resolving once it has been stored */
+  setApiKey: (apiKey: string) => Promise<boolean>;
   /** Function to remove the API key */
   removeApiKey: () => boolean;
   /** Function to validate an API key format */
   validateApiKey: (apiKey: string) => boolean;
   /** Function to check if an API key exists */
   hasApiKey: () => boolean;
+  /** Whether the API key is protected with a passphrase, and whether it is unlocked */
+  vaultStatus: VaultStatus;
+  /** Function to unlock the API key with the passphrase, throwing if the passphrase is wrong */
+  unlockVault: (passphrase: string) => Promise<void>;
+  /** Function to protect the API key (the stored one unless another is given) with a passphrase */
+  enableVault: (passphrase: string, apiKey?: string) => Promise<void>;
 }
 
 /**
@@ -36,6 +44,8 @@ export const useApiKey = (): UseApiKeyResult => {
   const [loading, setLoading] = useState<boolean>(true);
   // Error state for API key operations
   const [error, setError] = useState<AuthenticationError | null>(null);
+  // State of the API key vault
+  const [vaultStatus, setVaultStatus] = useState<VaultStatus>(() => apiKeyVault.getStatus());
   
   // Load API key on mount
   useEffect(() => {
@@ -62,12 +72,22 @@ export const useApiKey = (): UseApiKeyResult => {
     loadApiKey();
   }, []);
   
+  // Follow the vault, whose API key is only available while it is unlocked
+  useEffect(() => {
+    return apiKeyVault.subscribe(status => {
+      setVaultStatus(status);
+      if (status !== VaultStatus.DISABLED) {
+        setApiKeyState(apiKeyVault.getSecret());
+      }
+    });
+  }, []);
+  
   /**
    * Sets a new API key in storage and updates state
    * @param newApiKey - The API key to store
-   * @returns True if successful, false otherwise
+   * @returns Promise resolving to true if successful, false otherwise
    */
-  const setNewApiKey = useCallback((newApiKey: string): boolean => {
+  const setNewApiKey = useCallback(async (newApiKey: string): Promise<boolean> => {
     setLoading(true);
     setError(null);
     
@@ -82,8 +102,8 @@ export const useApiKey = (): UseApiKeyResult => {
         return false;
       }
       
-      // Store API key
-      const success = apiKeyStorage.setApiKey(newApiKey);
+      // Store API key, waiting for the vault to save it in vault mode
+      const success = await apiKeyStorage.setApiKeyAsync(newApiKey);
       
       if (success) {
         setApiKeyState(newApiKey);
@@ -143,6 +163,25 @@ export const useApiKey = (): UseApiKeyResult => {
     }
   }, []);
   
+  /**
+   * Unlocks the API key vault
+   * @param passphrase - The passphrase the vault was created with
+   * @throws Error if the passphrase is wrong
+   */
+  const unlockVault = useCallback(async (passphrase: string): Promise<void> => {
+    await apiKeyVault.unlock(passphrase);
+  }, []);
+  
+  /**
+   * Protects the API key with a passphrase
+   * @param passphrase - The passphrase that will unlock the vault
+   * @param newApiKey - Optional API key to protect instead of the stored one
+   * @throws Error if there is no API key to protect or the vault can't be created
+   */
+  const enableVault = useCallback(async (passphrase: string, newApiKey?: string): Promise<void> => {
+    await apiKeyStorage.enableVault(passphrase, newApiKey);
+  }, []);
+  
   // Return the hook result with all API key management functionality
   return {
     apiKey,
@@ -151,7 +190,10 @@ export const useApiKey = (): UseApiKeyResult => {
     setApiKey: setNewApiKey,
     removeApiKey: removeCurrentApiKey,
     validateApiKey: apiKeyStorage.validateApiKey,
-    hasApiKey: apiKeyStorage.hasApiKey
+    hasApiKey: apiKeyStorage.hasApiKey,
+    vaultStatus,
+    unlockVault,
+    enableVault
   };
 };
 
@@ -0,0 +1,58 @@
+import { useState, useEffect, useCallback } from 'react'; // ^18.2.0
+import { apiKeyHealthService } from '../services/auth/apiKeyHealthService';
+import { useApiKeyContext } from '../context/ApiKeyContext';
+import { useLandmarkContext } from '../context/LandmarkContext';
+import { ApiKeyHealth, ApiKeyHealthHookResult } from '../types/auth.types';
+
+/**
+ * How often the API key is verified again while the app is open, so an expired key
+ * is noticed before the next batch of passes fails
+ */
+const REVERIFY_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * Custom hook for the health of the API key in use.
+ * The key is verified against the selected venue whenever the key or the venue changes,
+ * and again every 15 minutes.
+ *
+ * @returns Object containing the health of the key and a function to verify it again
+ */
+export const useApiKeyHealth = (): ApiKeyHealthHookResult => {
+  const { apiKey } = useApiKeyContext();
+  const { selectedLandmarkId } = useLandmarkContext();
+  const [health, setHealth] = useState<ApiKeyHealth>(() => apiKeyHealthService.getHealth());
+
+  // Follow the results of every verification, whichever component started it
+  useEffect(() => {
+    return apiKeyHealthService.subscribe(setHealth);
+  }, []);
+
+  // Verify the key when it or the venue changes, and again while it stays the same
+  useEffect(() => {
+    if (!apiKey) {
+      apiKeyHealthService.reset();
+      return undefined;
+    }
+
+    apiKeyHealthService.verify(selectedLandmarkId);
+    const timer = window.setInterval(() => {
+      apiKeyHealthService.verify(selectedLandmarkId);
+    }, REVERIFY_INTERVAL_MS);
+
+    return () => {
+      window.clearInterval(timer);
+    };
+  }, [apiKey, selectedLandmarkId]);
+
+  // Verify the key again on request
+  const verify = useCallback(() => {
+    return apiKeyHealthService.verify(selectedLandmarkId);
+  }, [selectedLandmarkId]);
+
+  return {
+    health,
+    verify
+  };
+};
+
+export default useApiKeyHealth;
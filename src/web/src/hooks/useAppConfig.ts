@@ -0,0 +1,49 @@
+import { useState, useEffect, useCallback } from 'react'; // ^18.2.0
+import { appConfigService } from '../services/config/appConfigService';
+import { AppConfigHookResult, ResolvedAppConfig, UserConfigOverrides } from '../types/config.types';
+
+/**
+ * Custom hook for the runtime settings of the application.
+ * The hook updates whenever the settings change.
+ *
+ * @returns Object containing the settings in effect and functions to override them
+ */
+export const useAppConfig = (): AppConfigHookResult => {
+  const [resolved, setResolved] = useState<ResolvedAppConfig>(() => appConfigService.getResolvedConfig());
+  const [overrides, setOverrides] = useState<UserConfigOverrides>(() => appConfigService.getOverrides());
+
+  // Follow the settings, which change when config.json loads or the user saves overrides
+  useEffect(() => {
+    return appConfigService.subscribe(config => {
+      setResolved(config);
+      setOverrides(appConfigService.getOverrides());
+    });
+  }, []);
+
+  // Check overrides without saving them
+  const validateOverrides = useCallback((values: Record<string, unknown>) => {
+    return appConfigService.validateOverrides(values);
+  }, []);
+
+  // Save the user's overrides
+  const saveOverrides = useCallback((values: Record<string, unknown>) => {
+    appConfigService.setOverrides(values);
+  }, []);
+
+  // Remove the user's overrides
+  const resetOverrides = useCallback(() => {
+    appConfigService.resetOverrides();
+  }, []);
+
+  return {
+    config: resolved.values,
+    sources: resolved.sources,
+    issues: resolved.issues,
+    overrides,
+    validateOverrides,
+    saveOverrides,
+    resetOverrides
+  };
+};
+
+export default useAppConfig;
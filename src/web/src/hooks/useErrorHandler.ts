@@ -1,5 +1,5 @@
 import { useCallback, useState } from 'react'; // v18.2.0
-import { AppError, ErrorType, ErrorHandlerOptions } from '../types/error.types';
+import { AppError, ErrorType, ErrorCode, ErrorHandlerOptions } from '../types/error.types';
 import { mapErrorToAppError, handleError } from '../utils/error-handling';
 import { getErrorMessage } from '../constants/errorMessages';
 import { isRetryableError, retry } from '../utils/retry-logic';
@@ -31,6 +31,14 @@ export const useErrorHandler = (options?: ErrorHandlerOptions) => {
     // Display appropriate notification based on error type
     switch (appError.type) {
       case ErrorType.AUTHENTICATION:
+        // The key is valid but may not access the venue, so another key isn't needed
+        if (appError.code === ErrorCode.LANDMARK_FORBIDDEN) {
+          showWarning(
+            `Venue Access Error: ${appError.message}. Please choose another venue or API key profile.`,
+            { autoClose: false }
+          );
+          break;
+        }
         showWarning(
           `API Key Error: ${appError.message}. Please update your API key to continue using the application.`,
           { autoClose: false }
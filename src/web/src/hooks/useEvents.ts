@@ -1,7 +1,9 @@
-import { useState, useEffect, useCallback, useMemo } from 'react'; // v18.2.0
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'; // v18.2.0
 import { useQuery } from './useQuery';
 import { useErrorHandler } from './useErrorHandler';
 import { eventsApi } from '../services/api/eventsApi';
+import { useLandmarkContext } from '../context/LandmarkContext';
+import { buildEventsUrl } from '../constants/apiEndpoints';
 import { 
   Event, 
   EventStatus, 
@@ -228,14 +230,27 @@ export const useEvents = (
   // Set up error handler
   const { handleError } = useErrorHandler();
   
+  // Get the selected landmark so events from different venues never mix
+  const { selectedLandmarkId } = useLandmarkContext();
+  const previousLandmarkId = useRef(selectedLandmarkId);
+  
   // Use the eventsApi service to fetch events
-  // This leverages the useQuery hook for caching, loading state, and error handling
+  // This leverages the useQuery hook for caching, loading state, and error handling.
+  // The landmark is part of the URL, so the query cache is scoped per landmark.
   const { 
     data,
     status,
     error,
     refetch
-  } = useQuery<ParkHubEvent[]>('/events');
+  } = useQuery<ParkHubEvent[]>(buildEventsUrl({ landMarkId: selectedLandmarkId }));
+  
+  // Clear the selected event when switching to another landmark
+  useEffect(() => {
+    if (previousLandmarkId.current !== selectedLandmarkId) {
+      previousLandmarkId.current = selectedLandmarkId;
+      setSelectedEventId(null);
+    }
+  }, [selectedLandmarkId]);
   
   // Map API response to application model
   const events = useMemo(() => {
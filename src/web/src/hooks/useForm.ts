@@ -16,9 +16,13 @@ import {
   BatchFormChangeHandler,
   BatchFormBlurHandler,
   BatchFormAddHandler,
-  BatchFormRemoveHandler
+  BatchFormRemoveHandler,
+  BatchFormImportHandler,
+  BatchFormBarcodeHandler,
+  BatchFormLoadHandler
 } from '../types/form.types';
-import { isFieldValid, isFormValid, validateField } from '../utils/validation';
+import { isFieldValid, isFormValid, validateField, findDuplicateBarcodes } from '../utils/validation';
+import { getPassesCache } from '../services/storage/cacheStorage';
 import { SpotType } from '../types/api.types';
 
 /**
@@ -325,6 +329,115 @@ export const useForm = (config: FormConfig): UseFormResult => {
   };
 };
 
+// Sequence number appended to pass form item IDs so items created in the same tick stay unique
+let passFormItemSequence = 0;
+
+/**
+ * Creates a pass form item for the batch form from pass data
+ * @param data - Initial pass data for the form item
+ * @param touched - Whether the fields should be marked as touched (e.g. for imported data)
+ * @returns A new pass form item with a unique ID
+ */
+const createPassFormItem = (data: PassFormData, touched = false): PassFormItem => {
+  const fieldNames = ['accountId', 'barcode', 'customerName', 'spotType', 'lotId'] as const;
+  
+  return {
+    id: `pass-${Date.now()}-${passFormItemSequence++}`,
+    data,
+    state: {
+      fields: fieldNames.reduce((fields, fieldName) => {
+        fields[fieldName] = { value: data[fieldName], touched, error: null };
+        return fields;
+      }, {} as Record<string, FormFieldState>),
+      isValid: false,
+      isDirty: touched,
+      isSubmitting: false,
+      submitCount: 0
+    }
+  };
+};
+
+/**
+ * Validates every pass in a batch, including checking barcodes against the other rows
+ * and the passes already cached for the event
+ * @param state - Current batch form state
+ * @returns The validated state, or the same state object if no errors changed
+ */
+const validateBatchPasses = (state: BatchPassFormState): BatchPassFormState => {
+  let allValid = true;
+  
+  // Check barcodes against the other rows and the passes already cached for the event
+  const cachedPasses = state.eventId ? getPassesCache(state.eventId) : null;
+  const duplicateBarcodes = findDuplicateBarcodes(
+    state.passes.map(pass => pass.data.barcode),
+    (cachedPasses || []).map(pass => pass.barcode)
+  );
+  
+  const newPasses = state.passes.map((pass, index) => {
+    // Create a validation result for each field
+    const errors: Record<string, string> = {};
+    let passValid = true;
+    
+    // Validate each field
+    Object.entries(pass.data).forEach(([fieldName, value]) => {
+      // Skip eventId as it's managed separately
+      if (fieldName === 'eventId') return;
+      
+      const validationResult = validateField(fieldName, value as string);
+      
+      if (!validationResult.isValid) {
+        passValid = false;
+        allValid = false;
+        Object.assign(errors, validationResult.errors);
+      }
+    });
+    
+    // Flag duplicates only once the barcode itself is well-formed
+    if (!errors.barcode && duplicateBarcodes[index]) {
+      passValid = false;
+      allValid = false;
+      errors.barcode = duplicateBarcodes[index];
+    }
+    
+    // Update field errors
+    const newFields = { ...pass.state.fields };
+    
+    Object.keys(newFields).forEach(fieldName => {
+      newFields[fieldName] = {
+        ...newFields[fieldName],
+        error: errors[fieldName] || null
+      };
+    });
+    
+    // Keep the same item when nothing changed so the validation effect doesn't run again
+    const unchanged = pass.state.isValid === passValid &&
+      Object.keys(newFields).every(fieldName => newFields[fieldName].error === pass.state.fields[fieldName].error);
+    
+    if (unchanged) {
+      return pass;
+    }
+    
+    return {
+      ...pass,
+      state: {
+        ...pass.state,
+        fields: newFields,
+        isValid: passValid
+      }
+    };
+  });
+  
+  if (state.isValid === allValid && newPasses.every((pass, index) => pass === state.passes[index])) {
+    return state;
+  }
+  
+  return {
+    ...state,
+    passes: newPasses,
+    isValid: allValid
+  };
+};
+
 /**
  * Custom React hook for managing batch form operations, specifically for creating multiple passes
  * @param config - Configuration object for batch form
@@ -344,38 +457,89 @@ export const useBatchForm = (config: {
   
   // Add a new form to the batch
   const handleAddForm: BatchFormAddHandler = useCallback(() => {
-    const newPassId = `pass-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
+    setBatchFormState(prev => ({
+      ...prev,
+      passes: [
+        ...prev.passes,
+        createPassFormItem({
+          eventId: prev.eventId,
+          accountId: '',
+          barcode: '',
+          customerName: '',
+          spotType: SpotType.REGULAR,
+          lotId: ''
+        })
+      ]
+    }));
+  }, []);
+  
+  // Append imported passes to the batch, assigning the current event ID
+  const handleImportForms: BatchFormImportHandler = useCallback((passes: PassFormData[]) => {
+    if (passes.length === 0) return;
     
     setBatchFormState(prev => ({
       ...prev,
       passes: [
         ...prev.passes,
-        {
-          id: newPassId,
-          data: {
-            eventId: prev.eventId,
-            accountId: '',
-            barcode: '',
-            customerName: '',
-            spotType: SpotType.REGULAR,
-            lotId: ''
-          },
+        ...passes.map(data => createPassFormItem({ ...data, eventId: prev.eventId }, true))
+      ]
+    }));
+  }, []);
+  
+  // Replace the batch with saved passes for the current event, such as a template's passes
+  const handleLoadForms: BatchFormLoadHandler = useCallback((passes: PassFormData[]) => {
+    setBatchFormState(prev => ({
+      ...prev,
+      passes: passes.map(data => createPassFormItem({ ...data, eventId: prev.eventId }))
+    }));
+  }, []);
+  
+  // Assign generated barcodes to rows, adding new rows for any left over
+  const handleAssignBarcodes: BatchFormBarcodeHandler = useCallback((barcodes: string[], overwrite: boolean) => {
+    if (barcodes.length === 0) return;
+    
+    setBatchFormState(prev => {
+      const remaining = [...barcodes];
+      
+      const passes = prev.passes.map(pass => {
+        if (remaining.length === 0 || (!overwrite && pass.data.barcode.trim() !== '')) {
+          return pass;
+        }
+        
+        const barcode = remaining.shift() as string;
+        
+        return {
+          ...pass,
+          data: { ...pass.data, barcode },
           state: {
+            ...pass.state,
+            isDirty: true,
             fields: {
-              accountId: { value: '', touched: false, error: null },
-              barcode: { value: '', touched: false, error: null },
-              customerName: { value: '', touched: false, error: null },
-              spotType: { value: SpotType.REGULAR, touched: false, error: null },
-              lotId: { value: '', touched: false, error: null }
-            },
-            isValid: false,
-            isDirty: false,
-            isSubmitting: false,
-            submitCount: 0
+              ...pass.state.fields,
+              barcode: { ...pass.state.fields.barcode, value: barcode, touched: true, error: null }
+            }
           }
-        }
-      ]
-    }));
+        };
+      });
+      
+      const newPasses = remaining.map(barcode => {
+        const item = createPassFormItem({
+          eventId: prev.eventId,
+          accountId: '',
+          barcode,
+          customerName: '',
+          spotType: SpotType.REGULAR,
+          lotId: ''
+        });
+        item.state.fields.barcode.touched = true;
+        return item;
+      });
+      
+      return {
+        ...prev,
+        passes: [...passes, ...newPasses]
+      };
+    });
   }, []);
   
   // Remove a form from the batch
@@ -477,72 +641,20 @@ export const useBatchForm = (config: {
   
   // Validate all passes
   const validateAllPasses = useCallback(() => {
-    let allValid = true;
-    
-    setBatchFormState(prev => {
-      const newPasses = prev.passes.map(pass => {
-        // Create a validation result for each field
-        const errors: Record<string, string> = {};
-        let passValid = true;
-        
-        // Validate each field
-        Object.entries(pass.data).forEach(([fieldName, value]) => {
-          // Skip eventId as it's managed separately
-          if (fieldName === 'eventId') return;
-          
-          const validationResult = validateField(fieldName, value as string);
-          
-          if (!validationResult.isValid) {
-            passValid = false;
-            allValid = false;
-            Object.assign(errors, validationResult.errors);
-          }
-        });
-        
-        // Update field errors
-        const newFields = { ...pass.state.fields };
-        
-        Object.keys(newFields).forEach(fieldName => {
-          newFields[fieldName] = {
-            ...newFields[fieldName],
-            error: errors[fieldName] || null
-          };
-        });
-        
-        return {
-          ...pass,
-          state: {
-            ...pass.state,
-            fields: newFields,
-            isValid: passValid
-          }
-        };
-      });
-      
-      return {
-        ...prev,
-        passes: newPasses,
-        isValid: allValid
-      };
-    });
-    
-    return allValid;
+    setBatchFormState(prev => validateBatchPasses(prev));
   }, []);
   
   // Handle submission of all passes
   const handleSubmit: FormSubmitHandler = useCallback(async () => {
+    // Validate the current rows, including the duplicate barcode pre-flight check
+    const isValid = validateBatchPasses(batchFormState).isValid;
+    
     setBatchFormState(prev => ({
-      ...prev,
-      isSubmitting: true
+      ...validateBatchPasses(prev),
+      isSubmitting: isValid
     }));
     
-    const isValid = validateAllPasses();
-    
     if (!isValid) {
-      setBatchFormState(prev => ({
-        ...prev,
-        isSubmitting: false
-      }));
       throw new Error('Form validation failed');
     }
     
@@ -561,7 +673,7 @@ export const useBatchForm = (config: {
       }));
       throw error;
     }
-  }, [batchFormState.passes, config.onSubmit, validateAllPasses]);
+  }, [batchFormState, config.onSubmit]);
   
   // Reset the batch form
   const resetBatchForm = useCallback(() => {
@@ -586,6 +698,9 @@ export const useBatchForm = (config: {
     handleFieldBlur,
     handleAddForm,
     handleRemoveForm,
+    handleImportForms,
+    handleAssignBarcodes,
+    handleLoadForms,
     handleSubmit,
     resetBatchForm,
     setEventId
@@ -0,0 +1,149 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'; // ^18.2.0
+import { useQuery } from './useQuery';
+import { useApiKey } from './useApiKey';
+import { inventoryService } from '../services/inventory/inventoryService';
+import {
+  getLotConfiguration,
+  saveLotConfiguration,
+  removeLotConfiguration
+} from '../services/storage/lotConfigStorage';
+import { useLandmarkContext } from '../context/LandmarkContext';
+import { buildPassesUrl } from '../constants/apiEndpoints';
+import { ParkHubPass } from '../types/api.types';
+import {
+  EventLotConfiguration,
+  InventoryHookResult,
+  InventoryPass,
+  LotCapacity,
+  OverbookingCheckResult,
+  OverbookingPolicy
+} from '../types/inventory.types';
+
+/**
+ * Custom hook for an event's lot capacity and pass inventory.
+ * Capacities are read from the locally stored lot configuration; issued spots are
+ * counted from the event's passes, which are shared with usePasses through the query cache.
+ *
+ * @param eventId - The event ID, or null if no event is selected
+ * @returns Object containing the configuration, inventory and functions to manage them
+ */
+export const useInventory = (eventId: string | null): InventoryHookResult => {
+  const { apiKey } = useApiKey();
+  const { selectedLandmarkId } = useLandmarkContext();
+
+  const [configuration, setConfiguration] = useState<EventLotConfiguration | null>(
+    () => (eventId ? getLotConfiguration(eventId, selectedLandmarkId) : null)
+  );
+
+  // Reload the configuration when switching to another event or venue
+  useEffect(() => {
+    setConfiguration(eventId ? getLotConfiguration(eventId, selectedLandmarkId) : null);
+  }, [eventId, selectedLandmarkId]);
+
+  // Fetch the event's passes to count issued spots
+  const { data, error, refetch, isLoading } = useQuery<ParkHubPass[]>(
+    eventId ? buildPassesUrl({ eventId, landMarkId: selectedLandmarkId }) : '',
+    {
+      enabled: Boolean(eventId && apiKey)
+    }
+  );
+
+  const passes: InventoryPass[] = useMemo(() => (Array.isArray(data) ? data : []), [data]);
+
+  // Calculate issued and remaining spots
+  const inventory = useMemo(() => {
+    if (!configuration || !Array.isArray(data)) {
+      return null;
+    }
+
+    return inventoryService.calculateInventory(configuration, passes);
+  }, [configuration, data, passes]);
+
+  // Store a configuration and make it current
+  const applyConfiguration = useCallback((updated: EventLotConfiguration): boolean => {
+    if (!saveLotConfiguration(updated)) {
+      return false;
+    }
+
+    setConfiguration(updated);
+    return true;
+  }, []);
+
+  // Save the event's lot capacities and overbooking policy
+  const saveConfiguration = useCallback((lots: LotCapacity[], overbookingPolicy: OverbookingPolicy): boolean => {
+    if (!eventId) {
+      return false;
+    }
+
+    return applyConfiguration({
+      eventId,
+      landMarkId: selectedLandmarkId,
+      lots: inventoryService.validateLots(lots),
+      overbookingPolicy,
+      updatedAt: new Date().toISOString()
+    });
+  }, [eventId, selectedLandmarkId, applyConfiguration]);
+
+  // Remove the event's lot configuration
+  const removeConfiguration = useCallback((): boolean => {
+    if (!eventId || !removeLotConfiguration(eventId, selectedLandmarkId)) {
+      return false;
+    }
+
+    setConfiguration(null);
+    return true;
+  }, [eventId, selectedLandmarkId]);
+
+  // Replace the event's lot configuration with one read from a JSON file
+  const importConfiguration = useCallback(async (file: File): Promise<EventLotConfiguration> => {
+    if (!eventId) {
+      throw new Error('Select an event before importing lot capacities.');
+    }
+
+    const imported = inventoryService.parseConfiguration(
+      await file.text(),
+      eventId,
+      selectedLandmarkId,
+      configuration?.overbookingPolicy
+    );
+
+    if (!applyConfiguration(imported)) {
+      throw new Error('The lot capacities could not be saved. Check your browser storage settings.');
+    }
+
+    return imported;
+  }, [eventId, selectedLandmarkId, configuration, applyConfiguration]);
+
+  // Download the event's lot configuration as a JSON file
+  const exportConfiguration = useCallback(() => {
+    if (configuration) {
+      inventoryService.exportConfiguration(configuration);
+    }
+  }, [configuration]);
+
+  // Check whether creating passes would exceed any lot's capacity
+  const checkOverbooking = useCallback((
+    requests: Array<Pick<InventoryPass, 'lotId' | 'spotType'>>
+  ): OverbookingCheckResult => {
+    if (!configuration) {
+      return { conflicts: [], blocked: false };
+    }
+
+    return inventoryService.checkOverbooking(configuration, passes, requests);
+  }, [configuration, passes]);
+
+  return {
+    configuration,
+    inventory,
+    loading: isLoading,
+    error,
+    saveConfiguration,
+    removeConfiguration,
+    importConfiguration,
+    exportConfiguration,
+    checkOverbooking,
+    refetch
+  };
+};
+
+export default useInventory;
@@ -0,0 +1,220 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'; // ^18.2.0
+import { useEvents } from './useEvents';
+import { usePasses } from './usePasses';
+import { passesApi } from '../services/api/passesApi';
+import { passCloneService } from '../services/clone/passCloneService';
+import { accountDirectoryService } from '../services/accounts/accountDirectoryService';
+import { getPassesCache, setPassesCache } from '../services/storage/cacheStorage';
+import { useLandmarkContext } from '../context/LandmarkContext';
+import { PASS_SPOT_TYPES } from '../constants/spotTypes';
+import { ParkHubPass } from '../types/api.types';
+import { BatchJobOptions } from '../types/batchJob.types';
+import { PassCreationSummary } from '../types/pass.types';
+import {
+  ClonePlan,
+  ClonePlanOptions,
+  CloneBarcodeRule,
+  PassCloneHookResult
+} from '../types/clone.types';
+
+/**
+ * Clone options used until the user changes them
+ */
+const DEFAULT_CLONE_OPTIONS: ClonePlanOptions = {
+  barcodeRule: CloneBarcodeRule.KEEP_UNLESS_TAKEN,
+  skipExisting: true
+};
+
+/**
+ * Custom hook for copying the passes of one event to another.
+ * Loads the passes of both events, tracks which source passes are selected and
+ * previews the passes that will be created in the target event.
+ *
+ * @param initialSourceEventId - Event to copy passes from at first
+ * @returns Object containing both events' passes, the preview and a function to submit it
+ */
+export const usePassClone = (initialSourceEventId: string = ''): PassCloneHookResult => {
+  const { events } = useEvents();
+  const { createMultiplePasses } = usePasses();
+  const { selectedLandmarkId } = useLandmarkContext();
+
+  const [sourceEventId, setSourceEventId] = useState<string>(initialSourceEventId);
+  const [targetEventId, setTargetEventId] = useState<string>('');
+  const [sourcePasses, setSourcePasses] = useState<ParkHubPass[]>([]);
+  const [targetPasses, setTargetPasses] = useState<ParkHubPass[] | null>(null);
+  const [selectedPassIds, setSelectedPassIds] = useState<string[]>([]);
+  const [options, setOptionsState] = useState<ClonePlanOptions>(DEFAULT_CLONE_OPTIONS);
+  const [loadingCount, setLoadingCount] = useState<number>(0);
+  const [error, setError] = useState<Error | null>(null);
+  const [refreshKey, setRefreshKey] = useState<number>(0);
+
+  // Only the most recent load of each event may update state
+  const sourceLoadIdRef = useRef<number>(0);
+  const targetLoadIdRef = useRef<number>(0);
+
+  // Event names for the account directory, read without reloading passes when events arrive
+  const eventsRef = useRef(events);
+  eventsRef.current = events;
+
+  /**
+   * Loads the passes of an event, from the cache when allowed
+   * @param eventId - ID of the event
+   * @param useCache - Whether cached passes may be used instead of fetching them
+   * @returns The event's passes
+   * @throws Error if the passes could not be loaded
+   */
+  const loadPasses = useCallback(async (eventId: string, useCache: boolean): Promise<ParkHubPass[]> => {
+    const cached = useCache ? getPassesCache(eventId, selectedLandmarkId) : null;
+    if (cached) {
+      return cached;
+    }
+
+    const response = await passesApi.getPassesForEvent({ eventId, landMarkId: selectedLandmarkId });
+    if (!response.success || !Array.isArray(response.data)) {
+      throw new Error(response.error?.message || `Failed to load passes for event ${eventId}`);
+    }
+
+    setPassesCache(eventId, response.data, undefined, selectedLandmarkId);
+    accountDirectoryService.recordPasses(response.data, eventsRef.current, selectedLandmarkId);
+    return response.data;
+  }, [selectedLandmarkId]);
+
+  /**
+   * Loads the passes of an event into state, ignoring results of superseded loads
+   * @param eventId - ID of the event
+   * @param useCache - Whether cached passes may be used instead of fetching them
+   * @param loadIdRef - Counter identifying the latest load of this event slot
+   * @param onLoaded - Receives the passes of the latest load
+   */
+  const loadInto = useCallback(async (
+    eventId: string,
+    useCache: boolean,
+    loadIdRef: React.MutableRefObject<number>,
+    onLoaded: (passes: ParkHubPass[]) => void
+  ) => {
+    const loadId = ++loadIdRef.current;
+    setLoadingCount(count => count + 1);
+
+    try {
+      const passes = await loadPasses(eventId, useCache);
+      if (loadId === loadIdRef.current) {
+        onLoaded(passes);
+      }
+    } catch (err) {
+      if (loadId === loadIdRef.current) {
+        setError(err instanceof Error ? err : new Error('Failed to load passes'));
+      }
+    } finally {
+      setLoadingCount(count => count - 1);
+    }
+  }, [loadPasses]);
+
+  // Load the source passes, selecting every pass that hasn't been cancelled
+  useEffect(() => {
+    setSourcePasses([]);
+    setSelectedPassIds([]);
+
+    if (!sourceEventId) {
+      sourceLoadIdRef.current++;
+      return;
+    }
+
+    setError(null);
+    // Passes are fetched again once the user has asked for a refresh
+    loadInto(sourceEventId, refreshKey === 0, sourceLoadIdRef, passes => {
+      setSourcePasses(passes);
+      setSelectedPassIds(passCloneService.getDefaultSelection(passes));
+    });
+  }, [sourceEventId, refreshKey, loadInto]);
+
+  // Load the passes the target event already has
+  useEffect(() => {
+    setTargetPasses(null);
+
+    if (!targetEventId) {
+      targetLoadIdRef.current++;
+      return;
+    }
+
+    setError(null);
+    loadInto(targetEventId, refreshKey === 0, targetLoadIdRef, setTargetPasses);
+  }, [targetEventId, refreshKey, loadInto]);
+
+  // Select or deselect a source pass
+  const togglePass = useCallback((passId: string) => {
+    setSelectedPassIds(prev => (
+      prev.includes(passId) ? prev.filter(id => id !== passId) : [...prev, passId]
+    ));
+  }, []);
+
+  // Select every source pass, or none
+  const setAllSelected = useCallback((selected: boolean) => {
+    setSelectedPassIds(selected ? sourcePasses.map(pass => pass.id) : []);
+  }, [sourcePasses]);
+
+  // Update the clone options
+  const setOptions = useCallback((changes: Partial<ClonePlanOptions>) => {
+    setOptionsState(prev => ({ ...prev, ...changes }));
+  }, []);
+
+  // Preview the clone once both events are loaded
+  const { plan, planError } = useMemo((): { plan: ClonePlan | null; planError: string | null } => {
+    if (!sourceEventId || !targetEventId || targetPasses === null) {
+      return { plan: null, planError: null };
+    }
+    if (sourceEventId === targetEventId) {
+      return { plan: null, planError: 'Choose a target event different from the source event.' };
+    }
+
+    try {
+      return {
+        plan: passCloneService.planClone(sourcePasses, targetPasses, selectedPassIds, targetEventId, options),
+        planError: null
+      };
+    } catch (err) {
+      return { plan: null, planError: err instanceof Error ? err.message : 'Failed to prepare the passes.' };
+    }
+  }, [sourceEventId, targetEventId, sourcePasses, targetPasses, selectedPassIds, options]);
+
+  // Reload the passes of both events, bypassing the cache
+  const refresh = useCallback(() => {
+    setRefreshKey(key => key + 1);
+  }, []);
+
+  // Create the planned passes in the target event, then reload it so the new passes count as existing
+  const submit = useCallback(async (batchOptions?: BatchJobOptions): Promise<PassCreationSummary> => {
+    if (!plan || plan.passes.length === 0) {
+      throw new Error('There are no passes to copy.');
+    }
+
+    const summary = await createMultiplePasses(
+      plan.passes.map(pass => ({ ...pass, spotType: PASS_SPOT_TYPES[pass.spotType] })),
+      batchOptions
+    );
+    refresh();
+    return summary;
+  }, [plan, createMultiplePasses, refresh]);
+
+  return {
+    events,
+    sourceEventId,
+    setSourceEventId,
+    targetEventId,
+    setTargetEventId,
+    sourcePasses,
+    targetPassCount: targetPasses ? targetPasses.length : 0,
+    selectedPassIds,
+    togglePass,
+    setAllSelected,
+    options,
+    setOptions,
+    plan,
+    planError,
+    loading: loadingCount > 0,
+    error,
+    submit,
+    refresh
+  };
+};
+
+export default usePassClone;
@@ -0,0 +1,134 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'; // ^18.2.0
+import { useEvents } from './useEvents';
+import { useApiKey } from './useApiKey';
+import { passesApi } from '../services/api/passesApi';
+import { passSearchService } from '../services/search/passSearchService';
+import { accountDirectoryService } from '../services/accounts/accountDirectoryService';
+import { getPassesCache, setPassesCache } from '../services/storage/cacheStorage';
+import { useLandmarkContext } from '../context/LandmarkContext';
+import { Event } from '../types/event.types';
+import { PassSearchHookResult } from '../types/search.types';
+
+/**
+ * Custom hook for searching passes across events.
+ * Fans out pass requests to the events of the selected venue, adds each event's
+ * passes to a local index as they arrive (cached passes are indexed without a request)
+ * and searches the index as the query changes.
+ *
+ * @returns Object containing the query, the matching passes and the state of the index
+ */
+export const usePassSearch = (): PassSearchHookResult => {
+  const { events, loading: eventsLoading, error } = useEvents();
+  const { apiKey } = useApiKey();
+  const { selectedLandmarkId } = useLandmarkContext();
+
+  const [query, setQuery] = useState<string>('');
+  const [includePastEvents, setIncludePastEvents] = useState<boolean>(false);
+  const [failedEventIds, setFailedEventIds] = useState<string[]>([]);
+  const [pendingEvents, setPendingEvents] = useState<number>(0);
+  // Incremented whenever the index changes, so the hook renders the new passes
+  const [, setIndexVersion] = useState<number>(0);
+
+  // Only the most recent load may update state, so switching venues never mixes passes
+  const loadIdRef = useRef<number>(0);
+
+  // Events being searched: upcoming events, plus past events when asked
+  const searchedEvents = useMemo(() => {
+    if (includePastEvents) {
+      return events;
+    }
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    return events.filter(event => event.date >= today);
+  }, [events, includePastEvents]);
+
+  const searchedEventIds = useMemo(() => searchedEvents.map(event => event.id), [searchedEvents]);
+
+  /**
+   * Adds the passes of events to the index
+   * @param eventsToIndex - Events whose passes are added
+   * @param useCache - Whether cached passes may be used instead of fetching them
+   */
+  const indexEvents = useCallback(async (eventsToIndex: Event[], useCache: boolean) => {
+    const loadId = ++loadIdRef.current;
+    setPendingEvents(eventsToIndex.length);
+
+    await Promise.all(eventsToIndex.map(async event => {
+      const cached = useCache ? getPassesCache(event.id, selectedLandmarkId) : null;
+      let passes = cached;
+
+      if (!passes) {
+        try {
+          const response = await passesApi.getPassesForEvent({ eventId: event.id, landMarkId: selectedLandmarkId });
+          if (response.success && Array.isArray(response.data)) {
+            setPassesCache(event.id, response.data, undefined, selectedLandmarkId);
+            accountDirectoryService.recordPasses(response.data, [event], selectedLandmarkId);
+            passes = response.data;
+          }
+        } catch (err) {
+          console.error(`Error loading passes for event ${event.id}:`, err);
+        }
+      }
+
+      if (loadId !== loadIdRef.current) {
+        return;
+      }
+
+      if (passes) {
+        passSearchService.indexEvent(event, passes);
+        setFailedEventIds(prev => prev.filter(id => id !== event.id));
+        setIndexVersion(version => version + 1);
+      } else {
+        setFailedEventIds(prev => (prev.includes(event.id) ? prev : [...prev, event.id]));
+      }
+      setPendingEvents(pending => Math.max(pending - 1, 0));
+    }));
+  }, [selectedLandmarkId]);
+
+  // Index the events that aren't in the index yet
+  useEffect(() => {
+    passSearchService.setLandmark(selectedLandmarkId);
+
+    const unindexed = searchedEvents.filter(event => !passSearchService.hasEvent(event.id));
+    if (apiKey && unindexed.length > 0) {
+      indexEvents(unindexed, true);
+    } else {
+      loadIdRef.current++;
+      setPendingEvents(0);
+    }
+  }, [apiKey, searchedEvents, selectedLandmarkId, indexEvents]);
+
+  // Clear failures left over from another venue
+  useEffect(() => {
+    setFailedEventIds([]);
+  }, [selectedLandmarkId]);
+
+  // Reload every searched event's passes from the API
+  const refresh = useCallback(async () => {
+    setFailedEventIds([]);
+    await indexEvents(searchedEvents, false);
+  }, [indexEvents, searchedEvents]);
+
+  // Search the index; this reruns on every render so passes indexed since the
+  // last render are included, which is cheap next to rendering the results
+  const { hits, total } = passSearchService.search(query, searchedEventIds);
+  const stats = passSearchService.getStats(searchedEventIds);
+
+  return {
+    query,
+    setQuery,
+    results: hits,
+    truncated: total > hits.length,
+    includePastEvents,
+    setIncludePastEvents,
+    totalEvents: searchedEvents.length,
+    indexedEvents: stats.events,
+    indexedPasses: stats.passes,
+    failedEvents: failedEventIds.filter(id => searchedEventIds.includes(id)).length,
+    indexing: eventsLoading || pendingEvents > 0,
+    error,
+    refresh
+  };
+};
+
+export default usePassSearch;
@@ -0,0 +1,99 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'; // ^18.2.0
+import { passTemplateService } from '../services/templates/passTemplateService';
+import { getPassTemplates } from '../services/storage/passTemplateStorage';
+import { useLandmarkContext } from '../context/LandmarkContext';
+import { downloadBlob, sanitizeFileName } from '../utils/download-helpers';
+import { readTextFile } from '../utils/import-helpers';
+import { PassTemplate, PassTemplateRow, PassTemplatesHookResult } from '../types/template.types';
+
+/**
+ * Custom hook for the saved pass templates of the selected venue.
+ * The hook updates whenever the venue's templates change.
+ *
+ * @returns Object containing the templates and functions to save, manage and share them
+ */
+export const usePassTemplates = (): PassTemplatesHookResult => {
+  const { selectedLandmarkId } = useLandmarkContext();
+  const [storedTemplates, setStoredTemplates] = useState<PassTemplate[]>(() => getPassTemplates(selectedLandmarkId));
+
+  // Reload the templates when the venue changes and whenever they are updated
+  useEffect(() => {
+    setStoredTemplates(getPassTemplates(selectedLandmarkId));
+
+    return passTemplateService.subscribe(landMarkId => {
+      if (landMarkId === selectedLandmarkId) {
+        setStoredTemplates(getPassTemplates(landMarkId));
+      }
+    });
+  }, [selectedLandmarkId]);
+
+  // Templates sorted by name
+  const templates = useMemo(
+    () => [...storedTemplates].sort((a, b) => a.name.localeCompare(b.name)),
+    [storedTemplates]
+  );
+
+  // Look up a template by ID
+  const getTemplate = useCallback((templateId: string): PassTemplate | null => {
+    return storedTemplates.find(template => template.id === templateId) || null;
+  }, [storedTemplates]);
+
+  // Save the passes of a batch as a new template
+  const saveTemplate = useCallback((name: string, passes: PassTemplateRow[]): PassTemplate => {
+    return passTemplateService.createTemplate(name, passes, selectedLandmarkId);
+  }, [selectedLandmarkId]);
+
+  // Rename a template
+  const renameTemplate = useCallback((templateId: string, name: string) => {
+    passTemplateService.renameTemplate(templateId, name, selectedLandmarkId);
+  }, [selectedLandmarkId]);
+
+  // Save a copy of a template
+  const duplicateTemplate = useCallback((templateId: string): PassTemplate | null => {
+    return passTemplateService.duplicateTemplate(templateId, selectedLandmarkId);
+  }, [selectedLandmarkId]);
+
+  // Delete a template
+  const deleteTemplate = useCallback((templateId: string) => {
+    passTemplateService.deleteTemplate(templateId, selectedLandmarkId);
+  }, [selectedLandmarkId]);
+
+  // Download one template, or every template when no IDs are given
+  const exportTemplates = useCallback((templateIds?: string[]) => {
+    const exported = templateIds
+      ? templates.filter(template => templateIds.includes(template.id))
+      : templates;
+
+    if (exported.length === 0) {
+      return;
+    }
+
+    const fileName = exported.length === 1
+      ? sanitizeFileName(`${exported[0].name}-template`)
+      : sanitizeFileName(`pass-templates-${selectedLandmarkId}`);
+
+    downloadBlob(
+      new Blob([passTemplateService.exportTemplates(exported)], { type: 'application/json' }),
+      `${fileName}.json`
+    );
+  }, [templates, selectedLandmarkId]);
+
+  // Add the templates of an exported file
+  const importTemplates = useCallback(async (file: File): Promise<PassTemplate[]> => {
+    const contents = await readTextFile(file);
+    return passTemplateService.importTemplates(contents, selectedLandmarkId);
+  }, [selectedLandmarkId]);
+
+  return {
+    templates,
+    getTemplate,
+    saveTemplate,
+    renameTemplate,
+    duplicateTemplate,
+    deleteTemplate,
+    exportTemplates,
+    importTemplates
+  };
+};
+
+export default usePassTemplates;
@@ -1,10 +1,20 @@
-import { useState, useEffect, useCallback, useMemo } from 'react'; // ^18.2.0
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'; // ^18.2.0
 import { useQuery } from './useQuery';
 import { useMutation } from './useMutation';
 import { useErrorHandler } from './useErrorHandler';
 import { useApiKey } from './useApiKey';
 import { useEvents } from './useEvents';
 import { passesApi } from '../services/api/passesApi';
+import { batchJobService } from '../services/batch/batchJobService';
+import { offlineQueueService } from '../services/offline/offlineQueueService';
+import { accountDirectoryService } from '../services/accounts/accountDirectoryService';
+import { getBatchJob } from '../services/storage/batchJobStorage';
+import { setPassesCache } from '../services/storage/cacheStorage';
+import { getActiveProfile } from '../services/storage/profileStorage';
+import { passExportService } from '../services/export/passExportService';
+import { passRenderService } from '../services/render/passRenderService';
+import { useLandmarkContext } from '../context/LandmarkContext';
+import { buildPassesUrl } from '../constants/apiEndpoints';
 import {
   Pass,
   PassStatus,
@@ -15,12 +25,32 @@ import {
   PassesHookResult,
   PassFormData,
   PassCreationResult,
-  PassCreationSummary
+  PassCreationSummary,
+  PassUpdateData,
+  PassUpdateResult
 } from '../types/pass.types';
-import { ParkHubPass } from '../types/api.types';
-import { SortDirection, PaginationOptions } from '../types/common.types';
+import {
+  ParkHubPass,
+  CreatePassRequest,
+  UpdatePassRequest,
+  UpdatePassResponse,
+  BatchPassCreationResult
+} from '../types/api.types';
+import { BatchJobOptions } from '../types/batchJob.types';
+import { ExportFormat, ExportScope } from '../types/export.types';
+import { PassRenderFormat } from '../types/render.types';
+import { SortDirection, PaginationOptions, ApiResponse } from '../types/common.types';
 import { formatDate, parseDate } from '../utils/date-helpers';
 
+/**
+ * Gets the API key profile passes are being created with, recorded in the creation summary
+ * @returns The ID and name of the profile in use
+ */
+const getCreatingProfile = (): Pick<PassCreationSummary, 'profileId' | 'profileName'> => {
+  const { id, name } = getActiveProfile();
+  return { profileId: id, profileName: name };
+};
+
 /**
  * Maps a ParkHub API pass to the application's Pass model
  * @param parkHubPass - Pass data from the ParkHub API
@@ -273,6 +303,10 @@ export const usePasses = (
   // Get events data
   const { events } = useEvents();
   
+  // Get the selected landmark so passes from different venues never mix
+  const { selectedLandmarkId } = useLandmarkContext();
+  const previousLandmarkId = useRef(selectedLandmarkId);
+  
   // Set up error handler
   const { handleError } = useErrorHandler();
   
@@ -295,12 +329,30 @@ export const usePasses = (
     error,
     refetch
   } = useQuery(
-    selectedEventId ? `passes?eventId=${selectedEventId}` : null,
+    selectedEventId ? buildPassesUrl({ eventId: selectedEventId, landMarkId: selectedLandmarkId }) : null,
     {
       enabled: Boolean(selectedEventId && apiKey)
     }
   );
   
+  // Clear the selected event and pass when switching to another landmark
+  useEffect(() => {
+    if (previousLandmarkId.current !== selectedLandmarkId) {
+      previousLandmarkId.current = selectedLandmarkId;
+      setSelectedEventId(null);
+      setSelectedPassId(null);
+    }
+  }, [selectedLandmarkId]);
+  
+  // Keep the event's passes in the passes cache so the batch form can flag barcodes already in use,
+  // and record their accounts so the batch form can suggest them
+  useEffect(() => {
+    if (selectedEventId && Array.isArray(data) && data.every((pass: ParkHubPass) => pass.eventId === selectedEventId)) {
+      setPassesCache(selectedEventId, data, undefined, selectedLandmarkId);
+      accountDirectoryService.recordPasses(data, events || [], selectedLandmarkId);
+    }
+  }, [data, events, selectedEventId, selectedLandmarkId]);
+  
   // Map API response to application model
   const passes = useMemo(() => {
     if (!data) {
@@ -337,6 +389,31 @@ export const usePasses = (
     return paginatePasses(sortedPasses, pagination);
   }, [sortedPasses, pagination]);
   
+  // Record newly created passes in the account directory
+  const recordCreatedPasses = useCallback((created: Pass[]) => {
+    accountDirectoryService.recordPasses(created.map(pass => ({
+      id: pass.id,
+      eventId: pass.eventId,
+      accountId: pass.accountId,
+      barcode: pass.barcode,
+      customerName: pass.customerName,
+      spotType: pass.spotType,
+      lotId: pass.lotId,
+      createdAt: pass.createdAt.toISOString(),
+      status: pass.status
+    })), events || [], selectedLandmarkId);
+  }, [events, selectedLandmarkId]);
+  
+  // Convert pass form data into a pass creation request
+  const toCreatePassRequest = useCallback((passData: PassFormData): CreatePassRequest => ({
+    eventId: passData.eventId,
+    accountId: passData.accountId,
+    barcode: passData.barcode,
+    customerName: passData.customerName,
+    spotType: passData.spotType.toString(),
+    lotId: passData.lotId
+  }), []);
+  
   // Set up mutation for creating a single pass
   const createPassMutation = useMutation((passData: PassFormData) => 
     passesApi.createPass({
@@ -346,12 +423,15 @@ export const usePasses = (
       customerName: passData.customerName,
       spotType: passData.spotType.toString(),
       lotId: passData.lotId
-    })
+    }, selectedLandmarkId)
   );
   
-  // Set up mutation for creating multiple passes
-  const createMultiplePassesMutation = useMutation((passesData: PassFormData[]) => 
-    passesApi.createMultiplePasses(
+  // Set up mutation for creating multiple passes through a resumable batch job
+  const createMultiplePassesMutation = useMutation(({ passesData, options }: {
+    passesData: PassFormData[];
+    options?: BatchJobOptions;
+  }) => 
+    batchJobService.startJob(
       passesData.map(pass => ({
         eventId: pass.eventId,
         accountId: pass.accountId,
@@ -359,10 +439,29 @@ export const usePasses = (
         customerName: pass.customerName,
         spotType: pass.spotType.toString(),
         lotId: pass.lotId
-      }))
+      })),
+      selectedLandmarkId,
+      options
     )
   );
   
+  // Set up mutations for changing existing passes
+  const updatePassMutation = useMutation(
+    ({ passId, data }: { passId: string; data: UpdatePassRequest }) =>
+      passesApi.updatePass(passId, data, selectedLandmarkId),
+    { showSuccessNotification: true, successMessage: 'Pass updated successfully' }
+  );
+  
+  const cancelPassMutation = useMutation(
+    (passId: string) => passesApi.cancelPass(passId, selectedLandmarkId),
+    { showSuccessNotification: true, successMessage: 'Pass cancelled' }
+  );
+  
+  const reactivatePassMutation = useMutation(
+    (passId: string) => passesApi.reactivatePass(passId, selectedLandmarkId),
+    { showSuccessNotification: true, successMessage: 'Pass reactivated' }
+  );
+  
   // Pagination updater that preserves other pagination properties
   const setPagination = useCallback((newPaginationConfig: Partial<PaginationOptions>) => {
     setPaginationState(prev => ({
@@ -374,7 +473,16 @@ export const usePasses = (
   // Pass selection handler
   const selectPass = useCallback((passId: string | null) => {
     setSelectedPassId(passId);
-  }, []);
+    
+    // Show the page holding the selected pass
+    const index = passId ? sortedPasses.findIndex(pass => pass.id === passId) : -1;
+    if (index >= 0) {
+      setPaginationState(prev => ({
+        ...prev,
+        page: Math.floor(index / prev.pageSize) + 1
+      }));
+    }
+  }, [sortedPasses]);
   
   // Event selection handler
   const selectEvent = useCallback((eventId: string | null) => {
@@ -403,6 +511,18 @@ export const usePasses = (
         throw new Error('All pass fields are required');
       }
       
+      // Queue the pass while offline; it is created once the connection is restored
+      if (!offlineQueueService.isOnline()) {
+        await offlineQueueService.queuePass(toCreatePassRequest(passData), selectedLandmarkId);
+        
+        return {
+          success: false,
+          pass: null,
+          error: null,
+          queued: true
+        };
+      }
+      
       // Create the pass using the mutation
       const response = await createPassMutation.mutate({
         eventId: passData.eventId,
@@ -429,6 +549,8 @@ export const usePasses = (
           event: events?.find(e => e.id === passData.eventId) || null
         };
         
+        recordCreatedPasses([newPass]);
+        
         // Refetch passes to update the list
         refetch();
         
@@ -454,63 +576,89 @@ export const usePasses = (
         error: err instanceof Error ? err : new Error('Unknown error creating pass')
       };
     }
-  }, [createPassMutation, events, handleError, refetch]);
+  }, [createPassMutation, events, handleError, recordCreatedPasses, refetch, selectedLandmarkId, toCreatePassRequest]);
+  
+  // Convert a batch creation result into a creation summary for the results page
+  const toCreationSummary = useCallback((
+    result: BatchPassCreationResult,
+    passesData: PassFormData[]
+  ): PassCreationSummary => {
+    // Get the event ID from the first pass (all passes should be for the same event)
+    const eventId = passesData.length > 0 ? passesData[0].eventId : '';
+    
+    // Process results
+    const successful: Pass[] = result.successful.map(success => ({
+      id: success.passId,
+      eventId,
+      accountId: passesData.find(p => p.barcode === success.barcode)?.accountId || '',
+      barcode: success.barcode,
+      customerName: success.customerName,
+      spotType: passesData.find(p => p.barcode === success.barcode)?.spotType || PassSpotType.REGULAR,
+      lotId: passesData.find(p => p.barcode === success.barcode)?.lotId || '',
+      createdAt: new Date(),
+      formattedCreatedAt: formatDate(new Date()),
+      status: PassStatus.ACTIVE,
+      event: events?.find(e => e.id === eventId) || null
+    }));
+
+    const failed = result.failed.map(failure => ({
+      barcode: failure.barcode,
+      customerName: failure.customerName,
+      error: new Error(failure.error.message || 'Unknown error')
+    }));
+    
+    recordCreatedPasses(successful);
+    
+    return {
+      eventId,
+      event: events?.find(e => e.id === eventId) || null,
+      successful,
+      failed,
+      totalSuccess: result.totalSuccess,
+      totalFailed: result.totalFailed,
+      ...(result.cancelled ? { cancelled: true, notSent: result.notSent || [] } : {}),
+      ...getCreatingProfile()
+    };
+  }, [events, recordCreatedPasses]);
   
   // Create multiple passes
-  const createMultiplePasses = useCallback(async (passesData: PassFormData[]): Promise<PassCreationSummary> => {
+  const createMultiplePasses = useCallback(async (
+    passesData: PassFormData[],
+    options?: BatchJobOptions
+  ): Promise<PassCreationSummary> => {
     try {
       // Validate that we have passes to create
       if (!passesData.length) {
         throw new Error('At least one pass is required');
       }
       
-      // Get the event ID from the first pass (all passes should be for the same event)
-      const eventId = passesData[0].eventId;
+      // Queue the passes while offline; they are created once the connection is restored
+      if (!offlineQueueService.isOnline()) {
+        for (const passData of passesData) {
+          await offlineQueueService.queuePass(toCreatePassRequest(passData), selectedLandmarkId);
+        }
+        
+        const eventId = passesData[0].eventId;
+        
+        return {
+          eventId,
+          event: events?.find(e => e.id === eventId) || null,
+          successful: [],
+          failed: [],
+          totalSuccess: 0,
+          totalFailed: 0,
+          queued: passesData.map(({ barcode, customerName }) => ({ barcode, customerName })),
+          ...getCreatingProfile()
+        };
+      }
       
       // Create passes using the mutation
-      const result = await createMultiplePassesMutation.mutate(
-        passesData.map(pass => ({
-          eventId: pass.eventId,
-          accountId: pass.accountId,
-          barcode: pass.barcode,
-          customerName: pass.customerName,
-          spotType: pass.spotType.toString(),
-          lotId: pass.lotId
-        }))
-      );
-      
-      // Process results
-      const successful: Pass[] = result.successful.map(success => ({
-        id: success.passId,
-        eventId,
-        accountId: passesData.find(p => p.barcode === success.barcode)?.accountId || '',
-        barcode: success.barcode,
-        customerName: success.customerName,
-        spotType: passesData.find(p => p.barcode === success.barcode)?.spotType || PassSpotType.REGULAR,
-        lotId: passesData.find(p => p.barcode === success.barcode)?.lotId || '',
-        createdAt: new Date(),
-        formattedCreatedAt: formatDate(new Date()),
-        status: PassStatus.ACTIVE,
-        event: events?.find(e => e.id === eventId) || null
-      }));
-      
-      const failed = result.failed.map(failure => ({
-        barcode: failure.barcode,
-        customerName: failure.customerName,
-        error: new Error(failure.error.message || 'Unknown error')
-      }));
+      const result = await createMultiplePassesMutation.mutate({ passesData, options });
       
       // Refetch passes to update the list
       refetch();
       
-      return {
-        eventId,
-        event: events?.find(e => e.id === eventId) || null,
-        successful,
-        failed,
-        totalSuccess: result.totalSuccess,
-        totalFailed: result.totalFailed
-      };
+      return toCreationSummary(result, passesData);
     } catch (err) {
       // Handle errors
       handleError(err);
@@ -528,10 +676,117 @@ export const usePasses = (
           error: err instanceof Error ? err : new Error('Unknown error creating passes')
         })),
         totalSuccess: 0,
-        totalFailed: passesData.length
+        totalFailed: passesData.length,
+        ...getCreatingProfile()
       };
     }
-  }, [createMultiplePassesMutation, events, handleError, refetch]);
+  }, [
+    createMultiplePassesMutation,
+    events,
+    handleError,
+    refetch,
+    selectedLandmarkId,
+    toCreatePassRequest,
+    toCreationSummary
+  ]);
+  
+  // Resume an interrupted batch job, creating only the passes the API has not received
+  const resumeBatchJob = useCallback(async (jobId: string, options?: BatchJobOptions): Promise<PassCreationSummary> => {
+    const job = getBatchJob(jobId);
+    const passesData: PassFormData[] = (job?.items || []).map(({ request }) => ({
+      ...request,
+      spotType: request.spotType as PassSpotType
+    }));
+    
+    const result = await batchJobService.resumeJob(jobId, options);
+    
+    // Refetch passes to update the list
+    refetch();
+    
+    return toCreationSummary(result, passesData);
+  }, [refetch, toCreationSummary]);
+  
+  // Apply the outcome of an update, cancel or reactivate request to the matching pass
+  const toPassUpdateResult = useCallback((
+    passId: string,
+    response: ApiResponse<UpdatePassResponse>,
+    changes: Partial<Pass>,
+    failureMessage: string
+  ): PassUpdateResult => {
+    if (response.success && response.data) {
+      const existingPass = passes.find(pass => pass.id === passId);
+      
+      // Refetch passes to update the list
+      refetch();
+      
+      return {
+        success: true,
+        pass: existingPass ? { ...existingPass, ...changes } : null,
+        error: null
+      };
+    }
+    
+    return {
+      success: false,
+      pass: null,
+      error: new Error(response.error?.message || failureMessage)
+    };
+  }, [passes, refetch]);
+  
+  // Update the editable fields of a pass
+  const updatePass = useCallback(async (passId: string, data: PassUpdateData): Promise<PassUpdateResult> => {
+    // Only send fields that were provided
+    const request: UpdatePassRequest = {};
+    if (data.accountId !== undefined) request.accountId = data.accountId.trim();
+    if (data.customerName !== undefined) request.customerName = data.customerName.trim();
+    if (data.spotType !== undefined) request.spotType = data.spotType.toString();
+    if (data.lotId !== undefined) request.lotId = data.lotId.trim();
+    
+    const response = await updatePassMutation.mutate({ passId, data: request });
+    
+    return toPassUpdateResult(passId, response, request as Partial<Pass>, 'Failed to update pass');
+  }, [updatePassMutation, toPassUpdateResult]);
+  
+  // Cancel a pass
+  const cancelPass = useCallback(async (passId: string): Promise<PassUpdateResult> => {
+    const response = await cancelPassMutation.mutate(passId);
+    
+    return toPassUpdateResult(passId, response, { status: PassStatus.CANCELLED }, 'Failed to cancel pass');
+  }, [cancelPassMutation, toPassUpdateResult]);
+  
+  // Reactivate a cancelled or inactive pass
+  const reactivatePass = useCallback(async (passId: string): Promise<PassUpdateResult> => {
+    const response = await reactivatePassMutation.mutate(passId);
+    
+    return toPassUpdateResult(passId, response, { status: PassStatus.ACTIVE }, 'Failed to reactivate pass');
+  }, [reactivatePassMutation, toPassUpdateResult]);
+  
+  // Export passes in the current sort order, either the filtered view or all passes
+  const exportPasses = useCallback((format: ExportFormat, scope: ExportScope = ExportScope.FILTERED) => {
+    const passesToExport = scope === ExportScope.FILTERED
+      ? sortedPasses
+      : sortPasses(passes, sortOptions);
+    
+    passExportService.exportPasses(passesToExport, {
+      format,
+      scope,
+      event: events?.find(e => e.id === selectedEventId) || null,
+      filterOptions,
+      sortOptions
+    });
+  }, [sortedPasses, passes, sortOptions, filterOptions, events, selectedEventId]);
+  
+  // Render scannable passes in the current sort order, either the filtered view or all passes
+  const renderPasses = useCallback(async (format: PassRenderFormat, scope: ExportScope = ExportScope.FILTERED) => {
+    const passesToRender = scope === ExportScope.FILTERED
+      ? sortedPasses
+      : sortPasses(passes, sortOptions);
+    
+    await passRenderService.renderPasses(passesToRender, {
+      format,
+      event: events?.find(e => e.id === selectedEventId) || null
+    });
+  }, [sortedPasses, passes, sortOptions, events, selectedEventId]);
   
   // Handle API errors
   useEffect(() => {
@@ -562,6 +817,12 @@ export const usePasses = (
     selectEvent,
     createPass,
     createMultiplePasses,
+    resumeBatchJob,
+    updatePass,
+    cancelPass,
+    reactivatePass,
+    exportPasses,
+    renderPasses,
     refetch
   };
 };
@@ -1,12 +1,16 @@
 import React from 'react'; // ^18.2.0
 import { createRoot } from 'react-dom/client'; // ^18.2.0
 import App from './App';
+import MockApiUnavailable from './pages/MockApiUnavailable';
+import { registerServiceWorker } from './services/offline';
+import { appConfigService, applyAppConfig } from './services/config';
 import './assets/styles/index.css';
 
 /**
  * Renders the React application to the DOM
+ * @param element - What to render, the app itself unless it can't be started
  */
-const renderApp = () => {
+const renderApp = (element: JSX.Element = <App />) => {
   // Get the root DOM element
   const rootElement = document.getElementById('root');
   
@@ -22,18 +26,48 @@ const renderApp = () => {
   if (process.env.NODE_ENV === 'development') {
     root.render(
       <React.StrictMode>
-        <App />
+        {element}
       </React.StrictMode>
     );
   } else {
-    root.render(<App />);
+    root.render(element);
   }
 };
 
+/**
+ * Starts the application. The runtime settings are loaded first so the API client and
+ * caches use them from the first request, then the mock ParkHub API is started when it
+ * is enabled so no request reaches the real API. If the mock API can't be started, an
+ * error page is shown instead of the app.
+ */
+const startApp = async () => {
+  // Keep the API client, endpoints and caches in step with the settings, including later changes
+  appConfigService.subscribe(applyAppConfig);
+  await appConfigService.load();
+
+  if (appConfigService.getConfig().enableMockApi) {
+    // Loaded on demand so the mock API is left out of builds that don't use it
+    const { startMockApi } = await import('./services/mock');
+    try {
+      await startMockApi();
+    } catch (error) {
+      // Without the mock API the app would send its requests to the real ParkHub API
+      console.error('Failed to start the mock ParkHub API:', error);
+      renderApp(<MockApiUnavailable />);
+      return;
+    }
+  } else {
+    // Cache the app shell and event data for offline use; the mock API's worker takes its place in mock mode
+    registerServiceWorker();
+  }
+
+  renderApp();
+};
+
 // Initialize the application
-renderApp();
+startApp();
 
 // Enable Hot Module Replacement for development
 if (process.env.NODE_ENV === 'development' && module.hot) {
-  module.hot.accept('./App', renderApp);
+  module.hot.accept('./App', () => renderApp());
 }
\ No newline at end of file
@@ -0,0 +1,206 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Box,
+  Grid,
+  List,
+  ListItemButton,
+  ListItemText,
+  Paper,
+  Typography
+} from '@mui/material';
+import SearchIcon from '@mui/icons-material/Search';
+import DeleteIcon from '@mui/icons-material/Delete';
+
+import Layout from '../components/layout/Layout';
+import Input from '../components/ui/Input';
+import Button from '../components/ui/Button';
+import Modal from '../components/ui/Modal';
+import { AccountHistory } from '../components/accounts';
+import useAccountDirectory from '../hooks/useAccountDirectory';
+import { AccountPassRecord } from '../types/account.types';
+import { ROUTES } from '../constants/routes';
+import { formatDate } from '../utils/date-helpers';
+
+/**
+ * Maximum number of accounts listed at once
+ */
+const MAX_LISTED_ACCOUNTS = 50;
+
+/**
+ * Page component for the account directory. Lists the customer accounts known from
+ * passes loaded or created for the selected venue, and shows the pass history of the
+ * chosen account across events.
+ *
+ * @returns The rendered Accounts page component
+ */
+const AccountsPage: React.FC = () => {
+  // Get navigation function for routing
+  const navigate = useNavigate();
+
+  // Get the known accounts from the useAccountDirectory hook
+  const { accounts, searchAccounts, getAccount, removeAccount, clearDirectory } = useAccountDirectory();
+
+  const [query, setQuery] = useState('');
+  const [selectedAccountId, setSelectedAccountId] = useState<string | null>(null);
+  const [isClearOpen, setIsClearOpen] = useState(false);
+
+  // Set the document title
+  useEffect(() => {
+    document.title = 'ParkHub Passes - Accounts';
+
+    return () => {
+      document.title = 'ParkHub Passes';
+    };
+  }, []);
+
+  const listedAccounts = searchAccounts(query, MAX_LISTED_ACCOUNTS);
+  const selectedAccount = selectedAccountId ? getAccount(selectedAccountId) : null;
+
+  // Handle opening an event's passes with the pass selected
+  const handleViewPass = useCallback((entry: AccountPassRecord) => {
+    navigate(
+      `${ROUTES.PASSES}?eventId=${encodeURIComponent(entry.eventId)}&passId=${encodeURIComponent(entry.passId)}`
+    );
+  }, [navigate]);
+
+  // Handle removing the selected account
+  const handleRemoveAccount = useCallback(() => {
+    if (selectedAccountId) {
+      removeAccount(selectedAccountId);
+      setSelectedAccountId(null);
+    }
+  }, [removeAccount, selectedAccountId]);
+
+  // Handle removing every account
+  const handleClearDirectory = useCallback(() => {
+    clearDirectory();
+    setSelectedAccountId(null);
+    setIsClearOpen(false);
+  }, [clearDirectory]);
+
+  return (
+    <Layout>
+      <Box>
+        <Box display="flex" justifyContent="space-between" alignItems="center" flexWrap="wrap" gap={2}>
+          <Typography variant="h4" component="h1" gutterBottom>
+            Accounts
+          </Typography>
+          <Button
+            variant="outlined"
+            color="error"
+            startIcon={<DeleteIcon />}
+            onClick={() => setIsClearOpen(true)}
+            disabled={accounts.length === 0}
+            data-testid="accounts-clear-button"
+          >
+            Clear Directory
+          </Button>
+        </Box>
+        <Typography variant="body1" color="textSecondary" paragraph>
+          Customer accounts seen on passes for this venue. Accounts are added as passes are
+          viewed or created.
+        </Typography>
+
+        <Grid container spacing={2}>
+          <Grid item xs={12} md={4}>
+            <Paper elevation={2} sx={{ p: 2 }}>
+              <Input
+                name="accountQuery"
+                label="Account ID or customer name"
+                type="text"
+                value={query}
+                onChange={(_name, value) => setQuery(value)}
+                onBlur={() => {}}
+                startAdornment={<SearchIcon />}
+                fullWidth
+              />
+              <Typography variant="body2" color="textSecondary" data-testid="accounts-count">
+                {accounts.length} known {accounts.length === 1 ? 'account' : 'accounts'}
+              </Typography>
+
+              {listedAccounts.length === 0 ? (
+                <Box display="flex" justifyContent="center" p={4}>
+                  <Typography data-testid="accounts-empty">
+                    {accounts.length === 0 ? 'No accounts known yet.' : 'No matching accounts found.'}
+                  </Typography>
+                </Box>
+              ) : (
+                <List dense>
+                  {listedAccounts.map(account => (
+                    <ListItemButton
+                      key={account.accountId}
+                      selected={account.accountId === selectedAccountId}
+                      onClick={() => setSelectedAccountId(account.accountId)}
+                      data-testid={`account-item-${account.accountId}`}
+                    >
+                      <ListItemText
+                        primary={account.customerName || account.accountId}
+                        secondary={`${account.accountId} · ${account.history.length} ${account.history.length === 1 ? 'pass' : 'passes'} · last ${formatDate(account.lastSeen)}`}
+                      />
+                    </ListItemButton>
+                  ))}
+                </List>
+              )}
+            </Paper>
+          </Grid>
+
+          <Grid item xs={12} md={8}>
+            <Paper elevation={2} sx={{ p: 2 }}>
+              {selectedAccount ? (
+                <>
+                  <AccountHistory account={selectedAccount} onViewPass={handleViewPass} />
+                  <Box display="flex" justifyContent="flex-end" mt={2}>
+                    <Button
+                      variant="text"
+                      color="error"
+                      onClick={handleRemoveAccount}
+                      data-testid="account-remove-button"
+                    >
+                      Remove Account
+                    </Button>
+                  </Box>
+                </>
+              ) : (
+                <Box display="flex" justifyContent="center" alignItems="center" p={4}>
+                  <Typography>
+                    Select an account to see its passes.
+                  </Typography>
+                </Box>
+              )}
+            </Paper>
+          </Grid>
+        </Grid>
+
+        <Modal
+          isOpen={isClearOpen}
+          title="Clear Directory"
+          onClose={() => setIsClearOpen(false)}
+          maxWidth="xs"
+          actions={
+            <>
+              <Button variant="text" onClick={() => setIsClearOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                variant="contained"
+                color="error"
+                onClick={handleClearDirectory}
+                data-testid="accounts-clear-confirm"
+              >
+                Clear
+              </Button>
+            </>
+          }
+        >
+          <Typography>
+            Remove every known account for this venue? Accounts are added again as their
+            passes are viewed or created.
+          </Typography>
+        </Modal>
+      </Box>
+    </Layout>
+  );
+};
+
+export default AccountsPage;
@@ -0,0 +1,324 @@
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Box,
+  Grid,
+  Typography,
+  Paper,
+  Checkbox,
+  FormControlLabel,
+  LinearProgress
+} from '@mui/material';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import RefreshIcon from '@mui/icons-material/Refresh';
+
+import Layout from '../components/layout/Layout';
+import Select from '../components/ui/Select';
+import Button from '../components/ui/Button';
+import Alert from '../components/ui/Alert';
+import ClonePassesTable from '../components/passes/ClonePassesTable';
+import BatchProgressPanel from '../components/forms/BatchProgressPanel';
+import OverbookingDialog, { describeOverbooking } from '../components/forms/OverbookingDialog';
+import usePassClone from '../hooks/usePassClone';
+import useInventory from '../hooks/useInventory';
+import { BatchProgress } from '../types/batchJob.types';
+import { OverbookingConflict } from '../types/inventory.types';
+import { CloneBarcodeRule } from '../types/clone.types';
+import { ROUTES } from '../constants/routes';
+
+/**
+ * Options for how the barcodes of copied passes are chosen
+ */
+const BARCODE_RULE_OPTIONS = [
+  { value: CloneBarcodeRule.KEEP_UNLESS_TAKEN, label: 'Keep barcodes, generate new ones if already in use' },
+  { value: CloneBarcodeRule.KEEP, label: 'Keep barcodes, skip passes whose barcode is in use' },
+  { value: CloneBarcodeRule.REGENERATE, label: 'Generate new barcodes for every pass' }
+];
+
+/**
+ * Page component for copying passes from one event to another. Recurring events such as
+ * a season of home games usually need the same passes each time, so users pick a source
+ * and target event, choose which passes to carry over and how to handle their barcodes,
+ * and review a preview of what will be created before submitting.
+ *
+ * @returns The rendered Clone Passes page component
+ */
+const ClonePassesPage: React.FC = () => {
+  // Get navigation function for routing
+  const navigate = useNavigate();
+
+  // Start from the event linked from the passes page, if any
+  const [initialSourceEventId] = useState<string>(
+    () => new URLSearchParams(window.location.search).get('sourceEventId') || ''
+  );
+
+  // Get the clone state and preview from the usePassClone hook
+  const {
+    events,
+    sourceEventId,
+    setSourceEventId,
+    targetEventId,
+    setTargetEventId,
+    sourcePasses,
+    targetPassCount,
+    selectedPassIds,
+    togglePass,
+    setAllSelected,
+    options,
+    setOptions,
+    plan,
+    planError,
+    loading,
+    error,
+    submit,
+    refresh
+  } = usePassClone(initialSourceEventId);
+
+  // Get lot capacity for the target event to catch overbooking before submission
+  const { checkOverbooking } = useInventory(targetEventId || null);
+
+  const [isCreating, setIsCreating] = useState<boolean>(false);
+  const [isCancelling, setIsCancelling] = useState<boolean>(false);
+  const [progress, setProgress] = useState<BatchProgress | null>(null);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [overbookingConflicts, setOverbookingConflicts] = useState<OverbookingConflict[]>([]);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Set the document title
+  useEffect(() => {
+    document.title = 'ParkHub Passes - Clone Passes';
+
+    return () => {
+      document.title = 'ParkHub Passes';
+    };
+  }, []);
+
+  // Create the planned passes and show the results
+  const createPasses = useCallback(async () => {
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setIsCreating(true);
+    setSubmitError(null);
+
+    try {
+      const summary = await submit({
+        onProgress: setProgress,
+        signal: abortController.signal
+      });
+      navigate(ROUTES.RESULTS, { state: { summary } });
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : 'An unknown error occurred while copying passes.');
+    } finally {
+      abortControllerRef.current = null;
+      setIsCreating(false);
+      setIsCancelling(false);
+      setProgress(null);
+    }
+  }, [submit, navigate]);
+
+  // Check the planned passes against lot capacity before creating them
+  const handleSubmit = useCallback(() => {
+    if (!plan || plan.passes.length === 0) {
+      setSubmitError('There are no passes to copy.');
+      return;
+    }
+
+    // The target event's policy decides whether overbooking warns or blocks
+    const overbooking = checkOverbooking(plan.passes);
+    if (overbooking.blocked) {
+      setSubmitError(`These passes would overbook lots: ${overbooking.conflicts.map(describeOverbooking).join('; ')}.`);
+      return;
+    }
+    if (overbooking.conflicts.length > 0) {
+      setOverbookingConflicts(overbooking.conflicts);
+      return;
+    }
+
+    createPasses();
+  }, [plan, checkOverbooking, createPasses]);
+
+  // Create the passes after the user accepted overbooking
+  const handleConfirmOverbooking = useCallback(() => {
+    setOverbookingConflicts([]);
+    createPasses();
+  }, [createPasses]);
+
+  // Stop sending further chunks; passes already sent are still answered
+  const handleCancel = useCallback(() => {
+    if (abortControllerRef.current) {
+      setIsCancelling(true);
+      abortControllerRef.current.abort();
+    }
+  }, []);
+
+  const eventOptions = events.map(event => ({
+    value: event.id,
+    label: `${event.name} (${event.formattedDate})`
+  }));
+
+  return (
+    <Layout>
+      <Box>
+        <Typography variant="h4" component="h1" gutterBottom>
+          Clone Passes
+        </Typography>
+        <Typography variant="body1" color="textSecondary" paragraph>
+          Copy passes from one event to another. Choose the passes to carry over and review
+          the preview before creating them.
+        </Typography>
+
+        <Paper elevation={2} sx={{ p: 2 }}>
+          <Grid container spacing={2}>
+            <Grid item xs={12} md={6}>
+              <Select
+                name="sourceEventId"
+                label="Copy passes from"
+                options={[{ value: '', label: 'Select an event' }, ...eventOptions]}
+                value={sourceEventId}
+                onChange={(_name, value) => setSourceEventId(value)}
+                onBlur={() => {}}
+                disabled={isCreating}
+                fullWidth
+              />
+            </Grid>
+            <Grid item xs={12} md={6}>
+              <Select
+                name="targetEventId"
+                label="Copy passes to"
+                options={[{ value: '', label: 'Select an event' }, ...eventOptions]}
+                value={targetEventId}
+                onChange={(_name, value) => setTargetEventId(value)}
+                onBlur={() => {}}
+                disabled={isCreating}
+                fullWidth
+              />
+            </Grid>
+            <Grid item xs={12} md={6}>
+              <Select
+                name="barcodeRule"
+                label="Barcodes"
+                options={BARCODE_RULE_OPTIONS}
+                value={options.barcodeRule}
+                onChange={(_name, value) => setOptions({ barcodeRule: value as CloneBarcodeRule })}
+                onBlur={() => {}}
+                disabled={isCreating}
+                fullWidth
+              />
+            </Grid>
+            <Grid item xs={12} md={6}>
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={options.skipExisting}
+                    onChange={(e) => setOptions({ skipExisting: e.target.checked })}
+                    disabled={isCreating}
+                    data-testid="skip-existing-passes"
+                  />
+                }
+                label="Skip passes the target event already has"
+              />
+            </Grid>
+          </Grid>
+
+          {loading && <LinearProgress sx={{ mt: 1 }} />}
+        </Paper>
+
+        {error && (
+          <Alert severity="error">
+            {error.message || 'Failed to load passes'}
+          </Alert>
+        )}
+
+        {planError && (
+          <Alert severity="warning" data-testid="clone-plan-error">
+            {planError}
+          </Alert>
+        )}
+
+        {submitError && (
+          <Alert severity="error" data-testid="clone-submit-error">
+            {submitError}
+          </Alert>
+        )}
+
+        {sourceEventId && (
+          <Paper elevation={2} sx={{ p: 2, mt: 2 }}>
+            <Box
+              display="flex"
+              justifyContent="space-between"
+              alignItems="center"
+              flexWrap="wrap"
+              gap={2}
+              mb={2}
+            >
+              <Typography variant="body2" color="textSecondary" data-testid="clone-summary">
+                {selectedPassIds.length} of {sourcePasses.length} passes selected
+                {plan && (
+                  ` · ${plan.keptCount} keep their barcode, ${plan.regeneratedCount} get a new barcode, ` +
+                  `${plan.skippedCount} skipped · target event has ${targetPassCount} passes`
+                )}
+              </Typography>
+              <Box display="flex" gap={2}>
+                <Button
+                  variant="outlined"
+                  size="small"
+                  startIcon={<RefreshIcon />}
+                  onClick={refresh}
+                  disabled={loading || isCreating}
+                >
+                  Refresh
+                </Button>
+                <Button
+                  variant="contained"
+                  color="primary"
+                  startIcon={<ContentCopyIcon />}
+                  onClick={handleSubmit}
+                  disabled={!plan || plan.passes.length === 0 || loading}
+                  loading={isCreating}
+                  data-testid="clone-submit-button"
+                >
+                  {plan && plan.passes.length > 0
+                    ? `Copy ${plan.passes.length} ${plan.passes.length === 1 ? 'Pass' : 'Passes'}`
+                    : 'Copy Passes'}
+                </Button>
+              </Box>
+            </Box>
+
+            {isCreating && (
+              <BatchProgressPanel
+                progress={progress}
+                onCancel={handleCancel}
+                isCancelling={isCancelling}
+              />
+            )}
+
+            {!loading && sourcePasses.length === 0 ? (
+              <Typography align="center" py={4}>
+                The source event has no passes to copy.
+              </Typography>
+            ) : (
+              <ClonePassesTable
+                sourcePasses={sourcePasses}
+                selectedPassIds={selectedPassIds}
+                plan={plan}
+                onTogglePass={togglePass}
+                onSelectAll={setAllSelected}
+                disabled={isCreating}
+              />
+            )}
+          </Paper>
+        )}
+
+        {/* Overbooking warning */}
+        <OverbookingDialog
+          isOpen={overbookingConflicts.length > 0}
+          conflicts={overbookingConflicts}
+          onClose={() => setOverbookingConflicts([])}
+          onConfirm={handleConfirmOverbooking}
+        />
+      </Box>
+    </Layout>
+  );
+};
+
+export default ClonePassesPage;
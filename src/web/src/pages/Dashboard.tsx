@@ -6,6 +6,7 @@ import { styled } from '@mui/material/styles';
 import Layout from '../components/layout/Layout';
 import Card from '../components/ui/Card';
 import Button from '../components/ui/Button';
+import AnalyticsPanel from '../components/analytics/AnalyticsPanel';
 import { ROUTES } from '../constants/routes';
 import useEvents from '../hooks/useEvents';
 import usePasses from '../hooks/usePasses';
@@ -114,6 +115,9 @@ const Dashboard: React.FC = () => {
           </Box>
         </StatsContainer>
         
+        {/* Analytics section */}
+        <AnalyticsPanel />
+        
         {/* Features section */}
         <Grid container spacing={3}>
           {/* View Events Card */}
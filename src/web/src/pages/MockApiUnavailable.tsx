@@ -0,0 +1,68 @@
+import React from 'react'; // ^18.2.0
+import { Box, Typography, Container } from '@mui/material'; // ^5.14.0
+import { ErrorOutline } from '@mui/icons-material'; // ^5.14.0
+import Button from '../components/ui/Button';
+import Card from '../components/ui/Card';
+
+/**
+ * Page shown instead of the app when the mock ParkHub API is enabled but its worker
+ * could not be started. The app is not loaded, so no request can reach the real API
+ * from a build meant for training or QA.
+ * 
+ * @returns {JSX.Element} The rendered MockApiUnavailable page component
+ */
+const MockApiUnavailable: React.FC = () => {
+  /**
+   * Reload the page to try starting the mock API again
+   */
+  const handleReload = (): void => {
+    window.location.reload();
+  };
+
+  return (
+    <Container maxWidth="md">
+      <Box
+        display="flex"
+        flexDirection="column"
+        alignItems="center"
+        justifyContent="center"
+        minHeight="80vh"
+        py={4}
+        data-testid="mock-api-unavailable-page"
+      >
+        <Card 
+          elevation={3} 
+          title="Mock API Unavailable"
+        >
+          <Box
+            display="flex"
+            flexDirection="column"
+            alignItems="center"
+            textAlign="center"
+          >
+            <ErrorOutline 
+              color="error" 
+              sx={{ fontSize: 64, mb: 2 }} 
+              aria-hidden="true"
+            />
+            <Typography variant="body1" color="textSecondary" paragraph>
+              This build answers requests with a mock ParkHub API, but it could not be started
+              in this browser. The app was not opened so that no request reaches ParkHub.
+              Check that the browser allows service workers, then reload the page.
+            </Typography>
+            <Button 
+              variant="contained" 
+              color="primary" 
+              onClick={handleReload}
+              data-testid="reload-button"
+            >
+              Reload
+            </Button>
+          </Box>
+        </Card>
+      </Box>
+    </Container>
+  );
+};
+
+export default MockApiUnavailable;
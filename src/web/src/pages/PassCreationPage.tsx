@@ -5,6 +5,7 @@ import { styled } from '@mui/material/styles'; // ^5.14.0
 
 import Layout from '../components/layout/Layout';
 import PassCreationForm from '../components/forms/PassCreationForm';
+import InterruptedBatchJobs from '../components/forms/InterruptedBatchJobs';
 import ErrorDisplay from '../components/feedback/ErrorDisplay';
 import LoadingSpinner from '../components/ui/LoadingSpinner';
 import usePasses from '../hooks/usePasses';
@@ -60,7 +61,7 @@ const PassCreationPage: React.FC = () => {
   const [error, setError] = useState<AppError | null>(null);
   
   // Initialize usePasses hook for pass management functionality
-  const { loading, error: passesError } = usePasses();
+  const { loading, error: passesError, resumeBatchJob } = usePasses();
   
   // Initialize error handler with useErrorHandler
   const { handleError } = useErrorHandler();
@@ -81,6 +82,15 @@ const PassCreationPage: React.FC = () => {
     navigate(ROUTES.RESULTS, { state: { summary } });
   };
   
+  /**
+   * Resumes an interrupted batch and shows its results once every pass has been answered
+   * @param jobId The ID of the batch job to resume
+   */
+  const handleResumeBatch = async (jobId: string) => {
+    const summary = await resumeBatchJob(jobId);
+    handleSuccess(summary);
+  };
+  
   /**
    * Handles navigation to the passes page for a specific event
    * @param eventId The ID of the event to view passes for
@@ -110,6 +120,8 @@ const PassCreationPage: React.FC = () => {
             />
           )}
           
+          <InterruptedBatchJobs onResume={handleResumeBatch} />
+          
           <PassCreationForm
             initialEventId={eventIdFromUrl}
             onSuccess={handleSuccess}
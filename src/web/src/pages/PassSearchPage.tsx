@@ -0,0 +1,184 @@
+import React, { useCallback, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Box,
+  Typography,
+  Paper,
+  Checkbox,
+  FormControlLabel,
+  LinearProgress
+} from '@mui/material';
+import SearchIcon from '@mui/icons-material/Search';
+import RefreshIcon from '@mui/icons-material/Refresh';
+
+import Layout from '../components/layout/Layout';
+import Input from '../components/ui/Input';
+import Button from '../components/ui/Button';
+import Alert from '../components/ui/Alert';
+import PassSearchResults from '../components/passes/PassSearchResults';
+import usePassSearch from '../hooks/usePassSearch';
+import { PassSearchHit } from '../types/search.types';
+import { ROUTES } from '../constants/routes';
+
+/**
+ * Page component for finding passes across events. Customer support can look up a
+ * customer by name, barcode or account ID without knowing which event the pass is for;
+ * the passes of every upcoming event are indexed locally and searched as they type.
+ *
+ * @returns The rendered Pass Search page component
+ */
+const PassSearchPage: React.FC = () => {
+  // Get navigation function for routing
+  const navigate = useNavigate();
+
+  // Get the search state and index progress from the usePassSearch hook
+  const {
+    query,
+    setQuery,
+    results,
+    truncated,
+    includePastEvents,
+    setIncludePastEvents,
+    totalEvents,
+    indexedEvents,
+    indexedPasses,
+    failedEvents,
+    indexing,
+    error,
+    refresh
+  } = usePassSearch();
+
+  // Set the document title
+  useEffect(() => {
+    document.title = 'ParkHub Passes - Search';
+
+    return () => {
+      document.title = 'ParkHub Passes';
+    };
+  }, []);
+
+  // Handle opening an event's passes
+  const handleViewEvent = useCallback((eventId: string) => {
+    navigate(`${ROUTES.PASSES}?eventId=${encodeURIComponent(eventId)}`);
+  }, [navigate]);
+
+  // Handle opening an event's passes with the pass selected
+  const handleViewPass = useCallback((hit: PassSearchHit) => {
+    navigate(
+      `${ROUTES.PASSES}?eventId=${encodeURIComponent(hit.event.id)}&passId=${encodeURIComponent(hit.pass.id)}`
+    );
+  }, [navigate]);
+
+  const indexProgress = totalEvents > 0 ? (indexedEvents / totalEvents) * 100 : 0;
+
+  return (
+    <Layout>
+      <Box>
+        <Typography variant="h4" component="h1" gutterBottom>
+          Search Passes
+        </Typography>
+        <Typography variant="body1" color="textSecondary" paragraph>
+          Find a customer's passes across events by name, barcode or account ID.
+        </Typography>
+
+        <Paper elevation={2} sx={{ p: 2 }}>
+          <Input
+            name="query"
+            label="Customer name, barcode or account ID"
+            type="text"
+            value={query}
+            onChange={(_name, value) => setQuery(value)}
+            onBlur={() => {}}
+            startAdornment={<SearchIcon />}
+            autoFocus
+            fullWidth
+          />
+
+          <Box
+            display="flex"
+            justifyContent="space-between"
+            alignItems="center"
+            flexWrap="wrap"
+            gap={2}
+          >
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={includePastEvents}
+                  onChange={(e) => setIncludePastEvents(e.target.checked)}
+                  data-testid="include-past-events"
+                />
+              }
+              label="Include past events"
+            />
+            <Box display="flex" alignItems="center" gap={2}>
+              <Typography variant="body2" color="textSecondary" data-testid="search-index-status">
+                {indexedPasses} passes from {indexedEvents} of {totalEvents} events
+              </Typography>
+              <Button
+                variant="outlined"
+                size="small"
+                startIcon={<RefreshIcon />}
+                onClick={refresh}
+                disabled={indexing}
+                data-testid="search-refresh-button"
+              >
+                Refresh
+              </Button>
+            </Box>
+          </Box>
+
+          {indexing && (
+            <LinearProgress
+              variant={totalEvents > 0 ? 'determinate' : 'indeterminate'}
+              value={indexProgress}
+              sx={{ mt: 1 }}
+            />
+          )}
+        </Paper>
+
+        {error && (
+          <Alert severity="error">
+            {error.message || 'Failed to load events'}
+          </Alert>
+        )}
+
+        {failedEvents > 0 && (
+          <Alert severity="warning" data-testid="search-partial-warning">
+            Passes for {failedEvents} {failedEvents === 1 ? 'event' : 'events'} couldn't be loaded and
+            aren't searched. Use Refresh to try again.
+          </Alert>
+        )}
+
+        <Paper elevation={2} sx={{ p: 2, mt: 2 }}>
+          {!query.trim() ? (
+            <Box display="flex" justifyContent="center" alignItems="center" p={4}>
+              <Typography>
+                Enter a customer name, barcode or account ID to search.
+              </Typography>
+            </Box>
+          ) : results.length === 0 ? (
+            <Box display="flex" justifyContent="center" alignItems="center" p={4}>
+              <Typography data-testid="search-no-results">
+                {indexing ? 'No matching passes found yet. Still loading passes...' : 'No matching passes found.'}
+              </Typography>
+            </Box>
+          ) : (
+            <>
+              <Typography variant="h6" gutterBottom>
+                {truncated ? `Top ${results.length} matches` : `${results.length} ${results.length === 1 ? 'match' : 'matches'}`}
+              </Typography>
+              <PassSearchResults
+                results={results}
+                onViewEvent={handleViewEvent}
+                onViewPass={handleViewPass}
+              />
+            </>
+          )}
+        </Paper>
+      </Box>
+    </Layout>
+  );
+};
+
+export default PassSearchPage;
@@ -6,8 +6,12 @@ import Layout from '../components/layout/Layout';
 import PassesTable from '../components/passes/PassesTable';
 import EventSelectionForm from '../components/forms/EventSelectionForm';
 import ErrorDisplay from '../components/feedback/ErrorDisplay';
+import PassExportMenu from '../components/passes/PassExportMenu';
 import usePasses from '../hooks/usePasses';
+import { useNotificationContext } from '../context/NotificationContext';
 import { Pass } from '../types/pass.types';
+import { ExportFormat, ExportScope } from '../types/export.types';
+import { PassRenderFormat } from '../types/render.types';
 import { ROUTES } from '../constants/routes';
 
 /**
@@ -21,19 +25,29 @@ const PassesPage: React.FC = () => {
   // State for the event ID input value
   const [eventIdValue, setEventIdValue] = useState<string>('');
   
+  // State for a pass to highlight, linked from the pass search
+  const [highlightPassId, setHighlightPassId] = useState<string | null>(null);
+  
   // Get navigation function for routing
   const navigate = useNavigate();
   
   // Get passes data and management functions from usePasses hook
   const {
+    passes,
+    filteredPasses,
     paginatedPasses,
     loading,
     error,
     selectedEventId,
     selectEvent,
+    exportPasses,
+    renderPasses,
     refetch
   } = usePasses();
   
+  // Get notification context for reporting export failures
+  const { showError } = useNotificationContext();
+  
   // Handle event selection form submission
   const handleEventSelection = useCallback((eventId: string) => {
     setEventIdValue(eventId);
@@ -61,6 +75,29 @@ const PassesPage: React.FC = () => {
     }
   }, [navigate, selectedEventId]);
   
+  // Handle navigation to copying this event's passes to another event
+  const handleClonePasses = useCallback(() => {
+    navigate(`${ROUTES.CLONE_PASSES}?sourceEventId=${encodeURIComponent(selectedEventId || '')}`);
+  }, [navigate, selectedEventId]);
+  
+  // Handle exporting passes to a file
+  const handleExport = useCallback((format: ExportFormat, scope: ExportScope) => {
+    try {
+      exportPasses(format, scope);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to export passes.');
+    }
+  }, [exportPasses, showError]);
+  
+  // Handle printing scannable passes
+  const handleRender = useCallback(async (format: PassRenderFormat, scope: ExportScope) => {
+    try {
+      await renderPasses(format, scope);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to print passes.');
+    }
+  }, [renderPasses, showError]);
+  
   // Handle retrying API calls on error
   const handleRetry = useCallback(() => {
     refetch();
@@ -74,6 +111,7 @@ const PassesPage: React.FC = () => {
     if (eventIdParam) {
       setEventIdValue(eventIdParam);
       selectEvent(eventIdParam);
+      setHighlightPassId(urlParams.get('passId'));
     }
   }, [selectEvent]);
   
@@ -142,19 +180,35 @@ const PassesPage: React.FC = () => {
                   <Typography variant="h6">
                     Passes for Event: {selectedEventId}
                   </Typography>
-                  <Button 
-                    variant="contained" 
-                    color="primary" 
-                    onClick={handleCreatePasses}
-                  >
-                    Create New Passes
-                  </Button>
+                  <Box display="flex" gap={2}>
+                    <PassExportMenu
+                      onExport={handleExport}
+                      onRender={handleRender}
+                      filteredCount={filteredPasses.length}
+                      totalCount={passes.length}
+                    />
+                    <Button 
+                      variant="outlined" 
+                      color="primary" 
+                      onClick={handleClonePasses}
+                    >
+                      Clone to Another Event
+                    </Button>
+                    <Button 
+                      variant="contained" 
+                      color="primary" 
+                      onClick={handleCreatePasses}
+                    >
+                      Create New Passes
+                    </Button>
+                  </Box>
                 </Box>
                 
                 <PassesTable
                   eventId={selectedEventId}
                   onPassSelect={handlePassSelect}
                   onPassDetails={handlePassDetails}
+                  highlightPassId={highlightPassId}
                 />
               </>
             )}
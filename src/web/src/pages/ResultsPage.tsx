@@ -7,8 +7,10 @@ import Layout from '../components/layout/Layout';
 import ResultsSummary from '../components/feedback/ResultsSummary';
 import ErrorDisplay from '../components/feedback/ErrorDisplay';
 import LoadingSpinner from '../components/ui/LoadingSpinner';
+import Alert from '../components/ui/Alert';
 import usePasses from '../hooks/usePasses';
 import useErrorHandler from '../hooks/useErrorHandler';
+import { useProfileContext } from '../context/ProfileContext';
 import { PassCreationSummary, PassFormData } from '../types/pass.types';
 import { AppError } from '../types/error.types';
 import { formatDate } from '../utils/date-helpers';
@@ -71,6 +73,12 @@ const ResultsPage = (): JSX.Element => {
   // Initialize error handler with useErrorHandler
   const { handleError, error, clearError } = useErrorHandler();
   
+  // Get the API key profile in use, which may differ from the one the passes were created with
+  const { activeProfile } = useProfileContext();
+  const createdWithOtherProfile = Boolean(
+    creationSummary?.profileId && creationSummary.profileId !== activeProfile.id
+  );
+  
   // Format event date for display if event exists in summary
   const eventDate = creationSummary?.event 
     ? formatDate(creationSummary.event.date)
@@ -171,6 +179,12 @@ const ResultsPage = (): JSX.Element => {
           />
         ) : creationSummary ? (
           <ContentPaper>
+            {createdWithOtherProfile && (
+              <Alert severity="warning">
+                These passes were created with the {creationSummary.profileName} profile, but
+                the {activeProfile.name} profile is in use. Switch back to retry failed passes.
+              </Alert>
+            )}
             <ResultsSummary
               results={creationSummary}
               onCreateMore={handleCreateMore}
@@ -178,6 +192,7 @@ const ResultsPage = (): JSX.Element => {
               onRetryFailed={handleRetryFailed}
               eventName={creationSummary.event?.name || 'Unknown Event'}
               eventDate={eventDate}
+              retryDisabled={createdWithOtherProfile}
             />
           </ContentPaper>
         ) : (
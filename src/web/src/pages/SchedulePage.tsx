@@ -0,0 +1,106 @@
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Box, Typography, Paper } from '@mui/material';
+
+import Layout from '../components/layout/Layout';
+import Button from '../components/ui/Button';
+import Alert from '../components/ui/Alert';
+import ScheduledJobsTable from '../components/forms/ScheduledJobsTable';
+import { useScheduleContext } from '../context/ScheduleContext';
+import { useLandmarkContext } from '../context/LandmarkContext';
+import { ROUTES } from '../constants/routes';
+
+/**
+ * Page component listing the pass batches scheduled for the selected venue. Batches are
+ * scheduled from the batch form to be created a set time before their event and run while
+ * the app is open; this page shows when each runs and its outcome, and lets users run a
+ * batch early or cancel it.
+ *
+ * @returns The rendered Schedule page component
+ */
+const SchedulePage: React.FC = () => {
+  // Get navigation function for routing
+  const navigate = useNavigate();
+
+  // Get the scheduled batches and the selected venue
+  const { jobs, runJobNow, removeJob } = useScheduleContext();
+  const { selectedLandmarkId } = useLandmarkContext();
+
+  const [runningJobId, setRunningJobId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Set the document title
+  useEffect(() => {
+    document.title = 'ParkHub Passes - Schedule';
+
+    return () => {
+      document.title = 'ParkHub Passes';
+    };
+  }, []);
+
+  const venueJobs = useMemo(
+    () => jobs.filter(job => job.landMarkId === selectedLandmarkId),
+    [jobs, selectedLandmarkId]
+  );
+
+  // Handle running a batch before its run time
+  const handleRunNow = useCallback(async (jobId: string) => {
+    setRunningJobId(jobId);
+    setError(null);
+    try {
+      await runJobNow(jobId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to run the batch.');
+    } finally {
+      setRunningJobId(null);
+    }
+  }, [runJobNow]);
+
+  // Handle removing a batch
+  const handleRemove = useCallback((jobId: string) => {
+    setError(null);
+    removeJob(jobId);
+  }, [removeJob]);
+
+  return (
+    <Layout>
+      <Box>
+        <Typography variant="h4" component="h1" gutterBottom>
+          Scheduled Passes
+        </Typography>
+        <Typography variant="body1" color="textSecondary" paragraph>
+          Batches of passes created automatically a set time before their event. Batches run
+          while the app is open; any that come due while it is closed run when it is next opened.
+        </Typography>
+
+        {error && <Alert severity="error">{error}</Alert>}
+
+        <Paper elevation={2} sx={{ p: 2 }}>
+          {venueJobs.length === 0 ? (
+            <Box display="flex" flexDirection="column" alignItems="center" p={4}>
+              <Typography gutterBottom>
+                No passes are scheduled for this venue. Use Schedule in the batch form to issue passes before an event.
+              </Typography>
+              <Button
+                variant="contained"
+                color="primary"
+                onClick={() => navigate(ROUTES.CREATE_PASSES)}
+              >
+                Create Passes
+              </Button>
+            </Box>
+          ) : (
+            <ScheduledJobsTable
+              jobs={venueJobs}
+              onRunNow={handleRunNow}
+              onRemove={handleRemove}
+              runningJobId={runningJobId}
+            />
+          )}
+        </Paper>
+      </Box>
+    </Layout>
+  );
+};
+
+export default SchedulePage;
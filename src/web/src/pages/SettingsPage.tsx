@@ -0,0 +1,246 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow
+} from '@mui/material';
+
+import Layout from '../components/layout/Layout';
+import Button from '../components/ui/Button';
+import Input from '../components/ui/Input';
+import Alert from '../components/ui/Alert';
+import ApiKeyVaultSettings from '../components/feedback/ApiKeyVaultSettings';
+import { useAppConfig } from '../hooks/useAppConfig';
+import { useNotificationContext } from '../context/NotificationContext';
+import { CONFIG_LABELS, USER_CONFIG_KEYS } from '../services/config/appConfigSchema';
+import { AppConfig, AppConfigKey, ConfigSource, UserConfigOverrides } from '../types/config.types';
+
+/**
+ * Readable names of the layers a setting's value can come from
+ */
+const SOURCE_LABELS: Record<ConfigSource, string> = {
+  [ConfigSource.DEFAULT]: 'Default',
+  [ConfigSource.ENVIRONMENT]: 'Environment',
+  [ConfigSource.FILE]: 'config.json',
+  [ConfigSource.USER]: 'Your settings',
+  [ConfigSource.PROFILE]: 'API key profile'
+};
+
+/**
+ * Hints shown under the fields of the settings the user can override
+ */
+const FIELD_HINTS: Partial<Record<AppConfigKey, string>> = {
+  landMarkId: 'Used when no venue has been selected',
+  requestTimeout: 'In milliseconds',
+  retryCount: 'Times a failed request is retried',
+  cacheExpiry: 'In milliseconds; applies to events and passes cached from now on',
+  googleIssuerId: 'From the Google Pay & Wallet Console; needed to export passes to Google Wallet'
+};
+
+/**
+ * Formats a setting's value for display
+ * @param key - The setting
+ * @param config - The settings in effect
+ * @returns The value as text
+ */
+const formatValue = (key: AppConfigKey, config: AppConfig): string => {
+  switch (key) {
+    case 'requestTimeout':
+      return `${config.requestTimeout / 1000} seconds`;
+    case 'cacheExpiry':
+      return `${Math.round(config.cacheExpiry / 60000)} minutes`;
+    case 'enableMockApi':
+      return config.enableMockApi ? 'On' : 'Off';
+    case 'googleIssuerId':
+      return config.googleIssuerId || 'Not set';
+    default:
+      return String(config[key]);
+  }
+};
+
+/**
+ * Builds the form values from the user's overrides, leaving settings that aren't overridden empty
+ * @param overrides - The user's overrides
+ * @returns Form values keyed by setting
+ */
+const toFormValues = (overrides: UserConfigOverrides): Record<string, string> =>
+  Object.fromEntries(
+    USER_CONFIG_KEYS.map(key => {
+      const value = overrides[key as keyof UserConfigOverrides];
+      return [key, value === undefined ? '' : String(value)];
+    })
+  );
+
+/**
+ * Page component showing the runtime settings of the application and where each value
+ * comes from. Settings come from the built-in defaults, environment variables set when
+ * the app was built and an optional config.json; users can override the venue, timeout,
+ * retry, cache and Google Wallet settings for this browser, and protect their API key
+ * with a passphrase.
+ *
+ * @returns The rendered Settings page component
+ */
+const SettingsPage: React.FC = () => {
+  // Get the settings and functions to override them
+  const { config, sources, issues, overrides, validateOverrides, saveOverrides, resetOverrides } = useAppConfig();
+  const { showSuccess } = useNotificationContext();
+
+  const [formValues, setFormValues] = useState<Record<string, string>>(() => toFormValues(overrides));
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  // Set the document title
+  useEffect(() => {
+    document.title = 'ParkHub Passes - Settings';
+
+    return () => {
+      document.title = 'ParkHub Passes';
+    };
+  }, []);
+
+  // Handle a change to one of the fields
+  const handleChange = useCallback((name: string, value: string) => {
+    setFormValues(prev => ({ ...prev, [name]: value }));
+    setFieldErrors(prev => ({ ...prev, [name]: '' }));
+  }, []);
+
+  // Check a field when it loses focus
+  const handleBlur = useCallback((name: string) => {
+    const value = formValues[name].trim();
+    const [issue] = value ? validateOverrides({ [name]: value }) : [];
+    setFieldErrors(prev => ({ ...prev, [name]: issue ? issue.message : '' }));
+  }, [formValues, validateOverrides]);
+
+  // Save the filled-in fields; empty fields use the value from the other layers
+  const handleSave = useCallback(() => {
+    const values = Object.fromEntries(
+      Object.entries(formValues)
+        .map(([key, value]) => [key, value.trim()])
+        .filter(([, value]) => value !== '')
+    );
+
+    const invalid = validateOverrides(values);
+    if (invalid.length > 0) {
+      setFieldErrors(Object.fromEntries(invalid.map(issue => [issue.key, issue.message])));
+      return;
+    }
+
+    setError(null);
+    try {
+      saveOverrides(values);
+      showSuccess('Settings saved');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Your settings could not be saved.');
+    }
+  }, [formValues, validateOverrides, saveOverrides, showSuccess]);
+
+  // Remove every override
+  const handleReset = useCallback(() => {
+    resetOverrides();
+    setFormValues(toFormValues({}));
+    setFieldErrors({});
+    setError(null);
+    showSuccess('Settings reset');
+  }, [resetOverrides, showSuccess]);
+
+  return (
+    <Layout>
+      <Box>
+        <Typography variant="h4" component="h1" gutterBottom>
+          Settings
+        </Typography>
+        <Typography variant="body1" color="textSecondary" paragraph>
+          Settings come from the app&apos;s defaults, the environment it was built with and the
+          config.json it is served with. The API address and mock mode are set by whoever deploys
+          the app, and the API key profile in use can set its own API address and venue. You can
+          override the other settings for this browser below.
+        </Typography>
+
+        {error && <Alert severity="error">{error}</Alert>}
+
+        {issues.length > 0 && (
+          <Alert severity="warning">
+            Some settings were ignored because their values are invalid:
+            <Box component="ul" sx={{ m: 0, pl: 3 }}>
+              {issues.map(issue => (
+                <li key={`${issue.source}-${issue.key}`}>
+                  {CONFIG_LABELS[issue.key as AppConfigKey] || issue.key} ({SOURCE_LABELS[issue.source]}): {issue.message}
+                </li>
+              ))}
+            </Box>
+          </Alert>
+        )}
+
+        <Paper elevation={2} sx={{ p: 2, mb: 3 }}>
+          <Typography variant="h6" component="h2" gutterBottom>
+            Settings in effect
+          </Typography>
+          <Table size="small" aria-label="Settings in effect">
+            <TableHead>
+              <TableRow>
+                <TableCell>Setting</TableCell>
+                <TableCell>Value</TableCell>
+                <TableCell>Source</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {(Object.keys(CONFIG_LABELS) as AppConfigKey[]).map(key => (
+                <TableRow key={key}>
+                  <TableCell>{CONFIG_LABELS[key]}</TableCell>
+                  <TableCell>{formatValue(key, config)}</TableCell>
+                  <TableCell>{SOURCE_LABELS[sources[key]]}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Paper>
+
+        <Paper elevation={2} sx={{ p: 2 }}>
+          <Typography variant="h6" component="h2" gutterBottom>
+            Your settings
+          </Typography>
+          <Typography variant="body2" color="textSecondary" paragraph>
+            Leave a field empty to use the value from the other sources.
+          </Typography>
+
+          {USER_CONFIG_KEYS.map(key => (
+            <Box key={key}>
+              <Input
+                name={key}
+                label={CONFIG_LABELS[key]}
+                type={typeof config[key] === 'number' ? 'number' : 'text'}
+                value={formValues[key]}
+                onChange={handleChange}
+                onBlur={handleBlur}
+                placeholder={String(config[key])}
+                error={fieldErrors[key] || null}
+                fullWidth
+              />
+              <Typography variant="caption" color="textSecondary" component="p" sx={{ mt: -1.5, mb: 2 }}>
+                {FIELD_HINTS[key]}
+              </Typography>
+            </Box>
+          ))}
+
+          <Box display="flex" gap={2} justifyContent="flex-end">
+            <Button variant="outlined" onClick={handleReset}>
+              Reset
+            </Button>
+            <Button variant="contained" color="primary" onClick={handleSave}>
+              Save
+            </Button>
+          </Box>
+        </Paper>
+
+        <ApiKeyVaultSettings />
+      </Box>
+    </Layout>
+  );
+};
+
+export default SettingsPage;
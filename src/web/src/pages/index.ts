@@ -7,19 +7,31 @@
  */
 
 // Import all page components
+import AccountsPage from './AccountsPage';
+import ClonePassesPage from './ClonePassesPage';
 import Dashboard from './Dashboard';
 import EventsPage from './EventsPage';
+import MockApiUnavailable from './MockApiUnavailable';
 import NotFound from './NotFound';
 import PassCreationPage from './PassCreationPage';
 import PassesPage from './PassesPage';
+import PassSearchPage from './PassSearchPage';
 import ResultsPage from './ResultsPage';
+import SchedulePage from './SchedulePage';
+import SettingsPage from './SettingsPage';
 
 // Export all page components as named exports for easy consumption
 export {
+  AccountsPage,
+  ClonePassesPage,
   Dashboard,
   EventsPage,
+  MockApiUnavailable,
   NotFound,
   PassCreationPage,
   PassesPage,
-  ResultsPage
+  PassSearchPage,
+  ResultsPage,
+  SchedulePage,
+  SettingsPage
 };
\ No newline at end of file
@@ -42,6 +42,43 @@ declare namespace NodeJS {
      * Maximum number of requests allowed per minute
      */
     REACT_APP_API_RATE_LIMIT?: string;
+
+    /**
+     * Base URL for the ParkHub API, set per deploy context in netlify.toml
+     * Example: "https://api.parkhub.com"
+     */
+    VITE_API_BASE_URL?: string;
+
+    /**
+     * Default landmark (venue) ID, set per deploy context in netlify.toml
+     */
+    VITE_API_LANDMARK_ID?: string;
+
+    /**
+     * Time to wait for an API response before giving up, in milliseconds
+     */
+    VITE_API_TIMEOUT?: string;
+
+    /**
+     * Number of times a failed API request is retried
+     */
+    VITE_API_RETRY_COUNT?: string;
+
+    /**
+     * How long cached events and passes are used, in milliseconds
+     */
+    VITE_CACHE_DURATION?: string;
+
+    /**
+     * Set to "true" to answer API requests with the in-browser mock ParkHub API
+     * Used by training and QA builds that have no real API key
+     */
+    VITE_ENABLE_MOCK_API?: string;
+
+    /**
+     * Google Wallet issuer ID that exported Google Wallet passes are issued under
+     */
+    VITE_GOOGLE_WALLET_ISSUER_ID?: string;
   }
 }
 
@@ -5,8 +5,13 @@ import {
   Dashboard,
   EventsPage,
   PassesPage,
+  PassSearchPage,
+  AccountsPage,
+  ClonePassesPage,
+  SchedulePage,
   PassCreationPage,
   ResultsPage,
+  SettingsPage,
   NotFound
 } from '../pages';
 
@@ -36,6 +41,22 @@ const routes: RouteObject[] = [
     path: ROUTES.PASSES,
     element: <PrivateRoute><PassesPage /></PrivateRoute>
   },
+  {
+    path: ROUTES.SEARCH,
+    element: <PrivateRoute><PassSearchPage /></PrivateRoute>
+  },
+  {
+    path: ROUTES.ACCOUNTS,
+    element: <PrivateRoute><AccountsPage /></PrivateRoute>
+  },
+  {
+    path: ROUTES.CLONE_PASSES,
+    element: <PrivateRoute><ClonePassesPage /></PrivateRoute>
+  },
+  {
+    path: ROUTES.SCHEDULE,
+    element: <PrivateRoute><SchedulePage /></PrivateRoute>
+  },
   {
     path: ROUTES.CREATE_PASSES,
     element: <PrivateRoute><PassCreationPage /></PrivateRoute>
@@ -44,6 +65,10 @@ const routes: RouteObject[] = [
     path: ROUTES.RESULTS,
     element: <PrivateRoute><ResultsPage /></PrivateRoute>
   },
+  {
+    path: ROUTES.SETTINGS,
+    element: <SettingsPage />
+  },
   {
     path: ROUTES.NOT_FOUND,
     element: <NotFound />
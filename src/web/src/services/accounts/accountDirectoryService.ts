@@ -0,0 +1,251 @@
+import { ParkHubPass } from '../../types/api.types';
+import { Event } from '../../types/event.types';
+import {
+  AccountDirectory,
+  AccountDirectoryListener,
+  AccountPassRecord,
+  AccountRecord
+} from '../../types/account.types';
+import {
+  getAccountDirectory,
+  saveAccountDirectory,
+  clearAccountDirectory
+} from '../storage/accountDirectoryStorage';
+import { getSelectedLandmarkId } from '../storage/landmarkStorage';
+
+/**
+ * Default number of accounts suggested by a search
+ */
+const DEFAULT_SUGGESTION_LIMIT = 8;
+
+/**
+ * Compares ISO timestamps so the newest comes first
+ * @param a - First timestamp
+ * @param b - Second timestamp
+ * @returns A negative number if a is newer than b
+ */
+const newestFirst = (a: string, b: string): number => b.localeCompare(a);
+
+/**
+ * Scores how well an account matches a search query
+ * @param account - The account
+ * @param query - Lower-case query
+ * @returns 3 when the account ID starts with the query, 2 when the name or one of its
+ * words does, 1 when the ID or any name contains the query, otherwise 0
+ */
+const scoreAccount = (account: AccountRecord, query: string): number => {
+  const accountId = account.accountId.toLowerCase();
+  const name = account.customerName.toLowerCase();
+
+  if (accountId.startsWith(query)) {
+    return 3;
+  }
+  if (name.startsWith(query) || name.split(/\s+/).some(word => word.startsWith(query))) {
+    return 2;
+  }
+  if (
+    accountId.includes(query) ||
+    name.includes(query) ||
+    account.otherNames.some(otherName => otherName.toLowerCase().includes(query))
+  ) {
+    return 1;
+  }
+  return 0;
+};
+
+/**
+ * Service that builds a directory of customer accounts from the passes the app sees,
+ * so account IDs and names can be suggested in the batch form and each account's pass
+ * history is available across events. Every venue (landmark) has its own directory.
+ */
+class AccountDirectoryService {
+  private readonly listeners = new Set<AccountDirectoryListener>();
+
+  /**
+   * Adds passes to a directory, updating the accounts they belong to
+   * @param directory - The directory to update
+   * @param passes - Passes to add; passes already recorded are updated
+   * @param events - Known events, used to record event names
+   * @returns A new directory containing the passes
+   */
+  public mergePasses(directory: AccountDirectory, passes: ParkHubPass[], events: Event[] = []): AccountDirectory {
+    const eventNames = new Map(events.map(event => [event.id, event.name]));
+    const updated: AccountDirectory = { ...directory };
+
+    passes.forEach(pass => {
+      const accountId = (pass.accountId || '').trim();
+      if (!accountId) {
+        return;
+      }
+
+      const existing = updated[accountId];
+      const history = existing ? [...existing.history] : [];
+      const previous = history.findIndex(entry => entry.passId === pass.id);
+      const entry: AccountPassRecord = {
+        passId: pass.id,
+        eventId: pass.eventId,
+        eventName: eventNames.get(pass.eventId) || (previous >= 0 ? history[previous].eventName : null),
+        barcode: pass.barcode,
+        customerName: (pass.customerName || '').trim(),
+        spotType: pass.spotType,
+        lotId: pass.lotId,
+        status: pass.status,
+        createdAt: pass.createdAt
+      };
+
+      if (previous >= 0) {
+        history[previous] = entry;
+      } else {
+        history.push(entry);
+      }
+      history.sort((a, b) => newestFirst(a.createdAt, b.createdAt));
+
+      updated[accountId] = this.summarize(accountId, history, existing);
+    });
+
+    return updated;
+  }
+
+  /**
+   * Records passes in the stored directory of a venue
+   * @param passes - Passes to record
+   * @param events - Known events, used to record event names
+   * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
+   * @returns True if the directory was saved, false otherwise
+   */
+  public recordPasses(
+    passes: ParkHubPass[],
+    events: Event[] = [],
+    landMarkId: string = getSelectedLandmarkId()
+  ): boolean {
+    if (passes.length === 0) {
+      return true;
+    }
+
+    const saved = saveAccountDirectory(
+      this.mergePasses(getAccountDirectory(landMarkId), passes, events),
+      landMarkId
+    );
+    this.notify(landMarkId);
+    return saved;
+  }
+
+  /**
+   * Finds accounts whose ID or customer name matches a query
+   * @param directory - The directory to search
+   * @param query - Account ID or customer name, in whole or part
+   * @param limit - Maximum number of accounts to return
+   * @returns Matching accounts, best match and then most recently seen first; the most
+   * recently seen accounts when the query is blank
+   */
+  public searchAccounts(
+    directory: AccountDirectory,
+    query: string,
+    limit: number = DEFAULT_SUGGESTION_LIMIT
+  ): AccountRecord[] {
+    const normalizedQuery = query.trim().toLowerCase();
+    const accounts = Object.values(directory);
+
+    if (!normalizedQuery) {
+      return accounts.sort((a, b) => newestFirst(a.lastSeen, b.lastSeen)).slice(0, limit);
+    }
+
+    return accounts
+      .map(account => ({ account, score: scoreAccount(account, normalizedQuery) }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score || newestFirst(a.account.lastSeen, b.account.lastSeen))
+      .slice(0, limit)
+      .map(({ account }) => account);
+  }
+
+  /**
+   * Removes an account from the stored directory of a venue
+   * @param accountId - The account ID
+   * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
+   * @returns True if the account was removed, false otherwise
+   */
+  public removeAccount(accountId: string, landMarkId: string = getSelectedLandmarkId()): boolean {
+    const { [accountId]: removed, ...remaining } = getAccountDirectory(landMarkId);
+
+    if (!removed) {
+      return false;
+    }
+
+    const saved = saveAccountDirectory(remaining, landMarkId);
+    this.notify(landMarkId);
+    return saved;
+  }
+
+  /**
+   * Removes every account of a venue
+   * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
+   * @returns True if the directory was removed, false otherwise
+   */
+  public clear(landMarkId: string = getSelectedLandmarkId()): boolean {
+    const cleared = clearAccountDirectory(landMarkId);
+    this.notify(landMarkId);
+    return cleared;
+  }
+
+  /**
+   * Registers a callback notified whenever a directory changes
+   * @param listener - Callback receiving the landmark ID of the changed directory
+   * @returns Function that removes the callback
+   */
+  public subscribe(listener: AccountDirectoryListener): () => void {
+    this.listeners.add(listener);
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Builds an account from its pass history
+   * @param accountId - The account ID
+   * @param history - The account's passes, newest first
+   * @param existing - The account before the update, if it was known
+   * @returns The updated account
+   */
+  private summarize(
+    accountId: string,
+    history: AccountPassRecord[],
+    existing?: AccountRecord
+  ): AccountRecord {
+    const names = history.map(entry => entry.customerName).filter(Boolean);
+    const customerName = names[0] || existing?.customerName || '';
+
+    // Names differing only in case are the same name
+    const seen = new Set([customerName.toLowerCase()]);
+    const otherNames = [...names, ...(existing?.otherNames || [])].filter(name => {
+      const key = name.toLowerCase();
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+
+    return {
+      accountId,
+      customerName,
+      otherNames,
+      firstSeen: history[history.length - 1].createdAt,
+      lastSeen: history[0].createdAt,
+      history
+    };
+  }
+
+  /**
+   * Notifies every listener that a directory changed
+   * @param landMarkId - Landmark ID of the changed directory
+   */
+  private notify(landMarkId: string): void {
+    this.listeners.forEach(listener => listener(landMarkId));
+  }
+}
+
+// Export the class and a singleton instance
+export { AccountDirectoryService };
+export const accountDirectoryService = new AccountDirectoryService();
+export default accountDirectoryService;
@@ -0,0 +1,13 @@
+/**
+ * Barrel file for the accounts module that exports the account directory service.
+ * Provides a single entry point for looking up customer accounts known from past passes.
+ * 
+ * @module services/accounts
+ * @version 1.0.0
+ */
+
+import accountDirectoryService, { AccountDirectoryService } from './accountDirectoryService';
+
+export { accountDirectoryService, AccountDirectoryService };
+
+export default accountDirectoryService;
\ No newline at end of file
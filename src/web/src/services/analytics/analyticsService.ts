@@ -0,0 +1,233 @@
+import { ParkHubPass } from '../../types/api.types';
+import { Event } from '../../types/event.types';
+import { PassStatus } from '../../types/pass.types';
+import {
+  AnalyticsDateRange,
+  AnalyticsDatum,
+  AnalyticsInterval,
+  AnalyticsRangePreset,
+  PassAnalytics
+} from '../../types/analytics.types';
+import { SPOT_TYPES_ARRAY, SPOT_TYPE_LABELS } from '../../constants/spotTypes';
+import { addDays, formatDate, getDateDifferenceInDays, parseDate, subtractDays } from '../../utils/date-helpers';
+import { formatPassStatus } from '../../utils/formatting';
+
+/**
+ * Ranges longer than this many days are charted per week instead of per day
+ */
+const MAX_DAILY_POINTS = 62;
+
+/**
+ * Number of days covered by each preset range, including today
+ */
+const PRESET_DAYS: Partial<Record<AnalyticsRangePreset, number>> = {
+  [AnalyticsRangePreset.LAST_7_DAYS]: 7,
+  [AnalyticsRangePreset.LAST_30_DAYS]: 30,
+  [AnalyticsRangePreset.LAST_90_DAYS]: 90
+};
+
+/**
+ * Status order used for the status chart
+ */
+const STATUS_ORDER: PassStatus[] = [PassStatus.ACTIVE, PassStatus.USED, PassStatus.INACTIVE, PassStatus.CANCELLED];
+
+/**
+ * Returns a copy of a date set to the start of its day
+ * @param date - The date
+ * @returns Midnight at the start of the date
+ */
+const startOfDay = (date: Date): Date => {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  return result;
+};
+
+/**
+ * Returns a copy of a date set to the end of its day
+ * @param date - The date
+ * @returns The last millisecond of the date
+ */
+const endOfDay = (date: Date): Date => {
+  const result = new Date(date);
+  result.setHours(23, 59, 59, 999);
+  return result;
+};
+
+/**
+ * Returns the Monday starting the week of a date
+ * @param date - The date
+ * @returns Midnight at the start of the week
+ */
+const startOfWeek = (date: Date): Date => subtractDays(startOfDay(date), (date.getDay() + 6) % 7);
+
+/**
+ * Counts items by key, keeping the first label seen for each key
+ * @param items - Items to count
+ * @param getGroup - Returns the key and label of an item's group
+ * @returns Count of items per key
+ */
+const countBy = <T>(items: T[], getGroup: (item: T) => { key: string; label: string }): AnalyticsDatum[] => {
+  const groups = new Map<string, AnalyticsDatum>();
+
+  items.forEach(item => {
+    const { key, label } = getGroup(item);
+    const group = groups.get(key);
+    if (group) {
+      group.value++;
+    } else {
+      groups.set(key, { key, label, value: 1 });
+    }
+  });
+
+  return Array.from(groups.values());
+};
+
+/**
+ * Sorts chart data by value, most first, then by label
+ * @param data - Chart data
+ * @returns The sorted data
+ */
+const sortByValue = (data: AnalyticsDatum[]): AnalyticsDatum[] =>
+  [...data].sort((a, b) => b.value - a.value || a.label.localeCompare(b.label));
+
+/**
+ * Service that aggregates passes into the numbers shown on the dashboard charts.
+ * The service only works on passes already fetched, so it can be used with cached
+ * passes and is easy to test.
+ */
+class AnalyticsService {
+  /**
+   * Calculates the creation date range of a preset
+   * @param preset - The preset
+   * @param now - Current time (defaults to now)
+   * @returns The preset's range; both bounds are null for all time and custom ranges
+   */
+  public getPresetRange(preset: AnalyticsRangePreset, now: Date = new Date()): AnalyticsDateRange {
+    const days = PRESET_DAYS[preset];
+
+    if (!days) {
+      return { from: null, to: null };
+    }
+
+    return { from: startOfDay(subtractDays(now, days - 1)), to: endOfDay(now) };
+  }
+
+  /**
+   * Aggregates the passes created within a date range
+   * @param passes - Passes from every event
+   * @param events - Events the passes belong to, used for event names
+   * @param range - Range of creation dates to include
+   * @param now - Current time, ending open ranges (defaults to now)
+   * @returns The aggregated passes
+   */
+  public aggregatePasses(
+    passes: ParkHubPass[],
+    events: Event[],
+    range: AnalyticsDateRange,
+    now: Date = new Date()
+  ): PassAnalytics {
+    const from = range.from ? startOfDay(range.from) : null;
+    const to = range.to ? endOfDay(range.to) : null;
+
+    const dated: Array<{ pass: ParkHubPass; createdAt: Date }> = [];
+    passes.forEach(pass => {
+      const createdAt = parseDate(pass.createdAt);
+      if (createdAt && (!from || createdAt >= from) && (!to || createdAt <= to)) {
+        dated.push({ pass, createdAt });
+      }
+    });
+    const inRange = dated.map(({ pass }) => pass);
+
+    const eventNames = new Map(events.map(event => [event.id, `${event.name} (${event.formattedDate})`]));
+    const byEvent = sortByValue(countBy(inRange, pass => ({
+      key: pass.eventId,
+      label: eventNames.get(pass.eventId) || pass.eventId
+    })));
+
+    const spotTypeCounts = countBy(inRange, pass => ({ key: pass.spotType.toLowerCase(), label: pass.spotType }));
+    const bySpotType = SPOT_TYPES_ARRAY.map(spotType => ({
+      key: spotType,
+      label: SPOT_TYPE_LABELS[spotType],
+      value: spotTypeCounts.find(count => count.key === spotType.toLowerCase())?.value || 0
+    }));
+
+    const statusCounts = countBy(inRange, pass => ({
+      key: pass.status.toLowerCase(),
+      label: formatPassStatus(pass.status)
+    }));
+    const byStatus = [
+      ...STATUS_ORDER.map(status => ({
+        key: status,
+        label: formatPassStatus(status),
+        value: statusCounts.find(count => count.key === status)?.value || 0
+      })),
+      ...statusCounts.filter(count => !STATUS_ORDER.includes(count.key as PassStatus))
+    ];
+
+    const byLot = sortByValue(countBy(inRange, pass => ({ key: pass.lotId, label: pass.lotId || 'No lot' })));
+
+    const { data: byCreationDate, interval } = this.countByCreationDate(
+      dated.map(({ createdAt }) => createdAt),
+      from,
+      to || endOfDay(now)
+    );
+
+    return {
+      totalPasses: inRange.length,
+      eventsWithPasses: byEvent.length,
+      byEvent,
+      bySpotType,
+      byLot,
+      byStatus,
+      byCreationDate,
+      interval
+    };
+  }
+
+  /**
+   * Counts passes per day, or per week for long ranges, filling in days or weeks without passes
+   * @param dates - Creation dates of the passes
+   * @param from - Start of the range, or null to start at the oldest pass
+   * @param to - End of the range
+   * @returns The counts, oldest first, and the interval used
+   */
+  private countByCreationDate(
+    dates: Date[],
+    from: Date | null,
+    to: Date
+  ): { data: AnalyticsDatum[]; interval: AnalyticsInterval } {
+    if (dates.length === 0 && !from) {
+      return { data: [], interval: AnalyticsInterval.DAY };
+    }
+
+    const oldest = dates.reduce((min, date) => (date < min ? date : min), to);
+    const start = startOfDay(from || oldest);
+    const interval = getDateDifferenceInDays(start, to) + 1 > MAX_DAILY_POINTS
+      ? AnalyticsInterval.WEEK
+      : AnalyticsInterval.DAY;
+    const getBucket = interval === AnalyticsInterval.WEEK ? startOfWeek : startOfDay;
+    const step = interval === AnalyticsInterval.WEEK ? 7 : 1;
+
+    const counts = new Map<number, number>();
+    dates.forEach(date => {
+      const bucket = getBucket(date).getTime();
+      counts.set(bucket, (counts.get(bucket) || 0) + 1);
+    });
+
+    const data: AnalyticsDatum[] = [];
+    for (let bucket = getBucket(start); bucket <= to; bucket = addDays(bucket, step)) {
+      data.push({
+        key: formatDate(bucket, 'YYYY-MM-DD'),
+        label: formatDate(bucket, 'MM/DD'),
+        value: counts.get(bucket.getTime()) || 0
+      });
+    }
+
+    return { data, interval };
+  }
+}
+
+// Export the class and a singleton instance
+export { AnalyticsService };
+export const analyticsService = new AnalyticsService();
+export default analyticsService;
@@ -0,0 +1,13 @@
+/**
+ * Barrel file for the analytics module that exports the analytics service.
+ * Provides a single entry point for aggregating passes for the dashboard charts.
+ * 
+ * @module services/analytics
+ * @version 1.0.0
+ */
+
+import analyticsService, { AnalyticsService } from './analyticsService';
+
+export { analyticsService, AnalyticsService };
+
+export default analyticsService;
\ No newline at end of file
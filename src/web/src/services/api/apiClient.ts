@@ -3,10 +3,14 @@ import { ApiResponse, ApiError } from '../../types/common.types';
 import { 
   ApiClientConfig, 
   ApiClientInterface, 
+  ApiRequestConfig,
   ApiRequestInterceptor, 
   ApiResponseInterceptor, 
-  ApiErrorInterceptor 
+  ApiErrorInterceptor,
+  RequestPriority,
+  RequestSchedulerConfig
 } from './types';
+import { RequestScheduler, parseRetryAfter } from './requestScheduler';
 import { 
   createAuthHeader, 
   handleApiResponse, 
@@ -14,6 +18,7 @@ import {
   validateApiKey 
 } from '../../utils/api-helpers';
 import { mapErrorToAppError } from '../../utils/error-handling';
+import { ErrorCode } from '../../types/error.types';
 import { retry, retryWithBackoff } from '../../utils/retry-logic';
 import { API_BASE_URL } from '../../constants/apiEndpoints';
 import { apiKeyStorage } from '../storage/apiKeyStorage';
@@ -27,14 +32,29 @@ const DEFAULT_CONFIG: Partial<ApiClientConfig> = {
   retryCount: 3
 };
 
+/**
+ * Default rate and concurrency limits for the request scheduler.
+ */
+const DEFAULT_SCHEDULER_CONFIG: RequestSchedulerConfig = {
+  requestsPerSecond: 5,
+  maxConcurrentRequests: 4
+};
+
+/**
+ * Time to wait after a rate limit response that has no Retry-After header.
+ */
+const DEFAULT_RATE_LIMIT_PAUSE_MS = 1000;
+
 /**
  * Implementation of the API client interface that handles communication with the ParkHub API.
  * Provides methods for making HTTP requests, managing API keys, and handling errors with retry logic.
+ * Requests are sent through a rate-limited scheduler that honors the API's Retry-After headers.
  */
 export class ApiClient implements ApiClientInterface {
   private axiosInstance: AxiosInstance;
   private config: ApiClientConfig;
   private apiKey: string | null;
+  private scheduler: RequestScheduler;
 
   /**
    * Initializes the API client with configuration and sets up interceptors.
@@ -50,6 +70,12 @@ export class ApiClient implements ApiClientInterface {
     // Initialize API key from storage or config
     this.apiKey = apiKeyStorage.getApiKey() || this.config.apiKey || null;
 
+    // Limit how quickly requests are sent so large batches don't hit the API's rate limit
+    this.scheduler = new RequestScheduler({
+      requestsPerSecond: this.config.requestsPerSecond ?? DEFAULT_SCHEDULER_CONFIG.requestsPerSecond,
+      maxConcurrentRequests: this.config.maxConcurrentRequests ?? DEFAULT_SCHEDULER_CONFIG.maxConcurrentRequests
+    });
+
     // Create axios instance with baseUrl and timeout
     this.axiosInstance = axios.create({
       baseURL: this.config.baseUrl,
@@ -63,100 +89,45 @@ export class ApiClient implements ApiClientInterface {
 
   /**
    * Performs a GET request to the specified URL with retry logic.
+   * GET requests are scheduled at interactive priority unless another priority is given.
    * @param url - The URL to request
-   * @param config - Optional Axios request configuration
+   * @param config - Optional request configuration
    * @returns Promise resolving to a standardized API response
    */
-  public async get<T>(url: string, config?: AxiosRequestConfig): Promise<ApiResponse<T>> {
-    this.validateApiKeyAvailability();
-
-    // Wrap the axios get request with retry logic
-    return retryWithBackoff(
-      async () => {
-        const response = await this.axiosInstance.get<T>(url, config);
-        return handleApiResponse<T>(response);
-      },
-      {
-        maxRetries: this.config.retryCount,
-        onRetry: (error, retryCount, delayMs) => {
-          console.warn(`Retrying GET request to ${url} (${retryCount}/${this.config.retryCount}) after ${delayMs}ms due to error:`, error);
-        }
-      }
-    )();
+  public async get<T>(url: string, config?: ApiRequestConfig): Promise<ApiResponse<T>> {
+    return this.send<T>('GET', url, axiosConfig => this.axiosInstance.get<T>(url, axiosConfig), config);
   }
 
   /**
    * Performs a POST request to the specified URL with retry logic.
    * @param url - The URL to request
    * @param data - The data to send in the request body
-   * @param config - Optional Axios request configuration
+   * @param config - Optional request configuration
    * @returns Promise resolving to a standardized API response
    */
-  public async post<T>(url: string, data: any, config?: AxiosRequestConfig): Promise<ApiResponse<T>> {
-    this.validateApiKeyAvailability();
-
-    // Wrap the axios post request with retry logic
-    return retryWithBackoff(
-      async () => {
-        const response = await this.axiosInstance.post<T>(url, data, config);
-        return handleApiResponse<T>(response);
-      },
-      {
-        maxRetries: this.config.retryCount,
-        onRetry: (error, retryCount, delayMs) => {
-          console.warn(`Retrying POST request to ${url} (${retryCount}/${this.config.retryCount}) after ${delayMs}ms due to error:`, error);
-        }
-      }
-    )();
+  public async post<T>(url: string, data: any, config?: ApiRequestConfig): Promise<ApiResponse<T>> {
+    return this.send<T>('POST', url, axiosConfig => this.axiosInstance.post<T>(url, data, axiosConfig), config);
   }
 
   /**
    * Performs a PUT request to the specified URL with retry logic.
    * @param url - The URL to request
    * @param data - The data to send in the request body
-   * @param config - Optional Axios request configuration
+   * @param config - Optional request configuration
    * @returns Promise resolving to a standardized API response
    */
-  public async put<T>(url: string, data: any, config?: AxiosRequestConfig): Promise<ApiResponse<T>> {
-    this.validateApiKeyAvailability();
-
-    // Wrap the axios put request with retry logic
-    return retryWithBackoff(
-      async () => {
-        const response = await this.axiosInstance.put<T>(url, data, config);
-        return handleApiResponse<T>(response);
-      },
-      {
-        maxRetries: this.config.retryCount,
-        onRetry: (error, retryCount, delayMs) => {
-          console.warn(`Retrying PUT request to ${url} (${retryCount}/${this.config.retryCount}) after ${delayMs}ms due to error:`, error);
-        }
-      }
-    )();
+  public async put<T>(url: string, data: any, config?: ApiRequestConfig): Promise<ApiResponse<T>> {
+    return this.send<T>('PUT', url, axiosConfig => this.axiosInstance.put<T>(url, data, axiosConfig), config);
   }
 
   /**
    * Performs a DELETE request to the specified URL with retry logic.
    * @param url - The URL to request
-   * @param config - Optional Axios request configuration
+   * @param config - Optional request configuration
    * @returns Promise resolving to a standardized API response
    */
-  public async delete<T>(url: string, config?: AxiosRequestConfig): Promise<ApiResponse<T>> {
-    this.validateApiKeyAvailability();
-
-    // Wrap the axios delete request with retry logic
-    return retryWithBackoff(
-      async () => {
-        const response = await this.axiosInstance.delete<T>(url, config);
-        return handleApiResponse<T>(response);
-      },
-      {
-        maxRetries: this.config.retryCount,
-        onRetry: (error, retryCount, delayMs) => {
-          console.warn(`Retrying DELETE request to ${url} (${retryCount}/${this.config.retryCount}) after ${delayMs}ms due to error:`, error);
-        }
-      }
-    )();
+  public async delete<T>(url: string, config?: ApiRequestConfig): Promise<ApiResponse<T>> {
+    return this.send<T>('DELETE', url, axiosConfig => this.axiosInstance.delete<T>(url, axiosConfig), config);
   }
 
   /**
@@ -175,6 +146,28 @@ export class ApiClient implements ApiClientInterface {
     this.apiKey = apiKey;
   }
 
+  /**
+   * Stops sending the API key with requests, without removing it from storage.
+   * Used when the API key vault locks and when another API key profile is selected.
+   */
+  public clearApiKey(): void {
+    this.apiKey = null;
+  }
+
+  /**
+   * Changes the base URL, timeout or retry count used for requests sent from now on.
+   * @param config - Settings to change; settings not provided are left unchanged
+   */
+  public updateConfig(config: Partial<Pick<ApiClientConfig, 'baseUrl' | 'timeout' | 'retryCount'>>): void {
+    this.config = {
+      ...this.config,
+      ...config
+    };
+
+    this.axiosInstance.defaults.baseURL = this.config.baseUrl;
+    this.axiosInstance.defaults.timeout = this.config.timeout;
+  }
+
   /**
    * Retrieves the current API key.
    * @returns The current API key or null if not set
@@ -248,13 +241,22 @@ export class ApiClient implements ApiClientInterface {
       },
       // Error handler
       (error: any) => {
+        // Hold back every queued request until the API allows requests again
+        if (error?.response?.status === 429) {
+          this.scheduler.pauseFor(
+            parseRetryAfter(error.response.headers?.['retry-after']) ?? DEFAULT_RATE_LIMIT_PAUSE_MS
+          );
+        }
+
         // Transform the error using the error handling utility
         const apiError = handleApiError(error);
         
-        // If it's an authentication error, clear the API key
+        // If the API key was rejected, clear it; a key forbidden for one venue still works for others
         if (
           apiError.error &&
-          (apiError.error.code === 'invalid_api_key' || apiError.error.code === 'missing_api_key')
+          (apiError.error.code === 'invalid_api_key' ||
+            apiError.error.code === 'expired_api_key' ||
+            apiError.error.code === 'missing_api_key')
         ) {
           this.apiKey = null;
         }
@@ -264,6 +266,80 @@ export class ApiClient implements ApiClientInterface {
     );
   }
 
+  /**
+   * Sends a request through the request scheduler with retry logic.
+   * @private
+   * @param method - HTTP method, used for scheduling and logging
+   * @param url - The URL to request
+   * @param request - Function that sends the request with the Axios configuration
+   * @param config - Optional request configuration
+   * @returns Promise resolving to a standardized API response
+   */
+  private async send<T>(
+    method: string,
+    url: string,
+    request: (config: AxiosRequestConfig) => Promise<AxiosResponse<T>>,
+    config: ApiRequestConfig = {}
+  ): Promise<ApiResponse<T>> {
+    this.validateApiKeyAvailability();
+
+    const {
+      priority = method === 'GET' ? RequestPriority.INTERACTIVE : RequestPriority.NORMAL,
+      reconcile,
+      ...axiosConfig
+    } = config;
+    let attempts = 0;
+
+    // Wrap the scheduled request with retry logic
+    return retryWithBackoff(
+      async () => {
+        // A failed request may still have taken effect, so check before sending it again
+        if (attempts++ > 0 && reconcile) {
+          const reconciled = await reconcile();
+          if (reconciled) {
+            return reconciled as ApiResponse<T>;
+          }
+        }
+
+        return this.schedule(async () => {
+          const response = await request(axiosConfig);
+          return handleApiResponse<T>(response);
+        }, priority);
+      },
+      {
+        maxRetries: this.config.retryCount,
+        onRetry: (error, retryCount, delayMs) => {
+          console.warn(`Retrying ${method} request to ${url} (${retryCount}/${this.config.retryCount}) after ${delayMs}ms due to error:`, error);
+        }
+      }
+    )();
+  }
+
+  /**
+   * Queues a request with the scheduler, queueing it again when the API rejects it
+   * for exceeding the rate limit.
+   * @private
+   * @param task - Function that sends the request
+   * @param priority - Priority of the request
+   * @param attempt - Number of times the request has been rate limited
+   * @returns Promise resolving to a standardized API response
+   */
+  private async schedule<T>(
+    task: () => Promise<ApiResponse<T>>,
+    priority: RequestPriority,
+    attempt = 0
+  ): Promise<ApiResponse<T>> {
+    try {
+      return await this.scheduler.schedule(task, priority);
+    } catch (error) {
+      // The scheduler is paused until the API allows requests again, so the request waits behind it
+      if ((error as ApiResponse<never>)?.error?.code === ErrorCode.RATE_LIMIT_EXCEEDED && attempt < this.config.retryCount) {
+        return this.schedule(task, priority, attempt + 1);
+      }
+      throw error;
+    }
+  }
+
   /**
    * Validates that an API key is available for requests.
    * @private
@@ -1,74 +1,96 @@
 /**
  * Service responsible for authentication-related API operations in the ParkHub Passes Creation Web Application.
- * Handles API key validation, verification, and management, providing a centralized interface
- * for authentication operations used throughout the application.
+ * Handles API key validation, verification against the events endpoint, and management,
+ * providing a centralized interface for authentication operations used throughout the application.
  * 
  * @version 1.0.0
  */
 
-import { AxiosRequestConfig } from 'axios'; // v1.3.4
+import axios from 'axios'; // v1.3.4
 import { apiClient } from './apiClient';
 import { ApiResponse } from '../../types/common.types';
+import { AppError, ErrorCode, ErrorType } from '../../types/error.types';
+import { ApiKeyStatus, ApiKeyVerification } from '../../types/auth.types';
 import { apiKeyStorage } from '../storage/apiKeyStorage';
-import { validateApiKey } from '../../utils/api-helpers';
-import { API_BASE_URL } from '../../constants/apiEndpoints';
+import { getSelectedLandmarkId } from '../storage/landmarkStorage';
+import { createAuthHeader, formatDateForApi, validateApiKey } from '../../utils/api-helpers';
+import { createAuthenticationError, mapErrorToAppError } from '../../utils/error-handling';
+import { buildEventsUrl } from '../../constants/apiEndpoints';
 
 /**
- * Verifies that an API key is valid by making a test request to the ParkHub API
+ * Time to wait for ParkHub to answer a verification request before reporting it unreachable
+ */
+const VERIFICATION_TIMEOUT_MS = 10000;
+
+/**
+ * Works out what an error returned while verifying an API key says about the key
+ * 
+ * @param error - The error returned by the API
+ * @returns The status of the key
+ */
+const getVerificationStatus = (error: AppError): ApiKeyStatus => {
+  switch (error.type) {
+    case ErrorType.AUTHENTICATION:
+      if (error.code === ErrorCode.EXPIRED_API_KEY) {
+        return ApiKeyStatus.EXPIRED;
+      }
+      return error.code === ErrorCode.LANDMARK_FORBIDDEN ? ApiKeyStatus.FORBIDDEN : ApiKeyStatus.INVALID;
+    case ErrorType.NETWORK:
+    case ErrorType.SERVER:
+      return ApiKeyStatus.UNREACHABLE;
+    default:
+      return ApiKeyStatus.UNVERIFIED;
+  }
+};
+
+/**
+ * Verifies an API key by requesting the events of a venue, the cheapest request
+ * ParkHub authenticates. The request is sent directly rather than through the API
+ * client, so the key being verified is never stored or sent with other requests,
+ * the request isn't retried, and a rejected key doesn't clear the key in use.
  * 
  * @param apiKey - The API key to verify
- * @returns Promise resolving to an API response indicating whether the API key is valid
+ * @param landMarkId - Venue to verify the key against (defaults to the selected venue)
+ * @returns Promise resolving to the result of the verification; it never rejects
  */
-const verifyApiKey = async (apiKey: string): Promise<ApiResponse<boolean>> => {
+const verifyApiKey = async (
+  apiKey: string,
+  landMarkId: string = getSelectedLandmarkId()
+): Promise<ApiKeyVerification> => {
   // First validate the API key format
   const validation = validateApiKey(apiKey);
   if (!validation.valid) {
     return {
-      success: false,
-      data: null,
-      error: validation.error
+      status: ApiKeyStatus.INVALID,
+      landMarkId,
+      checkedAt: Date.now(),
+      error: createAuthenticationError(401, ErrorCode.MISSING_API_KEY, validation.error?.message || '')
     };
   }
 
-  // Store the original API key to restore it later
-  const originalApiKey = apiClient.getApiKey();
-
   try {
-    // Temporarily set the API key for the test request
-    apiClient.setApiKey(apiKey);
-
-    // Make a lightweight request to test the API key
-    // We use the events endpoint with a limit=1 parameter to minimize data transfer
-    const config: AxiosRequestConfig = {
-      params: { limit: 1 }
-    };
+    // Ask for a single event from today to keep the response small
+    await axios.get(buildEventsUrl({ landMarkId, dateFrom: formatDateForApi(new Date()) }), {
+      headers: createAuthHeader(apiKey),
+      params: { limit: 1 },
+      timeout: VERIFICATION_TIMEOUT_MS
+    });
 
-    // Execute the request - if it succeeds, the API key is valid
-    const response = await apiClient.get<any>(`${API_BASE_URL}/healthcheck`, config);
-    
     return {
-      success: true,
-      data: true,
+      status: ApiKeyStatus.VALID,
+      landMarkId,
+      checkedAt: Date.now(),
       error: null
     };
   } catch (error) {
-    // If the error is authentication-related, the API key is invalid
+    const appError = mapErrorToAppError(error);
+
     return {
-      success: false,
-      data: null,
-      error: {
-        code: 'invalid_api_key',
-        message: 'The API key provided is invalid or has expired. Please check your API key and try again.'
-      }
+      status: getVerificationStatus(appError),
+      landMarkId,
+      checkedAt: Date.now(),
+      error: appError
     };
-  } finally {
-    // Restore the original API key
-    if (originalApiKey) {
-      apiClient.setApiKey(originalApiKey);
-    } else {
-      // If there was no original API key, clear the temporary one
-      apiClient.setApiKey('');
-    }
   }
 };
 
@@ -80,15 +102,21 @@ const verifyApiKey = async (apiKey: string): Promise<ApiResponse<boolean>> => {
  */
 const storeApiKey = async (apiKey: string): Promise<ApiResponse<boolean>> => {
   // First verify the API key is valid
-  const verificationResult = await verifyApiKey(apiKey);
+  const verification = await verifyApiKey(apiKey);
   
   // If verification failed, return the error response
-  if (!verificationResult.success) {
-    return verificationResult;
+  if (verification.status !== ApiKeyStatus.VALID) {
+    return {
+      success: false,
+      data: null,
+      error: verification.error
+        ? { code: verification.error.code, message: verification.error.message }
+        : null
+    };
   }
   
-  // Store the API key securely
-  const storageResult = apiKeyStorage.setApiKey(apiKey);
+  // Store the API key securely, waiting for the vault to save it in vault mode
+  const storageResult = await apiKeyStorage.setApiKeyAsync(apiKey);
   
   // Set the API key in the API client for future requests
   if (storageResult) {
@@ -152,10 +180,10 @@ const hasValidApiKey = async (): Promise<boolean> => {
   }
   
   // Verify the API key by making a test request
-  const verificationResult = await verifyApiKey(apiKey);
+  const verification = await verifyApiKey(apiKey);
   
   // Return true if verification succeeded, false otherwise
-  return verificationResult.success;
+  return verification.status === ApiKeyStatus.VALID;
 };
 
 /**
@@ -1,7 +1,8 @@
 import { ApiResponse } from '../../types/common.types';
 import { ParkHubEvent, GetEventsParams, EventsApiInterface } from '../../types/api.types';
 import { apiClient } from './apiClient';
-import { LANDMARK_ID, buildEventsUrl } from '../../constants/apiEndpoints';
+import { buildEventsUrl } from '../../constants/apiEndpoints';
+import { getSelectedLandmarkId } from '../storage/landmarkStorage';
 import { formatDateForApi } from '../../utils/api-helpers';
 import { mapErrorToAppError } from '../../utils/error-handling';
 
@@ -11,13 +12,13 @@ import { mapErrorToAppError } from '../../utils/error-handling';
 export class EventsApi implements EventsApiInterface {
   /**
    * Retrieves a list of events from the ParkHub API
-   * @param params - Optional parameters for filtering events
+   * @param params - Optional parameters for filtering events (landmark defaults to the selected landmark)
    * @returns Promise resolving to an API response containing an array of ParkHub events
    */
   public async getEvents(params?: GetEventsParams): Promise<ApiResponse<ParkHubEvent[]>> {
     // Set default parameters
     const defaultParams: GetEventsParams = {
-      landMarkId: LANDMARK_ID,
+      landMarkId: getSelectedLandmarkId(),
       dateFrom: formatDateForApi(new Date()) // Default to current date
     };
 
@@ -1,19 +1,32 @@
+import { v4 as uuidv4 } from 'uuid'; // ^9.0.0
+
 import { ApiResponse } from '../../types/common.types';
 import {
   ParkHubPass,
   GetPassesParams,
   CreatePassRequest,
   CreatePassResponse,
+  UpdatePassRequest,
+  UpdatePassResponse,
   PassesApiInterface,
-  BatchPassCreationResult
+  BatchPassCreationResult,
+  RequestPriority
 } from './types';
 import { apiClient } from './apiClient';
 import {
-  LANDMARK_ID,
   buildPassesUrl,
-  buildCreatePassUrl
+  buildCreatePassUrl,
+  buildPassUrl
 } from '../../constants/apiEndpoints';
+import { getSelectedLandmarkId } from '../storage/landmarkStorage';
+import {
+  BatchCreationOptions,
+  BatchJobItemStatus,
+  BatchProgressEventType
+} from '../../types/batchJob.types';
 import { mapErrorToAppError } from '../../utils/error-handling';
+import { createIdempotencyHeader } from '../../utils/api-helpers';
+import { matchesPassRequest } from '../../utils/validation';
 
 /**
  * Implementation of the Passes API service for retrieving and creating
@@ -32,10 +45,10 @@ class PassesApi implements PassesApiInterface {
       throw new Error('Event ID is required for retrieving passes');
     }
 
-    // Ensure landMarkId is set if not provided
+    // Fall back to the selected landmark if not provided
     const passesParams: GetPassesParams = {
       ...params,
-      landMarkId: params.landMarkId || LANDMARK_ID
+      landMarkId: params.landMarkId || getSelectedLandmarkId()
     };
 
     try {
@@ -51,23 +64,28 @@ class PassesApi implements PassesApiInterface {
   }
 
   /**
-   * Creates a new parking pass in the ParkHub system
+   * Creates a new parking pass in the ParkHub system. Every attempt carries the same
+   * idempotency key, and before a retry the event's passes are checked by barcode so a
+   * pass the API accepted before the request failed is never created twice.
    * @param data - Pass creation request data
+   * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
+   * @param idempotencyKey - Optional key sent with every attempt (generated if not provided)
    * @returns Promise resolving to an API response containing the creation result
    * @throws Error if required fields are missing
    */
-  public async createPass(data: CreatePassRequest): Promise<ApiResponse<CreatePassResponse>> {
+  public async createPass(
+    data: CreatePassRequest,
+    landMarkId?: string,
+    idempotencyKey?: string
+  ): Promise<ApiResponse<CreatePassResponse>> {
     // Validate that required fields are present
     if (!this.validatePassData(data)) {
       throw new Error('Missing required fields for pass creation');
     }
 
     try {
-      // Build the create pass URL
-      const url = buildCreatePassUrl();
-
       // Make the API request
-      return await apiClient.post<CreatePassResponse>(url, data);
+      return await this.submitPass(data, landMarkId || getSelectedLandmarkId(), idempotencyKey || uuidv4());
     } catch (error) {
       // Let the error bubble up - apiClient already handles error transformation
       throw error;
@@ -77,15 +95,28 @@ class PassesApi implements PassesApiInterface {
   /**
    * Creates multiple parking passes in the ParkHub system
    * @param passesData - Array of pass creation requests
+   * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
+   * @param options - Optional callbacks notified as each pass and chunk is answered, so callers
+   * can record and display the batch's progress, and a signal that stops further chunks from
+   * being sent. Passes in a chunk that has already been sent are still answered.
    * @returns Promise resolving to a summary of the batch creation results
    * @throws Error if no passes are provided
    */
-  public async createMultiplePasses(passesData: CreatePassRequest[]): Promise<BatchPassCreationResult> {
+  public async createMultiplePasses(
+    passesData: CreatePassRequest[],
+    landMarkId?: string,
+    options: BatchCreationOptions = {}
+  ): Promise<BatchPassCreationResult> {
+    const { onItemStatus, onProgress, signal, idempotencyKeys } = options;
+
     // Validate that we have passes to create
     if (!Array.isArray(passesData) || passesData.length === 0) {
       throw new Error('At least one pass is required for batch creation');
     }
 
+    // Resolve the landmark once so switching venues mid-batch can't split the batch
+    const batchLandMarkId = landMarkId || getSelectedLandmarkId();
+
     // Initialize result tracking
     const result: BatchPassCreationResult = {
       successful: [],
@@ -94,17 +125,54 @@ class PassesApi implements PassesApiInterface {
       totalFailed: 0
     };
 
-    // Process passes in batches of 10 to avoid overwhelming the API
+    // Process passes in chunks of 10; the API client's scheduler limits how many are in flight
     const batchSize = 10;
+    const totalChunks = Math.ceil(passesData.length / batchSize);
+    const startedAt = Date.now();
+    let completedChunks = 0;
+
+    /**
+     * Reports the batch's progress so far
+     */
+    const reportProgress = (type: BatchProgressEventType) => {
+      onProgress?.({
+        type,
+        total: passesData.length,
+        completed: result.totalSuccess + result.totalFailed,
+        succeeded: result.totalSuccess,
+        failed: result.totalFailed,
+        completedChunks,
+        totalChunks,
+        startedAt
+      });
+    };
+
     for (let i = 0; i < passesData.length; i += batchSize) {
+      // Stop before sending the next chunk if the batch was cancelled
+      if (signal?.aborted) {
+        result.cancelled = true;
+        result.notSent = passesData.slice(i).map(passData => ({
+          barcode: passData.barcode,
+          customerName: passData.customerName
+        }));
+        break;
+      }
+
       const batch = passesData.slice(i, i + batchSize);
       
       // Process this batch concurrently
       await Promise.all(
-        batch.map(async (passData) => {
+        batch.map(async (passData, batchIndex) => {
+          const index = i + batchIndex;
+          onItemStatus?.(index, BatchJobItemStatus.SENT);
+
           try {
-            // Create the pass (validation is handled inside createPass)
-            const response = await this.createPass(passData);
+            // Create the pass behind any interactive requests
+            const response = await this.createBulkPass(
+              passData,
+              batchLandMarkId,
+              idempotencyKeys?.[index] || uuidv4()
+            );
 
             // Check if creation was successful
             if (response.success && response.data && response.data.passId) {
@@ -115,17 +183,21 @@ class PassesApi implements PassesApiInterface {
                 customerName: passData.customerName
               });
               result.totalSuccess++;
+              onItemStatus?.(index, BatchJobItemStatus.SUCCEEDED, { passId: response.data.passId });
             } else {
+              const error = response.error || {
+                code: 'unknown_error',
+                message: 'Unknown error occurred during pass creation'
+              };
+
               // Add to failed creations
               result.failed.push({
                 barcode: passData.barcode,
                 customerName: passData.customerName,
-                error: response.error || {
-                  code: 'unknown_error',
-                  message: 'Unknown error occurred during pass creation'
-                }
+                error
               });
               result.totalFailed++;
+              onItemStatus?.(index, BatchJobItemStatus.FAILED, { error });
             }
           } catch (error) {
             // Handle errors - map to a standard format if possible
@@ -153,14 +225,170 @@ class PassesApi implements PassesApiInterface {
               error: errorObject
             });
             result.totalFailed++;
+            onItemStatus?.(index, BatchJobItemStatus.FAILED, { error: errorObject });
           }
+
+          reportProgress(BatchProgressEventType.PASS);
         })
       );
+
+      completedChunks++;
+      reportProgress(BatchProgressEventType.CHUNK);
     }
 
     return result;
   }
 
+  /**
+   * Creates a pass as part of a batch, scheduled at bulk priority so interactive
+   * requests are sent first
+   * @param data - Pass creation request data
+   * @param landMarkId - Landmark ID for the batch
+   * @param idempotencyKey - Key sent with every attempt
+   * @returns Promise resolving to an API response containing the creation result
+   * @throws Error if required fields are missing
+   */
+  private async createBulkPass(
+    data: CreatePassRequest,
+    landMarkId: string,
+    idempotencyKey: string
+  ): Promise<ApiResponse<CreatePassResponse>> {
+    if (!this.validatePassData(data)) {
+      throw new Error('Missing required fields for pass creation');
+    }
+
+    return this.submitPass(data, landMarkId, idempotencyKey, RequestPriority.BULK);
+  }
+
+  /**
+   * Sends a pass creation request with its idempotency key
+   * @param data - Pass creation request data
+   * @param landMarkId - Landmark ID for the pass
+   * @param idempotencyKey - Key sent with every attempt
+   * @param priority - Optional scheduling priority
+   * @returns Promise resolving to an API response containing the creation result
+   */
+  private submitPass(
+    data: CreatePassRequest,
+    landMarkId: string,
+    idempotencyKey: string,
+    priority?: RequestPriority
+  ): Promise<ApiResponse<CreatePassResponse>> {
+    return apiClient.post<CreatePassResponse>(buildCreatePassUrl({ landMarkId }), data, {
+      headers: createIdempotencyHeader(idempotencyKey),
+      priority,
+      reconcile: () => this.findCreatedPass(data, landMarkId)
+    });
+  }
+
+  /**
+   * Looks for a pass created by an earlier attempt of a pass creation request
+   * @param data - Pass creation request data
+   * @param landMarkId - Landmark ID for the pass
+   * @returns Promise resolving to a creation response for the existing pass, or null if it was not created
+   * @throws The API error if the event's passes can't be retrieved, so the request is not sent again unchecked
+   */
+  private async findCreatedPass(
+    data: CreatePassRequest,
+    landMarkId: string
+  ): Promise<ApiResponse<CreatePassResponse> | null> {
+    const response = await this.getPassesForEvent({ eventId: data.eventId, landMarkId });
+
+    if (!response.success || !response.data) {
+      throw response;
+    }
+
+    const existing = response.data.find(pass => matchesPassRequest(pass, data));
+
+    return existing
+      ? { success: true, data: { success: true, passId: existing.id }, error: null }
+      : null;
+  }
+
+  /**
+   * Updates an existing parking pass in the ParkHub system
+   * @param passId - ID of the pass to update
+   * @param data - Fields to change; fields not provided are left unchanged
+   * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
+   * @returns Promise resolving to an API response containing the update result
+   * @throws Error if passId is missing or no valid fields are provided
+   */
+  public async updatePass(
+    passId: string,
+    data: UpdatePassRequest,
+    landMarkId?: string
+  ): Promise<ApiResponse<UpdatePassResponse>> {
+    if (!passId || passId.trim() === '') {
+      throw new Error('Pass ID is required for updating a pass');
+    }
+
+    if (!this.validateUpdateData(data)) {
+      throw new Error('At least one non-empty field is required to update a pass');
+    }
+
+    try {
+      // Build the single pass URL
+      const url = buildPassUrl({ passId, landMarkId: landMarkId || getSelectedLandmarkId() });
+
+      // Make the API request
+      return await apiClient.put<UpdatePassResponse>(url, data);
+    } catch (error) {
+      // Let the error bubble up - apiClient already handles error transformation
+      throw error;
+    }
+  }
+
+  /**
+   * Cancels a parking pass in the ParkHub system. Cancelled passes are kept
+   * with a cancelled status and can be reactivated later.
+   * @param passId - ID of the pass to cancel
+   * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
+   * @returns Promise resolving to an API response containing the cancellation result
+   * @throws Error if passId is not provided
+   */
+  public async cancelPass(passId: string, landMarkId?: string): Promise<ApiResponse<UpdatePassResponse>> {
+    if (!passId || passId.trim() === '') {
+      throw new Error('Pass ID is required for cancelling a pass');
+    }
+
+    try {
+      // Build the single pass URL
+      const url = buildPassUrl({ passId, landMarkId: landMarkId || getSelectedLandmarkId() });
+
+      // Make the API request
+      return await apiClient.delete<UpdatePassResponse>(url);
+    } catch (error) {
+      // Let the error bubble up - apiClient already handles error transformation
+      throw error;
+    }
+  }
+
+  /**
+   * Reactivates a cancelled or inactive parking pass in the ParkHub system
+   * @param passId - ID of the pass to reactivate
+   * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
+   * @returns Promise resolving to an API response containing the reactivation result
+   * @throws Error if passId is not provided
+   */
+  public async reactivatePass(passId: string, landMarkId?: string): Promise<ApiResponse<UpdatePassResponse>> {
+    return this.updatePass(passId, { status: 'active' }, landMarkId);
+  }
+
+  /**
+   * Validates that a pass update request contains at least one non-empty field
+   * @param data - Pass update request to validate
+   * @returns True if the update request is valid, false otherwise
+   * @private
+   */
+  private validateUpdateData(data: UpdatePassRequest): boolean {
+    if (!data || typeof data !== 'object') {
+      return false;
+    }
+
+    const values = Object.values(data).filter(value => value !== undefined);
+    return values.length > 0 && values.every(value => typeof value === 'string' && value.trim() !== '');
+  }
+
   /**
    * Validates that a pass creation request contains all required fields
    * @param data - Pass creation request to validate
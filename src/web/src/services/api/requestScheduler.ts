@@ -0,0 +1,213 @@
+import { RequestPriority, RequestSchedulerConfig } from './types';
+
+/**
+ * Order in which queued requests are started, highest priority first
+ */
+const PRIORITY_RANK: Record<RequestPriority, number> = {
+  [RequestPriority.INTERACTIVE]: 0,
+  [RequestPriority.NORMAL]: 1,
+  [RequestPriority.BULK]: 2
+};
+
+/**
+ * A request waiting for a token and a free concurrency slot
+ */
+interface QueuedRequest {
+  task: () => Promise<unknown>;
+  priority: RequestPriority;
+  sequence: number;
+  resolve: (value: any) => void;
+  reject: (reason: unknown) => void;
+}
+
+/**
+ * Parses a Retry-After header, which holds either a number of seconds or an HTTP date
+ * @param value - Header value
+ * @param now - Current time in milliseconds since the epoch
+ * @returns Milliseconds to wait, or null if the header is missing or invalid
+ */
+export const parseRetryAfter = (value: string | null | undefined, now: number = Date.now()): number | null => {
+  if (!value || !value.trim()) {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return seconds >= 0 ? seconds * 1000 : null;
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(date - now, 0);
+};
+
+/**
+ * Schedules API requests through a token bucket so no more than a configured number
+ * of requests are started per second or run at once. Queued requests are started by
+ * priority, so interactive requests jump ahead of bulk pass creation, and the whole
+ * queue is paused when the API asks clients to back off.
+ */
+class RequestScheduler {
+  private readonly config: RequestSchedulerConfig;
+  private readonly queue: QueuedRequest[] = [];
+  private tokens: number;
+  private lastRefill: number;
+  private activeCount = 0;
+  private sequence = 0;
+  private pausedUntil = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * @param config - Rate and concurrency limits
+   */
+  constructor(config: RequestSchedulerConfig) {
+    this.config = {
+      requestsPerSecond: Math.max(config.requestsPerSecond, 0.01),
+      maxConcurrentRequests: Math.max(Math.floor(config.maxConcurrentRequests), 1)
+    };
+    this.tokens = this.getCapacity();
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Queues a request and starts it once the rate and concurrency limits allow
+   * @param task - Function that sends the request
+   * @param priority - Priority of the request
+   * @returns Promise settling with the request's outcome
+   */
+  public schedule<T>(task: () => Promise<T>, priority: RequestPriority = RequestPriority.NORMAL): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({ task, priority, sequence: this.sequence++, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Stops starting requests until the given time has passed
+   * @param ms - Milliseconds to wait before starting further requests
+   */
+  public pauseFor(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+
+    // Restart slowly once the pause ends rather than with a full burst
+    this.tokens = 0;
+    this.lastRefill = this.pausedUntil;
+    this.dispatch();
+  }
+
+  /**
+   * Number of requests waiting to be started
+   */
+  public get pendingCount(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Number of requests that have been started and not yet settled
+   */
+  public get runningCount(): number {
+    return this.activeCount;
+  }
+
+  /**
+   * Starts as many queued requests as the limits allow, and sets a timer to
+   * continue once a token is available or a pause has ended
+   */
+  private dispatch(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    while (this.queue.length > 0 && this.activeCount < this.config.maxConcurrentRequests) {
+      const now = Date.now();
+
+      if (now < this.pausedUntil) {
+        this.wait(this.pausedUntil - now);
+        return;
+      }
+
+      this.refill(now);
+      if (this.tokens < 1) {
+        this.wait(((1 - this.tokens) / this.config.requestsPerSecond) * 1000);
+        return;
+      }
+
+      this.tokens -= 1;
+      this.start(this.takeNext());
+    }
+  }
+
+  /**
+   * Runs a queued request and frees its concurrency slot once it settles
+   * @param request - Request to start
+   */
+  private start(request: QueuedRequest): void {
+    this.activeCount++;
+
+    Promise.resolve()
+      .then(request.task)
+      .then(request.resolve, request.reject)
+      .finally(() => {
+        this.activeCount--;
+        this.dispatch();
+      });
+  }
+
+  /**
+   * Removes the highest-priority, longest-waiting request from the queue
+   * @returns The next request to start
+   */
+  private takeNext(): QueuedRequest {
+    let nextIndex = 0;
+
+    for (let i = 1; i < this.queue.length; i++) {
+      const candidate = this.queue[i];
+      const next = this.queue[nextIndex];
+      if (
+        PRIORITY_RANK[candidate.priority] < PRIORITY_RANK[next.priority] ||
+        (PRIORITY_RANK[candidate.priority] === PRIORITY_RANK[next.priority] && candidate.sequence < next.sequence)
+      ) {
+        nextIndex = i;
+      }
+    }
+
+    return this.queue.splice(nextIndex, 1)[0];
+  }
+
+  /**
+   * Adds the tokens earned since the last refill, up to the bucket's capacity
+   * @param now - Current time in milliseconds since the epoch
+   */
+  private refill(now: number): void {
+    if (now <= this.lastRefill) {
+      return;
+    }
+
+    const earned = ((now - this.lastRefill) / 1000) * this.config.requestsPerSecond;
+    this.tokens = Math.min(this.tokens + earned, this.getCapacity());
+    this.lastRefill = now;
+  }
+
+  /**
+   * Continues dispatching after a delay
+   * @param ms - Milliseconds to wait
+   */
+  private wait(ms: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.dispatch();
+    }, Math.max(Math.ceil(ms), 0));
+  }
+
+  /**
+   * Largest burst of requests the bucket allows, one second's worth
+   * @returns Bucket capacity
+   */
+  private getCapacity(): number {
+    return Math.max(this.config.requestsPerSecond, 1);
+  }
+}
+
+export { RequestScheduler };
+
+export default RequestScheduler;
@@ -8,7 +8,7 @@
  */
 
 import { ApiResponse, ApiError } from '../../types/common.types';
-import { LANDMARK_ID } from '../../constants/apiEndpoints';
+import { BatchCreationOptions } from '../../types/batchJob.types';
 import { AxiosRequestConfig } from 'axios'; // version ^1.3.4
 
 /**
@@ -114,6 +114,36 @@ export interface CreatePassResponse {
   error?: ApiError;
 }
 
+/**
+ * Request body for updating an existing parking pass; only provided fields are changed
+ */
+export interface UpdatePassRequest {
+  /** Account ID to associate with this pass */
+  accountId?: string;
+  /** Name of the customer this pass is for */
+  customerName?: string;
+  /** Type of parking spot */
+  spotType?: string;
+  /** ID of the parking lot */
+  lotId?: string;
+  /** Pass status */
+  status?: string;
+}
+
+/**
+ * Response from the update and cancel pass API endpoints
+ */
+export interface UpdatePassResponse {
+  /** Indicates whether the operation was successful */
+  success: boolean;
+  /** ID of the updated pass if successful */
+  passId?: string;
+  /** Status of the pass after the operation */
+  status?: string;
+  /** Error information if the operation failed */
+  error?: ApiError;
+}
+
 /**
  * Result of a batch pass creation operation
  */
@@ -126,6 +156,10 @@ export interface BatchPassCreationResult {
   totalSuccess: number;
   /** Total number of passes that failed to be created */
   totalFailed: number;
+  /** Whether the batch was cancelled before every pass was sent */
+  cancelled?: boolean;
+  /** Passes that were not sent because the batch was cancelled */
+  notSent?: Array<{ barcode: string; customerName: string }>;
 }
 
 /**
@@ -140,6 +174,46 @@ export interface ApiClientConfig {
   timeout: number;
   /** Number of times to retry failed requests */
   retryCount: number;
+  /** Maximum number of requests started per second */
+  requestsPerSecond?: number;
+  /** Maximum number of requests in flight at once */
+  maxConcurrentRequests?: number;
+}
+
+/**
+ * Enum for the priority of a scheduled API request
+ */
+export enum RequestPriority {
+  /** Requests a user is waiting on, such as loading a page */
+  INTERACTIVE = 'interactive',
+  /** Single changes made by a user */
+  NORMAL = 'normal',
+  /** Requests sent as part of a batch */
+  BULK = 'bulk'
+}
+
+/**
+ * Rate and concurrency limits for the API request scheduler
+ */
+export interface RequestSchedulerConfig {
+  /** Maximum number of requests started per second */
+  requestsPerSecond: number;
+  /** Maximum number of requests in flight at once */
+  maxConcurrentRequests: number;
+}
+
+/**
+ * Axios request configuration with the priority used to schedule the request.
+ * GET requests default to interactive priority and other requests to normal priority.
+ */
+export interface ApiRequestConfig extends AxiosRequestConfig {
+  /** Priority of the request */
+  priority?: RequestPriority;
+  /**
+   * Called before a failed request is retried, to check whether it took effect anyway.
+   * A response returned here is used instead of sending the request again.
+   */
+  reconcile?: () => Promise<ApiResponse<any> | null>;
 }
 
 /**
@@ -149,19 +223,19 @@ export interface ApiClientInterface {
   /**
    * Perform a GET request
    * @param url The URL to request
-   * @param config Optional Axios request configuration
+   * @param config Optional request configuration
    * @returns Promise resolving to an API response
    */
-  get<T>(url: string, config?: AxiosRequestConfig): Promise<ApiResponse<T>>;
+  get<T>(url: string, config?: ApiRequestConfig): Promise<ApiResponse<T>>;
   
   /**
    * Perform a POST request
    * @param url The URL to request
    * @param data The data to send
-   * @param config Optional Axios request configuration
+   * @param config Optional request configuration
    * @returns Promise resolving to an API response
    */
-  post<T>(url: string, data: any, config?: AxiosRequestConfig): Promise<ApiResponse<T>>;
+  post<T>(url: string, data: any, config?: ApiRequestConfig): Promise<ApiResponse<T>>;
   
   /**
    * Set the API key for authentication
@@ -202,16 +276,53 @@ export interface PassesApiInterface {
   /**
    * Create a new parking pass
    * @param data Pass creation request data
+   * @param landMarkId Optional landmark ID (defaults to the selected landmark)
+   * @param idempotencyKey Optional key sent with every attempt (generated if not provided)
    * @returns Promise resolving to an API response containing the creation result
    */
-  createPass(data: CreatePassRequest): Promise<ApiResponse<CreatePassResponse>>;
+  createPass(
+    data: CreatePassRequest,
+    landMarkId?: string,
+    idempotencyKey?: string
+  ): Promise<ApiResponse<CreatePassResponse>>;
   
   /**
    * Create multiple parking passes
    * @param data Array of pass creation requests
+   * @param landMarkId Optional landmark ID (defaults to the selected landmark)
+   * @param options Optional progress callbacks and cancellation signal
    * @returns Promise resolving to a batch creation result
    */
-  createMultiplePasses(data: CreatePassRequest[]): Promise<BatchPassCreationResult>;
+  createMultiplePasses(
+    data: CreatePassRequest[],
+    landMarkId?: string,
+    options?: BatchCreationOptions
+  ): Promise<BatchPassCreationResult>;
+  
+  /**
+   * Update an existing parking pass
+   * @param passId ID of the pass to update
+   * @param data Fields to change
+   * @param landMarkId Optional landmark ID (defaults to the selected landmark)
+   * @returns Promise resolving to an API response containing the update result
+   */
+  updatePass(passId: string, data: UpdatePassRequest, landMarkId?: string): Promise<ApiResponse<UpdatePassResponse>>;
+  
+  /**
+   * Cancel a parking pass
+   * @param passId ID of the pass to cancel
+   * @param landMarkId Optional landmark ID (defaults to the selected landmark)
+   * @returns Promise resolving to an API response containing the cancellation result
+   */
+  cancelPass(passId: string, landMarkId?: string): Promise<ApiResponse<UpdatePassResponse>>;
+  
+  /**
+   * Reactivate a cancelled or inactive parking pass
+   * @param passId ID of the pass to reactivate
+   * @param landMarkId Optional landmark ID (defaults to the selected landmark)
+   * @returns Promise resolving to an API response containing the reactivation result
+   */
+  reactivatePass(passId: string, landMarkId?: string): Promise<ApiResponse<UpdatePassResponse>>;
 }
 
 /**
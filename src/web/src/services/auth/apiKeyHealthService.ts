@@ -0,0 +1,134 @@
+/**
+ * Service that keeps track of whether ParkHub accepts the API key in use. It verifies
+ * the key against the selected venue and remembers when the key was last accepted,
+ * so the header can warn as soon as a key is rejected, expires or can't reach a venue.
+ *
+ * @version 1.0.0
+ */
+
+import { ApiKeyHealth, ApiKeyHealthListener, ApiKeyStatus } from '../../types/auth.types';
+import { authApi } from '../api/authApi';
+import { apiClient } from '../api/apiClient';
+import { getSelectedLandmarkId } from '../storage/landmarkStorage';
+
+/**
+ * Health reported before the API key has been verified
+ */
+const UNVERIFIED_HEALTH: ApiKeyHealth = {
+  status: ApiKeyStatus.UNKNOWN,
+  landMarkId: null,
+  checkedAt: null,
+  lastVerifiedAt: null,
+  error: null
+};
+
+/**
+ * Service that verifies the API key in use and tells listeners the result
+ */
+class ApiKeyHealthService {
+  private listeners: Set<ApiKeyHealthListener> = new Set();
+  private health: ApiKeyHealth = UNVERIFIED_HEALTH;
+  private verifiedApiKey: string | null = null;
+  private pendingVerification: Promise<ApiKeyHealth> | null = null;
+  private pendingLandmarkId: string | null = null;
+  private verificationCount = 0;
+
+  /**
+   * Gets the health of the API key in use
+   * @returns The result of the latest verification
+   */
+  public getHealth(): ApiKeyHealth {
+    return this.health;
+  }
+
+  /**
+   * Verifies the API key in use against a venue. A verification of the same key and
+   * venue that is still running is shared rather than sent again, and a verification
+   * started later replaces the result of an earlier one.
+   * @param landMarkId - Venue to verify the key against (defaults to the selected venue)
+   * @returns Promise resolving to the health of the key once it has been verified
+   */
+  public verify(landMarkId: string = getSelectedLandmarkId()): Promise<ApiKeyHealth> {
+    const apiKey = apiClient.getApiKey();
+
+    // Without a key there is nothing to verify
+    if (!apiKey) {
+      this.reset();
+      return Promise.resolve(this.health);
+    }
+
+    if (this.pendingVerification && apiKey === this.verifiedApiKey && landMarkId === this.pendingLandmarkId) {
+      return this.pendingVerification;
+    }
+
+    // A different key has not been accepted yet, whatever happened to the previous one
+    const lastVerifiedAt = apiKey === this.verifiedApiKey ? this.health.lastVerifiedAt : null;
+    const verification = ++this.verificationCount;
+
+    this.verifiedApiKey = apiKey;
+    this.pendingLandmarkId = landMarkId;
+    this.update({ ...this.health, status: ApiKeyStatus.CHECKING, lastVerifiedAt });
+
+    this.pendingVerification = authApi.verifyApiKey(apiKey, landMarkId).then(result => {
+      if (verification !== this.verificationCount) {
+        return this.health;
+      }
+
+      this.pendingVerification = null;
+      this.update({
+        status: result.status,
+        landMarkId: result.landMarkId,
+        checkedAt: result.checkedAt,
+        lastVerifiedAt: result.status === ApiKeyStatus.VALID ? result.checkedAt : lastVerifiedAt,
+        error: result.error
+      });
+
+      return this.health;
+    });
+
+    return this.pendingVerification;
+  }
+
+  /**
+   * Forgets the health of the API key, for when the key is removed or replaced.
+   * The result of a verification still running is ignored.
+   */
+  public reset(): void {
+    this.verificationCount++;
+    this.verifiedApiKey = null;
+    this.pendingVerification = null;
+    this.pendingLandmarkId = null;
+
+    if (this.health !== UNVERIFIED_HEALTH) {
+      this.update(UNVERIFIED_HEALTH);
+    }
+  }
+
+  /**
+   * Subscribes to changes of the API key's health
+   * @param listener - Called with the health of the key now and whenever it changes
+   * @returns Function that unsubscribes the listener
+   */
+  public subscribe(listener: ApiKeyHealthListener): () => void {
+    this.listeners.add(listener);
+    listener(this.health);
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Stores the health of the key and tells the listeners
+   * @param health - The new health of the key
+   */
+  private update(health: ApiKeyHealth): void {
+    this.health = health;
+    this.listeners.forEach(listener => listener(health));
+  }
+}
+
+// Export the class and a singleton instance
+export { ApiKeyHealthService };
+export const apiKeyHealthService = new ApiKeyHealthService();
+export default apiKeyHealthService;
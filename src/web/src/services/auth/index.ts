@@ -0,0 +1,14 @@
+/**
+ * Barrel file for the auth module that exports the API key health service.
+ * Provides a single entry point for verifying the API key in use and following
+ * whether ParkHub still accepts it.
+ * 
+ * @module services/auth
+ * @version 1.0.0
+ */
+
+import apiKeyHealthService, { ApiKeyHealthService } from './apiKeyHealthService';
+
+export { apiKeyHealthService, ApiKeyHealthService };
+
+export default apiKeyHealthService;
\ No newline at end of file
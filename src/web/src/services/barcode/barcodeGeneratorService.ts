@@ -0,0 +1,322 @@
+import passesApi from '../api/passesApi';
+import { getSelectedLandmarkId } from '../storage/landmarkStorage';
+import {
+  BarcodeScheme,
+  BarcodeGenerationOptions,
+  BarcodeGenerationResult
+} from '../../types/barcode.types';
+
+/**
+ * Prefix shared by all ParkHub barcodes
+ */
+const BARCODE_PREFIX = 'BC';
+
+/**
+ * Number of characters following the prefix
+ */
+const BARCODE_DIGITS = 6;
+
+/**
+ * Template character replaced by a generated digit
+ */
+const PLACEHOLDER = '#';
+
+/**
+ * Template used by the SEQUENTIAL and RANDOM schemes, covering every valid barcode
+ */
+export const DEFAULT_BARCODE_TEMPLATE = `${BARCODE_PREFIX}${PLACEHOLDER.repeat(BARCODE_DIGITS)}`;
+
+/**
+ * Random draws allowed per requested barcode before falling back to a scan
+ */
+const RANDOM_ATTEMPTS_PER_BARCODE = 20;
+
+/**
+ * Numbers picked for a template, with the count of numbers skipped because they were in use
+ */
+interface PickedNumbers {
+  values: number[];
+  skipped: number;
+}
+
+/**
+ * Normalizes a barcode for comparison
+ * @param barcode - Barcode as entered or returned by the API
+ * @returns Trimmed, upper-case barcode
+ */
+const normalizeBarcode = (barcode: string): string => barcode.trim().toUpperCase();
+
+/**
+ * Service for generating unique pass barcodes in the BC###### format.
+ * Barcodes are generated from a template in which each '#' is a digit; numbers are
+ * counted across the placeholder digits, so "BC24####" covers BC240000 to BC249999.
+ * Barcodes that are already in use, on the event or elsewhere in the batch, are skipped.
+ */
+class BarcodeGeneratorService {
+  /**
+   * @param random - Source of random numbers in [0, 1), replaceable for testing
+   */
+  constructor(private readonly random: () => number = Math.random) {}
+
+  /**
+   * Normalizes a template, padding a bare prefix such as "BC24" with placeholders
+   * @param template - Template as entered by the user
+   * @returns Upper-case template of the full barcode length
+   */
+  public normalizeTemplate(template: string): string {
+    const normalized = normalizeBarcode(template);
+    const length = BARCODE_PREFIX.length + BARCODE_DIGITS;
+
+    if (normalized.length < length && !normalized.includes(PLACEHOLDER)) {
+      return normalized.padEnd(length, PLACEHOLDER);
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Validates a template after normalization
+   * @param template - Template as entered by the user
+   * @returns An error message, or null if the template is valid
+   */
+  public validateTemplate(template: string): string | null {
+    const normalized = this.normalizeTemplate(template);
+
+    if (!new RegExp(`^${BARCODE_PREFIX}[0-9${PLACEHOLDER}]{${BARCODE_DIGITS}}$`).test(normalized)) {
+      return `Template must start with ${BARCODE_PREFIX} followed by ${BARCODE_DIGITS} digits or ${PLACEHOLDER} placeholders`;
+    }
+
+    if (!normalized.includes(PLACEHOLDER)) {
+      return `Template must contain at least one ${PLACEHOLDER} placeholder`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Generates barcodes that are not in the reserved set
+   * @param options - Scheme, count and template options
+   * @param reserved - Barcodes already in use
+   * @returns The generated barcodes and the number of reserved barcodes skipped
+   * @throws Error if the options are invalid or not enough unused barcodes are left
+   */
+  public generate(
+    options: BarcodeGenerationOptions,
+    reserved: Iterable<string> = []
+  ): BarcodeGenerationResult {
+    const { scheme, count } = options;
+
+    if (!Number.isInteger(count) || count < 1) {
+      throw new Error('Barcode count must be a whole number of at least 1');
+    }
+
+    const template = scheme === BarcodeScheme.TEMPLATE
+      ? this.normalizeTemplate(options.template || '')
+      : DEFAULT_BARCODE_TEMPLATE;
+
+    const templateError = this.validateTemplate(template);
+    if (templateError) {
+      throw new Error(templateError);
+    }
+
+    const placeholders = template.split(PLACEHOLDER).length - 1;
+    const capacity = Math.pow(10, placeholders);
+
+    // Numbers already taken within this template
+    const taken = new Set<number>();
+    Array.from(reserved).forEach(barcode => {
+      const value = this.parseTemplateValue(template, normalizeBarcode(barcode));
+      if (value !== null) {
+        taken.add(value);
+      }
+    });
+
+    const available = capacity - taken.size;
+    if (available < count) {
+      throw new Error(
+        `Only ${available} unused barcode${available === 1 ? '' : 's'} left for ${template}; ${count} requested`
+      );
+    }
+
+    const { values, skipped } = scheme === BarcodeScheme.RANDOM
+      ? this.pickRandom(count, capacity, taken)
+      : this.pickSequential(count, capacity, taken, this.resolveStart(options.start, capacity, taken));
+
+    return {
+      barcodes: values.map(value => this.fillTemplate(template, value, placeholders)),
+      skipped
+    };
+  }
+
+  /**
+   * Retrieves the barcodes of all passes already issued for an event
+   * @param eventId - ID of the event
+   * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
+   * @returns Promise resolving to the event's barcodes
+   * @throws Error if the passes could not be loaded
+   */
+  public async getEventBarcodes(eventId: string, landMarkId?: string): Promise<string[]> {
+    const response = await passesApi.getPassesForEvent({
+      eventId,
+      landMarkId: landMarkId || getSelectedLandmarkId()
+    });
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error?.message || 'Failed to load existing passes for the event');
+    }
+
+    return response.data.map(pass => pass.barcode);
+  }
+
+  /**
+   * Generates barcodes for a batch, skipping barcodes already issued for the event
+   * and barcodes entered elsewhere in the batch form
+   * @param eventId - ID of the event the passes are created for
+   * @param options - Scheme, count and template options
+   * @param formBarcodes - Barcodes in batch rows that are being kept
+   * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
+   * @returns Promise resolving to the generated barcodes
+   * @throws Error if existing passes could not be loaded or not enough barcodes are left
+   */
+  public async generateForEvent(
+    eventId: string,
+    options: BarcodeGenerationOptions,
+    formBarcodes: string[] = [],
+    landMarkId?: string
+  ): Promise<BarcodeGenerationResult> {
+    const eventBarcodes = await this.getEventBarcodes(eventId, landMarkId);
+
+    return this.generate(options, [...eventBarcodes, ...formBarcodes.filter(Boolean)]);
+  }
+
+  /**
+   * Extracts the number a barcode represents within a template
+   * @param template - Normalized template
+   * @param barcode - Normalized barcode
+   * @returns The number formed by the placeholder digits, or null if the barcode doesn't match
+   */
+  private parseTemplateValue(template: string, barcode: string): number | null {
+    if (barcode.length !== template.length) {
+      return null;
+    }
+
+    let digits = '';
+    for (let i = 0; i < template.length; i++) {
+      if (template[i] === PLACEHOLDER) {
+        if (!/\d/.test(barcode[i])) {
+          return null;
+        }
+        digits += barcode[i];
+      } else if (template[i] !== barcode[i]) {
+        return null;
+      }
+    }
+
+    return parseInt(digits, 10);
+  }
+
+  /**
+   * Fills the template placeholders with the digits of a number
+   * @param template - Normalized template
+   * @param value - Number to fill in
+   * @param placeholders - Number of placeholders in the template
+   * @returns The generated barcode
+   */
+  private fillTemplate(template: string, value: number, placeholders: number): string {
+    const digits = String(value).padStart(placeholders, '0');
+    let position = 0;
+
+    return template.replace(new RegExp(PLACEHOLDER, 'g'), () => digits[position++]);
+  }
+
+  /**
+   * Determines the first number to try for sequential generation
+   * @param start - Requested start, if any
+   * @param capacity - Number of barcodes the template covers
+   * @param taken - Numbers already in use
+   * @returns The requested start, or one after the highest number in use
+   * @throws Error if the requested start is outside the template
+   */
+  private resolveStart(start: number | undefined, capacity: number, taken: Set<number>): number {
+    if (start !== undefined) {
+      if (!Number.isInteger(start) || start < 0 || start >= capacity) {
+        throw new Error(`Start number must be between 0 and ${capacity - 1}`);
+      }
+      return start;
+    }
+
+    if (taken.size === 0) {
+      return 1 % capacity;
+    }
+
+    let highest = 0;
+    taken.forEach(value => {
+      highest = Math.max(highest, value);
+    });
+
+    return (highest + 1) % capacity;
+  }
+
+  /**
+   * Picks consecutive unused numbers, wrapping around to the start of the template
+   * @returns The picked numbers with the count of skipped numbers
+   */
+  private pickSequential(
+    count: number,
+    capacity: number,
+    taken: Set<number>,
+    start: number
+  ): PickedNumbers {
+    const values: number[] = [];
+    let skipped = 0;
+
+    for (let offset = 0; offset < capacity && values.length < count; offset++) {
+      const value = (start + offset) % capacity;
+      if (taken.has(value)) {
+        skipped++;
+      } else {
+        values.push(value);
+      }
+    }
+
+    return { values, skipped };
+  }
+
+  /**
+   * Picks random unused numbers. When most of the template is in use, random draws
+   * keep colliding, so remaining numbers are taken by scanning from a random offset.
+   * @returns The picked numbers with the count of collisions with numbers in use
+   */
+  private pickRandom(count: number, capacity: number, taken: Set<number>): PickedNumbers {
+    const values: number[] = [];
+    let skipped = 0;
+    const picked = new Set<number>();
+    const maxAttempts = count * RANDOM_ATTEMPTS_PER_BARCODE;
+
+    for (let attempt = 0; attempt < maxAttempts && values.length < count; attempt++) {
+      const value = Math.floor(this.random() * capacity);
+      if (taken.has(value)) {
+        skipped++;
+      } else if (!picked.has(value)) {
+        picked.add(value);
+        values.push(value);
+      }
+    }
+
+    const offset = Math.floor(this.random() * capacity);
+    for (let i = 0; i < capacity && values.length < count; i++) {
+      const value = (offset + i) % capacity;
+      if (!taken.has(value) && !picked.has(value)) {
+        picked.add(value);
+        values.push(value);
+      }
+    }
+
+    return { values, skipped };
+  }
+}
+
+// Export the class and a singleton instance
+export { BarcodeGeneratorService };
+export const barcodeGeneratorService = new BarcodeGeneratorService();
+export default barcodeGeneratorService;
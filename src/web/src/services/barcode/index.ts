@@ -0,0 +1,16 @@
+/**
+ * Barrel file for the barcode module that exports the barcode generator service.
+ * Provides a single entry point for generating unique pass barcodes.
+ * 
+ * @module services/barcode
+ * @version 1.0.0
+ */
+
+import barcodeGeneratorService, {
+  BarcodeGeneratorService,
+  DEFAULT_BARCODE_TEMPLATE
+} from './barcodeGeneratorService';
+
+export { barcodeGeneratorService, BarcodeGeneratorService, DEFAULT_BARCODE_TEMPLATE };
+
+export default barcodeGeneratorService;
\ No newline at end of file
@@ -0,0 +1,294 @@
+import { v4 as uuidv4 } from 'uuid'; // ^9.0.0
+
+import { passesApi } from '../api/passesApi';
+import { getSelectedLandmarkId } from '../storage/landmarkStorage';
+import { getBatchJob, getBatchJobs, saveBatchJob, removeBatchJob } from '../storage/batchJobStorage';
+import { matchesPassRequest } from '../../utils/validation';
+import { CreatePassRequest, BatchPassCreationResult, ParkHubPass } from '../../types/api.types';
+import { ApiError } from '../../types/common.types';
+import {
+  BatchJob,
+  BatchJobItemStatus,
+  BatchJobProgress,
+  BatchJobOptions
+} from '../../types/batchJob.types';
+
+/**
+ * Service for creating passes through batch jobs persisted in browser storage.
+ * Each pass is recorded as pending, sent, succeeded or failed as the batch runs, so a
+ * batch interrupted by a closed tab or crash can be resumed later. Before resuming, passes
+ * that may already have reached the API are checked against the event's passes by barcode
+ * so they are never created twice.
+ */
+class BatchJobService {
+  /**
+   * IDs of jobs being run in this tab, which must not be offered for resuming
+   */
+  private readonly activeJobIds = new Set<string>();
+
+  /**
+   * Creates and stores a batch job for pass creation requests
+   * @param requests - Pass creation requests, all for the same event
+   * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
+   * @returns The stored batch job
+   * @throws Error if no requests are provided
+   */
+  public createJob(requests: CreatePassRequest[], landMarkId?: string): BatchJob {
+    if (!Array.isArray(requests) || requests.length === 0) {
+      throw new Error('At least one pass is required for batch creation');
+    }
+
+    const now = new Date().toISOString();
+    const job: BatchJob = {
+      id: uuidv4(),
+      eventId: requests[0].eventId,
+      landMarkId: landMarkId || getSelectedLandmarkId(),
+      createdAt: now,
+      updatedAt: now,
+      items: requests.map(request => ({ request, status: BatchJobItemStatus.PENDING, idempotencyKey: uuidv4() }))
+    };
+
+    saveBatchJob(job);
+    return job;
+  }
+
+  /**
+   * Creates passes through a new batch job
+   * @param requests - Pass creation requests, all for the same event
+   * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
+   * @param options - Optional progress callback and cancellation signal
+   * @returns Promise resolving to the batch creation result
+   * @throws Error if no requests are provided
+   */
+  public async startJob(
+    requests: CreatePassRequest[],
+    landMarkId?: string,
+    options: BatchJobOptions = {}
+  ): Promise<BatchPassCreationResult> {
+    return this.runJob(this.createJob(requests, landMarkId), options);
+  }
+
+  /**
+   * Resumes an interrupted batch job, creating only the passes the API has not received
+   * @param jobId - ID of the job to resume
+   * @param options - Optional progress callback and cancellation signal
+   * @returns Promise resolving to the result of the whole batch, including passes created before the interruption
+   * @throws Error if the job is not found, is already running, or the event's passes can't be checked
+   */
+  public async resumeJob(jobId: string, options: BatchJobOptions = {}): Promise<BatchPassCreationResult> {
+    const job = getBatchJob(jobId);
+
+    if (!job) {
+      throw new Error('This batch could not be found. It may have been resumed in another tab.');
+    }
+
+    if (this.activeJobIds.has(jobId)) {
+      throw new Error('This batch is already being created.');
+    }
+
+    await this.reconcileJob(job);
+    return this.runJob(job, options);
+  }
+
+  /**
+   * Whether a batch is being created in this tab
+   */
+  public get isRunning(): boolean {
+    return this.activeJobIds.size > 0;
+  }
+
+  /**
+   * Retrieves the stored batch jobs that are not running in this tab
+   * @returns Interrupted batch jobs, oldest first
+   */
+  public getInterruptedJobs(): BatchJob[] {
+    return getBatchJobs().filter(job => !this.activeJobIds.has(job.id));
+  }
+
+  /**
+   * Removes an interrupted batch job without creating its remaining passes
+   * @param jobId - ID of the job to discard
+   * @returns True if the job was removed, false otherwise
+   */
+  public discardJob(jobId: string): boolean {
+    if (this.activeJobIds.has(jobId)) {
+      return false;
+    }
+
+    return removeBatchJob(jobId);
+  }
+
+  /**
+   * Counts the items of a batch job by status
+   * @param job - The batch job
+   * @returns Item counts
+   */
+  public getProgress(job: BatchJob): BatchJobProgress {
+    const progress: BatchJobProgress = { total: job.items.length, pending: 0, sent: 0, succeeded: 0, failed: 0 };
+
+    job.items.forEach(item => {
+      progress[item.status]++;
+    });
+
+    return progress;
+  }
+
+  /**
+   * Builds the batch creation result from the answered items of a batch job
+   * @param job - The batch job
+   * @returns The batch creation result
+   */
+  public toResult(job: BatchJob): BatchPassCreationResult {
+    const result: BatchPassCreationResult = { successful: [], failed: [], totalSuccess: 0, totalFailed: 0 };
+
+    job.items.forEach(({ request, status, passId, error }) => {
+      if (status === BatchJobItemStatus.SUCCEEDED) {
+        result.successful.push({ passId: passId || '', barcode: request.barcode, customerName: request.customerName });
+        result.totalSuccess++;
+      } else if (status === BatchJobItemStatus.FAILED) {
+        result.failed.push({
+          barcode: request.barcode,
+          customerName: request.customerName,
+          error: error || { code: 'unknown_error', message: 'Unknown error occurred during pass creation' }
+        });
+        result.totalFailed++;
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Sends the pending items of a batch job, recording each status change, and removes
+   * the job once every item has been answered or the batch is cancelled
+   * @param job - The batch job to run
+   * @param options - Progress callback and cancellation signal
+   * @returns Promise resolving to the batch creation result
+   */
+  private async runJob(job: BatchJob, options: BatchJobOptions): Promise<BatchPassCreationResult> {
+    this.activeJobIds.add(job.id);
+
+    try {
+      const pendingIndices = job.items.reduce<number[]>((indices, item, index) => {
+        if (item.status === BatchJobItemStatus.PENDING) {
+          indices.push(index);
+        }
+        return indices;
+      }, []);
+
+      // Jobs saved before idempotency keys were introduced get theirs before anything is sent
+      if (pendingIndices.some(index => !job.items[index].idempotencyKey)) {
+        job.items = job.items.map(item => item.idempotencyKey ? item : { ...item, idempotencyKey: uuidv4() });
+        saveBatchJob(job);
+      }
+
+      const sendResult = pendingIndices.length > 0
+        ? await passesApi.createMultiplePasses(
+            pendingIndices.map(index => job.items[index].request),
+            job.landMarkId,
+            {
+              ...options,
+              idempotencyKeys: pendingIndices.map(index => job.items[index].idempotencyKey || uuidv4()),
+              onItemStatus: (index, status, outcome) => this.updateItem(job, pendingIndices[index], status, outcome)
+            }
+          )
+        : null;
+
+      const result = this.toResult(job);
+      if (sendResult?.cancelled) {
+        // The user chose to stop, so the unsent passes are reported rather than kept for resuming
+        result.cancelled = true;
+        result.notSent = sendResult.notSent;
+      }
+
+      removeBatchJob(job.id);
+      return result;
+    } finally {
+      this.activeJobIds.delete(job.id);
+    }
+  }
+
+  /**
+   * Settles the items of an interrupted job against the passes that exist for its event.
+   * Items whose barcode was created with the same details are marked succeeded, barcodes
+   * used by other passes are marked failed, and sent items the API never received are
+   * returned to pending.
+   * @param job - The interrupted batch job
+   * @returns Promise resolving once the job has been updated
+   * @throws Error if the event's passes can't be retrieved
+   */
+  private async reconcileJob(job: BatchJob): Promise<void> {
+    const unanswered = job.items.some(item =>
+      item.status === BatchJobItemStatus.PENDING || item.status === BatchJobItemStatus.SENT
+    );
+
+    if (!unanswered) {
+      return;
+    }
+
+    let existingPasses: ParkHubPass[];
+    try {
+      const response = await passesApi.getPassesForEvent({ eventId: job.eventId, landMarkId: job.landMarkId });
+      if (!response.success || !response.data) {
+        throw new Error(response.error?.message);
+      }
+      existingPasses = response.data;
+    } catch (error) {
+      throw new Error('Could not check which passes were already created. Try again when the connection is restored.');
+    }
+
+    const passesByBarcode = new Map(existingPasses.map(pass => [pass.barcode, pass]));
+
+    job.items = job.items.map(item => {
+      if (item.status !== BatchJobItemStatus.PENDING && item.status !== BatchJobItemStatus.SENT) {
+        return item;
+      }
+
+      const existing = passesByBarcode.get(item.request.barcode);
+
+      if (!existing) {
+        return { ...item, status: BatchJobItemStatus.PENDING };
+      }
+
+      if (matchesPassRequest(existing, item.request)) {
+        return { ...item, status: BatchJobItemStatus.SUCCEEDED, passId: existing.id };
+      }
+
+      return {
+        ...item,
+        status: BatchJobItemStatus.FAILED,
+        error: {
+          code: 'duplicate_barcode',
+          message: `Barcode ${item.request.barcode} is already used by another pass`,
+          field: 'barcode'
+        }
+      };
+    });
+
+    job.updatedAt = new Date().toISOString();
+    saveBatchJob(job);
+  }
+
+  /**
+   * Records a status change for an item of a batch job
+   * @param job - The batch job
+   * @param index - Position of the item in the job
+   * @param status - New status of the item
+   * @param outcome - Created pass ID or error, once the API has responded
+   */
+  private updateItem(
+    job: BatchJob,
+    index: number,
+    status: BatchJobItemStatus,
+    outcome?: { passId?: string; error?: ApiError }
+  ): void {
+    job.items[index] = { ...job.items[index], status, ...outcome };
+    job.updatedAt = new Date().toISOString();
+    saveBatchJob(job);
+  }
+}
+
+// Export the class and a singleton instance
+export { BatchJobService };
+export const batchJobService = new BatchJobService();
+export default batchJobService;
@@ -0,0 +1,13 @@
+/**
+ * Barrel file for the batch module that exports the batch job service.
+ * Provides a single entry point for creating passes through resumable batch jobs.
+ * 
+ * @module services/batch
+ * @version 1.0.0
+ */
+
+import batchJobService, { BatchJobService } from './batchJobService';
+
+export { batchJobService, BatchJobService };
+
+export default batchJobService;
\ No newline at end of file
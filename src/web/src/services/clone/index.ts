@@ -0,0 +1,13 @@
+/**
+ * Barrel file for the clone module that exports the pass clone service.
+ * Provides a single entry point for planning copies of passes between events.
+ * 
+ * @module services/clone
+ * @version 1.0.0
+ */
+
+import passCloneService, { PassCloneService } from './passCloneService';
+
+export { passCloneService, PassCloneService };
+
+export default passCloneService;
\ No newline at end of file
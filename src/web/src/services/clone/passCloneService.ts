@@ -0,0 +1,162 @@
+import { ParkHubPass } from '../../types/api.types';
+import { PassFormData } from '../../types/form.types';
+import { PassStatus } from '../../types/pass.types';
+import { BarcodeScheme } from '../../types/barcode.types';
+import {
+  ClonePlan,
+  ClonePlanItem,
+  ClonePlanOptions,
+  CloneBarcodeRule,
+  ClonePassOutcome
+} from '../../types/clone.types';
+import { barcodeGeneratorService } from '../barcode/barcodeGeneratorService';
+import { normalizeSpotType } from '../../utils/import-helpers';
+
+/**
+ * Normalizes a barcode for comparison
+ * @param barcode - Raw barcode
+ * @returns Trimmed, upper-case barcode
+ */
+const normalizeBarcode = (barcode: string): string => (barcode || '').trim().toUpperCase();
+
+/**
+ * Builds the key used to recognize the same pass in two events
+ * @param pass - The pass
+ * @returns Key made of the account, customer name, spot type and lot
+ */
+const getPassKey = (pass: Pick<ParkHubPass, 'accountId' | 'customerName' | 'spotType' | 'lotId'>): string => {
+  return [pass.accountId, pass.customerName, pass.spotType, pass.lotId]
+    .map(value => (value || '').trim().toLowerCase())
+    .join('|');
+};
+
+/**
+ * Service that plans copying the passes of one event to another. The plan decides,
+ * for every selected pass, whether it is created with its own barcode, created with a
+ * newly generated one, or skipped, so the user can review it before submitting.
+ */
+class PassCloneService {
+  /**
+   * Selects the passes copied by default: every pass that hasn't been cancelled
+   * @param passes - Passes of the source event
+   * @returns IDs of the passes to select
+   */
+  public getDefaultSelection(passes: ParkHubPass[]): string[] {
+    return passes
+      .filter(pass => pass.status !== PassStatus.CANCELLED)
+      .map(pass => pass.id);
+  }
+
+  /**
+   * Plans copying passes to a target event
+   * @param sourcePasses - Passes of the source event
+   * @param targetPasses - Passes the target event already has
+   * @param selectedPassIds - IDs of the source passes to copy
+   * @param targetEventId - ID of the target event
+   * @param options - Barcode rule and whether to skip passes the target already has
+   * @returns The plan, listing the selected passes in source order
+   * @throws Error if there are not enough unused barcodes left to generate
+   */
+  public planClone(
+    sourcePasses: ParkHubPass[],
+    targetPasses: ParkHubPass[],
+    selectedPassIds: string[],
+    targetEventId: string,
+    options: ClonePlanOptions
+  ): ClonePlan {
+    const selected = new Set(selectedPassIds);
+    const takenBarcodes = new Set(targetPasses.map(pass => normalizeBarcode(pass.barcode)));
+    const existingPasses = new Set(
+      targetPasses
+        .filter(pass => pass.status !== PassStatus.CANCELLED)
+        .map(getPassKey)
+    );
+
+    // Decide every outcome first, so new barcodes can avoid the barcodes being kept
+    const keptBarcodes = new Set<string>();
+    const outcomes = sourcePasses
+      .filter(pass => selected.has(pass.id))
+      .map(source => {
+        const barcode = normalizeBarcode(source.barcode);
+        const taken = takenBarcodes.has(barcode) || keptBarcodes.has(barcode);
+        let outcome: ClonePassOutcome;
+
+        if (options.skipExisting && existingPasses.has(getPassKey(source))) {
+          outcome = ClonePassOutcome.SKIP_EXISTING;
+        } else if (options.barcodeRule === CloneBarcodeRule.REGENERATE || !barcode) {
+          outcome = ClonePassOutcome.NEW_BARCODE;
+        } else if (!taken) {
+          outcome = ClonePassOutcome.KEEP_BARCODE;
+        } else {
+          outcome = options.barcodeRule === CloneBarcodeRule.KEEP
+            ? ClonePassOutcome.SKIP_BARCODE_TAKEN
+            : ClonePassOutcome.NEW_BARCODE;
+        }
+
+        if (outcome === ClonePassOutcome.KEEP_BARCODE) {
+          keptBarcodes.add(barcode);
+        }
+        return { source, outcome };
+      });
+
+    const regeneratedCount = outcomes.filter(({ outcome }) => outcome === ClonePassOutcome.NEW_BARCODE).length;
+    const newBarcodes = regeneratedCount > 0
+      ? barcodeGeneratorService.generate(
+          { scheme: BarcodeScheme.SEQUENTIAL, count: regeneratedCount },
+          [...Array.from(takenBarcodes), ...Array.from(keptBarcodes)]
+        ).barcodes
+      : [];
+
+    const items: ClonePlanItem[] = outcomes.map(({ source, outcome }) => {
+      if (outcome === ClonePassOutcome.SKIP_EXISTING || outcome === ClonePassOutcome.SKIP_BARCODE_TAKEN) {
+        return { source, pass: null, outcome };
+      }
+
+      return {
+        source,
+        pass: this.toPassFormData(
+          source,
+          targetEventId,
+          outcome === ClonePassOutcome.NEW_BARCODE ? newBarcodes.shift() as string : source.barcode.trim()
+        ),
+        outcome
+      };
+    });
+
+    const passes = items
+      .map(item => item.pass)
+      .filter((pass): pass is PassFormData => pass !== null);
+
+    return {
+      targetEventId,
+      items,
+      passes,
+      keptCount: passes.length - regeneratedCount,
+      regeneratedCount,
+      skippedCount: items.length - passes.length
+    };
+  }
+
+  /**
+   * Converts a source pass into a pass for the target event
+   * @param source - The pass in the source event
+   * @param eventId - ID of the target event
+   * @param barcode - Barcode of the new pass
+   * @returns Pass creation data
+   */
+  private toPassFormData(source: ParkHubPass, eventId: string, barcode: string): PassFormData {
+    return {
+      eventId,
+      accountId: source.accountId,
+      barcode,
+      customerName: source.customerName,
+      spotType: normalizeSpotType(source.spotType),
+      lotId: source.lotId
+    };
+  }
+}
+
+// Export the class and a singleton instance
+export { PassCloneService };
+export const passCloneService = new PassCloneService();
+export default passCloneService;
@@ -0,0 +1,165 @@
+/**
+ * Schema, defaults and environment variables of the runtime configuration. Every layer
+ * of settings is checked against the schema before it is merged, so a mistyped value in
+ * one layer falls back to the layer below instead of breaking the app.
+ *
+ * @version 1.0.0
+ */
+
+import { object, string, number, boolean, Schema, ValidationError } from 'yup'; // ^1.1.1
+import { API_BASE_URL, LANDMARK_ID } from '../../constants/apiEndpoints';
+import { DEFAULT_CACHE_EXPIRY } from '../storage/cacheStorage';
+import { validateLandmarkId } from '../storage/landmarkStorage';
+import { AppConfig, AppConfigKey, ConfigIssue, ConfigSource } from '../../types/config.types';
+
+/**
+ * Built-in settings, used when no other layer sets a value
+ */
+export const DEFAULT_APP_CONFIG: AppConfig = {
+  apiBaseUrl: API_BASE_URL,
+  landMarkId: LANDMARK_ID,
+  requestTimeout: 10000,
+  retryCount: 3,
+  cacheExpiry: DEFAULT_CACHE_EXPIRY,
+  enableMockApi: false,
+  googleIssuerId: ''
+};
+
+/**
+ * Settings the user can override on the Settings page
+ */
+export const USER_CONFIG_KEYS: AppConfigKey[] = ['landMarkId', 'requestTimeout', 'retryCount', 'cacheExpiry', 'googleIssuerId'];
+
+/**
+ * Settings an API key profile can set
+ */
+export const PROFILE_CONFIG_KEYS: AppConfigKey[] = ['apiBaseUrl', 'landMarkId'];
+
+/**
+ * Readable names of the settings, used in messages and on the Settings page
+ */
+export const CONFIG_LABELS: Record<AppConfigKey, string> = {
+  apiBaseUrl: 'API base URL',
+  landMarkId: 'Default venue ID',
+  requestTimeout: 'Request timeout',
+  retryCount: 'Retries',
+  cacheExpiry: 'Cache duration',
+  enableMockApi: 'Mock API',
+  googleIssuerId: 'Google Wallet issuer ID'
+};
+
+/**
+ * Rules each setting's value must follow
+ */
+const CONFIG_FIELD_SCHEMAS: Record<AppConfigKey, Schema> = {
+  apiBaseUrl: string()
+    .trim()
+    .required('Must not be empty')
+    .test('api-base-url', 'Must be an http or https URL without a trailing slash', value => {
+      try {
+        const url = new URL(value || '');
+        return ['http:', 'https:'].includes(url.protocol) && !value?.endsWith('/');
+      } catch (error) {
+        return false;
+      }
+    }),
+  landMarkId: string()
+    .trim()
+    .required('Must not be empty')
+    .test('landmark-id', 'Must be a valid landmark ID', value => validateLandmarkId(value || '')),
+  requestTimeout: number()
+    .typeError('Must be a number of milliseconds')
+    .required('Must not be empty')
+    .integer('Must be a whole number of milliseconds')
+    .min(1000, 'Must be at least 1 second')
+    .max(120000, 'Must be at most 2 minutes'),
+  retryCount: number()
+    .typeError('Must be a number')
+    .required('Must not be empty')
+    .integer('Must be a whole number')
+    .min(0, 'Must not be negative')
+    .max(10, 'Must be at most 10'),
+  cacheExpiry: number()
+    .typeError('Must be a number of milliseconds')
+    .required('Must not be empty')
+    .integer('Must be a whole number of milliseconds')
+    .min(60000, 'Must be at least 1 minute')
+    .max(7 * 24 * 60 * 60 * 1000, 'Must be at most 7 days'),
+  enableMockApi: boolean()
+    .typeError('Must be true or false')
+    .required('Must not be empty'),
+  googleIssuerId: string()
+    .trim()
+    .defined('Must be text')
+    .matches(/^\d*$/, 'Must be the numeric issuer ID shown in the Google Pay & Wallet Console')
+};
+
+/**
+ * Schema of the complete runtime configuration
+ */
+export const appConfigSchema = object(CONFIG_FIELD_SCHEMAS);
+
+/**
+ * Reads the settings given by environment variables when the app was built.
+ * Each variable is written out in full so the build can replace it with its value.
+ *
+ * @returns The settings that were set, unvalidated
+ */
+export const readEnvConfig = (): Record<string, unknown> => {
+  const env: Record<AppConfigKey, string | undefined> = {
+    apiBaseUrl: process.env.VITE_API_BASE_URL,
+    landMarkId: process.env.VITE_API_LANDMARK_ID,
+    requestTimeout: process.env.VITE_API_TIMEOUT,
+    retryCount: process.env.VITE_API_RETRY_COUNT,
+    cacheExpiry: process.env.VITE_CACHE_DURATION,
+    enableMockApi: process.env.VITE_ENABLE_MOCK_API,
+    googleIssuerId: process.env.VITE_GOOGLE_WALLET_ISSUER_ID
+  };
+
+  // Unset variables, and variables set to an empty string, leave the default in place
+  return Object.fromEntries(
+    Object.entries(env).filter(([, value]) => value !== undefined && value.trim() !== '')
+  );
+};
+
+/**
+ * Checks one layer of settings against the schema
+ *
+ * @param raw - The layer's settings, unvalidated
+ * @param source - The layer the settings come from
+ * @param allowedKeys - Settings the layer may set
+ * @returns The valid settings, converted to their types, and an issue for every value that was ignored
+ */
+export const parseConfigLayer = (
+  raw: Record<string, unknown>,
+  source: ConfigSource,
+  allowedKeys: AppConfigKey[] = Object.keys(CONFIG_FIELD_SCHEMAS) as AppConfigKey[]
+): { values: Partial<AppConfig>; issues: ConfigIssue[] } => {
+  const values: Partial<AppConfig> = {};
+  const issues: ConfigIssue[] = [];
+
+  Object.entries(raw).forEach(([key, value]) => {
+    if (!Object.prototype.hasOwnProperty.call(CONFIG_FIELD_SCHEMAS, key)) {
+      issues.push({ key, source, message: 'Unknown setting' });
+      return;
+    }
+
+    const configKey = key as AppConfigKey;
+    if (!allowedKeys.includes(configKey)) {
+      issues.push({ key, source, message: 'Can\'t be set here' });
+      return;
+    }
+
+    try {
+      (values as Record<string, unknown>)[configKey] = CONFIG_FIELD_SCHEMAS[configKey].validateSync(value);
+    } catch (error) {
+      issues.push({
+        key,
+        source,
+        message: error instanceof ValidationError ? error.message : 'Invalid value'
+      });
+    }
+  });
+
+  return { values, issues };
+};
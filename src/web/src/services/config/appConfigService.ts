@@ -0,0 +1,257 @@
+/**
+ * Service that works out the runtime settings of the application. Settings are merged
+ * from built-in defaults, environment variables set at build time, an optional
+ * config.json served with the app, overrides the user saves on the Settings page and
+ * the API address and venue of the API key profile in use, each layer overriding the
+ * one before. Values that fail validation are ignored and
+ * reported, so the value from the layer below is used instead.
+ *
+ * @version 1.0.0
+ */
+
+import {
+  AppConfig,
+  AppConfigKey,
+  AppConfigListener,
+  ConfigIssue,
+  ConfigSource,
+  ResolvedAppConfig,
+  UserConfigOverrides
+} from '../../types/config.types';
+import { getUserConfig, saveUserConfig, clearUserConfig } from '../storage/configStorage';
+import { getActiveProfile } from '../storage/profileStorage';
+import {
+  CONFIG_LABELS,
+  DEFAULT_APP_CONFIG,
+  PROFILE_CONFIG_KEYS,
+  USER_CONFIG_KEYS,
+  parseConfigLayer,
+  readEnvConfig
+} from './appConfigSchema';
+
+/**
+ * Path of the optional config file served with the app. Deployments can place one next
+ * to index.html to change settings without rebuilding the app.
+ */
+export const CONFIG_FILE_URL = '/config.json';
+
+/**
+ * Service that merges and validates the runtime settings and tells listeners when they change
+ */
+class AppConfigService {
+  private readonly envConfig: Record<string, unknown>;
+  private fileConfig: Record<string, unknown> = {};
+  private fileIssues: ConfigIssue[] = [];
+  private resolved: ResolvedAppConfig;
+  private loading: Promise<ResolvedAppConfig> | null = null;
+  private listeners: Set<AppConfigListener> = new Set();
+
+  /**
+   * @param envConfig - Settings given by environment variables at build time
+   */
+  constructor(envConfig: Record<string, unknown> = readEnvConfig()) {
+    this.envConfig = envConfig;
+    this.resolved = this.resolve();
+  }
+
+  /**
+   * Fetches the config file served with the app and applies its settings. A missing
+   * file is not an error; the settings from the other layers are used. Calls made while
+   * the file is being fetched share the same request.
+   *
+   * @param url - Path of the config file
+   * @returns Promise resolving to the settings in effect
+   */
+  public load(url: string = CONFIG_FILE_URL): Promise<ResolvedAppConfig> {
+    if (!this.loading) {
+      this.loading = this.fetchConfigFile(url).finally(() => {
+        this.loading = null;
+      });
+    }
+
+    return this.loading;
+  }
+
+  /**
+   * Gets the settings in effect
+   * @returns The settings
+   */
+  public getConfig(): AppConfig {
+    return this.resolved.values;
+  }
+
+  /**
+   * Gets the settings in effect with where each value came from
+   * @returns The settings, their sources and any ignored values
+   */
+  public getResolvedConfig(): ResolvedAppConfig {
+    return this.resolved;
+  }
+
+  /**
+   * Gets the valid settings the user has overridden
+   * @returns The user's overrides
+   */
+  public getOverrides(): UserConfigOverrides {
+    return parseConfigLayer(getUserConfig(), ConfigSource.USER, USER_CONFIG_KEYS).values as UserConfigOverrides;
+  }
+
+  /**
+   * Checks settings the user wants to override without saving them
+   * @param overrides - The settings to check
+   * @returns An issue for every invalid value
+   */
+  public validateOverrides(overrides: Record<string, unknown>): ConfigIssue[] {
+    return parseConfigLayer(overrides, ConfigSource.USER, USER_CONFIG_KEYS).issues;
+  }
+
+  /**
+   * Saves the settings the user has overridden, replacing any saved before, and applies them
+   * @param overrides - The overridden settings, which may be given as text; settings left out use the value from the other layers
+   * @returns The settings in effect
+   * @throws Error if a value is invalid or the settings can't be saved
+   */
+  public setOverrides(overrides: Record<string, unknown>): ResolvedAppConfig {
+    const { values, issues } = parseConfigLayer(overrides, ConfigSource.USER, USER_CONFIG_KEYS);
+
+    if (issues.length > 0) {
+      const [issue] = issues;
+      const label = CONFIG_LABELS[issue.key as AppConfigKey] || issue.key;
+      throw new Error(`${label}: ${issue.message}.`);
+    }
+
+    if (!saveUserConfig(values as UserConfigOverrides)) {
+      throw new Error('Your settings could not be saved.');
+    }
+
+    return this.refresh();
+  }
+
+  /**
+   * Removes every setting the user has overridden and applies the settings from the other layers
+   * @returns The settings in effect
+   */
+  public resetOverrides(): ResolvedAppConfig {
+    clearUserConfig();
+    return this.refresh();
+  }
+
+  /**
+   * Merges the layers again, picking up the settings of the API key profile now in use
+   * @returns The settings in effect
+   */
+  public reload(): ResolvedAppConfig {
+    return this.refresh();
+  }
+
+  /**
+   * Subscribes to changes of the settings
+   * @param listener - Called with the settings now and whenever they change
+   * @returns Function that unsubscribes the listener
+   */
+  public subscribe(listener: AppConfigListener): () => void {
+    this.listeners.add(listener);
+    listener(this.resolved);
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Fetches and applies the config file
+   * @param url - Path of the config file
+   * @returns Promise resolving to the settings in effect
+   */
+  private async fetchConfigFile(url: string): Promise<ResolvedAppConfig> {
+    try {
+      const response = await fetch(url, { cache: 'no-store', headers: { Accept: 'application/json' } });
+
+      // Servers that route every path to the app answer with index.html rather than a 404
+      const contentType = response.headers.get('content-type') || '';
+      if (!response.ok || !contentType.includes('json')) {
+        this.fileConfig = {};
+        this.fileIssues = [];
+        return this.refresh();
+      }
+
+      const data: unknown = await response.json();
+      if (data && typeof data === 'object' && !Array.isArray(data)) {
+        this.fileConfig = data as Record<string, unknown>;
+        this.fileIssues = [];
+      } else {
+        this.fileConfig = {};
+        this.fileIssues = [{ key: url, source: ConfigSource.FILE, message: 'The config file must contain a JSON object' }];
+      }
+    } catch (error) {
+      console.warn(`Could not load ${url}; using the built-in settings:`, error);
+      this.fileConfig = {};
+      this.fileIssues = [{ key: url, source: ConfigSource.FILE, message: 'The config file could not be read' }];
+    }
+
+    return this.refresh();
+  }
+
+  /**
+   * Merges the layers again and tells the listeners
+   * @returns The settings in effect
+   */
+  private refresh(): ResolvedAppConfig {
+    this.resolved = this.resolve();
+    this.listeners.forEach(listener => listener(this.resolved));
+    return this.resolved;
+  }
+
+  /**
+   * Reads the settings of the API key profile in use
+   * @returns The settings the profile sets, unvalidated
+   */
+  private readProfileConfig(): Record<string, unknown> {
+    const { baseUrl, landMarkId } = getActiveProfile();
+    const profileConfig: Record<string, unknown> = {};
+
+    if (baseUrl) {
+      profileConfig.apiBaseUrl = baseUrl;
+    }
+    if (landMarkId) {
+      profileConfig.landMarkId = landMarkId;
+    }
+
+    return profileConfig;
+  }
+
+  /**
+   * Merges the layers of settings, each overriding the one before
+   * @returns The settings in effect with where each value came from
+   */
+  private resolve(): ResolvedAppConfig {
+    const layers = [
+      { source: ConfigSource.ENVIRONMENT, ...parseConfigLayer(this.envConfig, ConfigSource.ENVIRONMENT) },
+      { source: ConfigSource.FILE, ...parseConfigLayer(this.fileConfig, ConfigSource.FILE) },
+      { source: ConfigSource.USER, ...parseConfigLayer(getUserConfig(), ConfigSource.USER, USER_CONFIG_KEYS) },
+      { source: ConfigSource.PROFILE, ...parseConfigLayer(this.readProfileConfig(), ConfigSource.PROFILE, PROFILE_CONFIG_KEYS) }
+    ];
+    const values: AppConfig = { ...DEFAULT_APP_CONFIG };
+    const sources = Object.fromEntries(
+      Object.keys(DEFAULT_APP_CONFIG).map(key => [key, ConfigSource.DEFAULT])
+    ) as Record<AppConfigKey, ConfigSource>;
+
+    layers.forEach(layer => {
+      (Object.keys(layer.values) as AppConfigKey[]).forEach(key => {
+        (values as Record<AppConfigKey, unknown>)[key] = layer.values[key];
+        sources[key] = layer.source;
+      });
+    });
+
+    return {
+      values,
+      sources,
+      issues: [...this.fileIssues, ...layers.flatMap(layer => layer.issues)]
+    };
+  }
+}
+
+// Export the class and a singleton instance
+export { AppConfigService };
+export const appConfigService = new AppConfigService();
+export default appConfigService;
@@ -0,0 +1,33 @@
+/**
+ * Applies the runtime settings to the services that use them: the endpoint builders,
+ * the API client, the cache, the wallet export and the offline service worker.
+ *
+ * @version 1.0.0
+ */
+
+import { ResolvedAppConfig } from '../../types/config.types';
+import { configureEndpoints } from '../../constants/apiEndpoints';
+import { apiClient } from '../api/apiClient';
+import { setCacheExpiry } from '../storage/cacheStorage';
+import { walletExportService } from '../wallet/walletExportService';
+import { setServiceWorkerApiBaseUrl } from '../offline/serviceWorkerRegistration';
+
+/**
+ * Applies the runtime settings. Requests already sent and items already cached keep
+ * the settings they were made with.
+ *
+ * @param config - The settings in effect
+ */
+export const applyAppConfig = ({ values }: ResolvedAppConfig): void => {
+  configureEndpoints({ baseUrl: values.apiBaseUrl, landMarkId: values.landMarkId });
+  apiClient.updateConfig({
+    baseUrl: values.apiBaseUrl,
+    timeout: values.requestTimeout,
+    retryCount: values.retryCount
+  });
+  setCacheExpiry(values.cacheExpiry);
+  walletExportService.setGoogleIssuerId(values.googleIssuerId);
+  setServiceWorkerApiBaseUrl(values.apiBaseUrl);
+};
+
+export default applyAppConfig;
@@ -0,0 +1,34 @@
+/**
+ * Barrel file for the config module that exports the runtime configuration service.
+ * Provides a single entry point for reading, overriding and applying the settings
+ * merged from defaults, environment variables, config.json and the user's overrides.
+ * 
+ * @module services/config
+ * @version 1.0.0
+ */
+
+import appConfigService, { AppConfigService, CONFIG_FILE_URL } from './appConfigService';
+import { applyAppConfig } from './applyAppConfig';
+import {
+  appConfigSchema,
+  CONFIG_LABELS,
+  DEFAULT_APP_CONFIG,
+  USER_CONFIG_KEYS,
+  parseConfigLayer,
+  readEnvConfig
+} from './appConfigSchema';
+
+export {
+  appConfigService,
+  AppConfigService,
+  CONFIG_FILE_URL,
+  applyAppConfig,
+  appConfigSchema,
+  CONFIG_LABELS,
+  DEFAULT_APP_CONFIG,
+  USER_CONFIG_KEYS,
+  parseConfigLayer,
+  readEnvConfig
+};
+
+export default appConfigService;
\ No newline at end of file
@@ -0,0 +1,13 @@
+/**
+ * Barrel file for the export module that exports all file export services.
+ * Provides a single entry point for exporting passes to CSV, XLSX and PDF.
+ * 
+ * @module services/export
+ * @version 1.0.0
+ */
+
+import passExportService, { PassExportService, PASS_EXPORT_COLUMNS } from './passExportService';
+
+export { passExportService, PassExportService, PASS_EXPORT_COLUMNS };
+
+export default passExportService;
@@ -0,0 +1,264 @@
+import * as XLSX from 'xlsx'; // ^0.18.5
+import { jsPDF } from 'jspdf'; // ^2.5.2
+import autoTable from 'jspdf-autotable'; // ^3.8.4
+
+import { Pass, PassFilterOptions, PassSortOptions, PassSortField } from '../../types/pass.types';
+import { Event } from '../../types/event.types';
+import {
+  ExportFormat,
+  ExportScope,
+  PassExportOptions,
+  PassExportRow
+} from '../../types/export.types';
+import { SortDirection } from '../../types/common.types';
+import { SPOT_TYPE_LABELS } from '../../constants/spotTypes';
+import { formatDateTime, formatDate } from '../../utils/date-helpers';
+import { formatPassStatus } from '../../utils/formatting';
+import { downloadBlob, sanitizeFileName } from '../../utils/download-helpers';
+
+/**
+ * Column definitions for exported files, in output order
+ */
+export const PASS_EXPORT_COLUMNS: Array<{ key: keyof PassExportRow; label: string }> = [
+  { key: 'eventName', label: 'Event' },
+  { key: 'eventDate', label: 'Event Date' },
+  { key: 'eventId', label: 'Event ID' },
+  { key: 'passId', label: 'Pass ID' },
+  { key: 'barcode', label: 'Barcode' },
+  { key: 'customerName', label: 'Customer Name' },
+  { key: 'accountId', label: 'Account ID' },
+  { key: 'spotType', label: 'Spot Type' },
+  { key: 'lotId', label: 'Lot ID' },
+  { key: 'status', label: 'Status' },
+  { key: 'createdAt', label: 'Created At' }
+];
+
+/**
+ * Columns printed on the PDF manifest; attendants don't need internal IDs on paper
+ */
+const MANIFEST_COLUMNS: Array<keyof PassExportRow> = [
+  'barcode',
+  'customerName',
+  'accountId',
+  'spotType',
+  'lotId',
+  'status'
+];
+
+/**
+ * MIME types for each export format
+ */
+const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  [ExportFormat.CSV]: 'text/csv;charset=utf-8',
+  [ExportFormat.XLSX]: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  [ExportFormat.PDF]: 'application/pdf'
+};
+
+/**
+ * Escapes a value for inclusion in a CSV cell
+ * @param value - Cell value
+ * @returns Value quoted if it contains a comma, quote or line break
+ */
+const escapeCsvValue = (value: string): string => {
+  if (/[",\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+};
+
+/**
+ * Service for exporting passes to CSV, XLSX and printable PDF manifests.
+ * Passes are exported in the order given, so callers pass them already
+ * filtered and sorted the way they are displayed.
+ */
+class PassExportService {
+  /**
+   * Flattens passes into export rows, joining the event name and date
+   * @param passes - Passes to export
+   * @param event - Event used when a pass has no joined event
+   * @returns Export rows in the same order as the passes
+   */
+  public buildRows(passes: Pass[], event?: Event | null): PassExportRow[] {
+    return passes.map(pass => {
+      const passEvent = pass.event || (event && event.id === pass.eventId ? event : null);
+
+      return {
+        eventName: passEvent?.name || '',
+        eventDate: passEvent ? formatDateTime(passEvent.date) : '',
+        eventId: pass.eventId,
+        passId: pass.id,
+        barcode: pass.barcode,
+        customerName: pass.customerName,
+        accountId: pass.accountId,
+        spotType: SPOT_TYPE_LABELS[pass.spotType] || pass.spotType,
+        lotId: pass.lotId,
+        status: formatPassStatus(pass.status),
+        createdAt: pass.formattedCreatedAt || formatDate(pass.createdAt)
+      };
+    });
+  }
+
+  /**
+   * Describes the active filter and sort options for display in exported files
+   * @param filterOptions - Active filter options
+   * @param sortOptions - Active sort options
+   * @returns Human-readable description lines
+   */
+  public describeOptions(
+    filterOptions?: PassFilterOptions | null,
+    sortOptions?: PassSortOptions | null
+  ): string[] {
+    const filters: string[] = [];
+
+    if (filterOptions?.status) filters.push(`Status: ${formatPassStatus(filterOptions.status)}`);
+    if (filterOptions?.spotType) filters.push(`Spot Type: ${SPOT_TYPE_LABELS[filterOptions.spotType] || filterOptions.spotType}`);
+    if (filterOptions?.lotId) filters.push(`Lot: ${filterOptions.lotId}`);
+    if (filterOptions?.searchTerm) filters.push(`Search: "${filterOptions.searchTerm}"`);
+
+    const lines = [`Filters: ${filters.length > 0 ? filters.join(', ') : 'None'}`];
+
+    if (sortOptions) {
+      // Pass IDs are exported as passId, all other sort fields share their export column key
+      const key = sortOptions.field === PassSortField.ID ? 'passId' : sortOptions.field;
+      const column = PASS_EXPORT_COLUMNS.find(col => col.key === key);
+      const label = column?.label || sortOptions.field;
+      const direction = sortOptions.direction === SortDirection.ASC ? 'ascending' : 'descending';
+      lines.push(`Sorted by: ${label} (${direction})`);
+    }
+
+    return lines;
+  }
+
+  /**
+   * Generates CSV content for the given passes
+   * @param passes - Passes to export
+   * @param event - Event used when a pass has no joined event
+   * @returns CSV text with a header row
+   */
+  public toCsv(passes: Pass[], event?: Event | null): string {
+    const rows = this.buildRows(passes, event);
+    const lines = [
+      PASS_EXPORT_COLUMNS.map(col => escapeCsvValue(col.label)).join(','),
+      ...rows.map(row => PASS_EXPORT_COLUMNS.map(col => escapeCsvValue(row[col.key])).join(','))
+    ];
+
+    return lines.join('\r\n');
+  }
+
+  /**
+   * Generates an Excel workbook for the given passes
+   * @param passes - Passes to export
+   * @param event - Event used when a pass has no joined event
+   * @returns Workbook file contents
+   */
+  public toXlsx(passes: Pass[], event?: Event | null): ArrayBuffer {
+    const rows = this.buildRows(passes, event);
+    const sheet = XLSX.utils.aoa_to_sheet([
+      PASS_EXPORT_COLUMNS.map(col => col.label),
+      ...rows.map(row => PASS_EXPORT_COLUMNS.map(col => row[col.key]))
+    ]);
+    const workbook = XLSX.utils.book_new();
+
+    XLSX.utils.book_append_sheet(workbook, sheet, 'Passes');
+
+    return XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+  }
+
+  /**
+   * Generates a printable PDF manifest for lot attendants
+   * @param passes - Passes to export
+   * @param options - Export options (event, filter and sort options)
+   * @returns PDF document contents
+   */
+  public toPdf(passes: Pass[], options: Omit<PassExportOptions, 'format'>): ArrayBuffer {
+    const rows = this.buildRows(passes, options.event);
+    const doc = new jsPDF({ orientation: 'landscape', unit: 'pt', format: 'letter' });
+    const event = options.event || passes.find(pass => pass.event)?.event || null;
+
+    doc.setFontSize(16);
+    doc.text(event ? event.name : 'Parking Pass Manifest', 40, 40);
+
+    doc.setFontSize(10);
+    const headerLines = [
+      event ? `${formatDateTime(event.date)}${event.venue ? ` - ${event.venue}` : ''}` : '',
+      `${options.scope === ExportScope.FILTERED ? 'Filtered passes' : 'All passes'}: ${rows.length}`,
+      ...this.describeOptions(
+        options.scope === ExportScope.FILTERED ? options.filterOptions : null,
+        options.sortOptions
+      ),
+      `Generated: ${formatDateTime(new Date())}`
+    ].filter(Boolean);
+    doc.text(headerLines, 40, 60);
+
+    autoTable(doc, {
+      startY: 60 + headerLines.length * 12 + 10,
+      head: [
+        [
+          ...MANIFEST_COLUMNS.map(key => PASS_EXPORT_COLUMNS.find(col => col.key === key)?.label || key),
+          'Check'
+        ]
+      ],
+      body: rows.map(row => [...MANIFEST_COLUMNS.map(key => row[key]), '']),
+      styles: { fontSize: 9 },
+      headStyles: { fillColor: [33, 33, 33] },
+      columnStyles: { [MANIFEST_COLUMNS.length]: { cellWidth: 50 } },
+      didDrawPage: data => {
+        doc.setFontSize(8);
+        doc.text(
+          `Page ${data.pageNumber}`,
+          doc.internal.pageSize.getWidth() - 80,
+          doc.internal.pageSize.getHeight() - 20
+        );
+      }
+    });
+
+    return doc.output('arraybuffer');
+  }
+
+  /**
+   * Builds the default export file name from the event and current date
+   * @param event - Event the passes belong to
+   * @returns File name without extension
+   */
+  public getDefaultFileName(event?: Event | null): string {
+    const parts = ['passes', event?.name || event?.id || '', formatDate(new Date(), 'YYYY-MM-DD')];
+    return sanitizeFileName(parts.filter(Boolean).join('-'));
+  }
+
+  /**
+   * Exports passes in the requested format and downloads the file
+   * @param passes - Passes to export, already filtered and sorted
+   * @param options - Export options
+   * @throws Error if there are no passes to export
+   */
+  public exportPasses(passes: Pass[], options: PassExportOptions): void {
+    if (passes.length === 0) {
+      throw new Error('There are no passes to export.');
+    }
+
+    let content: string | ArrayBuffer;
+
+    switch (options.format) {
+      case ExportFormat.CSV:
+        // Prefix a byte order mark so Excel opens the file as UTF-8
+        content = `\uFEFF${this.toCsv(passes, options.event)}`;
+        break;
+      case ExportFormat.XLSX:
+        content = this.toXlsx(passes, options.event);
+        break;
+      case ExportFormat.PDF:
+        content = this.toPdf(passes, options);
+        break;
+      default:
+        throw new Error(`Unsupported export format: ${options.format}`);
+    }
+
+    const fileName = `${sanitizeFileName(options.fileName || this.getDefaultFileName(options.event))}.${options.format}`;
+    downloadBlob(new Blob([content], { type: EXPORT_MIME_TYPES[options.format] }), fileName);
+  }
+}
+
+// Export the class and a singleton instance
+export { PassExportService };
+export const passExportService = new PassExportService();
+export default passExportService;
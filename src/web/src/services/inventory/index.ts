@@ -0,0 +1,13 @@
+/**
+ * Barrel file for the inventory module that exports the inventory service.
+ * Provides a single entry point for tracking lot capacity and issued passes per event.
+ * 
+ * @module services/inventory
+ * @version 1.0.0
+ */
+
+import inventoryService, { InventoryService } from './inventoryService';
+
+export { inventoryService, InventoryService };
+
+export default inventoryService;
\ No newline at end of file
@@ -0,0 +1,241 @@
+import { SpotType } from '../../types/api.types';
+import { PassStatus } from '../../types/pass.types';
+import {
+  EventLotConfiguration,
+  EventInventory,
+  InventoryPass,
+  LotCapacity,
+  LotInventory,
+  OverbookingCheckResult,
+  OverbookingConflict,
+  OverbookingPolicy
+} from '../../types/inventory.types';
+import { SPOT_TYPES_ARRAY } from '../../constants/spotTypes';
+import { downloadBlob, sanitizeFileName } from '../../utils/download-helpers';
+
+/**
+ * Finds the spot type matching a pass's spot type, ignoring case
+ * @param spotType - Spot type as stored on the pass
+ * @returns The matching spot type, or null if it isn't a known spot type
+ */
+const toSpotType = (spotType: string): SpotType | null =>
+  SPOT_TYPES_ARRAY.find(type => type.toLowerCase() === String(spotType || '').toLowerCase()) || null;
+
+/**
+ * Builds the key used to count passes per lot and spot type
+ * @param lotId - Lot ID
+ * @param spotType - Spot type
+ * @returns The count key
+ */
+const getCountKey = (lotId: string, spotType: SpotType): string => `${lotId.trim().toLowerCase()}|${spotType}`;
+
+/**
+ * Counts passes per lot and spot type
+ * @param passes - Passes to count
+ * @returns Number of passes keyed by lot and spot type
+ */
+const countPasses = (passes: Array<Pick<InventoryPass, 'lotId' | 'spotType'>>): Map<string, number> => {
+  const counts = new Map<string, number>();
+
+  passes.forEach(pass => {
+    const spotType = toSpotType(pass.spotType);
+    if (!spotType || !pass.lotId) {
+      return;
+    }
+
+    const key = getCountKey(pass.lotId, spotType);
+    counts.set(key, (counts.get(key) || 0) + 1);
+  });
+
+  return counts;
+};
+
+/**
+ * Checks whether a pass holds a spot; cancelled passes free their spot
+ * @param pass - The pass
+ * @returns True if the pass counts against capacity
+ */
+const holdsSpot = (pass: InventoryPass): boolean =>
+  String(pass.status || '').toLowerCase() !== PassStatus.CANCELLED;
+
+/**
+ * Service for tracking lot capacity per event. Capacities come from a locally stored
+ * configuration; issued spots are counted from the event's passes, so the inventory
+ * is always in step with ParkHub.
+ */
+class InventoryService {
+  /**
+   * Calculates issued and remaining spots for every configured lot and spot type
+   * @param configuration - The event's lot configuration
+   * @param passes - The event's passes
+   * @returns The event's inventory
+   */
+  public calculateInventory(configuration: EventLotConfiguration, passes: InventoryPass[]): EventInventory {
+    const activePasses = passes.filter(holdsSpot);
+    const counts = countPasses(activePasses);
+    const lots: LotInventory[] = [];
+
+    configuration.lots.forEach(lot => {
+      SPOT_TYPES_ARRAY.forEach(spotType => {
+        const capacity = lot.capacity[spotType];
+        if (capacity === undefined) {
+          return;
+        }
+
+        const issued = counts.get(getCountKey(lot.lotId, spotType)) || 0;
+        lots.push({ lotId: lot.lotId, spotType, capacity, issued, remaining: capacity - issued });
+      });
+    });
+
+    const totalCapacity = lots.reduce((sum, lot) => sum + lot.capacity, 0);
+    const totalIssued = lots.reduce((sum, lot) => sum + lot.issued, 0);
+
+    return {
+      eventId: configuration.eventId,
+      lots,
+      totalCapacity,
+      totalIssued,
+      totalRemaining: lots.reduce((sum, lot) => sum + Math.max(lot.remaining, 0), 0),
+      unconfiguredIssued: activePasses.length - totalIssued
+    };
+  }
+
+  /**
+   * Checks whether creating a batch of passes would exceed any lot's capacity
+   * @param configuration - The event's lot configuration
+   * @param passes - The event's existing passes
+   * @param requests - The passes about to be created
+   * @returns The overbooked lots, and whether the configuration blocks the batch
+   */
+  public checkOverbooking(
+    configuration: EventLotConfiguration,
+    passes: InventoryPass[],
+    requests: Array<Pick<InventoryPass, 'lotId' | 'spotType'>>
+  ): OverbookingCheckResult {
+    const requested = countPasses(requests);
+    const conflicts: OverbookingConflict[] = this.calculateInventory(configuration, passes).lots
+      .map(lot => {
+        const count = requested.get(getCountKey(lot.lotId, lot.spotType)) || 0;
+        return {
+          lotId: lot.lotId,
+          spotType: lot.spotType,
+          capacity: lot.capacity,
+          issued: lot.issued,
+          requested: count,
+          overBy: lot.issued + count - lot.capacity
+        };
+      })
+      .filter(conflict => conflict.requested > 0 && conflict.overBy > 0);
+
+    return {
+      conflicts,
+      blocked: conflicts.length > 0 && configuration.overbookingPolicy === OverbookingPolicy.BLOCK
+    };
+  }
+
+  /**
+   * Downloads a lot configuration as a JSON file
+   * @param configuration - The configuration to export
+   */
+  public exportConfiguration(configuration: EventLotConfiguration): void {
+    const contents = JSON.stringify(
+      { lots: configuration.lots, overbookingPolicy: configuration.overbookingPolicy },
+      null,
+      2
+    );
+
+    downloadBlob(
+      new Blob([contents], { type: 'application/json;charset=utf-8' }),
+      `${sanitizeFileName(`lots-${configuration.eventId}`)}.json`
+    );
+  }
+
+  /**
+   * Parses an imported JSON lot configuration. Either an object with a `lots` array
+   * (and optionally an `overbookingPolicy`) or a bare array of lots is accepted.
+   * @param contents - The JSON file contents
+   * @param eventId - Event the configuration is imported for
+   * @param landMarkId - Landmark the event belongs to
+   * @param fallbackPolicy - Overbooking policy used if the file doesn't set one
+   * @returns The parsed configuration
+   * @throws Error describing the first problem found in the file
+   */
+  public parseConfiguration(
+    contents: string,
+    eventId: string,
+    landMarkId: string,
+    fallbackPolicy: OverbookingPolicy = OverbookingPolicy.WARN
+  ): EventLotConfiguration {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(contents);
+    } catch (error) {
+      throw new Error('The file is not valid JSON.');
+    }
+
+    const source = Array.isArray(parsed) ? { lots: parsed } : parsed as Record<string, unknown>;
+    if (!source || !Array.isArray(source.lots)) {
+      throw new Error('The file must contain a "lots" array.');
+    }
+
+    const policy = source.overbookingPolicy ?? fallbackPolicy;
+    if (!Object.values(OverbookingPolicy).includes(policy as OverbookingPolicy)) {
+      throw new Error(`Unknown overbooking policy "${String(policy)}". Use "warn" or "block".`);
+    }
+
+    return {
+      eventId,
+      landMarkId,
+      lots: this.validateLots(source.lots),
+      overbookingPolicy: policy as OverbookingPolicy,
+      updatedAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Validates lot capacities entered by the user or imported from a file
+   * @param lots - The lots to validate
+   * @returns The lots with trimmed IDs and known spot types only
+   * @throws Error describing the first invalid lot
+   */
+  public validateLots(lots: unknown[]): LotCapacity[] {
+    const seen = new Set<string>();
+
+    return lots.map((item, index) => {
+      const lot = (item || {}) as Record<string, unknown>;
+      const lotId = typeof lot.lotId === 'string' ? lot.lotId.trim() : '';
+
+      if (!lotId) {
+        throw new Error(`Lot ${index + 1} is missing a lot ID.`);
+      }
+      if (seen.has(lotId.toLowerCase())) {
+        throw new Error(`Lot "${lotId}" is listed more than once.`);
+      }
+      seen.add(lotId.toLowerCase());
+
+      const rawCapacity = (lot.capacity || {}) as Record<string, unknown>;
+      const capacity: Partial<Record<SpotType, number>> = {};
+
+      Object.entries(rawCapacity).forEach(([key, value]) => {
+        const spotType = toSpotType(key);
+        if (!spotType) {
+          throw new Error(`Lot "${lotId}" has an unknown spot type "${key}".`);
+        }
+        if (value === null || value === undefined || value === '') {
+          return;
+        }
+        if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+          throw new Error(`The ${spotType} capacity of lot "${lotId}" must be a whole number of 0 or more.`);
+        }
+        capacity[spotType] = value;
+      });
+
+      return { lotId, capacity };
+    });
+  }
+}
+
+// Export the class and a singleton instance
+export { InventoryService };
+export const inventoryService = new InventoryService();
+export default inventoryService;
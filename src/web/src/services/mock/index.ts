@@ -0,0 +1,17 @@
+/**
+ * Barrel file for the mock module that exports the mock ParkHub API.
+ * Provides a single entry point for starting the in-browser fake of the ParkHub API
+ * used by training and QA builds.
+ * 
+ * @module services/mock
+ * @version 1.0.0
+ */
+
+import mockParkHubStore, { MockParkHubStore } from './mockParkHubStore';
+import { createMockHandlers } from './mockHandlers';
+import { startMockApi } from './mockApiWorker';
+import { isMockApiRunning } from './mockApiStatus';
+
+export { mockParkHubStore, MockParkHubStore, createMockHandlers, startMockApi, isMockApiRunning };
+
+export default startMockApi;
\ No newline at end of file
@@ -0,0 +1,24 @@
+/**
+ * Tracks whether the mock ParkHub API is answering requests. Kept apart from the mock
+ * API itself so the layout can show it without bundling the mock API into every build.
+ *
+ * @version 1.0.0
+ */
+
+let mockApiRunning = false;
+
+/**
+ * Checks whether the mock ParkHub API worker has started
+ *
+ * @returns True if requests are answered by the mock API
+ */
+export const isMockApiRunning = (): boolean => mockApiRunning;
+
+/**
+ * Records whether the mock ParkHub API worker has started
+ *
+ * @param running - Whether the mock API is answering requests
+ */
+export const setMockApiRunning = (running: boolean): void => {
+  mockApiRunning = running;
+};
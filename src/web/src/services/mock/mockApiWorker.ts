@@ -0,0 +1,38 @@
+/**
+ * Starts the in-browser mock ParkHub API. A Mock Service Worker intercepts requests to
+ * the ParkHub API and answers them from the mock store, so the rest of the app sends
+ * requests exactly as it does against the real API.
+ *
+ * @version 1.0.0
+ */
+
+import { setupWorker } from 'msw'; // ^1.2.1
+import { createMockHandlers } from './mockHandlers';
+import { mockParkHubStore } from './mockParkHubStore';
+import { setMockApiRunning } from './mockApiStatus';
+
+/**
+ * Path of the Mock Service Worker script, served from the public directory
+ */
+const MOCK_SERVICE_WORKER_URL = '/mockServiceWorker.js';
+
+/**
+ * Starts intercepting ParkHub API requests. Requests to other hosts, such as fonts,
+ * are passed through untouched.
+ *
+ * @returns Promise resolving once the worker is ready to answer requests
+ */
+export const startMockApi = async (): Promise<void> => {
+  const worker = setupWorker(...createMockHandlers(mockParkHubStore));
+
+  await worker.start({
+    serviceWorker: { url: MOCK_SERVICE_WORKER_URL },
+    onUnhandledRequest: 'bypass',
+    quiet: true
+  });
+
+  setMockApiRunning(true);
+  console.warn('Mock ParkHub API enabled: requests are answered in the browser and no real passes are created.');
+};
+
+export default startMockApi;
@@ -0,0 +1,93 @@
+/**
+ * Mock Service Worker handlers that answer ParkHub API requests from the mock ParkHub
+ * store. They follow the handlers used by the test suite, checking the Authorization
+ * header and validating requests the same way, but keep the passes they create.
+ *
+ * @version 1.0.0
+ */
+
+import { rest, RestRequest, ResponseComposition, RestContext } from 'msw'; // ^1.2.1
+import { ENDPOINTS, getApiBaseUrl } from '../../constants/apiEndpoints';
+import { ErrorCode } from '../../types/error.types';
+import { MockApiReply } from '../../types/mock.types';
+import { MockParkHubStore } from './mockParkHubStore';
+
+/**
+ * Turns an endpoint path into a route pattern, with its placeholders as route parameters
+ * @param endpoint - Endpoint path with {placeholder} segments
+ * @returns Full route pattern for the endpoint
+ */
+const toRoute = (endpoint: string): string =>
+  `${getApiBaseUrl()}${endpoint.replace(/\{(\w+)\}/g, ':$1')}`;
+
+/**
+ * Sends a reply of the mock store
+ * @param res - Response composition function
+ * @param ctx - Response context
+ * @param reply - The store's reply
+ * @returns The mocked response
+ */
+const send = <T>(res: ResponseComposition, ctx: RestContext, reply: MockApiReply<T>) =>
+  res(ctx.status(reply.status), ctx.json(reply.body));
+
+/**
+ * Checks that a request carries an API key, as the real API requires one
+ * @param req - The request
+ * @returns True if the request has a Bearer Authorization header
+ */
+const isAuthenticated = (req: RestRequest): boolean =>
+  (req.headers.get('Authorization') || '').startsWith('Bearer ');
+
+/**
+ * Reply sent to requests without an API key
+ */
+const UNAUTHENTICATED_REPLY: MockApiReply<never> = {
+  status: 401,
+  body: {
+    success: false,
+    data: null,
+    error: { code: ErrorCode.INVALID_API_KEY, message: 'Invalid or missing API key' }
+  }
+};
+
+/**
+ * Creates the handlers answering ParkHub API requests from a mock store
+ * @param store - The mock store holding the events and passes
+ * @returns Handlers for every ParkHub API endpoint the app uses
+ */
+export const createMockHandlers = (store: MockParkHubStore) => [
+  // Events of a venue, also requested to verify the API key
+  rest.get(toRoute(ENDPOINTS.EVENTS), (req, res, ctx) =>
+    isAuthenticated(req)
+      ? send(res, ctx, store.getEvents(req.url.searchParams.get('dateFrom')))
+      : send(res, ctx, UNAUTHENTICATED_REPLY)
+  ),
+
+  // Passes of an event
+  rest.get(toRoute(ENDPOINTS.PASSES), (req, res, ctx) =>
+    isAuthenticated(req)
+      ? send(res, ctx, store.getPasses(req.url.searchParams.get('eventId')))
+      : send(res, ctx, UNAUTHENTICATED_REPLY)
+  ),
+
+  // Pass creation
+  rest.post(toRoute(ENDPOINTS.CREATE_PASS), async (req, res, ctx) =>
+    isAuthenticated(req)
+      ? send(res, ctx, store.createPass(await req.json()))
+      : send(res, ctx, UNAUTHENTICATED_REPLY)
+  ),
+
+  // Pass update
+  rest.put(toRoute(ENDPOINTS.PASS), async (req, res, ctx) =>
+    isAuthenticated(req)
+      ? send(res, ctx, store.updatePass(String(req.params.passId), await req.json()))
+      : send(res, ctx, UNAUTHENTICATED_REPLY)
+  ),
+
+  // Pass cancellation
+  rest.delete(toRoute(ENDPOINTS.PASS), (req, res, ctx) =>
+    isAuthenticated(req)
+      ? send(res, ctx, store.cancelPass(String(req.params.passId)))
+      : send(res, ctx, UNAUTHENTICATED_REPLY)
+  )
+];
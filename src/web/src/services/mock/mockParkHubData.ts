@@ -0,0 +1,101 @@
+/**
+ * Seed data for the mock ParkHub API, matching the fixtures used by the test suite so
+ * training material and tests refer to the same events, customers and barcodes.
+ * Events are dated relative to the current day so there are always upcoming events to
+ * create passes for.
+ *
+ * @version 1.0.0
+ */
+
+import { ParkHubEvent, ParkHubPass } from '../../types/api.types';
+
+/**
+ * Events offered by the mock API, with the number of days from today each takes place
+ * and its start time
+ */
+const SEED_EVENTS = [
+  { id: 'EV12345', name: 'Football vs. Rivals', venue: 'Stadium1', daysFromToday: 3, hour: 19, minute: 0 },
+  { id: 'EV12346', name: 'Concert: Rock Band', venue: 'Stadium1', daysFromToday: 10, hour: 20, minute: 0 },
+  { id: 'EV12347', name: 'Basketball Tournament', venue: 'Arena2', daysFromToday: 21, hour: 18, minute: 30 },
+  { id: 'EV12348', name: 'Baseball Championship', venue: 'Field3', daysFromToday: 28, hour: 13, minute: 0 },
+  { id: 'EV12349', name: 'Soccer Match', venue: 'Stadium1', daysFromToday: 34, hour: 15, minute: 0 }
+];
+
+/**
+ * Passes the mock API holds before any are created
+ */
+export const SEED_PASSES: ParkHubPass[] = [
+  {
+    id: 'P98765',
+    eventId: 'EV12345',
+    accountId: 'ABC123',
+    barcode: 'BC100001',
+    customerName: 'John Smith',
+    spotType: 'VIP',
+    lotId: 'LOT-A',
+    createdAt: '2023-09-01T14:30:00.000Z',
+    status: 'active'
+  },
+  {
+    id: 'P98766',
+    eventId: 'EV12345',
+    accountId: 'ABC123',
+    barcode: 'BC100002',
+    customerName: 'Jane Doe',
+    spotType: 'Regular',
+    lotId: 'LOT-B',
+    createdAt: '2023-09-02T09:15:00.000Z',
+    status: 'active'
+  },
+  {
+    id: 'P98767',
+    eventId: 'EV12345',
+    accountId: 'ABC123',
+    barcode: 'BC100003',
+    customerName: 'Bob Johnson',
+    spotType: 'Premium',
+    lotId: 'LOT-A',
+    createdAt: '2023-09-03T11:45:00.000Z',
+    status: 'active'
+  },
+  {
+    id: 'P98768',
+    eventId: 'EV12346',
+    accountId: 'ABC123',
+    barcode: 'BC100004',
+    customerName: 'Alice Williams',
+    spotType: 'Regular',
+    lotId: 'LOT-C',
+    createdAt: '2023-09-05T16:20:00.000Z',
+    status: 'active'
+  },
+  {
+    id: 'P98769',
+    eventId: 'EV12346',
+    accountId: 'ABC123',
+    barcode: 'BC100005',
+    customerName: 'David Brown',
+    spotType: 'VIP',
+    lotId: 'LOT-B',
+    createdAt: '2023-09-06T10:00:00.000Z',
+    status: 'active'
+  }
+];
+
+/**
+ * Creates the events offered by the mock API
+ * @param now - The current time, which the event dates are relative to
+ * @returns The events, soonest first
+ */
+export const createSeedEvents = (now: Date = new Date()): ParkHubEvent[] =>
+  SEED_EVENTS.map(({ id, name, venue, daysFromToday, hour, minute }) => {
+    const date = new Date(now.getFullYear(), now.getMonth(), now.getDate() + daysFromToday, hour, minute);
+
+    return {
+      id,
+      name,
+      date: date.toISOString(),
+      venue,
+      status: 'active'
+    };
+  });
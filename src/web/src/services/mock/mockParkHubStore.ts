@@ -0,0 +1,230 @@
+/**
+ * Stateful fake of the ParkHub API used by the mock API mode. It answers the same
+ * requests as the real API, keeps the passes it creates in browser storage so they are
+ * still there after a reload, and rejects requests the real API would reject, such as a
+ * pass with a barcode that is already taken.
+ *
+ * @version 1.0.0
+ */
+
+import {
+  CreatePassRequest,
+  CreatePassResponse,
+  ParkHubEvent,
+  ParkHubPass,
+  UpdatePassRequest,
+  UpdatePassResponse
+} from '../../types/api.types';
+import { ApiResponse } from '../../types/common.types';
+import { ErrorCode } from '../../types/error.types';
+import { PassStatus } from '../../types/pass.types';
+import { MockApiReply } from '../../types/mock.types';
+import { getMockApiState, saveMockApiState, clearMockApiState } from '../storage/mockApiStorage';
+import { createSeedEvents, SEED_PASSES } from './mockParkHubData';
+
+/**
+ * Fields every pass creation request must contain
+ */
+const REQUIRED_PASS_FIELDS: Array<keyof CreatePassRequest> = ['eventId', 'accountId', 'barcode', 'customerName', 'spotType', 'lotId'];
+
+/**
+ * Fields a pass update request may change
+ */
+const UPDATABLE_PASS_FIELDS: Array<keyof UpdatePassRequest> = ['accountId', 'customerName', 'spotType', 'lotId', 'status'];
+
+/**
+ * Builds a successful reply
+ * @param status - HTTP status of the reply
+ * @param data - Data of the reply
+ * @returns The reply
+ */
+const success = <T>(status: number, data: T): MockApiReply<T> => ({
+  status,
+  body: { success: true, data, error: null }
+});
+
+/**
+ * Builds an error reply
+ * @param status - HTTP status of the reply
+ * @param code - Error code
+ * @param message - Error message
+ * @param field - Optional request field the error relates to
+ * @returns The reply
+ */
+const failure = <T>(status: number, code: string, message: string, field?: string): MockApiReply<T> => ({
+  status,
+  body: {
+    success: false,
+    data: null,
+    error: { code, message, ...(field && { field }) }
+  } as ApiResponse<T>
+});
+
+/**
+ * In-memory ParkHub API backed by browser storage.
+ * Every venue sees the same events and passes.
+ */
+class MockParkHubStore {
+  private events: ParkHubEvent[];
+
+  /**
+   * Creates the store with events dated relative to the given time
+   * @param now - The current time
+   */
+  constructor(now: Date = new Date()) {
+    this.events = createSeedEvents(now);
+  }
+
+  /**
+   * Retrieves the events, optionally only those from a date onwards
+   * @param dateFrom - Optional date (ISO string or YYYY-MM-DD) the events must not be before
+   * @returns The events, soonest first
+   */
+  public getEvents(dateFrom?: string | null): MockApiReply<ParkHubEvent[]> {
+    const from = dateFrom ? new Date(dateFrom) : null;
+    const events = from && !isNaN(from.getTime())
+      ? this.events.filter(event => new Date(event.date) >= from)
+      : this.events;
+
+    return success(200, events);
+  }
+
+  /**
+   * Retrieves the passes of an event
+   * @param eventId - ID of the event
+   * @returns The event's passes, or a validation error if no event ID was given
+   */
+  public getPasses(eventId?: string | null): MockApiReply<ParkHubPass[]> {
+    if (!eventId) {
+      return failure(400, ErrorCode.INVALID_INPUT, 'Event ID is required', 'eventId');
+    }
+
+    return success(200, this.getAllPasses().filter(pass => pass.eventId === eventId));
+  }
+
+  /**
+   * Creates a pass, rejecting it if a field is missing, the event doesn't exist
+   * or its barcode is already taken
+   * @param data - Pass creation request
+   * @returns The ID of the created pass, or the reason it was rejected
+   */
+  public createPass(data: Partial<CreatePassRequest>): MockApiReply<CreatePassResponse> {
+    const missingField = REQUIRED_PASS_FIELDS.find(field => !data?.[field] || String(data[field]).trim() === '');
+    if (missingField) {
+      return failure(400, ErrorCode.INVALID_INPUT, `${missingField} is required`, missingField);
+    }
+
+    const request = data as CreatePassRequest;
+
+    if (!this.events.some(event => event.id === request.eventId)) {
+      return failure(404, ErrorCode.EVENT_NOT_FOUND, `Event ${request.eventId} was not found`, 'eventId');
+    }
+
+    const passes = this.getAllPasses();
+    if (passes.some(pass => pass.barcode === request.barcode)) {
+      return failure(409, ErrorCode.DUPLICATE_BARCODE, `Barcode ${request.barcode} already exists`, 'barcode');
+    }
+
+    const pass: ParkHubPass = {
+      id: this.nextPassId(passes),
+      eventId: request.eventId,
+      accountId: request.accountId,
+      barcode: request.barcode,
+      customerName: request.customerName,
+      spotType: request.spotType,
+      lotId: request.lotId,
+      createdAt: new Date().toISOString(),
+      status: PassStatus.ACTIVE
+    };
+
+    this.savePasses([...passes, pass]);
+
+    return success(201, { success: true, passId: pass.id });
+  }
+
+  /**
+   * Changes the given fields of a pass
+   * @param passId - ID of the pass
+   * @param data - Fields to change
+   * @returns The pass's ID and status, or the reason the update was rejected
+   */
+  public updatePass(passId: string, data: UpdatePassRequest): MockApiReply<UpdatePassResponse> {
+    const passes = this.getAllPasses();
+    const existing = passes.find(pass => pass.id === passId);
+
+    if (!existing) {
+      return failure(404, ErrorCode.INVALID_INPUT, `Pass ${passId} was not found`, 'passId');
+    }
+
+    const changes = UPDATABLE_PASS_FIELDS.reduce<UpdatePassRequest>((result, field) => {
+      const value = data?.[field];
+      return typeof value === 'string' && value.trim() !== '' ? { ...result, [field]: value } : result;
+    }, {});
+
+    if (Object.keys(changes).length === 0) {
+      return failure(400, ErrorCode.INVALID_INPUT, 'At least one field is required to update a pass');
+    }
+
+    if (changes.status && !Object.values(PassStatus).includes(changes.status as PassStatus)) {
+      return failure(400, ErrorCode.INVALID_INPUT, `${changes.status} is not a valid pass status`, 'status');
+    }
+
+    const updated = { ...existing, ...changes };
+    this.savePasses(passes.map(pass => (pass.id === passId ? updated : pass)));
+
+    return success(200, { success: true, passId, status: updated.status });
+  }
+
+  /**
+   * Cancels a pass, keeping it with a cancelled status
+   * @param passId - ID of the pass
+   * @returns The pass's ID and status, or an error if the pass doesn't exist
+   */
+  public cancelPass(passId: string): MockApiReply<UpdatePassResponse> {
+    return this.updatePass(passId, { status: PassStatus.CANCELLED });
+  }
+
+  /**
+   * Discards every created and changed pass, going back to the seed data
+   */
+  public reset(): void {
+    clearMockApiState();
+  }
+
+  /**
+   * Retrieves every pass held by the store
+   * @returns The stored passes, or the seed passes if none have been stored
+   */
+  private getAllPasses(): ParkHubPass[] {
+    return getMockApiState()?.passes || SEED_PASSES;
+  }
+
+  /**
+   * Stores every pass held by the store
+   * @param passes - The passes to store
+   */
+  private savePasses(passes: ParkHubPass[]): void {
+    if (!saveMockApiState({ passes })) {
+      throw new Error('The mock API could not save its passes.');
+    }
+  }
+
+  /**
+   * Picks the ID for a new pass, following on from the highest existing ID
+   * @param passes - The existing passes
+   * @returns The new pass ID
+   */
+  private nextPassId(passes: ParkHubPass[]): string {
+    const highest = passes.reduce((max, pass) => {
+      const number = parseInt(pass.id.replace(/^P/, ''), 10);
+      return isNaN(number) ? max : Math.max(max, number);
+    }, 0);
+
+    return `P${highest + 1}`;
+  }
+}
+
+// Export the class and a singleton instance
+export { MockParkHubStore };
+export const mockParkHubStore = new MockParkHubStore();
+export default mockParkHubStore;
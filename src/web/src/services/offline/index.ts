@@ -0,0 +1,25 @@
+/**
+ * Barrel file for the offline module that exports the offline queue service and
+ * service worker registration.
+ * Provides a single entry point for creating passes while offline.
+ * 
+ * @module services/offline
+ * @version 1.0.0
+ */
+
+import offlineQueueService, { OfflineQueueService } from './offlineQueueService';
+import {
+  registerServiceWorker,
+  setServiceWorkerApiBaseUrl,
+  clearServiceWorkerApiData
+} from './serviceWorkerRegistration';
+
+export {
+  offlineQueueService,
+  OfflineQueueService,
+  registerServiceWorker,
+  setServiceWorkerApiBaseUrl,
+  clearServiceWorkerApiData
+};
+
+export default offlineQueueService;
\ No newline at end of file
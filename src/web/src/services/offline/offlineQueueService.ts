@@ -0,0 +1,228 @@
+import { v4 as uuidv4 } from 'uuid'; // ^9.0.0
+
+import { passesApi } from '../api/passesApi';
+import { getSelectedLandmarkId } from '../storage/landmarkStorage';
+import { getQueuedPasses, saveQueuedPass, removeQueuedPass } from '../storage/offlineQueueStorage';
+import { CreatePassRequest } from '../../types/api.types';
+import { ApiError, ApiResponse } from '../../types/common.types';
+import { ErrorCode } from '../../types/error.types';
+import {
+  QueuedPass,
+  QueuedPassStatus,
+  OfflineSyncResult,
+  OfflineQueueListener
+} from '../../types/offline.types';
+
+/**
+ * Error codes meaning a request never reached the API, so the pass stays queued
+ */
+const CONNECTION_ERROR_CODES: string[] = [ErrorCode.CONNECTION_ERROR, ErrorCode.TIMEOUT];
+
+/**
+ * Service for creating passes while offline. Pass creation requests are queued in
+ * IndexedDB and sent when the connection is restored. Each queued pass is sent with
+ * its queue ID as the idempotency key, so a pass is never created twice however often
+ * syncing is interrupted. Passes the API rejects are kept as conflicts until the user
+ * retries or dismisses them.
+ */
+class OfflineQueueService {
+  private readonly listeners = new Set<OfflineQueueListener>();
+  private syncPromise: Promise<OfflineSyncResult> | null = null;
+
+  /**
+   * Checks whether the browser reports a network connection
+   * @returns True if the browser is online, false otherwise
+   */
+  public isOnline(): boolean {
+    return typeof navigator === 'undefined' || navigator.onLine !== false;
+  }
+
+  /**
+   * Queues a pass creation request to be sent once the connection is restored
+   * @param request - Pass creation request
+   * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
+   * @returns Promise resolving to the queued pass
+   * @throws Error if the pass can't be stored
+   */
+  public async queuePass(request: CreatePassRequest, landMarkId?: string): Promise<QueuedPass> {
+    const queuedPass: QueuedPass = {
+      id: uuidv4(),
+      request,
+      landMarkId: landMarkId || getSelectedLandmarkId(),
+      queuedAt: new Date().toISOString(),
+      status: QueuedPassStatus.QUEUED
+    };
+
+    if (!(await saveQueuedPass(queuedPass))) {
+      throw new Error('The pass could not be saved for sending later. Check your browser storage settings.');
+    }
+
+    await this.notify();
+    return queuedPass;
+  }
+
+  /**
+   * Retrieves every queued pass, including conflicts
+   * @returns Promise resolving to the queued passes, oldest first
+   */
+  public async getQueue(): Promise<QueuedPass[]> {
+    return getQueuedPasses();
+  }
+
+  /**
+   * Sends the queued passes, oldest first. Only one sync runs at a time; calling this
+   * while a sync is running returns that sync's result.
+   * @returns Promise resolving to the outcome of the sync
+   */
+  public sync(): Promise<OfflineSyncResult> {
+    if (!this.syncPromise) {
+      this.syncPromise = this.runSync().finally(() => {
+        this.syncPromise = null;
+      });
+    }
+
+    return this.syncPromise;
+  }
+
+  /**
+   * Whether queued passes are being sent
+   */
+  public get isSyncing(): boolean {
+    return this.syncPromise !== null;
+  }
+
+  /**
+   * Queues a conflicting pass again and sends it
+   * @param id - ID of the queued pass
+   * @returns Promise resolving to the outcome of the sync
+   */
+  public async retryConflict(id: string): Promise<OfflineSyncResult> {
+    const queuedPass = (await getQueuedPasses()).find(item => item.id === id);
+
+    if (queuedPass) {
+      await saveQueuedPass({ ...queuedPass, status: QueuedPassStatus.QUEUED, error: undefined });
+      await this.notify();
+    }
+
+    return this.sync();
+  }
+
+  /**
+   * Removes a conflicting pass without creating it
+   * @param id - ID of the queued pass
+   * @returns Promise resolving to true if the pass was removed, false otherwise
+   */
+  public async dismissConflict(id: string): Promise<boolean> {
+    const removed = await removeQueuedPass(id);
+    await this.notify();
+    return removed;
+  }
+
+  /**
+   * Registers a callback notified whenever the queue changes
+   * @param listener - Callback receiving the queue
+   * @returns Function that removes the callback
+   */
+  public subscribe(listener: OfflineQueueListener): () => void {
+    this.listeners.add(listener);
+    getQueuedPasses().then(queue => {
+      if (this.listeners.has(listener)) {
+        listener(queue);
+      }
+    });
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Sends each waiting pass, stopping as soon as the connection is lost again
+   * @returns Promise resolving to the outcome of the sync
+   */
+  private async runSync(): Promise<OfflineSyncResult> {
+    const result: OfflineSyncResult = { synced: 0, conflicts: [], remaining: 0 };
+
+    // Passes left syncing by a closed tab are sent again; their idempotency key prevents duplicates
+    const waiting = (await getQueuedPasses()).filter(item => item.status !== QueuedPassStatus.CONFLICT);
+
+    for (let i = 0; i < waiting.length; i++) {
+      if (!this.isOnline()) {
+        result.remaining = waiting.length - i;
+        break;
+      }
+
+      const queuedPass: QueuedPass = { ...waiting[i], status: QueuedPassStatus.SYNCING };
+      await saveQueuedPass(queuedPass);
+      await this.notify();
+
+      const outcome = await this.sendPass(queuedPass);
+
+      if (outcome === 'connection_lost') {
+        await saveQueuedPass({ ...queuedPass, status: QueuedPassStatus.QUEUED });
+        await this.notify();
+        result.remaining = waiting.length - i;
+        break;
+      }
+
+      if (outcome === null) {
+        await removeQueuedPass(queuedPass.id);
+        result.synced++;
+      } else {
+        const conflict: QueuedPass = { ...queuedPass, status: QueuedPassStatus.CONFLICT, error: outcome };
+        await saveQueuedPass(conflict);
+        result.conflicts.push(conflict);
+      }
+
+      await this.notify();
+    }
+
+    return result;
+  }
+
+  /**
+   * Sends a queued pass to the API
+   * @param queuedPass - The queued pass
+   * @returns Null if the pass was created, the API error if it was rejected, or
+   * 'connection_lost' if the request never reached the API
+   */
+  private async sendPass(queuedPass: QueuedPass): Promise<ApiError | 'connection_lost' | null> {
+    try {
+      const response = await passesApi.createPass(queuedPass.request, queuedPass.landMarkId, queuedPass.id);
+
+      if (response.success && response.data?.passId) {
+        return null;
+      }
+
+      return response.error || { code: 'unknown_error', message: 'Unknown error occurred during pass creation' };
+    } catch (error) {
+      const apiError = (error as ApiResponse<never>)?.error;
+
+      if (!this.isOnline() || (apiError && CONNECTION_ERROR_CODES.includes(apiError.code))) {
+        return 'connection_lost';
+      }
+
+      return apiError || {
+        code: 'unknown_error',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred'
+      };
+    }
+  }
+
+  /**
+   * Notifies every listener with the current queue
+   */
+  private async notify(): Promise<void> {
+    if (this.listeners.size === 0) {
+      return;
+    }
+
+    const queue = await getQueuedPasses();
+    this.listeners.forEach(listener => listener(queue));
+  }
+}
+
+// Export the class and a singleton instance
+export { OfflineQueueService };
+export const offlineQueueService = new OfflineQueueService();
+export default offlineQueueService;
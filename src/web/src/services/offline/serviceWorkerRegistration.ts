@@ -0,0 +1,77 @@
+/**
+ * Registers the service worker that serves the app shell and the last fetched events
+ * and passes while offline. The worker is only registered in production builds, where
+ * the app shell is served from static files the worker can cache. The app sends the
+ * worker its API address and tells it when the cached listings must be cleared.
+ *
+ * @version 1.0.0
+ */
+
+/**
+ * Path of the service worker script, served from the public directory
+ */
+const SERVICE_WORKER_URL = '/service-worker.js';
+
+/**
+ * Registers the offline service worker once the page has loaded
+ *
+ * @returns Promise resolving to the registration, or null if service workers are unavailable
+ * or the app is not a production build
+ */
+export const registerServiceWorker = (): Promise<ServiceWorkerRegistration | null> => {
+  if (process.env.NODE_ENV !== 'production' || typeof navigator === 'undefined' || !('serviceWorker' in navigator)) {
+    return Promise.resolve(null);
+  }
+
+  return new Promise(resolve => {
+    const register = () => {
+      navigator.serviceWorker
+        .register(SERVICE_WORKER_URL)
+        .then(resolve)
+        .catch(error => {
+          console.error('Error registering the offline service worker:', error);
+          resolve(null);
+        });
+    };
+
+    if (document.readyState === 'complete') {
+      register();
+    } else {
+      window.addEventListener('load', register, { once: true });
+    }
+  });
+};
+
+/**
+ * Sends a message to the active service worker, if there is one
+ *
+ * @param message - The message for the worker
+ */
+const postToServiceWorker = (message: { type: string; [key: string]: unknown }): void => {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) {
+    return;
+  }
+
+  navigator.serviceWorker.ready
+    .then(registration => registration.active?.postMessage(message))
+    .catch(error => console.error('Error sending a message to the offline service worker:', error));
+};
+
+/**
+ * Tells the service worker which API address the event and pass listings it caches come from
+ *
+ * @param apiBaseUrl - The configured API base URL
+ */
+export const setServiceWorkerApiBaseUrl = (apiBaseUrl: string): void => {
+  postToServiceWorker({ type: 'SET_API_BASE_URL', apiBaseUrl });
+};
+
+/**
+ * Removes the event and pass listings cached by the service worker, so they aren't shown
+ * once another profile or API key is used
+ */
+export const clearServiceWorkerApiData = (): void => {
+  postToServiceWorker({ type: 'CLEAR_API_DATA' });
+};
+
+export default registerServiceWorker;
@@ -0,0 +1,14 @@
+/**
+ * Barrel file for the profiles module that exports the API key profile service.
+ * Provides a single entry point for adding, editing and deleting API key profiles
+ * and switching between them.
+ * 
+ * @module services/profiles
+ * @version 1.0.0
+ */
+
+import profileService, { ProfileService, MAX_PROFILE_NAME_LENGTH } from './profileService';
+
+export { profileService, ProfileService, MAX_PROFILE_NAME_LENGTH };
+
+export default profileService;
\ No newline at end of file
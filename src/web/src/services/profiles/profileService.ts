@@ -0,0 +1,228 @@
+/**
+ * Service that manages the API key profiles and switches between them. Each profile has
+ * its own API key, venues and API address; switching locks the previous profile's API
+ * key vault, stops sending its key and applies the new profile's settings, while data
+ * cached with one profile stays separate from the others.
+ *
+ * @version 1.0.0
+ */
+
+import { v4 as uuidv4 } from 'uuid'; // ^9.0.0
+import { ApiKeyProfile, ApiKeyProfileInput, ProfileListener } from '../../types/profile.types';
+import { ConfigSource } from '../../types/config.types';
+import {
+  DEFAULT_PROFILE_ID,
+  getProfiles,
+  saveProfile,
+  removeProfile,
+  getActiveProfile,
+  setActiveProfileId
+} from '../storage/profileStorage';
+import { validateLandmarkId } from '../storage/landmarkStorage';
+import { clearProfileCache } from '../storage/cacheStorage';
+import { removeProfileQueue } from '../storage/offlineQueueStorage';
+import { parseConfigLayer, PROFILE_CONFIG_KEYS } from '../config/appConfigSchema';
+import { appConfigService } from '../config/appConfigService';
+import { apiClient } from '../api/apiClient';
+import { apiKeyVault } from '../vault/apiKeyVault';
+import { passSearchService } from '../search/passSearchService';
+import { batchJobService } from '../batch/batchJobService';
+import { offlineQueueService } from '../offline/offlineQueueService';
+import { clearServiceWorkerApiData } from '../offline/serviceWorkerRegistration';
+
+/**
+ * Longest name accepted for a profile
+ */
+export const MAX_PROFILE_NAME_LENGTH = 40;
+
+/**
+ * Service that keeps the API key profiles and tells listeners which one is in use
+ */
+class ProfileService {
+  private listeners: Set<ProfileListener> = new Set();
+
+  /**
+   * Gets every profile
+   * @returns The profiles, with the default profile first
+   */
+  public getProfiles(): ApiKeyProfile[] {
+    return getProfiles();
+  }
+
+  /**
+   * Gets the profile in use
+   * @returns The active profile
+   */
+  public getActiveProfile(): ApiKeyProfile {
+    return getActiveProfile();
+  }
+
+  /**
+   * Adds a profile. It has no API key until one is entered while it is in use.
+   * @param input - The name, venue and API address of the profile
+   * @returns The new profile
+   * @throws Error if a detail is invalid or the profile can't be saved
+   */
+  public createProfile(input: ApiKeyProfileInput): ApiKeyProfile {
+    const profile = { id: uuidv4(), ...this.normalize(input) };
+
+    if (!saveProfile(profile)) {
+      throw new Error('The profile could not be saved.');
+    }
+
+    this.notify();
+    return profile;
+  }
+
+  /**
+   * Changes the name, venue or API address of a profile, applying them if the profile is in use
+   * @param profileId - The ID of the profile
+   * @param input - The new details of the profile
+   * @returns The changed profile
+   * @throws Error if the profile doesn't exist, a detail is invalid or the profile can't be saved
+   */
+  public updateProfile(profileId: string, input: ApiKeyProfileInput): ApiKeyProfile {
+    if (!getProfiles().some(profile => profile.id === profileId)) {
+      throw new Error('The profile no longer exists.');
+    }
+
+    const profile = { id: profileId, ...this.normalize(input, profileId) };
+    if (!saveProfile(profile)) {
+      throw new Error('The profile could not be saved.');
+    }
+
+    if (getActiveProfile().id === profileId) {
+      appConfigService.reload();
+    }
+
+    this.notify();
+    return profile;
+  }
+
+  /**
+   * Deletes a profile with its API key, venues, scheduled batches, queued passes and cached
+   * data. If the profile is in use, the default profile is used instead.
+   * @param profileId - The ID of the profile
+   * @throws Error if the profile is the default profile or can't be deleted
+   */
+  public async deleteProfile(profileId: string): Promise<void> {
+    if (profileId === DEFAULT_PROFILE_ID) {
+      throw new Error('The default profile can\'t be deleted.');
+    }
+
+    if (getActiveProfile().id === profileId) {
+      this.switchProfile(DEFAULT_PROFILE_ID);
+    }
+
+    if (!removeProfile(profileId)) {
+      throw new Error('The profile could not be deleted.');
+    }
+
+    clearProfileCache(profileId);
+    clearServiceWorkerApiData();
+    await removeProfileQueue(profileId);
+    this.notify();
+  }
+
+  /**
+   * Starts using another profile. The previous profile's API key is locked and no longer
+   * sent, and the new profile's API address and venue are applied.
+   * @param profileId - The ID of the profile to use
+   * @returns The profile now in use
+   * @throws Error if passes are being created or the profile doesn't exist
+   */
+  public switchProfile(profileId: string): ApiKeyProfile {
+    if (getActiveProfile().id === profileId) {
+      return getActiveProfile();
+    }
+
+    // Requests still to be sent would otherwise go out with the new profile's key
+    if (batchJobService.isRunning || offlineQueueService.isSyncing) {
+      throw new Error('Wait for the passes being created to finish before switching profiles.');
+    }
+
+    // Forget the previous profile's key before the storage keys change
+    apiKeyVault.lock();
+    apiClient.clearApiKey();
+
+    if (!setActiveProfileId(profileId)) {
+      throw new Error('The profile no longer exists.');
+    }
+
+    // The search index lives in memory and, like the service worker's cached listings,
+    // may hold passes of a venue with the same ID
+    passSearchService.clear();
+    clearServiceWorkerApiData();
+    appConfigService.reload();
+
+    this.notify();
+    return getActiveProfile();
+  }
+
+  /**
+   * Subscribes to changes of the profiles and the profile in use
+   * @param listener - Called with the active profile and every profile now and whenever they change
+   * @returns Function that unsubscribes the listener
+   */
+  public subscribe(listener: ProfileListener): () => void {
+    this.listeners.add(listener);
+    listener(getActiveProfile(), getProfiles());
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Checks and tidies the details of a profile
+   * @param input - The details given
+   * @param profileId - The ID of the profile being changed, if any
+   * @returns The details to store, leaving out an empty venue and API address
+   * @throws Error if a detail is invalid
+   */
+  private normalize(input: ApiKeyProfileInput, profileId?: string): ApiKeyProfileInput {
+    const name = (input.name || '').trim();
+    const landMarkId = (input.landMarkId || '').trim();
+    const baseUrl = (input.baseUrl || '').trim();
+
+    if (!name) {
+      throw new Error('Enter a name for the profile.');
+    }
+    if (name.length > MAX_PROFILE_NAME_LENGTH) {
+      throw new Error(`The profile name must be at most ${MAX_PROFILE_NAME_LENGTH} characters.`);
+    }
+    if (getProfiles().some(profile => profile.id !== profileId && profile.name.toLowerCase() === name.toLowerCase())) {
+      throw new Error(`A profile named "${name}" already exists.`);
+    }
+    if (landMarkId && !validateLandmarkId(landMarkId)) {
+      throw new Error('The venue ID may only contain letters, numbers and dashes.');
+    }
+
+    if (baseUrl) {
+      const [issue] = parseConfigLayer({ apiBaseUrl: baseUrl }, ConfigSource.PROFILE, PROFILE_CONFIG_KEYS).issues;
+      if (issue) {
+        throw new Error(`API base URL: ${issue.message}.`);
+      }
+    }
+
+    return {
+      name,
+      ...(landMarkId ? { landMarkId } : {}),
+      ...(baseUrl ? { baseUrl } : {})
+    };
+  }
+
+  /**
+   * Tells the listeners the active profile and every profile
+   */
+  private notify(): void {
+    const activeProfile = getActiveProfile();
+    const profiles = getProfiles();
+    this.listeners.forEach(listener => listener(activeProfile, profiles));
+  }
+}
+
+// Export the class and a singleton instance
+export { ProfileService };
+export const profileService = new ProfileService();
+export default profileService;
@@ -0,0 +1,13 @@
+/**
+ * Barrel file for the render module that exports the pass rendering service.
+ * Provides a single entry point for rendering scannable passes as PDF sheets and PNG images.
+ * 
+ * @module services/render
+ * @version 1.0.0
+ */
+
+import passRenderService, { PassRenderService, PASS_WIDTH, PASS_HEIGHT } from './passRenderService';
+
+export { passRenderService, PassRenderService, PASS_WIDTH, PASS_HEIGHT };
+
+export default passRenderService;
\ No newline at end of file
@@ -0,0 +1,383 @@
+import JsBarcode from 'jsbarcode'; // ^3.12.3
+import QRCode from 'qrcode'; // ^1.5.4
+import { jsPDF } from 'jspdf'; // ^2.5.2
+import JSZip from 'jszip'; // ^3.10.2
+
+import { Pass } from '../../types/pass.types';
+import { Event } from '../../types/event.types';
+import {
+  PassRenderFormat,
+  PassRenderData,
+  PassDrawCommand,
+  PassRenderOptions
+} from '../../types/render.types';
+import { SPOT_TYPE_LABELS } from '../../constants/spotTypes';
+import { formatDateTime, formatDate } from '../../utils/date-helpers';
+import { downloadBlob, sanitizeFileName } from '../../utils/download-helpers';
+
+/**
+ * Size of a rendered pass in points (3.5" x 2.25")
+ */
+export const PASS_WIDTH = 252;
+export const PASS_HEIGHT = 162;
+
+/**
+ * Inner margin of a pass in points
+ */
+const PASS_PADDING = 12;
+
+/**
+ * Size and position of the QR code in points
+ */
+const QR_SIZE = 66;
+const QR_TOP = 42;
+
+/**
+ * Position and height of the Code128 bars in points
+ */
+const CODE128_TOP = 112;
+const CODE128_HEIGHT = 30;
+
+/**
+ * Quiet zone on each side of the Code128 bars, in modules
+ */
+const CODE128_QUIET_MODULES = 10;
+
+/**
+ * Quiet zone around the QR code, in modules
+ */
+const QR_QUIET_MODULES = 2;
+
+/**
+ * Sheet layout for PDF output: US letter with passes in a 2 x 4 grid
+ */
+const SHEET_MARGIN = 36;
+const SHEET_GAP = 12;
+const SHEET_COLUMNS = 2;
+const SHEET_ROWS = 4;
+
+/**
+ * Pixels per point for PNG output, so images stay sharp when printed
+ */
+const PNG_SCALE = 3;
+
+/**
+ * Shortens text to fit a line of the pass
+ * @param text - Text to shorten
+ * @param maxLength - Maximum number of characters
+ * @returns The text, cut with an ellipsis if it is too long
+ */
+const truncate = (text: string, maxLength: number): string => {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 3).trimEnd()}...` : text;
+};
+
+/**
+ * Service for rendering passes as scannable Code128 and QR codes.
+ * Passes are laid out once as drawing commands, which are drawn either onto
+ * print-ready PDF sheets or onto a canvas for PNG images.
+ */
+class PassRenderService {
+  /**
+   * Collects the details printed on a pass
+   * @param pass - Pass to render
+   * @param event - Event used when the pass has no joined event
+   * @returns The details printed on the pass
+   */
+  public buildRenderData(pass: Pass, event?: Event | null): PassRenderData {
+    const passEvent = pass.event || (event && event.id === pass.eventId ? event : null);
+
+    return {
+      barcode: pass.barcode,
+      customerName: pass.customerName,
+      eventName: passEvent?.name || pass.eventId,
+      eventDate: passEvent ? formatDateTime(passEvent.date) : '',
+      lotId: pass.lotId,
+      spotType: SPOT_TYPE_LABELS[pass.spotType] || pass.spotType
+    };
+  }
+
+  /**
+   * Encodes a value as Code128
+   * @param value - Value to encode
+   * @returns Module pattern in which '1' is a bar and '0' is a space
+   * @throws Error if the value can't be encoded
+   */
+  public encodeCode128(value: string): string {
+    const target: { encodings?: Array<{ data: string }> } = {};
+    let valid = true;
+
+    JsBarcode(target, value, { format: 'CODE128', valid: result => { valid = result; } });
+
+    if (!valid || !target.encodings) {
+      throw new Error(`Barcode ${value} can't be encoded as Code128`);
+    }
+
+    return target.encodings.map(encoding => encoding.data).join('');
+  }
+
+  /**
+   * Encodes a value as a QR code
+   * @param value - Value to encode
+   * @returns Square grid of modules in which true is a dark module
+   */
+  public encodeQrCode(value: string): boolean[][] {
+    const { modules } = QRCode.create(value, { errorCorrectionLevel: 'M' });
+    const grid: boolean[][] = [];
+
+    for (let row = 0; row < modules.size; row++) {
+      grid.push([]);
+      for (let col = 0; col < modules.size; col++) {
+        grid[row].push(Boolean(modules.get(row, col)));
+      }
+    }
+
+    return grid;
+  }
+
+  /**
+   * Lays out a pass as drawing commands
+   * @param data - Details printed on the pass
+   * @returns Drawing commands in points relative to the pass's top-left corner
+   */
+  public layoutPass(data: PassRenderData): PassDrawCommand[] {
+    const commands: PassDrawCommand[] = [
+      { kind: 'rect', x: 0, y: 0, width: PASS_WIDTH, height: PASS_HEIGHT, fill: false },
+      { kind: 'text', x: PASS_PADDING, y: 22, text: truncate(data.eventName, 34), size: 12, bold: true },
+      { kind: 'text', x: PASS_PADDING, y: 35, text: data.eventDate, size: 9 },
+      { kind: 'text', x: PASS_PADDING, y: 54, text: truncate(`Name: ${data.customerName}`, 30), size: 9 },
+      { kind: 'text', x: PASS_PADDING, y: 67, text: truncate(`Lot: ${data.lotId}`, 30), size: 9, bold: true },
+      { kind: 'text', x: PASS_PADDING, y: 80, text: truncate(`Spot: ${data.spotType}`, 30), size: 9, bold: true }
+    ];
+
+    // QR code in the top-right corner
+    const qr = this.encodeQrCode(data.barcode);
+    const qrModule = QR_SIZE / (qr.length + QR_QUIET_MODULES * 2);
+    const qrLeft = PASS_WIDTH - PASS_PADDING - QR_SIZE + QR_QUIET_MODULES * qrModule;
+    const qrTop = QR_TOP + QR_QUIET_MODULES * qrModule;
+
+    qr.forEach((row, rowIndex) => {
+      // Merge runs of dark modules in a row into a single rectangle
+      let runStart = -1;
+      row.concat(false).forEach((dark, colIndex) => {
+        if (dark && runStart < 0) {
+          runStart = colIndex;
+        } else if (!dark && runStart >= 0) {
+          commands.push({
+            kind: 'rect',
+            x: qrLeft + runStart * qrModule,
+            y: qrTop + rowIndex * qrModule,
+            width: (colIndex - runStart) * qrModule,
+            height: qrModule,
+            fill: true
+          });
+          runStart = -1;
+        }
+      });
+    });
+
+    // Code128 bars across the bottom
+    const bars = this.encodeCode128(data.barcode);
+    const barsWidth = PASS_WIDTH - PASS_PADDING * 2;
+    const barModule = barsWidth / (bars.length + CODE128_QUIET_MODULES * 2);
+    const barsLeft = PASS_PADDING + CODE128_QUIET_MODULES * barModule;
+
+    bars.replace(/1+/g, (run, offset: number) => {
+      commands.push({
+        kind: 'rect',
+        x: barsLeft + offset * barModule,
+        y: CODE128_TOP,
+        width: run.length * barModule,
+        height: CODE128_HEIGHT,
+        fill: true
+      });
+      return run;
+    });
+
+    commands.push({
+      kind: 'text',
+      x: PASS_WIDTH / 2,
+      y: CODE128_TOP + CODE128_HEIGHT + 12,
+      text: data.barcode,
+      size: 9,
+      bold: true,
+      align: 'center'
+    });
+
+    return commands;
+  }
+
+  /**
+   * Generates print-ready PDF sheets with eight passes per US letter page
+   * @param passes - Passes to render
+   * @param event - Event used for passes without a joined event
+   * @returns PDF document contents
+   */
+  public toPdf(passes: Pass[], event?: Event | null): ArrayBuffer {
+    const doc = new jsPDF({ orientation: 'portrait', unit: 'pt', format: 'letter' });
+    const perPage = SHEET_COLUMNS * SHEET_ROWS;
+
+    passes.forEach((pass, index) => {
+      if (index > 0 && index % perPage === 0) {
+        doc.addPage();
+      }
+
+      const slot = index % perPage;
+      const left = SHEET_MARGIN + (slot % SHEET_COLUMNS) * (PASS_WIDTH + SHEET_GAP);
+      const top = SHEET_MARGIN + Math.floor(slot / SHEET_COLUMNS) * (PASS_HEIGHT + SHEET_GAP);
+
+      this.layoutPass(this.buildRenderData(pass, event)).forEach(command => {
+        if (command.kind === 'rect') {
+          if (command.fill) {
+            doc.setFillColor(0, 0, 0);
+            doc.rect(left + command.x, top + command.y, command.width, command.height, 'F');
+          } else {
+            doc.setDrawColor(200, 200, 200);
+            doc.setLineWidth(0.5);
+            doc.rect(left + command.x, top + command.y, command.width, command.height, 'S');
+          }
+        } else {
+          doc.setFont('helvetica', command.bold ? 'bold' : 'normal');
+          doc.setFontSize(command.size);
+          doc.text(command.text, left + command.x, top + command.y, { align: command.align || 'left' });
+        }
+      });
+    });
+
+    return doc.output('arraybuffer');
+  }
+
+  /**
+   * Draws a pass onto a new canvas
+   * @param data - Details printed on the pass
+   * @returns Canvas holding the rendered pass
+   * @throws Error if the browser doesn't support canvas rendering
+   */
+  public toCanvas(data: PassRenderData): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.width = PASS_WIDTH * PNG_SCALE;
+    canvas.height = PASS_HEIGHT * PNG_SCALE;
+
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Pass images are not supported in this browser.');
+    }
+
+    context.scale(PNG_SCALE, PNG_SCALE);
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, PASS_WIDTH, PASS_HEIGHT);
+
+    this.layoutPass(data).forEach(command => {
+      if (command.kind === 'rect') {
+        if (command.fill) {
+          context.fillStyle = '#000000';
+          context.fillRect(command.x, command.y, command.width, command.height);
+        } else {
+          context.strokeStyle = '#c8c8c8';
+          context.lineWidth = 0.5;
+          context.strokeRect(command.x, command.y, command.width, command.height);
+        }
+      } else {
+        context.fillStyle = '#000000';
+        context.font = `${command.bold ? 'bold ' : ''}${command.size}px Helvetica, Arial, sans-serif`;
+        context.textAlign = command.align || 'left';
+        context.fillText(command.text, command.x, command.y);
+      }
+    });
+
+    return canvas;
+  }
+
+  /**
+   * Renders a pass as a PNG data URL, for previews
+   * @param data - Details printed on the pass
+   * @returns PNG data URL
+   */
+  public toDataUrl(data: PassRenderData): string {
+    return this.toCanvas(data).toDataURL('image/png');
+  }
+
+  /**
+   * Renders a pass as a PNG image
+   * @param data - Details printed on the pass
+   * @returns Promise resolving to the PNG image
+   */
+  public toPng(data: PassRenderData): Promise<Blob> {
+    const canvas = this.toCanvas(data);
+
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(blob => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error('Failed to create the pass image.'));
+        }
+      }, 'image/png');
+    });
+  }
+
+  /**
+   * Builds the default file name for rendered passes
+   * @param passes - Passes being rendered
+   * @param event - Event the passes belong to
+   * @returns File name without extension
+   */
+  public getDefaultFileName(passes: Pass[], event?: Event | null): string {
+    if (passes.length === 1) {
+      return sanitizeFileName(`pass-${passes[0].barcode}`);
+    }
+
+    const parts = ['pass-sheets', event?.name || event?.id || '', formatDate(new Date(), 'YYYY-MM-DD')];
+    return sanitizeFileName(parts.filter(Boolean).join('-'));
+  }
+
+  /**
+   * Renders passes in the requested format and downloads the file.
+   * PDF output is a single file of sheets; PNG output is one image per pass, bundled
+   * into a zip file when there are several passes.
+   * @param passes - Passes to render, in print order
+   * @param options - Render options
+   * @returns Promise resolving once the file has been handed to the browser
+   * @throws Error if there are no passes to render
+   */
+  public async renderPasses(passes: Pass[], options: PassRenderOptions): Promise<void> {
+    if (passes.length === 0) {
+      throw new Error('There are no passes to print.');
+    }
+
+    const fileName = sanitizeFileName(options.fileName || this.getDefaultFileName(passes, options.event));
+
+    switch (options.format) {
+      case PassRenderFormat.PDF:
+        downloadBlob(
+          new Blob([this.toPdf(passes, options.event)], { type: 'application/pdf' }),
+          `${fileName}.pdf`
+        );
+        break;
+      case PassRenderFormat.PNG: {
+        if (passes.length === 1) {
+          downloadBlob(await this.toPng(this.buildRenderData(passes[0], options.event)), `${fileName}.png`);
+          break;
+        }
+
+        const bundle = new JSZip();
+        for (const pass of passes) {
+          bundle.file(
+            `${sanitizeFileName(`pass-${pass.barcode}`)}.png`,
+            await this.toPng(this.buildRenderData(pass, options.event))
+          );
+        }
+
+        const contents = await bundle.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+        downloadBlob(contents, `${fileName}.zip`);
+        break;
+      }
+      default:
+        throw new Error(`Unsupported render format: ${options.format}`);
+    }
+  }
+}
+
+// Export the class and a singleton instance
+export { PassRenderService };
+export const passRenderService = new PassRenderService();
+export default passRenderService;
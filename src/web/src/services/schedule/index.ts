@@ -0,0 +1,13 @@
+/**
+ * Barrel file for the schedule module that exports the pass schedule service.
+ * Provides a single entry point for scheduling passes to be issued before their event.
+ * 
+ * @module services/schedule
+ * @version 1.0.0
+ */
+
+import passScheduleService, { PassScheduleService } from './passScheduleService';
+
+export { passScheduleService, PassScheduleService };
+
+export default passScheduleService;
\ No newline at end of file
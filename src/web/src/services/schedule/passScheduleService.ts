@@ -0,0 +1,375 @@
+import { v4 as uuidv4 } from 'uuid'; // ^9.0.0
+
+import { batchJobService } from '../batch/batchJobService';
+import { offlineQueueService } from '../offline/offlineQueueService';
+import { passesApi } from '../api/passesApi';
+import { inventoryService } from '../inventory/inventoryService';
+import { getSelectedLandmarkId } from '../storage/landmarkStorage';
+import { clearPassesCache } from '../storage/cacheStorage';
+import { getLotConfiguration } from '../storage/lotConfigStorage';
+import {
+  getScheduledJobs,
+  getScheduledJob,
+  saveScheduledJob,
+  removeScheduledJob
+} from '../storage/scheduledJobStorage';
+import { CreatePassRequest } from '../../types/api.types';
+import { Event } from '../../types/event.types';
+import { OverbookingPolicy } from '../../types/inventory.types';
+import {
+  ScheduledJob,
+  ScheduledJobStatus,
+  ScheduleRunResult,
+  ScheduleListener
+} from '../../types/schedule.types';
+
+/**
+ * Number of milliseconds in an hour
+ */
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Service for issuing passes at a set time before their event. A scheduled batch is
+ * stored with its run time and run through a batch job once it is due, so a batch
+ * interrupted while running can be resumed like any other. Batches are only run while
+ * the app is open; batches that came due while it was closed are run when it is next
+ * opened, unless their event has already started. Lot capacity is checked again when a
+ * batch runs, as passes may have been issued since it was scheduled.
+ */
+class PassScheduleService {
+  private readonly listeners = new Set<ScheduleListener>();
+  private runPromise: Promise<ScheduleRunResult> | null = null;
+
+  /**
+   * IDs of batches being run in this tab
+   */
+  private readonly activeJobIds = new Set<string>();
+
+  /**
+   * When the app was opened, to tell batches that came due while it was closed apart
+   */
+  private readonly openedAt: number = Date.now();
+
+  /**
+   * Calculates when a batch runs
+   * @param eventDate - Date and time of the event
+   * @param hoursBeforeEvent - How many hours before the event the batch runs
+   * @returns The run time
+   */
+  public getRunAt(eventDate: Date | string, hoursBeforeEvent: number): Date {
+    return new Date(new Date(eventDate).getTime() - hoursBeforeEvent * HOUR_MS);
+  }
+
+  /**
+   * Schedules passes to be created a set time before their event
+   * @param event - The event the passes are for
+   * @param requests - Pass creation requests for the event
+   * @param hoursBeforeEvent - How many hours before the event the passes are created
+   * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
+   * @param now - Current time
+   * @returns The scheduled batch
+   * @throws Error if there are no passes, the number of hours is invalid or the run time has passed
+   */
+  public scheduleJob(
+    event: Event,
+    requests: CreatePassRequest[],
+    hoursBeforeEvent: number,
+    landMarkId: string = getSelectedLandmarkId(),
+    now: Date = new Date()
+  ): ScheduledJob {
+    if (!Array.isArray(requests) || requests.length === 0) {
+      throw new Error('At least one pass is required to schedule a batch.');
+    }
+
+    if (!Number.isFinite(hoursBeforeEvent) || hoursBeforeEvent < 0) {
+      throw new Error('Enter how many hours before the event the passes should be issued.');
+    }
+
+    const eventDate = new Date(event.date);
+    if (Number.isNaN(eventDate.getTime())) {
+      throw new Error('The event has no valid date to schedule against.');
+    }
+
+    const runAt = this.getRunAt(eventDate, hoursBeforeEvent);
+    if (runAt.getTime() <= now.getTime()) {
+      throw new Error('That time has already passed. Create the passes now instead.');
+    }
+
+    const job: ScheduledJob = {
+      id: uuidv4(),
+      eventId: event.id,
+      eventName: event.name,
+      eventDate: eventDate.toISOString(),
+      landMarkId,
+      hoursBeforeEvent,
+      runAt: runAt.toISOString(),
+      requests: requests.map(request => ({ ...request, eventId: event.id })),
+      status: ScheduledJobStatus.SCHEDULED,
+      createdAt: now.toISOString()
+    };
+
+    if (!saveScheduledJob(job)) {
+      throw new Error('The batch could not be saved. Check your browser storage settings.');
+    }
+
+    this.notify();
+    return job;
+  }
+
+  /**
+   * Retrieves the scheduled batches
+   * @param landMarkId - Optional landmark ID to only include the batches of one venue
+   * @returns The scheduled batches, soonest first
+   */
+  public getJobs(landMarkId?: string): ScheduledJob[] {
+    const jobs = getScheduledJobs();
+    return landMarkId ? jobs.filter(job => job.landMarkId === landMarkId) : jobs;
+  }
+
+  /**
+   * Retrieves the batches waiting to run whose run time has come
+   * @param now - Current time
+   * @returns The due batches, soonest first
+   */
+  public getDueJobs(now: Date = new Date()): ScheduledJob[] {
+    return getScheduledJobs().filter(job =>
+      job.status === ScheduledJobStatus.SCHEDULED && new Date(job.runAt).getTime() <= now.getTime()
+    );
+  }
+
+  /**
+   * Retrieves when the next batch waiting to run is due
+   * @returns The earliest run time, or null if no batch is waiting
+   */
+  public getNextRunAt(): Date | null {
+    const next = getScheduledJobs().find(job => job.status === ScheduledJobStatus.SCHEDULED);
+    return next ? new Date(next.runAt) : null;
+  }
+
+  /**
+   * Removes a batch that is not running, cancelling it if it hasn't run yet
+   * @param jobId - ID of the batch
+   * @returns True if the batch was removed, false otherwise
+   */
+  public removeJob(jobId: string): boolean {
+    const job = getScheduledJob(jobId);
+
+    if (!job || job.status === ScheduledJobStatus.RUNNING) {
+      return false;
+    }
+
+    const removed = removeScheduledJob(jobId);
+    this.notify();
+    return removed;
+  }
+
+  /**
+   * Runs a batch now instead of waiting for its run time
+   * @param jobId - ID of the batch
+   * @returns Promise resolving to the batch once it has run
+   * @throws Error if the batch is not found or can't be run again
+   */
+  public async runJobNow(jobId: string): Promise<ScheduledJob> {
+    const job = getScheduledJob(jobId);
+
+    if (!job) {
+      throw new Error('This scheduled batch could not be found.');
+    }
+
+    if (job.status === ScheduledJobStatus.RUNNING || this.activeJobIds.has(jobId)) {
+      throw new Error('This batch is already being created.');
+    }
+
+    // Completed and failed batches may have created passes already, so they are never sent twice
+    if (job.status !== ScheduledJobStatus.SCHEDULED && job.status !== ScheduledJobStatus.MISSED) {
+      throw new Error('This batch has already been run.');
+    }
+
+    return this.runJob(job);
+  }
+
+  /**
+   * Marks batches left running by a closed tab as failed. Their passes are kept as an
+   * interrupted batch job, which can be resumed from the pass creation page.
+   * @returns The batches marked as failed
+   */
+  public recoverInterruptedJobs(): ScheduledJob[] {
+    const interrupted = getScheduledJobs()
+      .filter(job => job.status === ScheduledJobStatus.RUNNING && !this.activeJobIds.has(job.id))
+      .map(job => ({
+        ...job,
+        status: ScheduledJobStatus.FAILED,
+        finishedAt: new Date().toISOString(),
+        error: 'The app was closed while this batch was running. Resume it from the Create Passes page.'
+      }));
+
+    interrupted.forEach(job => saveScheduledJob(job));
+
+    if (interrupted.length > 0) {
+      this.notify();
+    }
+
+    return interrupted;
+  }
+
+  /**
+   * Runs the batches that are due, soonest first. Only one run happens at a time;
+   * calling this while a run is in progress returns that run's result.
+   * @param now - Current time
+   * @returns Promise resolving to the outcome of the run
+   */
+  public runDueJobs(now: Date = new Date()): Promise<ScheduleRunResult> {
+    if (!this.runPromise) {
+      this.runPromise = this.runDue(now).finally(() => {
+        this.runPromise = null;
+      });
+    }
+
+    return this.runPromise;
+  }
+
+  /**
+   * Registers a callback notified whenever the scheduled batches change
+   * @param listener - Callback receiving the scheduled batches
+   * @returns Function that removes the callback
+   */
+  public subscribe(listener: ScheduleListener): () => void {
+    this.listeners.add(listener);
+    listener(getScheduledJobs());
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Runs each due batch, leaving the rest for later once the connection is lost
+   * @param now - Current time
+   * @returns Promise resolving to the outcome of the run
+   */
+  private async runDue(now: Date): Promise<ScheduleRunResult> {
+    const result: ScheduleRunResult = { completed: [], failed: [], missed: [], caughtUp: 0 };
+
+    for (const due of this.getDueJobs(now)) {
+      if (!offlineQueueService.isOnline()) {
+        break;
+      }
+
+      // Another tab may have run the batch since the list was read
+      const job = getScheduledJob(due.id);
+      if (!job || job.status !== ScheduledJobStatus.SCHEDULED) {
+        continue;
+      }
+
+      if (new Date(job.eventDate).getTime() <= now.getTime()) {
+        const missed: ScheduledJob = {
+          ...job,
+          status: ScheduledJobStatus.MISSED,
+          finishedAt: new Date().toISOString(),
+          error: 'The event started before this batch could run.'
+        };
+        saveScheduledJob(missed);
+        this.notify();
+        result.missed.push(missed);
+        continue;
+      }
+
+      const finished = await this.runJob(job);
+      if (finished.status === ScheduledJobStatus.COMPLETED) {
+        result.completed.push(finished);
+      } else {
+        result.failed.push(finished);
+      }
+
+      if (new Date(job.runAt).getTime() < this.openedAt) {
+        result.caughtUp++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Creates the passes of a batch through a batch job and records the outcome
+   * @param job - The batch to run
+   * @returns Promise resolving to the batch once it has run
+   */
+  private async runJob(job: ScheduledJob): Promise<ScheduledJob> {
+    this.activeJobIds.add(job.id);
+
+    const running: ScheduledJob = {
+      ...job,
+      status: ScheduledJobStatus.RUNNING,
+      startedAt: new Date().toISOString(),
+      error: undefined
+    };
+    saveScheduledJob(running);
+    this.notify();
+
+    let finished: ScheduledJob;
+    try {
+      await this.checkOverbooking(job);
+      const result = await batchJobService.startJob(job.requests, job.landMarkId);
+      finished = {
+        ...running,
+        status: ScheduledJobStatus.COMPLETED,
+        finishedAt: new Date().toISOString(),
+        result
+      };
+
+      // The event's cached passes no longer include every pass
+      clearPassesCache(job.eventId, job.landMarkId);
+    } catch (error) {
+      finished = {
+        ...running,
+        status: ScheduledJobStatus.FAILED,
+        finishedAt: new Date().toISOString(),
+        error: error instanceof Error ? error.message : 'An unexpected error occurred'
+      };
+    } finally {
+      this.activeJobIds.delete(job.id);
+    }
+
+    saveScheduledJob(finished);
+    this.notify();
+    return finished;
+  }
+
+  /**
+   * Checks the passes of a batch against the capacity of their lots. Only events whose
+   * policy blocks overbooking stop the batch; nobody is there to accept a warning.
+   * @param job - The batch about to run
+   * @throws Error if the batch would overbook a lot of an event that blocks overbooking
+   */
+  private async checkOverbooking(job: ScheduledJob): Promise<void> {
+    const configuration = getLotConfiguration(job.eventId, job.landMarkId);
+    if (!configuration || configuration.overbookingPolicy !== OverbookingPolicy.BLOCK) {
+      return;
+    }
+
+    const { data: passes } = await passesApi.getPassesForEvent({ eventId: job.eventId, landMarkId: job.landMarkId });
+    const overbooking = inventoryService.checkOverbooking(configuration, Array.isArray(passes) ? passes : [], job.requests);
+
+    if (overbooking.blocked) {
+      const lots = overbooking.conflicts.map(conflict => `lot ${conflict.lotId} ${conflict.spotType} (${conflict.overBy} over capacity)`);
+      throw new Error(`These passes would overbook ${lots.join(', ')}.`);
+    }
+  }
+
+  /**
+   * Notifies every listener with the scheduled batches
+   */
+  private notify(): void {
+    if (this.listeners.size === 0) {
+      return;
+    }
+
+    const jobs = getScheduledJobs();
+    this.listeners.forEach(listener => listener(jobs));
+  }
+}
+
+// Export the class and a singleton instance
+export { PassScheduleService };
+export const passScheduleService = new PassScheduleService();
+export default passScheduleService;
@@ -0,0 +1,13 @@
+/**
+ * Barrel file for the search module that exports the pass search service.
+ * Provides a single entry point for searching the passes of many events at once.
+ * 
+ * @module services/search
+ * @version 1.0.0
+ */
+
+import passSearchService, { PassSearchService, MAX_SEARCH_RESULTS } from './passSearchService';
+
+export { passSearchService, PassSearchService, MAX_SEARCH_RESULTS };
+
+export default passSearchService;
\ No newline at end of file
@@ -0,0 +1,186 @@
+import { ParkHubPass } from '../../types/api.types';
+import { Event } from '../../types/event.types';
+import { PassSearchField, PassSearchHit } from '../../types/search.types';
+
+/**
+ * Maximum number of hits returned by a search
+ */
+export const MAX_SEARCH_RESULTS = 100;
+
+/**
+ * Fields compared with the query, in the order preferred when several match equally well
+ */
+const SEARCH_FIELDS: PassSearchField[] = [
+  PassSearchField.BARCODE,
+  PassSearchField.ACCOUNT_ID,
+  PassSearchField.CUSTOMER_NAME
+];
+
+/**
+ * A pass held in the index with its searchable fields normalized
+ */
+interface IndexedPass {
+  pass: ParkHubPass;
+  fields: Record<PassSearchField, string>;
+}
+
+/**
+ * The indexed passes of one event
+ */
+interface IndexedEvent {
+  event: Event;
+  passes: IndexedPass[];
+}
+
+/**
+ * Normalizes text for comparison
+ * @param value - The text
+ * @returns The text in lower case with surrounding and repeated whitespace removed
+ */
+const normalize = (value: string | null | undefined): string =>
+  (value || '').toLowerCase().trim().replace(/\s+/g, ' ');
+
+/**
+ * Scores how well a field matches the query
+ * @param value - Normalized field value
+ * @param query - Normalized query
+ * @param terms - Words of the query
+ * @returns 3 for an exact match, 2 when the field or one of its words starts with the
+ * query, 1 when the field contains the query or all of its words, otherwise 0
+ */
+const scoreField = (value: string, query: string, terms: string[]): number => {
+  if (!value) {
+    return 0;
+  }
+  if (value === query) {
+    return 3;
+  }
+  if (value.startsWith(query) || value.split(' ').some(word => word.startsWith(query))) {
+    return 2;
+  }
+  if (value.includes(query) || (terms.length > 1 && terms.every(term => value.includes(term)))) {
+    return 1;
+  }
+  return 0;
+};
+
+/**
+ * Service keeping a local index of the passes of many events so they can be searched
+ * together by customer name, barcode or account ID. The index belongs to one venue
+ * (landmark) at a time and lives for the rest of the session, so returning to the
+ * search page doesn't fetch every event's passes again.
+ */
+class PassSearchService {
+  private events = new Map<string, IndexedEvent>();
+  private landMarkId: string | null = null;
+
+  /**
+   * Sets the venue whose passes are indexed, clearing the index when the venue changes
+   * @param landMarkId - The venue (landmark) ID
+   */
+  public setLandmark(landMarkId: string): void {
+    if (this.landMarkId !== landMarkId) {
+      this.clear();
+      this.landMarkId = landMarkId;
+    }
+  }
+
+  /**
+   * Adds the passes of an event to the index, replacing any passes indexed before
+   * @param event - The event
+   * @param passes - The event's passes
+   */
+  public indexEvent(event: Event, passes: ParkHubPass[]): void {
+    this.events.set(event.id, {
+      event,
+      passes: passes.map(pass => ({
+        pass,
+        fields: {
+          [PassSearchField.CUSTOMER_NAME]: normalize(pass.customerName),
+          [PassSearchField.BARCODE]: normalize(pass.barcode),
+          [PassSearchField.ACCOUNT_ID]: normalize(pass.accountId)
+        }
+      }))
+    });
+  }
+
+  /**
+   * Checks whether the passes of an event are in the index
+   * @param eventId - The event ID
+   * @returns True if the event has been indexed
+   */
+  public hasEvent(eventId: string): boolean {
+    return this.events.has(eventId);
+  }
+
+  /**
+   * Counts the passes indexed for a set of events
+   * @param eventIds - IDs of the events to count
+   * @returns Number of those events in the index and the number of passes they hold
+   */
+  public getStats(eventIds: string[]): { events: number; passes: number } {
+    return eventIds.reduce((stats, eventId) => {
+      const indexed = this.events.get(eventId);
+      return indexed
+        ? { events: stats.events + 1, passes: stats.passes + indexed.passes.length }
+        : stats;
+    }, { events: 0, passes: 0 });
+  }
+
+  /**
+   * Removes every event from the index
+   */
+  public clear(): void {
+    this.events.clear();
+  }
+
+  /**
+   * Searches the indexed passes of a set of events
+   * @param query - Customer name, barcode or account ID, in whole or part
+   * @param eventIds - IDs of the events to search
+   * @param limit - Maximum number of hits to return
+   * @returns Matching passes, best match first, and the total number of matches
+   */
+  public search(
+    query: string,
+    eventIds: string[],
+    limit: number = MAX_SEARCH_RESULTS
+  ): { hits: PassSearchHit[]; total: number } {
+    const normalizedQuery = normalize(query);
+    if (!normalizedQuery) {
+      return { hits: [], total: 0 };
+    }
+    const terms = normalizedQuery.split(' ');
+
+    const hits: PassSearchHit[] = [];
+    eventIds.forEach(eventId => {
+      const indexed = this.events.get(eventId);
+      indexed?.passes.forEach(({ pass, fields }) => {
+        let best: { field: PassSearchField; score: number } | null = null;
+        for (const field of SEARCH_FIELDS) {
+          const score = scoreField(fields[field], normalizedQuery, terms);
+          if (score > 0 && (!best || score > best.score)) {
+            best = { field, score };
+          }
+        }
+        if (best) {
+          hits.push({ pass, event: indexed.event, matchedField: best.field, score: best.score });
+        }
+      });
+    });
+
+    // Best matches first, then the soonest event, then by customer name
+    hits.sort((a, b) =>
+      b.score - a.score ||
+      a.event.date.getTime() - b.event.date.getTime() ||
+      a.pass.customerName.localeCompare(b.pass.customerName)
+    );
+
+    return { hits: hits.slice(0, limit), total: hits.length };
+  }
+}
+
+// Export the class and a singleton instance
+export { PassSearchService };
+export const passSearchService = new PassSearchService();
+export default passSearchService;
@@ -0,0 +1,114 @@
+/**
+ * Service responsible for storing the directory of known customer accounts in browser
+ * storage. Each venue (landmark) has its own directory, since account IDs belong to
+ * the venue that issued them.
+ *
+ * @version 1.0.0
+ */
+
+import { StorageType, StorageOptions } from '../../types/storage.types';
+import { AccountDirectory } from '../../types/account.types';
+import { ACCOUNT_DIRECTORY } from '../../constants/storageKeys';
+import { getItem, setItem } from '../../utils/storage-helpers';
+import { getSelectedLandmarkId } from './landmarkStorage';
+
+/**
+ * Default storage options for account directory storage
+ * The directory only holds what the passes already show, so it is stored without encryption
+ */
+const DEFAULT_STORAGE_OPTIONS: Partial<StorageOptions> = {
+  type: StorageType.LOCAL,
+  encrypt: false
+};
+
+/**
+ * Retrieves the directories of every venue keyed by landmark ID
+ *
+ * @returns The stored directories, or an empty object if there are none
+ */
+const getAllDirectories = (): Record<string, AccountDirectory> => {
+  const directories = getItem<Record<string, AccountDirectory>>(ACCOUNT_DIRECTORY, DEFAULT_STORAGE_OPTIONS);
+  return directories && typeof directories === 'object' ? directories : {};
+};
+
+/**
+ * Retrieves the account directory of a venue
+ *
+ * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
+ * @returns The stored accounts keyed by account ID, or an empty directory
+ */
+export const getAccountDirectory = (
+  landMarkId: string = getSelectedLandmarkId()
+): AccountDirectory => {
+  try {
+    return getAllDirectories()[landMarkId] || {};
+  } catch (error) {
+    console.error('Error retrieving account directory:', error);
+    return {};
+  }
+};
+
+/**
+ * Replaces the account directory of a venue
+ *
+ * @param directory - The accounts keyed by account ID
+ * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
+ * @returns True if storage was successful, false otherwise
+ */
+export const saveAccountDirectory = (
+  directory: AccountDirectory,
+  landMarkId: string = getSelectedLandmarkId()
+): boolean => {
+  try {
+    if (!directory || typeof directory !== 'object') {
+      console.error('Invalid account directory provided');
+      return false;
+    }
+
+    return setItem<Record<string, AccountDirectory>>(
+      ACCOUNT_DIRECTORY,
+      {
+        ...getAllDirectories(),
+        [landMarkId]: directory
+      },
+      DEFAULT_STORAGE_OPTIONS
+    );
+  } catch (error) {
+    console.error('Error storing account directory:', error);
+    return false;
+  }
+};
+
+/**
+ * Removes the account directory of a venue
+ *
+ * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
+ * @returns True if removal was successful, false otherwise
+ */
+export const clearAccountDirectory = (
+  landMarkId: string = getSelectedLandmarkId()
+): boolean => {
+  try {
+    const { [landMarkId]: removed, ...remaining } = getAllDirectories();
+
+    if (!removed) {
+      return false;
+    }
+
+    return setItem<Record<string, AccountDirectory>>(ACCOUNT_DIRECTORY, remaining, DEFAULT_STORAGE_OPTIONS);
+  } catch (error) {
+    console.error('Error removing account directory:', error);
+    return false;
+  }
+};
+
+/**
+ * Object containing all account directory storage functions for convenient import
+ */
+export const accountDirectoryStorage = {
+  getAccountDirectory,
+  saveAccountDirectory,
+  clearAccountDirectory
+};
+
+export default accountDirectoryStorage;
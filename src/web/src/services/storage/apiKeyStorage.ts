@@ -1,7 +1,9 @@
 /**
  * Service responsible for securely storing and retrieving the ParkHub API key in browser storage.
  * Implements encryption for sensitive API key data and provides methods for managing the API key
- * throughout the application lifecycle.
+ * throughout the application lifecycle. In vault mode the API key is kept in the API key vault,
+ * encrypted with the user's passphrase, and can only be read while the vault is unlocked.
+ * Each API key profile stores its own key.
  * 
  * @version 1.0.0
  */
@@ -9,6 +11,10 @@
 import { StorageType, StorageOptions } from '../../types/storage.types';
 import { API_KEY } from '../../constants/storageKeys';
 import { getItem, setItem, removeItem } from '../../utils/storage-helpers';
+import { VaultStatus } from '../../types/vault.types';
+import { apiKeyVault } from '../vault/apiKeyVault';
+import { getProfileStorageKey } from './profileStorage';
+import { clearServiceWorkerApiData } from '../offline/serviceWorkerRegistration';
 
 /**
  * Default storage options for API key storage
@@ -22,11 +28,15 @@ const DEFAULT_STORAGE_OPTIONS: Partial<StorageOptions> = {
 /**
  * Retrieves the ParkHub API key from secure storage
  * 
- * @returns The stored API key or null if not found
+ * @returns The stored API key, or null if not found or the vault is locked
  */
 export const getApiKey = (): string | null => {
   try {
-    return getItem<string>(API_KEY, DEFAULT_STORAGE_OPTIONS);
+    if (apiKeyVault.getStatus() !== VaultStatus.DISABLED) {
+      return apiKeyVault.getSecret();
+    }
+
+    return getItem<string>(getProfileStorageKey(API_KEY), DEFAULT_STORAGE_OPTIONS);
   } catch (error) {
     console.error('Error retrieving API key:', error);
     return null;
@@ -34,7 +44,9 @@ export const getApiKey = (): string | null => {
 };
 
 /**
- * Securely stores the ParkHub API key in browser storage with encryption
+ * Securely stores the ParkHub API key in browser storage with encryption. In vault mode the
+ * vault encrypts the key asynchronously, so this only confirms the key the vault already
+ * holds; use setApiKeyAsync to store a new key.
  * 
  * @param apiKey - The API key to store
  * @returns True if storage was successful, false otherwise
@@ -45,8 +57,23 @@ export const setApiKey = (apiKey: string): boolean => {
       console.error('Invalid API key provided');
       return false;
     }
+
+    // In vault mode the key is encrypted with the passphrase, which needs the vault to be unlocked
+    const vaultStatus = apiKeyVault.getStatus();
+    if (vaultStatus === VaultStatus.LOCKED) {
+      console.error('Unlock the API key vault before changing the API key');
+      return false;
+    }
+    if (vaultStatus === VaultStatus.UNLOCKED) {
+      if (apiKeyVault.getSecret() === apiKey) {
+        return true;
+      }
+
+      console.error('Use setApiKeyAsync to change the API key held by the vault');
+      return false;
+    }
     
-    return setItem<string>(API_KEY, apiKey, DEFAULT_STORAGE_OPTIONS);
+    return setItem<string>(getProfileStorageKey(API_KEY), apiKey, DEFAULT_STORAGE_OPTIONS);
   } catch (error) {
     console.error('Error storing API key:', error);
     return false;
@@ -54,13 +81,45 @@ export const setApiKey = (apiKey: string): boolean => {
 };
 
 /**
- * Removes the ParkHub API key from browser storage
+ * Stores the ParkHub API key, waiting in vault mode until the vault has encrypted and saved it
+ * 
+ * @param apiKey - The API key to store
+ * @returns Promise resolving to true if storage was successful, false otherwise
+ */
+export const setApiKeyAsync = async (apiKey: string): Promise<boolean> => {
+  if (apiKeyVault.getStatus() !== VaultStatus.UNLOCKED) {
+    return setApiKey(apiKey);
+  }
+
+  if (!apiKey || typeof apiKey !== 'string' || apiKey.trim() === '') {
+    console.error('Invalid API key provided');
+    return false;
+  }
+
+  try {
+    await apiKeyVault.update(apiKey);
+    return true;
+  } catch (error) {
+    console.error('Error storing API key in the vault:', error);
+    return false;
+  }
+};
+
+/**
+ * Removes the ParkHub API key from browser storage, deleting the vault in vault mode
  * 
  * @returns True if removal was successful, false otherwise
  */
 export const removeApiKey = (): boolean => {
   try {
-    return removeItem(API_KEY, DEFAULT_STORAGE_OPTIONS);
+    if (apiKeyVault.getStatus() !== VaultStatus.DISABLED) {
+      apiKeyVault.destroy();
+    }
+
+    // Listings fetched with this key must not be shown to whoever enters the next one
+    clearServiceWorkerApiData();
+
+    return removeItem(getProfileStorageKey(API_KEY), DEFAULT_STORAGE_OPTIONS);
   } catch (error) {
     console.error('Error removing API key:', error);
     return false;
@@ -95,15 +154,56 @@ export const hasApiKey = (): boolean => {
   return getApiKey() !== null;
 };
 
+/**
+ * Turns vault mode on, moving the API key into a vault protected by a passphrase. Without an
+ * API key, the key stored with the built-in encryption is moved, and that copy is deleted.
+ * 
+ * @param passphrase - The passphrase that will unlock the vault
+ * @param apiKey - Optional API key to protect instead of the stored one
+ * @throws Error if there is no API key to protect or the vault can't be created
+ */
+export const enableVault = async (passphrase: string, apiKey?: string): Promise<void> => {
+  const secret = apiKey || getItem<string>(getProfileStorageKey(API_KEY), DEFAULT_STORAGE_OPTIONS);
+  if (!secret || !validateApiKey(secret)) {
+    throw new Error('Add a valid API key before protecting it with a passphrase.');
+  }
+
+  await apiKeyVault.create(passphrase, secret);
+
+  // The vault now holds the key, so remove the copy anyone with the app's code could decrypt
+  removeItem(getProfileStorageKey(API_KEY), DEFAULT_STORAGE_OPTIONS);
+};
+
+/**
+ * Turns vault mode off, storing the API key with the built-in encryption again
+ * 
+ * @throws Error if the vault is locked or the API key can't be stored
+ */
+export const disableVault = (): void => {
+  const secret = apiKeyVault.getSecret();
+  if (!secret) {
+    throw new Error('Unlock the API key before turning off passphrase protection.');
+  }
+
+  if (!setItem<string>(getProfileStorageKey(API_KEY), secret, DEFAULT_STORAGE_OPTIONS)) {
+    throw new Error('The API key could not be saved.');
+  }
+
+  apiKeyVault.destroy();
+};
+
 /**
  * Object containing all API key storage functions for convenient import
  */
 export const apiKeyStorage = {
   getApiKey,
   setApiKey,
+  setApiKeyAsync,
   removeApiKey,
   validateApiKey,
-  hasApiKey
+  hasApiKey,
+  enableVault,
+  disableVault
 };
 
 export default apiKeyStorage;
\ No newline at end of file
@@ -0,0 +1,97 @@
+/**
+ * Service responsible for storing the API key vault in browser storage. The vault holds
+ * the API key encrypted with a key derived from the user's passphrase, so it is stored
+ * without the app's built-in encryption. Each API key profile has its own vault.
+ *
+ * @version 1.0.0
+ */
+
+import { StorageType, StorageOptions } from '../../types/storage.types';
+import { ApiKeyVaultRecord } from '../../types/vault.types';
+import { API_KEY_VAULT } from '../../constants/storageKeys';
+import { getItem, setItem, removeItem } from '../../utils/storage-helpers';
+import { getProfileStorageKey } from './profileStorage';
+
+/**
+ * Default storage options for API key vault storage
+ * The record is already encrypted with the passphrase, so it is stored as is
+ */
+const DEFAULT_STORAGE_OPTIONS: Partial<StorageOptions> = {
+  type: StorageType.LOCAL,
+  encrypt: false
+};
+
+/**
+ * Checks that a stored value has the shape of a vault record
+ *
+ * @param value - The stored value
+ * @returns True if the value is a vault record this version of the app can read
+ */
+const isVaultRecord = (value: unknown): value is ApiKeyVaultRecord => {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const record = value as Record<string, unknown>;
+  return record.version === 1 &&
+    record.kdf === 'PBKDF2-SHA-256' &&
+    typeof record.iterations === 'number' &&
+    typeof record.salt === 'string' &&
+    typeof record.iv === 'string' &&
+    typeof record.data === 'string';
+};
+
+/**
+ * Retrieves the API key vault
+ *
+ * @returns The stored vault, or null if vault mode is off
+ */
+export const getVaultRecord = (): ApiKeyVaultRecord | null => {
+  try {
+    const record = getItem<unknown>(getProfileStorageKey(API_KEY_VAULT), DEFAULT_STORAGE_OPTIONS);
+    return isVaultRecord(record) ? record : null;
+  } catch (error) {
+    console.error('Error retrieving API key vault:', error);
+    return null;
+  }
+};
+
+/**
+ * Stores the API key vault, replacing any stored before
+ *
+ * @param record - The vault to store
+ * @returns True if storage was successful, false otherwise
+ */
+export const saveVaultRecord = (record: ApiKeyVaultRecord): boolean => {
+  try {
+    return setItem<ApiKeyVaultRecord>(getProfileStorageKey(API_KEY_VAULT), record, DEFAULT_STORAGE_OPTIONS);
+  } catch (error) {
+    console.error('Error storing API key vault:', error);
+    return false;
+  }
+};
+
+/**
+ * Removes the API key vault
+ *
+ * @returns True if removal was successful, false otherwise
+ */
+export const removeVaultRecord = (): boolean => {
+  try {
+    return removeItem(getProfileStorageKey(API_KEY_VAULT), DEFAULT_STORAGE_OPTIONS);
+  } catch (error) {
+    console.error('Error removing API key vault:', error);
+    return false;
+  }
+};
+
+/**
+ * Object containing all API key vault storage functions for convenient import
+ */
+export const apiKeyVaultStorage = {
+  getVaultRecord,
+  saveVaultRecord,
+  removeVaultRecord
+};
+
+export default apiKeyVaultStorage;
@@ -0,0 +1,131 @@
+/**
+ * Service responsible for persisting batch creation jobs in browser storage so a batch
+ * interrupted by a closed tab or crash can be resumed. Jobs are kept under the form state
+ * storage key alongside any other preserved form input, which is kept separately for
+ * each API key profile.
+ *
+ * @version 1.0.0
+ */
+
+import { StorageType, StorageOptions } from '../../types/storage.types';
+import { BatchJob } from '../../types/batchJob.types';
+import { FORM_STATE } from '../../constants/storageKeys';
+import { getItem, setItem } from '../../utils/storage-helpers';
+import { getProfileStorageKey } from './profileStorage';
+
+/**
+ * Shape of the data stored under the form state key
+ */
+interface FormState {
+  /** Batch creation jobs that have not finished */
+  batchJobs?: BatchJob[];
+  /** Other preserved form input */
+  [key: string]: unknown;
+}
+
+/**
+ * Default storage options for batch job storage
+ * Jobs must survive the tab closing, so they are kept in local storage
+ */
+const DEFAULT_STORAGE_OPTIONS: Partial<StorageOptions> = {
+  type: StorageType.LOCAL,
+  encrypt: false
+};
+
+/**
+ * Reads the stored form state
+ *
+ * @returns The stored form state, or an empty object if none is stored
+ */
+const getFormState = (): FormState => {
+  const formState = getItem<FormState>(getProfileStorageKey(FORM_STATE), DEFAULT_STORAGE_OPTIONS);
+  return formState && typeof formState === 'object' ? formState : {};
+};
+
+/**
+ * Replaces the stored batch jobs, keeping the rest of the form state
+ *
+ * @param batchJobs - The batch jobs to store
+ * @returns True if storage was successful, false otherwise
+ */
+const setBatchJobs = (batchJobs: BatchJob[]): boolean =>
+  setItem<FormState>(getProfileStorageKey(FORM_STATE), { ...getFormState(), batchJobs }, DEFAULT_STORAGE_OPTIONS);
+
+/**
+ * Retrieves all stored batch jobs
+ *
+ * @returns The stored batch jobs, oldest first
+ */
+export const getBatchJobs = (): BatchJob[] => {
+  try {
+    const { batchJobs } = getFormState();
+    return Array.isArray(batchJobs) ? batchJobs : [];
+  } catch (error) {
+    console.error('Error retrieving batch jobs:', error);
+    return [];
+  }
+};
+
+/**
+ * Retrieves a stored batch job
+ *
+ * @param jobId - The ID of the job to retrieve
+ * @returns The batch job, or null if it is not stored
+ */
+export const getBatchJob = (jobId: string): BatchJob | null =>
+  getBatchJobs().find(job => job.id === jobId) || null;
+
+/**
+ * Adds a batch job to storage, or replaces it if the ID is already present
+ *
+ * @param job - The batch job to save
+ * @returns True if storage was successful, false otherwise
+ */
+export const saveBatchJob = (job: BatchJob): boolean => {
+  try {
+    const batchJobs = getBatchJobs();
+    const index = batchJobs.findIndex(item => item.id === job.id);
+    const updated = index === -1
+      ? [...batchJobs, job]
+      : batchJobs.map((item, i) => (i === index ? job : item));
+
+    return setBatchJobs(updated);
+  } catch (error) {
+    console.error('Error storing batch job:', error);
+    return false;
+  }
+};
+
+/**
+ * Removes a batch job from storage
+ *
+ * @param jobId - The ID of the job to remove
+ * @returns True if removal was successful, false otherwise
+ */
+export const removeBatchJob = (jobId: string): boolean => {
+  try {
+    const batchJobs = getBatchJobs();
+    const remaining = batchJobs.filter(job => job.id !== jobId);
+
+    if (remaining.length === batchJobs.length) {
+      return false;
+    }
+
+    return setBatchJobs(remaining);
+  } catch (error) {
+    console.error('Error removing batch job:', error);
+    return false;
+  }
+};
+
+/**
+ * Object containing all batch job storage functions for convenient import
+ */
+export const batchJobStorage = {
+  getBatchJobs,
+  getBatchJob,
+  saveBatchJob,
+  removeBatchJob
+};
+
+export default batchJobStorage;
@@ -10,12 +10,35 @@ import {
   getStorageInstance
 } from '../../utils/storage-helpers';
 import { ParkHubEvent, ParkHubPass } from '../../types/api.types';
+import { getSelectedLandmarkId } from './landmarkStorage';
+import { DEFAULT_PROFILE_ID, getActiveProfileId } from './profileStorage';
 
 /**
  * Default expiration time for cached items (1 hour in milliseconds)
  */
 export const DEFAULT_CACHE_EXPIRY = 3600000; // 1 hour
 
+/**
+ * Expiration time used when none is given, set from the app config at runtime
+ */
+let cacheExpiry = DEFAULT_CACHE_EXPIRY;
+
+/**
+ * Sets the expiration time used for cached items stored without one
+ * @param expiryInMs - Expiration time in milliseconds
+ */
+export const setCacheExpiry = (expiryInMs: number): void => {
+  if (Number.isFinite(expiryInMs) && expiryInMs > 0) {
+    cacheExpiry = expiryInMs;
+  }
+};
+
+/**
+ * Gets the expiration time used for cached items stored without one
+ * @returns Expiration time in milliseconds
+ */
+export const getCacheExpiry = (): number => cacheExpiry;
+
 /**
  * Default storage options for cache operations
  */
@@ -26,12 +49,75 @@ const DEFAULT_STORAGE_OPTIONS: StorageOptions = {
 };
 
 /**
- * Retrieves cached event data from storage if not expired
+ * Gets the part of cache keys that keeps each API key profile's cached data apart.
+ * Profiles may use the same venue IDs against different ParkHub accounts, so data
+ * cached with one profile must never be read with another.
+ * @param profileId - Optional profile ID (defaults to the active profile)
+ * @returns Key segment for the profile, empty for the default profile
+ */
+const getCacheScope = (profileId: string = getActiveProfileId()): string =>
+  profileId === DEFAULT_PROFILE_ID ? '' : `${profileId}_`;
+
+/**
+ * Builds the cache key for a landmark's events
+ * @param landMarkId - The landmark ID the events belong to
+ * @returns Storage key scoped to the active profile and the landmark
+ */
+const getEventCacheKey = (landMarkId: string): string => `${EVENTS_CACHE}_${getCacheScope()}${landMarkId}`;
+
+/**
+ * Builds the cache key for an event's passes
+ * @param eventId - The event ID the passes belong to
+ * @param landMarkId - The landmark ID the event belongs to
+ * @returns Storage key scoped to the active profile, the landmark and the event
+ */
+const getPassesCacheKey = (eventId: string, landMarkId: string): string =>
+  `${PASSES_CACHE}${getCacheScope()}${landMarkId}_${eventId}`;
+
+/**
+ * Builds the storage key of a generic cache item
+ * @param key - The cache key
+ * @returns Storage key scoped to the active profile
+ */
+const getItemCacheKey = (key: string): string => `${getCacheScope()}${key}`;
+
+/**
+ * Removes all items whose key starts with the given prefix from local storage
+ * @param prefix - Storage key prefix to match
+ * @returns True if all matching items were removed, false otherwise
+ */
+const removeItemsWithPrefix = (prefix: string): boolean => {
+  const storage = getStorageInstance(StorageType.LOCAL);
+  const keys: string[] = [];
+  let success = true;
+
+  // Collect keys first, since removing items while iterating shifts the indices
+  for (let i = 0; i < storage.length; i++) {
+    const key = storage.key(i);
+    if (key && key.startsWith(prefix)) {
+      keys.push(key);
+    }
+  }
+
+  keys.forEach(key => {
+    if (!removeItem(key, DEFAULT_STORAGE_OPTIONS)) {
+      success = false;
+    }
+  });
+
+  return success;
+};
+
+/**
+ * Retrieves cached event data for a landmark from storage if not expired
+ * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
  * @returns Array of cached events or null if not found or expired
  */
-export const getEventCache = (): ParkHubEvent[] | null => {
+export const getEventCache = (
+  landMarkId: string = getSelectedLandmarkId()
+): ParkHubEvent[] | null => {
   try {
-    return getCachedData<ParkHubEvent[]>(EVENTS_CACHE, DEFAULT_STORAGE_OPTIONS);
+    return getCachedData<ParkHubEvent[]>(getEventCacheKey(landMarkId), DEFAULT_STORAGE_OPTIONS);
   } catch (error) {
     console.error('Error retrieving event cache:', error);
     return null;
@@ -39,14 +125,16 @@ export const getEventCache = (): ParkHubEvent[] | null => {
 };
 
 /**
- * Stores event data in cache with an expiration time
+ * Stores event data for a landmark in cache with an expiration time
  * @param events - The events data to cache
  * @param expiryInMs - Optional custom expiration time in milliseconds
+ * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
  * @returns True if caching was successful, false otherwise
  */
 export const setEventCache = (
   events: ParkHubEvent[],
-  expiryInMs?: number
+  expiryInMs?: number,
+  landMarkId: string = getSelectedLandmarkId()
 ): boolean => {
   try {
     if (!Array.isArray(events)) {
@@ -54,8 +142,8 @@ export const setEventCache = (
       return false;
     }
 
-    const expiry = expiryInMs || DEFAULT_CACHE_EXPIRY;
-    return setCachedData(EVENTS_CACHE, events, expiry, DEFAULT_STORAGE_OPTIONS);
+    const expiry = expiryInMs || cacheExpiry;
+    return setCachedData(getEventCacheKey(landMarkId), events, expiry, DEFAULT_STORAGE_OPTIONS);
   } catch (error) {
     console.error('Error setting event cache:', error);
     return false;
@@ -65,16 +153,20 @@ export const setEventCache = (
 /**
  * Retrieves cached passes data for a specific event from storage if not expired
  * @param eventId - The event ID to get passes for
+ * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
  * @returns Array of cached passes or null if not found or expired
  */
-export const getPassesCache = (eventId: string): ParkHubPass[] | null => {
+export const getPassesCache = (
+  eventId: string,
+  landMarkId: string = getSelectedLandmarkId()
+): ParkHubPass[] | null => {
   try {
     if (!eventId || typeof eventId !== 'string') {
       console.warn('Invalid eventId for retrieving passes cache');
       return null;
     }
 
-    const cacheKey = `${PASSES_CACHE}${eventId}`;
+    const cacheKey = getPassesCacheKey(eventId, landMarkId);
     return getCachedData<ParkHubPass[]>(cacheKey, DEFAULT_STORAGE_OPTIONS);
   } catch (error) {
     console.error(`Error retrieving passes cache for event ${eventId}:`, error);
@@ -87,12 +179,14 @@ export const getPassesCache = (eventId: string): ParkHubPass[] | null => {
  * @param eventId - The event ID the passes belong to
  * @param passes - The passes data to cache
  * @param expiryInMs - Optional custom expiration time in milliseconds
+ * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
  * @returns True if caching was successful, false otherwise
  */
 export const setPassesCache = (
   eventId: string,
   passes: ParkHubPass[],
-  expiryInMs?: number
+  expiryInMs?: number,
+  landMarkId: string = getSelectedLandmarkId()
 ): boolean => {
   try {
     if (!eventId || typeof eventId !== 'string') {
@@ -105,8 +199,8 @@ export const setPassesCache = (
       return false;
     }
 
-    const cacheKey = `${PASSES_CACHE}${eventId}`;
-    const expiry = expiryInMs || DEFAULT_CACHE_EXPIRY;
+    const cacheKey = getPassesCacheKey(eventId, landMarkId);
+    const expiry = expiryInMs || cacheExpiry;
     return setCachedData(cacheKey, passes, expiry, DEFAULT_STORAGE_OPTIONS);
   } catch (error) {
     console.error(`Error setting passes cache for event ${eventId}:`, error);
@@ -115,12 +209,13 @@ export const setPassesCache = (
 };
 
 /**
- * Removes cached event data from storage
+ * Removes cached event data for a landmark from storage
+ * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
  * @returns True if removal was successful, false otherwise
  */
-export const clearEventCache = (): boolean => {
+export const clearEventCache = (landMarkId: string = getSelectedLandmarkId()): boolean => {
   try {
-    return removeItem(EVENTS_CACHE, DEFAULT_STORAGE_OPTIONS);
+    return removeItem(getEventCacheKey(landMarkId), DEFAULT_STORAGE_OPTIONS);
   } catch (error) {
     console.error('Error clearing event cache:', error);
     return false;
@@ -130,16 +225,20 @@ export const clearEventCache = (): boolean => {
 /**
  * Removes cached passes data for a specific event from storage
  * @param eventId - The event ID to clear passes for
+ * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
  * @returns True if removal was successful, false otherwise
  */
-export const clearPassesCache = (eventId: string): boolean => {
+export const clearPassesCache = (
+  eventId: string,
+  landMarkId: string = getSelectedLandmarkId()
+): boolean => {
   try {
     if (!eventId || typeof eventId !== 'string') {
       console.warn('Invalid eventId for clearing passes cache');
       return false;
     }
 
-    const cacheKey = `${PASSES_CACHE}${eventId}`;
+    const cacheKey = getPassesCacheKey(eventId, landMarkId);
     return removeItem(cacheKey, DEFAULT_STORAGE_OPTIONS);
   } catch (error) {
     console.error(`Error clearing passes cache for event ${eventId}:`, error);
@@ -147,39 +246,64 @@ export const clearPassesCache = (eventId: string): boolean => {
   }
 };
 
+/**
+ * Removes cached event data for every landmark by finding keys with the EVENTS_CACHE prefix
+ * @returns True if removal was successful, false otherwise
+ */
+export const clearAllEventCache = (): boolean => {
+  try {
+    return removeItemsWithPrefix(EVENTS_CACHE);
+  } catch (error) {
+    console.error('Error clearing all event cache:', error);
+    return false;
+  }
+};
+
 /**
  * Removes all cached passes data from storage by finding keys with the PASSES_CACHE prefix
+ * @param landMarkId - Optional landmark ID to limit removal to one landmark's passes
  * @returns True if removal was successful, false otherwise
  */
-export const clearAllPassesCache = (): boolean => {
+export const clearAllPassesCache = (landMarkId?: string): boolean => {
   try {
-    const storage = getStorageInstance(StorageType.LOCAL);
-    let success = true;
-    
-    // Iterate through all keys in storage and remove those that start with PASSES_CACHE
-    for (let i = 0; i < storage.length; i++) {
-      const key = storage.key(i);
-      if (key && key.startsWith(PASSES_CACHE)) {
-        const removed = removeItem(key, DEFAULT_STORAGE_OPTIONS);
-        if (!removed) {
-          success = false;
-        }
-      }
-    }
-    return success;
+    return removeItemsWithPrefix(landMarkId ? `${PASSES_CACHE}${getCacheScope()}${landMarkId}_` : PASSES_CACHE);
   } catch (error) {
     console.error('Error clearing all passes cache:', error);
     return false;
   }
 };
 
+/**
+ * Removes all data cached with an API key profile other than the default one, used when
+ * the profile is deleted
+ * @param profileId - The ID of the profile
+ * @returns True if removal was successful, false otherwise
+ */
+export const clearProfileCache = (profileId: string): boolean => {
+  try {
+    const scope = getCacheScope(profileId);
+    if (!scope) {
+      console.warn('The default profile\'s cached data can\'t be cleared on its own');
+      return false;
+    }
+
+    const eventCacheCleared = removeItemsWithPrefix(`${EVENTS_CACHE}_${scope}`);
+    const passesCacheCleared = removeItemsWithPrefix(`${PASSES_CACHE}${scope}`);
+    const itemsCleared = removeItemsWithPrefix(scope);
+    return eventCacheCleared && passesCacheCleared && itemsCleared;
+  } catch (error) {
+    console.error(`Error clearing cache for profile ${profileId}:`, error);
+    return false;
+  }
+};
+
 /**
  * Removes all cached data managed by this service from storage
  * @returns True if removal was successful, false otherwise
  */
 export const clearAllCache = (): boolean => {
   try {
-    const eventCacheCleared = clearEventCache();
+    const eventCacheCleared = clearAllEventCache();
     const passesCacheCleared = clearAllPassesCache();
     return eventCacheCleared && passesCacheCleared;
   } catch (error) {
@@ -208,7 +332,7 @@ export const clearExpired = (): number => {
  */
 export const getCacheItem = <T>(key: string): T | null => {
   try {
-    return getCachedData<T>(key, DEFAULT_STORAGE_OPTIONS);
+    return getCachedData<T>(getItemCacheKey(key), DEFAULT_STORAGE_OPTIONS);
   } catch (error) {
     console.error(`Error retrieving cache item for key ${key}:`, error);
     return null;
@@ -233,8 +357,8 @@ export const setCacheItem = <T>(
       return false;
     }
 
-    const expiry = expiryInMs || DEFAULT_CACHE_EXPIRY;
-    return setCachedData(key, data, expiry, DEFAULT_STORAGE_OPTIONS);
+    const expiry = expiryInMs || cacheExpiry;
+    return setCachedData(getItemCacheKey(key), data, expiry, DEFAULT_STORAGE_OPTIONS);
   } catch (error) {
     console.error(`Error setting cache item for key ${key}:`, error);
     return false;
@@ -253,7 +377,7 @@ export const removeCacheItem = (key: string): boolean => {
       return false;
     }
 
-    return removeItem(key, DEFAULT_STORAGE_OPTIONS);
+    return removeItem(getItemCacheKey(key), DEFAULT_STORAGE_OPTIONS);
   } catch (error) {
     console.error(`Error removing cache item for key ${key}:`, error);
     return false;
@@ -264,45 +388,42 @@ export const removeCacheItem = (key: string): boolean => {
  * Service class for caching API responses and other data in browser storage with expiration times
  */
 export class CacheStorage {
-  /**
-   * Default expiration time for cached items in milliseconds
-   */
-  private defaultExpiry: number;
-  
   /**
    * Initializes a new instance of the CacheStorage class
    */
   constructor() {
-    this.defaultExpiry = DEFAULT_CACHE_EXPIRY;
     // Clean up expired cache items on initialization
     this.clearExpired();
   }
 
   /**
-   * Retrieves cached event data from storage if not expired
+   * Retrieves cached event data for a landmark from storage if not expired
+   * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
    * @returns Array of cached events or null if not found or expired
    */
-  getEventCache(): ParkHubEvent[] | null {
-    return getEventCache();
+  getEventCache(landMarkId?: string): ParkHubEvent[] | null {
+    return getEventCache(landMarkId);
   }
 
   /**
-   * Stores event data in cache with an expiration time
+   * Stores event data for a landmark in cache with an expiration time
    * @param events - The events data to cache
    * @param expiryInMs - Optional custom expiration time in milliseconds
+   * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
    * @returns True if caching was successful, false otherwise
    */
-  setEventCache(events: ParkHubEvent[], expiryInMs?: number): boolean {
-    return setEventCache(events, expiryInMs);
+  setEventCache(events: ParkHubEvent[], expiryInMs?: number, landMarkId?: string): boolean {
+    return setEventCache(events, expiryInMs, landMarkId);
   }
 
   /**
    * Retrieves cached passes data for a specific event from storage if not expired
    * @param eventId - The event ID to get passes for
+   * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
    * @returns Array of cached passes or null if not found or expired
    */
-  getPassesCache(eventId: string): ParkHubPass[] | null {
-    return getPassesCache(eventId);
+  getPassesCache(eventId: string, landMarkId?: string): ParkHubPass[] | null {
+    return getPassesCache(eventId, landMarkId);
   }
 
   /**
@@ -310,39 +431,61 @@ export class CacheStorage {
    * @param eventId - The event ID the passes belong to
    * @param passes - The passes data to cache
    * @param expiryInMs - Optional custom expiration time in milliseconds
+   * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
    * @returns True if caching was successful, false otherwise
    */
   setPassesCache(
     eventId: string,
     passes: ParkHubPass[],
-    expiryInMs?: number
+    expiryInMs?: number,
+    landMarkId?: string
   ): boolean {
-    return setPassesCache(eventId, passes, expiryInMs);
+    return setPassesCache(eventId, passes, expiryInMs, landMarkId);
+  }
+
+  /**
+   * Removes cached event data for a landmark from storage
+   * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
+   * @returns True if removal was successful, false otherwise
+   */
+  clearEventCache(landMarkId?: string): boolean {
+    return clearEventCache(landMarkId);
   }
 
   /**
-   * Removes cached event data from storage
+   * Removes cached event data for every landmark from storage
    * @returns True if removal was successful, false otherwise
    */
-  clearEventCache(): boolean {
-    return clearEventCache();
+  clearAllEventCache(): boolean {
+    return clearAllEventCache();
   }
 
   /**
    * Removes cached passes data for a specific event from storage
    * @param eventId - The event ID to clear passes for
+   * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
    * @returns True if removal was successful, false otherwise
    */
-  clearPassesCache(eventId: string): boolean {
-    return clearPassesCache(eventId);
+  clearPassesCache(eventId: string, landMarkId?: string): boolean {
+    return clearPassesCache(eventId, landMarkId);
   }
 
   /**
    * Removes all cached passes data from storage
+   * @param landMarkId - Optional landmark ID to limit removal to one landmark's passes
+   * @returns True if removal was successful, false otherwise
+   */
+  clearAllPassesCache(landMarkId?: string): boolean {
+    return clearAllPassesCache(landMarkId);
+  }
+
+  /**
+   * Removes all data cached with an API key profile other than the default one
+   * @param profileId - The ID of the profile
    * @returns True if removal was successful, false otherwise
    */
-  clearAllPassesCache(): boolean {
-    return clearAllPassesCache();
+  clearProfileCache(profileId: string): boolean {
+    return clearProfileCache(profileId);
   }
 
   /**
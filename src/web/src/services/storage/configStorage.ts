@@ -0,0 +1,76 @@
+/**
+ * Service responsible for persisting the settings the user overrides on the Settings page.
+ * Stored values are validated by the app config service when they are read, so settings
+ * saved by an older version of the app can't break it.
+ *
+ * @version 1.0.0
+ */
+
+import { StorageType, StorageOptions } from '../../types/storage.types';
+import { UserConfigOverrides } from '../../types/config.types';
+import { USER_CONFIG } from '../../constants/storageKeys';
+import { getItem, setItem, removeItem } from '../../utils/storage-helpers';
+
+/**
+ * Default storage options for user settings storage
+ * Settings are not sensitive, so they are stored without encryption
+ */
+const DEFAULT_STORAGE_OPTIONS: Partial<StorageOptions> = {
+  type: StorageType.LOCAL,
+  encrypt: false
+};
+
+/**
+ * Retrieves the settings the user has overridden
+ *
+ * @returns The stored overrides, unvalidated, or an empty object if there are none
+ */
+export const getUserConfig = (): Record<string, unknown> => {
+  try {
+    const overrides = getItem<Record<string, unknown>>(USER_CONFIG, DEFAULT_STORAGE_OPTIONS);
+    return overrides && typeof overrides === 'object' && !Array.isArray(overrides) ? overrides : {};
+  } catch (error) {
+    console.error('Error retrieving user settings:', error);
+    return {};
+  }
+};
+
+/**
+ * Stores the settings the user has overridden, replacing any stored before
+ *
+ * @param overrides - The overridden settings
+ * @returns True if storage was successful, false otherwise
+ */
+export const saveUserConfig = (overrides: UserConfigOverrides): boolean => {
+  try {
+    return setItem<UserConfigOverrides>(USER_CONFIG, overrides, DEFAULT_STORAGE_OPTIONS);
+  } catch (error) {
+    console.error('Error storing user settings:', error);
+    return false;
+  }
+};
+
+/**
+ * Removes every setting the user has overridden
+ *
+ * @returns True if removal was successful, false otherwise
+ */
+export const clearUserConfig = (): boolean => {
+  try {
+    return removeItem(USER_CONFIG, DEFAULT_STORAGE_OPTIONS);
+  } catch (error) {
+    console.error('Error removing user settings:', error);
+    return false;
+  }
+};
+
+/**
+ * Object containing all user settings storage functions for convenient import
+ */
+export const configStorage = {
+  getUserConfig,
+  saveUserConfig,
+  clearUserConfig
+};
+
+export default configStorage;
@@ -10,6 +10,39 @@
 // Import API key storage functionality
 import { apiKeyStorage } from './apiKeyStorage';
 
+// Import API key vault storage functionality
+import { apiKeyVaultStorage } from './apiKeyVaultStorage';
+
+// Import landmark storage functionality
+import { landmarkStorage, DEFAULT_LANDMARK, getDefaultLandmark } from './landmarkStorage';
+
+// Import batch job storage functionality
+import { batchJobStorage } from './batchJobStorage';
+
+// Import lot configuration storage functionality
+import { lotConfigStorage } from './lotConfigStorage';
+
+// Import account directory storage functionality
+import { accountDirectoryStorage } from './accountDirectoryStorage';
+
+// Import pass template storage functionality
+import { passTemplateStorage } from './passTemplateStorage';
+
+// Import scheduled batch storage functionality
+import { scheduledJobStorage } from './scheduledJobStorage';
+
+// Import user settings storage functionality
+import { configStorage } from './configStorage';
+
+// Import mock API storage functionality
+import { mockApiStorage } from './mockApiStorage';
+
+// Import offline queue storage functionality
+import { offlineQueueStorage } from './offlineQueueStorage';
+
+// Import API key profile storage functionality
+import { profileStorage, DEFAULT_PROFILE, DEFAULT_PROFILE_ID } from './profileStorage';
+
 // Import cache storage functionality
 import { 
   cacheStorage,
@@ -20,19 +53,56 @@ import {
   getPassesCache,
   setPassesCache,
   clearEventCache,
+  clearAllEventCache,
   clearPassesCache,
   clearAllPassesCache,
+  clearProfileCache,
   clearAllCache,
   clearExpired,
   getCacheItem,
   setCacheItem,
   removeCacheItem,
-  DEFAULT_CACHE_EXPIRY
+  DEFAULT_CACHE_EXPIRY,
+  setCacheExpiry,
+  getCacheExpiry
 } from './cacheStorage';
 
 // Re-export API key storage
 export { apiKeyStorage };
 
+// Re-export API key vault storage
+export { apiKeyVaultStorage };
+
+// Re-export landmark storage
+export { landmarkStorage, DEFAULT_LANDMARK, getDefaultLandmark };
+
+// Re-export batch job storage
+export { batchJobStorage };
+
+// Re-export lot configuration storage
+export { lotConfigStorage };
+
+// Re-export account directory storage
+export { accountDirectoryStorage };
+
+// Re-export pass template storage
+export { passTemplateStorage };
+
+// Re-export scheduled batch storage
+export { scheduledJobStorage };
+
+// Re-export user settings storage
+export { configStorage };
+
+// Re-export mock API storage
+export { mockApiStorage };
+
+// Re-export offline queue storage
+export { offlineQueueStorage };
+
+// Re-export API key profile storage
+export { profileStorage, DEFAULT_PROFILE, DEFAULT_PROFILE_ID };
+
 // Re-export cache storage
 export { 
   cacheStorage,
@@ -42,17 +112,33 @@ export {
   getPassesCache,
   setPassesCache,
   clearEventCache,
+  clearAllEventCache,
   clearPassesCache,
+  clearAllPassesCache,
+  clearProfileCache,
   clearAllCache,
   clearExpired,
   getCacheItem,
   setCacheItem,
   removeCacheItem,
-  DEFAULT_CACHE_EXPIRY
+  DEFAULT_CACHE_EXPIRY,
+  setCacheExpiry,
+  getCacheExpiry
 };
 
 // Default export combining all storage services for convenient import
 export default {
   apiKeyStorage,
+  apiKeyVaultStorage,
+  landmarkStorage,
+  batchJobStorage,
+  lotConfigStorage,
+  accountDirectoryStorage,
+  passTemplateStorage,
+  scheduledJobStorage,
+  configStorage,
+  mockApiStorage,
+  offlineQueueStorage,
+  profileStorage,
   cacheStorage
 };
\ No newline at end of file
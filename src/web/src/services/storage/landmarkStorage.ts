@@ -0,0 +1,184 @@
+/**
+ * Service responsible for storing the landmarks (venues) the user manages and the
+ * currently selected landmark in browser storage. The selected landmark is read by the
+ * API services and cache storage so requests and cached data are scoped to one venue.
+ * Each API key profile has its own venues and selection.
+ *
+ * @version 1.0.0
+ */
+
+import { StorageType, StorageOptions } from '../../types/storage.types';
+import { Landmark } from '../../types/landmark.types';
+import { SELECTED_LANDMARK, LANDMARKS } from '../../constants/storageKeys';
+import { LANDMARK_ID, getDefaultLandmarkId } from '../../constants/apiEndpoints';
+import { getItem, setItem } from '../../utils/storage-helpers';
+import { getProfileStorageKey } from './profileStorage';
+
+/**
+ * Default storage options for landmark storage
+ * Landmark IDs are not sensitive, so they are stored without encryption
+ */
+const DEFAULT_STORAGE_OPTIONS: Partial<StorageOptions> = {
+  type: StorageType.LOCAL,
+  encrypt: false
+};
+
+/**
+ * Landmark used when the user has not added any landmarks of their own
+ */
+export const DEFAULT_LANDMARK: Landmark = {
+  id: LANDMARK_ID,
+  name: 'Default Venue'
+};
+
+/**
+ * Gets the landmark used when the user has not added any landmarks of their own,
+ * using the default venue ID from the runtime settings
+ *
+ * @returns The default landmark
+ */
+export const getDefaultLandmark = (): Landmark => ({
+  ...DEFAULT_LANDMARK,
+  id: getDefaultLandmarkId()
+});
+
+/**
+ * Validates the format of a ParkHub landmark ID
+ *
+ * @param landMarkId - The landmark ID to validate
+ * @returns True if the landmark ID format is valid, false otherwise
+ */
+export const validateLandmarkId = (landMarkId: string): boolean => {
+  if (!landMarkId || typeof landMarkId !== 'string' || landMarkId.trim() === '') {
+    return false;
+  }
+
+  // Landmark IDs are used as URL path segments, so only allow URL-safe characters
+  return /^[A-Za-z0-9-]{1,64}$/.test(landMarkId);
+};
+
+/**
+ * Retrieves the list of landmarks the user manages
+ *
+ * @returns The stored landmarks, or a list containing only the default landmark
+ */
+export const getLandmarks = (): Landmark[] => {
+  try {
+    const landmarks = getItem<Landmark[]>(getProfileStorageKey(LANDMARKS), DEFAULT_STORAGE_OPTIONS);
+
+    if (!Array.isArray(landmarks) || landmarks.length === 0) {
+      return [getDefaultLandmark()];
+    }
+
+    return landmarks;
+  } catch (error) {
+    console.error('Error retrieving landmarks:', error);
+    return [getDefaultLandmark()];
+  }
+};
+
+/**
+ * Adds a landmark to the stored list, or renames it if the ID is already present
+ *
+ * @param landmark - The landmark to save
+ * @returns True if storage was successful, false otherwise
+ */
+export const saveLandmark = (landmark: Landmark): boolean => {
+  try {
+    if (!landmark || !validateLandmarkId(landmark.id)) {
+      console.error('Invalid landmark ID provided');
+      return false;
+    }
+
+    const name = (landmark.name || '').trim() || landmark.id;
+    const landmarks = getLandmarks();
+    const index = landmarks.findIndex(item => item.id === landmark.id);
+    const updated = index === -1
+      ? [...landmarks, { id: landmark.id, name }]
+      : landmarks.map((item, i) => (i === index ? { ...item, name } : item));
+
+    return setItem<Landmark[]>(getProfileStorageKey(LANDMARKS), updated, DEFAULT_STORAGE_OPTIONS);
+  } catch (error) {
+    console.error('Error storing landmark:', error);
+    return false;
+  }
+};
+
+/**
+ * Removes a landmark from the stored list. The last remaining landmark cannot be removed.
+ * If the removed landmark was selected, the first remaining landmark becomes selected.
+ *
+ * @param landMarkId - The ID of the landmark to remove
+ * @returns True if removal was successful, false otherwise
+ */
+export const removeLandmark = (landMarkId: string): boolean => {
+  try {
+    const landmarks = getLandmarks();
+    const remaining = landmarks.filter(item => item.id !== landMarkId);
+
+    if (remaining.length === landmarks.length || remaining.length === 0) {
+      return false;
+    }
+
+    const result = setItem<Landmark[]>(getProfileStorageKey(LANDMARKS), remaining, DEFAULT_STORAGE_OPTIONS);
+
+    if (result && getSelectedLandmarkId() === landMarkId) {
+      return setSelectedLandmarkId(remaining[0].id);
+    }
+
+    return result;
+  } catch (error) {
+    console.error('Error removing landmark:', error);
+    return false;
+  }
+};
+
+/**
+ * Retrieves the ID of the currently selected landmark
+ *
+ * @returns The selected landmark ID, or the default landmark ID if none has been selected
+ */
+export const getSelectedLandmarkId = (): string => {
+  try {
+    const landMarkId = getItem<string>(getProfileStorageKey(SELECTED_LANDMARK), DEFAULT_STORAGE_OPTIONS);
+    return landMarkId && validateLandmarkId(landMarkId) ? landMarkId : getDefaultLandmarkId();
+  } catch (error) {
+    console.error('Error retrieving selected landmark:', error);
+    return getDefaultLandmarkId();
+  }
+};
+
+/**
+ * Stores the ID of the currently selected landmark
+ *
+ * @param landMarkId - The landmark ID to select
+ * @returns True if storage was successful, false otherwise
+ */
+export const setSelectedLandmarkId = (landMarkId: string): boolean => {
+  try {
+    if (!validateLandmarkId(landMarkId)) {
+      console.error('Invalid landmark ID provided');
+      return false;
+    }
+
+    return setItem<string>(getProfileStorageKey(SELECTED_LANDMARK), landMarkId, DEFAULT_STORAGE_OPTIONS);
+  } catch (error) {
+    console.error('Error storing selected landmark:', error);
+    return false;
+  }
+};
+
+/**
+ * Object containing all landmark storage functions for convenient import
+ */
+export const landmarkStorage = {
+  getLandmarks,
+  saveLandmark,
+  removeLandmark,
+  getSelectedLandmarkId,
+  setSelectedLandmarkId,
+  validateLandmarkId,
+  getDefaultLandmark
+};
+
+export default landmarkStorage;
@@ -0,0 +1,127 @@
+/**
+ * Service responsible for storing the lot capacity configured for each event in browser
+ * storage. Configurations are keyed by landmark and event ID, so events with the same ID
+ * at different venues never share a configuration.
+ *
+ * @version 1.0.0
+ */
+
+import { StorageType, StorageOptions } from '../../types/storage.types';
+import { EventLotConfiguration } from '../../types/inventory.types';
+import { LOT_CONFIGURATIONS } from '../../constants/storageKeys';
+import { getItem, setItem } from '../../utils/storage-helpers';
+import { getSelectedLandmarkId } from './landmarkStorage';
+
+/**
+ * Default storage options for lot configuration storage
+ * Lot capacities are not sensitive, so they are stored without encryption
+ */
+const DEFAULT_STORAGE_OPTIONS: Partial<StorageOptions> = {
+  type: StorageType.LOCAL,
+  encrypt: false
+};
+
+/**
+ * Builds the key a configuration is stored under
+ *
+ * @param eventId - The event ID
+ * @param landMarkId - The landmark ID
+ * @returns The configuration key
+ */
+const getConfigurationKey = (eventId: string, landMarkId: string): string => `${landMarkId}:${eventId}`;
+
+/**
+ * Retrieves every stored lot configuration keyed by landmark and event ID
+ *
+ * @returns The stored configurations, or an empty object if there are none
+ */
+const getAllConfigurations = (): Record<string, EventLotConfiguration> => {
+  const configurations = getItem<Record<string, EventLotConfiguration>>(LOT_CONFIGURATIONS, DEFAULT_STORAGE_OPTIONS);
+  return configurations && typeof configurations === 'object' ? configurations : {};
+};
+
+/**
+ * Retrieves the lot configuration of an event
+ *
+ * @param eventId - The event ID
+ * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
+ * @returns The stored configuration, or null if the event has none
+ */
+export const getLotConfiguration = (
+  eventId: string,
+  landMarkId: string = getSelectedLandmarkId()
+): EventLotConfiguration | null => {
+  try {
+    if (!eventId) {
+      return null;
+    }
+
+    return getAllConfigurations()[getConfigurationKey(eventId, landMarkId)] || null;
+  } catch (error) {
+    console.error('Error retrieving lot configuration:', error);
+    return null;
+  }
+};
+
+/**
+ * Adds a lot configuration, or replaces the event's existing configuration
+ *
+ * @param configuration - The configuration to save
+ * @returns True if storage was successful, false otherwise
+ */
+export const saveLotConfiguration = (configuration: EventLotConfiguration): boolean => {
+  try {
+    if (!configuration || !configuration.eventId || !configuration.landMarkId) {
+      console.error('Invalid lot configuration provided');
+      return false;
+    }
+
+    return setItem<Record<string, EventLotConfiguration>>(
+      LOT_CONFIGURATIONS,
+      {
+        ...getAllConfigurations(),
+        [getConfigurationKey(configuration.eventId, configuration.landMarkId)]: configuration
+      },
+      DEFAULT_STORAGE_OPTIONS
+    );
+  } catch (error) {
+    console.error('Error storing lot configuration:', error);
+    return false;
+  }
+};
+
+/**
+ * Removes the lot configuration of an event
+ *
+ * @param eventId - The event ID
+ * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
+ * @returns True if removal was successful, false otherwise
+ */
+export const removeLotConfiguration = (
+  eventId: string,
+  landMarkId: string = getSelectedLandmarkId()
+): boolean => {
+  try {
+    const { [getConfigurationKey(eventId, landMarkId)]: removed, ...remaining } = getAllConfigurations();
+
+    if (!removed) {
+      return false;
+    }
+
+    return setItem<Record<string, EventLotConfiguration>>(LOT_CONFIGURATIONS, remaining, DEFAULT_STORAGE_OPTIONS);
+  } catch (error) {
+    console.error('Error removing lot configuration:', error);
+    return false;
+  }
+};
+
+/**
+ * Object containing all lot configuration storage functions for convenient import
+ */
+export const lotConfigStorage = {
+  getLotConfiguration,
+  saveLotConfiguration,
+  removeLotConfiguration
+};
+
+export default lotConfigStorage;
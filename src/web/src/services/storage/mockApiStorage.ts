@@ -0,0 +1,75 @@
+/**
+ * Service responsible for persisting the state of the mock ParkHub API in browser storage,
+ * so passes created while training or testing are still there after a reload.
+ *
+ * @version 1.0.0
+ */
+
+import { StorageType, StorageOptions } from '../../types/storage.types';
+import { MockApiState } from '../../types/mock.types';
+import { MOCK_API_STATE } from '../../constants/storageKeys';
+import { getItem, setItem, removeItem } from '../../utils/storage-helpers';
+
+/**
+ * Default storage options for mock API storage
+ * The state must survive reloads, so it is kept in local storage
+ */
+const DEFAULT_STORAGE_OPTIONS: Partial<StorageOptions> = {
+  type: StorageType.LOCAL,
+  encrypt: false
+};
+
+/**
+ * Retrieves the stored state of the mock API
+ *
+ * @returns The stored state, or null if the mock API hasn't stored any yet
+ */
+export const getMockApiState = (): MockApiState | null => {
+  try {
+    const state = getItem<MockApiState>(MOCK_API_STATE, DEFAULT_STORAGE_OPTIONS);
+    return state && Array.isArray(state.passes) ? state : null;
+  } catch (error) {
+    console.error('Error retrieving mock API state:', error);
+    return null;
+  }
+};
+
+/**
+ * Stores the state of the mock API
+ *
+ * @param state - The state to store
+ * @returns True if storage was successful, false otherwise
+ */
+export const saveMockApiState = (state: MockApiState): boolean => {
+  try {
+    return setItem<MockApiState>(MOCK_API_STATE, state, DEFAULT_STORAGE_OPTIONS);
+  } catch (error) {
+    console.error('Error storing mock API state:', error);
+    return false;
+  }
+};
+
+/**
+ * Removes the stored state of the mock API, so it starts again from its seed data
+ *
+ * @returns True if removal was successful, false otherwise
+ */
+export const clearMockApiState = (): boolean => {
+  try {
+    return removeItem(MOCK_API_STATE, DEFAULT_STORAGE_OPTIONS);
+  } catch (error) {
+    console.error('Error removing mock API state:', error);
+    return false;
+  }
+};
+
+/**
+ * Object containing all mock API storage functions for convenient import
+ */
+export const mockApiStorage = {
+  getMockApiState,
+  saveMockApiState,
+  clearMockApiState
+};
+
+export default mockApiStorage;
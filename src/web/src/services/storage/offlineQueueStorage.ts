@@ -0,0 +1,152 @@
+/**
+ * Service responsible for persisting pass creation requests queued while offline.
+ * The queue is kept in IndexedDB rather than local storage so it survives reloads of
+ * the offline app and is shared with every tab. Each API key profile has its own database,
+ * so queued passes are only sent with the credentials they were queued with.
+ *
+ * @version 1.0.0
+ */
+
+import { QueuedPass } from '../../types/offline.types';
+import { OFFLINE_QUEUE_DB } from '../../constants/storageKeys';
+import { getProfileStorageKey } from './profileStorage';
+
+/**
+ * Version of the offline queue database schema
+ */
+const DB_VERSION = 1;
+
+/**
+ * Name of the object store holding queued passes
+ */
+const QUEUE_STORE = 'queuedPasses';
+
+/**
+ * Opens the offline queue database, creating the object store on first use
+ *
+ * @returns Promise resolving to the open database
+ * @throws Error if IndexedDB is unavailable or the database can't be opened
+ */
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  if (typeof indexedDB === 'undefined') {
+    reject(new Error('Offline storage is not available in this browser'));
+    return;
+  }
+
+  const request = indexedDB.open(getProfileStorageKey(OFFLINE_QUEUE_DB), DB_VERSION);
+
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(QUEUE_STORE)) {
+      request.result.createObjectStore(QUEUE_STORE, { keyPath: 'id' });
+    }
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+/**
+ * Runs a request against the queue store and closes the database afterwards
+ *
+ * @param mode - Transaction mode
+ * @param operation - Function creating the request from the store
+ * @returns Promise resolving to the request's result
+ */
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(QUEUE_STORE, mode);
+      const request = operation(transaction.objectStore(QUEUE_STORE));
+
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * Retrieves every queued pass
+ *
+ * @returns Promise resolving to the queued passes, oldest first
+ */
+export const getQueuedPasses = async (): Promise<QueuedPass[]> => {
+  try {
+    const queue = await withStore<QueuedPass[]>('readonly', store => store.getAll());
+    return [...queue].sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+  } catch (error) {
+    console.error('Error retrieving offline queue:', error);
+    return [];
+  }
+};
+
+/**
+ * Adds a queued pass, or replaces it if the ID is already present
+ *
+ * @param queuedPass - The queued pass to save
+ * @returns Promise resolving to true if storage was successful, false otherwise
+ */
+export const saveQueuedPass = async (queuedPass: QueuedPass): Promise<boolean> => {
+  try {
+    await withStore('readwrite', store => store.put(queuedPass));
+    return true;
+  } catch (error) {
+    console.error('Error storing queued pass:', error);
+    return false;
+  }
+};
+
+/**
+ * Removes a queued pass
+ *
+ * @param id - The ID of the queued pass to remove
+ * @returns Promise resolving to true if removal was successful, false otherwise
+ */
+export const removeQueuedPass = async (id: string): Promise<boolean> => {
+  try {
+    await withStore('readwrite', store => store.delete(id));
+    return true;
+  } catch (error) {
+    console.error('Error removing queued pass:', error);
+    return false;
+  }
+};
+
+/**
+ * Deletes the queue of an API key profile, with any passes still queued in it. Used when
+ * the profile is deleted.
+ *
+ * @param profileId - The ID of the profile
+ * @returns Promise resolving to true if removal was successful, false otherwise
+ */
+export const removeProfileQueue = (profileId: string): Promise<boolean> => new Promise(resolve => {
+  if (typeof indexedDB === 'undefined') {
+    resolve(true);
+    return;
+  }
+
+  const request = indexedDB.deleteDatabase(getProfileStorageKey(OFFLINE_QUEUE_DB, profileId));
+  request.onsuccess = () => resolve(true);
+  request.onerror = () => {
+    console.error('Error removing offline queue:', request.error);
+    resolve(false);
+  };
+});
+
+/**
+ * Object containing all offline queue storage functions for convenient import
+ */
+export const offlineQueueStorage = {
+  getQueuedPasses,
+  saveQueuedPass,
+  removeQueuedPass,
+  removeProfileQueue
+};
+
+export default offlineQueueStorage;
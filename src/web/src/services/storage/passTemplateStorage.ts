@@ -0,0 +1,91 @@
+/**
+ * Service responsible for storing saved pass templates in browser storage.
+ * Each venue (landmark) has its own templates, since lots and accounts differ
+ * between venues.
+ *
+ * @version 1.0.0
+ */
+
+import { StorageType, StorageOptions } from '../../types/storage.types';
+import { PassTemplate } from '../../types/template.types';
+import { PASS_TEMPLATES } from '../../constants/storageKeys';
+import { getItem, setItem } from '../../utils/storage-helpers';
+import { getSelectedLandmarkId } from './landmarkStorage';
+
+/**
+ * Default storage options for pass template storage
+ * Templates hold no barcodes or credentials, so they are stored without encryption
+ */
+const DEFAULT_STORAGE_OPTIONS: Partial<StorageOptions> = {
+  type: StorageType.LOCAL,
+  encrypt: false
+};
+
+/**
+ * Retrieves the templates of every venue keyed by landmark ID
+ *
+ * @returns The stored templates, or an empty object if there are none
+ */
+const getAllTemplates = (): Record<string, PassTemplate[]> => {
+  const templates = getItem<Record<string, PassTemplate[]>>(PASS_TEMPLATES, DEFAULT_STORAGE_OPTIONS);
+  return templates && typeof templates === 'object' ? templates : {};
+};
+
+/**
+ * Retrieves the pass templates of a venue
+ *
+ * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
+ * @returns The stored templates, or an empty array
+ */
+export const getPassTemplates = (
+  landMarkId: string = getSelectedLandmarkId()
+): PassTemplate[] => {
+  try {
+    const templates = getAllTemplates()[landMarkId];
+    return Array.isArray(templates) ? templates : [];
+  } catch (error) {
+    console.error('Error retrieving pass templates:', error);
+    return [];
+  }
+};
+
+/**
+ * Replaces the pass templates of a venue
+ *
+ * @param templates - The templates to store
+ * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
+ * @returns True if storage was successful, false otherwise
+ */
+export const savePassTemplates = (
+  templates: PassTemplate[],
+  landMarkId: string = getSelectedLandmarkId()
+): boolean => {
+  try {
+    if (!Array.isArray(templates)) {
+      console.error('Invalid pass templates provided');
+      return false;
+    }
+
+    return setItem<Record<string, PassTemplate[]>>(
+      PASS_TEMPLATES,
+      {
+        ...getAllTemplates(),
+        [landMarkId]: templates
+      },
+      DEFAULT_STORAGE_OPTIONS
+    );
+  } catch (error) {
+    console.error('Error storing pass templates:', error);
+    return false;
+  }
+};
+
+/**
+ * Object containing all pass template storage functions for convenient import
+ */
+export const passTemplateStorage = {
+  getPassTemplates,
+  savePassTemplates
+};
+
+export default passTemplateStorage;
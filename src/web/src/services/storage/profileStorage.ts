@@ -0,0 +1,220 @@
+/**
+ * Service responsible for storing the API key profiles and the profile in use in browser
+ * storage. Data tied to a profile's credentials, such as its API key and venues, is kept
+ * under storage keys scoped to the profile, so switching profiles never mixes them.
+ *
+ * @version 1.0.0
+ */
+
+import { StorageType, StorageOptions } from '../../types/storage.types';
+import { ApiKeyProfile } from '../../types/profile.types';
+import {
+  API_KEY,
+  API_KEY_VAULT,
+  API_KEY_PROFILES,
+  ACTIVE_PROFILE,
+  LANDMARKS,
+  SELECTED_LANDMARK,
+  SCHEDULED_JOBS,
+  FORM_STATE
+} from '../../constants/storageKeys';
+import { getItem, setItem, removeItem } from '../../utils/storage-helpers';
+
+/**
+ * Default storage options for profile storage
+ * Profiles hold names, venue IDs and addresses but no keys, so they are stored without encryption
+ */
+const DEFAULT_STORAGE_OPTIONS: Partial<StorageOptions> = {
+  type: StorageType.LOCAL,
+  encrypt: false
+};
+
+/**
+ * ID of the profile that always exists. It uses the storage keys the app used before
+ * profiles were added, so an existing API key and venues belong to it.
+ */
+export const DEFAULT_PROFILE_ID = 'default';
+
+/**
+ * Profile used when the user has not added or renamed any profiles
+ */
+export const DEFAULT_PROFILE: ApiKeyProfile = {
+  id: DEFAULT_PROFILE_ID,
+  name: 'Default'
+};
+
+/**
+ * Storage keys of the data each profile keeps separately, because it belongs to the
+ * ParkHub account the profile's API key gives access to
+ */
+const PROFILE_DATA_KEYS = [API_KEY, API_KEY_VAULT, LANDMARKS, SELECTED_LANDMARK, SCHEDULED_JOBS, FORM_STATE];
+
+/**
+ * Checks that a stored value has the shape of a profile
+ *
+ * @param value - The stored value
+ * @returns True if the value is a profile
+ */
+const isProfile = (value: unknown): value is ApiKeyProfile => {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const profile = value as Record<string, unknown>;
+  return typeof profile.id === 'string' && profile.id !== '' &&
+    typeof profile.name === 'string' &&
+    (profile.landMarkId === undefined || typeof profile.landMarkId === 'string') &&
+    (profile.baseUrl === undefined || typeof profile.baseUrl === 'string');
+};
+
+/**
+ * Retrieves every profile
+ *
+ * @returns The stored profiles, with the default profile first
+ */
+export const getProfiles = (): ApiKeyProfile[] => {
+  try {
+    const stored = getItem<unknown[]>(API_KEY_PROFILES, DEFAULT_STORAGE_OPTIONS);
+    const profiles = Array.isArray(stored) ? stored.filter(isProfile) : [];
+    const defaultProfile = profiles.find(profile => profile.id === DEFAULT_PROFILE_ID) || DEFAULT_PROFILE;
+
+    return [defaultProfile, ...profiles.filter(profile => profile.id !== DEFAULT_PROFILE_ID)];
+  } catch (error) {
+    console.error('Error retrieving API key profiles:', error);
+    return [DEFAULT_PROFILE];
+  }
+};
+
+/**
+ * Adds a profile to the stored list, or replaces the profile with the same ID
+ *
+ * @param profile - The profile to save
+ * @returns True if storage was successful, false otherwise
+ */
+export const saveProfile = (profile: ApiKeyProfile): boolean => {
+  try {
+    if (!isProfile(profile)) {
+      console.error('Invalid API key profile provided');
+      return false;
+    }
+
+    const profiles = getProfiles();
+    const index = profiles.findIndex(item => item.id === profile.id);
+    const updated = index === -1
+      ? [...profiles, profile]
+      : profiles.map((item, i) => (i === index ? profile : item));
+
+    return setItem<ApiKeyProfile[]>(API_KEY_PROFILES, updated, DEFAULT_STORAGE_OPTIONS);
+  } catch (error) {
+    console.error('Error storing API key profile:', error);
+    return false;
+  }
+};
+
+/**
+ * Removes a profile from the stored list with its API key, venues, scheduled batches and
+ * unfinished batch jobs. The default profile cannot be removed. If the removed profile
+ * was in use, the default profile is used instead.
+ *
+ * @param profileId - The ID of the profile to remove
+ * @returns True if removal was successful, false otherwise
+ */
+export const removeProfile = (profileId: string): boolean => {
+  try {
+    const profiles = getProfiles();
+    const remaining = profiles.filter(item => item.id !== profileId);
+
+    if (profileId === DEFAULT_PROFILE_ID || remaining.length === profiles.length) {
+      return false;
+    }
+
+    const wasActive = getActiveProfileId() === profileId;
+    const result = setItem<ApiKeyProfile[]>(API_KEY_PROFILES, remaining, DEFAULT_STORAGE_OPTIONS);
+
+    if (result) {
+      PROFILE_DATA_KEYS.forEach(key => removeItem(getProfileStorageKey(key, profileId), DEFAULT_STORAGE_OPTIONS));
+    }
+
+    if (result && wasActive) {
+      return setActiveProfileId(DEFAULT_PROFILE_ID);
+    }
+
+    return result;
+  } catch (error) {
+    console.error('Error removing API key profile:', error);
+    return false;
+  }
+};
+
+/**
+ * Retrieves the ID of the profile in use
+ *
+ * @returns The active profile ID, or the default profile ID if the stored one no longer exists
+ */
+export const getActiveProfileId = (): string => {
+  try {
+    const profileId = getItem<string>(ACTIVE_PROFILE, DEFAULT_STORAGE_OPTIONS);
+    return profileId && getProfiles().some(profile => profile.id === profileId)
+      ? profileId
+      : DEFAULT_PROFILE_ID;
+  } catch (error) {
+    console.error('Error retrieving active API key profile:', error);
+    return DEFAULT_PROFILE_ID;
+  }
+};
+
+/**
+ * Stores the ID of the profile in use
+ *
+ * @param profileId - The ID of the profile to use
+ * @returns True if storage was successful, false otherwise
+ */
+export const setActiveProfileId = (profileId: string): boolean => {
+  try {
+    if (!getProfiles().some(profile => profile.id === profileId)) {
+      console.error('Unknown API key profile provided');
+      return false;
+    }
+
+    return setItem<string>(ACTIVE_PROFILE, profileId, DEFAULT_STORAGE_OPTIONS);
+  } catch (error) {
+    console.error('Error storing active API key profile:', error);
+    return false;
+  }
+};
+
+/**
+ * Retrieves the profile in use
+ *
+ * @returns The active profile
+ */
+export const getActiveProfile = (): ApiKeyProfile => {
+  const profileId = getActiveProfileId();
+  return getProfiles().find(profile => profile.id === profileId) || DEFAULT_PROFILE;
+};
+
+/**
+ * Builds the storage key holding a profile's copy of some data. The default profile
+ * uses the key unchanged, so data stored before profiles were added stays with it.
+ *
+ * @param key - The storage key
+ * @param profileId - Optional profile ID (defaults to the active profile)
+ * @returns Storage key scoped to the profile
+ */
+export const getProfileStorageKey = (key: string, profileId: string = getActiveProfileId()): string =>
+  profileId === DEFAULT_PROFILE_ID ? key : `${key}_${profileId}`;
+
+/**
+ * Object containing all profile storage functions for convenient import
+ */
+export const profileStorage = {
+  getProfiles,
+  saveProfile,
+  removeProfile,
+  getActiveProfileId,
+  setActiveProfileId,
+  getActiveProfile,
+  getProfileStorageKey
+};
+
+export default profileStorage;
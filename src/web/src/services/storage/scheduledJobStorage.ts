@@ -0,0 +1,104 @@
+/**
+ * Service responsible for persisting scheduled pass batches in browser storage so they
+ * are still run after the app is closed and opened again. Batches of every venue are
+ * kept together, since the scheduler runs them all whichever venue is selected. Each API
+ * key profile has its own batches, which only run while that profile is in use.
+ *
+ * @version 1.0.0
+ */
+
+import { StorageType, StorageOptions } from '../../types/storage.types';
+import { ScheduledJob } from '../../types/schedule.types';
+import { SCHEDULED_JOBS } from '../../constants/storageKeys';
+import { getItem, setItem } from '../../utils/storage-helpers';
+import { getProfileStorageKey } from './profileStorage';
+
+/**
+ * Default storage options for scheduled batch storage
+ * Batches must survive the tab closing, so they are kept in local storage
+ */
+const DEFAULT_STORAGE_OPTIONS: Partial<StorageOptions> = {
+  type: StorageType.LOCAL,
+  encrypt: false
+};
+
+/**
+ * Retrieves all scheduled batches
+ *
+ * @returns The stored batches, soonest first
+ */
+export const getScheduledJobs = (): ScheduledJob[] => {
+  try {
+    const jobs = getItem<ScheduledJob[]>(getProfileStorageKey(SCHEDULED_JOBS), DEFAULT_STORAGE_OPTIONS);
+    return Array.isArray(jobs)
+      ? [...jobs].sort((a, b) => a.runAt.localeCompare(b.runAt))
+      : [];
+  } catch (error) {
+    console.error('Error retrieving scheduled batches:', error);
+    return [];
+  }
+};
+
+/**
+ * Retrieves a scheduled batch
+ *
+ * @param jobId - The ID of the batch to retrieve
+ * @returns The scheduled batch, or null if it is not stored
+ */
+export const getScheduledJob = (jobId: string): ScheduledJob | null =>
+  getScheduledJobs().find(job => job.id === jobId) || null;
+
+/**
+ * Adds a scheduled batch to storage, or replaces it if the ID is already present
+ *
+ * @param job - The scheduled batch to save
+ * @returns True if storage was successful, false otherwise
+ */
+export const saveScheduledJob = (job: ScheduledJob): boolean => {
+  try {
+    const jobs = getScheduledJobs();
+    const index = jobs.findIndex(item => item.id === job.id);
+    const updated = index === -1
+      ? [...jobs, job]
+      : jobs.map((item, i) => (i === index ? job : item));
+
+    return setItem<ScheduledJob[]>(getProfileStorageKey(SCHEDULED_JOBS), updated, DEFAULT_STORAGE_OPTIONS);
+  } catch (error) {
+    console.error('Error storing scheduled batch:', error);
+    return false;
+  }
+};
+
+/**
+ * Removes a scheduled batch from storage
+ *
+ * @param jobId - The ID of the batch to remove
+ * @returns True if removal was successful, false otherwise
+ */
+export const removeScheduledJob = (jobId: string): boolean => {
+  try {
+    const jobs = getScheduledJobs();
+    const remaining = jobs.filter(job => job.id !== jobId);
+
+    if (remaining.length === jobs.length) {
+      return false;
+    }
+
+    return setItem<ScheduledJob[]>(getProfileStorageKey(SCHEDULED_JOBS), remaining, DEFAULT_STORAGE_OPTIONS);
+  } catch (error) {
+    console.error('Error removing scheduled batch:', error);
+    return false;
+  }
+};
+
+/**
+ * Object containing all scheduled batch storage functions for convenient import
+ */
+export const scheduledJobStorage = {
+  getScheduledJobs,
+  getScheduledJob,
+  saveScheduledJob,
+  removeScheduledJob
+};
+
+export default scheduledJobStorage;
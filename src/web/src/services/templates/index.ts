@@ -0,0 +1,17 @@
+/**
+ * Barrel file for the templates module that exports the pass template service.
+ * Provides a single entry point for saving, loading and sharing pass templates.
+ * 
+ * @module services/templates
+ * @version 1.0.0
+ */
+
+import passTemplateService, {
+  PassTemplateService,
+  TEMPLATE_EXPORT_FORMAT,
+  TEMPLATE_EXPORT_VERSION
+} from './passTemplateService';
+
+export { passTemplateService, PassTemplateService, TEMPLATE_EXPORT_FORMAT, TEMPLATE_EXPORT_VERSION };
+
+export default passTemplateService;
\ No newline at end of file
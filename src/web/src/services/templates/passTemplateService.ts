@@ -0,0 +1,347 @@
+import { v4 as uuidv4 } from 'uuid'; // ^9.0.0
+import { PassFormData } from '../../types/form.types';
+import { SpotType } from '../../types/api.types';
+import {
+  PassTemplate,
+  PassTemplateExport,
+  PassTemplateListener,
+  PassTemplateRow
+} from '../../types/template.types';
+import { getPassTemplates, savePassTemplates } from '../storage/passTemplateStorage';
+import { getSelectedLandmarkId } from '../storage/landmarkStorage';
+import { normalizeSpotType } from '../../utils/import-helpers';
+
+/**
+ * Identifies a JSON file as a pass template export
+ */
+export const TEMPLATE_EXPORT_FORMAT = 'parkhub-pass-templates';
+
+/**
+ * Current version of the template export format
+ */
+export const TEMPLATE_EXPORT_VERSION = 1;
+
+/**
+ * Reads a value from an imported row as a trimmed string
+ * @param value - Raw value from the file
+ * @returns The value as a string, or an empty string if it isn't one
+ */
+const readString = (value: unknown): string => {
+  return typeof value === 'string' || typeof value === 'number' ? String(value).trim() : '';
+};
+
+/**
+ * Service that manages saved pass templates: named sets of passes without barcodes
+ * that can be loaded into the batch form for a new event, and shared as JSON files.
+ * Every venue (landmark) has its own templates.
+ */
+class PassTemplateService {
+  private readonly listeners = new Set<PassTemplateListener>();
+
+  /**
+   * Converts passes into template rows, dropping their barcodes and event
+   * @param passes - Passes from the batch form
+   * @returns The rows to save in a template
+   */
+  public toTemplateRows(passes: Array<PassFormData | PassTemplateRow>): PassTemplateRow[] {
+    return passes.map(pass => ({
+      accountId: pass.accountId.trim(),
+      customerName: pass.customerName.trim(),
+      spotType: pass.spotType,
+      lotId: pass.lotId.trim()
+    }));
+  }
+
+  /**
+   * Converts a template into passes for the batch form
+   * @param template - The template to load
+   * @param eventId - The event the passes will be created for
+   * @returns Passes without barcodes, in template order
+   */
+  public toPassFormData(template: PassTemplate, eventId: string): PassFormData[] {
+    return template.rows.map(row => ({
+      eventId,
+      accountId: row.accountId,
+      barcode: '',
+      customerName: row.customerName,
+      spotType: row.spotType,
+      lotId: row.lotId
+    }));
+  }
+
+  /**
+   * Saves passes as a new template of a venue
+   * @param name - Name of the template
+   * @param passes - Passes to save; their barcodes are not kept
+   * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
+   * @returns The saved template
+   * @throws Error if the name is blank or already used, or there are no passes
+   */
+  public createTemplate(
+    name: string,
+    passes: Array<PassFormData | PassTemplateRow>,
+    landMarkId: string = getSelectedLandmarkId()
+  ): PassTemplate {
+    const templates = getPassTemplates(landMarkId);
+    const templateName = this.validateName(name, templates);
+
+    if (passes.length === 0) {
+      throw new Error('A template needs at least one pass.');
+    }
+
+    const now = new Date().toISOString();
+    const template: PassTemplate = {
+      id: uuidv4(),
+      name: templateName,
+      rows: this.toTemplateRows(passes),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.save([...templates, template], landMarkId);
+    return template;
+  }
+
+  /**
+   * Renames a template of a venue
+   * @param templateId - ID of the template
+   * @param name - New name of the template
+   * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
+   * @returns The renamed template, or null if there is no such template
+   * @throws Error if the name is blank or used by another template
+   */
+  public renameTemplate(
+    templateId: string,
+    name: string,
+    landMarkId: string = getSelectedLandmarkId()
+  ): PassTemplate | null {
+    const templates = getPassTemplates(landMarkId);
+    const existing = templates.find(template => template.id === templateId);
+
+    if (!existing) {
+      return null;
+    }
+
+    const renamed: PassTemplate = {
+      ...existing,
+      name: this.validateName(name, templates.filter(template => template.id !== templateId)),
+      updatedAt: new Date().toISOString()
+    };
+
+    this.save(templates.map(template => (template.id === templateId ? renamed : template)), landMarkId);
+    return renamed;
+  }
+
+  /**
+   * Saves a copy of a template of a venue under a new name
+   * @param templateId - ID of the template to copy
+   * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
+   * @returns The copy, or null if there is no such template
+   */
+  public duplicateTemplate(
+    templateId: string,
+    landMarkId: string = getSelectedLandmarkId()
+  ): PassTemplate | null {
+    const templates = getPassTemplates(landMarkId);
+    const existing = templates.find(template => template.id === templateId);
+
+    if (!existing) {
+      return null;
+    }
+
+    const now = new Date().toISOString();
+    const copy: PassTemplate = {
+      id: uuidv4(),
+      name: this.uniqueName(`${existing.name} (copy)`, templates),
+      rows: existing.rows.map(row => ({ ...row })),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.save([...templates, copy], landMarkId);
+    return copy;
+  }
+
+  /**
+   * Deletes a template of a venue
+   * @param templateId - ID of the template
+   * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
+   * @returns True if the template was deleted, false otherwise
+   */
+  public deleteTemplate(templateId: string, landMarkId: string = getSelectedLandmarkId()): boolean {
+    const templates = getPassTemplates(landMarkId);
+    const remaining = templates.filter(template => template.id !== templateId);
+
+    if (remaining.length === templates.length) {
+      return false;
+    }
+
+    return this.save(remaining, landMarkId);
+  }
+
+  /**
+   * Builds the JSON file contents for sharing templates
+   * @param templates - The templates to export
+   * @returns Formatted JSON text
+   */
+  public exportTemplates(templates: PassTemplate[]): string {
+    const contents: PassTemplateExport = {
+      format: TEMPLATE_EXPORT_FORMAT,
+      version: TEMPLATE_EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      templates: templates.map(({ name, rows }) => ({ name, rows }))
+    };
+
+    return JSON.stringify(contents, null, 2);
+  }
+
+  /**
+   * Reads and validates the contents of a template export file
+   * @param json - Text of the file
+   * @returns The templates in the file
+   * @throws Error describing the first problem found in the file
+   */
+  public parseTemplateExport(json: string): PassTemplateExport['templates'] {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(json);
+    } catch (error) {
+      throw new Error('The file is not valid JSON.');
+    }
+
+    const contents = (parsed || {}) as Record<string, unknown>;
+    if (contents.format !== TEMPLATE_EXPORT_FORMAT || !Array.isArray(contents.templates)) {
+      throw new Error('The file is not a pass template export.');
+    }
+    if (typeof contents.version !== 'number' || contents.version > TEMPLATE_EXPORT_VERSION) {
+      throw new Error('The file was exported by a newer version of the application.');
+    }
+    if (contents.templates.length === 0) {
+      throw new Error('The file does not contain any templates.');
+    }
+
+    return contents.templates.map((item: unknown, templateIndex: number) => {
+      const template = (item || {}) as Record<string, unknown>;
+      const name = readString(template.name);
+
+      if (!name) {
+        throw new Error(`Template ${templateIndex + 1} has no name.`);
+      }
+      if (!Array.isArray(template.rows) || template.rows.length === 0) {
+        throw new Error(`Template "${name}" has no passes.`);
+      }
+
+      const rows = template.rows.map((rowItem: unknown, rowIndex: number): PassTemplateRow => {
+        const row = (rowItem || {}) as Record<string, unknown>;
+        const spotType = normalizeSpotType(readString(row.spotType));
+
+        if (!Object.values(SpotType).includes(spotType)) {
+          throw new Error(`Pass ${rowIndex + 1} of template "${name}" has an unknown spot type "${spotType}".`);
+        }
+
+        return {
+          accountId: readString(row.accountId),
+          customerName: readString(row.customerName),
+          spotType,
+          lotId: readString(row.lotId)
+        };
+      });
+
+      return { name, rows };
+    });
+  }
+
+  /**
+   * Adds the templates of an export file to a venue, renaming any whose name is taken
+   * @param json - Text of the file
+   * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
+   * @returns The templates added
+   * @throws Error if the file is not a valid template export
+   */
+  public importTemplates(json: string, landMarkId: string = getSelectedLandmarkId()): PassTemplate[] {
+    const imported = this.parseTemplateExport(json);
+    const templates = getPassTemplates(landMarkId);
+    const now = new Date().toISOString();
+    const added: PassTemplate[] = [];
+
+    imported.forEach(({ name, rows }) => {
+      added.push({
+        id: uuidv4(),
+        name: this.uniqueName(name, [...templates, ...added]),
+        rows,
+        createdAt: now,
+        updatedAt: now
+      });
+    });
+
+    this.save([...templates, ...added], landMarkId);
+    return added;
+  }
+
+  /**
+   * Registers a callback notified whenever the templates of a venue change
+   * @param listener - Callback receiving the landmark ID of the changed templates
+   * @returns Function that removes the callback
+   */
+  public subscribe(listener: PassTemplateListener): () => void {
+    this.listeners.add(listener);
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Checks a template name
+   * @param name - Name entered by the user
+   * @param others - The venue's other templates
+   * @returns The trimmed name
+   * @throws Error if the name is blank or used by another template
+   */
+  private validateName(name: string, others: PassTemplate[]): string {
+    const trimmed = name.trim();
+
+    if (!trimmed) {
+      throw new Error('Please enter a template name.');
+    }
+    if (others.some(template => template.name.toLowerCase() === trimmed.toLowerCase())) {
+      throw new Error(`A template named "${trimmed}" already exists.`);
+    }
+
+    return trimmed;
+  }
+
+  /**
+   * Numbers a template name until no other template uses it
+   * @param name - Preferred name
+   * @param others - The venue's other templates
+   * @returns The name, followed by a number if it was taken
+   */
+  private uniqueName(name: string, others: PassTemplate[]): string {
+    const taken = new Set(others.map(template => template.name.toLowerCase()));
+    let candidate = name;
+
+    for (let number = 2; taken.has(candidate.toLowerCase()); number++) {
+      candidate = `${name} ${number}`;
+    }
+
+    return candidate;
+  }
+
+  /**
+   * Stores the templates of a venue and notifies listeners
+   * @param templates - The venue's templates
+   * @param landMarkId - Landmark ID of the venue
+   * @returns True if the templates were saved, false otherwise
+   */
+  private save(templates: PassTemplate[], landMarkId: string): boolean {
+    const saved = savePassTemplates(templates, landMarkId);
+    this.listeners.forEach(listener => listener(landMarkId));
+    return saved;
+  }
+}
+
+// Export the class and a singleton instance
+export { PassTemplateService };
+export const passTemplateService = new PassTemplateService();
+export default passTemplateService;
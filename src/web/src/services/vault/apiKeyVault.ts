@@ -0,0 +1,283 @@
+/**
+ * Service that keeps the API key in a vault encrypted with a key derived from a passphrase
+ * the user chooses. The passphrase is never stored; the derived key and the API key are
+ * held in memory only while the vault is unlocked, and the vault locks itself again after
+ * a period without user activity.
+ *
+ * @version 1.0.0
+ */
+
+import { ApiKeyVaultRecord, VaultListener, VaultStatus } from '../../types/vault.types';
+import { getVaultRecord, saveVaultRecord, removeVaultRecord } from '../storage/apiKeyVaultStorage';
+import {
+  isWebCryptoAvailable,
+  bytesToBase64,
+  base64ToBytes,
+  generateSalt,
+  deriveKeyFromPassphrase,
+  encryptWithKey,
+  decryptWithKey
+} from '../../utils/crypto-helpers';
+
+/**
+ * Number of PBKDF2 iterations for new vaults, following the OWASP recommendation for SHA-256
+ */
+export const DEFAULT_KDF_ITERATIONS = 600000;
+
+/**
+ * Time without user activity after which an unlocked vault locks itself, in milliseconds
+ */
+export const DEFAULT_AUTO_LOCK_TIMEOUT = 15 * 60 * 1000;
+
+/**
+ * Shortest passphrase accepted for a new vault
+ */
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * Options of the API key vault
+ */
+interface ApiKeyVaultOptions {
+  /** Number of PBKDF2 iterations for new vaults */
+  iterations: number;
+  /** Time without user activity after which the vault locks itself, in milliseconds */
+  autoLockTimeout: number;
+}
+
+/**
+ * Service that encrypts the API key with a passphrase and locks it after inactivity
+ */
+class ApiKeyVault {
+  private readonly options: ApiKeyVaultOptions;
+  private key: CryptoKey | null = null;
+  private secret: string | null = null;
+  private lockTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners: Set<VaultListener> = new Set();
+
+  /**
+   * @param options - Key derivation and auto-lock options
+   */
+  constructor(options: Partial<ApiKeyVaultOptions> = {}) {
+    this.options = {
+      iterations: DEFAULT_KDF_ITERATIONS,
+      autoLockTimeout: DEFAULT_AUTO_LOCK_TIMEOUT,
+      ...options
+    };
+  }
+
+  /**
+   * Checks whether this browser can create and unlock vaults
+   * @returns True if the Web Crypto API is available
+   */
+  public isSupported(): boolean {
+    return isWebCryptoAvailable();
+  }
+
+  /**
+   * Gets the state of the vault
+   * @returns Whether vault mode is off, or the vault is locked or unlocked
+   */
+  public getStatus(): VaultStatus {
+    if (!getVaultRecord()) {
+      return VaultStatus.DISABLED;
+    }
+
+    return this.secret !== null ? VaultStatus.UNLOCKED : VaultStatus.LOCKED;
+  }
+
+  /**
+   * Gets the API key held by the unlocked vault
+   * @returns The API key, or null if the vault is locked or vault mode is off
+   */
+  public getSecret(): string | null {
+    return this.getStatus() === VaultStatus.UNLOCKED ? this.secret : null;
+  }
+
+  /**
+   * Creates a vault holding the API key, replacing any vault created before, and leaves it unlocked
+   * @param passphrase - The passphrase that will unlock the vault
+   * @param secret - The API key to keep in the vault
+   * @throws Error if the passphrase is too short, the browser can't encrypt or the vault can't be saved
+   */
+  public async create(passphrase: string, secret: string): Promise<void> {
+    if (!this.isSupported()) {
+      throw new Error('This browser can\'t protect the API key with a passphrase. Open the app over HTTPS and try again.');
+    }
+
+    if (!passphrase || passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+    }
+
+    const salt = generateSalt();
+    const key = await deriveKeyFromPassphrase(passphrase, salt, this.options.iterations);
+    const encrypted = await encryptWithKey(key, secret);
+    const record: ApiKeyVaultRecord = {
+      version: 1,
+      kdf: 'PBKDF2-SHA-256',
+      iterations: this.options.iterations,
+      salt: bytesToBase64(salt),
+      ...encrypted
+    };
+
+    if (!saveVaultRecord(record)) {
+      throw new Error('The API key vault could not be saved.');
+    }
+
+    this.setUnlocked(key, secret);
+  }
+
+  /**
+   * Unlocks the vault with the user's passphrase
+   * @param passphrase - The passphrase the vault was created with
+   * @returns Promise resolving to the API key held by the vault
+   * @throws Error if there is no vault or the passphrase is wrong
+   */
+  public async unlock(passphrase: string): Promise<string> {
+    const record = getVaultRecord();
+    if (!record) {
+      throw new Error('No API key is protected with a passphrase.');
+    }
+
+    if (!this.isSupported()) {
+      throw new Error('This browser can\'t unlock the API key. Open the app over HTTPS and try again.');
+    }
+
+    const key = await deriveKeyFromPassphrase(passphrase, base64ToBytes(record.salt), record.iterations);
+
+    let secret: string;
+    try {
+      secret = await decryptWithKey(key, record);
+    } catch (error) {
+      // AES-GCM decryption fails its integrity check when the key was derived from another passphrase
+      throw new Error('The passphrase is incorrect.');
+    }
+
+    this.setUnlocked(key, secret);
+    return secret;
+  }
+
+  /**
+   * Replaces the API key held by the unlocked vault, encrypting it with the same passphrase
+   * @param secret - The new API key
+   * @throws Error if the vault is locked or can't be saved
+   */
+  public async update(secret: string): Promise<void> {
+    const record = getVaultRecord();
+    if (!record || !this.key) {
+      throw new Error('Unlock the API key before changing it.');
+    }
+
+    if (secret === this.secret) {
+      return;
+    }
+
+    const encrypted = await encryptWithKey(this.key, secret);
+    if (!saveVaultRecord({ ...record, ...encrypted })) {
+      throw new Error('The API key vault could not be saved.');
+    }
+
+    this.secret = secret;
+    this.notify();
+  }
+
+  /**
+   * Forgets the API key and the derived key until the vault is unlocked again
+   */
+  public lock(): void {
+    const wasUnlocked = this.secret !== null;
+    this.clearMemory();
+
+    if (wasUnlocked) {
+      this.notify();
+    }
+  }
+
+  /**
+   * Deletes the vault and the API key it holds, turning vault mode off
+   */
+  public destroy(): void {
+    removeVaultRecord();
+    this.clearMemory();
+    this.notify();
+  }
+
+  /**
+   * Records user activity, restarting the time after which the unlocked vault locks itself
+   */
+  public recordActivity(): void {
+    if (this.secret !== null) {
+      this.startLockTimer();
+    }
+  }
+
+  /**
+   * Gets the time without user activity after which the vault locks itself
+   * @returns The timeout in milliseconds
+   */
+  public getAutoLockTimeout(): number {
+    return this.options.autoLockTimeout;
+  }
+
+  /**
+   * Subscribes to changes of the vault's state
+   * @param listener - Called with the state now and whenever it changes
+   * @returns Function that unsubscribes the listener
+   */
+  public subscribe(listener: VaultListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getStatus());
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Holds the keys of the unlocked vault and starts the auto-lock timer
+   * @param key - The key derived from the passphrase
+   * @param secret - The API key
+   */
+  private setUnlocked(key: CryptoKey, secret: string): void {
+    this.key = key;
+    this.secret = secret;
+    this.startLockTimer();
+    this.notify();
+  }
+
+  /**
+   * Restarts the auto-lock timer
+   */
+  private startLockTimer(): void {
+    if (this.lockTimer) {
+      clearTimeout(this.lockTimer);
+    }
+
+    this.lockTimer = setTimeout(() => this.lock(), this.options.autoLockTimeout);
+  }
+
+  /**
+   * Forgets the keys held in memory and stops the auto-lock timer
+   */
+  private clearMemory(): void {
+    if (this.lockTimer) {
+      clearTimeout(this.lockTimer);
+      this.lockTimer = null;
+    }
+
+    this.key = null;
+    this.secret = null;
+  }
+
+  /**
+   * Tells the listeners the vault's state
+   */
+  private notify(): void {
+    const status = this.getStatus();
+    this.listeners.forEach(listener => listener(status));
+  }
+}
+
+// Export the class and a singleton instance
+export { ApiKeyVault };
+export const apiKeyVault = new ApiKeyVault();
+export default apiKeyVault;
@@ -0,0 +1,19 @@
+/**
+ * Barrel file for the vault module that exports the API key vault.
+ * Provides a single entry point for protecting the API key with a passphrase,
+ * unlocking it and locking it again after inactivity.
+ * 
+ * @module services/vault
+ * @version 1.0.0
+ */
+
+import apiKeyVault, {
+  ApiKeyVault,
+  DEFAULT_AUTO_LOCK_TIMEOUT,
+  DEFAULT_KDF_ITERATIONS,
+  MIN_PASSPHRASE_LENGTH
+} from './apiKeyVault';
+
+export { apiKeyVault, ApiKeyVault, DEFAULT_AUTO_LOCK_TIMEOUT, DEFAULT_KDF_ITERATIONS, MIN_PASSPHRASE_LENGTH };
+
+export default apiKeyVault;
\ No newline at end of file
@@ -0,0 +1,20 @@
+/**
+ * Barrel file for the wallet module that exports the wallet export service and signers.
+ * Provides a single entry point for exporting passes to Apple Wallet and Google Wallet.
+ * 
+ * @module services/wallet
+ * @version 1.0.0
+ */
+
+import walletExportService, { WalletExportService } from './walletExportService';
+import { unsignedWalletSigner, UnsignedWalletSigner, CertificateWalletSigner } from './walletSigners';
+
+export {
+  walletExportService,
+  WalletExportService,
+  unsignedWalletSigner,
+  UnsignedWalletSigner,
+  CertificateWalletSigner
+};
+
+export default walletExportService;
\ No newline at end of file
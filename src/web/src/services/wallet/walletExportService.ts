@@ -0,0 +1,336 @@
+import JSZip from 'jszip'; // ^3.10.2
+import forge from 'node-forge'; // ^1.4.0
+
+import { Pass, PassStatus } from '../../types/pass.types';
+import { Event } from '../../types/event.types';
+import {
+  WalletConfig,
+  WalletFormat,
+  WalletExportOptions,
+  WalletPassSigner,
+  ApplePassIdentifiers,
+  ApplePassJson,
+  GoogleEventTicketClass,
+  GoogleEventTicketObject,
+  GoogleWalletPayload
+} from '../../types/wallet.types';
+import { WALLET_CONFIG, WALLET_ICON_PNG, WALLET_ICON_2X_PNG } from '../../constants/wallet';
+import { SPOT_TYPE_LABELS } from '../../constants/spotTypes';
+import { formatDate, formatDateTime } from '../../utils/date-helpers';
+import { downloadBlob, sanitizeFileName } from '../../utils/download-helpers';
+import { unsignedWalletSigner } from './walletSigners';
+
+/**
+ * MIME types for wallet files
+ */
+const PKPASS_MIME_TYPE = 'application/vnd.apple.pkpass';
+const PKPASSES_MIME_TYPE = 'application/vnd.apple.pkpasses';
+const JSON_MIME_TYPE = 'application/json';
+
+/**
+ * Google Wallet object states for each pass status
+ */
+const GOOGLE_OBJECT_STATES: Record<PassStatus, GoogleEventTicketObject['state']> = {
+  [PassStatus.ACTIVE]: 'ACTIVE',
+  [PassStatus.INACTIVE]: 'INACTIVE',
+  [PassStatus.USED]: 'COMPLETED',
+  [PassStatus.CANCELLED]: 'INACTIVE'
+};
+
+/**
+ * Restricts an ID segment to the characters Google Wallet accepts
+ * @param value - Raw ID segment
+ * @returns ID segment with other characters replaced by underscores
+ */
+const toGoogleIdSegment = (value: string): string => value.replace(/[^A-Za-z0-9._-]/g, '_');
+
+/**
+ * Encodes text as UTF-8 bytes
+ * @param text - Text to encode
+ * @returns UTF-8 bytes
+ */
+const encodeUtf8 = (text: string): Uint8Array => forge.util.binary.raw.decode(forge.util.encodeUtf8(text));
+
+/**
+ * Decodes base64 into bytes
+ * @param base64 - Base64-encoded data
+ * @returns Decoded bytes
+ */
+const decodeBase64 = (base64: string): Uint8Array => forge.util.binary.base64.decode(base64);
+
+/**
+ * Computes the SHA-1 hash of bytes, as listed in a .pkpass manifest
+ * @param bytes - File contents
+ * @returns Lower-case hex digest
+ */
+const sha1Hex = (bytes: Uint8Array): string => {
+  const digest = forge.md.sha1.create();
+  digest.update(forge.util.binary.raw.encode(bytes));
+  return digest.digest().toHex();
+};
+
+/**
+ * Service for exporting passes to Apple Wallet and Google Wallet.
+ * Apple passes are built as .pkpass bundles signed by a pluggable signer, so bundles
+ * can be built and tested offline; Google passes are exported as the event ticket class
+ * and objects to upload through the Google Wallet API or a Save to Google Wallet link.
+ */
+class WalletExportService {
+  private googleIssuerId = '';
+
+  /**
+   * @param config - Branding embedded in the passes
+   */
+  constructor(private readonly config: WalletConfig = WALLET_CONFIG) {}
+
+  /**
+   * Sets the Google Wallet issuer ID that Google Wallet passes are issued under
+   * @param googleIssuerId - Issuer ID from the Google Pay & Wallet Console, or empty if not set
+   */
+  public setGoogleIssuerId(googleIssuerId: string): void {
+    this.googleIssuerId = googleIssuerId.trim();
+  }
+
+  /**
+   * Builds the pass.json contents of an Apple Wallet event ticket
+   * @param pass - Pass to export
+   * @param event - Event used when the pass has no joined event
+   * @param identifiers - Identifiers of the certificate the pass is signed with
+   * @returns The pass.json object
+   */
+  public buildApplePassJson(
+    pass: Pass,
+    event?: Event | null,
+    identifiers: ApplePassIdentifiers = unsignedWalletSigner.identifiers
+  ): ApplePassJson {
+    const passEvent = this.getPassEvent(pass, event);
+    const spotType = SPOT_TYPE_LABELS[pass.spotType] || pass.spotType;
+
+    return {
+      formatVersion: 1,
+      passTypeIdentifier: identifiers.passTypeIdentifier,
+      serialNumber: pass.id || pass.barcode,
+      teamIdentifier: identifiers.teamIdentifier,
+      organizationName: this.config.organizationName,
+      description: `Parking pass${passEvent ? ` for ${passEvent.name}` : ''}`,
+      backgroundColor: this.config.backgroundColor,
+      foregroundColor: this.config.foregroundColor,
+      ...(passEvent ? { relevantDate: new Date(passEvent.date).toISOString() } : {}),
+      ...(pass.status === PassStatus.CANCELLED ? { voided: true } : {}),
+      barcodes: [
+        { format: 'PKBarcodeFormatQR', message: pass.barcode, messageEncoding: 'iso-8859-1', altText: pass.barcode },
+        { format: 'PKBarcodeFormatCode128', message: pass.barcode, messageEncoding: 'iso-8859-1', altText: pass.barcode }
+      ],
+      eventTicket: {
+        headerFields: [{ key: 'spot', label: 'SPOT', value: spotType }],
+        primaryFields: [{ key: 'event', label: 'EVENT', value: passEvent?.name || pass.eventId }],
+        secondaryFields: [
+          { key: 'lot', label: 'LOT', value: pass.lotId },
+          { key: 'date', label: 'DATE', value: passEvent ? formatDateTime(passEvent.date) : '' }
+        ],
+        auxiliaryFields: [{ key: 'name', label: 'NAME', value: pass.customerName }],
+        backFields: [
+          { key: 'venue', label: 'Venue', value: passEvent?.venue || '' },
+          { key: 'account', label: 'Account', value: pass.accountId },
+          { key: 'barcode', label: 'Barcode', value: pass.barcode }
+        ]
+      }
+    };
+  }
+
+  /**
+   * Builds a signed .pkpass bundle for a pass
+   * @param pass - Pass to export
+   * @param event - Event used when the pass has no joined event
+   * @param signer - Signer for the manifest
+   * @returns Promise resolving to the .pkpass file contents
+   */
+  public async buildPkpass(
+    pass: Pass,
+    event?: Event | null,
+    signer: WalletPassSigner = unsignedWalletSigner
+  ): Promise<Uint8Array> {
+    const files: Record<string, Uint8Array> = {
+      'pass.json': encodeUtf8(JSON.stringify(this.buildApplePassJson(pass, event, signer.identifiers), null, 2)),
+      'icon.png': decodeBase64(WALLET_ICON_PNG),
+      'icon@2x.png': decodeBase64(WALLET_ICON_2X_PNG)
+    };
+
+    const manifest = encodeUtf8(JSON.stringify(this.buildManifest(files), null, 2));
+    const signature = await signer.sign(manifest);
+
+    const zip = new JSZip();
+    Object.entries(files).forEach(([name, contents]) => zip.file(name, contents));
+    zip.file('manifest.json', manifest);
+
+    // Unsigned development bundles have no signature file
+    if (signature.length > 0) {
+      zip.file('signature', signature);
+    }
+
+    return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+  }
+
+  /**
+   * Builds the .pkpass manifest listing the SHA-1 hash of every file in the bundle
+   * @param files - Bundle files keyed by name
+   * @returns Manifest object
+   */
+  public buildManifest(files: Record<string, Uint8Array>): Record<string, string> {
+    return Object.keys(files).reduce((manifest, name) => {
+      manifest[name] = sha1Hex(files[name]);
+      return manifest;
+    }, {} as Record<string, string>);
+  }
+
+  /**
+   * Builds the Google Wallet event ticket class for an event
+   * @param eventId - ID of the event
+   * @param event - Event details, if available
+   * @returns The event ticket class
+   * @throws Error if no Google Wallet issuer ID has been set
+   */
+  public buildGoogleClass(eventId: string, event?: Event | null): GoogleEventTicketClass {
+    return {
+      id: `${this.getGoogleIssuerId()}.${toGoogleIdSegment(eventId)}`,
+      issuerName: this.config.organizationName,
+      eventName: { defaultValue: { language: 'en-US', value: event?.name || eventId } },
+      eventId,
+      reviewStatus: 'UNDER_REVIEW',
+      ...(event ? { dateTime: { start: new Date(event.date).toISOString() } } : {})
+    };
+  }
+
+  /**
+   * Builds the Google Wallet event ticket object for a pass
+   * @param pass - Pass to export
+   * @returns The event ticket object
+   * @throws Error if no Google Wallet issuer ID has been set
+   */
+  public buildGoogleObject(pass: Pass): GoogleEventTicketObject {
+    const issuerId = this.getGoogleIssuerId();
+
+    return {
+      id: `${issuerId}.${toGoogleIdSegment(pass.id || pass.barcode)}`,
+      classId: `${issuerId}.${toGoogleIdSegment(pass.eventId)}`,
+      state: GOOGLE_OBJECT_STATES[pass.status] || 'ACTIVE',
+      ticketHolderName: pass.customerName,
+      ticketNumber: pass.barcode,
+      barcode: { type: 'QR_CODE', value: pass.barcode, alternateText: pass.barcode },
+      textModulesData: [
+        { id: 'lot', header: 'Lot', body: pass.lotId },
+        { id: 'spot', header: 'Spot Type', body: SPOT_TYPE_LABELS[pass.spotType] || pass.spotType }
+      ]
+    };
+  }
+
+  /**
+   * Builds the Google Wallet payload for passes, with one class per event
+   * @param passes - Passes to export
+   * @param event - Event used for passes without a joined event
+   * @returns The Google Wallet payload
+   * @throws Error if no Google Wallet issuer ID has been set
+   */
+  public buildGooglePayload(passes: Pass[], event?: Event | null): GoogleWalletPayload {
+    const classes = new Map<string, GoogleEventTicketClass>();
+
+    passes.forEach(pass => {
+      if (!classes.has(pass.eventId)) {
+        classes.set(pass.eventId, this.buildGoogleClass(pass.eventId, this.getPassEvent(pass, event)));
+      }
+    });
+
+    return {
+      eventTicketClasses: Array.from(classes.values()),
+      eventTicketObjects: passes.map(pass => this.buildGoogleObject(pass))
+    };
+  }
+
+  /**
+   * Builds the default file name for exported wallet passes
+   * @param passes - Passes being exported
+   * @param event - Event the passes belong to
+   * @returns File name without extension
+   */
+  public getDefaultFileName(passes: Pass[], event?: Event | null): string {
+    if (passes.length === 1) {
+      return sanitizeFileName(`pass-${passes[0].barcode}`);
+    }
+
+    const parts = ['wallet-passes', event?.name || event?.id || '', formatDate(new Date(), 'YYYY-MM-DD')];
+    return sanitizeFileName(parts.filter(Boolean).join('-'));
+  }
+
+  /**
+   * Exports passes to a wallet format and downloads the file.
+   * Several Apple passes are bundled into one .pkpasses file.
+   * @param passes - Passes to export
+   * @param options - Export options
+   * @returns Promise resolving once the file has been handed to the browser
+   * @throws Error if there are no passes to export, signing fails or a Google Wallet
+   * export has no issuer ID
+   */
+  public async exportPasses(passes: Pass[], options: WalletExportOptions): Promise<void> {
+    if (passes.length === 0) {
+      throw new Error('There are no passes to export.');
+    }
+
+    const fileName = sanitizeFileName(options.fileName || this.getDefaultFileName(passes, options.event));
+
+    switch (options.format) {
+      case WalletFormat.APPLE: {
+        const signer = options.signer || unsignedWalletSigner;
+
+        if (passes.length === 1) {
+          const pkpass = await this.buildPkpass(passes[0], options.event, signer);
+          downloadBlob(new Blob([pkpass as BlobPart], { type: PKPASS_MIME_TYPE }), `${fileName}.pkpass`);
+          break;
+        }
+
+        const bundle = new JSZip();
+        for (const pass of passes) {
+          bundle.file(`${sanitizeFileName(`pass-${pass.barcode}`)}.pkpass`, await this.buildPkpass(pass, options.event, signer));
+        }
+
+        const contents = await bundle.generateAsync({ type: 'blob', mimeType: PKPASSES_MIME_TYPE });
+        downloadBlob(contents, `${fileName}.pkpasses`);
+        break;
+      }
+      case WalletFormat.GOOGLE: {
+        const payload = this.buildGooglePayload(passes, options.event);
+        downloadBlob(new Blob([JSON.stringify(payload, null, 2)], { type: JSON_MIME_TYPE }), `${fileName}.json`);
+        break;
+      }
+      default:
+        throw new Error(`Unsupported wallet format: ${options.format}`);
+    }
+  }
+
+  /**
+   * Gets the Google Wallet issuer ID
+   * @returns The issuer ID
+   * @throws Error if no issuer ID has been set
+   */
+  private getGoogleIssuerId(): string {
+    if (!this.googleIssuerId) {
+      throw new Error('Enter your Google Wallet issuer ID on the Settings page to export passes to Google Wallet.');
+    }
+
+    return this.googleIssuerId;
+  }
+
+  /**
+   * Finds the event a pass belongs to
+   * @param pass - Pass being exported
+   * @param event - Event used when the pass has no joined event
+   * @returns The pass's event, or null if unknown
+   */
+  private getPassEvent(pass: Pass, event?: Event | null): Event | null {
+    return pass.event || (event && event.id === pass.eventId ? event : null);
+  }
+}
+
+// Export the class and a singleton instance
+export { WalletExportService };
+export const walletExportService = new WalletExportService();
+export default walletExportService;
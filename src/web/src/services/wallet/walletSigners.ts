@@ -0,0 +1,158 @@
+import forge from 'node-forge'; // ^1.4.0
+
+import { ApplePassIdentifiers, WalletPassSigner, WalletSigningCertificates } from '../../types/wallet.types';
+import { UNSIGNED_PASS_IDENTIFIERS } from '../../constants/wallet';
+
+/**
+ * Object identifier of the user ID (UID) attribute, which holds the pass type identifier
+ * in the subject of a pass type ID certificate
+ */
+const USER_ID_OID = '0.9.2342.19200300.100.1.1';
+
+/**
+ * Converts a binary string, as used by node-forge, to bytes
+ * @param binary - Binary string
+ * @returns Byte array
+ */
+const binaryStringToBytes = (binary: string): Uint8Array => {
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * Converts bytes to a binary string, as used by node-forge
+ * @param bytes - Byte array
+ * @returns Binary string
+ */
+const bytesToBinaryString = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return binary;
+};
+
+/**
+ * Signer that leaves bundles unsigned. Wallet apps refuse to install unsigned
+ * passes, but the bundles can be inspected and tested without certificates.
+ */
+class UnsignedWalletSigner implements WalletPassSigner {
+  public readonly trusted = false;
+
+  /**
+   * @param identifiers - Identifiers written to the passes
+   */
+  constructor(public readonly identifiers: ApplePassIdentifiers = UNSIGNED_PASS_IDENTIFIERS) {}
+
+  /**
+   * Returns an empty signature
+   * @returns Empty signature
+   */
+  public async sign(): Promise<Uint8Array> {
+    return new Uint8Array(0);
+  }
+}
+
+/**
+ * Signer that creates the detached PKCS #7 signature Apple Wallet requires, using a
+ * locally supplied pass type ID certificate, its private key and the Apple WWDR certificate.
+ * The pass type and team identifiers are read from the certificate, so passes always match
+ * it. Certificates are only held in memory.
+ */
+class CertificateWalletSigner implements WalletPassSigner {
+  public readonly trusted = true;
+  public readonly identifiers: ApplePassIdentifiers;
+
+  private readonly certificate: forge.pki.Certificate;
+  private readonly wwdrCertificate: forge.pki.Certificate;
+  private readonly privateKey: forge.pki.PrivateKey;
+
+  /**
+   * @param certificates - PEM-encoded certificates and private key
+   * @throws Error if a certificate or the private key can't be read, or the certificate
+   * is not a pass type ID certificate
+   */
+  constructor(certificates: WalletSigningCertificates) {
+    try {
+      this.certificate = forge.pki.certificateFromPem(certificates.certificatePem);
+      this.wwdrCertificate = forge.pki.certificateFromPem(certificates.wwdrCertificatePem);
+    } catch (error) {
+      throw new Error('The signing certificates could not be read. Use PEM-encoded certificates.');
+    }
+
+    this.identifiers = this.readIdentifiers(this.certificate);
+
+    const privateKey = certificates.privateKeyPassphrase
+      ? forge.pki.decryptRsaPrivateKey(certificates.privateKeyPem, certificates.privateKeyPassphrase)
+      : this.readPrivateKey(certificates.privateKeyPem);
+
+    if (!privateKey) {
+      throw new Error('The private key could not be read. Check the key file and passphrase.');
+    }
+
+    this.privateKey = privateKey;
+  }
+
+  /**
+   * Signs the manifest with a detached PKCS #7 signature
+   * @param manifest - Manifest file contents
+   * @returns DER-encoded signature
+   */
+  public async sign(manifest: Uint8Array): Promise<Uint8Array> {
+    const signedData = forge.pkcs7.createSignedData();
+
+    signedData.content = forge.util.createBuffer(bytesToBinaryString(manifest));
+    signedData.addCertificate(this.certificate);
+    signedData.addCertificate(this.wwdrCertificate);
+    signedData.addSigner({
+      key: this.privateKey as forge.pki.rsa.PrivateKey,
+      certificate: this.certificate,
+      digestAlgorithm: forge.pki.oids.sha256,
+      authenticatedAttributes: [
+        { type: forge.pki.oids.contentType, value: forge.pki.oids.data },
+        { type: forge.pki.oids.messageDigest },
+        { type: forge.pki.oids.signingTime }
+      ]
+    });
+    signedData.sign({ detached: true });
+
+    return binaryStringToBytes(forge.asn1.toDer(signedData.toAsn1()).getBytes());
+  }
+
+  /**
+   * Reads the pass type and team identifiers from the subject of a pass type ID certificate
+   * @param certificate - Pass type ID certificate
+   * @returns The identifiers passes signed with the certificate must carry
+   * @throws Error if the certificate has no pass type or team identifier
+   */
+  private readIdentifiers(certificate: forge.pki.Certificate): ApplePassIdentifiers {
+    const passTypeIdentifier = certificate.subject.getField({ type: USER_ID_OID })?.value;
+    const teamIdentifier = certificate.subject.getField('OU')?.value;
+
+    if (typeof passTypeIdentifier !== 'string' || !passTypeIdentifier.startsWith('pass.') || !teamIdentifier) {
+      throw new Error('The certificate is not a pass type ID certificate. Use the certificate Apple issued for your pass type ID.');
+    }
+
+    return { passTypeIdentifier, teamIdentifier: String(teamIdentifier) };
+  }
+
+  /**
+   * Reads an unencrypted private key
+   * @param pem - PEM-encoded private key
+   * @returns The private key, or null if it can't be read
+   */
+  private readPrivateKey(pem: string): forge.pki.PrivateKey | null {
+    try {
+      return forge.pki.privateKeyFromPem(pem);
+    } catch (error) {
+      return null;
+    }
+  }
+}
+
+// Export the classes and the unsigned signer used when no certificates are supplied
+export { UnsignedWalletSigner, CertificateWalletSigner };
+export const unsignedWalletSigner = new UnsignedWalletSigner();
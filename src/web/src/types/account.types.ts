@@ -0,0 +1,75 @@
+/**
+ * TypeScript type definitions for the account directory.
+ * The directory remembers the customer accounts seen on passes, keyed by account ID,
+ * so season-ticket holders don't need to be typed in again for every event.
+ *
+ * @version 1.0.0
+ */
+
+/**
+ * Interface for one pass in an account's history.
+ */
+export interface AccountPassRecord {
+  /** ID of the pass */
+  passId: string;
+  /** ID of the event the pass is for */
+  eventId: string;
+  /** Name of the event, if it was known when the pass was recorded */
+  eventName: string | null;
+  /** Barcode of the pass */
+  barcode: string;
+  /** Customer name on the pass */
+  customerName: string;
+  /** Type of parking spot */
+  spotType: string;
+  /** Identifier for the parking lot */
+  lotId: string;
+  /** Current status of the pass */
+  status: string;
+  /** Timestamp when the pass was created (ISO string format) */
+  createdAt: string;
+}
+
+/**
+ * Interface for a customer account known from its passes.
+ */
+export interface AccountRecord {
+  /** Customer account ID */
+  accountId: string;
+  /** Customer name on the most recent pass */
+  customerName: string;
+  /** Other names seen on the account's passes */
+  otherNames: string[];
+  /** Creation time of the account's oldest pass (ISO string format) */
+  firstSeen: string;
+  /** Creation time of the account's newest pass (ISO string format) */
+  lastSeen: string;
+  /** The account's passes, newest first */
+  history: AccountPassRecord[];
+}
+
+/**
+ * Type for the accounts of one venue keyed by account ID.
+ */
+export type AccountDirectory = Record<string, AccountRecord>;
+
+/**
+ * Type for a callback notified whenever the directory of a venue changes.
+ */
+export type AccountDirectoryListener = (landMarkId: string) => void;
+
+/**
+ * Interface representing the return value of the useAccountDirectory hook.
+ */
+export interface AccountDirectoryHookResult {
+  /** Every known account, most recently seen first */
+  accounts: AccountRecord[];
+  /** Finds accounts whose ID or customer name matches a query, best first */
+  searchAccounts: (query: string, limit?: number) => AccountRecord[];
+  /** Looks up an account by ID */
+  getAccount: (accountId: string) => AccountRecord | null;
+  /** Removes an account from the directory */
+  removeAccount: (accountId: string) => void;
+  /** Removes every account of the selected venue */
+  clearDirectory: () => void;
+}
@@ -0,0 +1,102 @@
+/**
+ * TypeScript type definitions for pass analytics.
+ * Passes from every event of the selected venue are aggregated by event, spot type,
+ * lot, status and creation date for the charts on the dashboard.
+ *
+ * @version 1.0.0
+ */
+
+/**
+ * Enum for the preset date ranges offered by the dashboard.
+ */
+export enum AnalyticsRangePreset {
+  /** The last 7 days, including today */
+  LAST_7_DAYS = 'last7',
+  /** The last 30 days, including today */
+  LAST_30_DAYS = 'last30',
+  /** The last 90 days, including today */
+  LAST_90_DAYS = 'last90',
+  /** Every pass, however old */
+  ALL_TIME = 'all',
+  /** Dates chosen by the user */
+  CUSTOM = 'custom'
+}
+
+/**
+ * Enum for the length of each point on the creation-over-time chart.
+ */
+export enum AnalyticsInterval {
+  /** One point per day */
+  DAY = 'day',
+  /** One point per week, starting on Monday */
+  WEEK = 'week'
+}
+
+/**
+ * Interface for the range of pass creation dates included in the analytics.
+ * A null bound leaves that side of the range open.
+ */
+export interface AnalyticsDateRange {
+  /** First creation date included (start of day) */
+  from: Date | null;
+  /** Last creation date included (end of day) */
+  to: Date | null;
+}
+
+/**
+ * Interface for one bar, slice or point of a chart.
+ */
+export interface AnalyticsDatum {
+  /** Stable key of the group (event ID, spot type, lot ID, status or bucket start date) */
+  key: string;
+  /** Label shown on the chart */
+  label: string;
+  /** Number of passes in the group */
+  value: number;
+}
+
+/**
+ * Interface for passes aggregated over a date range.
+ */
+export interface PassAnalytics {
+  /** Number of passes created within the range */
+  totalPasses: number;
+  /** Number of events with at least one pass in the range */
+  eventsWithPasses: number;
+  /** Passes per event, most first */
+  byEvent: AnalyticsDatum[];
+  /** Passes per spot type, in spot type order */
+  bySpotType: AnalyticsDatum[];
+  /** Passes per lot, most first */
+  byLot: AnalyticsDatum[];
+  /** Passes per status, in status order */
+  byStatus: AnalyticsDatum[];
+  /** Passes per day or week of creation, oldest first, including empty days or weeks */
+  byCreationDate: AnalyticsDatum[];
+  /** Length of each point of byCreationDate */
+  interval: AnalyticsInterval;
+}
+
+/**
+ * Interface representing the return value of the useAnalytics hook.
+ */
+export interface AnalyticsHookResult {
+  /** Passes aggregated over the current range */
+  analytics: PassAnalytics;
+  /** Current range of creation dates */
+  range: AnalyticsDateRange;
+  /** Preset the current range was chosen from */
+  preset: AnalyticsRangePreset;
+  /** Selects a preset range */
+  selectPreset: (preset: AnalyticsRangePreset) => void;
+  /** Sets a custom range */
+  setCustomRange: (range: AnalyticsDateRange) => void;
+  /** Whether events or passes are loading */
+  loading: boolean;
+  /** Error information if events couldn't be loaded */
+  error: Error | null;
+  /** Number of events whose passes couldn't be loaded */
+  failedEvents: number;
+  /** Reloads every event's passes from the API */
+  refresh: () => Promise<void>;
+}
@@ -7,6 +7,7 @@
  */
 
 import { ApiResponse, ApiError } from './common.types';
+import { BatchCreationOptions } from './batchJob.types';
 import { LANDMARK_ID } from '../constants/apiEndpoints';
 
 /**
@@ -115,6 +116,37 @@ export interface CreatePassResponse {
   error?: ApiError;
 }
 
+/**
+ * Request body for updating an existing parking pass.
+ * Only the fields provided are changed.
+ */
+export interface UpdatePassRequest {
+  /** Account ID associated with this pass */
+  accountId?: string;
+  /** Name of the customer associated with this pass */
+  customerName?: string;
+  /** Type of parking spot (Regular, VIP, Premium) */
+  spotType?: string;
+  /** Identifier for the parking lot */
+  lotId?: string;
+  /** Pass status (active, inactive, used, cancelled) */
+  status?: string;
+}
+
+/**
+ * Response from the update and cancel pass API endpoints.
+ */
+export interface UpdatePassResponse {
+  /** Indicates whether the operation was successful */
+  success: boolean;
+  /** ID of the updated pass if successful */
+  passId?: string;
+  /** Status of the pass after the operation */
+  status?: string;
+  /** Error information if the operation failed */
+  error?: ApiError;
+}
+
 /**
  * Result of a batch pass creation operation.
  */
@@ -127,6 +159,10 @@ export interface BatchPassCreationResult {
   totalSuccess: number;
   /** Total number of passes that failed to create */
   totalFailed: number;
+  /** Whether the batch was cancelled before every pass was sent */
+  cancelled?: boolean;
+  /** Passes that were not sent because the batch was cancelled */
+  notSent?: Array<{ barcode: string; customerName: string }>;
 }
 
 /**
@@ -141,6 +177,10 @@ export interface ApiClientConfig {
   timeout: number;
   /** Number of retry attempts for failed requests */
   retryCount: number;
+  /** Maximum number of requests started per second */
+  requestsPerSecond?: number;
+  /** Maximum number of requests in flight at once */
+  maxConcurrentRequests?: number;
 }
 
 /**
@@ -203,16 +243,53 @@ export interface PassesApiInterface {
   /**
    * Create a new parking pass
    * @param data - Pass data to create
+   * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
+   * @param idempotencyKey - Optional key sent with every attempt (generated if not provided)
    * @returns Promise resolving to the API response for the creation
    */
-  createPass(data: CreatePassRequest): Promise<ApiResponse<CreatePassResponse>>;
+  createPass(
+    data: CreatePassRequest,
+    landMarkId?: string,
+    idempotencyKey?: string
+  ): Promise<ApiResponse<CreatePassResponse>>;
   
   /**
    * Create multiple parking passes in a batch
    * @param data - Array of pass data to create
+   * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
+   * @param options - Optional progress callbacks and cancellation signal
    * @returns Promise resolving to the batch creation result
    */
-  createMultiplePasses(data: CreatePassRequest[]): Promise<BatchPassCreationResult>;
+  createMultiplePasses(
+    data: CreatePassRequest[],
+    landMarkId?: string,
+    options?: BatchCreationOptions
+  ): Promise<BatchPassCreationResult>;
+  
+  /**
+   * Update an existing parking pass
+   * @param passId - ID of the pass to update
+   * @param data - Fields to change
+   * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
+   * @returns Promise resolving to the API response for the update
+   */
+  updatePass(passId: string, data: UpdatePassRequest, landMarkId?: string): Promise<ApiResponse<UpdatePassResponse>>;
+  
+  /**
+   * Cancel a parking pass
+   * @param passId - ID of the pass to cancel
+   * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
+   * @returns Promise resolving to the API response for the cancellation
+   */
+  cancelPass(passId: string, landMarkId?: string): Promise<ApiResponse<UpdatePassResponse>>;
+  
+  /**
+   * Reactivate a cancelled or inactive parking pass
+   * @param passId - ID of the pass to reactivate
+   * @param landMarkId - Optional landmark ID (defaults to the selected landmark)
+   * @returns Promise resolving to the API response for the reactivation
+   */
+  reactivatePass(passId: string, landMarkId?: string): Promise<ApiResponse<UpdatePassResponse>>;
 }
 
 /**
@@ -0,0 +1,76 @@
+/**
+ * TypeScript type definitions for API key verification. The API key is verified by
+ * requesting the events of a venue, which tells a key ParkHub rejects apart from one
+ * that has expired, one that may not access the venue and a ParkHub that can't be reached.
+ *
+ * @version 1.0.0
+ */
+
+import { AppError } from './error.types';
+
+/**
+ * Enum for the result of verifying the API key.
+ */
+export enum ApiKeyStatus {
+  /** The key has not been verified yet, or there is no key */
+  UNKNOWN = 'unknown',
+  /** The key is being verified */
+  CHECKING = 'checking',
+  /** ParkHub accepted the key for the venue */
+  VALID = 'valid',
+  /** ParkHub does not recognise the key */
+  INVALID = 'invalid',
+  /** The key was valid but has expired */
+  EXPIRED = 'expired',
+  /** The key is valid but may not access the venue */
+  FORBIDDEN = 'forbidden',
+  /** ParkHub could not be reached or failed to answer, so the key could not be verified */
+  UNREACHABLE = 'unreachable',
+  /** ParkHub answered with an error that says nothing about the key */
+  UNVERIFIED = 'unverified'
+}
+
+/**
+ * Result of verifying an API key against a venue.
+ */
+export interface ApiKeyVerification {
+  /** What the verification found */
+  status: ApiKeyStatus;
+  /** Venue (landmark) the key was verified against */
+  landMarkId: string;
+  /** Time of the verification in milliseconds since the epoch */
+  checkedAt: number;
+  /** Error returned by the API, or null if the key was accepted */
+  error: AppError | null;
+}
+
+/**
+ * Health of the API key in use, as reported in the header.
+ */
+export interface ApiKeyHealth {
+  /** Result of the latest verification */
+  status: ApiKeyStatus;
+  /** Venue the latest verification was made against, or null if there was none */
+  landMarkId: string | null;
+  /** Time of the latest verification, or null if there was none */
+  checkedAt: number | null;
+  /** Time ParkHub last accepted the key, or null if it has not since the key was entered */
+  lastVerifiedAt: number | null;
+  /** Error returned by the latest verification, or null */
+  error: AppError | null;
+}
+
+/**
+ * Listener called with the health of the API key whenever it changes.
+ */
+export type ApiKeyHealthListener = (health: ApiKeyHealth) => void;
+
+/**
+ * Interface representing the return value of the useApiKeyHealth hook.
+ */
+export interface ApiKeyHealthHookResult {
+  /** Health of the API key in use */
+  health: ApiKeyHealth;
+  /** Verifies the key against the selected venue again */
+  verify: () => Promise<ApiKeyHealth>;
+}
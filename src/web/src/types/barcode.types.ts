@@ -0,0 +1,49 @@
+/**
+ * TypeScript type definitions for generating pass barcodes.
+ * These types describe the supported numbering schemes, the options for a
+ * generation request and the result returned to the batch form.
+ *
+ * @version 1.0.0
+ */
+
+/**
+ * Enum for the schemes used to generate barcodes.
+ */
+export enum BarcodeScheme {
+  /** Consecutive numbers following the highest barcode already in use */
+  SEQUENTIAL = 'sequential',
+  /** Random unused numbers */
+  RANDOM = 'random',
+  /** Consecutive numbers filled into a prefix template such as BC24#### */
+  TEMPLATE = 'template'
+}
+
+/**
+ * Interface for options controlling a barcode generation request.
+ */
+export interface BarcodeGenerationOptions {
+  /** Scheme used to pick the barcode numbers */
+  scheme: BarcodeScheme;
+  /** Number of barcodes to generate */
+  count: number;
+  /**
+   * Template for the TEMPLATE scheme: "BC" followed by six digits or '#' placeholders.
+   * A shorter prefix such as "BC24" is padded with placeholders.
+   */
+  template?: string;
+  /**
+   * First number to try for the SEQUENTIAL and TEMPLATE schemes, counted across the
+   * placeholder digits; defaults to one after the highest barcode already in use
+   */
+  start?: number;
+}
+
+/**
+ * Interface for the result of generating barcodes for an event.
+ */
+export interface BarcodeGenerationResult {
+  /** Generated barcodes, in the order they should be assigned */
+  barcodes: string[];
+  /** Number of barcodes already in use that were skipped */
+  skipped: number;
+}
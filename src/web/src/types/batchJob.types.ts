@@ -0,0 +1,144 @@
+/**
+ * TypeScript type definitions for persistent batch creation jobs.
+ * A batch job records every pass in a batch together with its progress so a batch
+ * interrupted by a closed tab or crash can be resumed without creating duplicates.
+ *
+ * @version 1.0.0
+ */
+
+import { ApiError } from './common.types';
+import { CreatePassRequest } from './api.types';
+
+/**
+ * Enum for the progress of a single pass within a batch job.
+ */
+export enum BatchJobItemStatus {
+  /** Not yet sent to the API */
+  PENDING = 'pending',
+  /** Sent to the API, but no response has been recorded */
+  SENT = 'sent',
+  /** The API created the pass */
+  SUCCEEDED = 'succeeded',
+  /** The API rejected the pass */
+  FAILED = 'failed'
+}
+
+/**
+ * Interface for a single pass within a batch job.
+ */
+export interface BatchJobItem {
+  /** Pass creation request sent to the API */
+  request: CreatePassRequest;
+  /** Progress of the request */
+  status: BatchJobItemStatus;
+  /** Idempotency key sent with every attempt to create the pass, including after a resume */
+  idempotencyKey?: string;
+  /** ID of the created pass, once succeeded */
+  passId?: string;
+  /** Error returned by the API, once failed */
+  error?: ApiError;
+}
+
+/**
+ * Interface for a batch creation job persisted in browser storage.
+ */
+export interface BatchJob {
+  /** Unique identifier for the job */
+  id: string;
+  /** Event the passes are created for */
+  eventId: string;
+  /** Landmark (venue) the passes are created at */
+  landMarkId: string;
+  /** When the job was created (ISO string format) */
+  createdAt: string;
+  /** When an item last changed status (ISO string format) */
+  updatedAt: string;
+  /** Passes in the batch, in submission order */
+  items: BatchJobItem[];
+}
+
+/**
+ * Interface for the item counts of a batch job.
+ */
+export interface BatchJobProgress {
+  /** Total number of passes in the job */
+  total: number;
+  /** Number of passes not yet sent */
+  pending: number;
+  /** Number of passes sent without a recorded response */
+  sent: number;
+  /** Number of passes created */
+  succeeded: number;
+  /** Number of passes rejected */
+  failed: number;
+}
+
+/**
+ * Callback notified when a pass in a batch changes status.
+ * @param index - Position of the pass in the submitted batch
+ * @param status - New status of the pass
+ * @param outcome - Created pass ID or error, once the API has responded
+ */
+export type BatchItemStatusHandler = (
+  index: number,
+  status: BatchJobItemStatus,
+  outcome?: { passId?: string; error?: ApiError }
+) => void;
+
+/**
+ * Enum for the kinds of progress event emitted while a batch is created.
+ */
+export enum BatchProgressEventType {
+  /** A single pass has been answered */
+  PASS = 'pass',
+  /** Every pass in a chunk has been answered */
+  CHUNK = 'chunk'
+}
+
+/**
+ * Interface for a progress event emitted while a batch is created.
+ */
+export interface BatchProgress {
+  /** What the event reports */
+  type: BatchProgressEventType;
+  /** Total number of passes being sent */
+  total: number;
+  /** Number of passes answered so far */
+  completed: number;
+  /** Number of passes created so far */
+  succeeded: number;
+  /** Number of passes rejected so far */
+  failed: number;
+  /** Number of chunks answered so far */
+  completedChunks: number;
+  /** Total number of chunks */
+  totalChunks: number;
+  /** When sending started (milliseconds since the epoch) */
+  startedAt: number;
+}
+
+/**
+ * Callback notified with the progress of a batch.
+ * @param progress - Progress of the batch so far
+ */
+export type BatchProgressHandler = (progress: BatchProgress) => void;
+
+/**
+ * Interface for options controlling how a batch is created.
+ */
+export interface BatchCreationOptions {
+  /** Callback notified as each pass is sent and answered */
+  onItemStatus?: BatchItemStatusHandler;
+  /** Callback notified after each pass and each chunk is answered */
+  onProgress?: BatchProgressHandler;
+  /** Signal that stops further chunks from being sent once aborted */
+  signal?: AbortSignal;
+  /** Idempotency keys for the passes, by index (generated where not provided) */
+  idempotencyKeys?: string[];
+}
+
+/**
+ * Options for running a batch job. Item statuses and idempotency keys are managed by the
+ * batch job service itself.
+ */
+export type BatchJobOptions = Omit<BatchCreationOptions, 'onItemStatus' | 'idempotencyKeys'>;
@@ -0,0 +1,125 @@
+/**
+ * TypeScript type definitions for cloning passes between events.
+ * Recurring events often need the same passes game after game, so the passes of a
+ * source event can be copied to a target event, with their barcodes kept or
+ * regenerated, after reviewing a preview of what will be created.
+ *
+ * @version 1.0.0
+ */
+
+import { ParkHubPass } from './api.types';
+import { Event } from './event.types';
+import { PassFormData } from './form.types';
+import { BatchJobOptions } from './batchJob.types';
+import { PassCreationSummary } from './pass.types';
+
+/**
+ * Enum for how the barcodes of cloned passes are chosen.
+ */
+export enum CloneBarcodeRule {
+  /** Keep the source barcode; passes whose barcode is already used by the target event are skipped */
+  KEEP = 'keep',
+  /** Keep the source barcode unless the target event already uses it, then generate a new one */
+  KEEP_UNLESS_TAKEN = 'keep-unless-taken',
+  /** Generate a new barcode for every pass */
+  REGENERATE = 'regenerate'
+}
+
+/**
+ * Enum for what happens to a selected pass when the clone is submitted.
+ */
+export enum ClonePassOutcome {
+  /** Created with the source barcode */
+  KEEP_BARCODE = 'keep-barcode',
+  /** Created with a newly generated barcode */
+  NEW_BARCODE = 'new-barcode',
+  /** Skipped because the target event already uses its barcode */
+  SKIP_BARCODE_TAKEN = 'skip-barcode-taken',
+  /** Skipped because the target event already has the same pass */
+  SKIP_EXISTING = 'skip-existing'
+}
+
+/**
+ * Interface for options controlling how passes are cloned.
+ */
+export interface ClonePlanOptions {
+  /** How the barcodes of cloned passes are chosen */
+  barcodeRule: CloneBarcodeRule;
+  /**
+   * Whether to skip passes the target event already has, matched by account, customer
+   * name, spot type and lot
+   */
+  skipExisting: boolean;
+}
+
+/**
+ * Interface for the preview of one selected pass.
+ */
+export interface ClonePlanItem {
+  /** The pass in the source event */
+  source: ParkHubPass;
+  /** The pass that will be created, or null if it is skipped */
+  pass: PassFormData | null;
+  /** What happens to the pass */
+  outcome: ClonePassOutcome;
+}
+
+/**
+ * Interface for the preview of a clone, listing what will happen to each selected pass.
+ */
+export interface ClonePlan {
+  /** ID of the event the passes are copied to */
+  targetEventId: string;
+  /** Every selected pass, in source order */
+  items: ClonePlanItem[];
+  /** The passes that will be created */
+  passes: PassFormData[];
+  /** Number of passes created with their source barcode */
+  keptCount: number;
+  /** Number of passes created with a new barcode */
+  regeneratedCount: number;
+  /** Number of selected passes that are skipped */
+  skippedCount: number;
+}
+
+/**
+ * Interface representing the return value of the usePassClone hook.
+ */
+export interface PassCloneHookResult {
+  /** Events that can be chosen as source or target */
+  events: Event[];
+  /** ID of the event passes are copied from */
+  sourceEventId: string;
+  /** Sets the event passes are copied from */
+  setSourceEventId: (eventId: string) => void;
+  /** ID of the event passes are copied to */
+  targetEventId: string;
+  /** Sets the event passes are copied to */
+  setTargetEventId: (eventId: string) => void;
+  /** Passes of the source event */
+  sourcePasses: ParkHubPass[];
+  /** Number of passes the target event already has */
+  targetPassCount: number;
+  /** IDs of the source passes chosen to be copied */
+  selectedPassIds: string[];
+  /** Selects or deselects a source pass */
+  togglePass: (passId: string) => void;
+  /** Selects every source pass, or none */
+  setAllSelected: (selected: boolean) => void;
+  /** Current clone options */
+  options: ClonePlanOptions;
+  /** Updates the clone options */
+  setOptions: (options: Partial<ClonePlanOptions>) => void;
+  /** Preview of the clone, null until both events are loaded */
+  plan: ClonePlan | null;
+  /** Error building the preview, such as running out of barcodes */
+  planError: string | null;
+  /** Whether the passes of either event are loading */
+  loading: boolean;
+  /** Error loading the passes of either event */
+  error: Error | null;
+  /** Creates the planned passes in the target event */
+  submit: (options?: BatchJobOptions) => Promise<PassCreationSummary>;
+  /** Reloads the passes of both events */
+  refresh: () => void;
+}
@@ -0,0 +1,108 @@
+/**
+ * TypeScript type definitions for the runtime configuration of the application.
+ * Settings are merged from five layers, each overriding the one before: built-in defaults,
+ * environment variables set when the app is built, an optional config.json served with the
+ * app, overrides the user saves on the Settings page, and the API key profile in use.
+ *
+ * @version 1.0.0
+ */
+
+/**
+ * Runtime settings of the application.
+ */
+export interface AppConfig {
+  /** Base URL of the ParkHub API */
+  apiBaseUrl: string;
+  /** Landmark (venue) ID used when the user hasn't selected a venue */
+  landMarkId: string;
+  /** Time to wait for an API response before giving up, in milliseconds */
+  requestTimeout: number;
+  /** Number of times a failed API request is retried */
+  retryCount: number;
+  /** How long cached events and passes are used before they are fetched again, in milliseconds */
+  cacheExpiry: number;
+  /** Whether API requests are answered by the in-browser mock ParkHub API */
+  enableMockApi: boolean;
+  /** Google Wallet issuer ID that exported Google Wallet passes are issued under, or empty if not set */
+  googleIssuerId: string;
+}
+
+/**
+ * Name of a runtime setting.
+ */
+export type AppConfigKey = keyof AppConfig;
+
+/**
+ * Settings the user can override on the Settings page. The API address is only set by the
+ * deployment or by an API key profile, together with the key used with it, and mock mode
+ * is decided by the deployment.
+ */
+export type UserConfigOverrides = Partial<Pick<
+  AppConfig,
+  'landMarkId' | 'requestTimeout' | 'retryCount' | 'cacheExpiry' | 'googleIssuerId'
+>>;
+
+/**
+ * Enum for the layer a setting's value was taken from, lowest precedence first.
+ */
+export enum ConfigSource {
+  /** Built-in default */
+  DEFAULT = 'default',
+  /** Environment variable set when the app was built */
+  ENVIRONMENT = 'environment',
+  /** config.json served with the app */
+  FILE = 'file',
+  /** Override saved by the user */
+  USER = 'user',
+  /** API key profile in use */
+  PROFILE = 'profile'
+}
+
+/**
+ * A setting that was ignored because its value was invalid.
+ */
+export interface ConfigIssue {
+  /** Name of the setting as given in its layer */
+  key: string;
+  /** Layer the value came from */
+  source: ConfigSource;
+  /** Why the value was ignored */
+  message: string;
+}
+
+/**
+ * Runtime settings with where each value came from.
+ */
+export interface ResolvedAppConfig {
+  /** The settings in effect */
+  values: AppConfig;
+  /** Layer each setting's value was taken from */
+  sources: Record<AppConfigKey, ConfigSource>;
+  /** Values that were ignored because they were invalid */
+  issues: ConfigIssue[];
+}
+
+/**
+ * Listener called with the settings whenever they change.
+ */
+export type AppConfigListener = (config: ResolvedAppConfig) => void;
+
+/**
+ * Interface representing the return value of the useAppConfig hook.
+ */
+export interface AppConfigHookResult {
+  /** The settings in effect */
+  config: AppConfig;
+  /** Layer each setting's value was taken from */
+  sources: Record<AppConfigKey, ConfigSource>;
+  /** Values that were ignored because they were invalid */
+  issues: ConfigIssue[];
+  /** Valid settings the user has overridden */
+  overrides: UserConfigOverrides;
+  /** Checks overrides without saving them, returning an issue for every invalid value */
+  validateOverrides: (overrides: Record<string, unknown>) => ConfigIssue[];
+  /** Saves the user's overrides and applies them, throwing if a value is invalid */
+  saveOverrides: (overrides: Record<string, unknown>) => void;
+  /** Removes the user's overrides */
+  resetOverrides: () => void;
+}
@@ -36,6 +36,10 @@ export enum ErrorCode {
   INVALID_API_KEY = 'invalid_api_key',
   /** API key is missing */
   MISSING_API_KEY = 'missing_api_key',
+  /** API key was valid but has expired */
+  EXPIRED_API_KEY = 'expired_api_key',
+  /** API key is valid but not allowed to access the venue (landmark) */
+  LANDMARK_FORBIDDEN = 'landmark_forbidden',
   /** Invalid input data */
   INVALID_INPUT = 'invalid_input',
   /** Barcode already exists */
@@ -82,7 +86,7 @@ export interface NetworkError extends BaseErrorInterface {
  */
 export interface AuthenticationError extends BaseErrorInterface {
   type: ErrorType.AUTHENTICATION;
-  /** HTTP status code (typically 401) */
+  /** HTTP status code (401, or 403 when the key may not access the venue) */
   statusCode: number;
 }
 
@@ -0,0 +1,78 @@
+/**
+ * TypeScript type definitions for exporting passes from the ParkHub Passes Creation Web Application.
+ * These types describe the supported export formats, which passes are exported, and the
+ * flattened rows written to CSV, XLSX and PDF manifest files.
+ *
+ * @version 1.0.0
+ */
+
+import { Event } from './event.types';
+import { PassFilterOptions, PassSortOptions } from './pass.types';
+
+/**
+ * Enum for the file formats supported by the pass export.
+ */
+export enum ExportFormat {
+  /** Comma-separated values */
+  CSV = 'csv',
+  /** Excel workbook */
+  XLSX = 'xlsx',
+  /** Printable PDF manifest */
+  PDF = 'pdf'
+}
+
+/**
+ * Enum for which passes are included in an export.
+ */
+export enum ExportScope {
+  /** Only passes matching the active filter options */
+  FILTERED = 'filtered',
+  /** All passes for the selected event */
+  ALL = 'all'
+}
+
+/**
+ * Interface for options controlling a pass export.
+ */
+export interface PassExportOptions {
+  /** File format to export */
+  format: ExportFormat;
+  /** Which passes were selected for export */
+  scope: ExportScope;
+  /** Event the passes belong to, used for the manifest header and file name */
+  event?: Event | null;
+  /** Filter options applied to the exported passes */
+  filterOptions?: PassFilterOptions | null;
+  /** Sort options applied to the exported passes */
+  sortOptions?: PassSortOptions | null;
+  /** File name without extension; generated from the event when omitted */
+  fileName?: string;
+}
+
+/**
+ * Interface for a single pass flattened for export, with the joined event name and date.
+ */
+export interface PassExportRow {
+  /** Name of the associated event */
+  eventName: string;
+  /** Formatted date and time of the associated event */
+  eventDate: string;
+  /** Event ID associated with the pass */
+  eventId: string;
+  /** Unique identifier for the pass */
+  passId: string;
+  /** Barcode of the pass */
+  barcode: string;
+  /** Name of the customer associated with the pass */
+  customerName: string;
+  /** Account ID associated with the pass */
+  accountId: string;
+  /** Human-readable spot type label */
+  spotType: string;
+  /** Identifier for the parking lot */
+  lotId: string;
+  /** Human-readable pass status */
+  status: string;
+  /** Formatted creation date */
+  createdAt: string;
+}
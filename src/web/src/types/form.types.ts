@@ -223,6 +223,23 @@ export type BatchFormAddHandler = () => void;
  */
 export type BatchFormRemoveHandler = (id: string) => void;
 
+/**
+ * Type for appending imported passes to the batch handler function.
+ */
+export type BatchFormImportHandler = (passes: PassFormData[]) => void;
+
+/**
+ * Type for assigning generated barcodes to the batch handler function.
+ * Barcodes fill rows without a barcode (or every row when overwrite is true),
+ * and any left over are added as new rows.
+ */
+export type BatchFormBarcodeHandler = (barcodes: string[], overwrite: boolean) => void;
+
+/**
+ * Type for replacing the batch with saved passes, such as a template, handler function.
+ */
+export type BatchFormLoadHandler = (passes: PassFormData[]) => void;
+
 /**
  * Interface for the return value of the useForm hook.
  */
@@ -261,6 +278,12 @@ export interface UseBatchFormResult {
   handleAddForm: BatchFormAddHandler;
   /** Handler to remove a form from the batch */
   handleRemoveForm: BatchFormRemoveHandler;
+  /** Handler to append imported passes to the batch */
+  handleImportForms: BatchFormImportHandler;
+  /** Handler to assign generated barcodes to the batch */
+  handleAssignBarcodes: BatchFormBarcodeHandler;
+  /** Handler to replace the batch with saved passes */
+  handleLoadForms: BatchFormLoadHandler;
   /** Handler for batch form submission */
   handleSubmit: FormSubmitHandler;
   /** Function to reset the batch form to initial state */
@@ -0,0 +1,61 @@
+/**
+ * TypeScript type definitions for importing passes from CSV and Excel files.
+ * These types describe the parsed spreadsheet, the mapping from spreadsheet
+ * columns to pass form fields, and the validated rows shown in the import preview.
+ *
+ * @version 1.0.0
+ */
+
+import { PassFormData } from './form.types';
+
+/**
+ * Enum for the file formats supported by the pass import.
+ */
+export enum ImportFileFormat {
+  /** Comma-separated values */
+  CSV = 'csv',
+  /** Excel workbook (first sheet is used) */
+  XLSX = 'xlsx'
+}
+
+/**
+ * Pass form fields that can be populated from an imported column.
+ * eventId is not mappable because imported rows always belong to the selected event.
+ */
+export type ImportablePassField = Exclude<keyof PassFormData, 'eventId'>;
+
+/**
+ * Mapping from pass form field to the index of the spreadsheet column that supplies it.
+ * A null value means the field is not mapped to any column.
+ */
+export type ImportColumnMapping = Record<ImportablePassField, number | null>;
+
+/**
+ * Interface for a spreadsheet parsed from an imported file.
+ */
+export interface ParsedImportFile {
+  /** Name of the imported file */
+  fileName: string;
+  /** Format the file was parsed as */
+  format: ImportFileFormat;
+  /** Header row values */
+  headers: string[];
+  /** Data rows, excluding the header row */
+  rows: string[][];
+  /** Row number in the file of each data row (1-based), counting any empty rows skipped */
+  rowNumbers: number[];
+}
+
+/**
+ * Interface for a single imported row after mapping and validation.
+ */
+export interface ImportedPassRow {
+  /** Row number in the imported file (1-based), as shown in a spreadsheet */
+  rowNumber: number;
+  /** Pass form data built from the mapped columns */
+  data: PassFormData;
+  /** Whether the row passed validation */
+  isValid: boolean;
+  /** Validation errors keyed by field name */
+  errors: Record<string, string>;
+}
@@ -9,20 +9,80 @@
 // Re-export all types from common.types.ts
 export * from './common.types';
 
+// Re-export all types from account.types.ts
+export * from './account.types';
+
+// Re-export all types from analytics.types.ts
+export * from './analytics.types';
+
 // Re-export all types from api.types.ts
 export * from './api.types';
 
+// Re-export all types from auth.types.ts
+export * from './auth.types';
+
+// Re-export all types from barcode.types.ts
+export * from './barcode.types';
+
+// Re-export all types from batchJob.types.ts
+export * from './batchJob.types';
+
+// Re-export all types from clone.types.ts
+export * from './clone.types';
+
+// Re-export all types from config.types.ts
+export * from './config.types';
+
 // Re-export all types from error.types.ts
 export * from './error.types';
 
 // Re-export all types from event.types.ts
 export * from './event.types';
 
+// Re-export all types from export.types.ts
+export * from './export.types';
+
 // Re-export all types from form.types.ts
 export * from './form.types';
 
+// Re-export all types from import.types.ts
+export * from './import.types';
+
+// Re-export all types from inventory.types.ts
+export * from './inventory.types';
+
+// Re-export all types from landmark.types.ts
+export * from './landmark.types';
+
+// Re-export all types from mock.types.ts
+export * from './mock.types';
+
+// Re-export all types from offline.types.ts
+export * from './offline.types';
+
 // Re-export all types from pass.types.ts
 export * from './pass.types';
 
+// Re-export all types from profile.types.ts
+export * from './profile.types';
+
+// Re-export all types from render.types.ts
+export * from './render.types';
+
+// Re-export all types from schedule.types.ts
+export * from './schedule.types';
+
+// Re-export all types from search.types.ts
+export * from './search.types';
+
 // Re-export all types from storage.types.ts
-export * from './storage.types';
\ No newline at end of file
+export * from './storage.types';
+
+// Re-export all types from template.types.ts
+export * from './template.types';
+
+// Re-export all types from vault.types.ts
+export * from './vault.types';
+
+// Re-export all types from wallet.types.ts
+export * from './wallet.types';
\ No newline at end of file
@@ -0,0 +1,147 @@
+/**
+ * TypeScript type definitions for lot capacity and pass inventory.
+ * ParkHub does not track how many spots each lot holds, so capacities are configured
+ * locally per event and compared with the passes already issued for that event.
+ *
+ * @version 1.0.0
+ */
+
+import { SpotType } from './api.types';
+import { ApiError } from './common.types';
+
+/**
+ * Enum for what pass creation does when a batch would exceed a lot's capacity.
+ */
+export enum OverbookingPolicy {
+  /** Warn before creating passes beyond capacity */
+  WARN = 'warn',
+  /** Refuse to create passes beyond capacity */
+  BLOCK = 'block'
+}
+
+/**
+ * Interface for the capacity of a single parking lot.
+ * Spot types without a capacity are not limited.
+ */
+export interface LotCapacity {
+  /** Identifier for the parking lot */
+  lotId: string;
+  /** Number of spots of each type in the lot */
+  capacity: Partial<Record<SpotType, number>>;
+}
+
+/**
+ * Interface for the lot configuration of one event.
+ */
+export interface EventLotConfiguration {
+  /** Event ID the configuration belongs to */
+  eventId: string;
+  /** Landmark (venue) ID the event belongs to */
+  landMarkId: string;
+  /** Capacity of each lot used by the event */
+  lots: LotCapacity[];
+  /** What pass creation does when a lot is full */
+  overbookingPolicy: OverbookingPolicy;
+  /** When the configuration was last changed (ISO string format) */
+  updatedAt: string;
+}
+
+/**
+ * Interface for the issued and remaining spots of one spot type in one lot.
+ */
+export interface LotInventory {
+  /** Identifier for the parking lot */
+  lotId: string;
+  /** Type of parking spot */
+  spotType: SpotType;
+  /** Number of spots of this type in the lot */
+  capacity: number;
+  /** Number of passes issued for these spots (cancelled passes are not counted) */
+  issued: number;
+  /** Number of spots still available; negative if the lot is overbooked */
+  remaining: number;
+}
+
+/**
+ * Interface for the inventory of every configured lot of an event.
+ */
+export interface EventInventory {
+  /** Event ID the inventory belongs to */
+  eventId: string;
+  /** Inventory of each configured lot and spot type */
+  lots: LotInventory[];
+  /** Total number of configured spots */
+  totalCapacity: number;
+  /** Total number of passes issued for configured spots */
+  totalIssued: number;
+  /** Total number of configured spots still available */
+  totalRemaining: number;
+  /** Passes issued for lots or spot types without a configured capacity */
+  unconfiguredIssued: number;
+}
+
+/**
+ * Interface for a lot and spot type that a batch of passes would overbook.
+ */
+export interface OverbookingConflict {
+  /** Identifier for the parking lot */
+  lotId: string;
+  /** Type of parking spot */
+  spotType: SpotType;
+  /** Number of spots of this type in the lot */
+  capacity: number;
+  /** Number of passes already issued for these spots */
+  issued: number;
+  /** Number of passes the batch would add */
+  requested: number;
+  /** Number of passes beyond capacity */
+  overBy: number;
+}
+
+/**
+ * Interface for the outcome of checking a batch of passes against lot capacity.
+ */
+export interface OverbookingCheckResult {
+  /** Lots and spot types the batch would overbook */
+  conflicts: OverbookingConflict[];
+  /** Whether the batch must not be created */
+  blocked: boolean;
+}
+
+/**
+ * Minimal pass shape needed to count issued spots; satisfied by both Pass and ParkHubPass.
+ */
+export interface InventoryPass {
+  /** Type of parking spot */
+  spotType: string;
+  /** Identifier for the parking lot */
+  lotId: string;
+  /** Current status of the pass */
+  status: string;
+}
+
+/**
+ * Interface representing the return value of the useInventory hook.
+ */
+export interface InventoryHookResult {
+  /** The event's lot configuration, null if none has been set up */
+  configuration: EventLotConfiguration | null;
+  /** Issued and remaining spots, null if the event has no configuration or its passes aren't loaded */
+  inventory: EventInventory | null;
+  /** Whether the event's passes are loading */
+  loading: boolean;
+  /** Error information if the event's passes couldn't be loaded */
+  error: ApiError | null;
+  /** Saves the event's lot capacities and overbooking policy */
+  saveConfiguration: (lots: LotCapacity[], overbookingPolicy: OverbookingPolicy) => boolean;
+  /** Removes the event's lot configuration */
+  removeConfiguration: () => boolean;
+  /** Replaces the event's lot configuration with one read from a JSON file */
+  importConfiguration: (file: File) => Promise<EventLotConfiguration>;
+  /** Downloads the event's lot configuration as a JSON file */
+  exportConfiguration: () => void;
+  /** Checks whether creating passes would exceed any lot's capacity */
+  checkOverbooking: (requests: Array<Pick<InventoryPass, 'lotId' | 'spotType'>>) => OverbookingCheckResult;
+  /** Reloads the event's passes */
+  refetch: () => Promise<void>;
+}
@@ -0,0 +1,17 @@
+/**
+ * TypeScript type definitions for landmarks (venues) in the ParkHub Passes Creation Web Application.
+ * A landmark identifies the venue whose events and passes are read from and written to the
+ * ParkHub API, allowing one team to manage several venues from the same application.
+ *
+ * @version 1.0.0
+ */
+
+/**
+ * Interface representing a ParkHub landmark (venue) the user can switch between.
+ */
+export interface Landmark {
+  /** ParkHub landmark ID used in API requests */
+  id: string;
+  /** Display name of the venue */
+  name: string;
+}
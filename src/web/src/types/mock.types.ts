@@ -0,0 +1,32 @@
+/**
+ * TypeScript type definitions for the mock ParkHub API.
+ * Training and QA builds can answer API requests with an in-browser fake of the ParkHub
+ * API, so new staff can work through every flow without a real API key. The fake keeps
+ * the passes it creates in browser storage and enforces the same rules as the real API,
+ * such as rejecting duplicate barcodes.
+ *
+ * @version 1.0.0
+ */
+
+import { ParkHubPass } from './api.types';
+import { ApiResponse } from './common.types';
+
+/**
+ * State of the mock ParkHub API kept in browser storage.
+ * Events are generated relative to the current date each time the app starts, so only
+ * the passes are kept.
+ */
+export interface MockApiState {
+  /** Every pass held by the mock API, including the seeded ones */
+  passes: ParkHubPass[];
+}
+
+/**
+ * Reply of the mock ParkHub API to a request, sent back with the given HTTP status.
+ */
+export interface MockApiReply<T> {
+  /** HTTP status of the reply */
+  status: number;
+  /** Response body in the standard API response format */
+  body: ApiResponse<T>;
+}
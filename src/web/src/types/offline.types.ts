@@ -0,0 +1,59 @@
+/**
+ * TypeScript type definitions for offline mode.
+ * While the browser is offline, pass creation requests are queued in IndexedDB and
+ * sent once the connection is restored; queued passes the API rejects are kept as
+ * conflicts for the user to review.
+ *
+ * @version 1.0.0
+ */
+
+import { ApiError } from './common.types';
+import { CreatePassRequest } from './api.types';
+
+/**
+ * Enum for the state of a queued pass.
+ */
+export enum QueuedPassStatus {
+  /** Waiting for the connection to be restored */
+  QUEUED = 'queued',
+  /** Being sent to the API */
+  SYNCING = 'syncing',
+  /** Rejected by the API when it was sent */
+  CONFLICT = 'conflict'
+}
+
+/**
+ * Interface for a pass creation request queued while offline.
+ */
+export interface QueuedPass {
+  /** Unique identifier of the queued pass, also sent as its idempotency key */
+  id: string;
+  /** Pass creation request to send */
+  request: CreatePassRequest;
+  /** Landmark ID the pass is created for */
+  landMarkId: string;
+  /** When the pass was queued (ISO 8601) */
+  queuedAt: string;
+  /** State of the queued pass */
+  status: QueuedPassStatus;
+  /** Error returned by the API, for conflicts */
+  error?: ApiError;
+}
+
+/**
+ * Interface for the outcome of sending the queued passes.
+ */
+export interface OfflineSyncResult {
+  /** Number of queued passes the API created */
+  synced: number;
+  /** Queued passes the API rejected */
+  conflicts: QueuedPass[];
+  /** Number of queued passes still waiting, because the connection was lost again */
+  remaining: number;
+}
+
+/**
+ * Callback notified whenever the offline queue changes.
+ * @param queue - Every queued pass, including conflicts
+ */
+export type OfflineQueueListener = (queue: QueuedPass[]) => void;
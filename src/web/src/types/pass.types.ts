@@ -1,6 +1,9 @@
 import { SortDirection, PaginationOptions } from './common.types';
 import { ParkHubPass, SpotType } from './api.types';
 import { Event } from './event.types';
+import { ExportFormat, ExportScope } from './export.types';
+import { PassRenderFormat } from './render.types';
+import { BatchJobOptions } from './batchJob.types';
 import React from 'react';
 
 /**
@@ -49,6 +52,20 @@ export enum PassSortField {
   STATUS = 'status'
 }
 
+/**
+ * Enum representing the actions that can be taken on an existing pass.
+ */
+export enum PassAction {
+  /** Edit the pass details */
+  EDIT = 'edit',
+  /** Cancel the pass */
+  CANCEL = 'cancel',
+  /** Reactivate a cancelled or inactive pass */
+  REACTIVATE = 'reactivate',
+  /** Preview and download the scannable pass */
+  PRINT = 'print'
+}
+
 /**
  * Interface representing a parking pass in the application.
  * This is the application's internal model converted from the ParkHubPass API model.
@@ -156,6 +173,35 @@ export interface PassCreationResult {
   pass: Pass | null;
   /** Error information if the creation failed, null otherwise */
   error: Error | null;
+  /** Whether the pass was queued to be created once the connection is restored */
+  queued?: boolean;
+}
+
+/**
+ * Interface for editing an existing pass. Barcodes and events cannot be changed
+ * after creation, so only the remaining fields are editable.
+ */
+export interface PassUpdateData {
+  /** Account ID associated with this pass */
+  accountId?: string;
+  /** Name of the customer associated with this pass */
+  customerName?: string;
+  /** Type of parking spot */
+  spotType?: PassSpotType;
+  /** Identifier for the parking lot */
+  lotId?: string;
+}
+
+/**
+ * Interface representing the result of updating, cancelling or reactivating a pass.
+ */
+export interface PassUpdateResult {
+  /** Indicates whether the operation was successful */
+  success: boolean;
+  /** The pass with the changes applied if successful, null otherwise */
+  pass: Pass | null;
+  /** Error information if the operation failed, null otherwise */
+  error: Error | null;
 }
 
 /**
@@ -174,6 +220,16 @@ export interface PassCreationSummary {
   totalSuccess: number;
   /** Total number of passes that failed to create */
   totalFailed: number;
+  /** Whether creation was cancelled before every pass was sent */
+  cancelled?: boolean;
+  /** Passes that were not sent because creation was cancelled */
+  notSent?: Array<{ barcode: string; customerName: string }>;
+  /** Passes queued while offline, to be created once the connection is restored */
+  queued?: Array<{ barcode: string; customerName: string }>;
+  /** ID of the API key profile the passes were created with */
+  profileId?: string;
+  /** Name of the API key profile the passes were created with */
+  profileName?: string;
 }
 
 /**
@@ -226,12 +282,24 @@ export interface PassesHookResult {
   setSortOptions: (options: PassSortOptions) => void;
   /** Set pagination configuration */
   setPagination: (config: Partial<PaginationOptions>) => void;
-  /** Select a pass by ID */
+  /** Select a pass by ID, moving to the page that shows it */
   selectPass: (passId: string | null) => void;
   /** Create a single parking pass */
   createPass: (passData: PassFormData) => Promise<PassCreationResult>;
   /** Create multiple parking passes in a batch */
-  createMultiplePasses: (passesData: PassFormData[]) => Promise<PassCreationSummary>;
+  createMultiplePasses: (passesData: PassFormData[], options?: BatchJobOptions) => Promise<PassCreationSummary>;
+  /** Resume an interrupted batch job, creating only the passes the API has not received */
+  resumeBatchJob: (jobId: string, options?: BatchJobOptions) => Promise<PassCreationSummary>;
+  /** Update the editable fields of an existing pass */
+  updatePass: (passId: string, data: PassUpdateData) => Promise<PassUpdateResult>;
+  /** Cancel a pass */
+  cancelPass: (passId: string) => Promise<PassUpdateResult>;
+  /** Reactivate a cancelled or inactive pass */
+  reactivatePass: (passId: string) => Promise<PassUpdateResult>;
+  /** Export passes in the current sort order to a downloadable file */
+  exportPasses: (format: ExportFormat, scope?: ExportScope) => void;
+  /** Render scannable passes in the current sort order as PDF sheets or PNG images */
+  renderPasses: (format: PassRenderFormat, scope?: ExportScope) => Promise<void>;
   /** Refetch passes data */
   refetch: () => Promise<void>;
 }
\ No newline at end of file
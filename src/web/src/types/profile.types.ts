@@ -0,0 +1,31 @@
+/**
+ * TypeScript type definitions for API key profiles. Each profile holds its own ParkHub
+ * credentials — an API key, a default venue and the API address — so staff can switch
+ * between production and sandbox accounts or between organisations.
+ *
+ * @version 1.0.0
+ */
+
+/**
+ * A named set of ParkHub credentials.
+ */
+export interface ApiKeyProfile {
+  /** Unique identifier for the profile */
+  id: string;
+  /** Name shown in the profile switcher */
+  name: string;
+  /** Venue (landmark) used when no venue has been selected with this profile */
+  landMarkId?: string;
+  /** Base URL of the ParkHub API used with this profile */
+  baseUrl?: string;
+}
+
+/**
+ * Details of a profile given when it is created or edited.
+ */
+export type ApiKeyProfileInput = Omit<ApiKeyProfile, 'id'>;
+
+/**
+ * Listener called with the active profile and every profile whenever they change.
+ */
+export type ProfileListener = (activeProfile: ApiKeyProfile, profiles: ApiKeyProfile[]) => void;
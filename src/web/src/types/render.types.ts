@@ -0,0 +1,74 @@
+/**
+ * TypeScript type definitions for rendering scannable passes.
+ * These types describe the output formats, the pass details printed on each
+ * pass and the drawing commands shared by the PDF and PNG renderers.
+ *
+ * @version 1.0.0
+ */
+
+import { Event } from './event.types';
+
+/**
+ * Enum for the output formats of rendered passes.
+ */
+export enum PassRenderFormat {
+  /** Print-ready PDF sheets with several passes per page */
+  PDF = 'pdf',
+  /** One PNG image per pass, zipped together when there are several */
+  PNG = 'png'
+}
+
+/**
+ * Interface for the details printed on a rendered pass.
+ */
+export interface PassRenderData {
+  /** Barcode encoded as Code128 and QR */
+  barcode: string;
+  /** Name of the pass holder */
+  customerName: string;
+  /** Name of the event */
+  eventName: string;
+  /** Formatted date and time of the event */
+  eventDate: string;
+  /** Parking lot the pass is valid for */
+  lotId: string;
+  /** Human-readable spot type */
+  spotType: string;
+}
+
+/**
+ * A single drawing step of a rendered pass, in points relative to the pass's top-left corner.
+ */
+export type PassDrawCommand =
+  | {
+      kind: 'rect';
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+      /** Filled black when true; outlined in light gray as a cut line when false */
+      fill: boolean;
+    }
+  | {
+      kind: 'text';
+      /** Baseline position of the text */
+      x: number;
+      y: number;
+      text: string;
+      /** Font size in points */
+      size: number;
+      bold?: boolean;
+      align?: 'left' | 'center';
+    };
+
+/**
+ * Interface for options controlling a pass rendering export.
+ */
+export interface PassRenderOptions {
+  /** Output format */
+  format: PassRenderFormat;
+  /** Event used for passes without a joined event */
+  event?: Event | null;
+  /** File name without extension; generated from the event or barcode when omitted */
+  fileName?: string;
+}
@@ -0,0 +1,81 @@
+/**
+ * TypeScript type definitions for scheduled pass issuance.
+ * Passes are often only issued a set time before an event, such as 72 hours before
+ * kickoff, so a batch can be scheduled to run at a time relative to the event's date.
+ * Scheduled batches are kept in browser storage and run by the app while it is open;
+ * batches that came due while it was closed are run when it is next opened.
+ *
+ * @version 1.0.0
+ */
+
+import { BatchPassCreationResult, CreatePassRequest } from './api.types';
+
+/**
+ * Enum for the state of a scheduled batch.
+ */
+export enum ScheduledJobStatus {
+  /** Waiting for its run time */
+  SCHEDULED = 'scheduled',
+  /** Its passes are being created */
+  RUNNING = 'running',
+  /** Every pass was sent; some may have been rejected */
+  COMPLETED = 'completed',
+  /** The batch could not be run */
+  FAILED = 'failed',
+  /** The event started before the batch could run, so it was not run */
+  MISSED = 'missed'
+}
+
+/**
+ * Interface for a batch of passes scheduled to be created before an event.
+ */
+export interface ScheduledJob {
+  /** Unique identifier for the scheduled batch */
+  id: string;
+  /** Event the passes are created for */
+  eventId: string;
+  /** Name of the event when the batch was scheduled */
+  eventName: string;
+  /** Date and time of the event (ISO string format) */
+  eventDate: string;
+  /** Landmark (venue) the passes are created at */
+  landMarkId: string;
+  /** How many hours before the event the batch runs */
+  hoursBeforeEvent: number;
+  /** When the batch runs (ISO string format) */
+  runAt: string;
+  /** Pass creation requests, in submission order */
+  requests: CreatePassRequest[];
+  /** State of the scheduled batch */
+  status: ScheduledJobStatus;
+  /** When the batch was scheduled (ISO string format) */
+  createdAt: string;
+  /** When the batch started running (ISO string format) */
+  startedAt?: string;
+  /** When the batch finished running or was given up on (ISO string format) */
+  finishedAt?: string;
+  /** Outcome of creating the passes, once completed */
+  result?: BatchPassCreationResult;
+  /** Why the batch failed or was missed */
+  error?: string;
+}
+
+/**
+ * Interface for the outcome of running the scheduled batches that are due.
+ */
+export interface ScheduleRunResult {
+  /** Batches whose passes were sent */
+  completed: ScheduledJob[];
+  /** Batches that could not be run */
+  failed: ScheduledJob[];
+  /** Batches not run because their event had already started */
+  missed: ScheduledJob[];
+  /** Number of the batches run that came due before the app was opened */
+  caughtUp: number;
+}
+
+/**
+ * Callback notified whenever the scheduled batches change.
+ * @param jobs - Every scheduled batch, soonest first
+ */
+export type ScheduleListener = (jobs: ScheduledJob[]) => void;
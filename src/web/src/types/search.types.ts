@@ -0,0 +1,69 @@
+/**
+ * TypeScript type definitions for the cross-event pass search.
+ * Passes from the events of the selected venue are kept in a local index so
+ * customer support can find a customer by name, barcode or account ID without
+ * first knowing which event the pass belongs to.
+ *
+ * @version 1.0.0
+ */
+
+import { ParkHubPass } from './api.types';
+import { Event } from './event.types';
+
+/**
+ * Enum for the pass fields covered by the search.
+ */
+export enum PassSearchField {
+  /** Name of the customer */
+  CUSTOMER_NAME = 'customerName',
+  /** Pass barcode */
+  BARCODE = 'barcode',
+  /** Customer account ID */
+  ACCOUNT_ID = 'accountId'
+}
+
+/**
+ * Interface for one pass found by the search.
+ */
+export interface PassSearchHit {
+  /** The pass that matched */
+  pass: ParkHubPass;
+  /** The event the pass belongs to */
+  event: Event;
+  /** Field that matched the query best */
+  matchedField: PassSearchField;
+  /** Relevance of the match; higher scores are listed first */
+  score: number;
+}
+
+/**
+ * Interface representing the return value of the usePassSearch hook.
+ */
+export interface PassSearchHookResult {
+  /** Current search query */
+  query: string;
+  /** Updates the search query */
+  setQuery: (query: string) => void;
+  /** Passes matching the query, best first */
+  results: PassSearchHit[];
+  /** Whether more passes match than are listed */
+  truncated: boolean;
+  /** Whether past events are searched as well as upcoming ones */
+  includePastEvents: boolean;
+  /** Sets whether past events are searched */
+  setIncludePastEvents: (include: boolean) => void;
+  /** Number of events being searched */
+  totalEvents: number;
+  /** Number of events whose passes are in the index */
+  indexedEvents: number;
+  /** Number of passes in the index */
+  indexedPasses: number;
+  /** Number of events whose passes couldn't be loaded */
+  failedEvents: number;
+  /** Whether events or passes are still loading */
+  indexing: boolean;
+  /** Error information if events couldn't be loaded */
+  error: Error | null;
+  /** Reloads every event's passes from the API and rebuilds the index */
+  refresh: () => Promise<void>;
+}
@@ -0,0 +1,81 @@
+/**
+ * TypeScript type definitions for pass templates.
+ * A template saves the shape of a batch that is created again and again, such as the
+ * VIP passes for a sponsor's accounts, so it can be loaded into the batch form for a
+ * new event. Templates never hold barcodes, since every pass needs a new one.
+ *
+ * @version 1.0.0
+ */
+
+import { SpotType } from './api.types';
+
+/**
+ * Interface for one pass saved in a template.
+ */
+export interface PassTemplateRow {
+  /** Account ID associated with the pass */
+  accountId: string;
+  /** Name of the customer associated with the pass */
+  customerName: string;
+  /** Type of parking spot */
+  spotType: SpotType;
+  /** Identifier for the parking lot */
+  lotId: string;
+}
+
+/**
+ * Interface for a saved pass template.
+ */
+export interface PassTemplate {
+  /** Unique identifier of the template */
+  id: string;
+  /** Name shown when choosing the template */
+  name: string;
+  /** The passes the template creates */
+  rows: PassTemplateRow[];
+  /** Timestamp when the template was created (ISO string format) */
+  createdAt: string;
+  /** Timestamp when the template was last changed (ISO string format) */
+  updatedAt: string;
+}
+
+/**
+ * Interface for a file of exported templates, shared between users and venues.
+ */
+export interface PassTemplateExport {
+  /** Identifies the file as a pass template export */
+  format: string;
+  /** Version of the export format */
+  version: number;
+  /** Timestamp when the file was exported (ISO string format) */
+  exportedAt: string;
+  /** The exported templates */
+  templates: Array<Pick<PassTemplate, 'name' | 'rows'>>;
+}
+
+/**
+ * Type for a callback notified whenever the templates of a venue change.
+ */
+export type PassTemplateListener = (landMarkId: string) => void;
+
+/**
+ * Interface representing the return value of the usePassTemplates hook.
+ */
+export interface PassTemplatesHookResult {
+  /** Templates of the selected venue, sorted by name */
+  templates: PassTemplate[];
+  /** Looks up a template by ID */
+  getTemplate: (templateId: string) => PassTemplate | null;
+  /** Saves the passes of a batch as a new template */
+  saveTemplate: (name: string, passes: PassTemplateRow[]) => PassTemplate;
+  /** Renames a template */
+  renameTemplate: (templateId: string, name: string) => void;
+  /** Saves a copy of a template under a new name */
+  duplicateTemplate: (templateId: string) => PassTemplate | null;
+  /** Deletes a template */
+  deleteTemplate: (templateId: string) => void;
+  /** Downloads templates as a JSON file */
+  exportTemplates: (templateIds?: string[]) => void;
+  /** Adds the templates of an exported JSON file, returning the templates added */
+  importTemplates: (file: File) => Promise<PassTemplate[]>;
+}
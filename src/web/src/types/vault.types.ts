@@ -0,0 +1,43 @@
+/**
+ * TypeScript type definitions for the API key vault. In vault mode the API key is
+ * encrypted with a key derived from a passphrase the user chooses, so it can only be
+ * read after the user unlocks the vault.
+ *
+ * @version 1.0.0
+ */
+
+/**
+ * Enum for the state of the API key vault.
+ */
+export enum VaultStatus {
+  /** Vault mode is off; the API key is stored with the app's built-in encryption */
+  DISABLED = 'disabled',
+  /** The API key is stored in the vault and the passphrase is needed to read it */
+  LOCKED = 'locked',
+  /** The vault has been unlocked and the API key is available until it locks again */
+  UNLOCKED = 'unlocked'
+}
+
+/**
+ * Encrypted API key as stored in browser storage. Everything needed to derive the key
+ * again from the passphrase is stored with it; the passphrase itself never is.
+ */
+export interface ApiKeyVaultRecord {
+  /** Version of the record format */
+  version: 1;
+  /** Key derivation function used to turn the passphrase into a key */
+  kdf: 'PBKDF2-SHA-256';
+  /** Number of PBKDF2 iterations */
+  iterations: number;
+  /** Random salt for the key derivation, base64 encoded */
+  salt: string;
+  /** Random AES-GCM initialization vector, base64 encoded */
+  iv: string;
+  /** AES-GCM encrypted API key, base64 encoded */
+  data: string;
+}
+
+/**
+ * Listener called with the state of the vault whenever it changes.
+ */
+export type VaultListener = (status: VaultStatus) => void;
@@ -0,0 +1,178 @@
+/**
+ * TypeScript type definitions for exporting passes to Apple Wallet and Google Wallet.
+ * These types describe the wallet configuration, the pass.json and Google Wallet
+ * objects built from a pass and its event, and the pluggable signer used for .pkpass bundles.
+ *
+ * @version 1.0.0
+ */
+
+import { Event } from './event.types';
+
+/**
+ * Enum for the wallet formats passes can be exported to.
+ */
+export enum WalletFormat {
+  /** Apple Wallet .pkpass bundle (a .pkpasses bundle for several passes) */
+  APPLE = 'apple',
+  /** Google Wallet event ticket class and objects as JSON */
+  GOOGLE = 'google'
+}
+
+/**
+ * Interface for the branding embedded in wallet passes. The Apple identifiers come from
+ * the signing certificate and the Google Wallet issuer ID from the runtime settings.
+ */
+export interface WalletConfig {
+  /** Organization name shown on Apple passes */
+  organizationName: string;
+  /** Background color of Apple passes as rgb(r, g, b) */
+  backgroundColor: string;
+  /** Foreground (text) color of Apple passes as rgb(r, g, b) */
+  foregroundColor: string;
+}
+
+/**
+ * Interface for a field on an Apple Wallet pass.
+ */
+export interface ApplePassField {
+  key: string;
+  label?: string;
+  value: string;
+}
+
+/**
+ * Interface for the pass.json file of an Apple Wallet event ticket.
+ */
+export interface ApplePassJson {
+  formatVersion: 1;
+  passTypeIdentifier: string;
+  serialNumber: string;
+  teamIdentifier: string;
+  organizationName: string;
+  description: string;
+  backgroundColor: string;
+  foregroundColor: string;
+  relevantDate?: string;
+  voided?: boolean;
+  barcodes: Array<{
+    format: 'PKBarcodeFormatQR' | 'PKBarcodeFormatCode128';
+    message: string;
+    messageEncoding: 'iso-8859-1';
+    altText?: string;
+  }>;
+  eventTicket: {
+    headerFields: ApplePassField[];
+    primaryFields: ApplePassField[];
+    secondaryFields: ApplePassField[];
+    auxiliaryFields: ApplePassField[];
+    backFields: ApplePassField[];
+  };
+}
+
+/**
+ * Interface for a localized string in the Google Wallet API.
+ */
+export interface GoogleLocalizedString {
+  defaultValue: {
+    language: string;
+    value: string;
+  };
+}
+
+/**
+ * Interface for a Google Wallet event ticket class, shared by all passes for an event.
+ */
+export interface GoogleEventTicketClass {
+  id: string;
+  issuerName: string;
+  eventName: GoogleLocalizedString;
+  eventId: string;
+  reviewStatus: 'UNDER_REVIEW' | 'DRAFT';
+  dateTime?: {
+    start: string;
+  };
+}
+
+/**
+ * Interface for a Google Wallet event ticket object, one per pass.
+ */
+export interface GoogleEventTicketObject {
+  id: string;
+  classId: string;
+  state: 'ACTIVE' | 'INACTIVE' | 'COMPLETED' | 'EXPIRED';
+  ticketHolderName: string;
+  ticketNumber: string;
+  barcode: {
+    type: 'QR_CODE';
+    value: string;
+    alternateText: string;
+  };
+  textModulesData: Array<{
+    id: string;
+    header: string;
+    body: string;
+  }>;
+}
+
+/**
+ * Interface for the Google Wallet payload, in the shape used by Save to Google Wallet.
+ */
+export interface GoogleWalletPayload {
+  eventTicketClasses: GoogleEventTicketClass[];
+  eventTicketObjects: GoogleEventTicketObject[];
+}
+
+/**
+ * Interface for the Apple identifiers a pass must carry to match its signing certificate.
+ */
+export interface ApplePassIdentifiers {
+  /** Pass type identifier, the user ID (UID) of the certificate's subject */
+  passTypeIdentifier: string;
+  /** Developer team identifier, the organizational unit (OU) of the certificate's subject */
+  teamIdentifier: string;
+}
+
+/**
+ * Interface for a signer that produces the detached PKCS #7 signature of a .pkpass manifest.
+ * Implementations can sign with local certificates or delegate to a signing service.
+ */
+export interface WalletPassSigner {
+  /** Whether bundles signed by this signer can be installed on a device */
+  readonly trusted: boolean;
+  /** Identifiers written to pass.json, which must match the signing certificate */
+  readonly identifiers: ApplePassIdentifiers;
+  /**
+   * Signs the manifest.json contents
+   * @param manifest - Manifest file contents
+   * @returns DER-encoded signature
+   */
+  sign(manifest: Uint8Array): Promise<Uint8Array>;
+}
+
+/**
+ * Interface for locally supplied Apple Wallet signing certificates, in PEM format.
+ */
+export interface WalletSigningCertificates {
+  /** Pass type ID certificate */
+  certificatePem: string;
+  /** Private key of the pass type ID certificate */
+  privateKeyPem: string;
+  /** Passphrase of the private key, if it is encrypted */
+  privateKeyPassphrase?: string;
+  /** Apple Worldwide Developer Relations intermediate certificate */
+  wwdrCertificatePem: string;
+}
+
+/**
+ * Interface for options controlling a wallet export.
+ */
+export interface WalletExportOptions {
+  /** Wallet format to export */
+  format: WalletFormat;
+  /** Event used for passes without a joined event */
+  event?: Event | null;
+  /** Signer for Apple Wallet bundles; defaults to an unsigned development signer */
+  signer?: WalletPassSigner;
+  /** File name without extension; generated from the event or barcode when omitted */
+  fileName?: string;
+}
@@ -11,6 +11,23 @@ import { mapErrorToAppError } from './error-handling';
  * API interaction patterns throughout the application.
  */
 
+/**
+ * Name of the header carrying a request's idempotency key
+ */
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/**
+ * Creates an Idempotency-Key header so the API applies a request at most once,
+ * however many times it is sent
+ * @param idempotencyKey - Key shared by every attempt to send the request
+ * @returns Object containing the Idempotency-Key header
+ */
+export const createIdempotencyHeader = (idempotencyKey: string): Record<string, string> => {
+  return {
+    [IDEMPOTENCY_KEY_HEADER]: idempotencyKey
+  };
+};
+
 /**
  * Creates an Authorization header with the provided API key
  * @param apiKey - API key for ParkHub authentication
@@ -0,0 +1,110 @@
+/**
+ * Utility functions for passphrase-based encryption with the browser's Web Crypto API.
+ * Keys are derived from a passphrase with PBKDF2 and data is encrypted with AES-GCM, which
+ * also detects a wrong passphrase because decryption fails its integrity check.
+ *
+ * @version 1.0.0
+ */
+
+/**
+ * Length of the random salt used for key derivation, in bytes
+ */
+const SALT_LENGTH = 16;
+
+/**
+ * Length of the random AES-GCM initialization vector, in bytes
+ */
+const IV_LENGTH = 12;
+
+/**
+ * Checks whether the browser supports the Web Crypto API. Browsers only provide it on
+ * pages served over HTTPS or from localhost.
+ * @returns True if passphrase-based encryption is available
+ */
+export const isWebCryptoAvailable = (): boolean =>
+  typeof crypto !== 'undefined' &&
+  typeof crypto.subtle !== 'undefined' &&
+  typeof TextEncoder !== 'undefined';
+
+/**
+ * Encodes bytes as base64 text
+ * @param bytes - Bytes to encode
+ * @returns The base64 text
+ */
+export const bytesToBase64 = (bytes: Uint8Array): string =>
+  btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(''));
+
+/**
+ * Decodes base64 text into bytes
+ * @param base64 - Base64 text to decode
+ * @returns The decoded bytes
+ */
+export const base64ToBytes = (base64: string): Uint8Array =>
+  Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+
+/**
+ * Generates a random salt for key derivation
+ * @returns Random salt bytes
+ */
+export const generateSalt = (): Uint8Array => crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+
+/**
+ * Derives an AES-GCM key from a passphrase with PBKDF2 and SHA-256
+ * @param passphrase - The user's passphrase
+ * @param salt - Salt stored with the encrypted data
+ * @param iterations - Number of PBKDF2 iterations
+ * @returns Promise resolving to a key that can encrypt and decrypt but can't be exported
+ */
+export const deriveKeyFromPassphrase = async (
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number
+): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: salt as BufferSource, iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+/**
+ * Encrypts text with AES-GCM and a fresh random initialization vector
+ * @param key - Key from deriveKeyFromPassphrase
+ * @param text - Text to encrypt
+ * @returns Promise resolving to the base64 encoded initialization vector and encrypted text
+ */
+export const encryptWithKey = async (key: CryptoKey, text: string): Promise<{ iv: string; data: string }> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+
+  return {
+    iv: bytesToBase64(iv),
+    data: bytesToBase64(new Uint8Array(encrypted))
+  };
+};
+
+/**
+ * Decrypts text encrypted with encryptWithKey
+ * @param key - Key from deriveKeyFromPassphrase
+ * @param encrypted - The base64 encoded initialization vector and encrypted text
+ * @returns Promise resolving to the decrypted text; rejects if the key is wrong or the data was changed
+ */
+export const decryptWithKey = async (key: CryptoKey, encrypted: { iv: string; data: string }): Promise<string> => {
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: base64ToBytes(encrypted.iv) as BufferSource },
+    key,
+    base64ToBytes(encrypted.data) as BufferSource
+  );
+
+  return new TextDecoder().decode(decrypted);
+};
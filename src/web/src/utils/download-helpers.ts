@@ -0,0 +1,42 @@
+/**
+ * Utility functions for saving generated files from the browser.
+ * Used by the export features to download CSV, XLSX and PDF files
+ * without a round trip to a server.
+ *
+ * @version 1.0.0
+ */
+
+/**
+ * Converts text into a string that is safe to use as a file name
+ * @param name - Raw file name (without extension)
+ * @returns File name with unsafe characters replaced by dashes
+ */
+export const sanitizeFileName = (name: string): string => {
+  const sanitized = (name || '')
+    .trim()
+    .replace(/[^A-Za-z0-9._-]+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+
+  return sanitized || 'download';
+};
+
+/**
+ * Triggers a browser download of a Blob
+ * @param blob - File contents
+ * @param fileName - File name including extension
+ */
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+
+  link.href = url;
+  link.download = fileName;
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  // Revoke on the next tick so the download has started before the URL is released
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
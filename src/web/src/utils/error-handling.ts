@@ -47,15 +47,20 @@ export const mapErrorToAppError = (error: any): AppError => {
       );
     }
 
-    // Authentication errors (401, 403)
-    if (status === 401 || status === 403) {
+    // Authentication errors (401), telling an expired key apart from an unknown one
+    if (status === 401) {
       return createAuthenticationError(
         status,
-        status === 401 ? ErrorCode.INVALID_API_KEY : ErrorCode.MISSING_API_KEY,
+        responseData?.error?.code === ErrorCode.EXPIRED_API_KEY ? ErrorCode.EXPIRED_API_KEY : ErrorCode.INVALID_API_KEY,
         message
       );
     }
 
+    // The key is valid but may not access the venue (403)
+    if (status === 403) {
+      return createAuthenticationError(status, ErrorCode.LANDMARK_FORBIDDEN, message);
+    }
+
     // Validation errors (400, 422)
     if (status === 400 || status === 422) {
       return createValidationError(
@@ -123,7 +128,7 @@ export const createNetworkError = (
 /**
  * Creates an AuthenticationError object with appropriate properties
  * @param statusCode - HTTP status code
- * @param code - Specific error code (INVALID_API_KEY or MISSING_API_KEY)
+ * @param code - Specific error code (INVALID_API_KEY, MISSING_API_KEY, EXPIRED_API_KEY or LANDMARK_FORBIDDEN)
  * @param message - Error message
  * @returns A properly formatted authentication error
  */
@@ -0,0 +1,375 @@
+import { Workbook } from 'exceljs'; // ^4.4.0
+import {
+  ImportFileFormat,
+  ImportablePassField,
+  ImportColumnMapping,
+  ParsedImportFile,
+  ImportedPassRow
+} from '../types/import.types';
+import { PassFormData } from '../types/form.types';
+import { SpotType } from '../types/api.types';
+import { validatePassForm, validateBarcode } from './validation';
+
+/**
+ * Utility functions for importing passes from CSV and Excel files.
+ * Files are parsed into a header row and data rows, spreadsheet columns are
+ * mapped to pass form fields, and every mapped row is run through the same
+ * validation used by the pass creation form so problems can be previewed
+ * before any rows are added to the batch.
+ *
+ * @version 1.0.0
+ */
+
+/**
+ * Pass form fields that can be mapped from an imported file, in display order
+ */
+export const IMPORTABLE_PASS_FIELDS: ImportablePassField[] = [
+  'accountId',
+  'barcode',
+  'customerName',
+  'spotType',
+  'lotId'
+];
+
+/**
+ * Normalized header names recognised for each importable field when suggesting a column mapping
+ */
+export const IMPORT_FIELD_ALIASES: Record<ImportablePassField, string[]> = {
+  accountId: ['accountid', 'account', 'accountnumber', 'accountno'],
+  barcode: ['barcode', 'barcodeid', 'code', 'passbarcode'],
+  customerName: ['customername', 'customer', 'name', 'fullname', 'guestname'],
+  spotType: ['spottype', 'spot', 'type', 'parkingtype', 'passtype'],
+  lotId: ['lotid', 'lot', 'parkinglot', 'lotnumber']
+};
+
+/**
+ * Normalizes a header value for alias matching by lowercasing and removing non-alphanumerics
+ * @param header - Raw header value
+ * @returns Normalized header value
+ */
+const normalizeHeader = (header: string): string => {
+  return (header || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+};
+
+/**
+ * Checks whether a row has at least one non-empty cell
+ * @param row - Row to check
+ * @returns True if any cell has a value
+ */
+const hasValues = (row: string[]): boolean => {
+  return row.some(cell => cell.trim() !== '');
+};
+
+/**
+ * Removes rows whose cells are all empty
+ * @param rows - Rows to filter
+ * @returns Rows containing at least one non-empty cell
+ */
+const removeEmptyRows = (rows: string[][]): string[][] => {
+  return rows.filter(hasValues);
+};
+
+/**
+ * Detects the import format of a file from its name
+ * @param fileName - Name of the file
+ * @returns The detected format, or null if the file type is not supported
+ */
+export const detectImportFormat = (fileName: string): ImportFileFormat | null => {
+  const extension = (fileName || '').split('.').pop()?.toLowerCase();
+
+  if (extension === 'csv') {
+    return ImportFileFormat.CSV;
+  }
+
+  if (extension === 'xlsx') {
+    return ImportFileFormat.XLSX;
+  }
+
+  return null;
+};
+
+/**
+ * Splits CSV text into rows of cells, keeping empty rows so each row's index matches
+ * its position in the file.
+ * Supports quoted cells containing commas, line breaks and escaped ("") quotes,
+ * both LF and CRLF line endings, and a leading byte order mark.
+ *
+ * @param content - CSV text content
+ * @returns Array of rows, each an array of cell values
+ */
+const readCsvRows = (content: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const text = content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+      // Treat CRLF as a single line break
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+    } else {
+      cell += char;
+    }
+  }
+
+  // Flush the last row if the content doesn't end with a line break
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+/**
+ * Parses CSV text into rows of cells, skipping empty rows
+ * @param content - CSV text content
+ * @returns Array of rows, each an array of cell values
+ */
+export const parseCsvContent = (content: string): string[][] => {
+  return removeEmptyRows(readCsvRows(content));
+};
+
+/**
+ * Reads the first sheet of an Excel workbook into rows of cells, keeping empty rows so
+ * each row's index matches its row number in the sheet
+ * @param data - Workbook file contents
+ * @returns Promise resolving to the rows, each an array of cell values as displayed in Excel
+ */
+const readXlsxRows = async (data: ArrayBuffer): Promise<string[][]> => {
+  const workbook = new Workbook();
+  await workbook.xlsx.load(data);
+
+  const sheet = workbook.worksheets[0];
+  const rows: string[][] = [];
+
+  if (!sheet) {
+    return rows;
+  }
+
+  sheet.eachRow((row, rowNumber) => {
+    const cells: string[] = [];
+    row.eachCell({ includeEmpty: true }, cell => {
+      cells.push(cell.text || '');
+    });
+    rows[rowNumber - 1] = cells;
+  });
+
+  // eachRow skips empty rows, leaving gaps in the array
+  return Array.from(rows, row => row || []);
+};
+
+/**
+ * Parses the first sheet of an Excel workbook into rows of cells, skipping empty rows
+ * @param data - Workbook file contents
+ * @returns Promise resolving to the rows, each an array of cell values as displayed in Excel
+ */
+export const parseXlsxContent = async (data: ArrayBuffer): Promise<string[][]> => {
+  return removeEmptyRows(await readXlsxRows(data));
+};
+
+/**
+ * Reads the contents of a text file, such as a CSV or JSON file selected by the user
+ * @param file - File to read
+ * @returns Promise resolving to the file's text
+ */
+export const readTextFile = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error || new Error(`Failed to read file ${file.name}`));
+    reader.readAsText(file);
+  });
+};
+
+/**
+ * Reads the contents of a binary file, such as an Excel workbook selected by the user
+ * @param file - File to read
+ * @returns Promise resolving to the file's contents
+ */
+const readBinaryFile = (file: File): Promise<ArrayBuffer> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error || new Error(`Failed to read file ${file.name}`));
+    reader.readAsArrayBuffer(file);
+  });
+};
+
+/**
+ * Reads and parses an imported CSV or Excel file.
+ * The first non-empty row is treated as the header row, and each data row keeps its
+ * row number in the file so problems can be reported against the right row.
+ *
+ * @param file - File selected by the user
+ * @returns Promise resolving to the parsed file
+ * @throws Error if the file type is not supported or the file contains no data rows
+ */
+export const parseImportFile = async (file: File): Promise<ParsedImportFile> => {
+  const format = detectImportFormat(file.name);
+
+  if (!format) {
+    throw new Error('Unsupported file type. Please select a .csv or .xlsx file.');
+  }
+
+  const allRows =
+    format === ImportFileFormat.CSV
+      ? readCsvRows(await readTextFile(file))
+      : await readXlsxRows(await readBinaryFile(file));
+
+  // Row numbers are 1-based, as shown in a spreadsheet
+  const numberedRows = allRows
+    .map((cells, index) => ({ cells, rowNumber: index + 1 }))
+    .filter(row => hasValues(row.cells));
+
+  if (numberedRows.length < 2) {
+    throw new Error('The selected file does not contain any pass rows.');
+  }
+
+  const [header, ...rows] = numberedRows;
+
+  return {
+    fileName: file.name,
+    format,
+    headers: header.cells.map(cell => cell.trim()),
+    rows: rows.map(row => row.cells),
+    rowNumbers: rows.map(row => row.rowNumber)
+  };
+};
+
+/**
+ * Suggests a column mapping by matching header names against known field aliases
+ * @param headers - Header row values from the imported file
+ * @returns Column mapping with unmatched fields set to null
+ */
+export const suggestColumnMapping = (headers: string[]): ImportColumnMapping => {
+  const normalizedHeaders = headers.map(normalizeHeader);
+  const usedColumns = new Set<number>();
+
+  return IMPORTABLE_PASS_FIELDS.reduce((mapping, field) => {
+    const columnIndex = normalizedHeaders.findIndex(
+      (header, index) => !usedColumns.has(index) && IMPORT_FIELD_ALIASES[field].includes(header)
+    );
+
+    if (columnIndex !== -1) {
+      usedColumns.add(columnIndex);
+    }
+
+    mapping[field] = columnIndex === -1 ? null : columnIndex;
+    return mapping;
+  }, {} as ImportColumnMapping);
+};
+
+/**
+ * Normalizes an imported spot type value to a SpotType, ignoring case and surrounding whitespace.
+ * Unrecognised values are returned unchanged so validation can report them.
+ *
+ * @param value - Raw spot type value from the file
+ * @returns Matching SpotType, or SpotType.REGULAR when the value is empty
+ */
+export const normalizeSpotType = (value: string): SpotType => {
+  const trimmed = (value || '').trim();
+
+  if (!trimmed) {
+    return SpotType.REGULAR;
+  }
+
+  const match = Object.values(SpotType).find(
+    spotType => spotType.toLowerCase() === trimmed.toLowerCase()
+  );
+
+  return (match || trimmed) as SpotType;
+};
+
+/**
+ * Builds pass form data from an imported row using the given column mapping
+ * @param row - Cell values of the imported row
+ * @param mapping - Column mapping to apply
+ * @param eventId - Event ID to assign to the pass
+ * @returns Pass form data for the row
+ */
+export const mapRowToPassFormData = (
+  row: string[],
+  mapping: ImportColumnMapping,
+  eventId: string
+): PassFormData => {
+  const getValue = (field: ImportablePassField): string => {
+    const columnIndex = mapping[field];
+    return columnIndex === null ? '' : (row[columnIndex] || '').trim();
+  };
+
+  return {
+    eventId,
+    accountId: getValue('accountId'),
+    barcode: getValue('barcode'),
+    customerName: getValue('customerName'),
+    spotType: normalizeSpotType(getValue('spotType')),
+    lotId: getValue('lotId')
+  };
+};
+
+/**
+ * Maps and validates every row of an imported file.
+ * Each row is validated with validatePassForm, and barcodes repeated within
+ * the file are flagged as duplicates on every row after the first.
+ *
+ * @param parsedFile - Parsed import file
+ * @param mapping - Column mapping to apply
+ * @param eventId - Event ID to assign to the imported passes
+ * @returns Validated rows in file order
+ */
+export const buildImportedPassRows = (
+  parsedFile: ParsedImportFile,
+  mapping: ImportColumnMapping,
+  eventId: string
+): ImportedPassRow[] => {
+  const seenBarcodes: string[] = [];
+
+  return parsedFile.rows.map((row, index) => {
+    const data = mapRowToPassFormData(row, mapping, eventId);
+    const errors: Record<string, string> = { ...validatePassForm(data).errors };
+
+    if (!errors.barcode) {
+      const duplicateResult = validateBarcode(data.barcode, seenBarcodes);
+      Object.assign(errors, duplicateResult.errors);
+    }
+
+    if (data.barcode) {
+      seenBarcodes.push(data.barcode);
+    }
+
+    return {
+      rowNumber: parsedFile.rowNumbers[index],
+      data,
+      isValid: Object.keys(errors).length === 0,
+      errors
+    };
+  });
+};
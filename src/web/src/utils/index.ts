@@ -9,15 +9,24 @@
 // API helper utilities
 export * from './api-helpers';
 
+// Passphrase-based encryption utilities
+export * from './crypto-helpers';
+
 // Date formatting and manipulation utilities
 export * from './date-helpers';
 
+// File download utilities
+export * from './download-helpers';
+
 // Error handling utilities
 export * from './error-handling';
 
 // Text formatting utilities
 export * from './formatting';
 
+// CSV and Excel pass import utilities
+export * from './import-helpers';
+
 // Retry logic for API calls
 export * from './retry-logic';
 
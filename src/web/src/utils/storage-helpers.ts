@@ -25,11 +25,18 @@ const DEFAULT_STORAGE_OPTIONS: StorageOptions = {
 
 /**
  * Encryption key used for securing sensitive data
- * Note: In a production environment, this should be stored more securely
- * or derived from user input.
+ * Note: This key ships with the app, so it only obscures stored data. Vault mode
+ * (services/vault) protects the API key with a key derived from the user's passphrase.
  */
 const ENCRYPTION_KEY = 'PARKHUB_SECURE_STORAGE_KEY';
 
+/**
+ * Returns the AES key for ENCRYPTION_KEY. AES needs a 128, 192 or 256-bit key; the 26-byte
+ * constant used directly encrypts but never decrypts, so it is hashed to 256 bits.
+ * @returns The encryption key
+ */
+const getEncryptionKey = (): crypto.lib.WordArray => crypto.SHA256(ENCRYPTION_KEY);
+
 /**
  * Returns the appropriate Storage object (localStorage or sessionStorage) based on the storage type
  * @param storageType - Type of storage to use
@@ -84,7 +91,7 @@ export const encryptData = (data: any): EncryptedData => {
     const iv = crypto.lib.WordArray.random(16);
     
     // Create encryption key
-    const key = crypto.enc.Utf8.parse(ENCRYPTION_KEY);
+    const key = getEncryptionKey();
     
     // Encrypt data
     const encrypted = crypto.AES.encrypt(jsonData, key, {
@@ -114,7 +121,7 @@ export const decryptData = (encryptedData: EncryptedData): any => {
     const { data, iv } = encryptedData;
     
     // Create encryption key
-    const key = crypto.enc.Utf8.parse(ENCRYPTION_KEY);
+    const key = getEncryptionKey();
     
     // Create IV from string
     const ivParams = crypto.enc.Hex.parse(iv);
@@ -4,7 +4,11 @@ import userEvent from '@testing-library/user-event'; // v14.4.3
 import { renderHook } from '@testing-library/react-hooks'; // v8.0.1
 
 import { ApiKeyProvider } from '../context/ApiKeyContext';
+import { LandmarkProvider } from '../context/LandmarkContext';
 import { NotificationProvider } from '../context/NotificationContext';
+import { OfflineProvider } from '../context/OfflineContext';
+import { ProfileProvider } from '../context/ProfileContext';
+import { ScheduleProvider } from '../context/ScheduleContext';
 import { apiKeyStorage } from '../services/storage/apiKeyStorage';
 import { apiServices } from '../services/api';
 
@@ -25,11 +29,19 @@ export const renderWithProviders = (
   // Create wrapper with all required providers
   const AllTheProviders = ({ children }: { children: React.ReactNode }) => {
     return (
-      <ApiKeyProvider>
-        <NotificationProvider>
-          {children}
-        </NotificationProvider>
-      </ApiKeyProvider>
+      <NotificationProvider>
+        <ProfileProvider>
+          <ApiKeyProvider>
+            <LandmarkProvider>
+              <OfflineProvider>
+                <ScheduleProvider>
+                  {children}
+                </ScheduleProvider>
+              </OfflineProvider>
+            </LandmarkProvider>
+          </ApiKeyProvider>
+        </ProfileProvider>
+      </NotificationProvider>
     );
   };
 
@@ -75,11 +87,19 @@ export const renderHookWithProviders = (
   // Create wrapper with all required providers
   const AllTheProviders = ({ children }: { children: React.ReactNode }) => {
     return (
-      <ApiKeyProvider>
-        <NotificationProvider>
-          {children}
-        </NotificationProvider>
-      </ApiKeyProvider>
+      <NotificationProvider>
+        <ProfileProvider>
+          <ApiKeyProvider>
+            <LandmarkProvider>
+              <OfflineProvider>
+                <ScheduleProvider>
+                  {children}
+                </ScheduleProvider>
+              </OfflineProvider>
+            </LandmarkProvider>
+          </ApiKeyProvider>
+        </ProfileProvider>
+      </NotificationProvider>
     );
   };
 
@@ -8,7 +8,7 @@ import {
 import { FIELD_ERROR_MESSAGES } from '../constants/errorMessages';
 import { FormField, PassFormData } from '../types/form.types';
 import { ValidationResult } from '../types/common.types';
-import { SpotType } from '../types/api.types';
+import { SpotType, ParkHubPass, CreatePassRequest } from '../types/api.types';
 import { ErrorType, ErrorCode } from '../types/error.types';
 
 /**
@@ -226,6 +226,60 @@ export const validateBarcode = (
   return { isValid: true, errors: {} };
 };
 
+/**
+ * Finds barcodes in a batch that would be rejected as duplicates, either because another
+ * row in the batch uses the same barcode or because a pass with the barcode already exists
+ * 
+ * @param barcodes - Barcodes of the batch rows, in row order
+ * @param existingBarcodes - Barcodes of passes that already exist for the event
+ * @returns Duplicate error messages keyed by row index; rows without a conflict are omitted
+ */
+export const findDuplicateBarcodes = (
+  barcodes: string[],
+  existingBarcodes: string[] = []
+): Record<number, string> => {
+  const existing = new Set(existingBarcodes);
+  const counts = new Map<string, number>();
+  const conflicts: Record<number, string> = {};
+
+  barcodes.forEach(barcode => {
+    const key = barcode.trim();
+    if (key) {
+      counts.set(key, (counts.get(key) || 0) + 1);
+    }
+  });
+
+  barcodes.forEach((barcode, index) => {
+    const key = barcode.trim();
+
+    if (!key) {
+      return;
+    }
+
+    if (existing.has(key)) {
+      conflicts[index] = VALIDATION_RULES.barcode.errorMessages.duplicate;
+    } else if ((counts.get(key) || 0) > 1) {
+      conflicts[index] = VALIDATION_RULES.barcode.errorMessages.batchDuplicate;
+    }
+  });
+
+  return conflicts;
+};
+
+/**
+ * Checks whether an existing pass was created from a pass creation request, judged by
+ * its barcode, account and customer name
+ * 
+ * @param pass - Pass that exists in ParkHub
+ * @param request - Pass creation request
+ * @returns True if the pass matches the request, false otherwise
+ */
+export const matchesPassRequest = (pass: ParkHubPass, request: CreatePassRequest): boolean => {
+  return pass.barcode === request.barcode &&
+    pass.accountId === request.accountId &&
+    pass.customerName === request.customerName;
+};
+
 /**
  * Checks if a form is valid by validating all fields
  * 
@@ -10,6 +10,18 @@ interface ImportMetaEnv {
   readonly VITE_API_BASE_URL: string;
   // Default API key for development (not used in production)
   readonly VITE_API_KEY?: string;
+  // Default landmark (venue) ID
+  readonly VITE_API_LANDMARK_ID?: string;
+  // API request timeout in milliseconds
+  readonly VITE_API_TIMEOUT?: string;
+  // Number of times a failed API request is retried
+  readonly VITE_API_RETRY_COUNT?: string;
+  // How long cached events and passes are used, in milliseconds
+  readonly VITE_CACHE_DURATION?: string;
+  // Set to "true" to answer API requests with the in-browser mock ParkHub API
+  readonly VITE_ENABLE_MOCK_API?: string;
+  // Google Wallet issuer ID that exported Google Wallet passes are issued under
+  readonly VITE_GOOGLE_WALLET_ISSUER_ID?: string;
   // Application version from package.json
   readonly VITE_APP_VERSION: string;
   // Vite's built-in env vars: